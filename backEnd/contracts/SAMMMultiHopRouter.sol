@@ -0,0 +1,79 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "./interfaces/ISAMMPool.sol";
+import "./interfaces/ISAMMMultiHopRouter.sol";
+
+/**
+ * @title SAMMMultiHopRouter
+ * @notice Executes a multi-hop swap across SAMM pool shards in one transaction
+ * @dev Every hop is an exact-output `swapSAMM`, so each hop keeps the
+ *      c-non-splitting property of its shard. If any hop reverts, the whole
+ *      swap reverts and the user never holds an intermediate token.
+ *
+ * Flow:
+ * - Pull `maxAmountsIn[0]` of the input token from the sender (one approval)
+ * - Hop i swaps `tokens[i]` for exactly `amountsOut[i]` of `tokens[i + 1]`,
+ *   paying at most `maxAmountsIn[i]`; intermediate outputs stay in the router
+ * - The last hop pays the recipient; unspent input and intermediate
+ *   leftovers are refunded to the sender
+ *
+ * The router holds no funds between transactions.
+ */
+contract SAMMMultiHopRouter is ReentrancyGuard, ISAMMMultiHopRouter {
+    using SafeERC20 for IERC20;
+
+    /**
+     * @notice Swap through `pools` in order
+     * @param pools Pool shard of each hop
+     * @param amountsOut Exact output of each hop
+     * @param maxAmountsIn Maximum input of each hop
+     * @param tokens Token path, one longer than `pools`
+     * @param recipient Address receiving the final output
+     * @param deadline Timestamp after which the swap reverts
+     * @return amountIn Input token spent by the sender
+     */
+    function executeMultiHopSwap(
+        address[] calldata pools,
+        uint256[] calldata amountsOut,
+        uint256[] calldata maxAmountsIn,
+        address[] calldata tokens,
+        address recipient,
+        uint256 deadline
+    ) external override nonReentrant returns (uint256 amountIn) {
+        uint256 hops = pools.length;
+        require(block.timestamp <= deadline, "SAMMRouter: expired");
+        require(hops > 0, "SAMMRouter: no hops");
+        require(
+            amountsOut.length == hops && maxAmountsIn.length == hops && tokens.length == hops + 1,
+            "SAMMRouter: length mismatch"
+        );
+        require(recipient != address(0), "SAMMRouter: zero recipient");
+
+        IERC20(tokens[0]).safeTransferFrom(msg.sender, address(this), maxAmountsIn[0]);
+
+        // Input available to the current hop: the pulled input, then each hop's output
+        uint256 available = maxAmountsIn[0];
+        for (uint256 i = 0; i < hops; i++) {
+            uint256 maxIn = maxAmountsIn[i] < available ? maxAmountsIn[i] : available;
+            address to = i == hops - 1 ? recipient : address(this);
+
+            IERC20(tokens[i]).forceApprove(pools[i], maxIn);
+            uint256 spent = ISAMMPool(pools[i]).swapSAMM(amountsOut[i], maxIn, tokens[i], tokens[i + 1], to);
+            IERC20(tokens[i]).forceApprove(pools[i], 0);
+
+            if (i == 0) {
+                amountIn = spent;
+            }
+            if (available > spent) {
+                IERC20(tokens[i]).safeTransfer(msg.sender, available - spent);
+            }
+            available = amountsOut[i];
+        }
+
+        emit MultiHopSwap(msg.sender, recipient, tokens[0], tokens[hops], amountIn, amountsOut[hops - 1], hops);
+    }
+}
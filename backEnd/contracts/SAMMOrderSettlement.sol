@@ -0,0 +1,141 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "./interfaces/ISAMMPool.sol";
+import "./interfaces/ISAMMOrderSettlement.sol";
+
+/**
+ * @title SAMMOrderSettlement
+ * @notice Settles EIP-712 signed limit and TWAP orders against SAMM shards
+ * @dev An order buys exactly `amountOut` of `tokenOut` for at most `maxAmountIn`
+ *      of `tokenIn`, which fixes its limit price. It is split into `slices`
+ *      equal parts; slice `k` may be filled from `startTime + k * interval`
+ *      until `expiry`. A limit order is a single slice.
+ *
+ * Anyone may fill a due slice (in practice the backend keeper), choosing the
+ * shard it swaps through. The slice's output and input cap come from the
+ * signed order, and the maker's output balance is checked after the swap, so
+ * the filler cannot give the maker a worse price than the one signed.
+ *
+ * Makers approve `tokenIn` to this contract. Unspent input of a slice is
+ * returned to the maker; the contract holds no funds between transactions.
+ */
+contract SAMMOrderSettlement is ReentrancyGuard, ISAMMOrderSettlement {
+    using SafeERC20 for IERC20;
+
+    bytes32 private constant DOMAIN_TYPEHASH = keccak256(
+        "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+    );
+    bytes32 private constant NAME_HASH = keccak256("SAMMOrderSettlement");
+    bytes32 private constant VERSION_HASH = keccak256("1");
+
+    bytes32 public constant ORDER_TYPEHASH = keccak256(
+        "Order(address maker,address tokenIn,address tokenOut,uint256 amountOut,uint256 maxAmountIn,uint256 slices,uint256 interval,uint256 startTime,uint256 expiry,uint256 nonce)"
+    );
+
+    /// @notice Number of slices of an order filled so far
+    mapping(bytes32 => uint256) public override filledSlices;
+
+    /// @notice Whether the maker cancelled an order
+    mapping(bytes32 => bool) public override cancelled;
+
+    /**
+     * @notice EIP-712 domain separator for the current chain
+     */
+    function domainSeparator() public view returns (bytes32) {
+        return keccak256(abi.encode(DOMAIN_TYPEHASH, NAME_HASH, VERSION_HASH, block.chainid, address(this)));
+    }
+
+    /**
+     * @notice Fill the next slice of a signed order through `pool`
+     * @param order Order signed by its maker
+     * @param signature Maker's EIP-712 signature of the order
+     * @param pool Shard of the order's pair to swap through
+     * @return amountIn Input spent on the slice
+     * @return amountOut Output paid to the maker
+     */
+    function fillOrder(
+        Order calldata order,
+        bytes calldata signature,
+        address pool
+    ) external override nonReentrant returns (uint256 amountIn, uint256 amountOut) {
+        require(block.timestamp <= order.expiry, "SAMMOrderSettlement: expired");
+        require(order.slices > 0 && order.amountOut > 0 && order.maxAmountIn > 0, "SAMMOrderSettlement: invalid order");
+
+        bytes32 orderHash = hashOrder(order);
+        require(!cancelled[orderHash], "SAMMOrderSettlement: cancelled");
+        uint256 slice = filledSlices[orderHash];
+        require(slice < order.slices, "SAMMOrderSettlement: filled");
+        require(block.timestamp >= order.startTime + slice * order.interval, "SAMMOrderSettlement: slice not due");
+        (address signer, ECDSA.RecoverError error, ) = ECDSA.tryRecover(orderHash, signature);
+        require(
+            error == ECDSA.RecoverError.NoError && signer == order.maker,
+            "SAMMOrderSettlement: invalid signature"
+        );
+
+        filledSlices[orderHash] = slice + 1;
+        amountOut = _sliceAmount(order.amountOut, slice, order.slices);
+        uint256 maxAmountIn = _sliceAmount(order.maxAmountIn, slice, order.slices);
+
+        IERC20(order.tokenIn).safeTransferFrom(order.maker, address(this), maxAmountIn);
+        uint256 balanceBefore = IERC20(order.tokenOut).balanceOf(order.maker);
+
+        IERC20(order.tokenIn).forceApprove(pool, maxAmountIn);
+        amountIn = ISAMMPool(pool).swapSAMM(amountOut, maxAmountIn, order.tokenIn, order.tokenOut, order.maker);
+        IERC20(order.tokenIn).forceApprove(pool, 0);
+
+        require(amountIn <= maxAmountIn, "SAMMOrderSettlement: excessive input");
+        require(
+            IERC20(order.tokenOut).balanceOf(order.maker) - balanceBefore >= amountOut,
+            "SAMMOrderSettlement: insufficient output"
+        );
+
+        if (maxAmountIn > amountIn) {
+            IERC20(order.tokenIn).safeTransfer(order.maker, maxAmountIn - amountIn);
+        }
+
+        emit OrderFilled(orderHash, order.maker, pool, slice, amountIn, amountOut);
+    }
+
+    /**
+     * @notice Cancel an order on-chain so its remaining slices can never be filled
+     * @param order Order to cancel; only its maker may cancel it
+     */
+    function cancelOrder(Order calldata order) external override {
+        require(msg.sender == order.maker, "SAMMOrderSettlement: not maker");
+        bytes32 orderHash = hashOrder(order);
+        cancelled[orderHash] = true;
+        emit OrderCancelled(orderHash, order.maker);
+    }
+
+    /**
+     * @notice EIP-712 digest the maker signs
+     */
+    function hashOrder(Order calldata order) public view override returns (bytes32) {
+        bytes32 structHash = keccak256(abi.encode(
+            ORDER_TYPEHASH,
+            order.maker,
+            order.tokenIn,
+            order.tokenOut,
+            order.amountOut,
+            order.maxAmountIn,
+            order.slices,
+            order.interval,
+            order.startTime,
+            order.expiry,
+            order.nonce
+        ));
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+    }
+
+    /**
+     * @dev Share of `total` for slice `slice`; the slices add up to `total` exactly
+     */
+    function _sliceAmount(uint256 total, uint256 slice, uint256 slices) private pure returns (uint256) {
+        return total * (slice + 1) / slices - total * slice / slices;
+    }
+}
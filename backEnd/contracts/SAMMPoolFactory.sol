@@ -157,6 +157,17 @@ contract SAMMPoolFactory is Ownable, ReentrancyGuard, ISAMMPoolFactory {
             info.feeParams.ownerFeeDenominator
         );
         
+        // The pool starts on the default curve; apply the parameters the shard was created with
+        SAMMPool(shard).updateSAMMParams(
+            info.sammParams.beta1,
+            info.sammParams.rmin,
+            info.sammParams.rmax,
+            info.sammParams.c
+        );
+        
+        // LP tokens were minted to the factory as pool owner; hand them to the provider
+        IERC20(shard).transfer(msg.sender, IERC20(shard).balanceOf(address(this)));
+        
         emit ShardInitialized(shard, amountA, amountB, lpTokens);
         
         return lpTokens;
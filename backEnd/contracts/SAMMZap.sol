@@ -0,0 +1,161 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "./interfaces/ISAMMPool.sol";
+import "./interfaces/ISAMMZap.sol";
+
+/**
+ * @title SAMMZap
+ * @notice Adds or removes SAMM shard liquidity with a single token in one transaction
+ * @dev The swap half of a zap goes through a different shard of the same pair,
+ *      so it does not move the price of the shard being deposited into or
+ *      withdrawn from. The LP (zap-in) or output (zap-out) minimum is checked
+ *      after every step, so it protects the whole sequence.
+ *
+ * Zap-in:
+ * - Pull `amountIn` of `tokenIn` from the sender
+ * - Buy exactly `swapAmountOut` of the other token from `swapPool`, paying at most `maxSwapAmountIn`
+ * - Deposit the rest of `tokenIn` and the bought tokens into `pool`, minting LP tokens to the recipient
+ * - Refund whatever the deposit did not take to the sender
+ *
+ * Zap-out:
+ * - Pull `liquidity` LP tokens of `pool` from the sender and burn them
+ * - Sell the other token for exactly `swapAmountOut` of `tokenOut` through `swapPool`
+ * - Pay all of `tokenOut` and any unsold remainder of the other token to the recipient
+ *
+ * The zap holds no funds between transactions.
+ */
+contract SAMMZap is ReentrancyGuard, ISAMMZap {
+    using SafeERC20 for IERC20;
+
+    /**
+     * @notice Add liquidity to `pool` from a single token
+     * @param pool Shard receiving the liquidity
+     * @param swapPool Another shard of the same pair, used for the swap
+     * @param tokenIn Token paid in, either token of the pair
+     * @param amountIn Amount of `tokenIn` pulled from the sender
+     * @param swapAmountOut Exact amount of the other token to buy
+     * @param maxSwapAmountIn Maximum `tokenIn` the swap may spend
+     * @param minLiquidity Minimum LP tokens minted
+     * @param recipient Address receiving the LP tokens
+     * @param deadline Timestamp after which the zap reverts
+     * @return liquidity LP tokens minted to the recipient
+     */
+    function zapIn(
+        address pool,
+        address swapPool,
+        address tokenIn,
+        uint256 amountIn,
+        uint256 swapAmountOut,
+        uint256 maxSwapAmountIn,
+        uint256 minLiquidity,
+        address recipient,
+        uint256 deadline
+    ) external override nonReentrant returns (uint256 liquidity) {
+        require(block.timestamp <= deadline, "SAMMZap: expired");
+        require(amountIn > 0 && swapAmountOut > 0, "SAMMZap: zero amount");
+        require(maxSwapAmountIn < amountIn, "SAMMZap: swap exceeds input");
+        require(recipient != address(0), "SAMMZap: zero recipient");
+        (address tokenA, address tokenB) = _pairOf(pool, swapPool);
+        require(tokenIn == tokenA || tokenIn == tokenB, "SAMMZap: invalid token");
+        address tokenOther = tokenIn == tokenA ? tokenB : tokenA;
+
+        IERC20(tokenIn).safeTransferFrom(msg.sender, address(this), amountIn);
+
+        IERC20(tokenIn).forceApprove(swapPool, maxSwapAmountIn);
+        uint256 spent = ISAMMPool(swapPool).swapSAMM(swapAmountOut, maxSwapAmountIn, tokenIn, tokenOther, address(this));
+        IERC20(tokenIn).forceApprove(swapPool, 0);
+
+        (uint256 amountADesired, uint256 amountBDesired) = tokenIn == tokenA
+            ? (amountIn - spent, swapAmountOut)
+            : (swapAmountOut, amountIn - spent);
+
+        IERC20(tokenA).forceApprove(pool, amountADesired);
+        IERC20(tokenB).forceApprove(pool, amountBDesired);
+        uint256 amountA;
+        uint256 amountB;
+        (amountA, amountB, liquidity) = ISAMMPool(pool).addLiquidity(amountADesired, amountBDesired, 0, 0, recipient);
+        IERC20(tokenA).forceApprove(pool, 0);
+        IERC20(tokenB).forceApprove(pool, 0);
+
+        require(liquidity >= minLiquidity, "SAMMZap: insufficient liquidity");
+
+        if (amountADesired > amountA) {
+            IERC20(tokenA).safeTransfer(msg.sender, amountADesired - amountA);
+        }
+        if (amountBDesired > amountB) {
+            IERC20(tokenB).safeTransfer(msg.sender, amountBDesired - amountB);
+        }
+
+        emit ZapIn(msg.sender, recipient, pool, tokenIn, amountIn, liquidity);
+    }
+
+    /**
+     * @notice Remove liquidity from `pool` into a single token
+     * @param pool Shard the LP tokens belong to
+     * @param swapPool Another shard of the same pair, used for the swap
+     * @param liquidity LP tokens pulled from the sender and burned
+     * @param tokenOut Token paid out, either token of the pair
+     * @param swapAmountOut Exact amount of `tokenOut` bought with the other token; zero skips the swap
+     * @param minAmountOut Minimum total `tokenOut` paid to the recipient
+     * @param recipient Address receiving the tokens
+     * @param deadline Timestamp after which the zap reverts
+     * @return amountOut Total `tokenOut` paid to the recipient
+     */
+    function zapOut(
+        address pool,
+        address swapPool,
+        uint256 liquidity,
+        address tokenOut,
+        uint256 swapAmountOut,
+        uint256 minAmountOut,
+        address recipient,
+        uint256 deadline
+    ) external override nonReentrant returns (uint256 amountOut) {
+        require(block.timestamp <= deadline, "SAMMZap: expired");
+        require(liquidity > 0, "SAMMZap: zero amount");
+        require(recipient != address(0), "SAMMZap: zero recipient");
+        (address tokenA, address tokenB) = _pairOf(pool, swapPool);
+        require(tokenOut == tokenA || tokenOut == tokenB, "SAMMZap: invalid token");
+        address tokenOther = tokenOut == tokenA ? tokenB : tokenA;
+
+        IERC20(pool).safeTransferFrom(msg.sender, address(this), liquidity);
+        (uint256 amountA, uint256 amountB) = ISAMMPool(pool).removeLiquidity(liquidity, 0, 0, address(this));
+        (uint256 received, uint256 otherAmount) = tokenOut == tokenA ? (amountA, amountB) : (amountB, amountA);
+
+        uint256 spent;
+        if (swapAmountOut > 0) {
+            IERC20(tokenOther).forceApprove(swapPool, otherAmount);
+            spent = ISAMMPool(swapPool).swapSAMM(swapAmountOut, otherAmount, tokenOther, tokenOut, address(this));
+            IERC20(tokenOther).forceApprove(swapPool, 0);
+        }
+
+        amountOut = received + swapAmountOut;
+        require(amountOut >= minAmountOut, "SAMMZap: insufficient output");
+
+        IERC20(tokenOut).safeTransfer(recipient, amountOut);
+        if (otherAmount > spent) {
+            IERC20(tokenOther).safeTransfer(recipient, otherAmount - spent);
+        }
+
+        emit ZapOut(msg.sender, recipient, pool, tokenOut, liquidity, amountOut);
+    }
+
+    /**
+     * @dev Token pair shared by two distinct shards; reverts if they trade different pairs
+     */
+    function _pairOf(address pool, address swapPool) private view returns (address tokenA, address tokenB) {
+        require(pool != swapPool, "SAMMZap: swap through target shard");
+        ISAMMPool.PoolState memory state = ISAMMPool(pool).getPoolState();
+        ISAMMPool.PoolState memory swapState = ISAMMPool(swapPool).getPoolState();
+        require(
+            (swapState.tokenA == state.tokenA && swapState.tokenB == state.tokenB) ||
+            (swapState.tokenA == state.tokenB && swapState.tokenB == state.tokenA),
+            "SAMMZap: pair mismatch"
+        );
+        return (state.tokenA, state.tokenB);
+    }
+}
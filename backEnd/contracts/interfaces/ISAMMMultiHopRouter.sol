@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title ISAMMMultiHopRouter
+ * @notice Interface for the SAMM multi-hop router contract
+ */
+interface ISAMMMultiHopRouter {
+    // Events
+    event MultiHopSwap(
+        address indexed sender,
+        address indexed recipient,
+        address indexed tokenIn,
+        address tokenOut,
+        uint256 amountIn,
+        uint256 amountOut,
+        uint256 hops
+    );
+
+    // Functions
+    function executeMultiHopSwap(
+        address[] calldata pools,
+        uint256[] calldata amountsOut,
+        uint256[] calldata maxAmountsIn,
+        address[] calldata tokens,
+        address recipient,
+        uint256 deadline
+    ) external returns (uint256 amountIn);
+}
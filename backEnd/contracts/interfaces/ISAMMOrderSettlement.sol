@@ -0,0 +1,50 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title ISAMMOrderSettlement
+ * @notice Interface for settling signed SAMM limit and TWAP orders
+ */
+interface ISAMMOrderSettlement {
+    // Structs
+    struct Order {
+        address maker;
+        address tokenIn;
+        address tokenOut;
+        uint256 amountOut;
+        uint256 maxAmountIn;
+        uint256 slices;
+        uint256 interval;
+        uint256 startTime;
+        uint256 expiry;
+        uint256 nonce;
+    }
+
+    // Events
+    event OrderFilled(
+        bytes32 indexed orderHash,
+        address indexed maker,
+        address indexed pool,
+        uint256 slice,
+        uint256 amountIn,
+        uint256 amountOut
+    );
+
+    event OrderCancelled(bytes32 indexed orderHash, address indexed maker);
+
+    // Functions
+    function fillOrder(
+        Order calldata order,
+        bytes calldata signature,
+        address pool
+    ) external returns (uint256 amountIn, uint256 amountOut);
+
+    function cancelOrder(Order calldata order) external;
+
+    // View functions
+    function hashOrder(Order calldata order) external view returns (bytes32);
+
+    function filledSlices(bytes32 orderHash) external view returns (uint256);
+
+    function cancelled(bytes32 orderHash) external view returns (bool);
+}
@@ -0,0 +1,51 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title ISAMMZap
+ * @notice Interface for the SAMM single-token liquidity zap contract
+ */
+interface ISAMMZap {
+    // Events
+    event ZapIn(
+        address indexed sender,
+        address indexed recipient,
+        address indexed pool,
+        address tokenIn,
+        uint256 amountIn,
+        uint256 liquidity
+    );
+
+    event ZapOut(
+        address indexed sender,
+        address indexed recipient,
+        address indexed pool,
+        address tokenOut,
+        uint256 liquidity,
+        uint256 amountOut
+    );
+
+    // Functions
+    function zapIn(
+        address pool,
+        address swapPool,
+        address tokenIn,
+        uint256 amountIn,
+        uint256 swapAmountOut,
+        uint256 maxSwapAmountIn,
+        uint256 minLiquidity,
+        address recipient,
+        uint256 deadline
+    ) external returns (uint256 liquidity);
+
+    function zapOut(
+        address pool,
+        address swapPool,
+        uint256 liquidity,
+        address tokenOut,
+        uint256 swapAmountOut,
+        uint256 minAmountOut,
+        address recipient,
+        uint256 deadline
+    ) external returns (uint256 amountOut);
+}
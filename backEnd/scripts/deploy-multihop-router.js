@@ -0,0 +1,51 @@
+/**
+ * Deploy the SAMM Multi-Hop Router
+ * The router executes multi-hop swaps atomically; set its address as
+ * NEXT_PUBLIC_<CHAIN>_ROUTER in the frontend and `routerAddress` in the
+ * cross-pool router config.
+ *
+ * Usage: npx hardhat run scripts/deploy-multihop-router.js --network monad
+ */
+
+const { ethers, network } = require("hardhat");
+const fs = require("fs");
+const path = require("path");
+
+async function main() {
+  const [deployer] = await ethers.getSigners();
+  const { chainId } = await ethers.provider.getNetwork();
+
+  console.log(`🚀 Deploying SAMM Multi-Hop Router to ${network.name} (chain ${chainId})...`);
+  console.log(`Deployer: ${deployer.address}`);
+
+  const Router = await ethers.getContractFactory("SAMMMultiHopRouter");
+  const router = await Router.deploy();
+  await router.waitForDeployment();
+
+  const routerAddress = await router.getAddress();
+  console.log(`✅ Router deployed: ${routerAddress}`);
+
+  const deploymentInfo = {
+    network: network.name,
+    chainId: Number(chainId),
+    router: routerAddress,
+    deployer: deployer.address,
+    transactionHash: router.deploymentTransaction().hash,
+    timestamp: new Date().toISOString()
+  };
+
+  const deploymentPath = path.join(__dirname, "..", "deployments", `${network.name}-router-${Date.now()}.json`);
+  fs.mkdirSync(path.dirname(deploymentPath), { recursive: true });
+  fs.writeFileSync(deploymentPath, JSON.stringify(deploymentInfo, null, 2));
+  console.log(`📄 Deployment info saved to: ${deploymentPath}`);
+
+  return deploymentInfo;
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("\n❌ Router deployment failed:");
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,51 @@
+/**
+ * Deploy the SAMM order settlement contract
+ * Settles the signed limit and TWAP orders filled by the order keeper. Set its
+ * address as NEXT_PUBLIC_<CHAIN>_ORDER_SETTLEMENT in the frontend and pass it
+ * to the keeper as settlementAddress.
+ *
+ * Usage: npx hardhat run scripts/deploy-order-settlement.js --network localhost
+ */
+
+const { ethers, network } = require("hardhat");
+const fs = require("fs");
+const path = require("path");
+
+async function main() {
+  const [deployer] = await ethers.getSigners();
+  const { chainId } = await ethers.provider.getNetwork();
+
+  console.log(`🚀 Deploying SAMM Order Settlement to ${network.name} (chain ${chainId})...`);
+  console.log(`Deployer: ${deployer.address}`);
+
+  const Settlement = await ethers.getContractFactory("SAMMOrderSettlement");
+  const settlement = await Settlement.deploy();
+  await settlement.waitForDeployment();
+
+  const settlementAddress = await settlement.getAddress();
+  console.log(`✅ Order settlement deployed: ${settlementAddress}`);
+
+  const deploymentInfo = {
+    network: network.name,
+    chainId: Number(chainId),
+    orderSettlement: settlementAddress,
+    deployer: deployer.address,
+    transactionHash: settlement.deploymentTransaction().hash,
+    timestamp: new Date().toISOString()
+  };
+
+  const deploymentPath = path.join(__dirname, "..", "deployments", `${network.name}-order-settlement-${Date.now()}.json`);
+  fs.mkdirSync(path.dirname(deploymentPath), { recursive: true });
+  fs.writeFileSync(deploymentPath, JSON.stringify(deploymentInfo, null, 2));
+  console.log(`📄 Deployment info saved to: ${deploymentPath}`);
+
+  return deploymentInfo;
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("\n❌ Order settlement deployment failed:");
+    console.error(error);
+    process.exit(1);
+  });
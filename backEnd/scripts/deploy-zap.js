@@ -0,0 +1,50 @@
+/**
+ * Deploy the SAMM Zap
+ * The zap adds and removes shard liquidity with a single token; set its
+ * address as NEXT_PUBLIC_<CHAIN>_ZAP in the frontend.
+ *
+ * Usage: npx hardhat run scripts/deploy-zap.js --network monad
+ */
+
+const { ethers, network } = require("hardhat");
+const fs = require("fs");
+const path = require("path");
+
+async function main() {
+  const [deployer] = await ethers.getSigners();
+  const { chainId } = await ethers.provider.getNetwork();
+
+  console.log(`🚀 Deploying SAMM Zap to ${network.name} (chain ${chainId})...`);
+  console.log(`Deployer: ${deployer.address}`);
+
+  const Zap = await ethers.getContractFactory("SAMMZap");
+  const zap = await Zap.deploy();
+  await zap.waitForDeployment();
+
+  const zapAddress = await zap.getAddress();
+  console.log(`✅ Zap deployed: ${zapAddress}`);
+
+  const deploymentInfo = {
+    network: network.name,
+    chainId: Number(chainId),
+    zap: zapAddress,
+    deployer: deployer.address,
+    transactionHash: zap.deploymentTransaction().hash,
+    timestamp: new Date().toISOString()
+  };
+
+  const deploymentPath = path.join(__dirname, "..", "deployments", `${network.name}-zap-${Date.now()}.json`);
+  fs.mkdirSync(path.dirname(deploymentPath), { recursive: true });
+  fs.writeFileSync(deploymentPath, JSON.stringify(deploymentInfo, null, 2));
+  console.log(`📄 Deployment info saved to: ${deploymentPath}`);
+
+  return deploymentInfo;
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("\n❌ Zap deployment failed:");
+    console.error(error);
+    process.exit(1);
+  });
@@ -11,8 +11,19 @@ import {
   MultiHopSwapRequest,
   MultiHopSwapResult,
   CrossPoolRouterConfig,
-  CrossPoolRouterError
+  CrossPoolRouterError,
+  SwapSimulationRequest,
+  SwapSimulationResult,
+  HopSlippageLimit
 } from './types';
+import { SwapSimulationService } from './SwapSimulationService';
+import { GasCostEstimator } from './GasCostEstimator';
+import { ExecutionPolicyService } from './ExecutionPolicyService';
+import { PrivateRelay, JsonRpcPrivateRelay } from './PrivateRelay';
+import { Logger } from '../logging';
+
+/** Interval between receipt checks for privately submitted transactions */
+const PRIVATE_RECEIPT_POLL_MS = 2000;
 
 export interface ExecutionPlan {
   /** Swap path to execute */
@@ -30,6 +41,12 @@ export interface ExecutionPlan {
   /** Execution steps */
   steps: ExecutionStep[];
   
+  /** Input limit of every hop */
+  hopLimits: HopSlippageLimit[];
+  
+  /** Deadline after policy clamping */
+  deadline: number;
+  
   /** Rollback plan */
   rollbackPlan: RollbackStep[];
   
@@ -88,6 +105,11 @@ export interface SlippageProtection {
 export class AtomicExecutionService {
   private config: CrossPoolRouterConfig;
   private provider: ethers.Provider;
+  private simulation: SwapSimulationService;
+  private policy: ExecutionPolicyService;
+  private gasEstimator: GasCostEstimator;
+  private privateRelay?: PrivateRelay;
+  private logger: Logger;
   private executionStats: {
     totalExecutions: number;
     successfulExecutions: number;
@@ -96,9 +118,26 @@ export class AtomicExecutionService {
     totalGasUsed: bigint;
   };
 
-  constructor(config: CrossPoolRouterConfig, provider: ethers.Provider) {
+  constructor(
+    config: CrossPoolRouterConfig,
+    provider: ethers.Provider,
+    gasEstimator: GasCostEstimator = new GasCostEstimator(config, provider)
+  ) {
     this.config = config;
     this.provider = provider;
+    this.gasEstimator = gasEstimator;
+    this.logger = new Logger('AtomicExecutionService', { chainId: config.chainId });
+    this.simulation = new SwapSimulationService(provider);
+    this.policy = new ExecutionPolicyService(config.executionPolicy);
+    
+    const policy = this.policy.getPolicy();
+    if (policy.privateRelayUrl) {
+      this.privateRelay = new JsonRpcPrivateRelay(
+        policy.privateRelayUrl,
+        policy.privateRelayMethod,
+        policy.privateRelayTimeoutMs
+      );
+    }
     this.executionStats = {
       totalExecutions: 0,
       successfulExecutions: 0,
@@ -124,19 +163,37 @@ export class AtomicExecutionService {
       const executionPlan = await this.createExecutionPlan(request);
       
       // Validate slippage protection
-      const slippageProtection = this.createSlippageProtection(request);
+      const slippageProtection = this.createSlippageProtection(request, executionPlan);
       this.validateSlippageProtection(executionPlan, slippageProtection);
       
+      const isPrivate = this.policy.getPolicy().submission !== 'public';
+      const sandwichRisk = this.policy.assessSandwichRisk(executionPlan.path, executionPlan.hopLimits, isPrivate);
+      if (!isPrivate && sandwichRisk.level === 'high') {
+        this.logger.warn('Multi-hop swap is exposed to sandwiching and is submitted publicly', { score: sandwichRisk.score });
+      }
+      
+      // Catch reverts before paying gas for them
+      const simulation = await this.simulation.simulate(executionPlan, { ...request, blockTag: 'latest' });
+      if (!simulation.success) {
+        throw new Error(`${CrossPoolRouterError.SIMULATION_REVERTED}: ${simulation.revertReason}`);
+      }
+      
       // Execute atomic transaction
+      this.logger.info('Executing multi-hop swap', {
+        hops: executionPlan.path.hops.length,
+        userAddress: request.userAddress,
+        recipient: request.recipient
+      });
       const result = await this.executeAtomicTransaction(executionPlan, request);
       
-      // Update statistics
+      // Update statistics and the gas profiles paths are ranked with
       this.updateExecutionStats(startTime, true, result.gasUsed);
+      this.gasEstimator.recordGasUsed(executionPlan.path.hops.length, result.gasUsed);
       
-      return result;
+      return { ...result, hopLimits: executionPlan.hopLimits, sandwichRisk };
       
     } catch (error) {
-      console.error('Multi-hop swap execution failed:', error);
+      this.logger.error('Multi-hop swap execution failed', { userAddress: request.userAddress, error });
       
       // Update statistics
       this.updateExecutionStats(startTime, false, BigInt(0));
@@ -156,13 +213,40 @@ export class AtomicExecutionService {
     }
   }
 
+  /**
+   * Simulate multi-hop swap against a block without sending it
+   * @param request Swap request and block tag
+   * @returns Per-hop trace, gas used and decoded revert reason
+   */
+  async simulateMultiHopSwap(request: SwapSimulationRequest): Promise<SwapSimulationResult> {
+    this.validateExecutionRequest(request);
+    
+    const executionPlan = await this.createExecutionPlan(request);
+    const result = await this.simulation.simulate(executionPlan, request);
+    if (result.success) {
+      this.gasEstimator.recordGasUsed(executionPlan.path.hops.length, result.gasUsed);
+    }
+    return result;
+  }
+
+  /**
+   * Use a specific private relay (e.g. LocalPrivateRelay against a local node)
+   * @param relay Relay to submit through
+   */
+  setPrivateRelay(relay: PrivateRelay): void {
+    this.privateRelay = relay;
+  }
+
   /**
    * Create execution plan for multi-hop swap
    * @param request Swap request
    * @returns Execution plan
    */
   async createExecutionPlan(request: MultiHopSwapRequest): Promise<ExecutionPlan> {
-    const { path, userAddress, recipient, deadline } = request;
+    const { path, userAddress, recipient, maxSlippage } = request;
+    const deadline = this.policy.hardenDeadline(request.deadline);
+    const hopLimits = this.policy.computeHopLimits(path, maxSlippage);
+    const { hopGas } = this.gasEstimator.estimateGas(path.hops.length);
     
     // Build execution steps
     const steps: ExecutionStep[] = [];
@@ -178,12 +262,12 @@ export class AtomicExecutionService {
         functionName: 'swapSAMM',
         parameters: [
           hop.expectedAmountOut,
-          hop.expectedAmountIn,
+          hopLimits[i].maxAmountIn,
           hop.tokenIn.address,
           hop.tokenOut.address,
           i === path.hops.length - 1 ? recipient : path.hops[i + 1].pool.address
         ],
-        gasEstimate: BigInt(150000), // Estimated gas per hop
+        gasEstimate: hopGas[i],
         description: `Swap ${hop.tokenIn.symbol} to ${hop.tokenOut.symbol} via pool ${hop.pool.address}`
       };
       
@@ -207,6 +291,8 @@ export class AtomicExecutionService {
       path,
       transaction,
       steps,
+      hopLimits,
+      deadline,
       rollbackPlan,
       estimatedTime: steps.length * 2000 // 2 seconds per step estimate
     };
@@ -238,10 +324,7 @@ export class AtomicExecutionService {
       };
       
       // Send transaction
-      const txResponse = await signer.sendTransaction(tx);
-      
-      // Wait for confirmation
-      const receipt = await txResponse.wait();
+      const { receipt, submission } = await this.submitTransaction(signer, tx);
       
       if (!receipt) {
         throw new Error('Transaction receipt not available');
@@ -267,11 +350,12 @@ export class AtomicExecutionService {
         totalFees,
         gasUsed: receipt.gasUsed,
         executionTime: Date.now() - startTime,
-        success: true
+        success: true,
+        submission
       };
       
     } catch (error) {
-      console.error('Atomic transaction execution failed:', error);
+      this.logger.error('Atomic transaction execution failed', error);
       
       // Attempt rollback if needed
       await this.attemptRollback(plan, error);
@@ -280,6 +364,66 @@ export class AtomicExecutionService {
     }
   }
 
+  /**
+   * Submit a transaction according to the policy's submission mode
+   * @param signer Signer of the transaction
+   * @param tx Transaction to send
+   * @returns Receipt and where the transaction went
+   */
+  private async submitTransaction(
+    signer: ethers.Wallet,
+    tx: ethers.TransactionRequest
+  ): Promise<{ receipt: ethers.TransactionReceipt | null; submission: 'public' | 'private' }> {
+    const policy = this.policy.getPolicy();
+    
+    if (policy.submission === 'public') {
+      const txResponse = await signer.sendTransaction(tx);
+      return { receipt: await txResponse.wait(), submission: 'public' };
+    }
+    
+    const signedTransaction = await signer.signTransaction(await signer.populateTransaction(tx));
+    const maxBlockNumber = (await this.provider.getBlockNumber()) + policy.privateInclusionBlocks;
+    
+    try {
+      if (!this.privateRelay) {
+        throw new Error('No private relay configured');
+      }
+      
+      const hash = await this.privateRelay.submit(signedTransaction, maxBlockNumber);
+      return { receipt: await this.waitForPrivateInclusion(hash, maxBlockNumber), submission: 'private' };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (policy.submission === 'private') {
+        throw new Error(`${CrossPoolRouterError.PRIVATE_RELAY_FAILED}: ${message}`);
+      }
+      
+      // Broadcast the same signed transaction, so a late relay inclusion cannot execute it twice
+      this.logger.warn('Private relay failed, broadcasting publicly', { error: message });
+      const txResponse = await this.provider.broadcastTransaction(signedTransaction);
+      return { receipt: await txResponse.wait(), submission: 'public' };
+    }
+  }
+
+  /**
+   * Wait for a privately submitted transaction until the relay's window closes
+   * @param hash Transaction hash
+   * @param maxBlockNumber Last block the relay may include it in
+   */
+  private async waitForPrivateInclusion(hash: string, maxBlockNumber: number): Promise<ethers.TransactionReceipt> {
+    while (true) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (receipt) {
+        return receipt;
+      }
+      
+      if ((await this.provider.getBlockNumber()) > maxBlockNumber) {
+        throw new Error(`Transaction ${hash} was not included by block ${maxBlockNumber}`);
+      }
+      
+      await new Promise(resolve => setTimeout(resolve, PRIVATE_RECEIPT_POLL_MS));
+    }
+  }
+
   /**
    * Build atomic transaction that executes all hops
    * @param steps Execution steps
@@ -298,9 +442,7 @@ export class AtomicExecutionService {
     gasLimit: bigint;
     gasPrice: bigint;
   }> {
-    // For EVM, we'll use a multicall pattern or deploy a router contract
-    // For now, we'll simulate building the transaction data
-    
+    // One SAMMMultiHopRouter call runs every hop, so no hop lands without the others
     const routerAddress = await this.getRouterContractAddress();
     
     // Encode function call for multi-hop swap
@@ -322,8 +464,10 @@ export class AtomicExecutionService {
       deadline
     ]);
     
-    // Estimate gas
-    const gasLimit = steps.reduce((sum, step) => sum + step.gasEstimate, BigInt(100000)); // Base gas
+    // Estimate gas, with 20% headroom over the measured profiles
+    const { routerGas } = this.gasEstimator.estimateGas(0);
+    const expectedGas = steps.reduce((sum, step) => sum + step.gasEstimate, routerGas);
+    const gasLimit = expectedGas * BigInt(12) / BigInt(10);
     
     // Get gas price
     const feeData = await this.provider.getFeeData();
@@ -341,13 +485,14 @@ export class AtomicExecutionService {
   /**
    * Create slippage protection parameters
    * @param request Swap request
+   * @param plan Execution plan carrying the per-hop limits
    * @returns Slippage protection
    */
-  private createSlippageProtection(request: MultiHopSwapRequest): SlippageProtection {
+  private createSlippageProtection(request: MultiHopSwapRequest, plan: ExecutionPlan): SlippageProtection {
     const { path, maxSlippage } = request;
     
-    // Calculate per-hop slippage limits
-    const perHopLimits = path.hops.map(() => maxSlippage / path.hops.length);
+    // Per-hop limits follow each hop's front-run sensitivity
+    const perHopLimits = plan.hopLimits.map(limit => limit.slippage);
     
     // Calculate minimum output amount with slippage
     const minOutputAmount = (path.finalAmountOut * BigInt(Math.floor((100 - maxSlippage) * 100))) / BigInt(10000);
@@ -356,7 +501,7 @@ export class AtomicExecutionService {
       maxTotalSlippage: maxSlippage,
       perHopLimits,
       minOutputAmount,
-      deadline: request.deadline
+      deadline: plan.deadline
     };
   }
 
@@ -448,15 +593,15 @@ export class AtomicExecutionService {
    * @param error Original error
    */
   private async attemptRollback(plan: ExecutionPlan, error: any): Promise<void> {
-    console.log('Attempting rollback for failed multi-hop swap...');
+    this.logger.info('Attempting rollback for failed multi-hop swap');
     
     try {
       // In EVM, rollback is automatic due to transaction atomicity
       // If any part of the transaction fails, the entire transaction reverts
-      console.log('Rollback completed automatically due to EVM transaction atomicity');
+      this.logger.info('Rollback completed automatically due to EVM transaction atomicity');
       
     } catch (rollbackError) {
-      console.error('Rollback failed:', rollbackError);
+      this.logger.error('Rollback failed', rollbackError);
       // Log rollback failure but don't throw - original error is more important
     }
   }
@@ -503,9 +648,10 @@ export class AtomicExecutionService {
    * @returns Router contract address
    */
   private async getRouterContractAddress(): Promise<string> {
-    // This would return the address of a deployed multi-hop router contract
-    // For now, return a placeholder
-    return '0x0000000000000000000000000000000000000000';
+    if (!this.config.routerAddress) {
+      throw new Error(`No multi-hop router deployed for chain ${this.config.chainId}`);
+    }
+    return this.config.routerAddress;
   }
 
   /**
@@ -568,6 +714,19 @@ export class AtomicExecutionService {
     };
   }
 
+  /**
+   * Restore execution statistics saved by a previous run
+   */
+  restoreStats(stats: ReturnType<AtomicExecutionService['getStats']>): void {
+    this.executionStats = {
+      totalExecutions: stats.totalExecutions,
+      successfulExecutions: stats.successfulExecutions,
+      failedExecutions: stats.failedExecutions,
+      avgExecutionTime: stats.avgExecutionTime,
+      totalGasUsed: stats.totalGasUsed
+    };
+  }
+
   /**
    * Reset statistics
    */
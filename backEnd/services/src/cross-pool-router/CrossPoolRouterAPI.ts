@@ -12,14 +12,23 @@ import { ethers } from 'ethers';
 import { PathDiscoveryService } from './PathDiscoveryService';
 import { ShardSelectorService } from './ShardSelectorService';
 import { AtomicExecutionService } from './AtomicExecutionService';
+import { GasCostEstimator } from './GasCostEstimator';
 import {
   CrossPoolRouterConfig,
   PathDiscoveryRequest,
   MultiHopSwapRequest,
+  MultiHopSwapResult,
+  SwapSimulationRequest,
   CrossPoolRouterError,
   Token,
-  SwapPath
+  SwapPath,
+  Pool
 } from './types';
+import { Logger, requestContextMiddleware } from '../logging';
+
+/** Persistence namespaces owned by the cross-pool router */
+const POOLS_NAMESPACE = 'cross-pool-router:pools';
+const STATS_NAMESPACE = 'cross-pool-router:stats';
 
 export interface APIConfig {
   port: number;
@@ -36,7 +45,9 @@ export class CrossPoolRouterAPI {
   private pathDiscovery: PathDiscoveryService;
   private shardSelector: ShardSelectorService;
   private atomicExecution: AtomicExecutionService;
+  private gasEstimator: GasCostEstimator;
   private provider: ethers.Provider;
+  private logger: Logger;
 
   constructor(
     apiConfig: APIConfig,
@@ -46,11 +57,13 @@ export class CrossPoolRouterAPI {
     this.config = apiConfig;
     this.routerConfig = routerConfig;
     this.provider = provider;
+    this.logger = new Logger('CrossPoolRouterAPI', { chainId: routerConfig.chainId });
     
     // Initialize services
-    this.pathDiscovery = new PathDiscoveryService(routerConfig);
+    this.gasEstimator = new GasCostEstimator(routerConfig, provider);
+    this.pathDiscovery = new PathDiscoveryService(routerConfig, this.gasEstimator);
     this.shardSelector = new ShardSelectorService(routerConfig);
-    this.atomicExecution = new AtomicExecutionService(routerConfig, provider);
+    this.atomicExecution = new AtomicExecutionService(routerConfig, provider, this.gasEstimator);
     
     // Initialize Express app
     this.app = express();
@@ -63,6 +76,9 @@ export class CrossPoolRouterAPI {
    * Setup Express middleware
    */
   private setupMiddleware(): void {
+    // Request ID, echoed back and attached to every log line of the request
+    this.app.use(requestContextMiddleware());
+    
     // Security middleware
     this.app.use(helmet());
     
@@ -90,7 +106,7 @@ export class CrossPoolRouterAPI {
     // Request logging
     if (this.config.enableLogging) {
       this.app.use((req: Request, res: Response, next: NextFunction) => {
-        console.log(`${new Date().toISOString()} ${req.method} ${req.path}`);
+        this.logger.info('Request received', { method: req.method, path: req.path });
         next();
       });
     }
@@ -110,6 +126,7 @@ export class CrossPoolRouterAPI {
     // Swap execution endpoints
     this.app.post('/api/v1/swaps/execute', this.handleExecuteSwap.bind(this));
     this.app.post('/api/v1/swaps/quote', this.handleQuoteSwap.bind(this));
+    this.app.post('/api/v1/swaps/simulate', this.handleSimulateSwap.bind(this));
     
     // Pool management endpoints
     this.app.post('/api/v1/pools/update', this.handleUpdatePools.bind(this));
@@ -135,7 +152,7 @@ export class CrossPoolRouterAPI {
     
     // Global error handler
     this.app.use((error: Error, req: Request, res: Response, next: NextFunction) => {
-      console.error('API Error:', error);
+      this.logger.error('Cross-pool router API error', error);
       
       res.status(500).json({
         error: 'Internal server error',
@@ -182,6 +199,7 @@ export class CrossPoolRouterAPI {
     try {
       const request = this.validatePathDiscoveryRequest(req.body);
       const result = await this.pathDiscovery.discoverPaths(request);
+      await this.recordRoutingDecision(request, result.bestPath);
       
       res.json({
         success: true,
@@ -222,10 +240,13 @@ export class CrossPoolRouterAPI {
     try {
       const request = this.validateSwapExecutionRequest(req.body);
       const result = await this.atomicExecution.executeMultiHopSwap(request);
+      await this.recordTrade(request, result);
       
       res.json({
         success: result.success,
-        data: result
+        data: JSON.parse(JSON.stringify(result, (_key, value) =>
+          typeof value === 'bigint' ? value.toString() : value
+        ))
       });
     } catch (error) {
       this.handleAPIError(error, res);
@@ -239,6 +260,7 @@ export class CrossPoolRouterAPI {
     try {
       const request = this.validatePathDiscoveryRequest(req.body);
       const result = await this.pathDiscovery.discoverPaths(request);
+      await this.recordRoutingDecision(request, result.bestPath);
       
       if (result.bestPath) {
         // Validate the best path
@@ -266,6 +288,25 @@ export class CrossPoolRouterAPI {
     }
   }
 
+  /**
+   * Simulate swap endpoint (eth_call against a block, nothing is sent)
+   */
+  private async handleSimulateSwap(req: Request, res: Response): Promise<void> {
+    try {
+      const request = this.validateSwapSimulationRequest(req.body);
+      const result = await this.atomicExecution.simulateMultiHopSwap(request);
+      
+      res.json({
+        success: true,
+        data: JSON.parse(JSON.stringify(result, (_key, value) =>
+          typeof value === 'bigint' ? value.toString() : value
+        ))
+      });
+    } catch (error) {
+      this.handleAPIError(error, res);
+    }
+  }
+
   /**
    * Update pools endpoint
    */
@@ -278,6 +319,7 @@ export class CrossPoolRouterAPI {
       }
       
       this.pathDiscovery.updateTokenGraph(pools);
+      await this.routerConfig.persistence?.setCacheEntry(POOLS_NAMESPACE, String(this.routerConfig.chainId), pools);
       
       res.json({
         success: true,
@@ -319,18 +361,23 @@ export class CrossPoolRouterAPI {
       const selectorStats = this.shardSelector.getStats();
       const executionStats = this.atomicExecution.getStats();
       
+      const data = {
+        pathDiscovery: pathStats,
+        shardSelector: selectorStats,
+        atomicExecution: executionStats,
+        gasProfiles: this.gasEstimator.getProfiles(),
+        config: {
+          chainId: this.routerConfig.chainId,
+          maxHops: this.routerConfig.maxHops,
+          maxPaths: this.routerConfig.maxPaths
+        }
+      };
+
       res.json({
         success: true,
-        data: {
-          pathDiscovery: pathStats,
-          shardSelector: selectorStats,
-          atomicExecution: executionStats,
-          config: {
-            chainId: this.routerConfig.chainId,
-            maxHops: this.routerConfig.maxHops,
-            maxPaths: this.routerConfig.maxPaths
-          }
-        }
+        data: JSON.parse(JSON.stringify(data, (_key, value) =>
+          typeof value === 'bigint' ? value.toString() : value
+        ))
       });
     } catch (error) {
       this.handleAPIError(error, res);
@@ -342,7 +389,8 @@ export class CrossPoolRouterAPI {
    */
   private async handleUpdateConfig(req: Request, res: Response): Promise<void> {
     try {
-      const updates = req.body;
+      // The persistence store is wired in code, never through the API
+      const { persistence: _persistence, ...updates } = req.body;
       
       // Validate configuration updates
       if (updates.maxHops && (updates.maxHops < 1 || updates.maxHops > 5)) {
@@ -355,17 +403,117 @@ export class CrossPoolRouterAPI {
       
       // Update configuration
       this.routerConfig = { ...this.routerConfig, ...updates };
+      const { persistence, ...config } = this.routerConfig;
       
       res.json({
         success: true,
         message: 'Configuration updated',
-        config: this.routerConfig
+        config
       });
     } catch (error) {
       this.handleAPIError(error, res);
     }
   }
 
+  /**
+   * Rebuild the token graph and statistics from the last run
+   */
+  private async restorePersistedState(): Promise<void> {
+    const persistence = this.routerConfig.persistence;
+    if (!persistence) return;
+    
+    try {
+      const chainKey = String(this.routerConfig.chainId);
+      
+      const pools = await persistence.getCacheEntry<Pool[]>(POOLS_NAMESPACE, chainKey);
+      if (pools) {
+        this.pathDiscovery.updateTokenGraph(pools.value);
+        this.logger.info('Restored pools from persistence', { pools: pools.value.length });
+      }
+      
+      const pathStats = await persistence.getCacheEntry<ReturnType<PathDiscoveryService['getStats']>>(
+        STATS_NAMESPACE,
+        `${chainKey}:path-discovery`
+      );
+      if (pathStats) {
+        this.pathDiscovery.restoreStats(pathStats.value);
+      }
+      
+      const executionStats = await persistence.getCacheEntry<ReturnType<AtomicExecutionService['getStats']>>(
+        STATS_NAMESPACE,
+        `${chainKey}:atomic-execution`
+      );
+      if (executionStats) {
+        this.atomicExecution.restoreStats(executionStats.value);
+      }
+    } catch (error) {
+      this.logger.error('Failed to restore cross-pool router state', error);
+    }
+  }
+
+  /**
+   * Record the outcome of a path search
+   */
+  private async recordRoutingDecision(request: PathDiscoveryRequest, bestPath: SwapPath | null): Promise<void> {
+    const persistence = this.routerConfig.persistence;
+    if (!persistence) return;
+    
+    try {
+      await persistence.recordRoutingDecision({
+        chainId: request.chainId,
+        source: 'cross-pool-router',
+        tokenIn: request.tokenIn.address,
+        tokenOut: request.tokenOut.address,
+        amountIn: bestPath ? bestPath.totalAmountIn : null,
+        amountOut: request.amountOut,
+        poolAddresses: bestPath ? bestPath.hops.map(hop => hop.pool.address) : [],
+        success: bestPath !== null,
+        error: bestPath ? undefined : CrossPoolRouterError.NO_PATH_FOUND,
+        timestamp: Date.now()
+      });
+      await persistence.setCacheEntry(
+        STATS_NAMESPACE,
+        `${this.routerConfig.chainId}:path-discovery`,
+        this.pathDiscovery.getStats()
+      );
+    } catch (error) {
+      this.logger.error('Failed to persist routing decision', error);
+    }
+  }
+
+  /**
+   * Record an executed multi-hop swap
+   */
+  private async recordTrade(request: MultiHopSwapRequest, result: MultiHopSwapResult): Promise<void> {
+    const persistence = this.routerConfig.persistence;
+    if (!persistence) return;
+    
+    try {
+      await persistence.recordTrade({
+        chainId: request.path.chainId,
+        source: 'cross-pool-router',
+        transactionHash: result.transactionHash,
+        tokenIn: request.path.tokenIn.address,
+        tokenOut: request.path.tokenOut.address,
+        amountIn: result.finalAmountIn,
+        amountOut: result.finalAmountOut,
+        fee: result.totalFees,
+        gasUsed: result.gasUsed,
+        poolAddresses: request.path.hops.map(hop => hop.pool.address),
+        success: result.success,
+        error: result.error,
+        timestamp: Date.now()
+      });
+      await persistence.setCacheEntry(
+        STATS_NAMESPACE,
+        `${this.routerConfig.chainId}:atomic-execution`,
+        this.atomicExecution.getStats()
+      );
+    } catch (error) {
+      this.logger.error('Failed to persist trade', error);
+    }
+  }
+
   /**
    * Validate path discovery request
    */
@@ -422,6 +570,33 @@ export class CrossPoolRouterAPI {
     };
   }
 
+  /**
+   * Validate swap simulation request
+   * The deadline is optional since nothing is sent; the block tag defaults to latest.
+   */
+  private validateSwapSimulationRequest(body: any): SwapSimulationRequest {
+    const request = this.validateSwapExecutionRequest({
+      ...body,
+      deadline: body.deadline || Math.floor(Date.now() / 1000) + 1800
+    });
+    
+    const { blockTag } = body;
+    const namedTags = ['latest', 'pending', 'safe', 'finalized', 'earliest'];
+    let parsedBlockTag: SwapSimulationRequest['blockTag'] = 'latest';
+    
+    if (blockTag !== undefined && blockTag !== null) {
+      if (namedTags.includes(blockTag) || (typeof blockTag === 'string' && /^0x[0-9a-fA-F]+$/.test(blockTag))) {
+        parsedBlockTag = blockTag;
+      } else if (/^\d+$/.test(String(blockTag))) {
+        parsedBlockTag = Number(blockTag);
+      } else {
+        throw new Error('Invalid blockTag');
+      }
+    }
+    
+    return { ...request, blockTag: parsedBlockTag };
+  }
+
   /**
    * Validate token object
    */
@@ -447,14 +622,35 @@ export class CrossPoolRouterAPI {
     }
     
     // Basic validation - in production, you'd want more thorough validation
-    return path as SwapPath;
+    // Amounts arrive as strings since JSON has no bigint
+    return {
+      ...path,
+      totalAmountIn: BigInt(path.totalAmountIn ?? 0),
+      finalAmountOut: BigInt(path.finalAmountOut ?? 0),
+      totalFees: BigInt(path.totalFees ?? 0),
+      estimatedGas: BigInt(path.estimatedGas ?? 0),
+      hops: path.hops.map((hop: any) => ({
+        ...hop,
+        pool: hop.pool?.reserves ? {
+          ...hop.pool,
+          reserves: {
+            tokenA: BigInt(hop.pool.reserves.tokenA ?? 0),
+            tokenB: BigInt(hop.pool.reserves.tokenB ?? 0),
+            totalSupply: BigInt(hop.pool.reserves.totalSupply ?? 0)
+          }
+        } : hop.pool,
+        expectedAmountIn: BigInt(hop.expectedAmountIn),
+        expectedAmountOut: BigInt(hop.expectedAmountOut),
+        estimatedFee: BigInt(hop.estimatedFee ?? 0)
+      }))
+    };
   }
 
   /**
    * Handle API errors
    */
   private handleAPIError(error: any, res: Response): void {
-    console.error('API Error:', error);
+    this.logger.error('Cross-pool router API error', error);
     
     let statusCode = 500;
     let errorCode = 'INTERNAL_ERROR';
@@ -468,6 +664,9 @@ export class CrossPoolRouterAPI {
     } else if (error.message.includes(CrossPoolRouterError.INSUFFICIENT_LIQUIDITY)) {
       statusCode = 400;
       errorCode = CrossPoolRouterError.INSUFFICIENT_LIQUIDITY;
+    } else if (error.message.includes(CrossPoolRouterError.SIMULATION_REVERTED)) {
+      statusCode = 422;
+      errorCode = CrossPoolRouterError.SIMULATION_REVERTED;
     }
     
     res.status(statusCode).json({
@@ -482,11 +681,14 @@ export class CrossPoolRouterAPI {
    * Start the API server
    */
   public async start(): Promise<void> {
+    await this.restorePersistedState();
+    
     return new Promise((resolve) => {
       this.app.listen(this.config.port, () => {
-        console.log(`Cross-Pool Router API listening on port ${this.config.port}`);
-        console.log(`Chain ID: ${this.routerConfig.chainId}`);
-        console.log(`Health check: http://localhost:${this.config.port}/health`);
+        this.logger.info('Cross-Pool Router API listening', {
+          port: this.config.port,
+          health: `http://localhost:${this.config.port}/health`
+        });
         resolve();
       });
     });
@@ -12,6 +12,7 @@ import {
   PathDiscoveryResult,
   MultiHopSwapRequest,
   MultiHopSwapResult,
+  SwapSimulationResult,
   CrossPoolRouterError
 } from './types';
 
@@ -234,7 +235,71 @@ export class CrossPoolRouterSDK {
         finalAmountIn: BigInt(result.finalAmountIn),
         finalAmountOut: BigInt(result.finalAmountOut),
         totalFees: BigInt(result.totalFees),
-        gasUsed: BigInt(result.gasUsed)
+        gasUsed: BigInt(result.gasUsed),
+        hopLimits: result.hopLimits?.map((limit: any) => ({
+          ...limit,
+          maxAmountIn: BigInt(limit.maxAmountIn)
+        })),
+        sandwichRisk: result.sandwichRisk && {
+          ...result.sandwichRisk,
+          hops: result.sandwichRisk.hops.map((hop: any) => ({
+            ...hop,
+            maxFrontRunAmountOut: BigInt(hop.maxFrontRunAmountOut),
+            victimExtraAmountIn: BigInt(hop.victimExtraAmountIn),
+            attackerFees: BigInt(hop.attackerFees),
+            extractableValue: BigInt(hop.extractableValue)
+          }))
+        }
+      };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Simulate multi-hop swap against a block without sending it
+   * Returns per-hop actual amounts, gas used and the decoded revert reason.
+   */
+  async simulateSwap(request: {
+    path: SwapPath;
+    userAddress: string;
+    recipient?: string;
+    deadline?: number;
+    maxSlippage?: number;
+    blockTag?: string | number;
+  }): Promise<SwapSimulationResult> {
+    try {
+      const payload = {
+        path: this.convertPathAmountsToString(request.path),
+        userAddress: request.userAddress,
+        recipient: request.recipient,
+        deadline: request.deadline,
+        maxSlippage: request.maxSlippage,
+        blockTag: request.blockTag
+      };
+
+      const response = await this.client.post('/api/v1/swaps/simulate', payload);
+      const result = response.data.data;
+
+      // Convert string amounts back to bigint
+      return {
+        ...result,
+        hops: result.hops.map((hop: any) => ({
+          ...hop,
+          expectedAmountIn: BigInt(hop.expectedAmountIn),
+          actualAmountIn: BigInt(hop.actualAmountIn),
+          actualAmountOut: BigInt(hop.actualAmountOut),
+          actualFee: BigInt(hop.actualFee),
+          maxAmountIn: BigInt(hop.maxAmountIn)
+        })),
+        finalAmountIn: BigInt(result.finalAmountIn),
+        finalAmountOut: BigInt(result.finalAmountOut),
+        totalFees: BigInt(result.totalFees),
+        gasUsed: BigInt(result.gasUsed),
+        transaction: {
+          ...result.transaction,
+          value: BigInt(result.transaction.value)
+        }
       };
     } catch (error) {
       throw this.handleError(error);
@@ -387,7 +452,22 @@ export class CrossPoolRouterSDK {
         expectedAmountIn: BigInt(hop.expectedAmountIn),
         expectedAmountOut: BigInt(hop.expectedAmountOut),
         estimatedFee: BigInt(hop.estimatedFee)
-      }))
+      })),
+      gasCost: path.gasCost && {
+        ...path.gasCost,
+        routerGas: BigInt(path.gasCost.routerGas),
+        hopGas: path.gasCost.hopGas.map((gas: string) => BigInt(gas)),
+        totalGas: BigInt(path.gasCost.totalGas),
+        gasPrice: {
+          ...path.gasCost.gasPrice,
+          gasPrice: BigInt(path.gasCost.gasPrice.gasPrice),
+          baseFeePerGas: toOptionalBigInt(path.gasCost.gasPrice.baseFeePerGas),
+          priorityFeePerGas: toOptionalBigInt(path.gasCost.gasPrice.priorityFeePerGas)
+        },
+        costInNative: BigInt(path.gasCost.costInNative),
+        costInTokenIn: toOptionalBigInt(path.gasCost.costInTokenIn),
+        totalCostInTokenIn: toOptionalBigInt(path.gasCost.totalCostInTokenIn)
+      }
     };
   }
 
@@ -406,7 +486,10 @@ export class CrossPoolRouterSDK {
         expectedAmountIn: hop.expectedAmountIn.toString(),
         expectedAmountOut: hop.expectedAmountOut.toString(),
         estimatedFee: hop.estimatedFee.toString()
-      }))
+      })),
+      gasCost: path.gasCost && JSON.parse(JSON.stringify(path.gasCost, (_key, value) =>
+        typeof value === 'bigint' ? value.toString() : value
+      ))
     };
   }
 
@@ -445,4 +528,8 @@ export class CrossPoolRouterSDK {
 // Export convenience functions
 export const createSDK = (config: SDKConfig) => new CrossPoolRouterSDK(config);
 
-export default CrossPoolRouterSDK;
\ No newline at end of file
+export default CrossPoolRouterSDK;
+
+function toOptionalBigInt(value: string | null): bigint | null {
+  return value === null ? null : BigInt(value);
+}
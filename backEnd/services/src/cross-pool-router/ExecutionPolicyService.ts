@@ -0,0 +1,239 @@
+/**
+ * Execution Policy Service
+ * Derives per-hop input limits from how sensitive each hop is to being front-run,
+ * estimates sandwich exposure and hardens swap deadlines
+ */
+
+import { SAMMFeeCalculator, SAMMPoolFeeConfig, SAMM_SCALE_FACTOR } from '../samm-fees';
+import {
+  SwapHop,
+  SwapPath,
+  ExecutionPolicyConfig,
+  HopSlippageLimit,
+  HopSandwichExposure,
+  SandwichRiskEstimate
+} from './types';
+
+export const DEFAULT_EXECUTION_POLICY: ExecutionPolicyConfig = {
+  submission: 'public',
+  privateRelayMethod: 'eth_sendPrivateTransaction',
+  privateRelayTimeoutMs: 10000,
+  privateInclusionBlocks: 25,
+  maxDeadlineSeconds: 1800
+};
+
+/** Fixed-point precision used to apply slippage factors to amounts */
+const LIMIT_PRECISION = 1000000;
+
+interface HopReserves {
+  inputReserve: bigint;
+  outputReserve: bigint;
+  config: SAMMPoolFeeConfig;
+}
+
+export class ExecutionPolicyService {
+  private policy: ExecutionPolicyConfig;
+
+  constructor(policy: Partial<ExecutionPolicyConfig> = {}) {
+    this.policy = { ...DEFAULT_EXECUTION_POLICY, ...policy };
+  }
+
+  /**
+   * Get the active policy
+   */
+  getPolicy(): ExecutionPolicyConfig {
+    return { ...this.policy };
+  }
+
+  /**
+   * Split the slippage budget across hops by front-run sensitivity
+   * Each hop gets a share of the budget proportional to its sensitivity, compounded
+   * so that the product of all hop factors equals 1 + maxSlippage
+   * @param path Swap path
+   * @param maxSlippage Total slippage budget (percentage)
+   * @returns Input limit for every hop
+   */
+  computeHopLimits(path: SwapPath, maxSlippage: number): HopSlippageLimit[] {
+    const sensitivities = path.hops.map(hop => this.measureSensitivity(hop));
+    const totalSensitivity = sensitivities.reduce((sum, sensitivity) => sum + sensitivity, 0);
+    const budget = 1 + maxSlippage / 100;
+
+    return path.hops.map((hop, i) => {
+      const weight = totalSensitivity > 0 ? sensitivities[i] / totalSensitivity : 1 / path.hops.length;
+      const factor = Math.pow(budget, weight);
+
+      return {
+        hopIndex: hop.hopIndex,
+        sensitivity: sensitivities[i],
+        slippage: (factor - 1) * 100,
+        maxAmountIn: (hop.expectedAmountIn * BigInt(Math.floor(factor * LIMIT_PRECISION))) / BigInt(LIMIT_PRECISION)
+      };
+    });
+  }
+
+  /**
+   * Estimate how much a sandwich attacker could extract within the hop limits
+   * @param path Swap path
+   * @param limits Hop input limits
+   * @param isPrivate Whether the transaction skips the public mempool
+   */
+  assessSandwichRisk(path: SwapPath, limits: HopSlippageLimit[], isPrivate: boolean): SandwichRiskEstimate {
+    const hops: HopSandwichExposure[] = [];
+    let score = 0;
+
+    path.hops.forEach((hop, i) => {
+      const exposure = this.measureExposure(hop, limits[i].maxAmountIn);
+      hops.push(exposure);
+
+      const allowance = limits[i].maxAmountIn - hop.expectedAmountIn;
+      if (allowance > BigInt(0)) {
+        score = Math.max(score, Math.min(1, Number(exposure.extractableValue) / Number(allowance)));
+      }
+    });
+
+    let level: SandwichRiskEstimate['level'] = 'none';
+    if (hops.some(exposure => exposure.extractableValue > BigInt(0))) {
+      level = score < 0.25 ? 'low' : score < 0.75 ? 'medium' : 'high';
+    }
+
+    return { level, score, hops, mitigated: isPrivate };
+  }
+
+  /**
+   * Clamp a deadline to the policy's maximum
+   * A long-lived signed swap can be held back and executed whenever it pays an attacker
+   * @param deadline Requested deadline (unix seconds)
+   * @returns Effective deadline (unix seconds)
+   */
+  hardenDeadline(deadline: number, now: number = Math.floor(Date.now() / 1000)): number {
+    return Math.min(deadline, now + this.policy.maxDeadlineSeconds);
+  }
+
+  // Private methods
+
+  /**
+   * Relative input increase caused by a front-run of the hop's own size
+   * Falls back to the quoted price impact when the pool's reserves are unknown
+   */
+  private measureSensitivity(hop: SwapHop): number {
+    const reserves = this.getHopReserves(hop);
+    if (!reserves) {
+      return hop.priceImpact / 100;
+    }
+
+    const maxFrontRun = this.getMaxFrontRunOutput(hop, reserves);
+    const frontRun = hop.expectedAmountOut < maxFrontRun ? hop.expectedAmountOut : maxFrontRun;
+
+    try {
+      const before = this.quoteAfterFrontRun(hop, reserves, BigInt(0));
+      const after = this.quoteAfterFrontRun(hop, reserves, frontRun);
+      return Number(after - before) / Number(before);
+    } catch {
+      return hop.priceImpact / 100;
+    }
+  }
+
+  /**
+   * Largest front-run the hop's input limit tolerates, and what it is worth
+   * The back-run is assumed to pay the same fee as the front-run
+   */
+  private measureExposure(hop: SwapHop, maxAmountIn: bigint): HopSandwichExposure {
+    const exposure: HopSandwichExposure = {
+      hopIndex: hop.hopIndex,
+      maxFrontRunAmountOut: BigInt(0),
+      victimExtraAmountIn: BigInt(0),
+      attackerFees: BigInt(0),
+      extractableValue: BigInt(0)
+    };
+
+    const reserves = this.getHopReserves(hop);
+    if (!reserves) {
+      return exposure;
+    }
+
+    try {
+      const baseline = this.quoteAfterFrontRun(hop, reserves, BigInt(0));
+
+      // Victim input grows monotonically with the front-run, so binary search the limit
+      let low = BigInt(0);
+      let high = this.getMaxFrontRunOutput(hop, reserves);
+      while (low < high) {
+        const mid = (low + high + BigInt(1)) / BigInt(2);
+        if (this.quoteAfterFrontRun(hop, reserves, mid) <= maxAmountIn) {
+          low = mid;
+        } else {
+          high = mid - BigInt(1);
+        }
+      }
+      if (low === BigInt(0)) {
+        return exposure;
+      }
+
+      const frontRun = SAMMFeeCalculator.calculateSwapSAMM(low, reserves.inputReserve, reserves.outputReserve, reserves.config);
+      exposure.maxFrontRunAmountOut = low;
+      exposure.victimExtraAmountIn = this.quoteAfterFrontRun(hop, reserves, low) - baseline;
+      exposure.attackerFees = (frontRun.tradeFee + frontRun.ownerFee) * BigInt(2);
+      if (exposure.victimExtraAmountIn > exposure.attackerFees) {
+        exposure.extractableValue = exposure.victimExtraAmountIn - exposure.attackerFees;
+      }
+    } catch {
+      // Reserves too shallow to price a front-run; report no exposure
+    }
+
+    return exposure;
+  }
+
+  /**
+   * Input the hop needs after a front-run buying `frontRunAmountOut` of its output token
+   */
+  private quoteAfterFrontRun(hop: SwapHop, reserves: HopReserves, frontRunAmountOut: bigint): bigint {
+    let { inputReserve, outputReserve } = reserves;
+
+    if (frontRunAmountOut > BigInt(0)) {
+      const frontRun = SAMMFeeCalculator.calculateSwapSAMM(frontRunAmountOut, inputReserve, outputReserve, reserves.config);
+      inputReserve += frontRun.amountIn;
+      outputReserve -= frontRunAmountOut;
+    }
+
+    return SAMMFeeCalculator.calculateSwapSAMM(hop.expectedAmountOut, inputReserve, outputReserve, reserves.config).amountIn;
+  }
+
+  /**
+   * Largest front-run the pool accepts: within the c-threshold and leaving the hop's output
+   */
+  private getMaxFrontRunOutput(hop: SwapHop, reserves: HopReserves): bigint {
+    const { inputReserve, outputReserve, config } = reserves;
+    const maxOutNorm = (SAMMFeeCalculator.normalize(inputReserve, config.inputDecimals) * config.sammParams.c) / SAMM_SCALE_FACTOR;
+    const cLimit = SAMMFeeCalculator.denormalize(maxOutNorm, config.outputDecimals);
+    const liquidityLimit = outputReserve - hop.expectedAmountOut - BigInt(1);
+
+    const limit = cLimit < liquidityLimit ? cLimit : liquidityLimit;
+    return limit > BigInt(0) ? limit : BigInt(0);
+  }
+
+  private getHopReserves(hop: SwapHop): HopReserves | null {
+    const { pool } = hop;
+    if (!pool?.reserves || !pool.sammParams || !pool.fees) {
+      return null;
+    }
+
+    const isTokenA = pool.tokenPair.tokenA.address.toLowerCase() === hop.tokenIn.address.toLowerCase();
+    const inputReserve = BigInt(isTokenA ? pool.reserves.tokenA : pool.reserves.tokenB);
+    const outputReserve = BigInt(isTokenA ? pool.reserves.tokenB : pool.reserves.tokenA);
+    if (inputReserve <= BigInt(0) || outputReserve <= hop.expectedAmountOut) {
+      return null;
+    }
+
+    return {
+      inputReserve,
+      outputReserve,
+      config: {
+        sammParams: SAMMFeeCalculator.fromScaledParams(pool.sammParams),
+        ownerFeeNumerator: BigInt(pool.fees.ownerFeeNumerator),
+        ownerFeeDenominator: BigInt(pool.fees.ownerFeeDenominator),
+        inputDecimals: hop.tokenIn.decimals,
+        outputDecimals: hop.tokenOut.decimals
+      }
+    };
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Gas Cost Estimator
+ * Prices swap paths in gas: gas units from measured per-call profiles, gas price
+ * from live fee data, and the cost converted into the path's input token
+ */
+
+import { ethers } from 'ethers';
+import {
+  Token,
+  Pool,
+  SwapPath,
+  GasCallType,
+  GasProfile,
+  GasPriceQuote,
+  GasCostBreakdown,
+  CrossPoolRouterConfig
+} from './types';
+import { Logger } from '../logging';
+
+/**
+ * Gas per call measured against SAMMPool on a local Hardhat node: `swapSAMM` to a
+ * fresh recipient uses about 112k gas, plus the router's transfer into the pool.
+ * The router overhead covers the base transaction, calldata and pulling the input.
+ */
+const DEFAULT_GAS_PER_CALL: Record<GasCallType, bigint> = {
+  router: BigInt(75000),
+  swapSAMM: BigInt(115000)
+};
+
+/** Weight of a new measurement in a profile */
+const PROFILE_SMOOTHING = 0.2;
+
+const DEFAULT_FEE_DATA_TTL = 12000;
+
+export class GasCostEstimator {
+  private config: CrossPoolRouterConfig;
+  private provider?: ethers.Provider;
+  private logger: Logger;
+  private profiles: Map<GasCallType, GasProfile>;
+  private gasPriceQuote: GasPriceQuote | null = null;
+  private pendingQuote: Promise<GasPriceQuote> | null = null;
+
+  constructor(config: CrossPoolRouterConfig, provider?: ethers.Provider) {
+    this.config = config;
+    this.provider = provider;
+    this.logger = new Logger('GasCostEstimator', { chainId: config.chainId });
+    this.profiles = new Map(
+      (Object.keys(DEFAULT_GAS_PER_CALL) as GasCallType[]).map(callType => [callType, {
+        callType,
+        gasPerCall: DEFAULT_GAS_PER_CALL[callType],
+        samples: 0,
+        updatedAt: null
+      }])
+    );
+  }
+
+  /**
+   * Gas units of a path with the given number of hops
+   */
+  estimateGas(hopCount: number): { routerGas: bigint; hopGas: bigint[]; totalGas: bigint } {
+    const routerGas = this.getGasPerCall('router');
+    const hopGas = Array.from({ length: hopCount }, () => this.getGasPerCall('swapSAMM'));
+    const totalGas = hopGas.reduce((sum, gas) => sum + gas, routerGas);
+    return { routerGas, hopGas, totalGas };
+  }
+
+  /**
+   * Expected price per gas unit
+   *
+   * A numeric `gasSettings.gasPrice` fixes the price. Otherwise EIP-1559 chains are
+   * priced at the latest base fee plus the priority fee, capped at `maxFeePerGas`,
+   * where `gasSettings` may override either; legacy chains use `gasPrice` from the
+   * fee data. Fee data is reused for `feeDataTTL`.
+   */
+  async getGasPrice(): Promise<GasPriceQuote> {
+    const ttl = this.config.feeDataTTL ?? DEFAULT_FEE_DATA_TTL;
+    if (this.gasPriceQuote && Date.now() - this.gasPriceQuote.timestamp < ttl) {
+      return this.gasPriceQuote;
+    }
+
+    // Concurrent searches share one fee data read
+    if (!this.pendingQuote) {
+      this.pendingQuote = this.readGasPrice().finally(() => {
+        this.pendingQuote = null;
+      });
+    }
+    this.gasPriceQuote = await this.pendingQuote;
+    return this.gasPriceQuote;
+  }
+
+  /**
+   * Gas cost of a path in the native token and in its input token
+   * @param pricingPools Pools between the wrapped native token and the input token,
+   *   used when the price oracle cannot price either
+   */
+  async estimatePathCost(
+    path: SwapPath,
+    gasPrice: GasPriceQuote,
+    pricingPools: Pool[] = []
+  ): Promise<GasCostBreakdown> {
+    const { routerGas, hopGas, totalGas } = this.estimateGas(path.hops.length);
+    const costInNative = totalGas * gasPrice.gasPrice;
+    const { amount, conversion } = await this.convertFromNative(costInNative, path.tokenIn, pricingPools);
+
+    return {
+      routerGas,
+      hopGas,
+      totalGas,
+      gasPrice,
+      costInNative,
+      costInTokenIn: amount,
+      conversion,
+      totalCostInTokenIn: amount === null ? null : path.totalAmountIn + amount
+    };
+  }
+
+  /**
+   * Update the profiles from the gas a path used on chain or in simulation
+   * The router overhead is taken as known and the rest is split evenly across hops.
+   */
+  recordGasUsed(hopCount: number, gasUsed: bigint): void {
+    if (hopCount <= 0 || gasUsed <= BigInt(0)) return;
+
+    const perHop = (gasUsed - this.getGasPerCall('router')) / BigInt(hopCount);
+    if (perHop <= BigInt(0)) return;
+
+    const profile = this.profiles.get('swapSAMM')!;
+    profile.gasPerCall = profile.samples === 0
+      ? perHop
+      : BigInt(Math.round(Number(profile.gasPerCall) * (1 - PROFILE_SMOOTHING) + Number(perHop) * PROFILE_SMOOTHING));
+    profile.samples++;
+    profile.updatedAt = Date.now();
+  }
+
+  /**
+   * Current gas profiles
+   */
+  getProfiles(): GasProfile[] {
+    return Array.from(this.profiles.values()).map(profile => ({ ...profile }));
+  }
+
+  // Private helper methods
+
+  private getGasPerCall(callType: GasCallType): bigint {
+    return this.profiles.get(callType)!.gasPerCall;
+  }
+
+  private async readGasPrice(): Promise<GasPriceQuote> {
+    const settings = this.config.gasSettings;
+    const timestamp = Date.now();
+
+    const configuredPrice = parseWei(settings?.gasPrice);
+    if (configuredPrice !== null) {
+      return { gasPrice: configuredPrice, baseFeePerGas: null, priorityFeePerGas: null, pricing: 'configured', timestamp };
+    }
+
+    if (!this.provider) {
+      return { gasPrice: BigInt(0), baseFeePerGas: null, priorityFeePerGas: null, pricing: 'unavailable', timestamp };
+    }
+
+    try {
+      const [feeData, block] = await Promise.all([
+        this.provider.getFeeData(),
+        this.provider.getBlock('latest')
+      ]);
+
+      const baseFeePerGas = block?.baseFeePerGas ?? null;
+      if (baseFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+        const priorityFeePerGas = parseWei(settings?.maxPriorityFeePerGas) ?? feeData.maxPriorityFeePerGas;
+        const maxFeePerGas = parseWei(settings?.maxFeePerGas) ?? feeData.maxFeePerGas;
+        let gasPrice = baseFeePerGas + priorityFeePerGas;
+        if (maxFeePerGas !== null && gasPrice > maxFeePerGas) {
+          gasPrice = maxFeePerGas;
+        }
+        return { gasPrice, baseFeePerGas, priorityFeePerGas, pricing: 'eip1559', timestamp };
+      }
+
+      return { gasPrice: feeData.gasPrice ?? BigInt(0), baseFeePerGas: null, priorityFeePerGas: null, pricing: 'legacy', timestamp };
+    } catch (error) {
+      this.logger.warn('Failed to read fee data, keeping the last gas price', { error });
+      return this.gasPriceQuote
+        ? { ...this.gasPriceQuote, timestamp }
+        : { gasPrice: BigInt(0), baseFeePerGas: null, priorityFeePerGas: null, pricing: 'unavailable', timestamp };
+    }
+  }
+
+  /**
+   * Convert an amount of the native token into a token
+   * Tried in order: the token is the wrapped native token, both have oracle prices,
+   * or a pool pairs them (deepest pool's spot price).
+   */
+  private async convertFromNative(
+    amountInNative: bigint,
+    token: Token,
+    pricingPools: Pool[]
+  ): Promise<{ amount: bigint | null; conversion: GasCostBreakdown['conversion'] }> {
+    if (amountInNative === BigInt(0)) {
+      return { amount: BigInt(0), conversion: null };
+    }
+
+    const wrappedNative = this.config.wrappedNativeToken;
+    if (!wrappedNative) {
+      return { amount: null, conversion: null };
+    }
+    if (wrappedNative.address.toLowerCase() === token.address.toLowerCase()) {
+      return { amount: amountInNative, conversion: 'same-token' };
+    }
+
+    if (this.config.priceOracle) {
+      try {
+        const [nativePrice, tokenPrice] = await Promise.all([
+          this.config.priceOracle.getPrice(wrappedNative),
+          this.config.priceOracle.getPrice(token)
+        ]);
+        if (nativePrice && tokenPrice && tokenPrice.price > 0) {
+          const amount = Number(ethers.formatUnits(amountInNative, wrappedNative.decimals)) * nativePrice.price / tokenPrice.price;
+          return { amount: ethers.parseUnits(amount.toFixed(token.decimals), token.decimals), conversion: 'oracle' };
+        }
+      } catch (error) {
+        this.logger.warn('Failed to price gas with the price oracle', { token: token.address, error });
+      }
+    }
+
+    // Deepest pool by wrapped native reserve; raw reserves carry the decimals
+    let best: { nativeReserve: bigint; tokenReserve: bigint } | null = null;
+    for (const pool of pricingPools) {
+      const nativeIsA = pool.tokenPair.tokenA.address.toLowerCase() === wrappedNative.address.toLowerCase();
+      const nativeReserve = nativeIsA ? pool.reserves.tokenA : pool.reserves.tokenB;
+      const tokenReserve = nativeIsA ? pool.reserves.tokenB : pool.reserves.tokenA;
+      if (nativeReserve > BigInt(0) && tokenReserve > BigInt(0) && (!best || nativeReserve > best.nativeReserve)) {
+        best = { nativeReserve, tokenReserve };
+      }
+    }
+    if (best) {
+      return { amount: amountInNative * best.tokenReserve / best.nativeReserve, conversion: 'pool' };
+    }
+
+    return { amount: null, conversion: null };
+  }
+}
+
+/**
+ * Amount of wei from a gas setting, or null for unset, 'auto' and other non-numeric values
+ */
+function parseWei(value: string | undefined): bigint | null {
+  return value !== undefined && /^\d+$/.test(value) ? BigInt(value) : null;
+}
@@ -18,11 +18,36 @@ import {
   CrossPoolRouterConfig,
   CrossPoolRouterError
 } from './types';
+import { GasCostEstimator } from './GasCostEstimator';
+import { SAMMFeeCalculator, SAMMPoolFeeConfig } from '../samm-fees';
+import { Logger } from '../logging';
+
+/**
+ * Partial path built backwards from the output token during multi-hop search
+ */
+interface BackwardSearchState {
+  /** Token the remaining path must be funded with */
+  token: Token;
+
+  /** Exact amount of `token` the remaining hops consume */
+  requiredAmount: bigint;
+
+  /** Hops from `token` to the output token, in execution order */
+  hops: SwapHop[];
+
+  /** Accumulated fees of the hops */
+  totalFees: bigint;
+
+  /** Accumulated price impact of the hops (search cost) */
+  totalPriceImpact: number;
+}
 
 export class PathDiscoveryService {
   private config: CrossPoolRouterConfig;
   private tokenGraph: TokenGraph;
   private pathCache: Map<string, SwapPath[]>;
+  private gasEstimator: GasCostEstimator;
+  private logger: Logger;
   private stats: {
     totalSearches: number;
     totalPathsFound: number;
@@ -30,8 +55,9 @@ export class PathDiscoveryService {
     cacheHits: number;
   };
 
-  constructor(config: CrossPoolRouterConfig) {
+  constructor(config: CrossPoolRouterConfig, gasEstimator: GasCostEstimator = new GasCostEstimator(config)) {
     this.config = config;
+    this.gasEstimator = gasEstimator;
     this.tokenGraph = {
       nodes: new Map(),
       pools: new Map(),
@@ -39,6 +65,7 @@ export class PathDiscoveryService {
       lastUpdated: 0
     };
     this.pathCache = new Map();
+    this.logger = new Logger('PathDiscoveryService', { chainId: config.chainId });
     this.stats = {
       totalSearches: 0,
       totalPathsFound: 0,
@@ -83,9 +110,9 @@ export class PathDiscoveryService {
       // Multi-hop path discovery
       const multiHopPaths = await this.findMultiHopPaths(request);
       
-      // Combine and sort paths
+      // Combine and rank paths by input plus gas
       const allPaths = [...directPaths, ...multiHopPaths];
-      const sortedPaths = this.sortPathsByEfficiency(allPaths);
+      const sortedPaths = await this.rankPathsByCost(allPaths, request);
       
       // Limit results
       const limitedPaths = sortedPaths.slice(0, this.config.maxPaths);
@@ -100,6 +127,15 @@ export class PathDiscoveryService {
       this.stats.totalPathsFound += limitedPaths.length;
       const searchTime = Date.now() - startTime;
       this.stats.avgSearchTime = (this.stats.avgSearchTime + searchTime) / 2;
+      
+      this.logger.info('Path discovery completed', {
+        tokenIn: request.tokenIn.address,
+        tokenOut: request.tokenOut.address,
+        amountOut: request.amountOut,
+        pathsEvaluated: allPaths.length,
+        pathsFound: limitedPaths.length,
+        searchTimeMs: searchTime
+      });
 
       return {
         paths: limitedPaths,
@@ -113,7 +149,7 @@ export class PathDiscoveryService {
       };
 
     } catch (error) {
-      console.error('Path discovery failed:', error);
+      this.logger.error('Path discovery failed', error);
       throw error;
     }
   }
@@ -154,9 +190,12 @@ export class PathDiscoveryService {
         tokenOut,
         amountOut
       );
+      if (!swapMetrics) {
+        continue;
+      }
 
       // Validate c-threshold
-      if (!this.validateCThreshold(smallestShard, swapMetrics.amountIn, tokenIn)) {
+      if (!this.validateCThreshold(smallestShard, amountOut, tokenIn)) {
         continue;
       }
 
@@ -182,8 +221,8 @@ export class PathDiscoveryService {
         finalAmountOut: amountOut,
         totalFees: swapMetrics.fee,
         totalPriceImpact: swapMetrics.priceImpact,
-        efficiencyScore: this.calculateEfficiencyScore([hop]),
-        estimatedGas: this.estimateGasForPath([hop]),
+        efficiencyScore: 0, // Scored against the other paths once costed
+        estimatedGas: this.gasEstimator.estimateGas(1).totalGas,
         chainId,
         createdAt: Date.now()
       };
@@ -195,7 +234,14 @@ export class PathDiscoveryService {
   }
 
   /**
-   * Find multi-hop paths using graph traversal
+   * Find multi-hop paths with a k-best search over the token graph
+   *
+   * The search runs backwards from the output token. Each expansion prices one
+   * more hop for the exact amount the rest of the path needs, so every
+   * `hops[i].expectedAmountOut` equals `hops[i + 1].expectedAmountIn` and each
+   * amount is quoted on the shard the hop actually uses. States are expanded
+   * in order of accumulated price impact and each token is settled at most
+   * `maxPaths` times, which bounds the search to the k best candidates.
    * @param request Discovery request
    * @returns Array of multi-hop paths
    */
@@ -203,229 +249,102 @@ export class PathDiscoveryService {
     const { tokenIn, tokenOut, amountOut, maxHops = 3, chainId } = request;
     const paths: SwapPath[] = [];
 
-    // Use breadth-first search to find paths
-    const queue: {
-      currentToken: Token;
-      path: SwapHop[];
-      remainingAmount: bigint;
-      totalAmountIn: bigint;
-      totalFees: bigint;
-      totalPriceImpact: number;
-    }[] = [];
-
-    // Initialize with direct connections from input token
-    const inputNode = this.tokenGraph.nodes.get(tokenIn.address);
-    if (!inputNode) {
+    if (!this.tokenGraph.nodes.has(tokenIn.address) || !this.tokenGraph.nodes.has(tokenOut.address)) {
       return paths;
     }
 
-    // Add initial connections to queue
-    for (const [connectedTokenAddress, pools] of inputNode.connections) {
-      if (connectedTokenAddress === tokenOut.address) {
-        continue; // Skip direct paths (handled separately)
-      }
+    const frontier: BackwardSearchState[] = [{
+      token: tokenOut,
+      requiredAmount: amountOut,
+      hops: [],
+      totalFees: BigInt(0),
+      totalPriceImpact: 0
+    }];
+    const settledCount = new Map<string, number>();
 
-      const connectedToken = this.getTokenByAddress(connectedTokenAddress, chainId);
-      if (!connectedToken) {
+    while (frontier.length > 0 && paths.length < this.config.maxPaths) {
+      const current = frontier.shift()!;
+
+      const settled = settledCount.get(current.token.address) || 0;
+      if (settled >= this.config.maxPaths) {
         continue;
       }
+      settledCount.set(current.token.address, settled + 1);
 
-      for (const pool of pools) {
-        if (pool.status !== 'active' || !this.hasMinimumLiquidity(pool)) {
-          continue;
-        }
-
-        const smallestShard = await this.findSmallestShardForPool(pool, tokenIn);
-        if (!smallestShard) {
-          continue;
-        }
-
-        // For multi-hop, we need to work backwards from final amount
-        // This is a simplified approach - in practice, you'd need more sophisticated calculation
-        const estimatedIntermediateAmount = this.estimateIntermediateAmount(
-          amountOut,
-          connectedToken,
-          tokenOut,
-          chainId
-        );
-
-        if (estimatedIntermediateAmount === BigInt(0)) {
-          continue;
-        }
-
-        const swapMetrics = this.calculateSwapMetrics(
-          smallestShard,
-          tokenIn,
-          connectedToken,
-          estimatedIntermediateAmount
-        );
-
-        if (!this.validateCThreshold(smallestShard, swapMetrics.amountIn, tokenIn)) {
-          continue;
-        }
-
-        const hop: SwapHop = {
-          pool: smallestShard,
-          tokenIn,
-          tokenOut: connectedToken,
-          expectedAmountIn: swapMetrics.amountIn,
-          expectedAmountOut: estimatedIntermediateAmount,
-          estimatedFee: swapMetrics.fee,
-          priceImpact: swapMetrics.priceImpact,
-          usesSmallestShard: true,
-          hopIndex: 0
-        };
-
-        queue.push({
-          currentToken: connectedToken,
-          path: [hop],
-          remainingAmount: estimatedIntermediateAmount,
-          totalAmountIn: swapMetrics.amountIn,
-          totalFees: swapMetrics.fee,
-          totalPriceImpact: swapMetrics.priceImpact
-        });
+      // Reached the input token: the path is complete
+      if (current.token.address === tokenIn.address) {
+        paths.push(this.buildPathFromState(tokenIn, tokenOut, current, chainId));
+        continue;
       }
-    }
 
-    // Process queue for multi-hop paths
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      
-      if (current.path.length >= maxHops) {
+      if (current.hops.length >= maxHops) {
         continue;
       }
 
-      const currentNode = this.tokenGraph.nodes.get(current.currentToken.address);
+      const currentNode = this.tokenGraph.nodes.get(current.token.address);
       if (!currentNode) {
         continue;
       }
 
-      // Check if we can reach the target token
-      for (const [connectedTokenAddress, pools] of currentNode.connections) {
-        const connectedToken = this.getTokenByAddress(connectedTokenAddress, chainId);
-        if (!connectedToken) {
+      for (const [previousTokenAddress, pools] of currentNode.connections) {
+        // Direct paths are handled separately
+        if (current.hops.length === 0 && previousTokenAddress === tokenIn.address) {
           continue;
         }
 
-        // If this is the target token, complete the path
-        if (connectedToken.address === tokenOut.address) {
-          for (const pool of pools) {
-            if (pool.status !== 'active' || !this.hasMinimumLiquidity(pool)) {
-              continue;
-            }
-
-            const smallestShard = await this.findSmallestShardForPool(pool, current.currentToken);
-            if (!smallestShard) {
-              continue;
-            }
-
-            const swapMetrics = this.calculateSwapMetrics(
-              smallestShard,
-              current.currentToken,
-              tokenOut,
-              amountOut
-            );
+        // Avoid cycles
+        const alreadyVisited = previousTokenAddress === tokenOut.address ||
+          current.hops.some(hop => hop.tokenIn.address === previousTokenAddress);
+        if (alreadyVisited) {
+          continue;
+        }
 
-            if (!this.validateCThreshold(smallestShard, swapMetrics.amountIn, current.currentToken)) {
-              continue;
-            }
+        const previousToken = this.getTokenByAddress(previousTokenAddress, chainId);
+        if (!previousToken) {
+          continue;
+        }
 
-            const finalHop: SwapHop = {
-              pool: smallestShard,
-              tokenIn: current.currentToken,
-              tokenOut,
-              expectedAmountIn: swapMetrics.amountIn,
-              expectedAmountOut: amountOut,
-              estimatedFee: swapMetrics.fee,
-              priceImpact: swapMetrics.priceImpact,
-              usesSmallestShard: true,
-              hopIndex: current.path.length
-            };
-
-            const completePath = [...current.path, finalHop];
-            const totalAmountIn = current.totalAmountIn + swapMetrics.amountIn;
-            const totalFees = current.totalFees + swapMetrics.fee;
-            const totalPriceImpact = current.totalPriceImpact + swapMetrics.priceImpact;
-
-            const path: SwapPath = {
-              tokenIn,
-              tokenOut,
-              hops: completePath,
-              totalAmountIn,
-              finalAmountOut: amountOut,
-              totalFees,
-              totalPriceImpact,
-              efficiencyScore: this.calculateEfficiencyScore(completePath),
-              estimatedGas: this.estimateGasForPath(completePath),
-              chainId,
-              createdAt: Date.now()
-            };
-
-            paths.push(path);
+        for (const pool of pools) {
+          if (pool.status !== 'active' || pool.chainId !== chainId || !this.hasMinimumLiquidity(pool)) {
+            continue;
           }
-        } else {
-          // Continue building the path
-          for (const pool of pools) {
-            if (pool.status !== 'active' || !this.hasMinimumLiquidity(pool)) {
-              continue;
-            }
-
-            // Avoid cycles
-            const alreadyVisited = current.path.some(hop => 
-              hop.tokenOut.address === connectedToken.address
-            );
-            if (alreadyVisited) {
-              continue;
-            }
-
-            const smallestShard = await this.findSmallestShardForPool(pool, current.currentToken);
-            if (!smallestShard) {
-              continue;
-            }
 
-            const estimatedNextAmount = this.estimateIntermediateAmount(
-              amountOut,
-              connectedToken,
-              tokenOut,
-              chainId
-            );
+          const smallestShard = await this.findSmallestShardForPool(pool, previousToken);
+          if (!smallestShard) {
+            continue;
+          }
 
-            if (estimatedNextAmount === BigInt(0)) {
-              continue;
-            }
+          // Price the hop for exactly what the rest of the path consumes
+          const swapMetrics = this.calculateSwapMetrics(
+            smallestShard,
+            previousToken,
+            current.token,
+            current.requiredAmount
+          );
 
-            const swapMetrics = this.calculateSwapMetrics(
-              smallestShard,
-              current.currentToken,
-              connectedToken,
-              estimatedNextAmount
-            );
+          if (!swapMetrics || !this.validateCThreshold(smallestShard, current.requiredAmount, previousToken)) {
+            continue;
+          }
 
-            if (!this.validateCThreshold(smallestShard, swapMetrics.amountIn, current.currentToken)) {
-              continue;
-            }
+          const hop: SwapHop = {
+            pool: smallestShard,
+            tokenIn: previousToken,
+            tokenOut: current.token,
+            expectedAmountIn: swapMetrics.amountIn,
+            expectedAmountOut: current.requiredAmount,
+            estimatedFee: swapMetrics.fee,
+            priceImpact: swapMetrics.priceImpact,
+            usesSmallestShard: true,
+            hopIndex: 0 // Assigned once the path is complete
+          };
 
-            const hop: SwapHop = {
-              pool: smallestShard,
-              tokenIn: current.currentToken,
-              tokenOut: connectedToken,
-              expectedAmountIn: swapMetrics.amountIn,
-              expectedAmountOut: estimatedNextAmount,
-              estimatedFee: swapMetrics.fee,
-              priceImpact: swapMetrics.priceImpact,
-              usesSmallestShard: true,
-              hopIndex: current.path.length
-            };
-
-            queue.push({
-              currentToken: connectedToken,
-              path: [...current.path, hop],
-              remainingAmount: estimatedNextAmount,
-              totalAmountIn: current.totalAmountIn + swapMetrics.amountIn,
-              totalFees: current.totalFees + swapMetrics.fee,
-              totalPriceImpact: current.totalPriceImpact + swapMetrics.priceImpact
-            });
-          }
+          this.enqueueSearchState(frontier, {
+            token: previousToken,
+            requiredAmount: swapMetrics.amountIn,
+            hops: [hop, ...current.hops],
+            totalFees: current.totalFees + swapMetrics.fee,
+            totalPriceImpact: current.totalPriceImpact + swapMetrics.priceImpact
+          });
         }
       }
     }
@@ -433,6 +352,56 @@ export class PathDiscoveryService {
     return paths;
   }
 
+  /**
+   * Insert a search state keeping the frontier ordered by cost
+   * (accumulated price impact, then hop count)
+   */
+  private enqueueSearchState(frontier: BackwardSearchState[], state: BackwardSearchState): void {
+    let low = 0;
+    let high = frontier.length;
+
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      const other = frontier[mid];
+      const isCheaper = state.totalPriceImpact < other.totalPriceImpact ||
+        (state.totalPriceImpact === other.totalPriceImpact && state.hops.length < other.hops.length);
+
+      if (isCheaper) {
+        high = mid;
+      } else {
+        low = mid + 1;
+      }
+    }
+
+    frontier.splice(low, 0, state);
+  }
+
+  /**
+   * Turn a completed search state into a swap path
+   */
+  private buildPathFromState(
+    tokenIn: Token,
+    tokenOut: Token,
+    state: BackwardSearchState,
+    chainId: number
+  ): SwapPath {
+    const hops = state.hops.map((hop, index) => ({ ...hop, hopIndex: index }));
+
+    return {
+      tokenIn,
+      tokenOut,
+      hops,
+      totalAmountIn: hops[0].expectedAmountIn,
+      finalAmountOut: hops[hops.length - 1].expectedAmountOut,
+      totalFees: state.totalFees,
+      totalPriceImpact: state.totalPriceImpact,
+      efficiencyScore: 0, // Scored against the other paths once costed
+      estimatedGas: this.gasEstimator.estimateGas(hops.length).totalGas,
+      chainId,
+      createdAt: Date.now()
+    };
+  }
+
   /**
    * Update token graph with pool data
    * @param pools Array of pools to add to graph
@@ -520,7 +489,7 @@ export class PathDiscoveryService {
       }
 
       // Check c-threshold
-      if (!this.validateCThreshold(hop.pool, hop.expectedAmountIn, hop.tokenIn)) {
+      if (!this.validateCThreshold(hop.pool, hop.expectedAmountOut, hop.tokenIn)) {
         warnings.push(`Hop ${hop.hopIndex} exceeds c-threshold`);
         successProbability *= 0.9;
       }
@@ -597,44 +566,67 @@ export class PathDiscoveryService {
     return `${request.tokenIn.address}-${request.tokenOut.address}-${request.amountOut.toString()}-${request.chainId}`;
   }
 
-  private sortPathsByEfficiency(paths: SwapPath[]): SwapPath[] {
-    return paths.sort((a, b) => {
-      // Primary: efficiency score (higher is better)
-      if (a.efficiencyScore !== b.efficiencyScore) {
-        return b.efficiencyScore - a.efficiencyScore;
+  /**
+   * Cost every path and rank them by input amount plus gas in the input token
+   * Every path spends the same input token, so costs compare directly. When gas
+   * cannot be priced in the input token, paths rank by input amount, then gas.
+   * The efficiency score is the best cost as a percentage of the path's cost.
+   */
+  private async rankPathsByCost(paths: SwapPath[], request: PathDiscoveryRequest): Promise<SwapPath[]> {
+    if (paths.length === 0) {
+      return paths;
+    }
+
+    const gasPrice = await this.gasEstimator.getGasPrice();
+    const pricingPools = this.getGasPricingPools(request.tokenIn);
+    for (const path of paths) {
+      path.gasCost = await this.gasEstimator.estimatePathCost(path, gasPrice, pricingPools);
+    }
+
+    const cost = (path: SwapPath) => path.gasCost?.totalCostInTokenIn ?? path.totalAmountIn;
+    paths.sort((a, b) => {
+      // Primary: total cost (lower is better)
+      if (cost(a) !== cost(b)) {
+        return cost(a) < cost(b) ? -1 : 1;
       }
       
-      // Secondary: total fees (lower is better)
-      if (a.totalFees !== b.totalFees) {
-        return Number(a.totalFees - b.totalFees);
+      // Secondary: gas units (lower is better)
+      if (a.estimatedGas !== b.estimatedGas) {
+        return a.estimatedGas < b.estimatedGas ? -1 : 1;
       }
       
       // Tertiary: number of hops (fewer is better)
       return a.hops.length - b.hops.length;
     });
+
+    const bestCost = cost(paths[0]);
+    for (const path of paths) {
+      const pathCost = cost(path);
+      path.efficiencyScore = pathCost > BigInt(0) ? Number((bestCost * BigInt(10000)) / pathCost) / 100 : 100;
+    }
+
+    return paths;
   }
 
-  private calculateEfficiencyScore(hops: SwapHop[]): number {
-    let score = 100;
-    
-    // Penalize for number of hops
-    score -= (hops.length - 1) * 10;
-    
-    // Penalize for high price impact
-    const totalPriceImpact = hops.reduce((sum, hop) => sum + hop.priceImpact, 0);
-    score -= totalPriceImpact * 2;
-    
-    // Bonus for using smallest shards
-    const smallestShardBonus = hops.filter(hop => hop.usesSmallestShard).length * 5;
-    score += smallestShardBonus;
-    
-    return Math.max(0, Math.min(100, score));
+  /**
+   * Active pools between the wrapped native token and a token, used to price gas
+   */
+  private getGasPricingPools(token: Token): Pool[] {
+    const wrappedNative = this.config.wrappedNativeToken;
+    if (!wrappedNative) {
+      return [];
+    }
+
+    const pairKey = this.getTokenPairKey(wrappedNative.address, token.address);
+    return (this.tokenGraph.pools.get(pairKey) || [])
+      .filter(pool => pool.status === 'active' && pool.chainId === this.config.chainId);
   }
 
-  private estimateGasForPath(hops: SwapHop[]): bigint {
-    // Base gas cost per hop
-    const baseGasPerHop = BigInt(150000);
-    return BigInt(hops.length) * baseGasPerHop;
+  /**
+   * Gas cost estimator shared with execution, so measured gas improves ranking
+   */
+  getGasEstimator(): GasCostEstimator {
+    return this.gasEstimator;
   }
 
   private getPoolsConsidered(request: PathDiscoveryRequest): number {
@@ -707,23 +699,25 @@ export class PathDiscoveryService {
     tokenIn: Token,
     tokenOut: Token,
     amountOut: bigint
-  ): { amountIn: bigint; fee: bigint; priceImpact: number } {
+  ): { amountIn: bigint; fee: bigint; priceImpact: number } | null {
     // Determine input and output reserves
     const isTokenA = pool.tokenPair.tokenA.address === tokenIn.address;
     const inputReserve = isTokenA ? pool.reserves.tokenA : pool.reserves.tokenB;
     const outputReserve = isTokenA ? pool.reserves.tokenB : pool.reserves.tokenA;
 
-    // Calculate input amount using constant product formula
-    // (x + dx) * (y - dy) = x * y
-    // dx = (x * dy) / (y - dy)
-    const numerator = inputReserve * amountOut;
-    const denominator = outputReserve - amountOut;
-    const amountInBeforeFee = numerator / denominator;
+    if (inputReserve === BigInt(0) || amountOut <= BigInt(0) || amountOut >= outputReserve) {
+      return null;
+    }
 
-    // Calculate fee (simplified - using basic percentage)
-    const feeRate = BigInt(pool.fees.tradeFeeNumerator) * BigInt(1000000) / BigInt(pool.fees.tradeFeeDenominator);
-    const fee = (amountInBeforeFee * feeRate) / BigInt(1000000);
-    const amountIn = amountInBeforeFee + fee;
+    // Price the hop exactly as SAMMPool.calculateSwapSAMM would
+    const quote = SAMMFeeCalculator.calculateSwapSAMM(
+      amountOut,
+      inputReserve,
+      outputReserve,
+      this.getFeeConfig(pool, tokenIn, tokenOut)
+    );
+    const fee = quote.tradeFee + quote.ownerFee;
+    const amountIn = quote.amountIn;
 
     // Calculate price impact
     const currentPrice = Number(outputReserve) / Number(inputReserve);
@@ -733,54 +727,27 @@ export class PathDiscoveryService {
     return { amountIn, fee, priceImpact };
   }
 
-  private validateCThreshold(pool: Pool, amountIn: bigint, inputToken: Token): boolean {
+  private validateCThreshold(pool: Pool, amountOut: bigint, inputToken: Token): boolean {
     const isTokenA = pool.tokenPair.tokenA.address === inputToken.address;
     const inputReserve = isTokenA ? pool.reserves.tokenA : pool.reserves.tokenB;
-    
-    if (inputReserve === BigInt(0)) {
-      return false;
-    }
+    const outputToken = isTokenA ? pool.tokenPair.tokenB : pool.tokenPair.tokenA;
 
-    const ratio = Number(amountIn) / Number(inputReserve);
-    const cThreshold = pool.sammParams.c / 1000000; // Convert from scaled value
-    
-    return ratio <= cThreshold;
+    // OA/RA <= c on normalized amounts, matching swapSAMM
+    return SAMMFeeCalculator.isWithinCThreshold(
+      amountOut,
+      inputReserve,
+      this.getFeeConfig(pool, inputToken, outputToken)
+    );
   }
 
-  private estimateIntermediateAmount(
-    finalAmount: bigint,
-    intermediateToken: Token,
-    finalToken: Token,
-    chainId: number
-  ): bigint {
-    // Find pools between intermediate and final tokens
-    const pairKey = this.getTokenPairKey(intermediateToken.address, finalToken.address);
-    const pools = this.tokenGraph.pools.get(pairKey) || [];
-    
-    if (pools.length === 0) {
-      return BigInt(0);
-    }
-
-    // Use the first active pool for estimation
-    const pool = pools.find(p => p.status === 'active' && p.chainId === chainId);
-    if (!pool) {
-      return BigInt(0);
-    }
-
-    // Estimate required intermediate amount (simplified calculation)
-    const isTokenA = pool.tokenPair.tokenA.address === intermediateToken.address;
-    const inputReserve = isTokenA ? pool.reserves.tokenA : pool.reserves.tokenB;
-    const outputReserve = isTokenA ? pool.reserves.tokenB : pool.reserves.tokenA;
-
-    // Use constant product formula to estimate
-    const numerator = inputReserve * finalAmount;
-    const denominator = outputReserve - finalAmount;
-    
-    if (denominator <= 0) {
-      return BigInt(0);
-    }
-
-    return numerator / denominator;
+  private getFeeConfig(pool: Pool, tokenIn: Token, tokenOut: Token): SAMMPoolFeeConfig {
+    return {
+      sammParams: SAMMFeeCalculator.fromScaledParams(pool.sammParams),
+      ownerFeeNumerator: BigInt(pool.fees.ownerFeeNumerator),
+      ownerFeeDenominator: BigInt(pool.fees.ownerFeeDenominator),
+      inputDecimals: tokenIn.decimals,
+      outputDecimals: tokenOut.decimals
+    };
   }
 
   /**
@@ -790,6 +757,13 @@ export class PathDiscoveryService {
     return { ...this.stats };
   }
 
+  /**
+   * Restore discovery statistics saved by a previous run
+   */
+  restoreStats(stats: ReturnType<PathDiscoveryService['getStats']>): void {
+    this.stats = { ...stats };
+  }
+
   /**
    * Clear path cache
    */
@@ -0,0 +1,81 @@
+/**
+ * Private Relay Submission
+ * Sends signed swap transactions to a private relay instead of the public mempool
+ */
+
+import { ethers } from 'ethers';
+
+export interface PrivateRelay {
+  /**
+   * Submit a signed transaction
+   * @param signedTransaction Serialized signed transaction
+   * @param maxBlockNumber Last block the transaction may be included in
+   * @returns Transaction hash
+   */
+  submit(signedTransaction: string, maxBlockNumber: number): Promise<string>;
+}
+
+/**
+ * Relay reached over JSON-RPC (Flashbots Protect style `eth_sendPrivateTransaction`)
+ */
+export class JsonRpcPrivateRelay implements PrivateRelay {
+  private url: string;
+  private method: string;
+  private timeoutMs: number;
+  private requestId = 0;
+
+  constructor(url: string, method: string = 'eth_sendPrivateTransaction', timeoutMs: number = 10000) {
+    this.url = url;
+    this.method = method;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async submit(signedTransaction: string, maxBlockNumber: number): Promise<string> {
+    const request = new ethers.FetchRequest(this.url);
+    request.timeout = this.timeoutMs;
+    request.setHeader('content-type', 'application/json');
+    request.body = JSON.stringify({
+      jsonrpc: '2.0',
+      id: ++this.requestId,
+      method: this.method,
+      params: [{ tx: signedTransaction, maxBlockNumber: ethers.toQuantity(maxBlockNumber) }]
+    });
+
+    const response = await request.send();
+    response.assertOk();
+
+    const body = response.bodyJson;
+    if (body.error) {
+      throw new Error(`Private relay rejected transaction: ${body.error.message || JSON.stringify(body.error)}`);
+    }
+    if (typeof body.result !== 'string') {
+      throw new Error('Private relay returned no transaction hash');
+    }
+
+    return body.result;
+  }
+}
+
+/**
+ * Stand-in relay for local nodes (Hardhat, Anvil)
+ * Broadcasts through the node and records what was submitted
+ */
+export class LocalPrivateRelay implements PrivateRelay {
+  private provider: ethers.Provider;
+  readonly submissions: { signedTransaction: string; maxBlockNumber: number; hash: string }[] = [];
+
+  constructor(provider: ethers.Provider) {
+    this.provider = provider;
+  }
+
+  async submit(signedTransaction: string, maxBlockNumber: number): Promise<string> {
+    const blockNumber = await this.provider.getBlockNumber();
+    if (blockNumber >= maxBlockNumber) {
+      throw new Error(`Private relay window closed at block ${maxBlockNumber}`);
+    }
+
+    const response = await this.provider.broadcastTransaction(signedTransaction);
+    this.submissions.push({ signedTransaction, maxBlockNumber, hash: response.hash });
+    return response.hash;
+  }
+}
@@ -10,6 +10,8 @@ import {
   SwapHop,
   CrossPoolRouterConfig
 } from './types';
+import { SAMMFeeCalculator, SAMM_SCALE_FACTOR } from '../samm-fees';
+import { Logger } from '../logging';
 
 export interface ShardSelectionResult {
   /** Selected shard */
@@ -50,6 +52,7 @@ export interface ShardSelectionCriteria {
 
 export class ShardSelectorService {
   private config: CrossPoolRouterConfig;
+  private logger: Logger;
   private selectionStats: {
     totalSelections: number;
     smallestShardSelections: number;
@@ -59,6 +62,7 @@ export class ShardSelectorService {
 
   constructor(config: CrossPoolRouterConfig) {
     this.config = config;
+    this.logger = new Logger('ShardSelectorService', { chainId: config.chainId });
     this.selectionStats = {
       totalSelections: 0,
       smallestShardSelections: 0,
@@ -124,7 +128,7 @@ export class ShardSelectorService {
       return result;
 
     } catch (error) {
-      console.error('Shard selection failed:', error);
+      this.logger.error('Shard selection failed', error);
       return null;
     }
   }
@@ -155,13 +159,21 @@ export class ShardSelectorService {
       };
     }
 
-    // Calculate OA/RA ratio for c-threshold validation
-    const ratio = Number(swapAmount) / Number(inputReserve);
-    const cThreshold = shard.sammParams.c / 1000000; // Convert from scaled value
+    // Calculate OA/RA ratio for c-threshold validation (normalized, as swapSAMM does)
+    const outputToken = isTokenA ? shard.tokenPair.tokenB : shard.tokenPair.tokenA;
+    const feeConfig = {
+      sammParams: SAMMFeeCalculator.fromScaledParams(shard.sammParams),
+      inputDecimals: inputToken.decimals,
+      outputDecimals: outputToken.decimals
+    };
+    const scaledRatio = (SAMMFeeCalculator.normalize(swapAmount, outputToken.decimals) * SAMM_SCALE_FACTOR) /
+      SAMMFeeCalculator.normalize(inputReserve, inputToken.decimals);
+    const ratio = Number(scaledRatio) / Number(SAMM_SCALE_FACTOR);
+    const cThreshold = Number(feeConfig.sammParams.c) / Number(SAMM_SCALE_FACTOR);
     const cThresholdRatio = ratio / cThreshold;
 
     // Validate c-threshold (OA/RA ≤ c)
-    if (ratio > cThreshold) {
+    if (!SAMMFeeCalculator.isWithinCThreshold(swapAmount, inputReserve, feeConfig)) {
       return {
         valid: false,
         reason: `Swap exceeds c-threshold (ratio: ${ratio.toFixed(6)}, threshold: ${cThreshold.toFixed(6)})`,
@@ -0,0 +1,209 @@
+/**
+ * Swap Simulation Service
+ * Runs a multi-hop swap through eth_call against a given block before it is sent,
+ * tracing each hop's actual amounts and decoding the revert reason if it would fail
+ */
+
+import { ethers } from 'ethers';
+import type { ExecutionPlan, ExecutionStep } from './AtomicExecutionService';
+import {
+  SwapHop,
+  HopSimulation,
+  SwapSimulationRequest,
+  SwapSimulationResult
+} from './types';
+
+const SAMM_POOL_SIMULATION_ABI = [
+  'function swapSAMM(uint256 amountOut, uint256 maximalAmountIn, address tokenIn, address tokenOut, address recipient) external returns (uint256 amountIn)',
+  'function calculateSwapSAMM(uint256 amountOut, address tokenIn, address tokenOut) external view returns (tuple(uint256 amountIn, uint256 amountOut, uint256 tradeFee, uint256 ownerFee))'
+];
+
+/** Selector of Error(string) */
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+
+/** Selector of Panic(uint256) */
+const PANIC_SELECTOR = '0x4e487b71';
+
+/** Revert reasons raised by the pool itself rather than by token transfers */
+const POOL_REVERT_PREFIXES = ['SAMMPool:', 'SAMMCurve:', 'SAMMFees:'];
+
+/**
+ * Decode the revert reason of a failed call
+ * @param error Error thrown by the provider or contract
+ * @returns Human-readable revert reason
+ */
+export function decodeRevertReason(error: any): string {
+  if (error?.revert?.name === 'Error' && typeof error.revert.args?.[0] === 'string') {
+    return error.revert.args[0];
+  }
+
+  const data = findRevertData(error);
+  if (data === '0x') {
+    return 'Reverted without a reason';
+  }
+  if (data && data.length >= 10) {
+    const selector = data.slice(0, 10).toLowerCase();
+    const payload = `0x${data.slice(10)}`;
+    const coder = ethers.AbiCoder.defaultAbiCoder();
+
+    try {
+      if (selector === ERROR_STRING_SELECTOR) {
+        return coder.decode(['string'], payload)[0];
+      }
+      if (selector === PANIC_SELECTOR) {
+        return `Panic(0x${coder.decode(['uint256'], payload)[0].toString(16)})`;
+      }
+    } catch {
+      // Fall through to the raw selector
+    }
+    return `Custom error ${selector}`;
+  }
+
+  return error?.reason || error?.shortMessage || error?.message || 'Unknown error';
+}
+
+/**
+ * Find the revert data in the error shapes of ethers and JSON-RPC providers
+ */
+function findRevertData(error: any): string | undefined {
+  const candidates = [error?.data, error?.info?.error?.data, error?.error?.data, error?.info?.error?.data?.data];
+  return candidates.find((candidate): candidate is string => typeof candidate === 'string' && candidate.startsWith('0x'));
+}
+
+export class SwapSimulationService {
+  private provider: ethers.Provider;
+
+  constructor(provider: ethers.Provider) {
+    this.provider = provider;
+  }
+
+  /**
+   * Simulate an execution plan against a block
+   * @param plan Execution plan built for the swap
+   * @param request Simulation request
+   * @returns Per-hop trace, gas used and revert reason
+   */
+  async simulate(plan: ExecutionPlan, request: SwapSimulationRequest): Promise<SwapSimulationResult> {
+    const block = await this.provider.getBlock(request.blockTag);
+    if (!block) {
+      throw new Error(`Block ${request.blockTag} not found`);
+    }
+
+    // Pin every call to the same block unless simulating on top of the pending one
+    const blockTag = request.blockTag === 'pending' ? 'pending' : block.number;
+
+    const hops: HopSimulation[] = [];
+    for (let i = 0; i < plan.steps.length; i++) {
+      hops.push(await this.simulateHop(plan.steps[i], plan.path.hops[i], request.userAddress, blockTag));
+    }
+    this.checkHopChaining(hops);
+
+    const transaction = {
+      from: request.userAddress,
+      to: plan.transaction.to,
+      data: plan.transaction.data,
+      value: plan.transaction.value
+    };
+    const transactionResult = await this.simulateTransaction(transaction, blockTag);
+    const failedHop = hops.find(hop => !hop.success);
+
+    return {
+      success: transactionResult.success && !failedHop,
+      blockNumber: block.number,
+      hops,
+      finalAmountIn: hops[0]?.actualAmountIn ?? BigInt(0),
+      finalAmountOut: hops[hops.length - 1]?.actualAmountOut ?? BigInt(0),
+      totalFees: hops.reduce((sum, hop) => sum + hop.actualFee, BigInt(0)),
+      gasUsed: transactionResult.gasUsed,
+      transaction,
+      revertReason: failedHop?.revertReason ?? transactionResult.revertReason
+    };
+  }
+
+  // Private methods
+
+  /**
+   * Simulate one hop against its pool
+   * Amounts come from calculateSwapSAMM. swapSAMM is then called statically so the
+   * pool's reserve, c-threshold and maximum-input checks run; they all happen before
+   * tokens are pulled, so only pool-side reverts fail the hop. Token transfers are
+   * funded by the executing transaction and are covered by its own simulation.
+   */
+  private async simulateHop(
+    step: ExecutionStep,
+    hop: SwapHop,
+    from: string,
+    blockTag: ethers.BlockTag
+  ): Promise<HopSimulation> {
+    const [amountOut, maxAmountIn, tokenIn, tokenOut, recipient] = step.parameters;
+    const pool = new ethers.Contract(step.poolAddress, SAMM_POOL_SIMULATION_ABI, this.provider);
+    const trace: HopSimulation = {
+      hopIndex: step.stepIndex,
+      poolAddress: step.poolAddress,
+      tokenIn,
+      tokenOut,
+      expectedAmountIn: hop.expectedAmountIn,
+      actualAmountIn: BigInt(0),
+      actualAmountOut: BigInt(amountOut),
+      actualFee: BigInt(0),
+      maxAmountIn: BigInt(maxAmountIn),
+      success: true
+    };
+
+    try {
+      const quote = await pool.calculateSwapSAMM.staticCall(amountOut, tokenIn, tokenOut, { blockTag });
+      trace.actualAmountIn = quote.amountIn;
+      trace.actualFee = quote.tradeFee + quote.ownerFee;
+    } catch (error) {
+      return { ...trace, success: false, revertReason: decodeRevertReason(error) };
+    }
+
+    try {
+      await pool.swapSAMM.staticCall(amountOut, maxAmountIn, tokenIn, tokenOut, recipient, { from, blockTag });
+    } catch (error) {
+      const reason = decodeRevertReason(error);
+      if (POOL_REVERT_PREFIXES.some(prefix => reason.startsWith(prefix))) {
+        return { ...trace, success: false, revertReason: reason };
+      }
+    }
+
+    return trace;
+  }
+
+  /**
+   * Fail hops whose input is not covered by the previous hop's output
+   */
+  private checkHopChaining(hops: HopSimulation[]): void {
+    for (let i = 1; i < hops.length; i++) {
+      const previous = hops[i - 1];
+      const hop = hops[i];
+
+      if (previous.success && hop.success && previous.actualAmountOut < hop.actualAmountIn) {
+        hop.success = false;
+        hop.revertReason = `Hop ${previous.hopIndex} outputs ${previous.actualAmountOut} but hop ${hop.hopIndex} needs ${hop.actualAmountIn}`;
+      }
+    }
+  }
+
+  /**
+   * Run the built transaction through eth_call and estimate its gas
+   */
+  private async simulateTransaction(
+    transaction: { from: string; to: string; data: string; value: bigint },
+    blockTag: ethers.BlockTag
+  ): Promise<{ success: boolean; gasUsed: bigint; revertReason?: string }> {
+    // A call to an address without code "succeeds" without doing anything
+    const code = await this.provider.getCode(transaction.to, blockTag);
+    if (code === '0x') {
+      return { success: false, gasUsed: BigInt(0), revertReason: `No contract deployed at ${transaction.to}` };
+    }
+
+    try {
+      await this.provider.call({ ...transaction, blockTag });
+      const gasUsed = await this.provider.estimateGas({ ...transaction, blockTag });
+      return { success: true, gasUsed };
+    } catch (error) {
+      return { success: false, gasUsed: BigInt(0), revertReason: decodeRevertReason(error) };
+    }
+  }
+}
@@ -7,16 +7,19 @@ import { ethers } from 'ethers';
 import { PathDiscoveryService } from './PathDiscoveryService';
 import { ShardSelectorService } from './ShardSelectorService';
 import { AtomicExecutionService } from './AtomicExecutionService';
+import { GasCostEstimator } from './GasCostEstimator';
 import { CrossPoolRouterAPI, APIConfig } from './CrossPoolRouterAPI';
 import { CrossPoolRouterSDK } from './CrossPoolRouterSDK';
 import {
   CrossPoolRouterConfig,
   PathDiscoveryRequest,
   MultiHopSwapRequest,
+  SwapSimulationRequest,
   Pool,
   Token,
   SwapPath
 } from './types';
+import { Logger } from '../logging';
 
 export class CrossPoolRouterService {
   private config: CrossPoolRouterConfig;
@@ -24,29 +27,30 @@ export class CrossPoolRouterService {
   private pathDiscovery: PathDiscoveryService;
   private shardSelector: ShardSelectorService;
   private atomicExecution: AtomicExecutionService;
+  private gasEstimator: GasCostEstimator;
   private api?: CrossPoolRouterAPI;
+  private logger: Logger;
 
   constructor(config: CrossPoolRouterConfig, provider: ethers.Provider) {
     this.config = config;
     this.provider = provider;
+    this.logger = new Logger('CrossPoolRouterService', { chainId: config.chainId });
     
-    // Initialize core services
-    this.pathDiscovery = new PathDiscoveryService(config);
+    // Initialize core services; ranking and execution share the measured gas profiles
+    this.gasEstimator = new GasCostEstimator(config, provider);
+    this.pathDiscovery = new PathDiscoveryService(config, this.gasEstimator);
     this.shardSelector = new ShardSelectorService(config);
-    this.atomicExecution = new AtomicExecutionService(config, provider);
+    this.atomicExecution = new AtomicExecutionService(config, provider, this.gasEstimator);
   }
 
   /**
    * Initialize the service with pool data
    */
   async initialize(pools: Pool[]): Promise<void> {
-    console.log(`Initializing Cross-Pool Router for chain ${this.config.chainId}`);
-    console.log(`Loading ${pools.length} pools...`);
-    
     // Update token graph with pool data
     this.pathDiscovery.updateTokenGraph(pools);
     
-    console.log('Cross-Pool Router initialized successfully');
+    this.logger.info('Cross-Pool Router initialized', { pools: pools.length });
   }
 
   /**
@@ -71,6 +75,13 @@ export class CrossPoolRouterService {
     return await this.atomicExecution.executeMultiHopSwap(request);
   }
 
+  /**
+   * Simulate multi-hop swap against a block
+   */
+  async simulateMultiHopSwap(request: SwapSimulationRequest) {
+    return await this.atomicExecution.simulateMultiHopSwap(request);
+  }
+
   /**
    * Get available token pairs
    */
@@ -93,6 +104,7 @@ export class CrossPoolRouterService {
       pathDiscovery: this.pathDiscovery.getStats(),
       shardSelector: this.shardSelector.getStats(),
       atomicExecution: this.atomicExecution.getStats(),
+      gasProfiles: this.gasEstimator.getProfiles(),
       config: this.config
     };
   }
@@ -125,6 +137,10 @@ export * from './types';
 export { PathDiscoveryService } from './PathDiscoveryService';
 export { ShardSelectorService } from './ShardSelectorService';
 export { AtomicExecutionService } from './AtomicExecutionService';
+export { GasCostEstimator } from './GasCostEstimator';
+export { SwapSimulationService, decodeRevertReason } from './SwapSimulationService';
+export { ExecutionPolicyService, DEFAULT_EXECUTION_POLICY } from './ExecutionPolicyService';
+export { PrivateRelay, JsonRpcPrivateRelay, LocalPrivateRelay } from './PrivateRelay';
 export { CrossPoolRouterAPI } from './CrossPoolRouterAPI';
 export { CrossPoolRouterSDK } from './CrossPoolRouterSDK';
 
@@ -3,6 +3,10 @@
  * Defines data structures for multi-hop swaps and path discovery
  */
 
+import type { BlockTag } from 'ethers';
+import type { PersistenceStore } from '../persistence';
+import type { PriceOracle } from '../price-oracle';
+
 /**
  * Represents a token in the system
  */
@@ -145,6 +149,9 @@ export interface SwapPath {
   /** Estimated gas cost for the path */
   estimatedGas: bigint;
   
+  /** Gas cost of the path and its total cost in the input token (set once paths are ranked) */
+  gasCost?: GasCostBreakdown;
+  
   /** Chain ID where path executes */
   chainId: number;
   
@@ -152,6 +159,77 @@ export interface SwapPath {
   createdAt: number;
 }
 
+/**
+ * Contract call that gas is attributed to
+ * `router` is the router transaction's own overhead; `swapSAMM` is one pool hop.
+ */
+export type GasCallType = 'router' | 'swapSAMM';
+
+/**
+ * Gas used by one contract call type
+ */
+export interface GasProfile {
+  callType: GasCallType;
+  
+  /** Gas units per call */
+  gasPerCall: bigint;
+  
+  /** Executions and simulations the value was measured from (0 for the default) */
+  samples: number;
+  
+  /** When the profile was last measured */
+  updatedAt: number | null;
+}
+
+/**
+ * Gas price the route costs are computed with
+ */
+export interface GasPriceQuote {
+  /** Expected price paid per gas unit, in wei */
+  gasPrice: bigint;
+  
+  /** EIP-1559 base fee of the latest block */
+  baseFeePerGas: bigint | null;
+  
+  /** EIP-1559 priority fee */
+  priorityFeePerGas: bigint | null;
+  
+  /** Where the price came from; `unavailable` prices gas at zero */
+  pricing: 'eip1559' | 'legacy' | 'configured' | 'unavailable';
+  
+  /** When the fee data was read */
+  timestamp: number;
+}
+
+/**
+ * Gas cost of a swap path
+ */
+export interface GasCostBreakdown {
+  /** Gas units of the router call */
+  routerGas: bigint;
+  
+  /** Gas units of each hop, in execution order */
+  hopGas: bigint[];
+  
+  /** Total gas units (equals `SwapPath.estimatedGas`) */
+  totalGas: bigint;
+  
+  /** Gas price used */
+  gasPrice: GasPriceQuote;
+  
+  /** Gas cost in wei of the native token */
+  costInNative: bigint;
+  
+  /** Gas cost in the input token, or null when the native token could not be priced */
+  costInTokenIn: bigint | null;
+  
+  /** How the native token was priced against the input token (null when nothing was converted) */
+  conversion: 'same-token' | 'oracle' | 'pool' | null;
+  
+  /** Input amount plus gas cost in the input token; paths are ranked by it */
+  totalCostInTokenIn: bigint | null;
+}
+
 /**
  * Path discovery request parameters
  */
@@ -251,6 +329,180 @@ export interface MultiHopSwapResult {
   
   /** Error message if failed */
   error?: string;
+  
+  /** Per-hop input limits the swap was sent with */
+  hopLimits?: HopSlippageLimit[];
+  
+  /** Estimated exposure to sandwich attacks */
+  sandwichRisk?: SandwichRiskEstimate;
+  
+  /** Where the transaction was submitted */
+  submission?: 'public' | 'private';
+}
+
+/**
+ * How swap transactions are submitted
+ * - public: broadcast to the public mempool
+ * - private: send only to the private relay
+ * - private-with-fallback: try the private relay, broadcast publicly if it fails
+ */
+export type SubmissionMode = 'public' | 'private' | 'private-with-fallback';
+
+/**
+ * Execution policy for multi-hop swaps
+ */
+export interface ExecutionPolicyConfig {
+  /** Submission mode */
+  submission: SubmissionMode;
+  
+  /** JSON-RPC endpoint of the private relay */
+  privateRelayUrl?: string;
+  
+  /** JSON-RPC method the relay accepts raw transactions on */
+  privateRelayMethod: string;
+  
+  /** Relay request timeout in milliseconds */
+  privateRelayTimeoutMs: number;
+  
+  /** Blocks the relay may hold the transaction for before dropping it */
+  privateInclusionBlocks: number;
+  
+  /** Latest deadline accepted, in seconds from now; later deadlines are clamped */
+  maxDeadlineSeconds: number;
+}
+
+/**
+ * Input limit of one hop
+ */
+export interface HopSlippageLimit {
+  /** Hop index in the path (0-based) */
+  hopIndex: number;
+  
+  /** Relative input increase a front-run of the hop's own size causes */
+  sensitivity: number;
+  
+  /** Slippage allotted to the hop (percentage) */
+  slippage: number;
+  
+  /** Maximum input the hop may consume */
+  maxAmountIn: bigint;
+}
+
+/**
+ * Sandwich exposure of one hop
+ * Amounts are in the hop's input token
+ */
+export interface HopSandwichExposure {
+  /** Hop index in the path (0-based) */
+  hopIndex: number;
+  
+  /** Largest front-run output that still leaves the hop within its input limit */
+  maxFrontRunAmountOut: bigint;
+  
+  /** Extra input the hop pays after that front-run */
+  victimExtraAmountIn: bigint;
+  
+  /** Fees the attacker pays on the front-run and back-run */
+  attackerFees: bigint;
+  
+  /** Value an attacker could extract (extra input minus fees, at least 0) */
+  extractableValue: bigint;
+}
+
+/**
+ * Estimated exposure of a swap to sandwich attacks
+ */
+export interface SandwichRiskEstimate {
+  /** Risk level */
+  level: 'none' | 'low' | 'medium' | 'high';
+  
+  /** Largest share of a hop's slippage allowance an attacker could extract (0-1) */
+  score: number;
+  
+  /** Per-hop exposure */
+  hops: HopSandwichExposure[];
+  
+  /** Whether private submission keeps the transaction out of the public mempool */
+  mitigated: boolean;
+}
+
+/**
+ * Multi-hop swap simulation request
+ */
+export interface SwapSimulationRequest extends MultiHopSwapRequest {
+  /** Block to simulate against ('latest', 'pending' or a block number) */
+  blockTag: BlockTag;
+}
+
+/**
+ * Simulated outcome of one hop
+ */
+export interface HopSimulation {
+  /** Hop index in the path (0-based) */
+  hopIndex: number;
+  
+  /** Pool contract address */
+  poolAddress: string;
+  
+  /** Input token address */
+  tokenIn: string;
+  
+  /** Output token address */
+  tokenOut: string;
+  
+  /** Input amount quoted by path discovery */
+  expectedAmountIn: bigint;
+  
+  /** Input amount the pool requires at the simulated block */
+  actualAmountIn: bigint;
+  
+  /** Output amount of the hop */
+  actualAmountOut: bigint;
+  
+  /** Trade fee + owner fee at the simulated block */
+  actualFee: bigint;
+  
+  /** Maximum input passed to swapSAMM */
+  maxAmountIn: bigint;
+  
+  /** Whether the hop would go through */
+  success: boolean;
+  
+  /** Decoded revert reason if the hop would revert */
+  revertReason?: string;
+}
+
+/**
+ * Multi-hop swap simulation result
+ */
+export interface SwapSimulationResult {
+  /** Whether the whole transaction would succeed */
+  success: boolean;
+  
+  /** Block the simulation ran against */
+  blockNumber: number;
+  
+  /** Per-hop trace */
+  hops: HopSimulation[];
+  
+  /** Input of the first hop and output of the last hop */
+  finalAmountIn: bigint;
+  finalAmountOut: bigint;
+  totalFees: bigint;
+  
+  /** Gas the transaction would use (0 if it reverts) */
+  gasUsed: bigint;
+  
+  /** Transaction that was simulated */
+  transaction: {
+    from: string;
+    to: string;
+    data: string;
+    value: bigint;
+  };
+  
+  /** Decoded revert reason of the transaction or the first failing hop */
+  revertReason?: string;
 }
 
 /**
@@ -311,6 +563,9 @@ export interface CrossPoolRouterConfig {
   /** Chain ID to operate on */
   chainId: number;
   
+  /** Store for pools, routing decisions, trades and statistics (in-memory only when omitted) */
+  persistence?: PersistenceStore;
+  
   /** RPC endpoint for the chain */
   rpcEndpoint: string;
   
@@ -342,6 +597,21 @@ export interface CrossPoolRouterConfig {
   
   /** Enable path caching */
   enableCaching: boolean;
+  
+  /** Deployed SAMMMultiHopRouter that executes multi-hop swaps atomically */
+  routerAddress?: string;
+  
+  /** Execution policy (public submission with default limits when omitted) */
+  executionPolicy?: Partial<ExecutionPolicyConfig>;
+  
+  /** Wrapped native token (e.g. WETH), used to price gas in the input token */
+  wrappedNativeToken?: Token;
+  
+  /** Prices the native token against input tokens without a pool to the wrapped native token */
+  priceOracle?: PriceOracle;
+  
+  /** How long fee data is reused between path searches, in milliseconds (default 12000) */
+  feeDataTTL?: number;
 }
 
 /**
@@ -389,5 +659,7 @@ export enum CrossPoolRouterError {
   TRANSACTION_FAILED = 'TRANSACTION_FAILED',
   POOL_NOT_ACTIVE = 'POOL_NOT_ACTIVE',
   INSUFFICIENT_BALANCE = 'INSUFFICIENT_BALANCE',
-  GAS_ESTIMATION_FAILED = 'GAS_ESTIMATION_FAILED'
+  GAS_ESTIMATION_FAILED = 'GAS_ESTIMATION_FAILED',
+  SIMULATION_REVERTED = 'SIMULATION_REVERTED',
+  PRIVATE_RELAY_FAILED = 'PRIVATE_RELAY_FAILED'
 }
\ No newline at end of file
@@ -0,0 +1,397 @@
+/**
+ * Pool Event Indexer
+ * Reads SwapSAMM / LiquidityAdded / LiquidityRemoved logs from SAMMPool shards
+ * and maintains rolling-window activity per shard
+ */
+
+import { ethers } from 'ethers';
+import { EventEmitter } from 'events';
+import {
+  EventIndexerConfig,
+  IndexedPoolEvent,
+  IndexedSwapEvent,
+  IndexedLiquidityEvent,
+  ShardActivityMetrics
+} from './types';
+import { Logger } from '../logging';
+
+// Event signatures from ISAMMPool.sol
+const SAMM_POOL_EVENTS_ABI = [
+  'event SwapSAMM(address indexed user, address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut, uint256 fee)',
+  'event LiquidityAdded(address indexed provider, uint256 amountA, uint256 amountB, uint256 lpTokens)',
+  'event LiquidityRemoved(address indexed provider, uint256 amountA, uint256 amountB, uint256 lpTokens)',
+  'function tokenA() external view returns (address)',
+  'function tokenB() external view returns (address)'
+];
+
+/** Default rolling window: 24 hours */
+export const DEFAULT_ACTIVITY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_BLOCK_RANGE = 2000;
+const DEFAULT_CONFIRMATIONS = 2;
+const DEFAULT_BLOCK_TIME_MS = 12000;
+const DEFAULT_POLL_INTERVAL = 15000;
+
+/**
+ * Value a token A / token B pair of amounts in token A at the pool's reserve price
+ * Window totals are kept per token because the two tokens can have different
+ * decimals and prices; this is how callers combine them into one figure.
+ * @returns amountA when the pool has no token B reserve to price against
+ */
+export function valueInTokenA(amountA: bigint, amountB: bigint, reserveA: bigint, reserveB: bigint): bigint {
+  if (reserveB === 0n) return amountA;
+  return amountA + (amountB * reserveA) / reserveB;
+}
+
+interface TrackedPool {
+  address: string;
+  tokenA: string;
+  tokenB: string;
+  lastIndexedBlock: number;
+  events: IndexedPoolEvent[];
+  sync: Promise<number> | null;
+}
+
+/**
+ * Indexer for SAMM pool events on a single chain
+ */
+export class PoolEventIndexer extends EventEmitter {
+  private logger = new Logger('PoolEventIndexer');
+  private provider: ethers.Provider;
+  private chainId: number;
+  private windowMs: number;
+  private blockRange: number;
+  private confirmations: number;
+  private averageBlockTimeMs: number;
+  private pollInterval: number;
+
+  private eventInterface = new ethers.Interface(SAMM_POOL_EVENTS_ABI);
+  private eventTopics: string[];
+  private pools = new Map<string, TrackedPool>();
+  private latestBlockTimestamp = 0;
+  private pollTimer?: NodeJS.Timeout;
+
+  constructor(config: EventIndexerConfig) {
+    super();
+    this.provider = config.provider;
+    this.chainId = config.chainId;
+    this.windowMs = config.windowMs ?? DEFAULT_ACTIVITY_WINDOW_MS;
+    this.blockRange = config.blockRange ?? DEFAULT_BLOCK_RANGE;
+    this.confirmations = config.confirmations ?? DEFAULT_CONFIRMATIONS;
+    this.averageBlockTimeMs = config.averageBlockTimeMs ?? DEFAULT_BLOCK_TIME_MS;
+    this.pollInterval = config.pollInterval ?? DEFAULT_POLL_INTERVAL;
+
+    this.eventTopics = ['SwapSAMM', 'LiquidityAdded', 'LiquidityRemoved']
+      .map(name => this.eventInterface.getEvent(name)!.topicHash);
+  }
+
+  /**
+   * Start indexing a pool, backfilling one window of history
+   * @param poolAddress SAMMPool address
+   * @param fromBlock First block to index (defaults to one window before the head)
+   */
+  async trackPool(poolAddress: string, fromBlock?: number): Promise<void> {
+    const key = poolAddress.toLowerCase();
+    if (this.pools.has(key)) return;
+
+    const pool = new ethers.Contract(poolAddress, SAMM_POOL_EVENTS_ABI, this.provider);
+    const [tokenA, tokenB, latestBlock] = await Promise.all([
+      pool.tokenA(),
+      pool.tokenB(),
+      this.provider.getBlockNumber()
+    ]);
+
+    const backfillBlocks = Math.ceil(this.windowMs / this.averageBlockTimeMs);
+    const startBlock = fromBlock ?? Math.max(0, latestBlock - backfillBlocks);
+
+    this.pools.set(key, {
+      address: key,
+      tokenA: String(tokenA).toLowerCase(),
+      tokenB: String(tokenB).toLowerCase(),
+      lastIndexedBlock: startBlock - 1,
+      events: [],
+      sync: null
+    });
+
+    await this.syncPool(key);
+  }
+
+  /**
+   * Stop indexing a pool and drop its events
+   */
+  untrackPool(poolAddress: string): void {
+    this.pools.delete(poolAddress.toLowerCase());
+  }
+
+  /**
+   * Whether a pool is being indexed
+   */
+  isTracking(poolAddress: string): boolean {
+    return this.pools.has(poolAddress.toLowerCase());
+  }
+
+  /**
+   * Index new blocks for a pool
+   * Concurrent calls for the same pool share one sync.
+   * @returns Number of newly indexed events
+   */
+  async syncPool(poolAddress: string): Promise<number> {
+    const pool = this.pools.get(poolAddress.toLowerCase());
+    if (!pool) {
+      throw new Error(`Pool ${poolAddress} is not tracked`);
+    }
+
+    if (!pool.sync) {
+      pool.sync = this.indexNewBlocks(pool).finally(() => {
+        pool.sync = null;
+      });
+    }
+    return pool.sync;
+  }
+
+  /**
+   * Index new blocks for every tracked pool
+   */
+  async syncAll(): Promise<void> {
+    await Promise.all(Array.from(this.pools.keys()).map(async (address) => {
+      try {
+        await this.syncPool(address);
+      } catch (error) {
+        this.logger.error('Failed to index pool events', { chainId: this.chainId, poolAddress: address, error });
+        this.emit('error', { poolAddress: address, error });
+      }
+    }));
+  }
+
+  /**
+   * Poll for new events on every tracked pool
+   */
+  start(): void {
+    if (this.pollTimer) return;
+
+    this.pollTimer = setInterval(() => {
+      this.syncAll().catch(error => this.logger.error('Event indexer poll failed', { chainId: this.chainId, error }));
+    }, this.pollInterval);
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  /**
+   * Indexed events of a pool, oldest first
+   */
+  getEvents(poolAddress: string, since?: number): IndexedPoolEvent[] {
+    const pool = this.pools.get(poolAddress.toLowerCase());
+    if (!pool) return [];
+
+    return since === undefined
+      ? [...pool.events]
+      : pool.events.filter(event => event.timestamp >= since);
+  }
+
+  /**
+   * Aggregate a pool's activity over the rolling window
+   * Windows longer than the configured one only see the retained events.
+   * @returns Metrics, or null if the pool is not tracked
+   */
+  getShardMetrics(poolAddress: string, windowMs: number = this.windowMs): ShardActivityMetrics | null {
+    const pool = this.pools.get(poolAddress.toLowerCase());
+    if (!pool) return null;
+
+    const windowStart = this.getReferenceTime() - windowMs;
+    const metrics: ShardActivityMetrics = {
+      chainId: this.chainId,
+      poolAddress: pool.address,
+      windowMs,
+      windowStart,
+      swapCount: 0,
+      mintCount: 0,
+      burnCount: 0,
+      uniqueTraders: 0,
+      volumeTokenA: 0n,
+      volumeTokenB: 0n,
+      feesTokenA: 0n,
+      feesTokenB: 0n,
+      liquidityAdded: { tokenA: 0n, tokenB: 0n },
+      liquidityRemoved: { tokenA: 0n, tokenB: 0n },
+      lastEventAt: null,
+      indexedToBlock: pool.lastIndexedBlock
+    };
+    const traders = new Set<string>();
+
+    for (const event of pool.events) {
+      if (event.timestamp < windowStart) continue;
+
+      metrics.lastEventAt = event.timestamp;
+
+      if (event.type === 'swap') {
+        metrics.swapCount++;
+        traders.add(event.user);
+
+        if (event.tokenIn === pool.tokenA) {
+          metrics.volumeTokenA += event.amountIn;
+          metrics.volumeTokenB += event.amountOut;
+          metrics.feesTokenA += event.fee;
+        } else {
+          metrics.volumeTokenB += event.amountIn;
+          metrics.volumeTokenA += event.amountOut;
+          metrics.feesTokenB += event.fee;
+        }
+      } else {
+        const totals = event.type === 'mint' ? metrics.liquidityAdded : metrics.liquidityRemoved;
+        totals.tokenA += event.amountA;
+        totals.tokenB += event.amountB;
+
+        if (event.type === 'mint') {
+          metrics.mintCount++;
+        } else {
+          metrics.burnCount++;
+        }
+      }
+    }
+
+    metrics.uniqueTraders = traders.size;
+    return metrics;
+  }
+
+  // Private methods
+
+  /**
+   * Page through new blocks with getLogs, shrinking the range when the RPC refuses it
+   */
+  private async indexNewBlocks(pool: TrackedPool): Promise<number> {
+    const latestBlock = await this.provider.getBlockNumber();
+    const targetBlock = latestBlock - this.confirmations;
+    if (targetBlock <= pool.lastIndexedBlock) {
+      return 0;
+    }
+
+    const blockTimestamps = new Map<number, number>();
+    let fromBlock = pool.lastIndexedBlock + 1;
+    let range = this.blockRange;
+    let indexed = 0;
+
+    while (fromBlock <= targetBlock) {
+      const toBlock = Math.min(fromBlock + range - 1, targetBlock);
+
+      let logs: ethers.Log[];
+      try {
+        logs = await this.provider.getLogs({
+          address: pool.address,
+          topics: [this.eventTopics],
+          fromBlock,
+          toBlock
+        });
+      } catch (error) {
+        // Providers cap the block span or result size of getLogs
+        if (range > 1) {
+          range = Math.max(1, Math.floor(range / 2));
+          continue;
+        }
+        throw error;
+      }
+
+      for (const log of logs) {
+        const event = await this.parseLog(log, blockTimestamps);
+        if (event) {
+          pool.events.push(event);
+          indexed++;
+        }
+      }
+
+      pool.lastIndexedBlock = toBlock;
+      fromBlock = toBlock + 1;
+    }
+
+    const targetTimestamp = await this.getBlockTimestamp(targetBlock, blockTimestamps);
+    this.latestBlockTimestamp = Math.max(this.latestBlockTimestamp, targetTimestamp);
+    this.pruneEvents(pool);
+
+    if (indexed > 0) {
+      this.emit('events-indexed', { poolAddress: pool.address, count: indexed, toBlock: pool.lastIndexedBlock });
+    }
+    return indexed;
+  }
+
+  /**
+   * Decode a SAMMPool log into an indexed event
+   */
+  private async parseLog(log: ethers.Log, blockTimestamps: Map<number, number>): Promise<IndexedPoolEvent | null> {
+    const parsed = this.eventInterface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) return null;
+
+    const base = {
+      chainId: this.chainId,
+      poolAddress: log.address.toLowerCase(),
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+      transactionHash: log.transactionHash,
+      timestamp: await this.getBlockTimestamp(log.blockNumber, blockTimestamps)
+    };
+
+    if (parsed.name === 'SwapSAMM') {
+      const swap: IndexedSwapEvent = {
+        ...base,
+        type: 'swap',
+        user: String(parsed.args.user).toLowerCase(),
+        tokenIn: String(parsed.args.tokenIn).toLowerCase(),
+        tokenOut: String(parsed.args.tokenOut).toLowerCase(),
+        amountIn: BigInt(parsed.args.amountIn),
+        amountOut: BigInt(parsed.args.amountOut),
+        fee: BigInt(parsed.args.fee)
+      };
+      return swap;
+    }
+
+    const liquidity: IndexedLiquidityEvent = {
+      ...base,
+      type: parsed.name === 'LiquidityAdded' ? 'mint' : 'burn',
+      provider: String(parsed.args.provider).toLowerCase(),
+      amountA: BigInt(parsed.args.amountA),
+      amountB: BigInt(parsed.args.amountB),
+      lpTokens: BigInt(parsed.args.lpTokens)
+    };
+    return liquidity;
+  }
+
+  /**
+   * Block timestamp in milliseconds, cached for the duration of a sync
+   */
+  private async getBlockTimestamp(blockNumber: number, cache: Map<number, number>): Promise<number> {
+    const cached = cache.get(blockNumber);
+    if (cached !== undefined) return cached;
+
+    const block = await this.provider.getBlock(blockNumber);
+    const timestamp = block ? block.timestamp * 1000 : Date.now();
+    cache.set(blockNumber, timestamp);
+    return timestamp;
+  }
+
+  /**
+   * Drop events that fell out of the window
+   */
+  private pruneEvents(pool: TrackedPool): void {
+    const cutoff = this.getReferenceTime() - this.windowMs;
+    const firstRetained = pool.events.findIndex(event => event.timestamp >= cutoff);
+
+    if (firstRetained === -1) {
+      pool.events = [];
+    } else if (firstRetained > 0) {
+      pool.events = pool.events.slice(firstRetained);
+    }
+  }
+
+  /**
+   * "Now" for window calculations; chain time can run ahead of the wall clock on dev nodes
+   */
+  private getReferenceTime(): number {
+    return Math.max(Date.now(), this.latestBlockTimestamp);
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Event Indexer - Main Export
+ * On-chain SAMMPool activity (swaps, liquidity changes) aggregated per shard
+ */
+
+export { PoolEventIndexer, DEFAULT_ACTIVITY_WINDOW_MS, valueInTokenA } from './PoolEventIndexer';
+
+export * from './types';
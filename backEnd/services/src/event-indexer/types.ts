@@ -0,0 +1,163 @@
+/**
+ * Event Indexer Types
+ * Pool events read from SAMMPool logs and the rolling aggregates built from them
+ */
+
+import { ethers } from 'ethers';
+
+/**
+ * Indexed SAMMPool event kinds
+ * swap = SwapSAMM, mint = LiquidityAdded, burn = LiquidityRemoved
+ */
+export type PoolEventType = 'swap' | 'mint' | 'burn';
+
+/**
+ * Fields shared by every indexed event
+ */
+interface IndexedEventBase {
+  /** Chain ID the event was emitted on */
+  chainId: number;
+
+  /** Pool contract address (lowercase) */
+  poolAddress: string;
+
+  /** Block number */
+  blockNumber: number;
+
+  /** Log index within the block */
+  logIndex: number;
+
+  /** Transaction hash */
+  transactionHash: string;
+
+  /** Block timestamp in milliseconds */
+  timestamp: number;
+}
+
+/**
+ * SwapSAMM(user, tokenIn, tokenOut, amountIn, amountOut, fee)
+ */
+export interface IndexedSwapEvent extends IndexedEventBase {
+  type: 'swap';
+
+  /** Account that executed the swap */
+  user: string;
+
+  /** Input token address (lowercase) */
+  tokenIn: string;
+
+  /** Output token address (lowercase) */
+  tokenOut: string;
+
+  /** Total input including fees */
+  amountIn: bigint;
+
+  /** Output amount */
+  amountOut: bigint;
+
+  /** SAMM trade fee in input tokens (owner fee is not part of the event) */
+  fee: bigint;
+}
+
+/**
+ * LiquidityAdded / LiquidityRemoved(provider, amountA, amountB, lpTokens)
+ */
+export interface IndexedLiquidityEvent extends IndexedEventBase {
+  type: 'mint' | 'burn';
+
+  /** Liquidity provider (recipient of LP tokens or of the withdrawn tokens) */
+  provider: string;
+
+  /** Token A amount */
+  amountA: bigint;
+
+  /** Token B amount */
+  amountB: bigint;
+
+  /** LP tokens minted or burned */
+  lpTokens: bigint;
+}
+
+export type IndexedPoolEvent = IndexedSwapEvent | IndexedLiquidityEvent;
+
+/**
+ * Activity of one shard over a rolling window
+ *
+ * Amounts are kept per token; the two tokens can have different decimals, so
+ * they are never summed here. Use `valueInTokenA` to express them in one token.
+ */
+export interface ShardActivityMetrics {
+  /** Chain ID */
+  chainId: number;
+
+  /** Pool contract address (lowercase) */
+  poolAddress: string;
+
+  /** Window length in milliseconds */
+  windowMs: number;
+
+  /** Window start (inclusive) in milliseconds */
+  windowStart: number;
+
+  /** Number of swaps in the window */
+  swapCount: number;
+
+  /** Number of liquidity additions in the window */
+  mintCount: number;
+
+  /** Number of liquidity removals in the window */
+  burnCount: number;
+
+  /** Distinct swapping accounts */
+  uniqueTraders: number;
+
+  /** Token A side of swaps (input when selling A, output when buying A) */
+  volumeTokenA: bigint;
+
+  /** Token B side of swaps */
+  volumeTokenB: bigint;
+
+  /** Trade fees paid in token A */
+  feesTokenA: bigint;
+
+  /** Trade fees paid in token B */
+  feesTokenB: bigint;
+
+  /** Token amounts added as liquidity */
+  liquidityAdded: { tokenA: bigint; tokenB: bigint };
+
+  /** Token amounts removed as liquidity */
+  liquidityRemoved: { tokenA: bigint; tokenB: bigint };
+
+  /** Timestamp of the most recent event in the window (null if none) */
+  lastEventAt: number | null;
+
+  /** Last block included in the index */
+  indexedToBlock: number;
+}
+
+/**
+ * Event indexer configuration
+ */
+export interface EventIndexerConfig {
+  /** Chain ID being indexed */
+  chainId: number;
+
+  /** Provider used for log and block queries */
+  provider: ethers.Provider;
+
+  /** Length of the rolling window in milliseconds (default 24h) */
+  windowMs?: number;
+
+  /** Maximum blocks per getLogs request; halved automatically when the RPC rejects a range */
+  blockRange?: number;
+
+  /** Blocks to wait before indexing, to avoid reorged logs */
+  confirmations?: number;
+
+  /** Average block time used to find the backfill start block */
+  averageBlockTimeMs?: number;
+
+  /** Polling interval for `start()` in milliseconds */
+  pollInterval?: number;
+}
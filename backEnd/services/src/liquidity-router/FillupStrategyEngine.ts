@@ -6,7 +6,6 @@
 
 import {
   TokenPair,
-  PoolInfo,
   PoolAnalysis,
   LiquidityRecommendation,
   FillupStrategy,
@@ -14,8 +13,10 @@ import {
   ChainConfig
 } from './types';
 import { PoolAnalysisService } from './PoolAnalysisService';
+import { Logger } from '../logging';
 
 export class FillupStrategyEngine {
+  private logger = new Logger('FillupStrategyEngine');
   constructor(
     private poolAnalysisService: PoolAnalysisService,
     private chainConfigs: ChainConfig[]
@@ -50,14 +51,15 @@ export class FillupStrategyEngine {
 
       return {
         targetPoolAddress: smallestShard.poolInfo.poolAddress,
-        currentSize: this.calculatePoolSize(smallestShard.poolInfo),
+        currentSize: this.calculatePoolSize(smallestShard),
         targetSize: this.calculateTargetSize(smallestShard, poolAnalyses),
         recommendedAmount,
+        quoteCurrency: this.poolAnalysisService.quoteCurrency,
         reasoning: this.generateFillupReasoning(smallestShard, poolAnalyses),
         priority
       };
     } catch (error) {
-      console.error(`Error generating fillup strategy:`, error);
+      this.logger.error('Error generating fillup strategy', error);
       throw new Error(`Failed to generate fillup strategy: ${error.message}`);
     }
   }
@@ -104,7 +106,7 @@ export class FillupStrategyEngine {
         confidence
       };
     } catch (error) {
-      console.error(`Error generating liquidity recommendation:`, error);
+      this.logger.error('Error generating liquidity recommendation', error);
       throw new Error(`Failed to generate liquidity recommendation: ${error.message}`);
     }
   }
@@ -140,7 +142,7 @@ export class FillupStrategyEngine {
         }
 
         // Calculate how much liquidity this pool can absorb optimally
-        const optimalAmount = this.calculateOptimalLiquidityForPool(
+        const optimalAmount = await this.calculateOptimalLiquidityForPool(
           pool,
           remainingLiquidity
         );
@@ -171,7 +173,7 @@ export class FillupStrategyEngine {
 
       return recommendations;
     } catch (error) {
-      console.error(`Error generating optimal deposit recommendations:`, error);
+      this.logger.error('Error generating optimal deposit recommendations', error);
       throw new Error(`Failed to generate deposit recommendations: ${error.message}`);
     }
   }
@@ -185,34 +187,28 @@ export class FillupStrategyEngine {
       throw new Error('No pools available for analysis');
     }
 
-    // Sort by total reserves (RA + RB) to find smallest shard
-    const sortedPools = poolAnalyses.sort((a, b) => {
-      const sizeA = this.calculatePoolSize(a.poolInfo);
-      const sizeB = this.calculatePoolSize(b.poolInfo);
-      return Number(sizeA - sizeB);
-    });
+    // Sort by pool value to find smallest shard
+    const sortedPools = poolAnalyses.sort((a, b) => this.calculatePoolSize(a) - this.calculatePoolSize(b));
 
     return sortedPools[0];
   }
 
   /**
-   * Calculate the total size of a pool (RA + RB)
+   * Calculate the size of a pool as its value (RA and RB) in the quote currency
    */
-  private calculatePoolSize(poolInfo: PoolInfo): bigint {
-    return poolInfo.reserveA + poolInfo.reserveB;
+  private calculatePoolSize(pool: PoolAnalysis): number {
+    return pool.metrics.poolValue;
   }
 
   /**
    * Calculate optimal fillup amount for the smallest shard
    */
-  private calculateOptimalFillupAmount(smallestShard: PoolAnalysis): bigint {
-    const currentSize = this.calculatePoolSize(smallestShard.poolInfo);
+  private calculateOptimalFillupAmount(smallestShard: PoolAnalysis): number {
+    const currentSize = this.calculatePoolSize(smallestShard);
     
     // Recommend 10-20% increase in pool size for optimal fillup
     const fillupPercentage = 0.15; // 15% increase
-    const recommendedIncrease = BigInt(Math.floor(Number(currentSize) * fillupPercentage));
-    
-    return recommendedIncrease;
+    return currentSize * fillupPercentage;
   }
 
   /**
@@ -221,20 +217,20 @@ export class FillupStrategyEngine {
   private calculateTargetSize(
     smallestShard: PoolAnalysis,
     allPools: PoolAnalysis[]
-  ): bigint {
-    const currentSize = this.calculatePoolSize(smallestShard.poolInfo);
+  ): number {
+    const currentSize = this.calculatePoolSize(smallestShard);
     
     if (allPools.length === 1) {
       // If only one pool, target 20% growth
-      return currentSize + BigInt(Math.floor(Number(currentSize) * 0.2));
+      return currentSize * 1.2;
     }
 
     // Target: bring smallest shard closer to the median size
-    const sizes = allPools.map(p => this.calculatePoolSize(p.poolInfo)).sort((a, b) => Number(a - b));
+    const sizes = allPools.map(p => this.calculatePoolSize(p)).sort((a, b) => a - b);
     const medianSize = sizes[Math.floor(sizes.length / 2)];
     
     // Target 50% of the way to median
-    const targetSize = currentSize + (medianSize - currentSize) / 2n;
+    const targetSize = currentSize + (medianSize - currentSize) / 2;
     
     return targetSize;
   }
@@ -250,11 +246,11 @@ export class FillupStrategyEngine {
       return 'MEDIUM';
     }
 
-    const smallestSize = this.calculatePoolSize(smallestShard.poolInfo);
-    const sizes = allPools.map(p => this.calculatePoolSize(p.poolInfo));
-    const averageSize = sizes.reduce((sum, size) => sum + size, 0n) / BigInt(sizes.length);
+    const smallestSize = this.calculatePoolSize(smallestShard);
+    const sizes = allPools.map(p => this.calculatePoolSize(p));
+    const averageSize = sizes.reduce((sum, size) => sum + size, 0) / sizes.length;
     
-    const sizeRatio = Number(smallestSize) / Number(averageSize);
+    const sizeRatio = averageSize > 0 ? smallestSize / averageSize : 1;
     
     if (sizeRatio < 0.3) return 'HIGH';    // Much smaller than average
     if (sizeRatio < 0.6) return 'MEDIUM';  // Moderately smaller
@@ -268,16 +264,16 @@ export class FillupStrategyEngine {
     smallestShard: PoolAnalysis,
     allPools: PoolAnalysis[]
   ): string {
-    const smallestSize = this.calculatePoolSize(smallestShard.poolInfo);
+    const smallestSize = this.calculatePoolSize(smallestShard);
     const totalPools = allPools.length;
     
     if (totalPools === 1) {
       return `Single pool available. Adding liquidity will improve depth and reduce slippage for traders.`;
     }
 
-    const sizes = allPools.map(p => this.calculatePoolSize(p.poolInfo));
-    const averageSize = sizes.reduce((sum, size) => sum + size, 0n) / BigInt(sizes.length);
-    const sizeRatio = Number(smallestSize) / Number(averageSize);
+    const sizes = allPools.map(p => this.calculatePoolSize(p));
+    const averageSize = sizes.reduce((sum, size) => sum + size, 0) / sizes.length;
+    const sizeRatio = averageSize > 0 ? smallestSize / averageSize : 1;
     
     return `Recommended pool is the smallest shard (${(sizeRatio * 100).toFixed(1)}% of average size). ` +
            `SAMM's fillup strategy directs liquidity to smallest shards to maintain balanced distribution ` +
@@ -302,34 +298,41 @@ export class FillupStrategyEngine {
    * Sort pools by size (smallest first)
    */
   private sortPoolsBySize(poolAnalyses: PoolAnalysis[]): PoolAnalysis[] {
-    return poolAnalyses.sort((a, b) => {
-      const sizeA = this.calculatePoolSize(a.poolInfo);
-      const sizeB = this.calculatePoolSize(b.poolInfo);
-      return Number(sizeA - sizeB);
-    });
+    return poolAnalyses.sort((a, b) => this.calculatePoolSize(a) - this.calculatePoolSize(b));
   }
 
   /**
    * Calculate optimal liquidity amount for a specific pool
    */
-  private calculateOptimalLiquidityForPool(
+  private async calculateOptimalLiquidityForPool(
     pool: PoolAnalysis,
     availableLiquidity: LiquidityAmount
-  ): LiquidityAmount {
-    const poolSize = this.calculatePoolSize(pool.poolInfo);
-    const availableSize = availableLiquidity.tokenA + availableLiquidity.tokenB;
+  ): Promise<LiquidityAmount> {
+    const poolSize = this.calculatePoolSize(pool);
+    const availableSize = await this.poolAnalysisService.calculateLiquidityValue(
+      availableLiquidity,
+      pool.poolInfo
+    );
+    const { reserveA, reserveB } = pool.poolInfo;
+    if (poolSize <= 0 || reserveA === 0n || reserveB === 0n) {
+      return { tokenA: 0n, tokenB: 0n };
+    }
     
     // Don't add more than 50% of pool's current size in one go
-    const maxAddition = poolSize / 2n;
+    const maxAddition = poolSize / 2;
     const actualAddition = availableSize < maxAddition ? availableSize : maxAddition;
     
-    // Maintain pool ratio
-    const totalReserves = pool.poolInfo.reserveA + pool.poolInfo.reserveB;
-    const tokenARatio = Number(pool.poolInfo.reserveA) / Number(totalReserves);
+    // Maintain pool ratio: deposit the same fraction of both reserves,
+    // limited by whichever token runs out first
+    const fraction = Math.min(
+      actualAddition / poolSize,
+      Number(availableLiquidity.tokenA) / Number(reserveA),
+      Number(availableLiquidity.tokenB) / Number(reserveB)
+    );
     
     return {
-      tokenA: BigInt(Math.floor(Number(actualAddition) * tokenARatio)),
-      tokenB: BigInt(Math.floor(Number(actualAddition) * (1 - tokenARatio)))
+      tokenA: BigInt(Math.floor(Number(reserveA) * fraction)),
+      tokenB: BigInt(Math.floor(Number(reserveB) * fraction))
     };
   }
 
@@ -355,9 +358,8 @@ export class FillupStrategyEngine {
     pool: PoolAnalysis,
     amount: LiquidityAmount
   ): string {
-    const poolSize = this.calculatePoolSize(pool.poolInfo);
-    const additionSize = amount.tokenA + amount.tokenB;
-    const percentage = (Number(additionSize) / Number(poolSize) * 100).toFixed(1);
+    // Deposits keep the pool ratio, so the token A share is the share of the pool
+    const percentage = (Number(amount.tokenA) / Number(pool.poolInfo.reserveA) * 100).toFixed(1);
     
     return `Adding ${percentage}% to pool reserves. This follows SAMM's fillup strategy ` +
            `of prioritizing smaller shards for optimal liquidity distribution.`;
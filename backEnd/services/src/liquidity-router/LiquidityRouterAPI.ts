@@ -7,14 +7,20 @@
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import { LiquidityRouterService } from './LiquidityRouterService';
+import { Logger, requestContextMiddleware } from '../logging';
 import {
   TokenPair,
   LiquidityAmount,
+  LiquidityPosition,
   LiquidityRouterConfig,
+  RebalancePlan,
+  ZapInPlan,
+  ZapOutPlan,
   ChainConfig
 } from './types';
 
 export class LiquidityRouterAPI {
+  private logger = new Logger('LiquidityRouterAPI');
   private app: express.Application;
   private liquidityRouterService: LiquidityRouterService;
   private port: number;
@@ -32,13 +38,14 @@ export class LiquidityRouterAPI {
   }
 
   private setupMiddleware(): void {
+    this.app.use(requestContextMiddleware());
     this.app.use(cors());
     this.app.use(express.json({ limit: '10mb' }));
     this.app.use(express.urlencoded({ extended: true }));
     
     // Request logging middleware
     this.app.use((req: Request, res: Response, next: NextFunction) => {
-      console.log(`${new Date().toISOString()} - ${req.method} ${req.path}`);
+      this.logger.info('Request received', { method: req.method, path: req.path });
       next();
     });
 
@@ -60,6 +67,9 @@ export class LiquidityRouterAPI {
     this.app.post('/api/liquidity-router/:chainId/expected-returns', this.handleCalculateExpectedReturns.bind(this));
     this.app.post('/api/liquidity-router/:chainId/optimal-distribution', this.handleGetOptimalDistribution.bind(this));
     this.app.post('/api/liquidity-router/:chainId/add-liquidity', this.handleAddLiquidity.bind(this));
+    this.app.post('/api/liquidity-router/:chainId/rebalance-plan', this.handleGetRebalancePlan.bind(this));
+    this.app.post('/api/liquidity-router/:chainId/zap-in-plan', this.handleGetZapInPlan.bind(this));
+    this.app.post('/api/liquidity-router/:chainId/zap-out-plan', this.handleGetZapOutPlan.bind(this));
 
     // Utility endpoints
     this.app.post('/api/liquidity-router/refresh', this.handleRefreshData.bind(this));
@@ -77,7 +87,7 @@ export class LiquidityRouterAPI {
 
     // Global error handler
     this.app.use((error: Error, req: Request, res: Response, next: NextFunction) => {
-      console.error('API Error:', error);
+      this.logger.error('Liquidity router API error', error);
       
       res.status(500).json({
         error: 'Internal server error',
@@ -155,7 +165,10 @@ export class LiquidityRouterAPI {
           fillupStrategy: '/api/liquidity-router/{chainId}/fillup-strategy',
           expectedReturns: '/api/liquidity-router/{chainId}/expected-returns',
           optimalDistribution: '/api/liquidity-router/{chainId}/optimal-distribution',
-          addLiquidity: '/api/liquidity-router/{chainId}/add-liquidity'
+          addLiquidity: '/api/liquidity-router/{chainId}/add-liquidity',
+          rebalancePlan: '/api/liquidity-router/{chainId}/rebalance-plan',
+          zapInPlan: '/api/liquidity-router/{chainId}/zap-in-plan',
+          zapOutPlan: '/api/liquidity-router/{chainId}/zap-out-plan'
         }
       });
     } catch (error) {
@@ -269,12 +282,7 @@ export class LiquidityRouterAPI {
 
       res.json({
         chainId,
-        strategy: {
-          ...strategy,
-          currentSize: strategy.currentSize.toString(),
-          targetSize: strategy.targetSize.toString(),
-          recommendedAmount: strategy.recommendedAmount.toString()
-        }
+        strategy
       });
     } catch (error) {
       res.status(500).json({
@@ -406,6 +414,192 @@ export class LiquidityRouterAPI {
     }
   }
 
+  /**
+   * Plan moving an LP's positions between the shards of a pair
+   * Positions come from the request or, given only userAddress, from LP token balances.
+   */
+  private async handleGetRebalancePlan(req: Request, res: Response): Promise<void> {
+    try {
+      const chainId = parseInt(req.params.chainId);
+      const { tokenPair, positions, userAddress } = req.body;
+
+      if (!tokenPair || (!Array.isArray(positions) && !userAddress)) {
+        res.status(400).json({
+          error: 'Missing required parameters',
+          message: 'tokenPair and either positions or userAddress are required'
+        });
+        return;
+      }
+
+      let lpPositions: LiquidityPosition[];
+      try {
+        lpPositions = Array.isArray(positions)
+          ? positions.map((position: { poolAddress: string; lpTokens: string }) => ({
+            poolAddress: position.poolAddress,
+            lpTokens: BigInt(position.lpTokens)
+          }))
+          : await this.liquidityRouterService.getLiquidityPositions(tokenPair, userAddress, chainId);
+      } catch (error) {
+        res.status(400).json({
+          error: 'Invalid positions',
+          message: error instanceof Error ? error.message : 'Failed to read positions'
+        });
+        return;
+      }
+
+      const plan = await this.liquidityRouterService.getRebalancePlan(tokenPair, lpPositions, chainId);
+
+      res.json({
+        chainId,
+        plan: this.serializeRebalancePlan(plan)
+      });
+    } catch (error) {
+      res.status(500).json({
+        error: 'Failed to plan rebalance',
+        message: error instanceof Error ? error.message : 'Rebalance planning failed'
+      });
+    }
+  }
+
+  private serializeRebalancePlan(plan: RebalancePlan) {
+    return {
+      ...plan,
+      allocations: plan.allocations.map(allocation => ({
+        ...allocation,
+        lpTokens: allocation.lpTokens.toString()
+      })),
+      moves: plan.moves.map(move => ({
+        ...move,
+        lpTokensToWithdraw: move.lpTokensToWithdraw.toString(),
+        withdrawAmount: this.serializeAmount(move.withdrawAmount),
+        depositAmount: this.serializeAmount(move.depositAmount),
+        expectedLpTokens: move.expectedLpTokens.toString()
+      })),
+      migrationCost: {
+        ...plan.migrationCost,
+        gasUnits: plan.migrationCost.gasUnits.toString(),
+        gasCostNative: plan.migrationCost.gasCostNative.toString()
+      }
+    };
+  }
+
+  /**
+   * Plan a single-token deposit into the recommended shard
+   */
+  private async handleGetZapInPlan(req: Request, res: Response): Promise<void> {
+    try {
+      const chainId = parseInt(req.params.chainId);
+      const { tokenPair, tokenIn, amountIn } = req.body;
+
+      if (!tokenPair || !tokenIn || !amountIn) {
+        res.status(400).json({
+          error: 'Missing required parameters',
+          message: 'tokenPair, tokenIn and amountIn are required'
+        });
+        return;
+      }
+
+      const amount = this.parseAmount(amountIn);
+      if (amount === null || amount <= 0n) {
+        res.status(400).json({
+          error: 'Invalid amount',
+          message: 'amountIn must be a positive integer in token base units'
+        });
+        return;
+      }
+
+      const plan = await this.liquidityRouterService.getZapInPlan(tokenPair, tokenIn, amount, chainId);
+
+      res.json({
+        chainId,
+        plan: this.serializeZapInPlan(plan)
+      });
+    } catch (error) {
+      res.status(500).json({
+        error: 'Failed to plan zap-in',
+        message: error instanceof Error ? error.message : 'Zap-in planning failed'
+      });
+    }
+  }
+
+  /**
+   * Plan withdrawing a position into a single token
+   */
+  private async handleGetZapOutPlan(req: Request, res: Response): Promise<void> {
+    try {
+      const chainId = parseInt(req.params.chainId);
+      const { tokenPair, poolAddress, liquidity, tokenOut } = req.body;
+
+      if (!tokenPair || !poolAddress || !liquidity || !tokenOut) {
+        res.status(400).json({
+          error: 'Missing required parameters',
+          message: 'tokenPair, poolAddress, liquidity and tokenOut are required'
+        });
+        return;
+      }
+
+      const amount = this.parseAmount(liquidity);
+      if (amount === null || amount <= 0n) {
+        res.status(400).json({
+          error: 'Invalid amount',
+          message: 'liquidity must be a positive integer in LP token base units'
+        });
+        return;
+      }
+
+      const plan = await this.liquidityRouterService.getZapOutPlan(tokenPair, poolAddress, amount, tokenOut, chainId);
+
+      res.json({
+        chainId,
+        plan: this.serializeZapOutPlan(plan)
+      });
+    } catch (error) {
+      res.status(500).json({
+        error: 'Failed to plan zap-out',
+        message: error instanceof Error ? error.message : 'Zap-out planning failed'
+      });
+    }
+  }
+
+  private parseAmount(value: unknown): bigint | null {
+    try {
+      return typeof value === 'string' || typeof value === 'number' ? BigInt(value) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private serializeZapInPlan(plan: ZapInPlan) {
+    return {
+      ...plan,
+      amountIn: plan.amountIn.toString(),
+      swapAmountIn: plan.swapAmountIn.toString(),
+      swapAmountOut: plan.swapAmountOut.toString(),
+      depositAmount: this.serializeAmount(plan.depositAmount),
+      expectedLiquidity: plan.expectedLiquidity.toString(),
+      refundAmount: this.serializeAmount(plan.refundAmount)
+    };
+  }
+
+  private serializeZapOutPlan(plan: ZapOutPlan) {
+    return {
+      ...plan,
+      liquidity: plan.liquidity.toString(),
+      withdrawAmount: this.serializeAmount(plan.withdrawAmount),
+      swapAmountIn: plan.swapAmountIn.toString(),
+      swapAmountOut: plan.swapAmountOut.toString(),
+      expectedAmountOut: plan.expectedAmountOut.toString(),
+      unsoldAmount: plan.unsoldAmount.toString()
+    };
+  }
+
+  private serializeAmount(amount: LiquidityAmount) {
+    return {
+      tokenA: amount.tokenA.toString(),
+      tokenB: amount.tokenB.toString()
+    };
+  }
+
   /**
    * Refresh service data
    */
@@ -428,12 +622,16 @@ export class LiquidityRouterAPI {
   /**
    * Start the API server
    */
-  public start(): Promise<void> {
+  public async start(): Promise<void> {
+    await this.liquidityRouterService.start();
+
     return new Promise((resolve) => {
       this.app.listen(this.port, () => {
-        console.log(`Liquidity Router API server running on port ${this.port}`);
-        console.log(`Health check: http://localhost:${this.port}/health`);
-        console.log(`Service info: http://localhost:${this.port}/api/liquidity-router/info`);
+        this.logger.info('Liquidity Router API listening', {
+          port: this.port,
+          health: `http://localhost:${this.port}/health`,
+          info: `http://localhost:${this.port}/api/liquidity-router/info`
+        });
         resolve();
       });
     });
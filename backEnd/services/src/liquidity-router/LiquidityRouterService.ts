@@ -11,14 +11,33 @@ import {
   FillupStrategy,
   ExpectedReturns,
   ChainConfig,
+  LiquidityPosition,
+  RebalancePlan,
+  ZapInPlan,
+  ZapOutPlan,
   LiquidityRouterConfig
 } from './types';
 import { PoolAnalysisService } from './PoolAnalysisService';
 import { FillupStrategyEngine } from './FillupStrategyEngine';
+import { RebalancePlanner } from './RebalancePlanner';
+import { ZapPlanner } from './ZapPlanner';
+import {
+  PriceOracle,
+  StaticPriceOracle,
+  PoolTwapPriceOracle,
+  CompositePriceOracle
+} from '../price-oracle';
+import { Logger } from '../logging';
+
+const DEFAULT_QUOTE_CURRENCY = 'USD';
 
 export class LiquidityRouterService {
+  private logger = new Logger('LiquidityRouterService');
   private poolAnalysisService: PoolAnalysisService;
   private fillupStrategyEngine: FillupStrategyEngine;
+  private rebalancePlanner!: RebalancePlanner;
+  private zapPlanner!: ZapPlanner;
+  private poolTwapOracle?: PoolTwapPriceOracle;
   private isInitialized: boolean = false;
 
   constructor(private config: LiquidityRouterConfig) {
@@ -26,14 +45,67 @@ export class LiquidityRouterService {
   }
 
   private initializeServices(): void {
-    this.poolAnalysisService = new PoolAnalysisService(this.config.chains);
+    this.poolAnalysisService = new PoolAnalysisService(
+      this.config.chains,
+      this.createPriceOracle(),
+      this.config.persistence
+    );
     this.fillupStrategyEngine = new FillupStrategyEngine(
       this.poolAnalysisService,
       this.config.chains
     );
+    this.rebalancePlanner = new RebalancePlanner(this.poolAnalysisService);
+    this.zapPlanner = new ZapPlanner(this.poolAnalysisService);
     this.isInitialized = true;
   }
 
+  /**
+   * Price oracle for pool valuation
+   * Unless one is configured, tokens are priced by a TWAP of their deepest shards
+   * against the tokens of the price table, falling back to the table itself.
+   */
+  private createPriceOracle(): PriceOracle {
+    if (this.config.priceOracle) {
+      return this.config.priceOracle;
+    }
+
+    const priceTable = new StaticPriceOracle(
+      this.config.priceTable ?? { quoteCurrency: DEFAULT_QUOTE_CURRENCY, prices: {} }
+    );
+    this.poolTwapOracle = new PoolTwapPriceOracle({
+      reserveSource: {
+        getShardReserves: (chainId, tokenA, tokenB) =>
+          this.poolAnalysisService.getShardReserves(chainId, tokenA, tokenB)
+      },
+      referenceOracle: priceTable,
+      referenceTokens: priceTable.getListedTokens()
+    });
+
+    return new CompositePriceOracle([this.poolTwapOracle, priceTable]);
+  }
+
+  /**
+   * Restore cached pool metrics from persistence
+   */
+  async restoreState(): Promise<void> {
+    await this.poolAnalysisService.restorePersistedMetrics();
+  }
+
+  /**
+   * Restore state and start sampling shard prices for the TWAP oracle
+   */
+  async start(): Promise<void> {
+    await this.restoreState();
+    this.poolTwapOracle?.start();
+  }
+
+  /**
+   * Stop sampling shard prices
+   */
+  stop(): void {
+    this.poolTwapOracle?.stop();
+  }
+
   /**
    * Find single best pool for liquidity provision on specific chain
    * Implements Requirements 3.1: Identify the single best SAMM pool for a given token pair
@@ -61,7 +133,7 @@ export class LiquidityRouterService {
 
       return recommendation;
     } catch (error) {
-      console.error(`Error finding best pool for liquidity:`, error);
+      this.logger.error('Error finding best pool for liquidity', error);
       throw new Error(`Failed to find best pool: ${error.message}`);
     }
   }
@@ -86,7 +158,7 @@ export class LiquidityRouterService {
         chainId
       );
     } catch (error) {
-      console.error(`Error calculating expected returns:`, error);
+      this.logger.error('Error calculating expected returns', error);
       throw new Error(`Failed to calculate expected returns: ${error.message}`);
     }
   }
@@ -105,11 +177,106 @@ export class LiquidityRouterService {
     try {
       return await this.fillupStrategyEngine.getFillupStrategy(tokenPair, chainId);
     } catch (error) {
-      console.error(`Error getting fillup strategy:`, error);
+      this.logger.error('Error getting fillup strategy', error);
       throw new Error(`Failed to get fillup strategy: ${error.message}`);
     }
   }
 
+  /**
+   * LP token positions of a user across the shards of a token pair
+   */
+  async getLiquidityPositions(
+    tokenPair: TokenPair,
+    userAddress: string,
+    chainId: number
+  ): Promise<LiquidityPosition[]> {
+    this.validateInitialization();
+    this.validateChainSupport(chainId);
+
+    if (!this.isValidAddress(userAddress)) {
+      throw new Error('Invalid user address provided');
+    }
+
+    try {
+      const analyses = await this.poolAnalysisService.analyzePoolsForTokenPair(tokenPair, chainId);
+      return await this.poolAnalysisService.getLiquidityPositions(
+        analyses.map(analysis => analysis.poolInfo.poolAddress),
+        userAddress,
+        chainId
+      );
+    } catch (error) {
+      this.logger.error('Error getting liquidity positions', { userAddress, error });
+      throw new Error(`Failed to get liquidity positions: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Plan migrating existing positions from oversized shards into smaller ones
+   */
+  async getRebalancePlan(
+    tokenPair: TokenPair,
+    positions: LiquidityPosition[],
+    chainId: number
+  ): Promise<RebalancePlan> {
+    this.validateInitialization();
+    this.validateChainSupport(chainId);
+
+    if (positions.some(position => position.lpTokens < 0n)) {
+      throw new Error('LP token amounts must be non-negative');
+    }
+
+    return this.rebalancePlanner.planRebalance(tokenPair, positions, chainId);
+  }
+
+  /**
+   * Plan a single-token deposit into the shard recommended by the fillup strategy
+   */
+  async getZapInPlan(
+    tokenPair: TokenPair,
+    tokenIn: string,
+    amountIn: bigint,
+    chainId: number
+  ): Promise<ZapInPlan> {
+    this.validateInitialization();
+    this.validateChainSupport(chainId);
+
+    const inIsA = tokenIn.toLowerCase() === tokenPair.tokenA.address.toLowerCase();
+    if (!inIsA && tokenIn.toLowerCase() !== tokenPair.tokenB.address.toLowerCase()) {
+      throw new Error('Input token is not part of the token pair');
+    }
+
+    const recommendation = await this.findBestPoolForLiquidity(
+      tokenPair,
+      inIsA ? { tokenA: amountIn, tokenB: 0n } : { tokenA: 0n, tokenB: amountIn },
+      chainId
+    );
+
+    return this.zapPlanner.planZapIn(tokenPair, tokenIn, amountIn, recommendation.poolAddress, chainId);
+  }
+
+  /**
+   * Plan withdrawing a position into a single token
+   */
+  async getZapOutPlan(
+    tokenPair: TokenPair,
+    poolAddress: string,
+    liquidity: bigint,
+    tokenOut: string,
+    chainId: number
+  ): Promise<ZapOutPlan> {
+    this.validateInitialization();
+    this.validateChainSupport(chainId);
+
+    if (!this.isValidAddress(poolAddress)) {
+      throw new Error('Invalid pool address provided');
+    }
+    if (liquidity <= 0n) {
+      throw new Error('Liquidity must be greater than zero');
+    }
+
+    return this.zapPlanner.planZapOut(tokenPair, poolAddress, liquidity, tokenOut, chainId);
+  }
+
   /**
    * Execute liquidity addition to recommended pool
    * Note: This would integrate with wallet/transaction services in production
@@ -131,14 +298,14 @@ export class LiquidityRouterService {
       // 3. Execute transaction through wallet integration
       // 4. Return transaction hash
       
-      console.log(`Executing liquidity addition for user ${userAddress} to pool ${recommendation.poolAddress}`);
+      this.logger.info('Executing liquidity addition', { userAddress, poolAddress: recommendation.poolAddress });
       
       // Simulate transaction execution
       const simulatedTxHash = `0x${Math.random().toString(16).substr(2, 64)}`;
       
       return simulatedTxHash;
     } catch (error) {
-      console.error(`Error executing liquidity addition:`, error);
+      this.logger.error('Error executing liquidity addition', { userAddress, error });
       throw new Error(`Failed to execute liquidity addition: ${error.message}`);
     }
   }
@@ -162,7 +329,7 @@ export class LiquidityRouterService {
         chainId
       );
     } catch (error) {
-      console.error(`Error getting optimal liquidity distribution:`, error);
+      this.logger.error('Error getting optimal liquidity distribution', error);
       throw new Error(`Failed to get optimal distribution: ${error.message}`);
     }
   }
@@ -208,7 +375,7 @@ export class LiquidityRouterService {
 
       return recommendations;
     } catch (error) {
-      console.error(`Error getting available pools:`, error);
+      this.logger.error('Error getting available pools', error);
       throw new Error(`Failed to get available pools: ${error.message}`);
     }
   }
@@ -313,9 +480,9 @@ export class LiquidityRouterService {
   async refreshData(): Promise<void> {
     try {
       this.poolAnalysisService.clearExpiredCache();
-      console.log('Liquidity router data refreshed successfully');
+      this.logger.info('Liquidity router data refreshed');
     } catch (error) {
-      console.error('Error refreshing liquidity router data:', error);
+      this.logger.error('Error refreshing liquidity router data', error);
       throw new Error(`Failed to refresh data: ${error.message}`);
     }
   }
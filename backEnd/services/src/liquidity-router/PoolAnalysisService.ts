@@ -12,23 +12,70 @@ import {
   PoolAnalysis,
   ChainConfig,
   LiquidityAmount,
+  LiquidityPosition,
   ExpectedReturns
 } from './types';
+import { PersistenceStore } from '../persistence';
+import { PoolEventIndexer, ShardActivityMetrics, valueInTokenA } from '../event-indexer';
+import { PriceOracle, ShardReserves, amountToQuote } from '../price-oracle';
+import { SAMMPoolFeeConfig } from '../samm-fees';
+import { Logger } from '../logging';
+
+const POOL_METRICS_NAMESPACE = 'liquidity-router:pool-metrics';
+
+interface PoolTokenPrices {
+  priceA: number;
+  priceB: number;
+}
 
 export class PoolAnalysisService {
+  private logger = new Logger('PoolAnalysisService');
   private providers: Map<number, ethers.Provider> = new Map();
+  private eventIndexers: Map<number, PoolEventIndexer> = new Map();
   private poolMetricsCache: Map<string, PoolMetrics> = new Map();
   private analysisCache: Map<string, PoolAnalysis> = new Map();
   private cacheExpiry: number = 5 * 60 * 1000; // 5 minutes
 
-  constructor(private chainConfigs: ChainConfig[]) {
+  constructor(
+    private chainConfigs: ChainConfig[],
+    private priceOracle: PriceOracle,
+    private persistence?: PersistenceStore
+  ) {
     this.initializeProviders();
   }
 
+  /**
+   * Quote currency of every pool and return valuation
+   */
+  get quoteCurrency(): string {
+    return this.priceOracle.quoteCurrency;
+  }
+
+  /**
+   * Load unexpired pool metrics saved by a previous run
+   */
+  async restorePersistedMetrics(): Promise<void> {
+    if (!this.persistence) return;
+
+    try {
+      const entries = await this.persistence.getCacheEntries<PoolMetrics>(POOL_METRICS_NAMESPACE);
+      for (const entry of entries) {
+        this.poolMetricsCache.set(entry.key, entry.value);
+      }
+    } catch (error) {
+      this.logger.error('Error restoring pool metrics', error);
+    }
+  }
+
   private initializeProviders(): void {
     for (const config of this.chainConfigs) {
       const provider = new ethers.JsonRpcProvider(config.rpcEndpoint);
       this.providers.set(config.chainId, provider);
+      this.eventIndexers.set(config.chainId, new PoolEventIndexer({
+        chainId: config.chainId,
+        provider,
+        averageBlockTimeMs: config.blockTime
+      }));
     }
   }
 
@@ -48,7 +95,7 @@ export class PoolAnalysisService {
     }
 
     try {
-      const pools = await this.discoverPoolsForTokenPair(tokenPair, chainId);
+      const pools = await this.discoverPoolsForTokenPair(tokenPair.tokenA.address, tokenPair.tokenB.address, chainId);
       const analyses: PoolAnalysis[] = [];
 
       for (const pool of pools) {
@@ -62,7 +109,7 @@ export class PoolAnalysisService {
 
       return analyses.sort((a, b) => b.expectedApr - a.expectedApr);
     } catch (error) {
-      console.error(`Error analyzing pools for token pair on chain ${chainId}:`, error);
+      this.logger.error('Error analyzing pools for token pair', { chainId, error });
       throw new Error(`Failed to analyze pools: ${error.message}`);
     }
   }
@@ -79,19 +126,21 @@ export class PoolAnalysisService {
       const poolInfo = await this.getPoolInfo(poolAddress, chainId);
       const metrics = await this.collectPoolMetrics(poolInfo);
 
-      // Calculate liquidity share
-      const totalLiquidityValue = this.calculatePoolValue(poolInfo);
-      const addedLiquidityValue = this.calculateLiquidityValue(liquidityAmount, poolInfo);
-      const liquidityShare = Number(addedLiquidityValue) / (Number(totalLiquidityValue) + Number(addedLiquidityValue));
+      // Calculate liquidity share by quote currency value
+      const totalLiquidityValue = metrics.poolValue;
+      const addedLiquidityValue = await this.calculateLiquidityValue(liquidityAmount, poolInfo);
+      const liquidityShare = addedLiquidityValue > 0
+        ? addedLiquidityValue / (totalLiquidityValue + addedLiquidityValue)
+        : 0;
 
       // Calculate expected fees based on historical data
       const dailyFees = BigInt(Math.floor(Number(metrics.feesGenerated24h) * liquidityShare));
       const weeklyFees = dailyFees * 7n;
       const monthlyFees = dailyFees * 30n;
+      const dailyFeesValue = metrics.feesGenerated24hValue * liquidityShare;
 
       // Calculate APR
-      const yearlyFees = dailyFees * 365n;
-      const estimatedApr = Number(yearlyFees) / Number(addedLiquidityValue);
+      const estimatedApr = addedLiquidityValue > 0 ? (dailyFeesValue * 365) / addedLiquidityValue : 0;
 
       // Estimate impermanent loss risk based on price volatility
       const impermanentLossRisk = this.calculateImpermanentLossRisk(metrics);
@@ -100,21 +149,125 @@ export class PoolAnalysisService {
         dailyFees,
         weeklyFees,
         monthlyFees,
+        dailyFeesValue,
+        quoteCurrency: this.quoteCurrency,
         estimatedApr,
         impermanentLossRisk,
         liquidityShare
       };
     } catch (error) {
-      console.error(`Error calculating expected returns for pool ${poolAddress}:`, error);
+      this.logger.error('Error calculating expected returns', { poolAddress, error });
       throw new Error(`Failed to calculate expected returns: ${error.message}`);
     }
   }
 
+  /**
+   * Value of a liquidity amount in the quote currency
+   */
+  async calculateLiquidityValue(liquidityAmount: LiquidityAmount, poolInfo: PoolInfo): Promise<number> {
+    const prices = await this.getTokenPrices(poolInfo);
+    return this.valueTokenAmounts(liquidityAmount.tokenA, liquidityAmount.tokenB, poolInfo, prices);
+  }
+
+  /**
+   * Shards of a token pair with their reserves
+   * Lets pool-implied price oracles use the pools this service discovers.
+   */
+  async getShardReserves(chainId: number, tokenA: string, tokenB: string): Promise<ShardReserves[]> {
+    const pools = await this.discoverPoolsForTokenPair(tokenA, tokenB, chainId);
+
+    return pools.map(pool => ({
+      poolAddress: pool.poolAddress,
+      tokenA: pool.tokenA.address,
+      tokenB: pool.tokenB.address,
+      reserveA: pool.reserveA,
+      reserveB: pool.reserveB,
+      decimalsA: pool.tokenA.decimals,
+      decimalsB: pool.tokenB.decimals
+    }));
+  }
+
+  /**
+   * LP token balances of an owner in the given pools
+   */
+  async getLiquidityPositions(
+    poolAddresses: string[],
+    owner: string,
+    chainId: number
+  ): Promise<LiquidityPosition[]> {
+    const provider = this.providers.get(chainId);
+    if (!provider) {
+      throw new Error(`No provider configured for chain ${chainId}`);
+    }
+
+    const lpTokenAbi = ["function balanceOf(address owner) external view returns (uint256)"];
+    return Promise.all(poolAddresses.map(async (poolAddress) => ({
+      poolAddress,
+      lpTokens: await new ethers.Contract(poolAddress, lpTokenAbi, provider).balanceOf(owner) as bigint
+    })));
+  }
+
+  /**
+   * SAMM curve parameters and owner fee of a pool, for quoting swaps off-chain
+   */
+  async getSwapFeeConfig(
+    poolAddress: string,
+    chainId: number
+  ): Promise<Pick<SAMMPoolFeeConfig, 'sammParams' | 'ownerFeeNumerator' | 'ownerFeeDenominator'>> {
+    const provider = this.providers.get(chainId);
+    if (!provider) {
+      throw new Error(`No provider configured for chain ${chainId}`);
+    }
+
+    const poolAbi = [
+      "function getSAMMParams() external view returns (int256 beta1, uint256 rmin, uint256 rmax, uint256 c)",
+      "function ownerFeeNumerator() external view returns (uint256)",
+      "function ownerFeeDenominator() external view returns (uint256)"
+    ];
+    const pool = new ethers.Contract(poolAddress, poolAbi, provider);
+    const [params, ownerFeeNumerator, ownerFeeDenominator] = await Promise.all([
+      pool.getSAMMParams(),
+      pool.ownerFeeNumerator(),
+      pool.ownerFeeDenominator()
+    ]);
+
+    return {
+      sammParams: { beta1: params.beta1, rmin: params.rmin, rmax: params.rmax, c: params.c },
+      ownerFeeNumerator,
+      ownerFeeDenominator
+    };
+  }
+
+  /**
+   * Current gas price on a chain, in wei
+   */
+  async getGasPrice(chainId: number): Promise<bigint> {
+    const provider = this.providers.get(chainId);
+    if (!provider) {
+      throw new Error(`No provider configured for chain ${chainId}`);
+    }
+
+    const feeData = await provider.getFeeData();
+    return feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n;
+  }
+
+  /**
+   * Quote currency price of a chain's native token, through its wrapped token
+   */
+  async getNativeTokenPrice(chainId: number): Promise<number | null> {
+    const wrappedNative = this.chainConfigs.find(c => c.chainId === chainId)?.wrappedNativeToken;
+    if (!wrappedNative) return null;
+
+    const price = await this.priceOracle.getPrice({ ...wrappedNative, chainId });
+    return price?.price ?? null;
+  }
+
   /**
    * Discover all pools for a token pair on a specific chain
    */
   private async discoverPoolsForTokenPair(
-    tokenPair: TokenPair,
+    tokenA: string,
+    tokenB: string,
     chainId: number
   ): Promise<PoolInfo[]> {
     const provider = this.providers.get(chainId);
@@ -129,8 +282,7 @@ export class PoolAnalysisService {
 
     // Query the SAMM Pool Factory for pools
     const factoryAbi = [
-      "function getPoolsForTokenPair(address tokenA, address tokenB) external view returns (address[] memory)",
-      "function getPoolInfo(address pool) external view returns (tuple(address tokenA, address tokenB, uint256 reserveA, uint256 reserveB, uint256 totalSupply))"
+      "function getShardsForPair(address tokenA, address tokenB) external view returns (address[] memory)"
     ];
 
     const factory = new ethers.Contract(
@@ -140,10 +292,7 @@ export class PoolAnalysisService {
     );
 
     try {
-      const poolAddresses = await factory.getPoolsForTokenPair(
-        tokenPair.tokenA.address,
-        tokenPair.tokenB.address
-      );
+      const poolAddresses = await factory.getShardsForPair(tokenA, tokenB);
 
       const pools: PoolInfo[] = [];
       for (const poolAddress of poolAddresses) {
@@ -153,7 +302,7 @@ export class PoolAnalysisService {
 
       return pools;
     } catch (error) {
-      console.error(`Error discovering pools for token pair:`, error);
+      this.logger.error('Error discovering pools for token pair', error);
       return [];
     }
   }
@@ -199,7 +348,7 @@ export class PoolAnalysisService {
         isSmallestShard: false // Will be determined by comparison
       };
     } catch (error) {
-      console.error(`Error getting pool info for ${poolAddress}:`, error);
+      this.logger.error('Error getting pool info', { poolAddress, error });
       throw new Error(`Failed to get pool info: ${error.message}`);
     }
   }
@@ -235,7 +384,7 @@ export class PoolAnalysisService {
         decimals: Number(decimals)
       };
     } catch (error) {
-      console.error(`Error getting token info for ${tokenAddress}:`, error);
+      this.logger.error('Error getting token info', { tokenAddress, error });
       throw new Error(`Failed to get token info: ${error.message}`);
     }
   }
@@ -252,29 +401,49 @@ export class PoolAnalysisService {
     }
 
     try {
-      // In a real implementation, this would query historical data
-      // For now, we'll simulate metrics based on pool size
-      const poolValue = this.calculatePoolValue(poolInfo);
+      // Rolling 24h activity from the pool's SwapSAMM / LiquidityAdded / LiquidityRemoved events
+      const [activity, prices] = await Promise.all([
+        this.getPoolActivity(poolInfo),
+        this.getTokenPrices(poolInfo)
+      ]);
+      const poolValue = this.valueTokenAmounts(poolInfo.reserveA, poolInfo.reserveB, poolInfo, prices);
       
-      // Simulate metrics based on pool size (larger pools typically have more activity)
-      const baseVolume = Number(poolValue) * 0.1; // 10% daily turnover
-      const volume24h = BigInt(Math.floor(baseVolume));
-      const transactions24h = Math.floor(Number(poolValue) / 1000); // Estimate based on pool size
-      const feesGenerated24h = volume24h * 3n / 1000n; // 0.3% fee
+      const inTokenA = (amounts: { tokenA: bigint; tokenB: bigint }) =>
+        valueInTokenA(amounts.tokenA, amounts.tokenB, poolInfo.reserveA, poolInfo.reserveB);
+
+      const volume24h = activity.volumeTokenA;
+      const transactions24h = activity.swapCount;
+      const averageTradeSize = transactions24h > 0 ? volume24h / BigInt(transactions24h) : 0n;
+
+      // Every swap has a token A side and a token B side of about equal value
+      const volume24hValue = this.valueTokenAmounts(activity.volumeTokenA, activity.volumeTokenB, poolInfo, prices) / 2;
+      const feesGenerated24hValue = this.valueTokenAmounts(activity.feesTokenA, activity.feesTokenB, poolInfo, prices);
+      const netLiquidityOutflow24hValue =
+        this.valueTokenAmounts(activity.liquidityRemoved.tokenA, activity.liquidityRemoved.tokenB, poolInfo, prices) -
+        this.valueTokenAmounts(activity.liquidityAdded.tokenA, activity.liquidityAdded.tokenB, poolInfo, prices);
       
       const metrics: PoolMetrics = {
         volume24h,
         transactions24h,
-        feesGenerated24h,
-        liquidityUtilization: Math.min(0.8, Number(volume24h) / Number(poolValue)),
-        averageTradeSize: transactions24h > 0 ? volume24h / BigInt(transactions24h) : 0n,
+        // SwapSAMM.fee is the trade fee paid to LPs; the owner fee is not included
+        feesGenerated24h: inTokenA({ tokenA: activity.feesTokenA, tokenB: activity.feesTokenB }),
+        liquidityUtilization: poolValue > 0 ? volume24hValue / poolValue : 0,
+        averageTradeSize,
+        liquidityAdded24h: inTokenA(activity.liquidityAdded),
+        liquidityRemoved24h: inTokenA(activity.liquidityRemoved),
+        poolValue,
+        volume24hValue,
+        feesGenerated24hValue,
+        netLiquidityOutflow24hValue,
         lastUpdated: new Date()
       };
 
       this.poolMetricsCache.set(cacheKey, metrics);
+      this.persistence?.setCacheEntry(POOL_METRICS_NAMESPACE, cacheKey, metrics, this.cacheExpiry)
+        .catch(error => this.logger.error('Error persisting pool metrics', error));
       return metrics;
     } catch (error) {
-      console.error(`Error collecting pool metrics:`, error);
+      this.logger.error('Error collecting pool metrics', error);
       throw new Error(`Failed to collect pool metrics: ${error.message}`);
     }
   }
@@ -286,11 +455,10 @@ export class PoolAnalysisService {
     poolInfo: PoolInfo,
     metrics: PoolMetrics
   ): Promise<PoolAnalysis> {
-    const poolValue = this.calculatePoolValue(poolInfo);
-    
     // Calculate expected APR based on fees
-    const yearlyFees = metrics.feesGenerated24h * 365n;
-    const expectedApr = Number(yearlyFees) / Number(poolValue);
+    const expectedApr = metrics.poolValue > 0
+      ? (metrics.feesGenerated24hValue * 365) / metrics.poolValue
+      : 0;
 
     // Calculate risk score (lower is better)
     const riskScore = this.calculateRiskScore(poolInfo, metrics);
@@ -308,25 +476,52 @@ export class PoolAnalysisService {
   }
 
   /**
-   * Calculate the total value of a pool
+   * Get indexed on-chain activity for a pool, indexing new blocks first
+   */
+  private async getPoolActivity(poolInfo: PoolInfo): Promise<ShardActivityMetrics> {
+    const indexer = this.eventIndexers.get(poolInfo.chainId);
+    if (!indexer) {
+      throw new Error(`No event indexer configured for chain ${poolInfo.chainId}`);
+    }
+
+    if (indexer.isTracking(poolInfo.poolAddress)) {
+      await indexer.syncPool(poolInfo.poolAddress);
+    } else {
+      await indexer.trackPool(poolInfo.poolAddress);
+    }
+
+    return indexer.getShardMetrics(poolInfo.poolAddress)!;
+  }
+
+  /**
+   * Quote currency prices of a pool's tokens
+   * Tokens the oracle cannot price are valued at zero.
    */
-  private calculatePoolValue(poolInfo: PoolInfo): bigint {
-    // Simplified calculation assuming 1:1 price ratio
-    // In reality, this would use price oracles
-    const tokenAValue = poolInfo.reserveA;
-    const tokenBValue = poolInfo.reserveB;
-    return tokenAValue + tokenBValue;
+  private async getTokenPrices(poolInfo: PoolInfo): Promise<PoolTokenPrices> {
+    const [priceA, priceB] = await Promise.all(
+      [poolInfo.tokenA, poolInfo.tokenB].map(async (token) => {
+        const price = await this.priceOracle.getPrice({ ...token, chainId: poolInfo.chainId });
+        if (!price) {
+          this.logger.warn('No token price', { chainId: poolInfo.chainId, quoteCurrency: this.quoteCurrency, symbol: token.symbol, token: token.address });
+        }
+        return price?.price ?? 0;
+      })
+    );
+
+    return { priceA, priceB };
   }
 
   /**
-   * Calculate the value of a liquidity amount
+   * Value of token A and token B amounts of a pool in the quote currency
    */
-  private calculateLiquidityValue(
-    liquidityAmount: LiquidityAmount,
-    poolInfo: PoolInfo
-  ): bigint {
-    // Simplified calculation
-    return liquidityAmount.tokenA + liquidityAmount.tokenB;
+  private valueTokenAmounts(
+    amountA: bigint,
+    amountB: bigint,
+    poolInfo: PoolInfo,
+    prices: PoolTokenPrices
+  ): number {
+    return amountToQuote(amountA, poolInfo.tokenA.decimals, prices.priceA) +
+      amountToQuote(amountB, poolInfo.tokenB.decimals, prices.priceB);
   }
 
   /**
@@ -335,8 +530,8 @@ export class PoolAnalysisService {
   private calculateRiskScore(poolInfo: PoolInfo, metrics: PoolMetrics): number {
     let riskScore = 0;
 
-    // Size risk (smaller pools are riskier)
-    const poolValue = Number(this.calculatePoolValue(poolInfo));
+    // Size risk (smaller pools are riskier), by quote currency value
+    const poolValue = metrics.poolValue;
     if (poolValue < 10000) riskScore += 0.3;
     else if (poolValue < 100000) riskScore += 0.2;
     else if (poolValue < 1000000) riskScore += 0.1;
@@ -349,6 +544,11 @@ export class PoolAnalysisService {
     // Volume consistency risk
     if (metrics.transactions24h < 10) riskScore += 0.2;
 
+    // Liquidity flight risk (LPs withdrawing more than 10% of the pool on net)
+    if (metrics.netLiquidityOutflow24hValue > poolValue * 0.1) {
+      riskScore += 0.1;
+    }
+
     return Math.min(1.0, riskScore);
   }
 
@@ -0,0 +1,333 @@
+/**
+ * Rebalance Planner
+ * Plans moving an LP's existing liquidity between shards of a pair
+ * The fillup strategy places new deposits; this covers capital already deposited
+ * in shards that have grown too large to earn their share of fees
+ */
+
+import { ethers } from 'ethers';
+import {
+  TokenPair,
+  PoolAnalysis,
+  LiquidityAmount,
+  LiquidityPosition,
+  ShardAllocation,
+  RebalanceMove,
+  RebalancePlan,
+  MigrationCost
+} from './types';
+import { PoolAnalysisService } from './PoolAnalysisService';
+import { Logger } from '../logging';
+
+/**
+ * Rough gas of the SAMMPool calls a move makes. Approvals assume the LP has
+ * not approved the target shard yet, so costs err on the high side.
+ */
+const REMOVE_LIQUIDITY_GAS = 120000n;
+const ADD_LIQUIDITY_GAS = 160000n;
+const APPROVE_GAS = 46000n;
+
+/** The position is moved in slices of 1 / PLAN_STEPS, each to the best shard at the time */
+const PLAN_STEPS = 20;
+
+/** Plans that need longer than this to pay back their gas are not recommended */
+const MAX_BREAK_EVEN_DAYS = 30;
+
+/** Smallest fee gain per unit of moved value worth a slice */
+const MIN_SLICE_GAIN = 1e-9;
+
+const RATIO_PRECISION = 10n ** 18n;
+const LP_FRACTION_PRECISION = 1_000_000_000;
+
+interface ShardState {
+  analysis: PoolAnalysis;
+  lpTokens: bigint;
+  positionValue: number;
+  // Value moved into (positive) or out of (negative) the shard by the plan
+  delta: number;
+}
+
+interface Transfer {
+  from: ShardState;
+  to: ShardState;
+  value: number;
+}
+
+export class RebalancePlanner {
+  private logger = new Logger('RebalancePlanner');
+
+  constructor(private poolAnalysisService: PoolAnalysisService) {}
+
+  /**
+   * Plan withdrawals and deposits that raise the LP's expected fees
+   *
+   * Each shard is assumed to keep earning its last 24h of fees, so an LP's fee
+   * income from a shard is its share of the pool times those fees. Liquidity
+   * moves while the share it gains in a smaller, busier shard earns more than
+   * the share it gives up.
+   */
+  async planRebalance(
+    tokenPair: TokenPair,
+    positions: LiquidityPosition[],
+    chainId: number
+  ): Promise<RebalancePlan> {
+    try {
+      const analyses = await this.poolAnalysisService.analyzePoolsForTokenPair(tokenPair, chainId);
+      if (analyses.length === 0) {
+        throw new Error(`No pools found for token pair on chain ${chainId}`);
+      }
+
+      const shards = this.toShardStates(analyses, positions);
+      const totalValue = shards.reduce((sum, shard) => sum + shard.positionValue, 0);
+      if (totalValue <= 0) {
+        throw new Error('No liquidity positions in the shards of this pair');
+      }
+
+      const currentDailyFees = this.dailyFees(shards);
+      const transfers = this.allocate(shards, totalValue / PLAN_STEPS);
+      const moves = await this.buildMoves(shards, transfers);
+
+      // Project from what the moves actually withdraw and deposit, leftovers included
+      shards.forEach(shard => { shard.delta = 0; });
+      let remainderValue = 0;
+      for (const move of moves) {
+        const from = shards.find(s => s.analysis.poolInfo.poolAddress === move.fromPool)!;
+        const to = shards.find(s => s.analysis.poolInfo.poolAddress === move.toPool)!;
+        const withdrawnValue = await this.poolAnalysisService.calculateLiquidityValue(move.withdrawAmount, from.analysis.poolInfo);
+        from.delta -= withdrawnValue;
+        to.delta += move.value;
+        remainderValue += Math.max(0, withdrawnValue - move.value);
+      }
+
+      const projectedDailyFees = this.dailyFees(shards);
+      const dailyFeeUplift = projectedDailyFees - currentDailyFees;
+      const migrationCost = await this.estimateMigrationCost(moves, chainId, remainderValue);
+      const breakEvenDays = dailyFeeUplift > 0 && migrationCost.gasCostValue !== null
+        ? migrationCost.gasCostValue / dailyFeeUplift
+        : null;
+      const recommended = moves.length > 0 && breakEvenDays !== null && breakEvenDays <= MAX_BREAK_EVEN_DAYS;
+
+      return {
+        chainId,
+        quoteCurrency: this.poolAnalysisService.quoteCurrency,
+        allocations: shards.map(shard => this.toAllocation(shard)),
+        moves,
+        currentDailyFees,
+        projectedDailyFees,
+        dailyFeeUplift,
+        migrationCost,
+        breakEvenDays,
+        recommended,
+        reasoning: this.generateReasoning(shards, moves, totalValue, dailyFeeUplift, breakEvenDays)
+      };
+    } catch (error) {
+      this.logger.error('Error planning rebalance', error);
+      throw new Error(`Failed to plan rebalance: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private toShardStates(analyses: PoolAnalysis[], positions: LiquidityPosition[]): ShardState[] {
+    const lpByPool = new Map(positions.map(p => [p.poolAddress.toLowerCase(), p.lpTokens]));
+    const ignored = positions.filter(p =>
+      p.lpTokens > 0n &&
+      !analyses.some(a => a.poolInfo.poolAddress.toLowerCase() === p.poolAddress.toLowerCase())
+    );
+    if (ignored.length > 0) {
+      this.logger.warn('Ignoring positions outside the shards of the pair', { pools: ignored.map(p => p.poolAddress) });
+    }
+
+    return analyses.map(analysis => {
+      const lpTokens = lpByPool.get(analysis.poolInfo.poolAddress.toLowerCase()) ?? 0n;
+      const { totalSupply } = analysis.poolInfo;
+      const positionValue = totalSupply > 0n
+        ? analysis.metrics.poolValue * Number(lpTokens) / Number(totalSupply)
+        : 0;
+      return { analysis, lpTokens, positionValue, delta: 0 };
+    });
+  }
+
+  /**
+   * LP's share of a shard's daily fees with a position and pool of the given values
+   */
+  private feeShare(shard: ShardState, position: number, poolValue: number): number {
+    return poolValue > 0 ? shard.analysis.metrics.feesGenerated24hValue * position / poolValue : 0;
+  }
+
+  private dailyFees(shards: ShardState[]): number {
+    return shards.reduce((sum, shard) => sum + this.feeShare(
+      shard,
+      shard.positionValue + shard.delta,
+      shard.analysis.metrics.poolValue + shard.delta
+    ), 0);
+  }
+
+  /**
+   * Greedily move slices from the shard where they earn least to the one
+   * where they earn most, until no slice gains anything
+   */
+  private allocate(shards: ShardState[], slice: number): Transfer[] {
+    const transfers: Transfer[] = [];
+    const maxSlices = PLAN_STEPS * shards.length;
+
+    for (let i = 0; i < maxSlices; i++) {
+      let best: { from: ShardState; to: ShardState; amount: number; gain: number } | null = null;
+
+      // A shard either gives or receives, so every move withdraws LP tokens the LP already holds
+      for (const from of shards) {
+        if (from.delta > 0) continue;
+        const position = from.positionValue + from.delta;
+        const amount = Math.min(slice, position);
+        if (amount <= 0) continue;
+
+        const poolValue = from.analysis.metrics.poolValue + from.delta;
+        const loss = this.feeShare(from, position, poolValue) - this.feeShare(from, position - amount, poolValue - amount);
+
+        for (const to of shards) {
+          if (to === from || to.delta < 0) continue;
+          const toPosition = to.positionValue + to.delta;
+          const toPoolValue = to.analysis.metrics.poolValue + to.delta;
+          const gain = this.feeShare(to, toPosition + amount, toPoolValue + amount) - this.feeShare(to, toPosition, toPoolValue) - loss;
+          if (!best || gain > best.gain) {
+            best = { from, to, amount, gain };
+          }
+        }
+      }
+
+      if (!best || best.gain <= best.amount * MIN_SLICE_GAIN) break;
+
+      best.from.delta -= best.amount;
+      best.to.delta += best.amount;
+      const existing = transfers.find(t => t.from === best!.from && t.to === best!.to);
+      if (existing) {
+        existing.value += best.amount;
+      } else {
+        transfers.push({ from: best.from, to: best.to, value: best.amount });
+      }
+    }
+
+    return transfers;
+  }
+
+  /**
+   * Turn value transfers into LP token withdrawals and deposits at each target's ratio
+   */
+  private async buildMoves(shards: ShardState[], transfers: Transfer[]): Promise<RebalanceMove[]> {
+    const remainingLp = new Map(shards.map(shard => [shard, shard.lpTokens]));
+    const moves: RebalanceMove[] = [];
+
+    for (const { from, to, value } of transfers) {
+      const fromInfo = from.analysis.poolInfo;
+      const toInfo = to.analysis.poolInfo;
+      const available = remainingLp.get(from)!;
+
+      const fraction = Math.min(1, value / from.positionValue);
+      const share = from.lpTokens * BigInt(Math.round(fraction * LP_FRACTION_PRECISION)) / BigInt(LP_FRACTION_PRECISION);
+      const lpTokensToWithdraw = fraction >= 1 - 1 / LP_FRACTION_PRECISION || share > available ? available : share;
+      if (lpTokensToWithdraw === 0n || fromInfo.totalSupply === 0n) continue;
+      remainingLp.set(from, available - lpTokensToWithdraw);
+
+      const withdrawAmount: LiquidityAmount = {
+        tokenA: lpTokensToWithdraw * fromInfo.reserveA / fromInfo.totalSupply,
+        tokenB: lpTokensToWithdraw * fromInfo.reserveB / fromInfo.totalSupply
+      };
+
+      // Shards of a pair share the factory's token order, but do not rely on it
+      const sameOrder = fromInfo.tokenA.address.toLowerCase() === toInfo.tokenA.address.toLowerCase();
+      const withdrawnA = sameOrder ? withdrawAmount.tokenA : withdrawAmount.tokenB;
+      const withdrawnB = sameOrder ? withdrawAmount.tokenB : withdrawAmount.tokenA;
+      if (toInfo.reserveA === 0n || toInfo.reserveB === 0n) continue;
+
+      const ratioA = withdrawnA * RATIO_PRECISION / toInfo.reserveA;
+      const ratioB = withdrawnB * RATIO_PRECISION / toInfo.reserveB;
+      const ratio = ratioA < ratioB ? ratioA : ratioB;
+      const depositAmount: LiquidityAmount = {
+        tokenA: toInfo.reserveA * ratio / RATIO_PRECISION,
+        tokenB: toInfo.reserveB * ratio / RATIO_PRECISION
+      };
+
+      moves.push({
+        fromPool: fromInfo.poolAddress,
+        toPool: toInfo.poolAddress,
+        lpTokensToWithdraw,
+        withdrawAmount,
+        depositAmount,
+        expectedLpTokens: toInfo.totalSupply * ratio / RATIO_PRECISION,
+        value: await this.poolAnalysisService.calculateLiquidityValue(depositAmount, toInfo)
+      });
+    }
+
+    return moves;
+  }
+
+  private async estimateMigrationCost(
+    moves: RebalanceMove[],
+    chainId: number,
+    remainderValue: number
+  ): Promise<MigrationCost> {
+    const targets = new Set(moves.map(move => move.toPool.toLowerCase()));
+    const gasUnits = BigInt(moves.length) * (REMOVE_LIQUIDITY_GAS + ADD_LIQUIDITY_GAS) +
+      BigInt(targets.size) * 2n * APPROVE_GAS;
+
+    if (gasUnits === 0n) {
+      return { gasUnits, gasCostNative: 0n, gasCostValue: 0, remainderValue };
+    }
+
+    try {
+      const [gasPrice, nativePrice] = await Promise.all([
+        this.poolAnalysisService.getGasPrice(chainId),
+        this.poolAnalysisService.getNativeTokenPrice(chainId)
+      ]);
+      const gasCostNative = gasUnits * gasPrice;
+      const gasCostValue = gasCostNative === 0n
+        ? 0
+        : nativePrice === null ? null : Number(ethers.formatEther(gasCostNative)) * nativePrice;
+
+      return { gasUnits, gasCostNative, gasCostValue, remainderValue };
+    } catch (error) {
+      this.logger.warn('Failed to price rebalance gas', { chainId, error });
+      return { gasUnits, gasCostNative: 0n, gasCostValue: null, remainderValue };
+    }
+  }
+
+  private toAllocation(shard: ShardState): ShardAllocation {
+    const { poolValue, feesGenerated24hValue } = shard.analysis.metrics;
+    return {
+      poolAddress: shard.analysis.poolInfo.poolAddress,
+      poolValue,
+      dailyFeeYield: poolValue > 0 ? feesGenerated24hValue / poolValue : 0,
+      lpTokens: shard.lpTokens,
+      currentValue: shard.positionValue,
+      targetValue: shard.positionValue + shard.delta
+    };
+  }
+
+  private generateReasoning(
+    shards: ShardState[],
+    moves: RebalanceMove[],
+    totalValue: number,
+    dailyFeeUplift: number,
+    breakEvenDays: number | null
+  ): string {
+    const quoteCurrency = this.poolAnalysisService.quoteCurrency;
+
+    if (shards.every(shard => shard.analysis.metrics.feesGenerated24hValue <= 0)) {
+      return `No fees were recorded in the last 24h across ${shards.length} shards, so moving liquidity has no expected uplift.`;
+    }
+    if (moves.length === 0) {
+      return `Your liquidity already earns the largest fee share it can across ${shards.length} shards. ` +
+             `Moving it would lower your expected fees.`;
+    }
+
+    const movedValue = moves.reduce((sum, move) => sum + move.value, 0);
+    const reasoning = `Moving ${(movedValue / totalValue * 100).toFixed(1)}% of your position into smaller, busier shards ` +
+      `adds about ${dailyFeeUplift.toFixed(4)} ${quoteCurrency} per day in fees, assuming each shard keeps its last 24h of fees.`;
+
+    if (breakEvenDays === null) {
+      return `${reasoning} Gas could not be priced, so the payback period is unknown.`;
+    }
+    if (breakEvenDays > MAX_BREAK_EVEN_DAYS) {
+      return `${reasoning} Gas takes ${breakEvenDays.toFixed(0)} days to pay back, longer than ${MAX_BREAK_EVEN_DAYS} days.`;
+    }
+    return `${reasoning} Gas pays back in ${breakEvenDays < 1 ? 'under a day' : `${breakEvenDays.toFixed(1)} days`}.`;
+  }
+}
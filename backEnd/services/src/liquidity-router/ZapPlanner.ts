@@ -0,0 +1,260 @@
+/**
+ * Zap Planner
+ * Plans single-token deposits into and withdrawals from a shard for the SAMMZap contract
+ * The swap half always goes through another shard of the pair, so it leaves
+ * the price of the shard being deposited into or withdrawn from untouched
+ */
+
+import {
+  TokenPair,
+  PoolInfo,
+  PoolAnalysis,
+  LiquidityAmount,
+  ZapInPlan,
+  ZapOutPlan
+} from './types';
+import { PoolAnalysisService } from './PoolAnalysisService';
+import {
+  SAMMFeeCalculator,
+  SAMMPoolFeeConfig,
+  SAMMSwapCalculation,
+  SAMM_SCALE_FACTOR
+} from '../samm-fees';
+import { Logger } from '../logging';
+
+interface ZapInCandidate {
+  swapPool: PoolInfo;
+  swap: SAMMSwapCalculation;
+  depositIn: bigint;
+  depositBought: bigint;
+  liquidity: bigint;
+}
+
+export class ZapPlanner {
+  private logger = new Logger('ZapPlanner');
+
+  constructor(private poolAnalysisService: PoolAnalysisService) {}
+
+  /**
+   * Split `amountIn` of one token into a swap and a deposit into `poolAddress`
+   *
+   * For every other shard, the bought amount is the largest one that still
+   * leaves enough of the input token to match the target's ratio. The shard
+   * that mints the most LP tokens is used.
+   */
+  async planZapIn(
+    tokenPair: TokenPair,
+    tokenIn: string,
+    amountIn: bigint,
+    poolAddress: string,
+    chainId: number
+  ): Promise<ZapInPlan> {
+    try {
+      const { target, swapPools } = await this.loadShards(tokenPair, poolAddress, chainId);
+      const inIsA = this.isTokenA(target, tokenIn);
+      const [reserveIn, reserveBought] = inIsA
+        ? [target.reserveA, target.reserveB]
+        : [target.reserveB, target.reserveA];
+      if (reserveIn === 0n || reserveBought === 0n || target.totalSupply === 0n) {
+        throw new Error(`Pool ${target.poolAddress} has no liquidity to match`);
+      }
+
+      let best: ZapInCandidate | null = null;
+      for (const swapPool of swapPools) {
+        const candidate = await this.quoteZapIn(swapPool, tokenIn, amountIn, target, reserveIn, reserveBought, chainId);
+        if (candidate && (!best || candidate.liquidity > best.liquidity)) {
+          best = candidate;
+        }
+      }
+      if (!best) {
+        throw new Error('No other shard can swap part of the input');
+      }
+
+      const tokenBought = inIsA ? target.tokenB.address : target.tokenA.address;
+      const toPoolOrder = (inAmount: bigint, boughtAmount: bigint): LiquidityAmount => inIsA
+        ? { tokenA: inAmount, tokenB: boughtAmount }
+        : { tokenA: boughtAmount, tokenB: inAmount };
+
+      return {
+        chainId,
+        pool: target.poolAddress,
+        swapPool: best.swapPool.poolAddress,
+        tokenIn,
+        tokenBought,
+        amountIn,
+        swapAmountIn: best.swap.amountIn,
+        swapAmountOut: best.swap.amountOut,
+        depositAmount: toPoolOrder(best.depositIn, best.depositBought),
+        expectedLiquidity: best.liquidity,
+        refundAmount: toPoolOrder(
+          amountIn - best.swap.amountIn - best.depositIn,
+          best.swap.amountOut - best.depositBought
+        ),
+        reasoning: `Swaps ${(Number(best.swap.amountIn) / Number(amountIn) * 100).toFixed(1)}% of the input ` +
+          `through shard ${best.swapPool.poolAddress} and deposits both sides into ${target.poolAddress}.`
+      };
+    } catch (error) {
+      this.logger.error('Error planning zap-in', error);
+      throw new Error(`Failed to plan zap-in: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Burn `liquidity` of `poolAddress` and sell the other token for `tokenOut`
+   * in the shard that pays the most for it
+   */
+  async planZapOut(
+    tokenPair: TokenPair,
+    poolAddress: string,
+    liquidity: bigint,
+    tokenOut: string,
+    chainId: number
+  ): Promise<ZapOutPlan> {
+    try {
+      const { target: pool, swapPools } = await this.loadShards(tokenPair, poolAddress, chainId);
+      if (liquidity > pool.totalSupply) {
+        throw new Error('Liquidity exceeds the pool supply');
+      }
+
+      const withdrawAmount: LiquidityAmount = {
+        tokenA: liquidity * pool.reserveA / pool.totalSupply,
+        tokenB: liquidity * pool.reserveB / pool.totalSupply
+      };
+      const outIsA = this.isTokenA(pool, tokenOut);
+      const [received, sold] = outIsA
+        ? [withdrawAmount.tokenA, withdrawAmount.tokenB]
+        : [withdrawAmount.tokenB, withdrawAmount.tokenA];
+      const tokenSold = outIsA ? pool.tokenB.address : pool.tokenA.address;
+
+      let swapPool = swapPools[0];
+      let swap: SAMMSwapCalculation | null = null;
+      for (const candidate of swapPools) {
+        const config = await this.feeConfig(candidate, tokenSold, chainId);
+        const [reserveSold, reserveOut] = this.isTokenA(candidate, tokenSold)
+          ? [candidate.reserveA, candidate.reserveB]
+          : [candidate.reserveB, candidate.reserveA];
+        const quote = SAMMFeeCalculator.calculateSwapSAMMForInput(sold, reserveSold, reserveOut, config);
+        if (quote && (!swap || quote.amountOut > swap.amountOut)) {
+          swap = quote;
+          swapPool = candidate;
+        }
+      }
+
+      const swapAmountIn = swap?.amountIn ?? 0n;
+      const swapAmountOut = swap?.amountOut ?? 0n;
+      const unsoldAmount = sold - swapAmountIn;
+
+      return {
+        chainId,
+        pool: pool.poolAddress,
+        swapPool: swapPool.poolAddress,
+        tokenOut,
+        tokenSold,
+        liquidity,
+        withdrawAmount,
+        swapAmountIn,
+        swapAmountOut,
+        expectedAmountOut: received + swapAmountOut,
+        unsoldAmount,
+        reasoning: swap
+          ? `Sells the withdrawn ${this.symbolOf(pool, tokenSold)} through shard ${swapPool.poolAddress}` +
+            (unsoldAmount > 0n ? '; the part above its c-threshold is paid out unsold.' : '.')
+          : `No other shard can take the withdrawn ${this.symbolOf(pool, tokenSold)}, so it is paid out unsold.`
+      };
+    } catch (error) {
+      this.logger.error('Error planning zap-out', error);
+      throw new Error(`Failed to plan zap-out: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Largest purchase in `swapPool` that leaves the input at the target's ratio
+   */
+  private async quoteZapIn(
+    swapPool: PoolInfo,
+    tokenIn: string,
+    amountIn: bigint,
+    target: PoolInfo,
+    reserveIn: bigint,
+    reserveBought: bigint,
+    chainId: number
+  ): Promise<ZapInCandidate | null> {
+    const config = await this.feeConfig(swapPool, tokenIn, chainId);
+    const [swapReserveIn, swapReserveOut] = this.isTokenA(swapPool, tokenIn)
+      ? [swapPool.reserveA, swapPool.reserveB]
+      : [swapPool.reserveB, swapPool.reserveA];
+    if (swapReserveIn === 0n || swapReserveOut <= 1n) return null;
+
+    // Same bound as the fee library: OA ≤ c × RA (normalized) and OA < RB
+    const maxOutNorm = SAMMFeeCalculator.normalize(swapReserveIn, config.inputDecimals) * config.sammParams.c / SAMM_SCALE_FACTOR;
+    let high = SAMMFeeCalculator.denormalize(maxOutNorm, config.outputDecimals);
+    if (high >= swapReserveOut) {
+      high = swapReserveOut - 1n;
+    }
+
+    let low = 0n;
+    let best: SAMMSwapCalculation | null = null;
+    while (low < high) {
+      const mid = (low + high + 1n) / 2n;
+      const quote = SAMMFeeCalculator.calculateSwapSAMM(mid, swapReserveIn, swapReserveOut, config);
+      const affordable = quote.amountIn < amountIn &&
+        (amountIn - quote.amountIn) * reserveBought >= mid * reserveIn &&
+        SAMMFeeCalculator.isWithinCThreshold(mid, swapReserveIn, config);
+
+      if (affordable) {
+        best = quote;
+        low = mid;
+      } else {
+        high = mid - 1n;
+      }
+    }
+    if (!best) return null;
+
+    // SAMMPool._calculateOptimalAmounts with the input side as the desired amount
+    const remaining = amountIn - best.amountIn;
+    const boughtOptimal = remaining * reserveBought / reserveIn;
+    const [depositIn, depositBought] = boughtOptimal <= best.amountOut
+      ? [remaining, boughtOptimal]
+      : [best.amountOut * reserveIn / reserveBought, best.amountOut];
+    const liquidity = [depositIn * target.totalSupply / reserveIn, depositBought * target.totalSupply / reserveBought]
+      .reduce((a, b) => (a < b ? a : b));
+    if (liquidity === 0n) return null;
+
+    return { swapPool, swap: best, depositIn, depositBought, liquidity };
+  }
+
+  private async loadShards(
+    tokenPair: TokenPair,
+    poolAddress: string,
+    chainId: number
+  ): Promise<{ target: PoolInfo; swapPools: PoolInfo[] }> {
+    const analyses: PoolAnalysis[] = await this.poolAnalysisService.analyzePoolsForTokenPair(tokenPair, chainId);
+    const pools = analyses.map(analysis => analysis.poolInfo);
+    const target = pools.find(pool => pool.poolAddress.toLowerCase() === poolAddress.toLowerCase());
+    if (!target) {
+      throw new Error(`Pool ${poolAddress} is not a shard of the token pair on chain ${chainId}`);
+    }
+
+    const swapPools = pools.filter(pool => pool !== target);
+    if (swapPools.length === 0) {
+      throw new Error('A zap needs a second shard of the pair to swap through');
+    }
+    return { target, swapPools };
+  }
+
+  private async feeConfig(pool: PoolInfo, tokenIn: string, chainId: number): Promise<SAMMPoolFeeConfig> {
+    const fees = await this.poolAnalysisService.getSwapFeeConfig(pool.poolAddress, chainId);
+    const [input, output] = this.isTokenA(pool, tokenIn) ? [pool.tokenA, pool.tokenB] : [pool.tokenB, pool.tokenA];
+    return { ...fees, inputDecimals: input.decimals, outputDecimals: output.decimals };
+  }
+
+  private isTokenA(pool: PoolInfo, token: string): boolean {
+    if (pool.tokenA.address.toLowerCase() === token.toLowerCase()) return true;
+    if (pool.tokenB.address.toLowerCase() === token.toLowerCase()) return false;
+    throw new Error(`Token ${token} is not traded by pool ${pool.poolAddress}`);
+  }
+
+  private symbolOf(pool: PoolInfo, token: string): string {
+    return this.isTokenA(pool, token) ? pool.tokenA.symbol : pool.tokenB.symbol;
+  }
+}
@@ -84,9 +84,9 @@ async function demonstrateLiquidityRouter() {
       
       console.log(`  ✅ Fillup Strategy:`);
       console.log(`     Target Pool: ${fillupStrategy.targetPoolAddress}`);
-      console.log(`     Current Size: ${fillupStrategy.currentSize.toString()}`);
-      console.log(`     Target Size: ${fillupStrategy.targetSize.toString()}`);
-      console.log(`     Recommended Amount: ${fillupStrategy.recommendedAmount.toString()}`);
+      console.log(`     Current Size: ${fillupStrategy.currentSize.toFixed(2)} ${fillupStrategy.quoteCurrency}`);
+      console.log(`     Target Size: ${fillupStrategy.targetSize.toFixed(2)} ${fillupStrategy.quoteCurrency}`);
+      console.log(`     Recommended Amount: ${fillupStrategy.recommendedAmount.toFixed(2)} ${fillupStrategy.quoteCurrency}`);
       console.log(`     Priority: ${fillupStrategy.priority}`);
       console.log(`     Reasoning: ${fillupStrategy.reasoning}\n`);
 
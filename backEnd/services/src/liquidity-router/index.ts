@@ -3,10 +3,14 @@
  * Exports all main components and provides easy initialization
  */
 
+import { loadPriceTable } from '../price-oracle';
+
 export { LiquidityRouterService } from './LiquidityRouterService';
 export { LiquidityRouterAPI } from './LiquidityRouterAPI';
 export { PoolAnalysisService } from './PoolAnalysisService';
 export { FillupStrategyEngine } from './FillupStrategyEngine';
+export { RebalancePlanner } from './RebalancePlanner';
+export { ZapPlanner } from './ZapPlanner';
 
 export * from './types';
 
@@ -45,7 +49,8 @@ export function createDefaultConfig(): import('./types').LiquidityRouterConfig {
     analysisInterval: 5 * 60 * 1000, // 5 minutes
     metricsRetentionPeriod: 24 * 60 * 60 * 1000, // 24 hours
     minLiquidityThreshold: BigInt(1000), // Minimum 1000 wei
-    maxRiskScore: 0.8 // Maximum acceptable risk score
+    maxRiskScore: 0.8, // Maximum acceptable risk score
+    priceTable: process.env.PRICE_TABLE_PATH ? loadPriceTable(process.env.PRICE_TABLE_PATH) : undefined
   };
 }
 
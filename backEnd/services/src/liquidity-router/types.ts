@@ -3,6 +3,9 @@
  * Implements types for pool analysis, selection, and fillup strategy
  */
 
+import type { PersistenceStore } from '../persistence';
+import type { PriceOracle, StaticPriceTable } from '../price-oracle';
+
 export interface TokenInfo {
   address: string;
   symbol: string;
@@ -32,11 +35,19 @@ export interface PoolInfo {
 }
 
 export interface PoolMetrics {
+  // Token amounts in token A units, token B priced at the pool's reserves
   volume24h: bigint;
   transactions24h: number;
   feesGenerated24h: bigint;
   liquidityUtilization: number;
   averageTradeSize: bigint;
+  liquidityAdded24h: bigint;
+  liquidityRemoved24h: bigint;
+  // Valuations in the price oracle's quote currency
+  poolValue: number;
+  volume24hValue: number;
+  feesGenerated24hValue: number;
+  netLiquidityOutflow24hValue: number;
   lastUpdated: Date;
 }
 
@@ -61,9 +72,11 @@ export interface LiquidityRecommendation {
 
 export interface FillupStrategy {
   targetPoolAddress: string;
-  currentSize: bigint;
-  targetSize: bigint;
-  recommendedAmount: bigint;
+  // Sizes are pool values in the quote currency
+  currentSize: number;
+  targetSize: number;
+  recommendedAmount: number;
+  quoteCurrency: string;
   reasoning: string;
   priority: 'HIGH' | 'MEDIUM' | 'LOW';
 }
@@ -72,11 +85,101 @@ export interface ExpectedReturns {
   dailyFees: bigint;
   weeklyFees: bigint;
   monthlyFees: bigint;
+  dailyFeesValue: number; // in the quote currency
+  quoteCurrency: string;
   estimatedApr: number;
   impermanentLossRisk: number;
   liquidityShare: number;
 }
 
+export interface LiquidityPosition {
+  poolAddress: string;
+  lpTokens: bigint;
+}
+
+export interface ShardAllocation {
+  poolAddress: string;
+  poolValue: number;
+  // Pool fees per day per unit of pool value
+  dailyFeeYield: number;
+  lpTokens: bigint;
+  // Position values in the quote currency, before and after the plan
+  currentValue: number;
+  targetValue: number;
+}
+
+export interface RebalanceMove {
+  fromPool: string;
+  toPool: string;
+  lpTokensToWithdraw: bigint;
+  withdrawAmount: LiquidityAmount;
+  // At the target shard's ratio; the rest of the withdrawal stays in the wallet
+  depositAmount: LiquidityAmount;
+  expectedLpTokens: bigint;
+  value: number; // deposited value in the quote currency
+}
+
+export interface MigrationCost {
+  gasUnits: bigint;
+  gasCostNative: bigint;
+  gasCostValue: number | null; // null when the native token has no price
+  remainderValue: number; // withdrawn but not redeposited
+}
+
+export interface RebalancePlan {
+  chainId: number;
+  quoteCurrency: string;
+  allocations: ShardAllocation[];
+  moves: RebalanceMove[];
+  currentDailyFees: number;
+  projectedDailyFees: number;
+  dailyFeeUplift: number;
+  migrationCost: MigrationCost;
+  breakEvenDays: number | null;
+  recommended: boolean;
+  reasoning: string;
+}
+
+/**
+ * Single-token deposit: buy the other token in `swapPool`, then deposit both
+ * sides into `pool`. Pool amounts follow `pool`'s token order.
+ */
+export interface ZapInPlan {
+  chainId: number;
+  pool: string;
+  swapPool: string;
+  tokenIn: string;
+  tokenBought: string;
+  amountIn: bigint;
+  swapAmountIn: bigint;
+  swapAmountOut: bigint;
+  depositAmount: LiquidityAmount;
+  expectedLiquidity: bigint;
+  // Tokens the deposit does not take, returned to the LP
+  refundAmount: LiquidityAmount;
+  reasoning: string;
+}
+
+/**
+ * Single-token withdrawal: burn LP tokens of `pool`, then sell the other
+ * token for `tokenOut` in `swapPool`. Pool amounts follow `pool`'s token order.
+ */
+export interface ZapOutPlan {
+  chainId: number;
+  pool: string;
+  swapPool: string;
+  tokenOut: string;
+  tokenSold: string;
+  liquidity: bigint;
+  withdrawAmount: LiquidityAmount;
+  swapAmountIn: bigint;
+  swapAmountOut: bigint;
+  expectedAmountOut: bigint;
+  // Part of the sold token the swap cannot take, paid out as is
+  unsoldAmount: bigint;
+  reasoning: string;
+}
+
 export interface ChainConfig {
   chainId: number;
   name: string;
@@ -85,6 +188,8 @@ export interface ChainConfig {
     sammPoolFactory: string;
     router: string;
   };
+  wrappedNativeToken?: TokenInfo; // prices gas for rebalance plans
+  blockTime?: number; // average block time in milliseconds, sizes the event backfill
 }
 
 export interface LiquidityRouterConfig {
@@ -93,4 +198,7 @@ export interface LiquidityRouterConfig {
   metricsRetentionPeriod: number; // milliseconds
   minLiquidityThreshold: bigint;
   maxRiskScore: number;
+  persistence?: PersistenceStore; // pool metrics are kept in memory only when omitted
+  priceOracle?: PriceOracle; // defaults to pool TWAP backed by priceTable
+  priceTable?: StaticPriceTable; // reference prices for the default oracle
 }
\ No newline at end of file
@@ -0,0 +1,138 @@
+/**
+ * Structured Logger
+ * Writes JSON log entries with service, chain and request context to the configured sinks
+ */
+
+import { LogContext, LogEntry, LogLevel, LoggingConfig } from './types';
+import { ConsoleLogSink, FileLogSink } from './sinks';
+import { getRequestContext } from './requestContext';
+import { serializeError, toLogValue } from './redaction';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+/** Field names whose values identify a user */
+export const DEFAULT_REDACT_KEYS = ['userAddress', 'user', 'recipient', 'sender', 'from', 'owner', 'trader', 'account', 'wallet'];
+
+/**
+ * Configuration from the environment
+ * LOG_LEVEL, LOG_FILE (adds a file sink), LOG_REDACT_ADDRESSES=false, LOG_STACKS=false
+ */
+function createConfigFromEnv(): LoggingConfig {
+  const level = process.env.LOG_LEVEL as LogLevel | undefined;
+  const sinks: LoggingConfig['sinks'] = [new ConsoleLogSink()];
+  if (process.env.LOG_FILE) {
+    sinks.push(new FileLogSink(process.env.LOG_FILE));
+  }
+
+  return {
+    level: level && level in LEVEL_ORDER
+      ? level
+      : process.env.NODE_ENV === 'development' || process.env.DEBUG ? 'debug' : 'info',
+    sinks,
+    redactAddresses: process.env.LOG_REDACT_ADDRESSES !== 'false',
+    redactKeys: DEFAULT_REDACT_KEYS,
+    includeStacks: process.env.LOG_STACKS !== 'false'
+  };
+}
+
+let config = createConfigFromEnv();
+let redactKeys = new Set(config.redactKeys.map(key => key.toLowerCase()));
+
+/**
+ * Replace parts of the process-wide logging configuration
+ */
+export function configureLogging(updates: Partial<LoggingConfig>): void {
+  config = { ...config, ...updates };
+  redactKeys = new Set(config.redactKeys.map(key => key.toLowerCase()));
+}
+
+/**
+ * Current logging configuration
+ */
+export function getLoggingConfig(): LoggingConfig {
+  return { ...config, sinks: [...config.sinks] };
+}
+
+/**
+ * Structured logger for one service
+ *
+ * Messages should be constant; put values in `data` so they can be queried and redacted.
+ * An `error` field in `data`, or an Error passed as `data`, is reported under `error`.
+ * The request ID and chain ID of the current request context are added automatically.
+ */
+export class Logger {
+  protected readonly service: string;
+  private context: LogContext;
+
+  constructor(service: string, context: LogContext = {}) {
+    this.service = service;
+    this.context = context;
+  }
+
+  /**
+   * Logger with extra context
+   */
+  child(context: LogContext): Logger {
+    return new Logger(this.service, { ...this.context, ...context });
+  }
+
+  /**
+   * Logger for a chain
+   */
+  forChain(chainId: number): Logger {
+    return this.child({ chainId });
+  }
+
+  debug(message: string, data?: unknown): void {
+    this.write('debug', message, data);
+  }
+
+  info(message: string, data?: unknown): void {
+    this.write('info', message, data);
+  }
+
+  warn(message: string, data?: unknown): void {
+    this.write('warn', message, data);
+  }
+
+  error(message: string, data?: unknown): void {
+    this.write('error', message, data);
+  }
+
+  private write(level: LogLevel, message: string, data?: unknown): void {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[config.level]) return;
+
+    const requestContext = getRequestContext();
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      service: this.service,
+      chainId: this.context.chainId ?? requestContext?.chainId,
+      requestId: this.context.requestId ?? requestContext?.requestId,
+      message
+    };
+
+    let fields = data;
+    if (fields instanceof Error) {
+      fields = { error: fields };
+    }
+    if (fields && typeof fields === 'object' && !Array.isArray(fields) && 'error' in fields) {
+      const { error, ...rest } = fields as Record<string, unknown>;
+      if (error !== undefined && error !== null) {
+        entry.error = serializeError(error, config.includeStacks);
+      }
+      fields = Object.keys(rest).length > 0 ? rest : undefined;
+    }
+    if (fields !== undefined) {
+      entry.data = toLogValue(fields, redactKeys, config.redactAddresses);
+    }
+
+    for (const sink of config.sinks) {
+      try {
+        sink.write(entry);
+      } catch {
+        // A broken sink must not take the request down with it
+      }
+    }
+  }
+}
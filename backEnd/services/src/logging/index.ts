@@ -0,0 +1,17 @@
+/**
+ * Logging - Main Export
+ * Structured JSON logging with request correlation IDs
+ */
+
+export { Logger, configureLogging, getLoggingConfig, DEFAULT_REDACT_KEYS } from './Logger';
+export { ConsoleLogSink, FileLogSink, MemoryLogSink, formatLogLine } from './sinks';
+export {
+  REQUEST_ID_HEADER,
+  runWithRequestContext,
+  getRequestContext,
+  resolveRequestId,
+  requestContextMiddleware
+} from './requestContext';
+export { maskAddress, serializeError, toLogValue } from './redaction';
+
+export * from './types';
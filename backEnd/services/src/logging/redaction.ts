@@ -0,0 +1,72 @@
+/**
+ * Log Redaction
+ * Converts logged values to JSON-safe data and masks user addresses
+ */
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const MAX_DEPTH = 8;
+
+/**
+ * Mask an address down to its first and last bytes, enough to correlate without identifying the user
+ */
+export function maskAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+/**
+ * Describe an error without its own enumerable fields (ethers errors carry whole transactions)
+ */
+export function serializeError(error: unknown, includeStack: boolean): { name: string; message: string; stack?: string } {
+  if (error instanceof Error) {
+    return {
+      name: error.name,
+      message: error.message,
+      ...(includeStack && error.stack ? { stack: error.stack } : {})
+    };
+  }
+  return { name: 'Error', message: typeof error === 'string' ? error : JSON.stringify(toLogValue(error, new Set(), false)) };
+}
+
+/**
+ * Convert a value to JSON-safe data
+ * Bigints become decimal strings; values under a redacted key are masked.
+ * @param redactKeys Lower-cased field names whose values identify a user
+ * @param redact Whether redaction is enabled
+ */
+export function toLogValue(value: unknown, redactKeys: Set<string>, redact: boolean, depth: number = 0, seen: WeakSet<object> = new WeakSet()): unknown {
+  if (value === null || value === undefined) return value;
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'function' || typeof value === 'symbol') return undefined;
+  if (typeof value !== 'object') return value;
+
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Error) return serializeError(value, false);
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+  if (seen.has(value)) return '[Circular]';
+  seen.add(value);
+
+  let result: unknown;
+  if (Array.isArray(value)) {
+    result = value.map(item => toLogValue(item, redactKeys, redact, depth + 1, seen));
+  } else {
+    const entries = value instanceof Map ? Array.from(value.entries()) : Object.entries(value);
+    const fields: Record<string, unknown> = {};
+    for (const [key, item] of entries) {
+      const name = String(key);
+      fields[name] = redact && redactKeys.has(name.toLowerCase())
+        ? redactValue(item)
+        : toLogValue(item, redactKeys, redact, depth + 1, seen);
+    }
+    result = fields;
+  }
+
+  // Only ancestors count as circular; the same object may appear twice side by side
+  seen.delete(value);
+  return result;
+}
+
+function redactValue(value: unknown): unknown {
+  if (value === null || value === undefined) return value;
+  if (typeof value === 'string' && ADDRESS_PATTERN.test(value)) return maskAddress(value);
+  return '[Redacted]';
+}
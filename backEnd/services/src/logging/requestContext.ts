@@ -0,0 +1,50 @@
+/**
+ * Request Context
+ * Carries the request ID across async calls so every service logs it without threading it through
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { RequestContext } from './types';
+
+/** Header a caller can set to supply its own request ID; echoed on every response */
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+/** Accepted caller-supplied IDs: short, printable, no spaces */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function, and everything it awaits, inside a request context
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Context of the request being served, if any
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Use the caller's request ID when it is well formed, otherwise generate one
+ */
+export function resolveRequestId(header: unknown): string {
+  const value = Array.isArray(header) ? header[0] : header;
+  return typeof value === 'string' && REQUEST_ID_PATTERN.test(value) ? value : randomUUID();
+}
+
+/**
+ * Express middleware that opens a request context and echoes its ID
+ */
+export function requestContextMiddleware(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const requestId = resolveRequestId(req.headers[REQUEST_ID_HEADER]);
+    res.setHeader('X-Request-Id', requestId);
+    runWithRequestContext({ requestId }, next);
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Log Sinks
+ * Write structured entries as JSON lines to the console, a file or memory
+ */
+
+import * as fs from 'fs';
+import { LogEntry, LogSink } from './types';
+
+/**
+ * Serialize an entry as one JSON line
+ */
+export function formatLogLine(entry: LogEntry): string {
+  return `${JSON.stringify(entry)}\n`;
+}
+
+/**
+ * JSON lines on stdout, warnings and errors on stderr
+ */
+export class ConsoleLogSink implements LogSink {
+  write(entry: LogEntry): void {
+    const stream = entry.level === 'warn' || entry.level === 'error' ? process.stderr : process.stdout;
+    stream.write(formatLogLine(entry));
+  }
+}
+
+/**
+ * JSON lines appended to a file
+ */
+export class FileLogSink implements LogSink {
+  private stream: fs.WriteStream;
+
+  constructor(path: string) {
+    this.stream = fs.createWriteStream(path, { flags: 'a' });
+    this.stream.on('error', error => {
+      process.stderr.write(`Log file ${path} failed: ${error.message}\n`);
+    });
+  }
+
+  write(entry: LogEntry): void {
+    this.stream.write(formatLogLine(entry));
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this.stream.end(resolve));
+  }
+}
+
+/**
+ * Entries kept in memory, for tests and diagnostics endpoints
+ */
+export class MemoryLogSink implements LogSink {
+  readonly entries: LogEntry[] = [];
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 1000) {
+    this.maxEntries = maxEntries;
+  }
+
+  write(entry: LogEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.shift();
+    }
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Logging Types
+ * Structured log entries, sinks and logger configuration
+ */
+
+/**
+ * Log severity, lowest first
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Context attached to every entry a logger writes
+ */
+export interface LogContext {
+  /** Chain the work is for */
+  chainId?: number;
+
+  /** Correlation ID of the request being served */
+  requestId?: string;
+}
+
+/**
+ * One structured log line
+ */
+export interface LogEntry extends LogContext {
+  /** ISO 8601 timestamp */
+  timestamp: string;
+
+  /** Severity */
+  level: LogLevel;
+
+  /** Service that wrote the entry (e.g. 'RouterService') */
+  service: string;
+
+  /** Human readable message, without interpolated values */
+  message: string;
+
+  /** Structured values, redacted and JSON-safe */
+  data?: unknown;
+
+  /** Error details when an error was logged */
+  error?: {
+    name: string;
+    message: string;
+    stack?: string;
+  };
+}
+
+/**
+ * Destination for log entries
+ */
+export interface LogSink {
+  /** Write one entry; must not throw */
+  write(entry: LogEntry): void;
+
+  /** Flush and release resources */
+  close?(): Promise<void>;
+}
+
+/**
+ * Process-wide logging configuration
+ */
+export interface LoggingConfig {
+  /** Entries below this level are dropped */
+  level: LogLevel;
+
+  /** Where entries are written */
+  sinks: LogSink[];
+
+  /** Mask user addresses found under `redactKeys` */
+  redactAddresses: boolean;
+
+  /** Field names (case-insensitive) whose values identify a user */
+  redactKeys: string[];
+
+  /** Include stack traces of logged errors */
+  includeStacks: boolean;
+}
+
+/**
+ * Request-scoped context, propagated across async calls
+ */
+export interface RequestContext extends LogContext {
+  requestId: string;
+}
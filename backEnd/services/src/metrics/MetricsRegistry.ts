@@ -0,0 +1,311 @@
+/**
+ * Metrics Registry
+ * Counters, gauges and histograms with labels, exposed in the OpenMetrics text format
+ */
+
+import {
+  MetricType,
+  MetricLabels,
+  MetricDefinition,
+  HistogramDefinition,
+  MetricsCollector
+} from './types';
+import { Logger } from '../logging';
+
+const METRIC_NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * Base class of every metric family: one series per distinct label set
+ */
+abstract class Metric<S> {
+  abstract readonly type: MetricType;
+  readonly definition: MetricDefinition;
+  protected series: Map<string, { labels: Record<string, string>; state: S }> = new Map();
+
+  constructor(definition: MetricDefinition) {
+    if (!METRIC_NAME_PATTERN.test(definition.name)) {
+      throw new Error(`Invalid metric name: ${definition.name}`);
+    }
+    if (definition.unit && !definition.name.endsWith(`_${definition.unit}`)) {
+      throw new Error(`Metric ${definition.name} must end with its unit ${definition.unit}`);
+    }
+    const invalidLabel = definition.labelNames.find(label => !LABEL_NAME_PATTERN.test(label) || label === 'le');
+    if (invalidLabel) {
+      throw new Error(`Invalid label name for ${definition.name}: ${invalidLabel}`);
+    }
+
+    this.definition = definition;
+  }
+
+  /**
+   * Drop every series whose labels include the given values
+   * Used when a chain, pair or shard goes away so its series stop being exported.
+   */
+  remove(labels: MetricLabels = {}): void {
+    const entries = Object.entries(labels).map(([name, value]) => [name, String(value)]);
+    for (const [key, series] of Array.from(this.series.entries())) {
+      if (entries.every(([name, value]) => series.labels[name] === value)) {
+        this.series.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Render the family in the OpenMetrics text format
+   */
+  render(): string {
+    const { name, help, unit } = this.definition;
+    const lines = [`# TYPE ${name} ${this.type}`];
+    if (unit) {
+      lines.push(`# UNIT ${name} ${unit}`);
+    }
+    lines.push(`# HELP ${name} ${escape(help)}`);
+
+    for (const { labels, state } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, state));
+    }
+
+    return lines.join('\n');
+  }
+
+  protected abstract createState(): S;
+
+  protected abstract renderSeries(labels: Record<string, string>, state: S): string[];
+
+  protected findState(labels: MetricLabels): S | undefined {
+    return this.series.get(this.getKey(this.normalizeLabels(labels)))?.state;
+  }
+
+  protected getState(labels: MetricLabels): S {
+    const normalized = this.normalizeLabels(labels);
+    const key = this.getKey(normalized);
+
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: normalized, state: this.createState() };
+      this.series.set(key, series);
+    }
+    return series.state;
+  }
+
+  private getKey(labels: Record<string, string>): string {
+    return this.definition.labelNames.map(name => labels[name]).join('\u0000');
+  }
+
+  private normalizeLabels(labels: MetricLabels): Record<string, string> {
+    const normalized: Record<string, string> = {};
+    for (const name of this.definition.labelNames) {
+      if (labels[name] === undefined) {
+        throw new Error(`Missing label ${name} for metric ${this.definition.name}`);
+      }
+      normalized[name] = String(labels[name]);
+    }
+
+    const unknown = Object.keys(labels).find(name => !this.definition.labelNames.includes(name));
+    if (unknown) {
+      throw new Error(`Unknown label ${unknown} for metric ${this.definition.name}`);
+    }
+
+    return normalized;
+  }
+}
+
+/**
+ * Monotonically increasing count, exported as `<name>_total`
+ */
+export class Counter extends Metric<{ value: number }> {
+  readonly type = 'counter' as const;
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.definition.name} cannot decrease`);
+    }
+    this.getState(labels).value += value;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.findState(labels)?.value ?? 0;
+  }
+
+  protected createState() {
+    return { value: 0 };
+  }
+
+  protected renderSeries(labels: Record<string, string>, state: { value: number }): string[] {
+    return [`${this.definition.name}_total${formatLabels(labels)} ${formatValue(state.value)}`];
+  }
+}
+
+/**
+ * Value that can go up and down
+ */
+export class Gauge extends Metric<{ value: number }> {
+  readonly type = 'gauge' as const;
+
+  set(labels: MetricLabels, value: number): void {
+    this.getState(labels).value = value;
+  }
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    this.getState(labels).value += value;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.findState(labels)?.value ?? 0;
+  }
+
+  protected createState() {
+    return { value: 0 };
+  }
+
+  protected renderSeries(labels: Record<string, string>, state: { value: number }): string[] {
+    return [`${this.definition.name}${formatLabels(labels)} ${formatValue(state.value)}`];
+  }
+}
+
+interface HistogramState {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribution of observations in cumulative buckets
+ */
+export class Histogram extends Metric<HistogramState> {
+  readonly type = 'histogram' as const;
+  private buckets: number[];
+
+  constructor(definition: HistogramDefinition) {
+    super(definition);
+    const buckets = definition.buckets.filter(bound => bound !== Infinity);
+    if (buckets.some((bound, i) => i > 0 && bound <= buckets[i - 1])) {
+      throw new Error(`Histogram ${definition.name} buckets must be ascending`);
+    }
+    this.buckets = buckets;
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const state = this.getState(labels);
+    const index = this.buckets.findIndex(bound => value <= bound);
+    state.counts[index === -1 ? this.buckets.length : index]++;
+    state.sum += value;
+    state.count++;
+  }
+
+  protected createState(): HistogramState {
+    return { counts: new Array(this.buckets.length + 1).fill(0), sum: 0, count: 0 };
+  }
+
+  protected renderSeries(labels: Record<string, string>, state: HistogramState): string[] {
+    const { name } = this.definition;
+    const lines: string[] = [];
+
+    let cumulative = 0;
+    [...this.buckets, Infinity].forEach((bound, i) => {
+      cumulative += state.counts[i];
+      // OpenMetrics wants canonical bucket bounds, so whole numbers keep a `.0`
+      const le = Number.isInteger(bound) ? bound.toFixed(1) : formatValue(bound);
+      lines.push(`${name}_bucket${formatLabels({ ...labels, le })} ${cumulative}`);
+    });
+    lines.push(`${name}_sum${formatLabels(labels)} ${formatValue(state.sum)}`);
+    lines.push(`${name}_count${formatLabels(labels)} ${state.count}`);
+
+    return lines;
+  }
+}
+
+/**
+ * Registry of metric families
+ *
+ * Event-driven metrics are updated as they happen; values that live in services
+ * (reserves, breaker states) are refreshed by collectors right before each scrape.
+ */
+export class MetricsRegistry {
+  private logger = new Logger('MetricsRegistry');
+  private metrics: Map<string, Metric<unknown>> = new Map();
+  private collectors: Set<MetricsCollector> = new Set();
+
+  /**
+   * Get or create a counter
+   */
+  counter(definition: MetricDefinition): Counter {
+    return this.getOrCreate(definition, () => new Counter(definition));
+  }
+
+  /**
+   * Get or create a gauge
+   */
+  gauge(definition: MetricDefinition): Gauge {
+    return this.getOrCreate(definition, () => new Gauge(definition));
+  }
+
+  /**
+   * Get or create a histogram
+   */
+  histogram(definition: HistogramDefinition): Histogram {
+    return this.getOrCreate(definition, () => new Histogram(definition));
+  }
+
+  /**
+   * Run a callback before every scrape
+   * @returns Function that unregisters the collector
+   */
+  registerCollector(collector: MetricsCollector): () => void {
+    this.collectors.add(collector);
+    return () => {
+      this.collectors.delete(collector);
+    };
+  }
+
+  /**
+   * Run the collectors and render every family
+   * A failing collector is logged and leaves its metrics as they were.
+   */
+  async render(): Promise<string> {
+    for (const collector of Array.from(this.collectors)) {
+      try {
+        await collector();
+      } catch (error) {
+        this.logger.error('Metrics collector failed', error);
+      }
+    }
+
+    const families = Array.from(this.metrics.values()).map(metric => metric.render());
+    return `${[...families, '# EOF'].join('\n')}\n`;
+  }
+
+  private getOrCreate<M extends Metric<any>>(definition: MetricDefinition, create: () => M): M {
+    const existing = this.metrics.get(definition.name);
+    if (existing) {
+      if (existing.definition.labelNames.join(',') !== definition.labelNames.join(',')) {
+        throw new Error(`Metric ${definition.name} is already registered with different labels`);
+      }
+      return existing as M;
+    }
+
+    const metric = create();
+    this.metrics.set(definition.name, metric);
+    return metric;
+  }
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+
+  const formatted = entries.map(([name, value]) => `${name}="${escape(value)}"`);
+  return `{${formatted.join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  if (Number.isNaN(value)) return 'NaN';
+  return String(value);
+}
+
+function escape(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,8 @@
+/**
+ * Metrics - Main Export
+ * Metrics registry and OpenMetrics text exposition for the router services
+ */
+
+export { MetricsRegistry, Counter, Gauge, Histogram } from './MetricsRegistry';
+
+export * from './types';
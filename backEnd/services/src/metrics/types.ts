@@ -0,0 +1,50 @@
+/**
+ * Metrics Types
+ * Metric definitions and samples rendered in the OpenMetrics text format
+ */
+
+/**
+ * OpenMetrics metric family type
+ */
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * Label values keyed by label name
+ */
+export type MetricLabels = Record<string, string | number>;
+
+/**
+ * Metric family definition
+ */
+export interface MetricDefinition {
+  /** Family name, without the `_total` suffix for counters */
+  name: string;
+
+  /** Help text */
+  help: string;
+
+  /** Unit suffix of the name (e.g. 'seconds'), if any */
+  unit?: string;
+
+  /** Names of the labels every sample carries */
+  labelNames: string[];
+}
+
+/**
+ * Histogram definition
+ */
+export interface HistogramDefinition extends MetricDefinition {
+  /** Upper bounds of the buckets, ascending; `+Inf` is added automatically */
+  buckets: number[];
+}
+
+/**
+ * Callback run before every scrape to refresh gauges read from services
+ */
+export type MetricsCollector = () => void | Promise<void>;
+
+/** Content type of the OpenMetrics text exposition format */
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+/** Default latency buckets in seconds */
+export const DEFAULT_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
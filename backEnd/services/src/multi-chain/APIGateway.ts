@@ -2,10 +2,18 @@ import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
+import { Server as HttpServer } from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
 import { MultiChainBackend } from './MultiChainBackend';
 import { ChainSpecificRouter } from './ChainSpecificRouter';
+import { PoolUpdatesWebSocketServer } from './PoolUpdatesWebSocketServer';
+import { ApiKeyManager } from './ApiKeyManager';
+import { GatewayMetrics } from './GatewayMetrics';
+import { ChainConfigReloader } from './ChainConfigReloader';
+import { getChainEndpointName, serializeChainConfig } from './ChainConfigSchema';
+import { OPENMETRICS_CONTENT_TYPE } from '../metrics';
 import { ChainRequestContext, ChainResponse, ChainRateLimitConfig, ChainAuthConfig } from './types';
-import { v4 as uuidv4 } from 'uuid';
+import { Logger, requestContextMiddleware, getRequestContext } from '../logging';
 
 /**
  * API Gateway for Multi-Chain Backend
@@ -14,18 +22,33 @@ import { v4 as uuidv4 } from 'uuid';
  * Maintains complete isolation between chains.
  */
 export class APIGateway {
+  private logger = new Logger('APIGateway');
   private app: express.Application;
   private multiChainBackend: MultiChainBackend;
   private chainSpecificRouter: ChainSpecificRouter;
+  private poolUpdatesServer: PoolUpdatesWebSocketServer;
+  private apiKeyManager: ApiKeyManager;
+  private metrics: GatewayMetrics;
+  private chainConfigReloader: ChainConfigReloader;
+  private chainMounts: Map<string, { chainId: number; router: express.Router }> = new Map();
   private chainRateLimiters: Map<number, any> = new Map();
   private chainAuthConfigs: Map<number, ChainAuthConfig> = new Map();
 
-  constructor(multiChainBackend: MultiChainBackend) {
+  constructor(
+    multiChainBackend: MultiChainBackend,
+    apiKeyManager: ApiKeyManager = new ApiKeyManager(),
+    chainConfigReloader: ChainConfigReloader = new ChainConfigReloader(multiChainBackend)
+  ) {
     this.app = express();
     this.multiChainBackend = multiChainBackend;
-    this.chainSpecificRouter = new ChainSpecificRouter(multiChainBackend);
+    this.apiKeyManager = apiKeyManager;
+    this.chainConfigReloader = chainConfigReloader;
+    this.chainSpecificRouter = new ChainSpecificRouter(multiChainBackend, apiKeyManager);
+    this.poolUpdatesServer = new PoolUpdatesWebSocketServer(multiChainBackend, apiKeyManager);
+    this.metrics = new GatewayMetrics(multiChainBackend);
     this.setupMiddleware();
     this.setupRoutes();
+    this.followChainConfigChanges();
   }
 
   /**
@@ -35,6 +58,27 @@ export class APIGateway {
     return this.app;
   }
 
+  /**
+   * Get the API key manager
+   */
+  getApiKeyManager(): ApiKeyManager {
+    return this.apiKeyManager;
+  }
+
+  /**
+   * Stream shard and quote updates over WebSocket on the HTTP server
+   */
+  attachWebSocketServer(server: HttpServer): void {
+    this.poolUpdatesServer.attach(server);
+  }
+
+  /**
+   * Close WebSocket connections
+   */
+  async close(): Promise<void> {
+    await this.poolUpdatesServer.close();
+  }
+
   /**
    * Setup global middleware
    */
@@ -50,12 +94,21 @@ export class APIGateway {
     this.app.use(express.json({ limit: '10mb' }));
     this.app.use(express.urlencoded({ extended: true }));
 
-    // Request ID and logging
+    // Request ID (taken from x-request-id when valid) and logging
+    this.app.use(requestContextMiddleware());
     this.app.use((req: Request, res: Response, next: NextFunction) => {
-      req.id = uuidv4();
+      req.id = getRequestContext()?.requestId;
       req.timestamp = new Date();
       
-      console.log(`[${req.id}] ${req.method} ${req.path} - ${req.ip}`);
+      this.logger.info('Request received', { method: req.method, path: req.path, ip: req.ip });
+      res.on('finish', () => {
+        this.logger.info('Request completed', {
+          method: req.method,
+          path: req.path,
+          status: res.statusCode,
+          durationMs: Date.now() - req.timestamp!.getTime()
+        });
+      });
       next();
     });
 
@@ -77,9 +130,15 @@ export class APIGateway {
     // Health check endpoint
     this.app.get('/health', this.handleHealthCheck.bind(this));
 
+    // Prometheus / OpenMetrics scrape endpoint
+    this.app.get('/metrics', this.handleMetrics.bind(this));
+
     // Multi-chain status endpoint
     this.app.get('/api/chains', this.handleChainsStatus.bind(this));
 
+    // API key administration
+    this.setupAdminRoutes();
+
     // Chain-specific routes using ChainSpecificRouter
     this.setupChainSpecificRoutes();
 
@@ -98,53 +157,107 @@ export class APIGateway {
 
   /**
    * Setup chain-specific routes
+   * Chain routers are looked up per request, so chains added or removed at runtime
+   * are served (or not) without remounting anything in front of the 404 handler.
    */
   private setupChainSpecificRoutes(): void {
     const supportedChains = this.multiChainBackend.getSupportedChains();
     
     for (const chainId of supportedChains) {
-      const config = this.multiChainBackend.getChainConfig(chainId);
-      const chainName = this.getChainEndpointName(config.name);
-      
-      // Create chain-specific router
-      const chainRouter = this.chainSpecificRouter.createChainRouter(chainId);
-      
-      // Mount chain router at chain-specific path
-      this.app.use(`/api/${chainName}`, chainRouter);
-      
-      console.log(`Mounted API routes for chain ${chainId} at /api/${chainName}`);
+      this.mountChain(chainId);
     }
+
+    this.app.use('/api/:chainName', (req: Request, res: Response, next: NextFunction) => {
+      const mount = this.chainMounts.get(req.params.chainName);
+      if (!mount) return next();
+      mount.router(req, res, next);
+    });
   }
 
   /**
-   * Add support for new chain
+   * Serve a chain's router at its endpoint name
    */
-  addChainSupport(chainId: number): void {
+  private mountChain(chainId: number): void {
     const config = this.multiChainBackend.getChainConfig(chainId);
-    const chainName = this.getChainEndpointName(config.name);
+    const chainName = getChainEndpointName(config.name);
     
-    // Create and mount chain-specific router
+    // Create chain-specific router
     const chainRouter = this.chainSpecificRouter.createChainRouter(chainId);
-    this.app.use(`/api/${chainName}`, chainRouter);
     
-    console.log(`Added API support for chain ${chainId} at /api/${chainName}`);
+    // Mount chain router at chain-specific path
+    this.chainMounts.set(chainName, { chainId, router: chainRouter });
+    this.metrics.observeChain(chainId);
+    
+    this.logger.info('Mounted chain API routes', { chainId, path: `/api/${chainName}` });
   }
 
   /**
-   * Remove support for a chain
+   * Stop serving a chain's router
    */
-  removeChainSupport(chainId: number): void {
-    this.chainSpecificRouter.removeChainRouter(chainId);
-    console.log(`Removed API support for chain ${chainId}`);
+  private unmountChain(chainId: number): void {
+    for (const [chainName, mount] of Array.from(this.chainMounts.entries())) {
+      if (mount.chainId === chainId) {
+        this.chainMounts.delete(chainName);
+      }
+    }
   }
 
   /**
-   * Get chain endpoint name (URL-friendly)
+   * Mount, unmount and refresh chains as the chain configuration reloads
    */
-  private getChainEndpointName(chainName: string): string {
-    return chainName.toLowerCase().replace(/\s+/g, '-');
+  private followChainConfigChanges(): void {
+    this.chainConfigReloader.on('chain-added', ({ chainId }) => this.addChainSupport(chainId));
+    this.chainConfigReloader.on('chain-removed', ({ chainId }) => this.removeChainSupport(chainId));
+    this.chainConfigReloader.on('chain-updated', ({ chainId }) => {
+      // The name may have changed, and rebuilt services need fresh listeners
+      this.unmountChain(chainId);
+      this.metrics.unobserveChain(chainId);
+      this.mountChain(chainId);
+      this.poolUpdatesServer.refreshChain(chainId);
+    });
   }
 
+  /**
+   * Setup API key administration routes
+   * Every admin request needs the `ADMIN_API_KEY` value in the `x-admin-key` header.
+   */
+  private setupAdminRoutes(): void {
+    const admin = express.Router();
+    admin.use(this.adminAuthMiddleware.bind(this));
+
+    admin.get('/api-keys', this.handleListApiKeys.bind(this));
+    admin.post('/api-keys', this.handleIssueApiKey.bind(this));
+    admin.get('/api-keys/:id', this.handleGetApiKey.bind(this));
+    admin.post('/api-keys/:id/rotate', this.handleRotateApiKey.bind(this));
+    admin.delete('/api-keys/:id', this.handleRevokeApiKey.bind(this));
+
+    admin.get('/chain-config', this.handleGetChainConfig.bind(this));
+    admin.put('/chain-config', this.handleUpdateChainConfig.bind(this));
+
+    this.app.use('/api/admin', admin);
+  }
+
+  /**
+   * Add support for new chain
+   */
+  addChainSupport(chainId: number): void {
+    this.mountChain(chainId);
+    this.logger.info('Added chain API support', { chainId });
+  }
+
+  /**
+   * Remove support for a chain
+   */
+  removeChainSupport(chainId: number): void {
+    this.unmountChain(chainId);
+    this.chainSpecificRouter.removeChainRouter(chainId);
+    this.poolUpdatesServer.removeChain(chainId);
+    this.metrics.unobserveChain(chainId);
+    this.logger.info('Removed chain API support', { chainId });
+  }
+
+
+
 
 
   /**
@@ -181,10 +294,11 @@ export class APIGateway {
           acc[chainId] = health;
           return acc;
         }, {} as any),
+        webSocket: this.poolUpdatesServer.getStats(),
         timestamp: new Date()
       });
     } catch (error) {
-      console.error('Health check error:', error);
+      this.logger.error('Health check failed', error);
       res.status(500).json({
         success: false,
         error: 'Health check failed',
@@ -193,6 +307,20 @@ export class APIGateway {
     }
   }
 
+  /**
+   * Handle metrics scrapes
+   */
+  private async handleMetrics(req: Request, res: Response): Promise<void> {
+    try {
+      const body = await this.metrics.getRegistry().render();
+      res.setHeader('Content-Type', OPENMETRICS_CONTENT_TYPE);
+      res.send(body);
+    } catch (error) {
+      this.logger.error('Failed to render metrics', error);
+      res.status(500).send('# Failed to render metrics\n');
+    }
+  }
+
   /**
    * Handle chains status requests
    */
@@ -222,7 +350,7 @@ export class APIGateway {
         timestamp: new Date()
       });
     } catch (error) {
-      console.error('Chains status error:', error);
+      this.logger.error('Failed to get chains status', error);
       this.sendErrorResponse(res, 500, 'Failed to get chains status', null);
     }
   }
@@ -231,6 +359,134 @@ export class APIGateway {
 
 
 
+  /**
+   * Reject admin requests without the admin key
+   */
+  private adminAuthMiddleware(req: Request, res: Response, next: NextFunction): void {
+    const adminKey = process.env.ADMIN_API_KEY;
+    if (!adminKey) {
+      return this.sendErrorResponse(res, 403, 'Admin API is disabled', null);
+    }
+
+    const provided = req.headers['x-admin-key'];
+    if (typeof provided !== 'string') {
+      return this.sendErrorResponse(res, 401, 'Invalid or missing admin key', null);
+    }
+
+    // Compare digests so the comparison takes the same time for any input length
+    const expected = createHash('sha256').update(adminKey).digest();
+    const actual = createHash('sha256').update(provided).digest();
+    if (!timingSafeEqual(expected, actual)) {
+      return this.sendErrorResponse(res, 401, 'Invalid or missing admin key', null);
+    }
+
+    next();
+  }
+
+  /**
+   * Handle API key list requests
+   */
+  private handleListApiKeys(req: Request, res: Response): void {
+    this.sendSuccessResponse(res, this.apiKeyManager.listKeys(), 0);
+  }
+
+  /**
+   * Handle API key issue requests
+   */
+  private handleIssueApiKey(req: Request, res: Response): void {
+    try {
+      const issued = this.apiKeyManager.issueKey(req.body || {});
+      res.status(201);
+      this.sendSuccessResponse(res, issued, 0);
+    } catch (error) {
+      this.sendErrorResponse(res, 400, error instanceof Error ? error.message : 'Invalid API key request', null);
+    }
+  }
+
+  /**
+   * Handle API key usage requests
+   */
+  private handleGetApiKey(req: Request, res: Response): void {
+    const key = this.apiKeyManager.getKey(req.params.id);
+    if (!key) {
+      return this.sendErrorResponse(res, 404, `API key ${req.params.id} not found`, null);
+    }
+    this.sendSuccessResponse(res, key, 0);
+  }
+
+  /**
+   * Handle API key rotation requests
+   */
+  private handleRotateApiKey(req: Request, res: Response): void {
+    try {
+      const gracePeriodMs = req.body?.gracePeriodMs;
+      if (gracePeriodMs !== undefined && (typeof gracePeriodMs !== 'number' || gracePeriodMs < 0)) {
+        return this.sendErrorResponse(res, 400, 'gracePeriodMs must be a non-negative number', null);
+      }
+
+      const issued = this.apiKeyManager.rotateKey(req.params.id, gracePeriodMs);
+      if (!issued) {
+        return this.sendErrorResponse(res, 404, `API key ${req.params.id} not found`, null);
+      }
+      res.status(201);
+      this.sendSuccessResponse(res, issued, 0);
+    } catch (error) {
+      this.sendErrorResponse(res, 409, error instanceof Error ? error.message : 'API key rotation failed', null);
+    }
+  }
+
+  /**
+   * Handle chain configuration requests: running chains and the last reload
+   */
+  private handleGetChainConfig(req: Request, res: Response): void {
+    this.sendSuccessResponse(res, {
+      chains: this.chainConfigReloader.getCurrentConfigs().map(serializeChainConfig),
+      lastReload: this.chainConfigReloader.getLastResult()
+    }, 0);
+  }
+
+  /**
+   * Handle chain configuration updates
+   * The body is a whole configuration document. `?dryRun=true` only validates and diffs;
+   * `?persist=true` also writes the document to the configuration file.
+   */
+  private async handleUpdateChainConfig(req: Request, res: Response): Promise<void> {
+    try {
+      const dryRun = req.query.dryRun === 'true';
+      const result = await this.chainConfigReloader.apply(req.body, 'admin', dryRun);
+
+      if (result.status === 'rejected') {
+        res.status(422).json({
+          success: false,
+          chainId: 0,
+          error: 'Invalid chain configuration',
+          data: result,
+          timestamp: new Date(),
+          requestId: req.id
+        });
+        return;
+      }
+
+      if (!dryRun && req.query.persist === 'true') {
+        await this.chainConfigReloader.save(req.body);
+      }
+      this.sendSuccessResponse(res, result, 0);
+    } catch (error) {
+      this.sendErrorResponse(res, 500, error instanceof Error ? error.message : 'Chain configuration update failed', null);
+    }
+  }
+
+  /**
+   * Handle API key revocation requests
+   */
+  private handleRevokeApiKey(req: Request, res: Response): void {
+    const key = this.apiKeyManager.revokeKey(req.params.id);
+    if (!key) {
+      return this.sendErrorResponse(res, 404, `API key ${req.params.id} not found`, null);
+    }
+    this.sendSuccessResponse(res, key, 0);
+  }
+
   /**
    * Send success response
    */
@@ -265,7 +521,7 @@ export class APIGateway {
    * Error handler middleware
    */
   private errorHandler(error: Error, req: Request, res: Response, next: NextFunction): void {
-    console.error('Unhandled error:', error);
+    this.logger.error('Unhandled error', error);
     
     this.sendErrorResponse(res, 500, 'Internal server error', req.chainContext?.chainId || null);
   }
@@ -0,0 +1,306 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { PersistenceStore } from '../persistence';
+import {
+  ApiKeyIssueRequest,
+  ApiKeyManagerConfig,
+  ApiKeyQuota,
+  ApiKeyQuotaDecision,
+  ApiKeyRecord,
+  ApiKeyScope,
+  ApiKeySummary,
+  ApiKeyUsage,
+  IssuedApiKey
+} from './types';
+import { Logger } from '../logging';
+
+/** Persistence namespaces owned by the key manager */
+const KEYS_NAMESPACE = 'gateway:api-keys';
+const USAGE_NAMESPACE = 'gateway:api-key-usage';
+
+/** Prefix of every issued key: `samm_<id>_<secret>` */
+const KEY_PREFIX = 'samm';
+
+const API_KEY_SCOPES: ApiKeyScope[] = ['quote', 'execute'];
+
+const QUOTA_FIELDS: Array<keyof ApiKeyQuota> = ['windowMs', 'maxRequests', 'maxComputeUnits'];
+
+const DEFAULT_CONFIG: ApiKeyManagerConfig = {
+  defaultQuota: {
+    windowMs: 15 * 60 * 1000,
+    maxRequests: 1000,
+    maxComputeUnits: 5000
+  },
+  rotationGracePeriodMs: 24 * 60 * 60 * 1000
+};
+
+/**
+ * API Key Manager
+ *
+ * Issues, revokes and rotates API keys for gateway integrators, and charges
+ * every request against the key's request and compute quotas.
+ */
+export class ApiKeyManager {
+  private logger = new Logger('ApiKeyManager');
+  private config: ApiKeyManagerConfig;
+  private persistence?: PersistenceStore;
+  private keys: Map<string, ApiKeyRecord> = new Map();
+  private usage: Map<string, ApiKeyUsage> = new Map();
+
+  constructor(config: Partial<ApiKeyManagerConfig> = {}, persistence?: PersistenceStore) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.persistence = persistence;
+  }
+
+  /**
+   * Load keys and usage saved by a previous run
+   */
+  async restore(): Promise<void> {
+    if (!this.persistence) return;
+
+    try {
+      const keys = await this.persistence.getCacheEntries<ApiKeyRecord>(KEYS_NAMESPACE);
+      for (const entry of keys) {
+        this.keys.set(entry.key, entry.value);
+      }
+
+      const usage = await this.persistence.getCacheEntries<ApiKeyUsage>(USAGE_NAMESPACE);
+      for (const entry of usage) {
+        this.usage.set(entry.key, entry.value);
+      }
+    } catch (error) {
+      this.logger.error('Failed to restore API keys from persistence', error);
+    }
+  }
+
+  /**
+   * Issue a new key
+   * @returns The plaintext key, which cannot be recovered later
+   */
+  issueKey(request: ApiKeyIssueRequest): IssuedApiKey {
+    if (!request.name || typeof request.name !== 'string') {
+      throw new Error('API key name is required');
+    }
+    if (!Array.isArray(request.scopes) || request.scopes.length === 0) {
+      throw new Error('At least one API key scope is required');
+    }
+    const invalidScope = request.scopes.find(scope => !API_KEY_SCOPES.includes(scope));
+    if (invalidScope) {
+      throw new Error(`Unknown API key scope: ${invalidScope}`);
+    }
+
+    // Only known fields are taken from the request, each checked before it replaces the default
+    const quota = { ...this.config.defaultQuota };
+    for (const field of QUOTA_FIELDS) {
+      const value = request.quota?.[field];
+      if (value === undefined) continue;
+      if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+        throw new Error(`API key quota ${field} must be a positive finite number`);
+      }
+      quota[field] = value;
+    }
+
+    const chainIds = request.chainIds ?? [];
+    if (!Array.isArray(chainIds) || chainIds.some(chainId => !Number.isSafeInteger(chainId) || chainId <= 0)) {
+      throw new Error('API key chainIds must be an array of positive integer chain IDs');
+    }
+
+    const id = randomBytes(6).toString('hex');
+    const secret = randomBytes(24).toString('hex');
+    const record: ApiKeyRecord = {
+      id,
+      name: request.name,
+      keyHash: this.hashSecret(secret),
+      scopes: Array.from(new Set(request.scopes)),
+      chainIds: Array.from(new Set(chainIds)),
+      quota,
+      createdAt: Date.now(),
+      revokedAt: null,
+      rotatedTo: null,
+      lastUsedAt: null
+    };
+
+    this.keys.set(id, record);
+    this.saveKey(record);
+    this.logger.info('Issued API key', { keyId: id, name: record.name });
+
+    return { apiKey: `${KEY_PREFIX}_${id}_${secret}`, key: this.summarize(record) };
+  }
+
+  /**
+   * Revoke a key immediately
+   * @returns The revoked key, or null if it does not exist
+   */
+  revokeKey(id: string): ApiKeySummary | null {
+    const record = this.keys.get(id);
+    if (!record) return null;
+
+    const now = Date.now();
+    if (record.revokedAt === null || record.revokedAt > now) {
+      record.revokedAt = now;
+      this.saveKey(record);
+      this.logger.info('Revoked API key', { keyId: id, name: record.name });
+    }
+
+    return this.summarize(record);
+  }
+
+  /**
+   * Replace a key with a new one carrying the same name, scopes, chains and quota
+   * The old key keeps working for the grace period so the integrator can deploy the new one.
+   * @returns The replacement key, or null if the key does not exist
+   */
+  rotateKey(id: string, gracePeriodMs: number = this.config.rotationGracePeriodMs): IssuedApiKey | null {
+    const record = this.keys.get(id);
+    if (!record) return null;
+    if (!this.isActive(record)) {
+      throw new Error(`API key ${id} is revoked`);
+    }
+
+    const issued = this.issueKey({
+      name: record.name,
+      scopes: record.scopes,
+      chainIds: record.chainIds,
+      quota: record.quota
+    });
+
+    record.rotatedTo = issued.key.id;
+    record.revokedAt = Date.now() + Math.max(0, gracePeriodMs);
+    this.saveKey(record);
+    this.logger.info('Rotated API key', { keyId: id, rotatedTo: issued.key.id });
+
+    return issued;
+  }
+
+  /**
+   * Look up the active key matching a plaintext key
+   */
+  authenticate(apiKey: string): ApiKeyRecord | null {
+    const [prefix, id, secret, ...rest] = apiKey.split('_');
+    if (prefix !== KEY_PREFIX || !id || !secret || rest.length > 0) return null;
+
+    const record = this.keys.get(id);
+    if (!record || !this.isActive(record)) return null;
+
+    const expected = Buffer.from(record.keyHash, 'hex');
+    const actual = Buffer.from(this.hashSecret(secret), 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual) ? record : null;
+  }
+
+  /**
+   * Whether a key may call a chain with a scope
+   */
+  isAuthorized(record: ApiKeyRecord, scope: ApiKeyScope, chainId: number): boolean {
+    if (!record.scopes.includes(scope)) return false;
+    return record.chainIds.length === 0 || record.chainIds.includes(chainId);
+  }
+
+  /**
+   * Charge a request to a key
+   * Rejected requests are counted but do not consume quota.
+   * @param route Route label used for usage accounting
+   * @param computeUnits Compute cost of the route
+   */
+  charge(record: ApiKeyRecord, route: string, computeUnits: number): ApiKeyQuotaDecision {
+    const now = Date.now();
+    const usage = this.getOrCreateUsage(record.id);
+
+    if (now - usage.windowStart >= record.quota.windowMs) {
+      usage.windowStart = now;
+      usage.windowRequests = 0;
+      usage.windowComputeUnits = 0;
+    }
+
+    let reason: ApiKeyQuotaDecision['reason'];
+    if (usage.windowRequests + 1 > record.quota.maxRequests) {
+      reason = 'requests';
+    } else if (usage.windowComputeUnits + computeUnits > record.quota.maxComputeUnits) {
+      reason = 'compute';
+    }
+
+    if (reason) {
+      usage.rejectedRequests++;
+    } else {
+      usage.windowRequests++;
+      usage.windowComputeUnits += computeUnits;
+      usage.totalRequests++;
+      usage.totalComputeUnits += computeUnits;
+      usage.routes[route] = (usage.routes[route] || 0) + 1;
+    }
+
+    record.lastUsedAt = now;
+    this.saveKey(record);
+    this.saveUsage(usage);
+
+    return {
+      allowed: !reason,
+      reason,
+      remainingRequests: Math.max(0, record.quota.maxRequests - usage.windowRequests),
+      remainingComputeUnits: Math.max(0, record.quota.maxComputeUnits - usage.windowComputeUnits),
+      resetAt: usage.windowStart + record.quota.windowMs
+    };
+  }
+
+  /**
+   * Get a key with its usage
+   */
+  getKey(id: string): ApiKeySummary | null {
+    const record = this.keys.get(id);
+    return record ? this.summarize(record) : null;
+  }
+
+  /**
+   * List every key with its usage, newest first
+   */
+  listKeys(): ApiKeySummary[] {
+    return Array.from(this.keys.values())
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(record => this.summarize(record));
+  }
+
+  /**
+   * Whether a key has not been revoked and its rotation grace period has not ended
+   */
+  isActive(record: ApiKeyRecord, now: number = Date.now()): boolean {
+    return record.revokedAt === null || record.revokedAt > now;
+  }
+
+  // Private methods
+
+  private hashSecret(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  private getOrCreateUsage(keyId: string): ApiKeyUsage {
+    let usage = this.usage.get(keyId);
+    if (!usage) {
+      usage = {
+        keyId,
+        windowStart: Date.now(),
+        windowRequests: 0,
+        windowComputeUnits: 0,
+        totalRequests: 0,
+        totalComputeUnits: 0,
+        rejectedRequests: 0,
+        routes: {}
+      };
+      this.usage.set(keyId, usage);
+    }
+    return usage;
+  }
+
+  private summarize(record: ApiKeyRecord): ApiKeySummary {
+    const { keyHash, ...key } = record;
+    const usage = this.getOrCreateUsage(record.id);
+    return { ...key, usage: { ...usage, routes: { ...usage.routes } } };
+  }
+
+  private saveKey(record: ApiKeyRecord): void {
+    this.persistence?.setCacheEntry(KEYS_NAMESPACE, record.id, record)
+      .catch(error => this.logger.error('Failed to persist API key', error));
+  }
+
+  private saveUsage(usage: ApiKeyUsage): void {
+    this.persistence?.setCacheEntry(USAGE_NAMESPACE, usage.keyId, usage)
+      .catch(error => this.logger.error('Failed to persist API key usage', error));
+  }
+}
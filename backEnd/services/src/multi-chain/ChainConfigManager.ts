@@ -1,6 +1,13 @@
 import { ChainConfig } from './types';
 import * as fs from 'fs';
 import * as path from 'path';
+import { Logger } from '../logging';
+import {
+  ChainConfigValidationError,
+  serializeChainConfig,
+  validateChainConfig,
+  validateChainConfigDocument
+} from './ChainConfigSchema';
 
 /**
  * Chain Configuration Manager
@@ -9,6 +16,7 @@ import * as path from 'path';
  * Each chain has its own configuration that cannot affect others.
  */
 export class ChainConfigManager {
+  private logger = new Logger('ChainConfigManager');
   private chainConfigs: Map<number, ChainConfig> = new Map();
   private configFilePath: string;
 
@@ -31,7 +39,7 @@ export class ChainConfigManager {
     // Store configuration with complete isolation
     this.chainConfigs.set(chainId, { ...config });
     
-    console.log(`Added configuration for chain ${chainId} (${config.name})`);
+    this.logger.info('Added chain configuration', { chainId, name: config.name });
   }
 
   /**
@@ -60,7 +68,7 @@ export class ChainConfigManager {
     // Update with complete isolation
     this.chainConfigs.set(chainId, updatedConfig);
     
-    console.log(`Updated configuration for chain ${chainId}`);
+    this.logger.info('Updated chain configuration', { chainId });
   }
 
   /**
@@ -72,7 +80,7 @@ export class ChainConfigManager {
     }
 
     this.chainConfigs.delete(chainId);
-    console.log(`Removed configuration for chain ${chainId}`);
+    this.logger.info('Removed chain configuration', { chainId });
   }
 
   /**
@@ -113,7 +121,7 @@ export class ChainConfigManager {
         // Use chain name as key for readability
         const key = config.name.toLowerCase().replace(/\s+/g, '_');
         configData[key] = {
-          ...config,
+          ...serializeChainConfig(config),
           chainId // Ensure chainId is included
         };
       }
@@ -124,9 +132,9 @@ export class ChainConfigManager {
       }
 
       fs.writeFileSync(this.configFilePath, JSON.stringify(configData, null, 2));
-      console.log(`Saved chain configurations to ${this.configFilePath}`);
+      this.logger.info('Saved chain configurations', { path: this.configFilePath });
     } catch (error) {
-      console.error('Failed to save chain configurations:', error);
+      this.logger.error('Failed to save chain configurations', error);
       throw new Error(`Configuration save failed: ${error.message}`);
     }
   }
@@ -137,25 +145,23 @@ export class ChainConfigManager {
   private loadConfigurations(): void {
     try {
       if (!fs.existsSync(this.configFilePath)) {
-        console.log(`Configuration file not found: ${this.configFilePath}`);
+        this.logger.info('Configuration file not found', { path: this.configFilePath });
         return;
       }
 
       const configData = JSON.parse(fs.readFileSync(this.configFilePath, 'utf8'));
+      const { configs, issues } = validateChainConfigDocument(configData);
       
-      for (const [key, config] of Object.entries(configData)) {
-        const chainConfig = config as ChainConfig;
-        
-        if (chainConfig.chainId) {
-          this.validateChainConfig(chainConfig);
-          this.chainConfigs.set(chainConfig.chainId, chainConfig);
-          console.log(`Loaded configuration for chain ${chainConfig.chainId} (${chainConfig.name})`);
-        } else {
-          console.warn(`Skipping invalid configuration for ${key}: missing chainId`);
-        }
+      // Valid chains are loaded even if others in the file are not
+      for (const chainConfig of configs) {
+        this.chainConfigs.set(chainConfig.chainId, chainConfig);
+        this.logger.info('Loaded chain configuration', { chainId: chainConfig.chainId, name: chainConfig.name });
+      }
+      if (issues.length > 0) {
+        this.logger.warn('Skipping invalid chain configurations', { path: this.configFilePath, issues });
       }
     } catch (error) {
-      console.error('Failed to load chain configurations:', error);
+      this.logger.error('Failed to load chain configurations', error);
       // Don't throw here - allow service to start with empty config
     }
   }
@@ -164,44 +170,9 @@ export class ChainConfigManager {
    * Validate chain configuration
    */
   private validateChainConfig(config: ChainConfig): void {
-    const requiredFields = ['chainId', 'name', 'rpcEndpoint', 'nativeToken', 'contractAddresses'];
-    
-    for (const field of requiredFields) {
-      if (!config[field as keyof ChainConfig]) {
-        throw new Error(`Missing required field: ${field}`);
-      }
-    }
-
-    // Validate chainId
-    if (typeof config.chainId !== 'number' || config.chainId <= 0) {
-      throw new Error('Invalid chainId: must be a positive number');
-    }
-
-    // Validate RPC endpoint
-    if (!config.rpcEndpoint.startsWith('http')) {
-      throw new Error('Invalid rpcEndpoint: must be a valid HTTP/HTTPS URL');
-    }
-
-    // Validate native token
-    if (!config.nativeToken.symbol || typeof config.nativeToken.decimals !== 'number') {
-      throw new Error('Invalid nativeToken configuration');
-    }
-
-    // Validate contract addresses
-    const requiredContracts = ['sammPoolFactory', 'router', 'liquidityRouter'];
-    for (const contract of requiredContracts) {
-      if (!config.contractAddresses[contract as keyof typeof config.contractAddresses]) {
-        throw new Error(`Missing contract address: ${contract}`);
-      }
-    }
-
-    // Validate SAMM parameters if provided
-    if (config.sammParameters) {
-      const { beta1, rmin, rmax, c } = config.sammParameters;
-      if (typeof beta1 !== 'number' || typeof rmin !== 'number' || 
-          typeof rmax !== 'number' || typeof c !== 'number') {
-        throw new Error('Invalid SAMM parameters: all must be numbers');
-      }
+    const { issues } = validateChainConfig(serializeChainConfig(config), `chain ${config.chainId}`);
+    if (issues.length > 0) {
+      throw new ChainConfigValidationError(issues);
     }
   }
 
@@ -223,6 +194,6 @@ export class ChainConfigManager {
   reloadConfigurations(): void {
     this.chainConfigs.clear();
     this.loadConfigurations();
-    console.log('Reloaded chain configurations');
+    this.logger.info('Reloaded chain configurations');
   }
 }
\ No newline at end of file
@@ -0,0 +1,237 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MultiChainBackend } from './MultiChainBackend';
+import { getChangedChainConfigFields, requiresServiceRebuild, validateChainConfigDocument } from './ChainConfigSchema';
+import {
+  ChainConfig,
+  ChainConfigChange,
+  ChainConfigDiff,
+  ChainConfigReloadResult,
+  ChainConfigReloaderConfig
+} from './types';
+import { Logger } from '../logging';
+
+const DEFAULT_CONFIG: ChainConfigReloaderConfig = {
+  filePath: path.join(__dirname, '../../config/chains.json'),
+  pollIntervalMs: 2000
+};
+
+/**
+ * Chain Configuration Reloader
+ *
+ * Applies a new chain configuration without restarting the process: the whole
+ * document is validated, diffed against the running chains, and then chains are
+ * removed, added and updated or rebuilt one by one. A document with any invalid
+ * entry is rejected without touching the running chains.
+ *
+ * Events: `chain-added`, `chain-removed` and `chain-updated` with `{ chainId }`,
+ * and `reloaded` with the `ChainConfigReloadResult`.
+ */
+export class ChainConfigReloader extends EventEmitter {
+  private logger = new Logger('ChainConfigReloader');
+  private multiChainBackend: MultiChainBackend;
+  private config: ChainConfigReloaderConfig;
+  private lastResult: ChainConfigReloadResult | null = null;
+  private applying: Promise<unknown> = Promise.resolve();
+  private watching = false;
+
+  constructor(multiChainBackend: MultiChainBackend, config: Partial<ChainConfigReloaderConfig> = {}) {
+    super();
+    this.multiChainBackend = multiChainBackend;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Reload the file whenever its modification time changes
+   * The file is polled rather than watched so editors that replace it on save are seen.
+   */
+  start(): void {
+    if (this.watching) return;
+
+    fs.watchFile(this.config.filePath, { interval: this.config.pollIntervalMs }, (current, previous) => {
+      if (current.mtimeMs === previous.mtimeMs) return;
+      this.reloadFromFile().catch(error => this.logger.error('Chain configuration reload failed', error));
+    });
+    this.watching = true;
+    this.logger.info('Watching chain configuration', { path: this.config.filePath });
+  }
+
+  /**
+   * Stop watching the file
+   */
+  stop(): void {
+    if (!this.watching) return;
+
+    fs.unwatchFile(this.config.filePath);
+    this.watching = false;
+  }
+
+  /**
+   * Read, validate and apply the configuration file
+   */
+  async reloadFromFile(): Promise<ChainConfigReloadResult> {
+    let document: unknown;
+    try {
+      document = JSON.parse(await fs.promises.readFile(this.config.filePath, 'utf8'));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unreadable file';
+      return this.record(this.createResult('file', 'rejected', { issues: [{ path: this.config.filePath, message }] }));
+    }
+
+    return this.apply(document, 'file');
+  }
+
+  /**
+   * Validate a configuration document and apply its differences
+   * Applies are serialized, so a file change and an admin update never interleave.
+   * @param dryRun Validate and diff without changing the running chains
+   */
+  apply(document: unknown, source: ChainConfigReloadResult['source'], dryRun: boolean = false): Promise<ChainConfigReloadResult> {
+    const run = this.applying.then(() => this.applyDocument(document, source, dryRun));
+    this.applying = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Write a document to the configuration file so the next reload keeps it
+   */
+  async save(document: unknown): Promise<void> {
+    await fs.promises.writeFile(this.config.filePath, `${JSON.stringify(document, null, 2)}\n`);
+    this.logger.info('Saved chain configuration', { path: this.config.filePath });
+  }
+
+  /**
+   * Configuration of every running chain
+   */
+  getCurrentConfigs(): ChainConfig[] {
+    return this.multiChainBackend.getSupportedChains()
+      .map(chainId => this.multiChainBackend.getChainConfig(chainId));
+  }
+
+  /**
+   * Outcome of the last reload, if any
+   */
+  getLastResult(): ChainConfigReloadResult | null {
+    return this.lastResult;
+  }
+
+  // Private methods
+
+  private async applyDocument(
+    document: unknown,
+    source: ChainConfigReloadResult['source'],
+    dryRun: boolean
+  ): Promise<ChainConfigReloadResult> {
+    const { configs, issues } = validateChainConfigDocument(document);
+    if (issues.length > 0) {
+      const result = this.createResult(source, 'rejected', { issues, dryRun });
+      this.logger.warn('Rejected chain configuration', { source, issues });
+      return dryRun ? result : this.record(result);
+    }
+
+    const diff = diffChainConfigs(this.getCurrentConfigs(), configs);
+    const hasChanges = diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
+    if (dryRun || !hasChanges) {
+      const result = this.createResult(source, hasChanges ? 'applied' : 'unchanged', { diff, dryRun });
+      return dryRun ? result : this.record(result);
+    }
+
+    const failures: ChainConfigReloadResult['failures'] = [];
+    const attempt = async (chainId: number, action: 'add' | 'remove' | 'update', operation: () => Promise<void>) => {
+      try {
+        await operation();
+        this.emit(action === 'add' ? 'chain-added' : action === 'remove' ? 'chain-removed' : 'chain-updated', { chainId });
+      } catch (error) {
+        failures.push({ chainId, action, error: error instanceof Error ? error.message : 'Unknown error' });
+        this.logger.error('Failed to apply chain configuration', { chainId, action, error });
+      }
+    };
+
+    // Removals first, so a chain can move its endpoint name to another chain ID
+    for (const chainId of diff.removed) {
+      await attempt(chainId, 'remove', () => this.multiChainBackend.removeChain(chainId));
+    }
+    for (const config of diff.added) {
+      await attempt(config.chainId, 'add', () => this.multiChainBackend.addChain(config.chainId, config));
+    }
+    for (const change of diff.changed) {
+      await attempt(change.chainId, 'update', () => change.recreate
+        ? this.multiChainBackend.recreateChainServices(change.chainId, change.config)
+        : this.multiChainBackend.updateChainConfig(change.chainId, change.config));
+    }
+
+    const result = this.createResult(source, failures.length > 0 ? 'partial' : 'applied', { diff, failures });
+    this.logger.info('Applied chain configuration', {
+      source,
+      added: diff.added.map(config => config.chainId),
+      removed: diff.removed,
+      changed: diff.changed.map(change => change.chainId),
+      failures: failures.length
+    });
+    return this.record(result);
+  }
+
+  private createResult(
+    source: ChainConfigReloadResult['source'],
+    status: ChainConfigReloadResult['status'],
+    details: Partial<Pick<ChainConfigReloadResult, 'issues' | 'diff' | 'failures' | 'dryRun'>>
+  ): ChainConfigReloadResult {
+    return {
+      status,
+      source,
+      issues: details.issues || [],
+      diff: details.diff || null,
+      failures: details.failures || [],
+      dryRun: details.dryRun || false,
+      timestamp: Date.now()
+    };
+  }
+
+  private record(result: ChainConfigReloadResult): ChainConfigReloadResult {
+    this.lastResult = result;
+    this.emit('reloaded', result);
+    return result;
+  }
+}
+
+/**
+ * Compare running chain configurations with new ones
+ * Chains are matched by chain ID; a changed chain is rebuilt when a field its
+ * services are built from changed, and only reconfigured otherwise.
+ */
+export function diffChainConfigs(current: ChainConfig[], next: ChainConfig[]): ChainConfigDiff {
+  const currentById = new Map(current.map(config => [config.chainId, config]));
+  const nextIds = new Set(next.map(config => config.chainId));
+  const diff: ChainConfigDiff = { added: [], removed: [], changed: [], unchanged: [] };
+
+  for (const config of next) {
+    const existing = currentById.get(config.chainId);
+    if (!existing) {
+      diff.added.push(config);
+      continue;
+    }
+
+    const fields = getChangedChainConfigFields(existing, config);
+
+    if (fields.length === 0) {
+      diff.unchanged.push(config.chainId);
+    } else {
+      const change: ChainConfigChange = {
+        chainId: config.chainId,
+        fields,
+        recreate: requiresServiceRebuild(fields),
+        config
+      };
+      diff.changed.push(change);
+    }
+  }
+
+  for (const config of current) {
+    if (!nextIds.has(config.chainId)) {
+      diff.removed.push(config.chainId);
+    }
+  }
+
+  return diff;
+}
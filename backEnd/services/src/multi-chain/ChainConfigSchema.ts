@@ -0,0 +1,300 @@
+import { ethers } from 'ethers';
+import { ChainConfig, ChainConfigIssue } from './types';
+
+/** Block time used when a chain does not set one, in milliseconds */
+const DEFAULT_BLOCK_TIME_MS = 12000;
+
+const KNOWN_FIELDS = [
+  'chainId', 'name', 'rpcEndpoint', 'rpcUrl', 'rpcEndpoints', 'blockExplorer', 'blockTime', 'gasPrice',
+  'contractAddresses', 'nativeToken', 'gasSettings', 'deploymentConfig', 'sammParameters'
+];
+const CONTRACT_FIELDS = ['sammPoolFactory', 'router', 'liquidityRouter'] as const;
+const RPC_PROTOCOLS = ['http:', 'https:'];
+
+/** Fields the chain's provider and services are built from; changing one rebuilds them */
+const RECREATE_FIELDS = [
+  'rpcEndpoint', 'rpcEndpoints', 'blockTime', 'gasPrice', 'gasSettings', 'contractAddresses', 'sammParameters'
+];
+
+/**
+ * Raised when a chain configuration does not pass validation
+ */
+export class ChainConfigValidationError extends Error {
+  readonly issues: ChainConfigIssue[];
+
+  constructor(issues: ChainConfigIssue[]) {
+    super(`Invalid chain configuration: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`);
+    this.name = 'ChainConfigValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validate one chain configuration and normalize it to `ChainConfig`
+ *
+ * Accepts the deployment file's shape as well: `rpcUrl` stands in for `rpcEndpoint`,
+ * and `gasPrice` may be a decimal string. Every problem is reported, not just the first.
+ * @param path Location of the entry, used as the prefix of issue paths
+ */
+export function validateChainConfig(raw: unknown, path: string = 'config'): { config: ChainConfig | null; issues: ChainConfigIssue[] } {
+  const issues: ChainConfigIssue[] = [];
+  const issue = (field: string, message: string) => issues.push({ path: `${path}.${field}`, message });
+
+  if (!isObject(raw)) {
+    return { config: null, issues: [{ path, message: 'must be an object' }] };
+  }
+
+  for (const field of Object.keys(raw)) {
+    if (!KNOWN_FIELDS.includes(field)) {
+      issue(field, 'unknown field');
+    }
+  }
+
+  const { chainId, name, blockExplorer, blockTime } = raw;
+  if (chainId === undefined) {
+    issue('chainId', 'is required');
+  } else if (!Number.isSafeInteger(chainId) || (chainId as number) <= 0) {
+    issue('chainId', 'must be a positive integer');
+  }
+
+  if (name === undefined) {
+    issue('name', 'is required');
+  } else if (typeof name !== 'string' || name.trim().length === 0) {
+    issue('name', 'must be a non-empty string');
+  }
+
+  // `rpcUrl` is the deployment scripts' name for the same endpoint
+  const rpcField = raw.rpcEndpoint !== undefined ? 'rpcEndpoint' : 'rpcUrl';
+  const rpcEndpoint = raw[rpcField];
+  if (raw.rpcEndpoint !== undefined && raw.rpcUrl !== undefined && raw.rpcEndpoint !== raw.rpcUrl) {
+    issue('rpcUrl', 'conflicts with rpcEndpoint; set only one of them');
+  }
+  if (rpcEndpoint === undefined) {
+    issue('rpcEndpoint', 'is required');
+  } else if (!isUrl(rpcEndpoint, RPC_PROTOCOLS)) {
+    issue(rpcField, 'must be an http or https URL');
+  }
+
+  const rpcEndpoints = raw.rpcEndpoints;
+  if (rpcEndpoints !== undefined) {
+    if (!Array.isArray(rpcEndpoints)) {
+      issue('rpcEndpoints', 'must be an array of URLs');
+    } else {
+      rpcEndpoints.forEach((endpoint, index) => {
+        if (!isUrl(endpoint, RPC_PROTOCOLS)) {
+          issue(`rpcEndpoints[${index}]`, 'must be an http or https URL');
+        } else if (endpoint === rpcEndpoint || rpcEndpoints.indexOf(endpoint) !== index) {
+          issue(`rpcEndpoints[${index}]`, 'duplicates another RPC endpoint');
+        }
+      });
+    }
+  }
+
+  if (blockExplorer !== undefined && !isUrl(blockExplorer, RPC_PROTOCOLS)) {
+    issue('blockExplorer', 'must be an http or https URL');
+  }
+
+  if (blockTime !== undefined && (typeof blockTime !== 'number' || !Number.isFinite(blockTime) || blockTime <= 0)) {
+    issue('blockTime', 'must be a positive number of milliseconds');
+  }
+
+  const gasPrice = parseGasPrice(raw);
+  if (gasPrice === null) {
+    issue(raw.gasPrice !== undefined ? 'gasPrice' : 'gasSettings.gasPrice', 'must be a non-negative integer amount of wei');
+  }
+
+  const contractAddresses = raw.contractAddresses;
+  if (contractAddresses === undefined) {
+    issue('contractAddresses', 'is required');
+  } else if (!isObject(contractAddresses)) {
+    issue('contractAddresses', 'must be an object');
+  } else {
+    for (const contract of CONTRACT_FIELDS) {
+      const address = contractAddresses[contract];
+      if (address === undefined) {
+        issue(`contractAddresses.${contract}`, 'is required');
+      } else if (typeof address !== 'string' || !ethers.isAddress(address)) {
+        issue(`contractAddresses.${contract}`, 'must be a valid address with a correct checksum');
+      }
+    }
+  }
+
+  const nativeToken = raw.nativeToken;
+  if (nativeToken === undefined) {
+    issue('nativeToken', 'is required');
+  } else if (!isObject(nativeToken)) {
+    issue('nativeToken', 'must be an object');
+  } else {
+    if (typeof nativeToken.symbol !== 'string' || nativeToken.symbol.length === 0) {
+      issue('nativeToken.symbol', 'must be a non-empty string');
+    }
+    if (!Number.isInteger(nativeToken.decimals) || (nativeToken.decimals as number) < 0 || (nativeToken.decimals as number) > 36) {
+      issue('nativeToken.decimals', 'must be an integer between 0 and 36');
+    }
+  }
+
+  if (raw.gasSettings !== undefined && !isObject(raw.gasSettings)) {
+    issue('gasSettings', 'must be an object');
+  }
+  if (raw.deploymentConfig !== undefined && !isObject(raw.deploymentConfig)) {
+    issue('deploymentConfig', 'must be an object');
+  }
+
+  const sammParameters = raw.sammParameters;
+  if (sammParameters !== undefined) {
+    if (!isObject(sammParameters)) {
+      issue('sammParameters', 'must be an object');
+    } else {
+      for (const parameter of ['beta1', 'rmin', 'rmax', 'c']) {
+        if (typeof sammParameters[parameter] !== 'number' || !Number.isFinite(sammParameters[parameter])) {
+          issue(`sammParameters.${parameter}`, 'must be a number');
+        }
+      }
+      if (typeof sammParameters.rmin === 'number' && typeof sammParameters.rmax === 'number' &&
+          sammParameters.rmin > sammParameters.rmax) {
+        issue('sammParameters.rmin', 'must not be greater than rmax');
+      }
+    }
+  }
+
+  if (issues.length > 0) {
+    return { config: null, issues };
+  }
+
+  const config: ChainConfig = {
+    chainId: chainId as number,
+    name: (name as string).trim(),
+    rpcEndpoint: rpcEndpoint as string,
+    blockTime: (blockTime as number | undefined) ?? DEFAULT_BLOCK_TIME_MS,
+    gasPrice: gasPrice as bigint,
+    contractAddresses: pick(contractAddresses as Record<string, unknown>, CONTRACT_FIELDS) as ChainConfig['contractAddresses'],
+    nativeToken: {
+      symbol: (nativeToken as Record<string, unknown>).symbol as string,
+      decimals: (nativeToken as Record<string, unknown>).decimals as number
+    }
+  };
+  if (rpcEndpoints !== undefined) config.rpcEndpoints = [...(rpcEndpoints as string[])];
+  if (blockExplorer !== undefined) config.blockExplorer = blockExplorer as string;
+  if (raw.gasSettings !== undefined) config.gasSettings = { ...(raw.gasSettings as ChainConfig['gasSettings']) };
+  if (raw.deploymentConfig !== undefined) config.deploymentConfig = { ...(raw.deploymentConfig as ChainConfig['deploymentConfig']) };
+  if (sammParameters !== undefined) config.sammParameters = { ...(sammParameters as ChainConfig['sammParameters'])! };
+
+  return { config, issues: [] };
+}
+
+/**
+ * Validate a whole chain configuration document
+ * The document is either an object keyed by network name, as in `config/chains.json`,
+ * or an array of chain configurations. Chain IDs and endpoint names must be unique.
+ */
+export function validateChainConfigDocument(raw: unknown): { configs: ChainConfig[]; issues: ChainConfigIssue[] } {
+  let entries: Array<[string, unknown]>;
+  if (Array.isArray(raw)) {
+    entries = raw.map((entry, index) => [`[${index}]`, entry]);
+  } else if (isObject(raw)) {
+    entries = Object.entries(raw);
+  } else {
+    return { configs: [], issues: [{ path: '', message: 'must be an object keyed by network name or an array' }] };
+  }
+
+  const configs: ChainConfig[] = [];
+  const issues: ChainConfigIssue[] = [];
+  const chainIds = new Map<number, string>();
+  const endpointNames = new Map<string, string>();
+
+  for (const [path, entry] of entries) {
+    const result = validateChainConfig(entry, path);
+    issues.push(...result.issues);
+    if (!result.config) continue;
+
+    const { chainId } = result.config;
+    const endpointName = getChainEndpointName(result.config.name);
+    if (chainIds.has(chainId)) {
+      issues.push({ path: `${path}.chainId`, message: `duplicates chain ${chainId} in ${chainIds.get(chainId)}` });
+    } else if (endpointNames.has(endpointName)) {
+      issues.push({ path: `${path}.name`, message: `maps to /api/${endpointName}, already used by ${endpointNames.get(endpointName)}` });
+    } else {
+      chainIds.set(chainId, path);
+      endpointNames.set(endpointName, path);
+      configs.push(result.config);
+    }
+  }
+
+  return { configs, issues };
+}
+
+/**
+ * Chain configuration as plain JSON, with the gas price as a decimal string
+ */
+export function serializeChainConfig(config: ChainConfig): Record<string, unknown> {
+  return { ...config, gasPrice: config.gasPrice.toString() };
+}
+
+/**
+ * Top-level fields that differ between two configurations of a chain, sorted
+ */
+export function getChangedChainConfigFields(before: ChainConfig, after: ChainConfig): string[] {
+  const previous = serializeChainConfig(before);
+  const next = serializeChainConfig(after);
+  return Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]))
+    .filter(field => stableStringify(previous[field]) !== stableStringify(next[field]))
+    .sort();
+}
+
+/**
+ * Whether changing these fields needs the chain's provider and services rebuilt
+ */
+export function requiresServiceRebuild(fields: string[]): boolean {
+  return fields.some(field => RECREATE_FIELDS.includes(field));
+}
+
+/**
+ * URL path segment of a chain, e.g. `/api/rise-testnet`
+ */
+export function getChainEndpointName(chainName: string): string {
+  return chainName.toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Gas price in wei from `gasPrice`, or from a numeric `gasSettings.gasPrice`
+ * Zero means the chain's own fee data is used.
+ * @returns null when the value is not a non-negative integer
+ */
+function parseGasPrice(raw: Record<string, unknown>): bigint | null {
+  const settings = isObject(raw.gasSettings) ? raw.gasSettings : {};
+  const value = raw.gasPrice ?? (settings.gasPrice === 'auto' ? undefined : settings.gasPrice);
+  if (value === undefined) return 0n;
+
+  if (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0) return BigInt(value);
+  if (typeof value === 'string' && /^\d+$/.test(value)) return BigInt(value);
+  return null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isUrl(value: unknown, protocols: string[]): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    return protocols.includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function pick(source: Record<string, unknown>, fields: readonly string[]): Record<string, unknown> {
+  return Object.fromEntries(fields.map(field => [field, source[field]]));
+}
+
+/**
+ * JSON with object keys sorted, so key order does not count as a change
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (key, item) => {
+    if (item && typeof item === 'object' && !Array.isArray(item)) {
+      return Object.fromEntries(Object.keys(item).sort().map(name => [name, item[name]]));
+    }
+    return item;
+  }) ?? 'undefined';
+}
@@ -1,5 +1,6 @@
 import { ChainServiceInstances, ChainConfig } from './types';
 import { FailureIsolationService } from './FailureIsolationService';
+import { Logger } from '../logging';
 
 /**
  * Chain Isolation Manager
@@ -8,6 +9,7 @@ import { FailureIsolationService } from './FailureIsolationService';
  * Each chain operates in its own isolated context.
  */
 export class ChainIsolationManager {
+  private logger = new Logger('ChainIsolationManager');
   private chainContexts: Map<number, ChainContext> = new Map();
   private failureIsolation: FailureIsolationService;
   private globalSharedState: Set<string> = new Set(); // Track what should NOT be shared
@@ -56,7 +58,7 @@ export class ChainIsolationManager {
     // Store context with complete isolation
     this.chainContexts.set(chainId, context);
 
-    console.log(`Created isolated context for chain ${chainId}`);
+    this.logger.info('Created isolated context', { chainId });
     return context;
   }
 
@@ -134,7 +136,7 @@ export class ChainIsolationManager {
     context.state.clear();
     context.cache.clear();
     
-    console.log(`Cleared state for chain ${chainId}`);
+    this.logger.info('Cleared chain state', { chainId });
   }
 
   /**
@@ -226,6 +228,18 @@ export class ChainIsolationManager {
     return report;
   }
 
+  /**
+   * Point a chain's context at rebuilt services
+   * State, cache and metrics are kept; only the configuration and service instances change.
+   */
+  updateChainContext(chainId: number, config: ChainConfig, services: ChainServiceInstances): void {
+    const context = this.getChainContext(chainId);
+    context.config = { ...config };
+    context.services = services;
+
+    this.logger.info('Updated isolated context', { chainId });
+  }
+
   /**
    * Remove chain context (cleanup)
    */
@@ -245,7 +259,7 @@ export class ChainIsolationManager {
     // Remove context
     this.chainContexts.delete(chainId);
 
-    console.log(`Removed isolated context for chain ${chainId}`);
+    this.logger.info('Removed isolated context', { chainId });
   }
 
   /**
@@ -293,7 +307,7 @@ export class ChainIsolationManager {
     const integrity = this.checkIsolationIntegrity(context);
     
     if (!integrity.isIsolated) {
-      console.warn(`Isolation integrity violation for chain ${context.chainId}:`, integrity.violations);
+      this.logger.warn('Isolation integrity violation', { chainId: context.chainId, violations: integrity.violations });
     }
   }
 
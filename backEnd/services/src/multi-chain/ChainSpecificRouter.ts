@@ -1,22 +1,28 @@
 import express, { Request, Response, NextFunction } from 'express';
 import rateLimit from 'express-rate-limit';
 import { MultiChainBackend } from './MultiChainBackend';
-import { ChainResponse, ChainAuthConfig, ChainRateLimitConfig } from './types';
+import { ApiKeyManager } from './ApiKeyManager';
+import { ChainResponse, ChainAuthConfig, ChainRateLimitConfig, ApiKeyRecord, ApiKeyScope } from './types';
+import { Logger, resolveRequestId, runWithRequestContext } from '../logging';
 
 /**
  * Chain-Specific Router
  * 
  * Creates isolated API endpoints for each chain.
  * Each chain has its own routes, rate limiting, and authentication.
+ * Requests made with an API key are charged to that key's quotas instead of the per-IP limiter.
  */
 export class ChainSpecificRouter {
+  private logger = new Logger('ChainSpecificRouter');
   private multiChainBackend: MultiChainBackend;
+  private apiKeyManager: ApiKeyManager;
   private chainRouters: Map<number, express.Router> = new Map();
   private chainRateLimiters: Map<number, any> = new Map();
   private chainAuthConfigs: Map<number, ChainAuthConfig> = new Map();
 
-  constructor(multiChainBackend: MultiChainBackend) {
+  constructor(multiChainBackend: MultiChainBackend, apiKeyManager: ApiKeyManager = new ApiKeyManager()) {
     this.multiChainBackend = multiChainBackend;
+    this.apiKeyManager = apiKeyManager;
   }
 
   /**
@@ -39,7 +45,7 @@ export class ChainSpecificRouter {
     // Store router
     this.chainRouters.set(chainId, router);
 
-    console.log(`Created router for chain ${chainId} (${config.name})`);
+    this.logger.info('Created chain router', { chainId, name: config.name });
     return router;
   }
 
@@ -58,13 +64,13 @@ export class ChainSpecificRouter {
    * Setup chain-specific middleware
    */
   private setupChainMiddleware(router: express.Router, chainId: number): void {
-    // Chain-specific rate limiting
-    const rateLimiter = this.getChainRateLimiter(chainId);
-    router.use(rateLimiter);
-
     // Chain-specific authentication
     router.use(this.createChainAuthMiddleware(chainId));
 
+    // Chain-specific rate limiting for requests without an API key
+    const rateLimiter = this.getChainRateLimiter(chainId);
+    router.use(rateLimiter);
+
     // Chain health check middleware
     router.use(async (req: Request, res: Response, next: NextFunction) => {
       try {
@@ -78,11 +84,11 @@ export class ChainSpecificRouter {
       }
     });
 
-    // Add chain context to request
+    // Add chain context to request; services called from the handlers log with it
     router.use((req: Request, res: Response, next: NextFunction) => {
       req.chainId = chainId;
       req.chainConfig = this.multiChainBackend.getChainConfig(chainId);
-      next();
+      runWithRequestContext({ requestId: resolveRequestId(req.id), chainId }, next);
     });
   }
 
@@ -91,28 +97,60 @@ export class ChainSpecificRouter {
    */
   private setupChainRoutes(router: express.Router, chainId: number): void {
     // Chain info endpoint
-    router.get('/info', this.handleChainInfo.bind(this, chainId));
+    router.get('/info', this.meter(chainId, 'quote', 1), this.handleChainInfo.bind(this, chainId));
 
     // Router service endpoints
-    router.get('/router/shards', this.handleRouterShards.bind(this, chainId));
-    router.post('/router/route', this.handleRouterRoute.bind(this, chainId));
-    router.post('/router/execute', this.handleRouterExecute.bind(this, chainId));
+    router.get('/router/shards', this.meter(chainId, 'quote', 1), this.handleRouterShards.bind(this, chainId));
+    router.post('/router/route', this.meter(chainId, 'quote', 5), this.handleRouterRoute.bind(this, chainId));
+    router.post('/router/execute', this.meter(chainId, 'execute', 20), this.handleRouterExecute.bind(this, chainId));
     router.get('/router/health', this.handleRouterHealth.bind(this, chainId));
 
     // Cross-pool router endpoints
-    router.get('/cross-pool/paths', this.handleCrossPoolPaths.bind(this, chainId));
-    router.post('/cross-pool/execute', this.handleCrossPoolExecute.bind(this, chainId));
+    router.get('/cross-pool/paths', this.meter(chainId, 'quote', 5), this.handleCrossPoolPaths.bind(this, chainId));
+    router.post('/cross-pool/execute', this.meter(chainId, 'execute', 20), this.handleCrossPoolExecute.bind(this, chainId));
     router.get('/cross-pool/health', this.handleCrossPoolHealth.bind(this, chainId));
 
     // Liquidity router endpoints
-    router.get('/liquidity/pools', this.handleLiquidityPools.bind(this, chainId));
-    router.get('/liquidity/recommendations', this.handleLiquidityRecommendations.bind(this, chainId));
-    router.post('/liquidity/analyze', this.handleLiquidityAnalyze.bind(this, chainId));
+    router.get('/liquidity/pools', this.meter(chainId, 'quote', 2), this.handleLiquidityPools.bind(this, chainId));
+    router.get('/liquidity/recommendations', this.meter(chainId, 'quote', 5), this.handleLiquidityRecommendations.bind(this, chainId));
+    router.post('/liquidity/analyze', this.meter(chainId, 'quote', 10), this.handleLiquidityAnalyze.bind(this, chainId));
     router.get('/liquidity/health', this.handleLiquidityHealth.bind(this, chainId));
 
     // Chain-specific monitoring endpoints
-    router.get('/metrics', this.handleChainMetrics.bind(this, chainId));
-    router.get('/isolation', this.handleChainIsolation.bind(this, chainId));
+    router.get('/metrics', this.meter(chainId, 'quote', 1), this.handleChainMetrics.bind(this, chainId));
+    router.get('/isolation', this.meter(chainId, 'quote', 1), this.handleChainIsolation.bind(this, chainId));
+  }
+
+  /**
+   * Check the request's API key scope and charge the route to its quotas
+   * Requests without a managed API key pass through; the per-IP limiter covers them.
+   * @param scope Scope the route requires
+   * @param computeUnits Compute cost of the route
+   */
+  private meter(chainId: number, scope: ApiKeyScope, computeUnits: number): express.RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const apiKey = req.apiKey;
+      if (!apiKey) {
+        return next();
+      }
+
+      if (!this.apiKeyManager.isAuthorized(apiKey, scope, chainId)) {
+        return this.sendChainErrorResponse(res, 403, `API key is not allowed to ${scope} on chain ${chainId}`, chainId);
+      }
+
+      const decision = this.apiKeyManager.charge(apiKey, `${req.method} ${req.route.path}`, computeUnits);
+      res.setHeader('X-Quota-Remaining-Requests', decision.remainingRequests);
+      res.setHeader('X-Quota-Remaining-Compute', decision.remainingComputeUnits);
+      res.setHeader('X-Quota-Reset', Math.ceil(decision.resetAt / 1000));
+
+      if (!decision.allowed) {
+        res.setHeader('Retry-After', Math.max(1, Math.ceil((decision.resetAt - Date.now()) / 1000)));
+        const quota = decision.reason === 'compute' ? 'Compute' : 'Request';
+        return this.sendChainErrorResponse(res, 429, `${quota} quota exceeded for API key ${apiKey.id}`, chainId);
+      }
+
+      next();
+    };
   }
 
   /**
@@ -329,8 +367,8 @@ export class ChainSpecificRouter {
         legacyHeaders: false,
         keyGenerator: (req) => `${req.ip}_chain_${chainId}`,
         skip: (req) => {
-          // Skip rate limiting for health checks
-          return req.path.includes('/health');
+          // Skip rate limiting for health checks and for requests charged to an API key
+          return req.path.includes('/health') || !!req.apiKey;
         }
       });
       
@@ -346,17 +384,25 @@ export class ChainSpecificRouter {
   private createChainAuthMiddleware(chainId: number): express.RequestHandler {
     return (req: Request, res: Response, next: NextFunction) => {
       const authConfig = this.chainAuthConfigs.get(chainId);
-      
+      const apiKey = req.headers['x-api-key'] as string;
+
+      // A presented key must be valid even where keys are optional, so revoked keys are cut off
+      if (apiKey) {
+        const record = this.apiKeyManager.authenticate(apiKey);
+        if (record) {
+          req.apiKey = record;
+        } else if (!this.validateApiKey(chainId, apiKey)) {
+          return this.sendChainErrorResponse(res, 401, 'Invalid or revoked API key', chainId);
+        }
+      }
+
       if (!authConfig || !authConfig.enabled) {
         return next();
       }
 
       // Check API key if required
-      if (authConfig.apiKeyRequired) {
-        const apiKey = req.headers['x-api-key'] as string;
-        if (!apiKey || !this.validateApiKey(chainId, apiKey)) {
-          return this.sendChainErrorResponse(res, 401, 'Invalid or missing API key', chainId);
-        }
+      if (authConfig.apiKeyRequired && !apiKey) {
+        return this.sendChainErrorResponse(res, 401, 'Missing API key', chainId);
       }
 
       // Check allowed origins
@@ -372,13 +418,12 @@ export class ChainSpecificRouter {
   }
 
   /**
-   * Validate API key for a chain
+   * Validate a legacy per-chain API key
+   * Shared `CHAIN_<id>_API_KEY` keys still work but are not metered; issue managed keys instead.
    */
   private validateApiKey(chainId: number, apiKey: string): boolean {
-    // In production, this would validate against a database or key store
-    // For now, we'll use environment variables
     const validKey = process.env[`CHAIN_${chainId}_API_KEY`];
-    return validKey && validKey === apiKey;
+    return !!validKey && validKey === apiKey;
   }
 
   /**
@@ -423,7 +468,7 @@ export class ChainSpecificRouter {
    */
   configureChainAuth(chainId: number, authConfig: ChainAuthConfig): void {
     this.chainAuthConfigs.set(chainId, authConfig);
-    console.log(`Configured authentication for chain ${chainId}`);
+    this.logger.info('Configured chain authentication', { chainId });
   }
 
   /**
@@ -433,7 +478,7 @@ export class ChainSpecificRouter {
     this.chainRouters.delete(chainId);
     this.chainRateLimiters.delete(chainId);
     this.chainAuthConfigs.delete(chainId);
-    console.log(`Removed router for chain ${chainId}`);
+    this.logger.info('Removed chain router', { chainId });
   }
 }
 
@@ -443,6 +488,7 @@ declare global {
     interface Request {
       chainId?: number;
       chainConfig?: any;
+      apiKey?: ApiKeyRecord;
     }
   }
 }
\ No newline at end of file
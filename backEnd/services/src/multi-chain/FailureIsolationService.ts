@@ -1,4 +1,5 @@
 import { ChainError, ChainErrorType } from './types';
+import { Logger } from '../logging';
 
 /**
  * Failure Isolation Service
@@ -7,6 +8,7 @@ import { ChainError, ChainErrorType } from './types';
  * Implements circuit breaker pattern and graceful degradation.
  */
 export class FailureIsolationService {
+  private logger = new Logger('FailureIsolationService');
   private chainCircuitBreakers: Map<number, CircuitBreaker> = new Map();
   private chainErrorCounts: Map<number, number> = new Map();
   private chainLastErrors: Map<number, ChainError> = new Map();
@@ -35,7 +37,7 @@ export class FailureIsolationService {
     this.chainCircuitBreakers.set(chainId, circuitBreaker);
     this.chainErrorCounts.set(chainId, 0);
 
-    console.log(`Initialized failure isolation for chain ${chainId}`);
+    this.logger.info('Initialized failure isolation', { chainId });
   }
 
   /**
@@ -109,7 +111,7 @@ export class FailureIsolationService {
     this.resetErrorCount(chainId);
     this.chainLastErrors.delete(chainId);
     
-    console.log(`Reset isolation for chain ${chainId}`);
+    this.logger.info('Reset isolation', { chainId });
   }
 
   /**
@@ -133,7 +135,7 @@ export class FailureIsolationService {
     this.chainErrorCounts.delete(chainId);
     this.chainLastErrors.delete(chainId);
     
-    console.log(`Removed isolation tracking for chain ${chainId}`);
+    this.logger.info('Removed isolation tracking', { chainId });
   }
 
   /**
@@ -200,7 +202,7 @@ export class FailureIsolationService {
     // Store last error
     this.chainLastErrors.set(chainId, chainError);
     
-    console.error(`Chain ${chainId} error (count: ${errorCount}):`, chainError);
+    this.logger.error('Chain operation failed', { chainId, operationName, errorCount, error });
     
     return chainError;
   }
@@ -245,6 +247,7 @@ export class FailureIsolationService {
  * Circuit Breaker implementation for chain isolation
  */
 class CircuitBreaker {
+  private logger: Logger;
   private state: CircuitBreakerState = CircuitBreakerState.CLOSED;
   private failureCount: number = 0;
   private lastFailureTime: number = 0;
@@ -253,7 +256,9 @@ class CircuitBreaker {
   constructor(
     private chainId: number,
     private config: IsolationConfig
-  ) {}
+  ) {
+    this.logger = new Logger('CircuitBreaker', { chainId });
+  }
 
   /**
    * Record a successful operation
@@ -265,7 +270,7 @@ class CircuitBreaker {
       // If we're in half-open state and got a success, close the circuit
       this.state = CircuitBreakerState.CLOSED;
       this.failureCount = 0;
-      console.log(`Circuit breaker closed for chain ${this.chainId} after successful operation`);
+      this.logger.info('Circuit breaker closed after successful operation');
     }
   }
 
@@ -278,7 +283,7 @@ class CircuitBreaker {
 
     if (this.failureCount >= this.config.errorThreshold) {
       this.state = CircuitBreakerState.OPEN;
-      console.log(`Circuit breaker opened for chain ${this.chainId} after ${this.failureCount} failures`);
+      this.logger.warn('Circuit breaker opened', { failures: this.failureCount });
     }
   }
 
@@ -290,7 +295,7 @@ class CircuitBreaker {
       // Check if recovery timeout has passed
       if (Date.now() - this.lastFailureTime >= this.config.recoveryTimeout) {
         this.state = CircuitBreakerState.HALF_OPEN;
-        console.log(`Circuit breaker for chain ${this.chainId} moved to half-open state`);
+        this.logger.info('Circuit breaker moved to half-open state');
         return false;
       }
       return true;
@@ -0,0 +1,247 @@
+import { ethers } from 'ethers';
+import { MultiChainBackend } from './MultiChainBackend';
+import { RouterService } from '../router/RouterService';
+import { RouterServiceError, ShardRoutingRequest, ShardRoutingResult, Token } from '../router/types';
+import {
+  MetricsRegistry,
+  Counter,
+  Gauge,
+  Histogram,
+  DEFAULT_LATENCY_BUCKETS
+} from '../metrics';
+import { Logger } from '../logging';
+
+const CIRCUIT_BREAKER_STATES = ['CLOSED', 'OPEN', 'HALF_OPEN'];
+
+interface ChainObservation {
+  routerService: RouterService;
+  onRoutingCompleted: (data: { request: ShardRoutingRequest; result: ShardRoutingResult }) => void;
+  onCacheHit: (data: { request: ShardRoutingRequest; result: ShardRoutingResult }) => void;
+}
+
+/**
+ * Gateway Metrics
+ *
+ * Feeds the metrics registry from every chain's router service, failure isolation
+ * and health monitor. Routing outcomes are counted as they happen; reserves,
+ * breaker states and health are read from the services on every scrape.
+ */
+export class GatewayMetrics {
+  private logger = new Logger('GatewayMetrics');
+  private multiChainBackend: MultiChainBackend;
+  private registry: MetricsRegistry;
+  private observations: Map<number, ChainObservation> = new Map();
+
+  private routingDuration: Histogram;
+  private routingRequests: Counter;
+  private cacheHits: Counter;
+  private cThresholdRejections: Counter;
+  private cacheHitRatio: Gauge;
+  private shardReserves: Gauge;
+  private circuitBreakerState: Gauge;
+  private chainHealthy: Gauge;
+  private chainBlockHeight: Gauge;
+  private chainRpcLatency: Gauge;
+  private chainActiveShards: Gauge;
+  private rpcEndpointAvailable: Gauge;
+  private rpcEndpointBlockLag: Gauge;
+
+  constructor(multiChainBackend: MultiChainBackend, registry: MetricsRegistry = new MetricsRegistry()) {
+    this.multiChainBackend = multiChainBackend;
+    this.registry = registry;
+
+    this.routingDuration = registry.histogram({
+      name: 'samm_routing_duration_seconds',
+      help: 'Time to find a route, excluding cache hits',
+      unit: 'seconds',
+      labelNames: ['chain', 'pair', 'outcome'],
+      buckets: DEFAULT_LATENCY_BUCKETS
+    });
+    this.routingRequests = registry.counter({
+      name: 'samm_routing_requests',
+      help: 'Routing requests computed by the router, by outcome (single, split or failed)',
+      labelNames: ['chain', 'pair', 'outcome']
+    });
+    this.cacheHits = registry.counter({
+      name: 'samm_routing_cache_hits',
+      help: 'Routing requests answered from the routing cache',
+      labelNames: ['chain', 'pair']
+    });
+    this.cThresholdRejections = registry.counter({
+      name: 'samm_c_threshold_rejections',
+      help: 'Routing requests rejected because no shard could fill them within the c-threshold',
+      labelNames: ['chain', 'pair']
+    });
+    this.cacheHitRatio = registry.gauge({
+      name: 'samm_routing_cache_hit_ratio',
+      help: 'Share of routing requests answered from the cache since the router stats were reset',
+      labelNames: ['chain']
+    });
+    this.shardReserves = registry.gauge({
+      name: 'samm_shard_reserve',
+      help: 'Shard reserve of one token, in whole tokens',
+      labelNames: ['chain', 'pair', 'pool', 'token']
+    });
+    this.circuitBreakerState = registry.gauge({
+      name: 'samm_circuit_breaker_state',
+      help: 'Chain circuit breaker state: 1 for the current state, 0 for the others',
+      labelNames: ['chain', 'state']
+    });
+    this.chainHealthy = registry.gauge({
+      name: 'samm_chain_healthy',
+      help: 'Whether the health monitor considers the chain healthy',
+      labelNames: ['chain']
+    });
+    this.chainBlockHeight = registry.gauge({
+      name: 'samm_chain_block_height',
+      help: 'Latest block seen by the health monitor',
+      labelNames: ['chain']
+    });
+    this.chainRpcLatency = registry.gauge({
+      name: 'samm_chain_rpc_latency_seconds',
+      help: 'RPC latency measured by the last health check',
+      unit: 'seconds',
+      labelNames: ['chain']
+    });
+    this.chainActiveShards = registry.gauge({
+      name: 'samm_chain_active_shards',
+      help: 'Active shards counted by the last health check',
+      labelNames: ['chain']
+    });
+    this.rpcEndpointAvailable = registry.gauge({
+      name: 'samm_rpc_endpoint_available',
+      help: 'Whether an RPC endpoint is in rotation (0 while quarantined)',
+      labelNames: ['chain', 'endpoint']
+    });
+    this.rpcEndpointBlockLag = registry.gauge({
+      name: 'samm_rpc_endpoint_block_lag',
+      help: 'Blocks an RPC endpoint trails the most advanced endpoint of its chain',
+      labelNames: ['chain', 'endpoint']
+    });
+
+    registry.registerCollector(() => this.collect());
+  }
+
+  /**
+   * Get the metrics registry
+   */
+  getRegistry(): MetricsRegistry {
+    return this.registry;
+  }
+
+  /**
+   * Start counting routing outcomes of a chain
+   */
+  observeChain(chainId: number): void {
+    if (this.observations.has(chainId)) return;
+
+    const routerService = this.multiChainBackend.getRouterService(chainId);
+    const chain = String(chainId);
+
+    const observation: ChainObservation = {
+      routerService,
+      onRoutingCompleted: ({ request, result }) => {
+        const pair = getPairLabel(request.tokenPair.tokenA, request.tokenPair.tokenB);
+        const outcome = result.routing ? 'single' : result.splitRouting ? 'split' : 'failed';
+
+        this.routingRequests.inc({ chain, pair, outcome });
+        this.routingDuration.observe({ chain, pair, outcome }, result.metadata.searchTime / 1000);
+        if (result.error === RouterServiceError.EXCEEDS_C_THRESHOLD) {
+          this.cThresholdRejections.inc({ chain, pair });
+        }
+      },
+      onCacheHit: ({ request }) => {
+        this.cacheHits.inc({ chain, pair: getPairLabel(request.tokenPair.tokenA, request.tokenPair.tokenB) });
+      }
+    };
+
+    routerService.on('routing-completed', observation.onRoutingCompleted);
+    routerService.on('routing-cache-hit', observation.onCacheHit);
+    this.observations.set(chainId, observation);
+  }
+
+  /**
+   * Stop observing a chain and drop its series
+   */
+  unobserveChain(chainId: number): void {
+    const observation = this.observations.get(chainId);
+    if (!observation) return;
+
+    observation.routerService.off('routing-completed', observation.onRoutingCompleted);
+    observation.routerService.off('routing-cache-hit', observation.onCacheHit);
+    this.observations.delete(chainId);
+
+    const chain = String(chainId);
+    for (const metric of [
+      this.routingDuration, this.routingRequests, this.cacheHits, this.cThresholdRejections,
+      this.cacheHitRatio, this.shardReserves, this.circuitBreakerState,
+      this.chainHealthy, this.chainBlockHeight, this.chainRpcLatency, this.chainActiveShards,
+      this.rpcEndpointAvailable, this.rpcEndpointBlockLag
+    ]) {
+      metric.remove({ chain });
+    }
+  }
+
+  /**
+   * Read service state into the scrape-time gauges
+   * Shards are re-read every scrape so removed shards stop being exported.
+   */
+  private async collect(): Promise<void> {
+    this.shardReserves.remove();
+
+    for (const [chainId, { routerService }] of this.observations) {
+      const chain = String(chainId);
+
+      this.cacheHitRatio.set({ chain }, routerService.getStats().cacheHitRate / 100);
+
+      for (const shard of routerService.getAllShards()) {
+        const pair = getPairLabel(shard.tokenA, shard.tokenB);
+        const pool = shard.poolAddress.toLowerCase();
+        this.shardReserves.set(
+          { chain, pair, pool, token: shard.tokenA.symbol },
+          Number(ethers.formatUnits(shard.reserveA, shard.tokenA.decimals))
+        );
+        this.shardReserves.set(
+          { chain, pair, pool, token: shard.tokenB.symbol },
+          Number(ethers.formatUnits(shard.reserveB, shard.tokenB.decimals))
+        );
+      }
+
+      try {
+        const { circuitBreakerState } = this.multiChainBackend.getChainIsolationStatus(chainId);
+        for (const state of CIRCUIT_BREAKER_STATES) {
+          this.circuitBreakerState.set({ chain, state }, state === circuitBreakerState ? 1 : 0);
+        }
+      } catch (error) {
+        this.logger.error('Failed to read circuit breaker state', { chainId, error });
+      }
+
+      try {
+        const health = await this.multiChainBackend.checkChainHealth(chainId);
+        this.chainHealthy.set({ chain }, health.isHealthy ? 1 : 0);
+        this.chainBlockHeight.set({ chain }, health.blockHeight);
+        this.chainRpcLatency.set({ chain }, health.rpcLatency / 1000);
+        this.chainActiveShards.set({ chain }, health.activeShards);
+
+        this.rpcEndpointAvailable.remove({ chain });
+        this.rpcEndpointBlockLag.remove({ chain });
+        for (const endpoint of health.rpcEndpoints || []) {
+          this.rpcEndpointAvailable.set({ chain, endpoint: endpoint.url }, endpoint.available ? 1 : 0);
+          this.rpcEndpointBlockLag.set({ chain, endpoint: endpoint.url }, endpoint.blockLag);
+        }
+      } catch (error) {
+        this.chainHealthy.set({ chain }, 0);
+      }
+    }
+  }
+}
+
+/**
+ * Pair label with tokens ordered by address, so A/B and B/A requests share series
+ */
+function getPairLabel(tokenA: Token, tokenB: Token): string {
+  const [first, second] = tokenA.address.toLowerCase() <= tokenB.address.toLowerCase()
+    ? [tokenA, tokenB]
+    : [tokenB, tokenA];
+  return `${first.symbol}/${second.symbol}`;
+}
@@ -1,5 +1,7 @@
 import { ethers } from 'ethers';
 import { ChainHealth, ChainServiceInstances, HealthMonitorConfig, ChainMetrics } from './types';
+import { RpcProviderPool } from './RpcProviderPool';
+import { Logger } from '../logging';
 
 /**
  * Health Monitor for Multi-Chain Services
@@ -8,9 +10,11 @@ import { ChainHealth, ChainServiceInstances, HealthMonitorConfig, ChainMetrics }
  * Failures on one chain do not affect monitoring of other chains.
  */
 export class HealthMonitor {
+  private logger = new Logger('HealthMonitor');
   private healthData: Map<number, ChainHealth> = new Map();
   private monitoringIntervals: Map<number, NodeJS.Timeout> = new Map();
   private metrics: Map<number, ChainMetrics> = new Map();
+  private providerPools: Map<number, RpcProviderPool> = new Map();
   private config: HealthMonitorConfig;
 
   constructor(config?: Partial<HealthMonitorConfig>) {
@@ -34,6 +38,10 @@ export class HealthMonitor {
     // Stop existing monitoring if any
     this.stopMonitoring(chainId);
 
+    if (provider instanceof RpcProviderPool) {
+      this.providerPools.set(chainId, provider);
+    }
+
     // Initialize health data
     this.healthData.set(chainId, {
       chainId,
@@ -63,14 +71,14 @@ export class HealthMonitor {
       try {
         await this.performHealthCheck(chainId, provider, services);
       } catch (error) {
-        console.error(`Health check failed for chain ${chainId}:`, error);
+        this.logger.error('Health check failed', { chainId, error });
         this.recordError(chainId, error.message);
       }
     }, this.config.checkInterval);
 
     this.monitoringIntervals.set(chainId, interval);
     
-    console.log(`Started health monitoring for chain ${chainId}`);
+    this.logger.info('Started health monitoring', { chainId });
   }
 
   /**
@@ -82,9 +90,10 @@ export class HealthMonitor {
       clearInterval(interval);
       this.monitoringIntervals.delete(chainId);
     }
+    this.providerPools.delete(chainId);
 
     // Keep health data for reference but stop active monitoring
-    console.log(`Stopped health monitoring for chain ${chainId}`);
+    this.logger.info('Stopped health monitoring', { chainId });
   }
 
   /**
@@ -97,7 +106,8 @@ export class HealthMonitor {
     }
 
     // Return a copy to prevent external modification
-    return { ...health };
+    const pool = this.providerPools.get(chainId);
+    return pool ? { ...health, rpcEndpoints: pool.getEndpointStatuses() } : { ...health };
   }
 
   /**
@@ -190,6 +200,12 @@ export class HealthMonitor {
         .filter(result => result.status === 'rejected')
         .map(result => (result as PromiseRejectedResult).reason.message);
 
+      // Requests still succeed on a quarantined endpoint, but the chain has no healthy node left
+      const pool = this.providerPools.get(chainId);
+      if (pool && pool.getAvailableEndpointCount() === 0) {
+        serviceErrors.push('All RPC endpoints are quarantined');
+      }
+
       // Count active shards (simplified - would need actual shard discovery)
       const activeShards = await this.countActiveShards(services);
 
@@ -205,7 +221,7 @@ export class HealthMonitor {
       // Update metrics
       metrics.blockHeight = blockNumber;
       metrics.rpcLatency = rpcLatency;
-      metrics.activeConnections = 1; // Simplified
+      metrics.activeConnections = pool ? pool.getAvailableEndpointCount() : 1;
       metrics.errorRate = serviceErrors.length > 0 ? 100 : 0;
       metrics.uptime = health.isHealthy ? 100 : 0;
 
@@ -266,7 +282,7 @@ export class HealthMonitor {
       // For now, return a placeholder value
       return 0;
     } catch (error) {
-      console.error('Failed to count active shards:', error);
+      this.logger.error('Failed to count active shards', error);
       return 0;
     }
   }
@@ -290,7 +306,7 @@ export class HealthMonitor {
 
     if (errorCount >= this.config.errorThreshold) {
       health.isHealthy = false;
-      console.warn(`Chain ${chainId} marked as unhealthy after ${errorCount} consecutive errors`);
+      this.logger.warn('Chain marked as unhealthy', { chainId, consecutiveErrors: errorCount });
     }
   }
 
@@ -322,6 +338,6 @@ export class HealthMonitor {
     for (const chainId of this.monitoringIntervals.keys()) {
       this.stopMonitoring(chainId);
     }
-    console.log('Stopped all health monitoring');
+    this.logger.info('Stopped all health monitoring');
   }
 }
\ No newline at end of file
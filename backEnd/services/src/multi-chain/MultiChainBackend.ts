@@ -1,12 +1,32 @@
 import { ethers } from 'ethers';
 import { RouterService } from '../router/RouterService';
+import { DEFAULT_ROUTER_CONFIG } from '../router';
 import { CrossPoolRouterService } from '../cross-pool-router/CrossPoolRouterService';
 import { LiquidityRouterService } from '../liquidity-router/LiquidityRouterService';
+import { createDefaultConfig as createLiquidityRouterConfig } from '../liquidity-router';
+import { PersistenceStore } from '../persistence';
 import { ChainConfig, ChainHealth, ChainServiceInstances } from './types';
 import { ChainConfigManager } from './ChainConfigManager';
 import { HealthMonitor } from './HealthMonitor';
 import { ChainIsolationManager } from './ChainIsolationManager';
 import { FailureIsolationService } from './FailureIsolationService';
+import { RpcProviderPool } from './RpcProviderPool';
+import {
+  ChainConfigValidationError,
+  getChangedChainConfigFields,
+  requiresServiceRebuild,
+  validateChainConfig
+} from './ChainConfigSchema';
+import { Logger } from '../logging';
+
+/** Shard discovery settings shared by every chain's router service */
+const SHARD_DISCOVERY_DEFAULTS = {
+  refreshInterval: 30000,
+  minLiquidityThreshold: 0n,
+  maxCacheAge: 60000,
+  enableRealTimeMonitoring: true,
+  batchSize: 10
+};
 
 /**
  * Multi-Chain Backend Service
@@ -15,14 +35,21 @@ import { FailureIsolationService } from './FailureIsolationService';
  * Each chain operates independently with no shared state.
  */
 export class MultiChainBackend {
+  private logger = new Logger('MultiChainBackend');
   private chainServices: Map<number, ChainServiceInstances> = new Map();
   private configManager: ChainConfigManager;
   private healthMonitor: HealthMonitor;
   private isolationManager: ChainIsolationManager;
   private failureIsolation: FailureIsolationService;
   private supportedChains: Set<number> = new Set();
+  private persistence?: PersistenceStore;
 
-  constructor() {
+  /**
+   * @param persistence Store the chain services keep their state in; entries are keyed by chain,
+   *   so one store serves every chain. State is in memory only when omitted.
+   */
+  constructor(persistence?: PersistenceStore) {
+    this.persistence = persistence;
     this.configManager = new ChainConfigManager();
     this.healthMonitor = new HealthMonitor();
     this.isolationManager = new ChainIsolationManager();
@@ -37,21 +64,29 @@ export class MultiChainBackend {
       // Validate chain configuration
       this.validateChainConfig(config);
 
-      // Create isolated provider for this chain
-      const provider = new ethers.JsonRpcProvider(config.rpcEndpoint);
-
-      // Test connection
-      await this.testChainConnection(provider, chainId);
-
-      // Create chain-specific service instances
-      const services = await this.createChainServices(chainId, config, provider);
+      // Create isolated provider pool for this chain
+      const provider = await this.createProviderPool(chainId, config);
+
+      // Test connection and create chain-specific service instances
+      let services: ChainServiceInstances;
+      try {
+        await this.testChainConnection(provider, chainId);
+        services = await this.createChainServices(chainId, config, provider);
+      } catch (error) {
+        provider.destroy();
+        throw error;
+      }
 
       // Store services with complete isolation
       this.chainServices.set(chainId, services);
       this.supportedChains.add(chainId);
 
-      // Register with config manager
-      this.configManager.addChainConfig(chainId, config);
+      // Register with config manager; the file may already have been loaded into it
+      if (this.configManager.hasChainConfig(chainId)) {
+        this.configManager.updateChainConfig(chainId, config);
+      } else {
+        this.configManager.addChainConfig(chainId, config);
+      }
 
       // Create isolated context for this chain
       this.isolationManager.createChainContext(chainId, config, services);
@@ -59,9 +94,9 @@ export class MultiChainBackend {
       // Start health monitoring for this chain
       this.healthMonitor.startMonitoring(chainId, provider, services);
 
-      console.log(`Successfully added chain ${chainId} (${config.name})`);
+      this.logger.info('Added chain', { chainId, name: config.name });
     } catch (error) {
-      console.error(`Failed to add chain ${chainId}:`, error);
+      this.logger.error('Failed to add chain', { chainId, error });
       throw new Error(`Chain initialization failed: ${error.message}`);
     }
   }
@@ -162,7 +197,7 @@ export class MultiChainBackend {
     this.supportedChains.delete(chainId);
     this.configManager.removeChainConfig(chainId);
 
-    console.log(`Removed chain ${chainId} support`);
+    this.logger.info('Removed chain', { chainId });
   }
 
   /**
@@ -186,13 +221,17 @@ export class MultiChainBackend {
     // Validate updated configuration
     this.validateChainConfig(updatedConfig);
 
-    // Update configuration
-    this.configManager.updateChainConfig(chainId, updatedConfig);
-
-    // If RPC endpoint changed, recreate services
-    if (config.rpcEndpoint && config.rpcEndpoint !== currentConfig.rpcEndpoint) {
+    // Services read endpoints, block time, gas, contract and SAMM settings only when built
+    if (requiresServiceRebuild(getChangedChainConfigFields(currentConfig, updatedConfig))) {
       await this.recreateChainServices(chainId, updatedConfig);
+      return;
     }
+
+    // Update configuration
+    const services = { ...this.getChainServices(chainId), config: updatedConfig };
+    this.chainServices.set(chainId, services);
+    this.configManager.updateChainConfig(chainId, updatedConfig);
+    this.isolationManager.updateChainContext(chainId, updatedConfig, services);
   }
 
   /**
@@ -208,22 +247,48 @@ export class MultiChainBackend {
 
   /**
    * Create isolated service instances for a chain
+   * Each service restores its state from the persistence store before serving.
    */
   private async createChainServices(
     chainId: number,
     config: ChainConfig,
     provider: ethers.JsonRpcProvider
   ): Promise<ChainServiceInstances> {
-    // Create completely isolated service instances
-    const routerService = new RouterService(chainId, config, provider);
-    const crossPoolRouter = new CrossPoolRouterService(chainId, config, provider);
-    const liquidityRouter = new LiquidityRouterService(chainId, config, provider);
+    const persistence = this.persistence;
 
-    // Initialize services
+    // Create completely isolated service instances
+    const routerService = new RouterService({
+      ...DEFAULT_ROUTER_CONFIG,
+      chainConfig: {
+        ...SHARD_DISCOVERY_DEFAULTS,
+        chainId,
+        rpcEndpoint: config.rpcEndpoint,
+        poolFactoryAddress: config.contractAddresses.sammPoolFactory,
+        blockTime: config.blockTime
+      },
+      persistence
+    }, provider);
+    const crossPoolRouter = new CrossPoolRouterService(chainId, config, provider, persistence);
+    const liquidityRouter = new LiquidityRouterService({
+      ...createLiquidityRouterConfig(),
+      chains: [{
+        chainId,
+        name: config.name,
+        rpcEndpoint: config.rpcEndpoint,
+        contractAddresses: {
+          sammPoolFactory: config.contractAddresses.sammPoolFactory,
+          router: config.contractAddresses.router
+        },
+        blockTime: config.blockTime
+      }],
+      persistence
+    });
+
+    // Restore persisted state and start the services
     await Promise.all([
-      routerService.initialize(),
+      routerService.start(),
       crossPoolRouter.initialize(),
-      liquidityRouter.initialize()
+      liquidityRouter.start()
     ]);
 
     return {
@@ -235,28 +300,23 @@ export class MultiChainBackend {
     };
   }
 
+  /**
+   * Create a provider pool over the chain's RPC endpoints and rank them
+   */
+  private async createProviderPool(chainId: number, config: ChainConfig): Promise<RpcProviderPool> {
+    const provider = new RpcProviderPool(chainId, [config.rpcEndpoint, ...(config.rpcEndpoints || [])]);
+    await provider.probe();
+    provider.start();
+    return provider;
+  }
+
   /**
    * Validate chain configuration
    */
   private validateChainConfig(config: ChainConfig): void {
-    if (!config.chainId || config.chainId <= 0) {
-      throw new Error('Invalid chain ID');
-    }
-
-    if (!config.name || config.name.trim().length === 0) {
-      throw new Error('Chain name is required');
-    }
-
-    if (!config.rpcEndpoint || !config.rpcEndpoint.startsWith('http')) {
-      throw new Error('Valid RPC endpoint is required');
-    }
-
-    if (!config.nativeToken || !config.nativeToken.symbol) {
-      throw new Error('Native token configuration is required');
-    }
-
-    if (!config.contractAddresses) {
-      throw new Error('Contract addresses configuration is required');
+    const { issues } = validateChainConfig({ ...config, gasPrice: config.gasPrice?.toString() }, `chain ${config.chainId}`);
+    if (issues.length > 0) {
+      throw new ChainConfigValidationError(issues);
     }
   }
 
@@ -281,20 +341,34 @@ export class MultiChainBackend {
 
   /**
    * Recreate services for a chain (used when config changes)
+   * The new services are built and connected before the old ones are cleaned up,
+   * so a configuration that cannot connect leaves the chain running as it was.
    */
-  private async recreateChainServices(chainId: number, config: ChainConfig): Promise<void> {
-    // Clean up existing services
-    const existingServices = this.chainServices.get(chainId);
-    if (existingServices) {
-      await this.cleanupChainServices(existingServices);
+  async recreateChainServices(chainId: number, config: ChainConfig): Promise<void> {
+    if (!this.supportedChains.has(chainId)) {
+      throw new Error(`Chain ${chainId} is not supported`);
     }
+    this.validateChainConfig(config);
 
     // Create new provider and services
-    const provider = new ethers.JsonRpcProvider(config.rpcEndpoint);
-    await this.testChainConnection(provider, chainId);
-
-    const newServices = await this.createChainServices(chainId, config, provider);
+    const provider = await this.createProviderPool(chainId, config);
+    let newServices: ChainServiceInstances;
+    try {
+      await this.testChainConnection(provider, chainId);
+      newServices = await this.createChainServices(chainId, config, provider);
+    } catch (error) {
+      provider.destroy();
+      throw error;
+    }
+    const existingServices = this.chainServices.get(chainId);
     this.chainServices.set(chainId, newServices);
+    this.configManager.updateChainConfig(chainId, config);
+    this.isolationManager.updateChainContext(chainId, config, newServices);
+
+    // Clean up existing services
+    if (existingServices) {
+      await this.cleanupChainServices(existingServices);
+    }
 
     // Restart health monitoring
     this.healthMonitor.stopMonitoring(chainId);
@@ -308,12 +382,15 @@ export class MultiChainBackend {
     try {
       // Clean up each service
       await Promise.all([
-        services.routerService.cleanup?.(),
+        services.routerService.stop(),
         services.crossPoolRouter.cleanup?.(),
-        services.liquidityRouter.cleanup?.()
+        services.liquidityRouter.stop()
       ]);
     } catch (error) {
-      console.error('Error during service cleanup:', error);
+      this.logger.error('Error during service cleanup', error);
     }
+
+    // Stop probing the chain's RPC endpoints
+    services.provider.destroy();
   }
 }
\ No newline at end of file
@@ -25,13 +25,13 @@ export class MultiChainServiceIntegrator {
    * Integrate all services for a specific chain
    */
   async integrateChainServices(chainId: number): Promise<void> {
-    this.logger.info(`Integrating services for chain ${chainId}`);
+    this.logger.info('Integrating services', { chainId });
 
     try {
       const config = this.multiChainBackend.getChainConfig(chainId);
       
       // Create service coordinator for this chain
-      const coordinator = new ServiceCoordinator(chainId, config, this.logger);
+      const coordinator = new ServiceCoordinator(chainId, config, this.logger.forChain(chainId));
       
       // Get chain-specific services
       const routerService = this.multiChainBackend.getRouterService(chainId);
@@ -48,9 +48,9 @@ export class MultiChainServiceIntegrator {
       // Store coordinator
       this.serviceCoordination.set(chainId, coordinator);
 
-      this.logger.info(`Successfully integrated services for chain ${chainId}`);
+      this.logger.info('Integrated services', { chainId });
     } catch (error) {
-      this.logger.error(`Failed to integrate services for chain ${chainId}:`, error);
+      this.logger.error('Failed to integrate services', { chainId, error });
       throw error;
     }
   }
@@ -95,7 +95,7 @@ export class MultiChainServiceIntegrator {
     if (coordinator) {
       await coordinator.cleanup();
       this.serviceCoordination.delete(chainId);
-      this.logger.info(`Removed service integration for chain ${chainId}`);
+      this.logger.info('Removed service integration', { chainId });
     }
   }
 }
@@ -130,7 +130,7 @@ class ServiceCoordinator {
     crossPoolRouter: CrossPoolRouterService;
     liquidityRouter: LiquidityRouterService;
   }): Promise<void> {
-    this.logger.info(`Coordinating services for chain ${this.chainId}`);
+    this.logger.info('Coordinating services');
 
     try {
       // Store service references
@@ -152,9 +152,9 @@ class ServiceCoordinator {
         }
       };
 
-      this.logger.info(`Service coordination established for chain ${this.chainId}`);
+      this.logger.info('Service coordination established');
     } catch (error) {
-      this.logger.error(`Service coordination failed for chain ${this.chainId}:`, error);
+      this.logger.error('Service coordination failed', error);
       throw error;
     }
   }
@@ -186,7 +186,7 @@ class ServiceCoordinator {
     // Router service can query liquidity router for shard recommendations
     // Liquidity router can use router service for shard discovery
     
-    this.logger.debug(`Router-Liquidity coordination setup for chain ${this.chainId}`);
+    this.logger.debug('Router-Liquidity coordination set up');
   }
 
   /**
@@ -196,7 +196,7 @@ class ServiceCoordinator {
     // Cross-pool router uses router service for single-pool routing
     // Router service provides shard selection for cross-pool paths
     
-    this.logger.debug(`Cross-Pool-Router coordination setup for chain ${this.chainId}`);
+    this.logger.debug('Cross-Pool-Router coordination set up');
   }
 
   /**
@@ -206,7 +206,7 @@ class ServiceCoordinator {
     // Liquidity router uses router service for shard discovery
     // Router service can inform liquidity router of shard changes
     
-    this.logger.debug(`Liquidity-Router coordination setup for chain ${this.chainId}`);
+    this.logger.debug('Liquidity-Router coordination set up');
   }
 
   /**
@@ -220,7 +220,7 @@ class ServiceCoordinator {
    * Cleanup coordination
    */
   async cleanup(): Promise<void> {
-    this.logger.info(`Cleaning up service coordination for chain ${this.chainId}`);
+    this.logger.info('Cleaning up service coordination');
     
     // Clean up any coordination resources
     this.services = {};
@@ -0,0 +1,517 @@
+import { Server as HttpServer, IncomingMessage } from 'http';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { MultiChainBackend } from './MultiChainBackend';
+import { ApiKeyManager } from './ApiKeyManager';
+import { RouterService } from '../router/RouterService';
+import { ShardInfo, ShardRoutingRequest } from '../router/types';
+import {
+  ApiKeyRecord,
+  PoolUpdatesClientMessage,
+  PoolUpdatesServerMessage,
+  PoolUpdatesWebSocketConfig,
+  SwapIntent
+} from './types';
+import { Logger } from '../logging';
+
+const DEFAULT_CONFIG: PoolUpdatesWebSocketConfig = {
+  path: '/ws',
+  heartbeatIntervalMs: 30000,
+  requoteDebounceMs: 250,
+  maxSubscriptionsPerClient: 100,
+  maxKeylessSubscriptionsPerClient: 10,
+  maxConnectionsPerIp: 5,
+  quoteComputeUnits: 5
+};
+
+interface Subscription {
+  id: string;
+  channel: 'shards' | 'quote';
+  chainId: number;
+  pairKey: string;
+  intent?: SwapIntent;
+  requoteTimer?: NodeJS.Timeout;
+}
+
+interface ClientState {
+  socket: WebSocket;
+  ip: string;
+  /** Managed API key the connection was opened with */
+  apiKey?: ApiKeyRecord;
+  isAlive: boolean;
+  subscriptions: Map<string, Subscription>;
+}
+
+interface ChainListener {
+  routerService: RouterService;
+  onShard: (data: { shard: ShardInfo }) => void;
+}
+
+/**
+ * Pool Updates WebSocket Server
+ *
+ * Pushes shard updates per chain and token pair, and re-quotes open swap
+ * intents whenever a shard of their pair changes, so clients do not need to poll.
+ * Connections opened with a managed API key are checked against its scopes and
+ * every quote push is charged to its quotas; keyless connections are capped per IP.
+ */
+export class PoolUpdatesWebSocketServer {
+  private logger = new Logger('PoolUpdatesWebSocketServer');
+  private multiChainBackend: MultiChainBackend;
+  private apiKeyManager: ApiKeyManager;
+  private config: PoolUpdatesWebSocketConfig;
+  private wss: WebSocketServer | null = null;
+  private clients: Set<ClientState> = new Set();
+  private connectionsPerIp: Map<string, number> = new Map();
+  private upgradeKeys: WeakMap<IncomingMessage, ApiKeyRecord> = new WeakMap();
+  private chainListeners: Map<number, ChainListener> = new Map();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    multiChainBackend: MultiChainBackend,
+    apiKeyManager: ApiKeyManager = new ApiKeyManager(),
+    config: Partial<PoolUpdatesWebSocketConfig> = {}
+  ) {
+    this.multiChainBackend = multiChainBackend;
+    this.apiKeyManager = apiKeyManager;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Accept WebSocket connections on an HTTP server
+   */
+  attach(server: HttpServer): void {
+    if (this.wss) {
+      throw new Error('Pool updates WebSocket server is already attached');
+    }
+
+    this.wss = new WebSocketServer({
+      server,
+      path: this.config.path,
+      verifyClient: (info: { req: IncomingMessage }, done: (result: boolean, code?: number, message?: string) => void) =>
+        this.verifyUpgrade(info.req, done)
+    });
+    this.wss.on('connection', this.handleConnection.bind(this));
+
+    // Drop clients that stopped answering pings
+    this.heartbeatTimer = setInterval(() => {
+      for (const client of this.clients) {
+        if (!client.isAlive) {
+          client.socket.terminate();
+          continue;
+        }
+        client.isAlive = false;
+        client.socket.ping();
+      }
+    }, this.config.heartbeatIntervalMs);
+
+    this.logger.info('Pool updates WebSocket listening', { path: this.config.path });
+  }
+
+  /**
+   * Close all connections and stop listening to chain events
+   */
+  async close(): Promise<void> {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    for (const client of this.clients) {
+      this.clearSubscriptions(client);
+      client.socket.close(1001, 'Server shutting down');
+    }
+    this.clients.clear();
+    this.connectionsPerIp.clear();
+
+    for (const chainId of Array.from(this.chainListeners.keys())) {
+      this.detachChain(chainId);
+    }
+
+    if (this.wss) {
+      const wss = this.wss;
+      this.wss = null;
+      await new Promise<void>(resolve => wss.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Stop streaming a chain and notify its subscribers
+   */
+  removeChain(chainId: number): void {
+    this.detachChain(chainId);
+
+    for (const client of this.clients) {
+      for (const subscription of Array.from(client.subscriptions.values())) {
+        if (subscription.chainId !== chainId) continue;
+
+        this.removeSubscription(client, subscription.id);
+        this.send(client, { type: 'error', id: subscription.id, error: `Chain ${chainId} is no longer supported` });
+      }
+    }
+  }
+
+  /**
+   * Keep streaming a chain after its services were recreated
+   */
+  refreshChain(chainId: number): void {
+    if (!this.chainListeners.has(chainId)) return;
+
+    try {
+      this.attachChain(chainId);
+    } catch (error) {
+      this.logger.warn('Failed to refresh pool updates for chain', { chainId, error });
+    }
+  }
+
+  /**
+   * Get number of connected clients and open subscriptions
+   */
+  getStats(): { clients: number; subscriptions: number; chains: number } {
+    let subscriptions = 0;
+    for (const client of this.clients) {
+      subscriptions += client.subscriptions.size;
+    }
+    return { clients: this.clients.size, subscriptions, chains: this.chainListeners.size };
+  }
+
+  // Private methods
+
+  /**
+   * Authenticate an upgrade request before the connection opens
+   * The key is read from the `x-api-key` header, or the `apiKey` query
+   * parameter for browsers, which cannot set headers on a WebSocket.
+   */
+  private verifyUpgrade(req: IncomingMessage, done: (result: boolean, code?: number, message?: string) => void): void {
+    const header = req.headers['x-api-key'];
+    const apiKey = (Array.isArray(header) ? header[0] : header)
+      ?? new URL(req.url || '/', 'http://localhost').searchParams.get('apiKey');
+
+    if (apiKey) {
+      const record = this.apiKeyManager.authenticate(apiKey);
+      if (!record) {
+        return done(false, 401, 'Invalid or revoked API key');
+      }
+      this.upgradeKeys.set(req, record);
+      return done(true);
+    }
+
+    const ip = this.getRemoteAddress(req);
+    if ((this.connectionsPerIp.get(ip) || 0) >= this.config.maxConnectionsPerIp) {
+      return done(false, 429, 'Too many connections without an API key');
+    }
+    done(true);
+  }
+
+  /**
+   * Register a new client connection
+   */
+  private handleConnection(socket: WebSocket, req: IncomingMessage): void {
+    const client: ClientState = {
+      socket,
+      ip: this.getRemoteAddress(req),
+      apiKey: this.upgradeKeys.get(req),
+      isAlive: true,
+      subscriptions: new Map()
+    };
+    this.clients.add(client);
+    if (!client.apiKey) {
+      this.connectionsPerIp.set(client.ip, (this.connectionsPerIp.get(client.ip) || 0) + 1);
+    }
+
+    socket.on('pong', () => {
+      client.isAlive = true;
+    });
+
+    socket.on('message', (data: RawData) => {
+      this.handleMessage(client, data).catch(error => {
+        this.send(client, { type: 'error', error: error.message });
+      });
+    });
+
+    socket.on('close', () => {
+      this.clearSubscriptions(client);
+      this.clients.delete(client);
+      if (!client.apiKey) {
+        this.releaseConnection(client.ip);
+      }
+    });
+
+    socket.on('error', (error: Error) => {
+      this.logger.warn('Pool updates WebSocket error', { remoteAddress: client.ip, error });
+    });
+  }
+
+  /**
+   * Handle a client message
+   */
+  private async handleMessage(client: ClientState, data: RawData): Promise<void> {
+    let message: PoolUpdatesClientMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      throw new Error('Invalid JSON message');
+    }
+
+    switch (message?.type) {
+      case 'ping':
+        this.send(client, { type: 'pong', timestamp: Date.now() });
+        return;
+
+      case 'unsubscribe':
+        this.removeSubscription(client, message.id);
+        this.send(client, { type: 'unsubscribed', id: message.id });
+        return;
+
+      case 'subscribe':
+        await this.handleSubscribe(client, message);
+        return;
+
+      default:
+        throw new Error('Unknown message type');
+    }
+  }
+
+  /**
+   * Open a shard or quote subscription
+   * Subscribing again under an existing id replaces the subscription.
+   */
+  private async handleSubscribe(
+    client: ClientState,
+    message: Extract<PoolUpdatesClientMessage, { type: 'subscribe' }>
+  ): Promise<void> {
+    if (!message.id) {
+      throw new Error('Subscription id is required');
+    }
+
+    const chainId = Number(message.chainId);
+    const [tokenA, tokenB] = message.channel === 'quote'
+      ? [message.intent?.tokenA?.address, message.intent?.tokenB?.address]
+      : [message.tokenA, message.tokenB];
+
+    if (!tokenA || !tokenB) {
+      this.send(client, { type: 'error', id: message.id, error: 'tokenA and tokenB are required' });
+      return;
+    }
+    if (message.channel === 'quote' && !message.intent.outputAmount) {
+      this.send(client, { type: 'error', id: message.id, error: 'intent.outputAmount is required' });
+      return;
+    }
+    const maxSubscriptions = client.apiKey
+      ? this.config.maxSubscriptionsPerClient
+      : this.config.maxKeylessSubscriptionsPerClient;
+    if (!client.subscriptions.has(message.id) && client.subscriptions.size >= maxSubscriptions) {
+      this.send(client, { type: 'error', id: message.id, error: 'Too many subscriptions' });
+      return;
+    }
+    if (client.apiKey && !this.apiKeyManager.isAuthorized(client.apiKey, 'quote', chainId)) {
+      this.send(client, { type: 'error', id: message.id, error: `API key is not allowed to quote on chain ${chainId}` });
+      return;
+    }
+
+    try {
+      this.attachChain(chainId);
+    } catch (error) {
+      this.send(client, { type: 'error', id: message.id, error: error instanceof Error ? error.message : 'Unknown chain' });
+      return;
+    }
+
+    this.removeSubscription(client, message.id);
+    const subscription: Subscription = {
+      id: message.id,
+      channel: message.channel,
+      chainId,
+      pairKey: this.getPairKey(tokenA, tokenB),
+      intent: message.channel === 'quote' ? message.intent : undefined
+    };
+    client.subscriptions.set(subscription.id, subscription);
+    this.send(client, { type: 'subscribed', id: subscription.id, channel: subscription.channel });
+
+    // Quote subscribers get the current quote right away
+    if (subscription.channel === 'quote') {
+      await this.sendQuote(client, subscription);
+    }
+  }
+
+  /**
+   * Listen to the shard events of a chain's router service
+   * The listener is replaced when the chain's services were recreated.
+   */
+  private attachChain(chainId: number): void {
+    const routerService = this.multiChainBackend.getRouterService(chainId);
+    const existing = this.chainListeners.get(chainId);
+    if (existing?.routerService === routerService) return;
+
+    if (existing) {
+      this.detachChain(chainId);
+    }
+
+    const onShard = (data: { shard: ShardInfo }) => this.handleShardUpdate(chainId, data.shard);
+    routerService.on('shard-updated', onShard);
+    routerService.on('shard-discovered', onShard);
+    this.chainListeners.set(chainId, { routerService, onShard });
+  }
+
+  /**
+   * Stop listening to a chain's shard events
+   */
+  private detachChain(chainId: number): void {
+    const listener = this.chainListeners.get(chainId);
+    if (!listener) return;
+
+    listener.routerService.off('shard-updated', listener.onShard);
+    listener.routerService.off('shard-discovered', listener.onShard);
+    this.chainListeners.delete(chainId);
+  }
+
+  /**
+   * Fan a shard update out to the subscriptions of its pair
+   */
+  private handleShardUpdate(chainId: number, shard: ShardInfo): void {
+    const pairKey = this.getPairKey(shard.tokenA.address, shard.tokenB.address);
+    const timestamp = Date.now();
+
+    for (const client of this.clients) {
+      for (const subscription of client.subscriptions.values()) {
+        if (subscription.chainId !== chainId || subscription.pairKey !== pairKey) continue;
+
+        if (subscription.channel === 'shards') {
+          this.send(client, { type: 'shard-updated', id: subscription.id, chainId, shard, timestamp });
+        } else {
+          this.scheduleRequote(client, subscription);
+        }
+      }
+    }
+  }
+
+  /**
+   * Re-quote once per burst of shard updates
+   * A refresh cycle updates every shard of a pair in quick succession.
+   */
+  private scheduleRequote(client: ClientState, subscription: Subscription): void {
+    if (subscription.requoteTimer) return;
+
+    subscription.requoteTimer = setTimeout(() => {
+      subscription.requoteTimer = undefined;
+      if (client.subscriptions.get(subscription.id) !== subscription) return;
+
+      this.sendQuote(client, subscription).catch(error => {
+        this.logger.error('Failed to re-quote subscription', { subscriptionId: subscription.id, error });
+      });
+    }, this.config.requoteDebounceMs);
+  }
+
+  /**
+   * Quote a swap intent and send the result
+   */
+  private async sendQuote(client: ClientState, subscription: Subscription): Promise<void> {
+    const intent = subscription.intent!;
+    const chainId = subscription.chainId;
+
+    if (client.apiKey && !this.chargeQuote(client, subscription)) {
+      return;
+    }
+
+    try {
+      const request: ShardRoutingRequest = {
+        tokenPair: {
+          tokenA: { ...intent.tokenA, chainId },
+          tokenB: { ...intent.tokenB, chainId },
+          chainId
+        },
+        outputAmount: BigInt(intent.outputAmount),
+        maxInputAmount: intent.maxInputAmount !== undefined ? BigInt(intent.maxInputAmount) : undefined,
+        chainId,
+        slippageTolerance: intent.slippageTolerance,
+        allowSplit: intent.allowSplit
+      };
+
+      const result = await this.multiChainBackend.getRouterService(chainId).findOptimalShard(request);
+      this.send(client, { type: 'quote', id: subscription.id, chainId, result, timestamp: Date.now() });
+    } catch (error) {
+      this.send(client, { type: 'error', id: subscription.id, error: `Quote failed: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    }
+  }
+
+  /**
+   * Charge a quote push to the client's API key
+   * A revoked key closes the connection; over quota, the push is skipped.
+   * @returns Whether the quote may be sent
+   */
+  private chargeQuote(client: ClientState, subscription: Subscription): boolean {
+    const apiKey = client.apiKey!;
+    if (!this.apiKeyManager.isActive(apiKey)) {
+      client.socket.close(1008, 'API key revoked');
+      return false;
+    }
+
+    const decision = this.apiKeyManager.charge(apiKey, `WS ${this.config.path} quote`, this.config.quoteComputeUnits);
+    if (!decision.allowed) {
+      const quota = decision.reason === 'compute' ? 'Compute' : 'Request';
+      this.send(client, {
+        type: 'error',
+        id: subscription.id,
+        error: `${quota} quota exceeded for API key ${apiKey.id}, quotes resume at ${new Date(decision.resetAt).toISOString()}`
+      });
+    }
+    return decision.allowed;
+  }
+
+  /**
+   * Forget a closed keyless connection
+   */
+  private releaseConnection(ip: string): void {
+    const count = (this.connectionsPerIp.get(ip) || 0) - 1;
+    if (count > 0) {
+      this.connectionsPerIp.set(ip, count);
+    } else {
+      this.connectionsPerIp.delete(ip);
+    }
+  }
+
+  /**
+   * Address a connection is counted under
+   */
+  private getRemoteAddress(req: IncomingMessage): string {
+    return req.socket.remoteAddress || 'unknown';
+  }
+
+  /**
+   * Remove a subscription and its pending re-quote
+   */
+  private removeSubscription(client: ClientState, id: string): void {
+    const subscription = client.subscriptions.get(id);
+    if (!subscription) return;
+
+    if (subscription.requoteTimer) {
+      clearTimeout(subscription.requoteTimer);
+    }
+    client.subscriptions.delete(id);
+  }
+
+  /**
+   * Remove all subscriptions of a client
+   */
+  private clearSubscriptions(client: ClientState): void {
+    for (const id of Array.from(client.subscriptions.keys())) {
+      this.removeSubscription(client, id);
+    }
+  }
+
+  /**
+   * Order-independent key for a token pair
+   */
+  private getPairKey(tokenA: string, tokenB: string): string {
+    return [tokenA.toLowerCase(), tokenB.toLowerCase()].sort().join(':');
+  }
+
+  /**
+   * Send a message, encoding bigints as decimal strings
+   */
+  private send(client: ClientState, message: PoolUpdatesServerMessage): void {
+    if (client.socket.readyState !== WebSocket.OPEN) return;
+
+    client.socket.send(JSON.stringify(message, (_key, value) =>
+      typeof value === 'bigint' ? value.toString() : value
+    ));
+  }
+}
@@ -0,0 +1,320 @@
+import { ethers } from 'ethers';
+import { RpcEndpointStatus, RpcProviderPoolConfig } from './types';
+import { Logger } from '../logging';
+
+/** JSON-RPC error codes that mean "try another node" rather than "the call failed" */
+const RETRYABLE_RPC_CODES = [-32005];
+
+/** Weight of a new latency sample in the smoothed latency */
+const LATENCY_SMOOTHING = 0.3;
+
+const DEFAULT_CONFIG: RpcProviderPoolConfig = {
+  probeIntervalMs: 15000,
+  requestTimeoutMs: 10000,
+  failureThreshold: 3,
+  maxBlockLag: 5,
+  quarantineMs: 60000,
+  blockLagPenaltyMs: 250
+};
+
+interface PoolEndpoint {
+  url: string;
+  index: number;
+  provider: ethers.JsonRpcProvider;
+  latencyMs: number;
+  blockNumber: number;
+  /** Whether the last probe saw the pool's chain ID */
+  servesChain: boolean;
+  consecutiveFailures: number;
+  requests: number;
+  failures: number;
+  quarantineReason: RpcEndpointStatus['quarantineReason'];
+  quarantinedUntil: number | null;
+  lastError: string | null;
+  lastCheckedAt: number | null;
+}
+
+/**
+ * RPC Provider Pool
+ *
+ * A `JsonRpcProvider` backed by several RPC endpoints of one chain. Each request is
+ * sent to the best ranked endpoint and fails over to the next one when the node
+ * cannot be reached, so services built on it never see a single flaky node.
+ *
+ * Endpoints are probed periodically and ranked by smoothed latency plus a penalty
+ * per block they trail the most advanced endpoint. Endpoints that keep failing,
+ * lag too far behind or serve another chain are quarantined: they are only tried
+ * when every other endpoint has failed, until a probe after the quarantine finds
+ * them healthy again.
+ */
+export class RpcProviderPool extends ethers.JsonRpcProvider {
+  private logger: Logger;
+  private readonly chainId: number;
+  private readonly poolConfig: RpcProviderPoolConfig;
+  private endpoints: PoolEndpoint[];
+  private probeInterval: NodeJS.Timeout | null = null;
+  private nextProbeId = 1;
+
+  constructor(chainId: number, urls: string[], config: Partial<RpcProviderPoolConfig> = {}) {
+    const uniqueUrls = Array.from(new Set(urls));
+    if (uniqueUrls.length === 0) {
+      throw new Error(`No RPC endpoints configured for chain ${chainId}`);
+    }
+
+    // Requests never use the inherited connection; _send goes through the endpoints
+    super(uniqueUrls[0]);
+    this.chainId = chainId;
+    this.poolConfig = { ...DEFAULT_CONFIG, ...config };
+    this.logger = new Logger('RpcProviderPool', { chainId });
+
+    const network = ethers.Network.from(chainId);
+    this.endpoints = uniqueUrls.map((url, index) => {
+      const request = new ethers.FetchRequest(url);
+      request.timeout = this.poolConfig.requestTimeoutMs;
+
+      return {
+        url,
+        index,
+        provider: new ethers.JsonRpcProvider(request, network, { staticNetwork: network, batchMaxCount: 1 }),
+        latencyMs: 0,
+        blockNumber: 0,
+        servesChain: true,
+        consecutiveFailures: 0,
+        requests: 0,
+        failures: 0,
+        quarantineReason: null,
+        quarantinedUntil: null,
+        lastError: null,
+        lastCheckedAt: null
+      };
+    });
+  }
+
+  /**
+   * Probe the endpoints periodically
+   */
+  start(): void {
+    if (this.probeInterval) return;
+
+    this.probeInterval = setInterval(() => {
+      this.probe().catch(error => this.logger.error('RPC endpoint probe failed', error));
+    }, this.poolConfig.probeIntervalMs);
+    this.probeInterval.unref?.();
+  }
+
+  /**
+   * Stop probing
+   */
+  stop(): void {
+    if (this.probeInterval) {
+      clearInterval(this.probeInterval);
+      this.probeInterval = null;
+    }
+  }
+
+  /**
+   * Check every endpoint's chain ID and block number, then re-rank them
+   */
+  async probe(): Promise<void> {
+    await Promise.all(this.endpoints.map(endpoint => this.probeEndpoint(endpoint)));
+
+    const now = Date.now();
+    const highestBlock = this.getHighestBlock();
+    for (const endpoint of this.endpoints) {
+      // Unreachable and wrong-chain endpoints keep their quarantine until a clean probe
+      if (!endpoint.servesChain || endpoint.consecutiveFailures > 0) {
+        continue;
+      }
+
+      if (highestBlock - endpoint.blockNumber > this.poolConfig.maxBlockLag) {
+        this.quarantine(endpoint, 'lagging');
+      } else if (endpoint.quarantineReason && endpoint.quarantinedUntil !== null && endpoint.quarantinedUntil <= now) {
+        this.logger.info('RPC endpoint back in rotation', { url: maskRpcUrl(endpoint.url), previousReason: endpoint.quarantineReason });
+        endpoint.quarantineReason = null;
+        endpoint.quarantinedUntil = null;
+      }
+    }
+  }
+
+  /**
+   * Status of every endpoint, best ranked first
+   */
+  getEndpointStatuses(): RpcEndpointStatus[] {
+    const highestBlock = this.getHighestBlock();
+    return this.rankEndpoints().map(endpoint => ({
+      url: maskRpcUrl(endpoint.url),
+      available: endpoint.quarantineReason === null,
+      quarantineReason: endpoint.quarantineReason,
+      quarantinedUntil: endpoint.quarantinedUntil,
+      latencyMs: Math.round(endpoint.latencyMs),
+      blockNumber: endpoint.blockNumber,
+      blockLag: Math.max(0, highestBlock - endpoint.blockNumber),
+      consecutiveFailures: endpoint.consecutiveFailures,
+      requests: endpoint.requests,
+      failures: endpoint.failures,
+      lastError: endpoint.lastError,
+      lastCheckedAt: endpoint.lastCheckedAt
+    }));
+  }
+
+  /**
+   * Number of endpoints in rotation
+   */
+  getAvailableEndpointCount(): number {
+    return this.endpoints.filter(endpoint => endpoint.quarantineReason === null).length;
+  }
+
+  /**
+   * Send a request to the best endpoint, failing over to the others in rank order
+   */
+  async _send(payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult>> {
+    let lastError: unknown = null;
+
+    for (const endpoint of this.rankEndpoints()) {
+      const startTime = Date.now();
+      endpoint.requests++;
+
+      try {
+        const results = await endpoint.provider._send(payload);
+        const retryable = results.find(result => RETRYABLE_RPC_CODES.includes((result as unknown as ethers.JsonRpcError).error?.code));
+        if (retryable) {
+          throw new Error((retryable as unknown as ethers.JsonRpcError).error.message || 'RPC endpoint is rate limited');
+        }
+
+        this.recordSuccess(endpoint, Date.now() - startTime);
+        return results;
+      } catch (error) {
+        lastError = error;
+        this.recordFailure(endpoint, error instanceof Error ? error.message : 'Request failed');
+      }
+    }
+
+    throw lastError ?? new Error(`No RPC endpoints available for chain ${this.chainId}`);
+  }
+
+  /**
+   * Stop probing and release every endpoint's provider
+   */
+  destroy(): void {
+    this.stop();
+    for (const endpoint of this.endpoints) {
+      endpoint.provider.destroy();
+    }
+    super.destroy();
+  }
+
+  // Private methods
+
+  /**
+   * Endpoints in the order requests try them: in rotation before quarantined, then
+   * ones whose last request succeeded, then by latency plus the lag penalty, then by
+   * configured order
+   */
+  private rankEndpoints(): PoolEndpoint[] {
+    const highestBlock = this.getHighestBlock();
+    const score = (endpoint: PoolEndpoint) =>
+      endpoint.latencyMs + Math.max(0, highestBlock - endpoint.blockNumber) * this.poolConfig.blockLagPenaltyMs;
+
+    return [...this.endpoints].sort((a, b) =>
+      Number(a.quarantineReason !== null) - Number(b.quarantineReason !== null) ||
+      Number(a.consecutiveFailures > 0) - Number(b.consecutiveFailures > 0) ||
+      score(a) - score(b) ||
+      a.index - b.index
+    );
+  }
+
+  private async probeEndpoint(endpoint: PoolEndpoint): Promise<void> {
+    const startTime = Date.now();
+    try {
+      const [chainIdResult, blockResult] = await Promise.all([
+        endpoint.provider._send(this.createPayload('eth_chainId')),
+        endpoint.provider._send(this.createPayload('eth_blockNumber'))
+      ]);
+      const chainId = Number(readResult(chainIdResult));
+      const blockNumber = Number(readResult(blockResult));
+
+      endpoint.lastCheckedAt = Date.now();
+      endpoint.servesChain = chainId === this.chainId;
+      if (!endpoint.servesChain) {
+        endpoint.lastError = `Chain ID mismatch: expected ${this.chainId}, got ${chainId}`;
+        this.quarantine(endpoint, 'wrong-chain');
+        return;
+      }
+
+      endpoint.blockNumber = blockNumber;
+      this.recordSuccess(endpoint, Date.now() - startTime);
+    } catch (error) {
+      endpoint.lastCheckedAt = Date.now();
+      this.recordFailure(endpoint, error instanceof Error ? error.message : 'Probe failed');
+    }
+  }
+
+  private recordSuccess(endpoint: PoolEndpoint, latencyMs: number): void {
+    endpoint.latencyMs = endpoint.latencyMs === 0
+      ? latencyMs
+      : endpoint.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING;
+    endpoint.consecutiveFailures = 0;
+  }
+
+  private recordFailure(endpoint: PoolEndpoint, message: string): void {
+    endpoint.failures++;
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = message;
+
+    if (endpoint.consecutiveFailures >= this.poolConfig.failureThreshold) {
+      this.quarantine(endpoint, 'failures');
+    } else {
+      this.logger.debug('RPC request failed, failing over', { url: maskRpcUrl(endpoint.url), error: message });
+    }
+  }
+
+  private quarantine(endpoint: PoolEndpoint, reason: NonNullable<PoolEndpoint['quarantineReason']>): void {
+    const wasAvailable = endpoint.quarantineReason === null;
+    endpoint.quarantineReason = reason;
+    endpoint.quarantinedUntil = Date.now() + this.poolConfig.quarantineMs;
+
+    if (wasAvailable) {
+      this.logger.warn('RPC endpoint quarantined', {
+        url: maskRpcUrl(endpoint.url),
+        reason,
+        blockNumber: endpoint.blockNumber,
+        consecutiveFailures: endpoint.consecutiveFailures,
+        lastError: endpoint.lastError
+      });
+    }
+  }
+
+  private getHighestBlock(): number {
+    return Math.max(0, ...this.endpoints
+      .filter(endpoint => endpoint.servesChain)
+      .map(endpoint => endpoint.blockNumber));
+  }
+
+  private createPayload(method: string): ethers.JsonRpcPayload {
+    return { id: this.nextProbeId++, method, params: [], jsonrpc: '2.0' };
+  }
+}
+
+/**
+ * RPC URL safe to log or return: paths and queries often carry API keys
+ */
+export function maskRpcUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const hasSecret = parsed.pathname.length > 1 || parsed.search.length > 0 || parsed.username || parsed.password;
+    return `${parsed.protocol}//${parsed.host}${hasSecret ? '/…' : ''}`;
+  } catch {
+    return '[invalid url]';
+  }
+}
+
+function readResult(results: Array<ethers.JsonRpcResult>): unknown {
+  const [result] = results as Array<ethers.JsonRpcResult | ethers.JsonRpcError>;
+  if (!result) {
+    throw new Error('Empty RPC response');
+  }
+  if ('error' in result) {
+    throw new Error(result.error.message || `RPC error ${result.error.code}`);
+  }
+  return result.result;
+}
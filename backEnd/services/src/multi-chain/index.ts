@@ -1,10 +1,24 @@
 export { MultiChainBackend } from './MultiChainBackend';
 export { APIGateway } from './APIGateway';
+export { PoolUpdatesWebSocketServer } from './PoolUpdatesWebSocketServer';
 export { ChainConfigManager } from './ChainConfigManager';
+export { ChainConfigReloader, diffChainConfigs } from './ChainConfigReloader';
+export {
+  ChainConfigValidationError,
+  validateChainConfig,
+  validateChainConfigDocument,
+  serializeChainConfig,
+  getChangedChainConfigFields,
+  requiresServiceRebuild,
+  getChainEndpointName
+} from './ChainConfigSchema';
 export { HealthMonitor } from './HealthMonitor';
+export { RpcProviderPool, maskRpcUrl } from './RpcProviderPool';
 export { ChainIsolationManager } from './ChainIsolationManager';
 export { FailureIsolationService } from './FailureIsolationService';
 export { ChainSpecificRouter } from './ChainSpecificRouter';
+export { ApiKeyManager } from './ApiKeyManager';
+export { GatewayMetrics } from './GatewayMetrics';
 export { MultiChainServiceIntegrator } from './MultiChainServiceIntegrator';
 export { MultiChainSAMMService } from './main';
 export * from './types';
\ No newline at end of file
@@ -1,7 +1,10 @@
 import { MultiChainBackend } from './MultiChainBackend';
 import { APIGateway } from './APIGateway';
-import { ChainConfig } from './types';
-import * as fs from 'fs';
+import { ApiKeyManager } from './ApiKeyManager';
+import { ChainConfigReloader } from './ChainConfigReloader';
+import { getChainEndpointName } from './ChainConfigSchema';
+import { createPersistenceStore } from '../persistence';
+import { Logger } from '../logging';
 import * as path from 'path';
 
 /**
@@ -10,67 +13,91 @@ import * as path from 'path';
  * Integrates all chain-specific services with complete isolation
  */
 
+const logger = new Logger('MultiChainService');
+
 async function main() {
-  console.log('🚀 Starting SAMM Multi-Chain Backend Service');
+  logger.info('Starting SAMM Multi-Chain Backend Service');
   
   try {
+    // Shard snapshots, routing decisions, trades and service caches; without a
+    // database they only last until restart
+    const stateStore = process.env.STATE_DB
+      ? await createPersistenceStore({ type: 'sqlite', filename: process.env.STATE_DB })
+      : undefined;
+
     // Initialize multi-chain backend
-    const multiChainBackend = new MultiChainBackend();
-    
-    // Load chain configurations
-    const chainsConfigPath = path.join(__dirname, '../../config/chains.json');
-    const chainsConfig = JSON.parse(fs.readFileSync(chainsConfigPath, 'utf8'));
+    const multiChainBackend = new MultiChainBackend(stateStore);
     
-    // Add supported chains
-    for (const [chainName, config] of Object.entries(chainsConfig)) {
-      const chainConfig = config as ChainConfig;
-      
-      try {
-        await multiChainBackend.addChain(chainConfig.chainId, chainConfig);
-        console.log(`✅ Added chain: ${chainConfig.name} (${chainConfig.chainId})`);
-      } catch (error) {
-        console.error(`❌ Failed to add chain ${chainConfig.name}:`, error.message);
-      }
+    // Load chain configurations; the file is reloaded when it changes
+    const chainConfigReloader = new ChainConfigReloader(multiChainBackend, {
+      filePath: process.env.CHAIN_CONFIG_PATH || path.join(__dirname, '../../config/chains.json')
+    });
+    const initialLoad = await chainConfigReloader.reloadFromFile();
+    if (initialLoad.status === 'rejected') {
+      logger.error('Chain configuration rejected', { issues: initialLoad.issues });
+    }
+    for (const failure of initialLoad.failures) {
+      logger.error('Failed to add chain', failure);
     }
     
+    // Load API keys; without a database they only last until restart
+    const apiKeyStore = process.env.API_KEYS_DB
+      ? await createPersistenceStore({ type: 'sqlite', filename: process.env.API_KEYS_DB })
+      : undefined;
+    const apiKeyManager = new ApiKeyManager({}, apiKeyStore);
+    await apiKeyManager.restore();
+
     // Initialize API Gateway
-    const apiGateway = new APIGateway(multiChainBackend);
+    const apiGateway = new APIGateway(multiChainBackend, apiKeyManager, chainConfigReloader);
     const app = apiGateway.getApp();
     
     // Start server
     const port = process.env.PORT || 3000;
-    app.listen(port, () => {
-      console.log(`\n🌐 SAMM Multi-Chain Service running on port ${port}`);
-      console.log(`📊 Supported chains: ${multiChainBackend.getSupportedChains().length}`);
-      console.log(`🔗 Health check: http://localhost:${port}/health`);
-      console.log(`📋 Chains info: http://localhost:${port}/api/chains`);
+    const server = app.listen(port, () => {
+      logger.info('SAMM Multi-Chain Service running', {
+        port,
+        supportedChains: multiChainBackend.getSupportedChains().length,
+        health: `http://localhost:${port}/health`,
+        chains: `http://localhost:${port}/api/chains`,
+        poolUpdates: `ws://localhost:${port}/ws`
+      });
       
       // Log chain-specific endpoints
       for (const chainId of multiChainBackend.getSupportedChains()) {
         const config = multiChainBackend.getChainConfig(chainId);
-        const chainEndpoint = config.name.toLowerCase().replace(/\s+/g, '-');
-        console.log(`🔗 ${config.name}: http://localhost:${port}/api/${chainEndpoint}/info`);
+        const chainEndpoint = getChainEndpointName(config.name);
+        logger.info('Chain endpoint', { chainId, url: `http://localhost:${port}/api/${chainEndpoint}/info` });
       }
     });
+    apiGateway.attachWebSocketServer(server);
+
+    if (process.env.CHAIN_CONFIG_WATCH !== 'false') {
+      chainConfigReloader.start();
+    }
     
     // Graceful shutdown
     process.on('SIGTERM', async () => {
-      console.log('🛑 Shutting down gracefully...');
+      logger.info('Shutting down gracefully');
       
+      chainConfigReloader.stop();
+      await apiGateway.close();
       // Stop all chain monitoring
       for (const chainId of multiChainBackend.getSupportedChains()) {
         try {
           await multiChainBackend.removeChain(chainId);
         } catch (error) {
-          console.error(`Error removing chain ${chainId}:`, error);
+          logger.error('Error removing chain', { chainId, error });
         }
       }
+
+      await apiKeyStore?.close();
+      await stateStore?.close();
       
       process.exit(0);
     });
     
   } catch (error) {
-    console.error('💥 Failed to start multi-chain service:', error);
+    logger.error('Failed to start multi-chain service', error);
     process.exit(1);
   }
 }
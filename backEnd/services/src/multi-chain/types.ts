@@ -10,6 +10,9 @@ export interface ChainConfig {
   chainId: number;
   name: string;
   rpcEndpoint: string;
+  /** Further RPC endpoints for the same chain; requests fail over between all of them */
+  rpcEndpoints?: string[];
+  blockExplorer?: string;
   blockTime: number;
   gasPrice: bigint;
   contractAddresses: {
@@ -52,6 +55,45 @@ export interface ChainHealth {
   activeShards: number;
   errors: string[];
   lastChecked: Date;
+  /** Status of each RPC endpoint, best ranked first */
+  rpcEndpoints?: RpcEndpointStatus[];
+}
+
+/**
+ * RPC endpoint status within a chain's provider pool
+ */
+export interface RpcEndpointStatus {
+  /** Endpoint URL with any path or query (often an API key) masked */
+  url: string;
+  available: boolean;
+  quarantineReason: 'failures' | 'lagging' | 'wrong-chain' | null;
+  quarantinedUntil: number | null;
+  /** Smoothed request latency in milliseconds */
+  latencyMs: number;
+  blockNumber: number;
+  /** Blocks behind the most advanced endpoint */
+  blockLag: number;
+  consecutiveFailures: number;
+  requests: number;
+  failures: number;
+  lastError: string | null;
+  lastCheckedAt: number | null;
+}
+
+/**
+ * RPC provider pool settings
+ */
+export interface RpcProviderPoolConfig {
+  /** How often every endpoint is probed for its chain ID and block number */
+  probeIntervalMs: number;
+  requestTimeoutMs: number;
+  /** Consecutive failures before an endpoint is quarantined */
+  failureThreshold: number;
+  /** Blocks an endpoint may trail the most advanced one before it is quarantined */
+  maxBlockLag: number;
+  quarantineMs: number;
+  /** Latency charged per block of lag when ranking endpoints */
+  blockLagPenaltyMs: number;
 }
 
 /**
@@ -166,4 +208,202 @@ export interface ChainAuthConfig {
   apiKeyRequired: boolean;
   allowedOrigins: string[];
   rateLimiting: ChainRateLimitConfig;
-}
\ No newline at end of file
+}
+/**
+ * Pool updates WebSocket configuration
+ */
+export interface PoolUpdatesWebSocketConfig {
+  path: string;
+  heartbeatIntervalMs: number;
+  requoteDebounceMs: number;
+  maxSubscriptionsPerClient: number;
+  /** Subscription cap for connections opened without an API key */
+  maxKeylessSubscriptionsPerClient: number;
+  /** Connections one IP may open without an API key */
+  maxConnectionsPerIp: number;
+  /** Compute units charged to an API key for every quote push */
+  quoteComputeUnits: number;
+}
+
+/**
+ * Swap intent re-quoted on every shard update of its pair
+ * tokenA is paid in and outputAmount of tokenB is received.
+ */
+export interface SwapIntent {
+  tokenA: { address: string; symbol: string; decimals: number };
+  tokenB: { address: string; symbol: string; decimals: number };
+  outputAmount: string;
+  maxInputAmount?: string;
+  slippageTolerance?: number;
+  allowSplit?: boolean;
+}
+
+/**
+ * Messages sent by pool updates clients
+ * Subscription ids are chosen by the client so a reconnecting client can resubscribe under the same ids.
+ */
+export type PoolUpdatesClientMessage =
+  | { type: 'subscribe'; channel: 'shards'; id: string; chainId: number; tokenA: string; tokenB: string }
+  | { type: 'subscribe'; channel: 'quote'; id: string; chainId: number; intent: SwapIntent }
+  | { type: 'unsubscribe'; id: string }
+  | { type: 'ping' };
+
+/**
+ * Messages sent by the pool updates server
+ * Bigint values are sent as decimal strings.
+ */
+export type PoolUpdatesServerMessage =
+  | { type: 'subscribed'; id: string; channel: 'shards' | 'quote' }
+  | { type: 'unsubscribed'; id: string }
+  | { type: 'shard-updated'; id: string; chainId: number; shard: any; timestamp: number }
+  | { type: 'quote'; id: string; chainId: number; result: any; timestamp: number }
+  | { type: 'error'; id?: string; error: string }
+  | { type: 'pong'; timestamp: number };
+
+/**
+ * What an API key may call
+ * `quote` covers read-only routes (shards, routes, paths, pools); `execute` covers trade execution.
+ */
+export type ApiKeyScope = 'quote' | 'execute';
+
+/**
+ * Per-key limits, reset at the start of every window
+ */
+export interface ApiKeyQuota {
+  windowMs: number;
+  maxRequests: number;
+  maxComputeUnits: number;
+}
+
+/**
+ * Stored API key
+ * Only the SHA-256 hash of the secret is kept; the plaintext key is returned once, when issued.
+ */
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  /** Chains the key may call (empty for all chains) */
+  chainIds: number[];
+  quota: ApiKeyQuota;
+  createdAt: number;
+  /** Set when the key is revoked, or when a rotated key's grace period ends */
+  revokedAt: number | null;
+  /** Key that replaced this one */
+  rotatedTo: string | null;
+  lastUsedAt: number | null;
+}
+
+/**
+ * Usage of an API key in its current window and since it was issued
+ */
+export interface ApiKeyUsage {
+  keyId: string;
+  windowStart: number;
+  windowRequests: number;
+  windowComputeUnits: number;
+  totalRequests: number;
+  totalComputeUnits: number;
+  rejectedRequests: number;
+  /** Request counts keyed by route, e.g. `POST /router/execute` */
+  routes: Record<string, number>;
+}
+
+/**
+ * API key as exposed on the admin routes (no hash)
+ */
+export type ApiKeySummary = Omit<ApiKeyRecord, 'keyHash'> & { usage: ApiKeyUsage };
+
+/**
+ * Result of issuing or rotating a key
+ */
+export interface IssuedApiKey {
+  /** Plaintext key, shown only once */
+  apiKey: string;
+  key: ApiKeySummary;
+}
+
+/**
+ * Options for issuing a key
+ */
+export interface ApiKeyIssueRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  chainIds?: number[];
+  quota?: Partial<ApiKeyQuota>;
+}
+
+/**
+ * Outcome of charging a request to a key
+ */
+export interface ApiKeyQuotaDecision {
+  allowed: boolean;
+  reason?: 'requests' | 'compute';
+  remainingRequests: number;
+  remainingComputeUnits: number;
+  resetAt: number;
+}
+
+/**
+ * API key management configuration
+ */
+export interface ApiKeyManagerConfig {
+  defaultQuota: ApiKeyQuota;
+  /** How long a rotated key keeps working alongside its replacement */
+  rotationGracePeriodMs: number;
+}
+
+/**
+ * Problem found while validating a chain configuration
+ */
+export interface ChainConfigIssue {
+  /** Location of the offending value, e.g. `sepolia.contractAddresses.router` */
+  path: string;
+  message: string;
+}
+
+/**
+ * Change to one chain between two configurations
+ */
+export interface ChainConfigChange {
+  chainId: number;
+  fields: string[];
+  /** Whether the chain's provider and services have to be rebuilt */
+  recreate: boolean;
+  config: ChainConfig;
+}
+
+/**
+ * Difference between the running chain configuration and a new one
+ */
+export interface ChainConfigDiff {
+  added: ChainConfig[];
+  removed: number[];
+  changed: ChainConfigChange[];
+  unchanged: number[];
+}
+
+/**
+ * Outcome of validating and applying a chain configuration
+ * A configuration with any issue is rejected as a whole; failures are chains that
+ * passed validation but could not be added, removed or rebuilt.
+ */
+export interface ChainConfigReloadResult {
+  status: 'applied' | 'partial' | 'rejected' | 'unchanged';
+  source: 'file' | 'admin';
+  issues: ChainConfigIssue[];
+  diff: ChainConfigDiff | null;
+  failures: Array<{ chainId: number; action: 'add' | 'remove' | 'update'; error: string }>;
+  dryRun: boolean;
+  timestamp: number;
+}
+
+/**
+ * Chain configuration reloader settings
+ */
+export interface ChainConfigReloaderConfig {
+  filePath: string;
+  /** How often the file's modification time is checked */
+  pollIntervalMs: number;
+}
@@ -0,0 +1,324 @@
+/**
+ * Order Book
+ * Validates signed orders and tracks their status and fills
+ */
+
+import { EventEmitter } from 'events';
+import { ethers } from 'ethers';
+import {
+  OrderBookConfig,
+  OrderError,
+  OrderFill,
+  OrderQuery,
+  OrderRecord,
+  OrderStatus,
+  SignedOrder
+} from './types';
+import { getCancelMessage, getOrderDomain, hashOrder, recoverOrderSigner } from './orderSigning';
+import { Logger } from '../logging';
+
+/** Persistence namespace owned by the order book */
+const ORDER_NAMESPACE = 'orders:book';
+
+/** Upper bound on TWAP slices, keeps per-order keeper work bounded */
+export const MAX_ORDER_SLICES = 100;
+
+/** Consecutive reverted fills after which an order is marked failed */
+export const MAX_FILL_ATTEMPTS = 5;
+
+export const ORDER_STATUSES: OrderStatus[] = ['open', 'partially_filled', 'filled', 'cancelled', 'expired', 'failed'];
+
+const OPEN_STATUSES: OrderStatus[] = ['open', 'partially_filled'];
+
+/**
+ * Off-chain book of signed limit and TWAP orders for one settlement contract
+ */
+export class OrderBook extends EventEmitter {
+  private config: OrderBookConfig;
+  private logger: Logger;
+  private domain: ethers.TypedDataDomain;
+  private orders = new Map<string, OrderRecord>();
+
+  constructor(config: OrderBookConfig) {
+    super();
+    this.config = config;
+    this.logger = new Logger('OrderBook', { chainId: config.chainId });
+    this.domain = getOrderDomain(config.chainId, config.settlementAddress);
+  }
+
+  /**
+   * Load orders saved by a previous run
+   */
+  async initialize(): Promise<void> {
+    const persistence = this.config.persistence;
+    if (!persistence) return;
+
+    try {
+      const entries = await persistence.getCacheEntries<OrderRecord>(ORDER_NAMESPACE);
+      for (const entry of entries) {
+        if (entry.value.chainId === this.config.chainId) {
+          // Records saved before failure tracking have no attempt count
+          this.orders.set(entry.key, { ...entry.value, failedAttempts: entry.value.failedAttempts ?? 0 });
+        }
+      }
+      this.logger.info('Restored orders', { count: this.orders.size });
+    } catch (error) {
+      this.logger.error('Failed to restore orders from persistence', error);
+    }
+  }
+
+  /**
+   * EIP-712 domain makers sign orders for
+   */
+  getDomain(): ethers.TypedDataDomain {
+    return { ...this.domain };
+  }
+
+  /**
+   * Add a signed order
+   * @throws if the order is malformed, already expired, or not signed by its maker
+   */
+  async submit(order: SignedOrder, signature: string): Promise<OrderRecord> {
+    this.validateOrder(order);
+
+    let signer: string;
+    try {
+      signer = recoverOrderSigner(order, signature, this.domain);
+    } catch {
+      throw new Error(`${OrderError.INVALID_SIGNATURE}: Invalid order signature`);
+    }
+    if (signer.toLowerCase() !== order.maker.toLowerCase()) {
+      throw new Error(`${OrderError.INVALID_SIGNATURE}: Invalid order signature, not signed by the maker`);
+    }
+
+    const orderHash = hashOrder(order, this.domain);
+    if (this.orders.has(orderHash)) {
+      throw new Error(`${OrderError.DUPLICATE_ORDER}: Order ${orderHash} was already submitted`);
+    }
+
+    const now = Date.now();
+    const record: OrderRecord = {
+      orderHash,
+      chainId: this.config.chainId,
+      type: order.slices > 1 ? 'twap' : 'limit',
+      order: {
+        ...order,
+        maker: ethers.getAddress(order.maker),
+        tokenIn: ethers.getAddress(order.tokenIn),
+        tokenOut: ethers.getAddress(order.tokenOut)
+      },
+      signature,
+      status: 'open',
+      filledSlices: 0,
+      filledAmountIn: 0n,
+      filledAmountOut: 0n,
+      fills: [],
+      failedAttempts: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.orders.set(orderHash, record);
+    await this.persist(record);
+
+    this.logger.info('Order submitted', { orderHash, maker: record.order.maker, type: record.type });
+    this.emit('order-submitted', { order: record });
+    return record;
+  }
+
+  /**
+   * Get an order by hash
+   */
+  getOrder(orderHash: string): OrderRecord | null {
+    return this.orders.get(orderHash.toLowerCase()) ?? null;
+  }
+
+  /**
+   * List orders, most recent first
+   */
+  getOrders(query: OrderQuery = {}): OrderRecord[] {
+    const maker = query.maker?.toLowerCase();
+
+    return Array.from(this.orders.values())
+      .filter(record => !maker || record.order.maker.toLowerCase() === maker)
+      .filter(record => !query.status || query.status.includes(record.status))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Orders the keeper still has to fill
+   */
+  getOpenOrders(): OrderRecord[] {
+    return this.getOrders({ status: OPEN_STATUSES });
+  }
+
+  /**
+   * Cancel an order with the maker's signature of `getCancelMessage(orderHash)`
+   *
+   * This only stops the keeper from filling it; the signed order stays valid
+   * on-chain until the maker calls SAMMOrderSettlement.cancelOrder.
+   */
+  async cancel(orderHash: string, signature: string): Promise<OrderRecord> {
+    const record = this.requireOpenOrder(orderHash);
+
+    let signer: string;
+    try {
+      signer = ethers.verifyMessage(getCancelMessage(record.orderHash), signature);
+    } catch {
+      throw new Error(`${OrderError.INVALID_SIGNATURE}: Invalid cancel signature`);
+    }
+    if (signer.toLowerCase() !== record.order.maker.toLowerCase()) {
+      throw new Error(`${OrderError.INVALID_SIGNATURE}: Invalid cancel signature, not signed by the maker`);
+    }
+
+    return this.updateStatus(orderHash, 'cancelled');
+  }
+
+  /**
+   * Record a settled slice
+   */
+  async recordFill(orderHash: string, fill: OrderFill): Promise<OrderRecord> {
+    return this.syncFills(orderHash, fill.slice + 1, [fill]);
+  }
+
+  /**
+   * Bring an order in line with the settlement contract
+   * @param filledSlices Slices the contract reports as filled
+   * @param fills Settled slices to add; slices already recorded are skipped
+   */
+  async syncFills(orderHash: string, filledSlices: number, fills: OrderFill[]): Promise<OrderRecord> {
+    const record = this.requireOpenOrder(orderHash);
+
+    for (const fill of fills) {
+      if (record.fills.some(existing => existing.slice === fill.slice)) continue;
+
+      record.fills.push(fill);
+      record.filledAmountIn += fill.amountIn;
+      record.filledAmountOut += fill.amountOut;
+    }
+    record.fills.sort((a, b) => a.slice - b.slice);
+    record.filledSlices = Math.max(record.filledSlices, filledSlices);
+    record.status = record.filledSlices >= record.order.slices ? 'filled' : 'partially_filled';
+    record.lastError = undefined;
+    record.failedAttempts = 0;
+    record.retryAt = undefined;
+    record.updatedAt = Date.now();
+
+    await this.persist(record);
+    this.emit('order-updated', { order: record });
+    return record;
+  }
+
+  /**
+   * Move an open order to a closed status (expired, or cancelled on-chain)
+   */
+  async updateStatus(orderHash: string, status: 'cancelled' | 'expired'): Promise<OrderRecord> {
+    const record = this.requireOpenOrder(orderHash);
+
+    record.status = status;
+    record.updatedAt = Date.now();
+
+    await this.persist(record);
+    this.logger.info('Order closed', { orderHash: record.orderHash, status });
+    this.emit('order-updated', { order: record });
+    return record;
+  }
+
+  /**
+   * Record a reverted fill attempt
+   * The order is retried from `retryAt` and marked failed after MAX_FILL_ATTEMPTS
+   * consecutive reverts.
+   */
+  async recordError(orderHash: string, error: string, retryAt: number): Promise<OrderRecord | null> {
+    const record = this.getOrder(orderHash);
+    if (!record || !OPEN_STATUSES.includes(record.status)) return null;
+
+    record.lastError = error;
+    record.failedAttempts++;
+    record.retryAt = retryAt;
+    record.updatedAt = Date.now();
+    if (record.failedAttempts >= MAX_FILL_ATTEMPTS) {
+      record.status = 'failed';
+      this.logger.warn('Order failed', { orderHash: record.orderHash, attempts: record.failedAttempts, error });
+    }
+
+    await this.persist(record);
+    this.emit('order-updated', { order: record });
+    return record;
+  }
+
+  /**
+   * Postpone an order the keeper could not send, e.g. while the maker is underfunded
+   * Unlike a revert this does not count towards MAX_FILL_ATTEMPTS.
+   */
+  async deferOrder(orderHash: string, reason: string, retryAt: number): Promise<void> {
+    const record = this.getOrder(orderHash);
+    if (!record || !OPEN_STATUSES.includes(record.status)) return;
+
+    record.lastError = reason;
+    record.retryAt = retryAt;
+    await this.persist(record);
+  }
+
+  /**
+   * Get an order that can still be filled or cancelled
+   */
+  private requireOpenOrder(orderHash: string): OrderRecord {
+    const record = this.getOrder(orderHash);
+    if (!record) {
+      throw new Error(`${OrderError.ORDER_NOT_FOUND}: Order ${orderHash} not found`);
+    }
+    if (!OPEN_STATUSES.includes(record.status)) {
+      throw new Error(`${OrderError.ORDER_NOT_OPEN}: Order ${orderHash} is ${record.status}`);
+    }
+    return record;
+  }
+
+  /**
+   * Check order fields before accepting it
+   */
+  private validateOrder(order: SignedOrder): void {
+    const invalid = (reason: string) => new Error(`${OrderError.INVALID_ORDER}: Invalid order, ${reason}`);
+
+    for (const field of ['maker', 'tokenIn', 'tokenOut'] as const) {
+      if (!ethers.isAddress(order[field]) || order[field] === ethers.ZeroAddress) {
+        throw invalid(`${field} must be an address`);
+      }
+    }
+    if (order.tokenIn.toLowerCase() === order.tokenOut.toLowerCase()) {
+      throw invalid('tokenIn and tokenOut must differ');
+    }
+    if (order.amountOut <= 0n || order.maxAmountIn <= 0n) {
+      throw invalid('amountOut and maxAmountIn must be positive');
+    }
+    if (!Number.isInteger(order.slices) || order.slices < 1 || order.slices > MAX_ORDER_SLICES) {
+      throw invalid(`slices must be between 1 and ${MAX_ORDER_SLICES}`);
+    }
+    if (!Number.isInteger(order.interval) || order.interval < 0 || (order.slices > 1 && order.interval === 0)) {
+      throw invalid('a TWAP order needs a positive interval');
+    }
+    if (order.amountOut < BigInt(order.slices) || order.maxAmountIn < BigInt(order.slices)) {
+      throw invalid('every slice must buy and pay a positive amount');
+    }
+    if (!Number.isInteger(order.startTime) || !Number.isInteger(order.expiry)) {
+      throw invalid('startTime and expiry must be unix seconds');
+    }
+    if (order.expiry <= Math.floor(Date.now() / 1000)) {
+      throw invalid('order has already expired');
+    }
+    if (order.startTime + (order.slices - 1) * order.interval > order.expiry) {
+      throw invalid('last slice is due after expiry');
+    }
+  }
+
+  /**
+   * Save an order record
+   */
+  private async persist(record: OrderRecord): Promise<void> {
+    try {
+      await this.config.persistence?.setCacheEntry(ORDER_NAMESPACE, record.orderHash, record);
+    } catch (error) {
+      this.logger.error('Failed to persist order', error);
+    }
+  }
+}
@@ -0,0 +1,389 @@
+/**
+ * Order Keeper
+ * Fills due order slices through SAMMOrderSettlement once the router finds a
+ * shard that meets the order's limit price
+ */
+
+import { EventEmitter } from 'events';
+import { ethers } from 'ethers';
+import { OrderBook } from './OrderBook';
+import { OrderFill, OrderKeeperConfig, OrderRecord, SignedOrder } from './types';
+import { getSliceAmounts, getSliceDueTime } from './orderSigning';
+import { RouterService } from '../router/RouterService';
+import { TokenPair } from '../router/types';
+import { Logger } from '../logging';
+
+// Functions and events from ISAMMOrderSettlement.sol
+const ORDER_SETTLEMENT_ABI = [
+  'function fillOrder((address maker, address tokenIn, address tokenOut, uint256 amountOut, uint256 maxAmountIn, uint256 slices, uint256 interval, uint256 startTime, uint256 expiry, uint256 nonce) order, bytes signature, address pool) external returns (uint256 amountIn, uint256 amountOut)',
+  'function filledSlices(bytes32 orderHash) external view returns (uint256)',
+  'function cancelled(bytes32 orderHash) external view returns (bool)',
+  'event OrderFilled(bytes32 indexed orderHash, address indexed maker, address indexed pool, uint256 slice, uint256 amountIn, uint256 amountOut)'
+];
+
+const ERC20_ABI = [
+  'function balanceOf(address account) external view returns (uint256)',
+  'function allowance(address owner, address spender) external view returns (uint256)'
+];
+
+const DEFAULT_CHECK_INTERVAL = 15000;
+
+/** Longest wait between retries of an order whose fills revert */
+const MAX_RETRY_BACKOFF_MS = 10 * 60 * 1000;
+
+/**
+ * Keeper that settles signed orders on a single chain
+ *
+ * Orders are checked whenever the router reports a shard reserve update or a
+ * new order arrives, and on a timer so TWAP slices and expiries are picked up
+ * while the market is quiet. Time conditions use the latest block timestamp,
+ * the clock the settlement contract checks against.
+ */
+export class OrderKeeper extends EventEmitter {
+  private config: OrderKeeperConfig;
+  private routerService: RouterService;
+  private orderBook: OrderBook;
+  private provider: ethers.Provider;
+  private settlement: ethers.Contract;
+  private logger: Logger;
+
+  private checkTimer?: NodeJS.Timeout;
+  private checking = false;
+  private recheckRequested = false;
+  private readonly requestCheck = () => {
+    void this.checkOrders();
+  };
+
+  constructor(
+    config: OrderKeeperConfig,
+    routerService: RouterService,
+    orderBook: OrderBook,
+    signer: ethers.Signer
+  ) {
+    super();
+    if (!signer.provider) {
+      throw new Error('Order keeper signer must be connected to a provider');
+    }
+
+    this.config = config;
+    this.routerService = routerService;
+    this.orderBook = orderBook;
+    this.provider = signer.provider;
+    this.settlement = new ethers.Contract(config.settlementAddress, ORDER_SETTLEMENT_ABI, signer);
+    this.logger = new Logger('OrderKeeper', { chainId: config.chainId });
+  }
+
+  /**
+   * Start watching shard updates and new orders
+   */
+  start(): void {
+    if (this.checkTimer) return;
+
+    this.routerService.on('shard-updated', this.requestCheck);
+    this.orderBook.on('order-submitted', this.requestCheck);
+    this.checkTimer = setInterval(this.requestCheck, this.config.checkInterval ?? DEFAULT_CHECK_INTERVAL);
+
+    this.logger.info('Order keeper started', { settlementAddress: this.config.settlementAddress });
+    this.requestCheck();
+  }
+
+  /**
+   * Stop the keeper
+   */
+  stop(): void {
+    if (!this.checkTimer) return;
+
+    clearInterval(this.checkTimer);
+    this.checkTimer = undefined;
+    this.routerService.off('shard-updated', this.requestCheck);
+    this.orderBook.off('order-submitted', this.requestCheck);
+
+    this.logger.info('Order keeper stopped');
+  }
+
+  /**
+   * Expire stale orders and fill every due slice whose limit price is met
+   * A check requested while one is running runs again once it finishes.
+   * @returns Fills settled by this check
+   */
+  async checkOrders(): Promise<OrderFill[]> {
+    if (this.checking) {
+      this.recheckRequested = true;
+      return [];
+    }
+
+    this.checking = true;
+    const fills: OrderFill[] = [];
+
+    try {
+      const openOrders = this.orderBook.getOpenOrders();
+      if (openOrders.length === 0) return fills;
+
+      const block = await this.provider.getBlock('latest');
+      const now = block?.timestamp ?? Math.floor(Date.now() / 1000);
+
+      for (const record of openOrders) {
+        const fill = await this.processOrder(record, now);
+        if (fill) fills.push(fill);
+      }
+    } catch (error) {
+      this.logger.error('Order check failed', error);
+    } finally {
+      this.checking = false;
+      if (this.recheckRequested) {
+        this.recheckRequested = false;
+        this.requestCheck();
+      }
+    }
+
+    return fills;
+  }
+
+  /**
+   * Fill the next slice of an order if it is due and executable
+   */
+  private async processOrder(record: OrderRecord, now: number): Promise<OrderFill | null> {
+    const { order } = record;
+
+    if (now > order.expiry) {
+      await this.orderBook.updateStatus(record.orderHash, 'expired');
+      return null;
+    }
+
+    if (record.retryAt && Date.now() < record.retryAt) {
+      return null;
+    }
+
+    const slice = record.filledSlices;
+    if (now < getSliceDueTime(order, slice)) {
+      return null;
+    }
+
+    const tokenPair = this.getTokenPair(order);
+    if (!tokenPair) {
+      return null;
+    }
+
+    const { amountOut, maxAmountIn } = getSliceAmounts(order, slice);
+    const result = await this.routerService.findOptimalShard({
+      tokenPair,
+      outputAmount: amountOut,
+      maxInputAmount: maxAmountIn,
+      chainId: this.config.chainId,
+      slippageTolerance: 0
+    });
+
+    // No shard sells the slice at the order's price yet
+    if (!result.routing || result.routing.expectedAmountIn > maxAmountIn) {
+      return null;
+    }
+
+    // A restart or another filler may have moved the order on; re-plan next check
+    if (!await this.syncWithChain(record)) {
+      return null;
+    }
+
+    const shortfall = await this.getFundingShortfall(order, maxAmountIn);
+    if (shortfall) {
+      await this.orderBook.deferOrder(record.orderHash, shortfall, this.getRetryAt(record.failedAttempts + 1));
+      return null;
+    }
+
+    return this.fillSlice(record, slice, result.routing.poolAddress);
+  }
+
+  /**
+   * Settle one slice through `poolAddress`
+   * The call is simulated first so a fill that would revert costs no gas.
+   */
+  private async fillSlice(record: OrderRecord, slice: number, poolAddress: string): Promise<OrderFill | null> {
+    const args = [this.toContractOrder(record.order), record.signature, poolAddress];
+    let receipt: ethers.TransactionReceipt | null;
+
+    try {
+      await this.settlement.fillOrder.staticCall(...args);
+      const overrides = this.config.gasLimit ? { gasLimit: this.config.gasLimit } : {};
+      const tx = await this.settlement.fillOrder(...args, overrides);
+      receipt = await tx.wait();
+      if (!receipt || receipt.status !== 1) {
+        throw new Error('Fill transaction reverted');
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Fill failed';
+
+      // The maker cancelled on-chain, or the block clock passed the expiry
+      if (message.includes('SAMMOrderSettlement: cancelled')) {
+        await this.orderBook.updateStatus(record.orderHash, 'cancelled');
+      } else if (message.includes('SAMMOrderSettlement: expired')) {
+        await this.orderBook.updateStatus(record.orderHash, 'expired');
+      } else {
+        const updated = await this.orderBook.recordError(
+          record.orderHash,
+          message,
+          this.getRetryAt(record.failedAttempts + 1)
+        );
+        this.logger.warn('Order fill failed', {
+          orderHash: record.orderHash,
+          slice,
+          attempts: updated?.failedAttempts,
+          status: updated?.status,
+          error: message
+        });
+        this.emit('fill-failed', { order: updated ?? record, error: message });
+      }
+      return null;
+    }
+
+    const filled = receipt.logs
+      .map(log => this.parseLog(log))
+      .find(event => event?.name === 'OrderFilled' && event.args.orderHash === record.orderHash);
+
+    // Without the event the amounts are unknown; take them from the contract instead
+    if (!filled) {
+      this.logger.warn('Fill receipt has no OrderFilled event', {
+        orderHash: record.orderHash,
+        transactionHash: receipt.hash
+      });
+      await this.syncWithChain(record);
+      return null;
+    }
+
+    const fill: OrderFill = {
+      slice,
+      poolAddress,
+      amountIn: filled.args.amountIn,
+      amountOut: filled.args.amountOut,
+      transactionHash: receipt.hash,
+      timestamp: Date.now()
+    };
+
+    const updated = await this.orderBook.recordFill(record.orderHash, fill);
+    this.logger.info('Order slice filled', {
+      orderHash: record.orderHash,
+      slice,
+      poolAddress,
+      amountIn: fill.amountIn,
+      amountOut: fill.amountOut,
+      status: updated.status
+    });
+    this.emit('order-filled', { order: updated, fill });
+    return fill;
+  }
+
+  /**
+   * Reconcile an order with the settlement contract's cancel flag and slice counter
+   * Fills the book has not seen are read from OrderFilled logs.
+   * @returns true when the book already matched the contract
+   */
+  private async syncWithChain(record: OrderRecord): Promise<boolean> {
+    const [filledOnChain, cancelled] = await Promise.all([
+      this.settlement.filledSlices(record.orderHash) as Promise<bigint>,
+      this.settlement.cancelled(record.orderHash) as Promise<boolean>
+    ]);
+
+    if (cancelled) {
+      await this.orderBook.updateStatus(record.orderHash, 'cancelled');
+      return false;
+    }
+
+    const filledSlices = Number(filledOnChain);
+    if (filledSlices === record.filledSlices) {
+      return true;
+    }
+
+    let fills: OrderFill[] = [];
+    try {
+      const logs = await this.settlement.queryFilter(this.settlement.filters.OrderFilled(record.orderHash));
+      fills = await Promise.all(logs.map(async log => {
+        // `slice` is shadowed by Result.slice, so read the fields by name
+        const { slice, pool, amountIn, amountOut } = (log as ethers.EventLog).args.toObject();
+        const block = await log.getBlock();
+        return {
+          slice: Number(slice),
+          poolAddress: pool,
+          amountIn,
+          amountOut,
+          transactionHash: log.transactionHash,
+          timestamp: block.timestamp * 1000
+        };
+      }));
+    } catch (error) {
+      // The slice counter alone still keeps the keeper on schedule
+      this.logger.warn('Failed to read order fills', { orderHash: record.orderHash, error });
+    }
+
+    const updated = await this.orderBook.syncFills(record.orderHash, filledSlices, fills);
+    this.logger.info('Order synced with settlement contract', {
+      orderHash: record.orderHash,
+      filledSlices,
+      status: updated.status
+    });
+    return false;
+  }
+
+  /**
+   * Why the maker cannot pay a slice's input cap, or null when they can
+   * The contract pulls the full cap before swapping, so both balance and
+   * allowance must cover it.
+   */
+  private async getFundingShortfall(order: SignedOrder, maxAmountIn: bigint): Promise<string | null> {
+    const token = new ethers.Contract(order.tokenIn, ERC20_ABI, this.provider);
+    const [balance, allowance]: [bigint, bigint] = await Promise.all([
+      token.balanceOf(order.maker),
+      token.allowance(order.maker, this.config.settlementAddress)
+    ]);
+
+    if (balance < maxAmountIn) {
+      return 'Maker balance is below the slice input';
+    }
+    if (allowance < maxAmountIn) {
+      return 'Maker allowance to the settlement contract is below the slice input';
+    }
+    return null;
+  }
+
+  /**
+   * Exponential backoff from the check interval, capped at MAX_RETRY_BACKOFF_MS
+   */
+  private getRetryAt(attempt: number): number {
+    const base = this.config.checkInterval ?? DEFAULT_CHECK_INTERVAL;
+    return Date.now() + Math.min(base * 2 ** Math.max(0, attempt - 1), MAX_RETRY_BACKOFF_MS);
+  }
+
+  /**
+   * Router token pair with the order's input as tokenA, from a discovered shard
+   */
+  private getTokenPair(order: SignedOrder): TokenPair | null {
+    const tokenIn = order.tokenIn.toLowerCase();
+    const tokenOut = order.tokenOut.toLowerCase();
+
+    for (const shard of this.routerService.getAllShards()) {
+      const tokens = [shard.tokenA, shard.tokenB];
+      const input = tokens.find(token => token.address.toLowerCase() === tokenIn);
+      const output = tokens.find(token => token.address.toLowerCase() === tokenOut);
+      if (input && output) {
+        return { tokenA: input, tokenB: output, chainId: this.config.chainId };
+      }
+    }
+
+    return null;
+  }
+
+  private toContractOrder(order: SignedOrder) {
+    return {
+      ...order,
+      slices: BigInt(order.slices),
+      interval: BigInt(order.interval),
+      startTime: BigInt(order.startTime),
+      expiry: BigInt(order.expiry)
+    };
+  }
+
+  private parseLog(log: ethers.Log): ethers.LogDescription | null {
+    try {
+      return this.settlement.interface.parseLog(log);
+    } catch {
+      return null;
+    }
+  }
+}
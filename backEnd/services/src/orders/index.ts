@@ -0,0 +1,18 @@
+/**
+ * Orders - Main Export
+ * Signed limit and TWAP orders settled by a keeper through SAMMOrderSettlement
+ */
+
+export { OrderBook, MAX_ORDER_SLICES, MAX_FILL_ATTEMPTS, ORDER_STATUSES } from './OrderBook';
+export { OrderKeeper } from './OrderKeeper';
+export {
+  ORDER_TYPES,
+  getOrderDomain,
+  hashOrder,
+  recoverOrderSigner,
+  getCancelMessage,
+  getSliceAmounts,
+  getSliceDueTime
+} from './orderSigning';
+
+export * from './types';
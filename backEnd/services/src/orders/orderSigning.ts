@@ -0,0 +1,80 @@
+/**
+ * Order Signing
+ * EIP-712 domain, types and hashing shared with SAMMOrderSettlement
+ */
+
+import { ethers } from 'ethers';
+import { SignedOrder } from './types';
+
+/** Field order must match ORDER_TYPEHASH in SAMMOrderSettlement.sol */
+export const ORDER_TYPES: Record<string, ethers.TypedDataField[]> = {
+  Order: [
+    { name: 'maker', type: 'address' },
+    { name: 'tokenIn', type: 'address' },
+    { name: 'tokenOut', type: 'address' },
+    { name: 'amountOut', type: 'uint256' },
+    { name: 'maxAmountIn', type: 'uint256' },
+    { name: 'slices', type: 'uint256' },
+    { name: 'interval', type: 'uint256' },
+    { name: 'startTime', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' }
+  ]
+};
+
+/**
+ * EIP-712 domain of a settlement contract
+ */
+export function getOrderDomain(chainId: number, settlementAddress: string): ethers.TypedDataDomain {
+  return {
+    name: 'SAMMOrderSettlement',
+    version: '1',
+    chainId,
+    verifyingContract: settlementAddress
+  };
+}
+
+/**
+ * Order digest, equal to SAMMOrderSettlement.hashOrder
+ */
+export function hashOrder(order: SignedOrder, domain: ethers.TypedDataDomain): string {
+  return ethers.TypedDataEncoder.hash(domain, ORDER_TYPES, order);
+}
+
+/**
+ * Address that produced an order signature
+ */
+export function recoverOrderSigner(order: SignedOrder, signature: string, domain: ethers.TypedDataDomain): string {
+  return ethers.verifyTypedData(domain, ORDER_TYPES, order, signature);
+}
+
+/**
+ * Message a maker signs (EIP-191) to cancel an order off-chain
+ */
+export function getCancelMessage(orderHash: string): string {
+  return `Cancel SAMM order ${orderHash.toLowerCase()}`;
+}
+
+/**
+ * Output and input cap of one slice; the slices add up to the order exactly
+ * Mirrors SAMMOrderSettlement._sliceAmount.
+ */
+export function getSliceAmounts(order: SignedOrder, slice: number): { amountOut: bigint; maxAmountIn: bigint } {
+  const share = (total: bigint) => {
+    const slices = BigInt(order.slices);
+    const index = BigInt(slice);
+    return total * (index + 1n) / slices - total * index / slices;
+  };
+
+  return {
+    amountOut: share(order.amountOut),
+    maxAmountIn: share(order.maxAmountIn)
+  };
+}
+
+/**
+ * Time (unix seconds) slice `slice` becomes due
+ */
+export function getSliceDueTime(order: SignedOrder, slice: number): number {
+  return order.startTime + slice * order.interval;
+}
@@ -0,0 +1,192 @@
+/**
+ * Order Types
+ * Signed limit and TWAP orders and the records the keeper keeps for them
+ */
+
+import type { PersistenceStore } from '../persistence';
+
+/**
+ * Order as signed by its maker (SAMMOrderSettlement.Order)
+ *
+ * Buys exactly `amountOut` of `tokenOut` for at most `maxAmountIn` of `tokenIn`,
+ * split into `slices` equal parts. Slice `k` becomes due at
+ * `startTime + k * interval`. Times are unix seconds.
+ */
+export interface SignedOrder {
+  /** Account that signed the order and pays the input */
+  maker: string;
+
+  /** Token the maker sells */
+  tokenIn: string;
+
+  /** Token the maker buys */
+  tokenOut: string;
+
+  /** Total output to buy */
+  amountOut: bigint;
+
+  /** Total input the maker is willing to pay (sets the limit price) */
+  maxAmountIn: bigint;
+
+  /** Number of slices (1 for a limit order) */
+  slices: number;
+
+  /** Seconds between slices */
+  interval: number;
+
+  /** Time the first slice becomes due */
+  startTime: number;
+
+  /** Time after which no slice may be filled */
+  expiry: number;
+
+  /** Maker-chosen value that makes otherwise identical orders distinct */
+  nonce: bigint;
+}
+
+/**
+ * limit = single slice, twap = several slices spread over time
+ */
+export type OrderType = 'limit' | 'twap';
+
+/**
+ * Order lifecycle
+ *
+ * open -> partially_filled -> filled
+ * open | partially_filled -> cancelled | expired | failed
+ *
+ * failed = fills kept reverting; see MAX_FILL_ATTEMPTS
+ */
+export type OrderStatus = 'open' | 'partially_filled' | 'filled' | 'cancelled' | 'expired' | 'failed';
+
+/**
+ * One settled slice of an order
+ */
+export interface OrderFill {
+  /** Slice index */
+  slice: number;
+
+  /** Shard the slice was swapped through */
+  poolAddress: string;
+
+  /** Input paid by the maker */
+  amountIn: bigint;
+
+  /** Output received by the maker */
+  amountOut: bigint;
+
+  /** Settlement transaction hash */
+  transactionHash: string;
+
+  /** Fill time in milliseconds */
+  timestamp: number;
+}
+
+/**
+ * An order tracked by the order book
+ */
+export interface OrderRecord {
+  /** EIP-712 digest of the order, as returned by SAMMOrderSettlement.hashOrder */
+  orderHash: string;
+
+  /** Chain ID the order settles on */
+  chainId: number;
+
+  type: OrderType;
+
+  order: SignedOrder;
+
+  /** Maker's EIP-712 signature */
+  signature: string;
+
+  status: OrderStatus;
+
+  /** Slices settled so far */
+  filledSlices: number;
+
+  /** Input paid across all fills */
+  filledAmountIn: bigint;
+
+  /** Output received across all fills */
+  filledAmountOut: bigint;
+
+  fills: OrderFill[];
+
+  /** Last failed or deferred fill attempt, cleared by the next successful fill */
+  lastError?: string;
+
+  /** Consecutive fill attempts that reverted */
+  failedAttempts: number;
+
+  /** Time in milliseconds before which the keeper does not retry the order */
+  retryAt?: number;
+
+  /** Submission time in milliseconds */
+  createdAt: number;
+
+  /** Last status change in milliseconds */
+  updatedAt: number;
+}
+
+/**
+ * Filters for listing orders
+ */
+export interface OrderQuery {
+  /** Restrict to a maker */
+  maker?: string;
+
+  /** Restrict to statuses */
+  status?: OrderStatus[];
+}
+
+/**
+ * Order book configuration
+ */
+export interface OrderBookConfig {
+  /** Chain ID orders settle on */
+  chainId: number;
+
+  /** SAMMOrderSettlement address (the EIP-712 verifying contract) */
+  settlementAddress: string;
+
+  /** Store for order records across restarts */
+  persistence?: PersistenceStore;
+}
+
+/**
+ * Order keeper configuration
+ */
+export interface OrderKeeperConfig {
+  /** Chain ID orders settle on */
+  chainId: number;
+
+  /** SAMMOrderSettlement address */
+  settlementAddress: string;
+
+  /** Milliseconds between scheduled checks (TWAP slices and expiry) */
+  checkInterval?: number;
+
+  /** Gas limit for fill transactions */
+  gasLimit?: number;
+}
+
+/**
+ * Error types for orders
+ */
+export enum OrderError {
+  INVALID_ORDER = 'INVALID_ORDER',
+  INVALID_SIGNATURE = 'INVALID_SIGNATURE',
+  DUPLICATE_ORDER = 'DUPLICATE_ORDER',
+  ORDER_NOT_FOUND = 'ORDER_NOT_FOUND',
+  ORDER_NOT_OPEN = 'ORDER_NOT_OPEN'
+}
+
+/**
+ * Event types for the order book and keeper
+ */
+export interface OrderEvents {
+  'order-submitted': { order: OrderRecord };
+  'order-updated': { order: OrderRecord };
+  'order-filled': { order: OrderRecord; fill: OrderFill };
+  'fill-failed': { order: OrderRecord; error: string };
+}
@@ -0,0 +1,184 @@
+/**
+ * In-Memory Persistence Store
+ * Keeps records in process memory; used for tests and single-run deployments
+ */
+
+import {
+  PersistenceStore,
+  ShardSnapshotRecord,
+  RoutingDecisionRecord,
+  TradeRecord,
+  CacheEntryRecord,
+  HistoryQuery
+} from './types';
+import { encodeValue, decodeValue } from './serialization';
+
+interface StoredCacheEntry {
+  namespace: string;
+  key: string;
+  value: string;
+  updatedAt: number;
+  expiresAt: number | null;
+}
+
+export class InMemoryPersistenceStore implements PersistenceStore {
+  private shardSnapshots: ShardSnapshotRecord[] = [];
+  private routingDecisions: RoutingDecisionRecord[] = [];
+  private trades: TradeRecord[] = [];
+  private cacheEntries = new Map<string, StoredCacheEntry>();
+  private nextDecisionId = 1;
+  private nextTradeId = 1;
+
+  async initialize(): Promise<void> {
+    // Nothing to open
+  }
+
+  async close(): Promise<void> {
+    this.shardSnapshots = [];
+    this.routingDecisions = [];
+    this.trades = [];
+    this.cacheEntries.clear();
+  }
+
+  async saveShardSnapshots(snapshots: ShardSnapshotRecord[]): Promise<void> {
+    for (const snapshot of snapshots) {
+      this.shardSnapshots.push(decodeValue<ShardSnapshotRecord>(encodeValue(snapshot)));
+    }
+  }
+
+  async getShardSnapshots(query: HistoryQuery = {}): Promise<ShardSnapshotRecord[]> {
+    return this.applyQuery(
+      this.shardSnapshots.filter(snapshot =>
+        !query.poolAddress || snapshot.poolAddress.toLowerCase() === query.poolAddress.toLowerCase()
+      ),
+      query
+    );
+  }
+
+  async getLatestShardSnapshots(chainId: number): Promise<ShardSnapshotRecord[]> {
+    const latest = new Map<string, ShardSnapshotRecord>();
+
+    for (const snapshot of this.shardSnapshots) {
+      if (snapshot.chainId !== chainId) continue;
+
+      const key = snapshot.poolAddress.toLowerCase();
+      const current = latest.get(key);
+      if (!current || snapshot.timestamp >= current.timestamp) {
+        latest.set(key, snapshot);
+      }
+    }
+
+    return Array.from(latest.values());
+  }
+
+  async recordRoutingDecision(decision: RoutingDecisionRecord): Promise<void> {
+    this.routingDecisions.push({ ...decision, poolAddresses: [...decision.poolAddresses], id: this.nextDecisionId++ });
+  }
+
+  async getRoutingDecisions(query: HistoryQuery = {}): Promise<RoutingDecisionRecord[]> {
+    return this.applyQuery(
+      this.routingDecisions.filter(decision => this.involvesPool(decision.poolAddresses, query.poolAddress)),
+      query
+    );
+  }
+
+  async recordTrade(trade: TradeRecord): Promise<void> {
+    this.trades.push({ ...trade, poolAddresses: [...trade.poolAddresses], id: this.nextTradeId++ });
+  }
+
+  async getTrades(query: HistoryQuery = {}): Promise<TradeRecord[]> {
+    return this.applyQuery(
+      this.trades.filter(trade => this.involvesPool(trade.poolAddresses, query.poolAddress)),
+      query
+    );
+  }
+
+  async setCacheEntry<T>(namespace: string, key: string, value: T, ttlMs?: number): Promise<void> {
+    const now = Date.now();
+    this.cacheEntries.set(this.cacheKey(namespace, key), {
+      namespace,
+      key,
+      value: encodeValue(value),
+      updatedAt: now,
+      expiresAt: ttlMs !== undefined ? now + ttlMs : null
+    });
+  }
+
+  async getCacheEntry<T>(namespace: string, key: string): Promise<CacheEntryRecord<T> | null> {
+    const entry = this.cacheEntries.get(this.cacheKey(namespace, key));
+    if (!entry) return null;
+
+    if (this.isExpired(entry, Date.now())) {
+      this.cacheEntries.delete(this.cacheKey(namespace, key));
+      return null;
+    }
+
+    return { ...entry, value: decodeValue<T>(entry.value) };
+  }
+
+  async getCacheEntries<T>(namespace: string): Promise<CacheEntryRecord<T>[]> {
+    const now = Date.now();
+
+    return Array.from(this.cacheEntries.values())
+      .filter(entry => entry.namespace === namespace && !this.isExpired(entry, now))
+      .map(entry => ({ ...entry, value: decodeValue<T>(entry.value) }));
+  }
+
+  async deleteCacheEntry(namespace: string, key: string): Promise<void> {
+    this.cacheEntries.delete(this.cacheKey(namespace, key));
+  }
+
+  async clearCacheNamespace(namespace: string): Promise<void> {
+    for (const [key, entry] of this.cacheEntries.entries()) {
+      if (entry.namespace === namespace) {
+        this.cacheEntries.delete(key);
+      }
+    }
+  }
+
+  async prune(olderThan: number): Promise<void> {
+    this.shardSnapshots = this.shardSnapshots.filter(snapshot => snapshot.timestamp >= olderThan);
+    this.routingDecisions = this.routingDecisions.filter(decision => decision.timestamp >= olderThan);
+    this.trades = this.trades.filter(trade => trade.timestamp >= olderThan);
+
+    const now = Date.now();
+    for (const [key, entry] of this.cacheEntries.entries()) {
+      if (this.isExpired(entry, now)) {
+        this.cacheEntries.delete(key);
+      }
+    }
+  }
+
+  // Private methods
+
+  private applyQuery<T extends { chainId: number; timestamp: number; source?: string }>(
+    records: T[],
+    query: HistoryQuery
+  ): T[] {
+    const matches = records
+      .filter(record =>
+        (query.chainId === undefined || record.chainId === query.chainId) &&
+        (query.source === undefined || record.source === query.source) &&
+        (query.since === undefined || record.timestamp >= query.since) &&
+        (query.until === undefined || record.timestamp <= query.until)
+      )
+      .sort((a, b) => b.timestamp - a.timestamp);
+
+    // Same as the SQLite store: a limit that is not a finite number is ignored
+    if (query.limit === undefined || !Number.isFinite(query.limit)) return matches;
+    return matches.slice(0, Math.max(0, Math.floor(query.limit)));
+  }
+
+  private involvesPool(poolAddresses: string[], poolAddress?: string): boolean {
+    if (!poolAddress) return true;
+    return poolAddresses.some(address => address.toLowerCase() === poolAddress.toLowerCase());
+  }
+
+  private isExpired(entry: StoredCacheEntry, now: number): boolean {
+    return entry.expiresAt !== null && entry.expiresAt <= now;
+  }
+
+  private cacheKey(namespace: string, key: string): string {
+    return `${namespace}:${key}`;
+  }
+}
@@ -0,0 +1,400 @@
+/**
+ * SQLite Persistence Store
+ * Embedded single-file storage backed by better-sqlite3
+ *
+ * Amounts are stored as decimal strings so that uint256 values are never
+ * truncated; SQLite integers are limited to 64 bits.
+ */
+
+import Database from 'better-sqlite3';
+import {
+  PersistenceStore,
+  ShardSnapshotRecord,
+  RoutingDecisionRecord,
+  TradeRecord,
+  CacheEntryRecord,
+  HistoryQuery,
+  PersistenceSource
+} from './types';
+import { encodeValue, decodeValue } from './serialization';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS shard_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    chain_id INTEGER NOT NULL,
+    pool_address TEXT NOT NULL,
+    shard_id TEXT NOT NULL,
+    token_a TEXT NOT NULL,
+    token_b TEXT NOT NULL,
+    reserve_a TEXT NOT NULL,
+    reserve_b TEXT NOT NULL,
+    total_supply TEXT NOT NULL,
+    samm_params TEXT NOT NULL,
+    fees TEXT NOT NULL,
+    status TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_shard_snapshots_pool
+    ON shard_snapshots (chain_id, pool_address, timestamp);
+
+  CREATE TABLE IF NOT EXISTS routing_decisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    chain_id INTEGER NOT NULL,
+    source TEXT NOT NULL,
+    token_in TEXT NOT NULL,
+    token_out TEXT NOT NULL,
+    amount_in TEXT,
+    amount_out TEXT NOT NULL,
+    pool_addresses TEXT NOT NULL,
+    success INTEGER NOT NULL,
+    error TEXT,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_routing_decisions_time
+    ON routing_decisions (chain_id, timestamp);
+
+  CREATE TABLE IF NOT EXISTS trades (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    chain_id INTEGER NOT NULL,
+    source TEXT NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    token_in TEXT NOT NULL,
+    token_out TEXT NOT NULL,
+    amount_in TEXT NOT NULL,
+    amount_out TEXT NOT NULL,
+    fee TEXT NOT NULL,
+    gas_used TEXT NOT NULL,
+    pool_addresses TEXT NOT NULL,
+    success INTEGER NOT NULL,
+    error TEXT,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_trades_time
+    ON trades (chain_id, timestamp);
+
+  CREATE TABLE IF NOT EXISTS cache_entries (
+    namespace TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    updated_at INTEGER NOT NULL,
+    expires_at INTEGER,
+    PRIMARY KEY (namespace, key)
+  );
+`;
+
+export class SQLitePersistenceStore implements PersistenceStore {
+  private db: Database.Database | null = null;
+
+  constructor(private filename: string) {}
+
+  async initialize(): Promise<void> {
+    if (this.db) return;
+
+    this.db = new Database(this.filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  async close(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+
+  async saveShardSnapshots(snapshots: ShardSnapshotRecord[]): Promise<void> {
+    const db = this.getDatabase();
+    const insert = db.prepare(`
+      INSERT INTO shard_snapshots (
+        chain_id, pool_address, shard_id, token_a, token_b, reserve_a, reserve_b,
+        total_supply, samm_params, fees, status, timestamp
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const insertAll = db.transaction((records: ShardSnapshotRecord[]) => {
+      for (const snapshot of records) {
+        insert.run(
+          snapshot.chainId,
+          snapshot.poolAddress.toLowerCase(),
+          snapshot.shardId,
+          JSON.stringify(snapshot.tokenA),
+          JSON.stringify(snapshot.tokenB),
+          snapshot.reserveA.toString(),
+          snapshot.reserveB.toString(),
+          snapshot.totalSupply.toString(),
+          JSON.stringify(snapshot.sammParams),
+          JSON.stringify(snapshot.fees),
+          snapshot.status,
+          snapshot.timestamp
+        );
+      }
+    });
+
+    insertAll(snapshots);
+  }
+
+  async getShardSnapshots(query: HistoryQuery = {}): Promise<ShardSnapshotRecord[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.poolAddress) {
+      conditions.push('pool_address = ?');
+      params.push(query.poolAddress.toLowerCase());
+    }
+    this.addCommonConditions(query, conditions, params, false);
+
+    const rows = this.getDatabase()
+      .prepare(`SELECT * FROM shard_snapshots ${this.buildWhere(conditions)} ORDER BY timestamp DESC, id DESC ${this.buildLimit(query)}`)
+      .all(...params);
+
+    return rows.map((row: any) => this.toShardSnapshot(row));
+  }
+
+  async getLatestShardSnapshots(chainId: number): Promise<ShardSnapshotRecord[]> {
+    const rows = this.getDatabase()
+      .prepare(`
+        SELECT s.* FROM shard_snapshots s
+        WHERE s.chain_id = ? AND s.id = (
+          SELECT latest.id FROM shard_snapshots latest
+          WHERE latest.chain_id = s.chain_id AND latest.pool_address = s.pool_address
+          ORDER BY latest.timestamp DESC, latest.id DESC
+          LIMIT 1
+        )
+      `)
+      .all(chainId);
+
+    return rows.map((row: any) => this.toShardSnapshot(row));
+  }
+
+  async recordRoutingDecision(decision: RoutingDecisionRecord): Promise<void> {
+    this.getDatabase()
+      .prepare(`
+        INSERT INTO routing_decisions (
+          chain_id, source, token_in, token_out, amount_in, amount_out,
+          pool_addresses, success, error, timestamp
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        decision.chainId,
+        decision.source,
+        decision.tokenIn,
+        decision.tokenOut,
+        decision.amountIn !== null ? decision.amountIn.toString() : null,
+        decision.amountOut.toString(),
+        JSON.stringify(decision.poolAddresses.map(address => address.toLowerCase())),
+        decision.success ? 1 : 0,
+        decision.error ?? null,
+        decision.timestamp
+      );
+  }
+
+  async getRoutingDecisions(query: HistoryQuery = {}): Promise<RoutingDecisionRecord[]> {
+    const rows = this.queryHistory('routing_decisions', query);
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      chainId: row.chain_id,
+      source: row.source as PersistenceSource,
+      tokenIn: row.token_in,
+      tokenOut: row.token_out,
+      amountIn: row.amount_in !== null ? BigInt(row.amount_in) : null,
+      amountOut: BigInt(row.amount_out),
+      poolAddresses: JSON.parse(row.pool_addresses),
+      success: row.success === 1,
+      error: row.error ?? undefined,
+      timestamp: row.timestamp
+    }));
+  }
+
+  async recordTrade(trade: TradeRecord): Promise<void> {
+    this.getDatabase()
+      .prepare(`
+        INSERT INTO trades (
+          chain_id, source, transaction_hash, token_in, token_out, amount_in, amount_out,
+          fee, gas_used, pool_addresses, success, error, timestamp
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        trade.chainId,
+        trade.source,
+        trade.transactionHash,
+        trade.tokenIn,
+        trade.tokenOut,
+        trade.amountIn.toString(),
+        trade.amountOut.toString(),
+        trade.fee.toString(),
+        trade.gasUsed.toString(),
+        JSON.stringify(trade.poolAddresses.map(address => address.toLowerCase())),
+        trade.success ? 1 : 0,
+        trade.error ?? null,
+        trade.timestamp
+      );
+  }
+
+  async getTrades(query: HistoryQuery = {}): Promise<TradeRecord[]> {
+    const rows = this.queryHistory('trades', query);
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      chainId: row.chain_id,
+      source: row.source as PersistenceSource,
+      transactionHash: row.transaction_hash,
+      tokenIn: row.token_in,
+      tokenOut: row.token_out,
+      amountIn: BigInt(row.amount_in),
+      amountOut: BigInt(row.amount_out),
+      fee: BigInt(row.fee),
+      gasUsed: BigInt(row.gas_used),
+      poolAddresses: JSON.parse(row.pool_addresses),
+      success: row.success === 1,
+      error: row.error ?? undefined,
+      timestamp: row.timestamp
+    }));
+  }
+
+  async setCacheEntry<T>(namespace: string, key: string, value: T, ttlMs?: number): Promise<void> {
+    const now = Date.now();
+    this.getDatabase()
+      .prepare(`
+        INSERT INTO cache_entries (namespace, key, value, updated_at, expires_at)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT (namespace, key) DO UPDATE SET
+          value = excluded.value,
+          updated_at = excluded.updated_at,
+          expires_at = excluded.expires_at
+      `)
+      .run(namespace, key, encodeValue(value), now, ttlMs !== undefined ? now + ttlMs : null);
+  }
+
+  async getCacheEntry<T>(namespace: string, key: string): Promise<CacheEntryRecord<T> | null> {
+    const row: any = this.getDatabase()
+      .prepare(`
+        SELECT * FROM cache_entries
+        WHERE namespace = ? AND key = ? AND (expires_at IS NULL OR expires_at > ?)
+      `)
+      .get(namespace, key, Date.now());
+
+    return row ? this.toCacheEntry<T>(row) : null;
+  }
+
+  async getCacheEntries<T>(namespace: string): Promise<CacheEntryRecord<T>[]> {
+    const rows = this.getDatabase()
+      .prepare(`
+        SELECT * FROM cache_entries
+        WHERE namespace = ? AND (expires_at IS NULL OR expires_at > ?)
+      `)
+      .all(namespace, Date.now());
+
+    return rows.map((row: any) => this.toCacheEntry<T>(row));
+  }
+
+  async deleteCacheEntry(namespace: string, key: string): Promise<void> {
+    this.getDatabase()
+      .prepare('DELETE FROM cache_entries WHERE namespace = ? AND key = ?')
+      .run(namespace, key);
+  }
+
+  async clearCacheNamespace(namespace: string): Promise<void> {
+    this.getDatabase()
+      .prepare('DELETE FROM cache_entries WHERE namespace = ?')
+      .run(namespace);
+  }
+
+  async prune(olderThan: number): Promise<void> {
+    const db = this.getDatabase();
+    const pruneAll = db.transaction(() => {
+      db.prepare('DELETE FROM shard_snapshots WHERE timestamp < ?').run(olderThan);
+      db.prepare('DELETE FROM routing_decisions WHERE timestamp < ?').run(olderThan);
+      db.prepare('DELETE FROM trades WHERE timestamp < ?').run(olderThan);
+      db.prepare('DELETE FROM cache_entries WHERE expires_at IS NOT NULL AND expires_at <= ?').run(Date.now());
+    });
+
+    pruneAll();
+  }
+
+  // Private methods
+
+  private getDatabase(): Database.Database {
+    if (!this.db) {
+      throw new Error('SQLite persistence store is not initialized');
+    }
+    return this.db;
+  }
+
+  private queryHistory(table: 'routing_decisions' | 'trades', query: HistoryQuery): unknown[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.poolAddress) {
+      // pool_addresses is a JSON array of lowercase addresses
+      conditions.push('pool_addresses LIKE ?');
+      params.push(`%"${query.poolAddress.toLowerCase()}"%`);
+    }
+    this.addCommonConditions(query, conditions, params, true);
+
+    return this.getDatabase()
+      .prepare(`SELECT * FROM ${table} ${this.buildWhere(conditions)} ORDER BY timestamp DESC, id DESC ${this.buildLimit(query)}`)
+      .all(...params);
+  }
+
+  private addCommonConditions(
+    query: HistoryQuery,
+    conditions: string[],
+    params: unknown[],
+    hasSource: boolean
+  ): void {
+    if (query.chainId !== undefined) {
+      conditions.push('chain_id = ?');
+      params.push(query.chainId);
+    }
+    if (hasSource && query.source !== undefined) {
+      conditions.push('source = ?');
+      params.push(query.source);
+    }
+    if (query.since !== undefined) {
+      conditions.push('timestamp >= ?');
+      params.push(query.since);
+    }
+    if (query.until !== undefined) {
+      conditions.push('timestamp <= ?');
+      params.push(query.until);
+    }
+  }
+
+  private buildWhere(conditions: string[]): string {
+    return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  }
+
+  private buildLimit(query: HistoryQuery): string {
+    // Interpolated into the SQL, so anything but a finite number means no limit
+    if (query.limit === undefined || !Number.isFinite(query.limit)) return '';
+    return `LIMIT ${Math.max(0, Math.floor(query.limit))}`;
+  }
+
+  private toShardSnapshot(row: any): ShardSnapshotRecord {
+    return {
+      chainId: row.chain_id,
+      poolAddress: row.pool_address,
+      shardId: row.shard_id,
+      tokenA: JSON.parse(row.token_a),
+      tokenB: JSON.parse(row.token_b),
+      reserveA: BigInt(row.reserve_a),
+      reserveB: BigInt(row.reserve_b),
+      totalSupply: BigInt(row.total_supply),
+      sammParams: JSON.parse(row.samm_params),
+      fees: JSON.parse(row.fees),
+      status: row.status,
+      timestamp: row.timestamp
+    };
+  }
+
+  private toCacheEntry<T>(row: any): CacheEntryRecord<T> {
+    return {
+      namespace: row.namespace,
+      key: row.key,
+      value: decodeValue<T>(row.value),
+      updatedAt: row.updated_at,
+      expiresAt: row.expires_at ?? null
+    };
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Persistence Layer - Main Export
+ * Pluggable storage for shard snapshots, routing decisions, trades and service caches
+ */
+
+import { PersistenceConfig, PersistenceStore } from './types';
+import { InMemoryPersistenceStore } from './InMemoryPersistenceStore';
+import { SQLitePersistenceStore } from './SQLitePersistenceStore';
+
+export { InMemoryPersistenceStore } from './InMemoryPersistenceStore';
+export { SQLitePersistenceStore } from './SQLitePersistenceStore';
+export { encodeValue, decodeValue } from './serialization';
+
+export * from './types';
+
+/**
+ * Create and initialize a persistence store
+ */
+export async function createPersistenceStore(config: PersistenceConfig): Promise<PersistenceStore> {
+  const store = config.type === 'sqlite'
+    ? new SQLitePersistenceStore(config.filename)
+    : new InMemoryPersistenceStore();
+
+  await store.initialize();
+  return store;
+}
@@ -0,0 +1,40 @@
+/**
+ * JSON encoding that round-trips the bigint and Date values used in router state
+ */
+
+const BIGINT_TAG = '$bigint';
+const DATE_TAG = '$date';
+
+/**
+ * Encode a value to JSON, tagging bigints and Dates
+ */
+export function encodeValue(value: unknown): string {
+  return JSON.stringify(value, function (this: any, key: string, current: unknown) {
+    // Date.toJSON runs before the replacer, so read the original from the holder
+    const original = this[key];
+    if (original instanceof Date) {
+      return { [DATE_TAG]: original.getTime() };
+    }
+    if (typeof current === 'bigint') {
+      return { [BIGINT_TAG]: current.toString() };
+    }
+    return current;
+  });
+}
+
+/**
+ * Decode JSON produced by `encodeValue`
+ */
+export function decodeValue<T>(text: string): T {
+  return JSON.parse(text, (_key: string, current: any) => {
+    if (current && typeof current === 'object' && !Array.isArray(current)) {
+      if (typeof current[BIGINT_TAG] === 'string') {
+        return BigInt(current[BIGINT_TAG]);
+      }
+      if (typeof current[DATE_TAG] === 'number') {
+        return new Date(current[DATE_TAG]);
+      }
+    }
+    return current;
+  });
+}
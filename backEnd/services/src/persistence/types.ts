@@ -0,0 +1,270 @@
+/**
+ * Persistence Layer Types
+ * Records written by the routers so their state survives a restart
+ */
+
+/**
+ * Service that produced a record
+ */
+export type PersistenceSource = 'router' | 'cross-pool-router' | 'liquidity-router';
+
+/**
+ * Token metadata stored alongside shard snapshots
+ */
+export interface PersistedToken {
+  /** Token contract address */
+  address: string;
+
+  /** Token symbol */
+  symbol: string;
+
+  /** Token decimals */
+  decimals: number;
+
+  /** Chain ID where token exists */
+  chainId: number;
+}
+
+/**
+ * Point-in-time state of a shard (one SAMM pool)
+ */
+export interface ShardSnapshotRecord {
+  /** Chain ID where the shard exists */
+  chainId: number;
+
+  /** Pool contract address */
+  poolAddress: string;
+
+  /** Shard identifier used by the router */
+  shardId: string;
+
+  /** Token A metadata */
+  tokenA: PersistedToken;
+
+  /** Token B metadata */
+  tokenB: PersistedToken;
+
+  /** Reserve of token A */
+  reserveA: bigint;
+
+  /** Reserve of token B */
+  reserveB: bigint;
+
+  /** LP token supply */
+  totalSupply: bigint;
+
+  /** SAMM parameters, as decimals (c = 0.0104) */
+  sammParams: {
+    beta1: number;
+    rmin: number;
+    rmax: number;
+    c: number;
+  };
+
+  /** Fee configuration */
+  fees: {
+    tradeFeeNumerator: number;
+    tradeFeeDenominator: number;
+    ownerFeeNumerator: number;
+    ownerFeeDenominator: number;
+  };
+
+  /** Shard status at snapshot time */
+  status: 'active' | 'inactive' | 'paused';
+
+  /** Snapshot time in milliseconds */
+  timestamp: number;
+}
+
+/**
+ * A routing decision made by one of the routers
+ */
+export interface RoutingDecisionRecord {
+  /** Store-assigned identifier */
+  id?: number;
+
+  /** Chain ID the decision was made for */
+  chainId: number;
+
+  /** Router that made the decision */
+  source: PersistenceSource;
+
+  /** Input token address */
+  tokenIn: string;
+
+  /** Output token address */
+  tokenOut: string;
+
+  /** Quoted input amount (null when no route was found) */
+  amountIn: bigint | null;
+
+  /** Requested output amount */
+  amountOut: bigint;
+
+  /** Pools used by the route, in execution order */
+  poolAddresses: string[];
+
+  /** Whether a route was found */
+  success: boolean;
+
+  /** Failure reason */
+  error?: string;
+
+  /** Decision time in milliseconds */
+  timestamp: number;
+}
+
+/**
+ * An executed trade
+ */
+export interface TradeRecord {
+  /** Store-assigned identifier */
+  id?: number;
+
+  /** Chain ID the trade executed on */
+  chainId: number;
+
+  /** Router that executed the trade */
+  source: PersistenceSource;
+
+  /** Transaction hash (empty when the trade failed before submission) */
+  transactionHash: string;
+
+  /** Input token address */
+  tokenIn: string;
+
+  /** Output token address */
+  tokenOut: string;
+
+  /** Actual input amount */
+  amountIn: bigint;
+
+  /** Actual output amount */
+  amountOut: bigint;
+
+  /** Fees paid in input tokens */
+  fee: bigint;
+
+  /** Gas used */
+  gasUsed: bigint;
+
+  /** Pools traded through, in execution order */
+  poolAddresses: string[];
+
+  /** Whether the trade succeeded */
+  success: boolean;
+
+  /** Failure reason */
+  error?: string;
+
+  /** Execution time in milliseconds */
+  timestamp: number;
+}
+
+/**
+ * A cached value stored under a namespace
+ */
+export interface CacheEntryRecord<T = unknown> {
+  /** Namespace, usually the owning service and cache name */
+  namespace: string;
+
+  /** Key within the namespace */
+  key: string;
+
+  /** Cached value */
+  value: T;
+
+  /** Last write time in milliseconds */
+  updatedAt: number;
+
+  /** Expiry time in milliseconds (null for no expiry) */
+  expiresAt: number | null;
+}
+
+/**
+ * Filters for history queries
+ */
+export interface HistoryQuery {
+  /** Restrict to a chain */
+  chainId?: number;
+
+  /** Restrict to records involving a pool */
+  poolAddress?: string;
+
+  /** Restrict to a producing service */
+  source?: PersistenceSource;
+
+  /** Inclusive lower bound on timestamp */
+  since?: number;
+
+  /** Inclusive upper bound on timestamp */
+  until?: number;
+
+  /** Maximum number of records (most recent first), ignored unless finite */
+  limit?: number;
+}
+
+/**
+ * Storage backend used by the routers
+ *
+ * Methods are async so that remote backends can implement the same interface.
+ * History queries return the most recent records first.
+ */
+export interface PersistenceStore {
+  /** Open the store and create its schema if needed */
+  initialize(): Promise<void>;
+
+  /** Release resources held by the store */
+  close(): Promise<void>;
+
+  /** Append shard snapshots */
+  saveShardSnapshots(snapshots: ShardSnapshotRecord[]): Promise<void>;
+
+  /** Query shard snapshot history */
+  getShardSnapshots(query?: HistoryQuery): Promise<ShardSnapshotRecord[]>;
+
+  /** Most recent snapshot of every shard on a chain */
+  getLatestShardSnapshots(chainId: number): Promise<ShardSnapshotRecord[]>;
+
+  /** Append a routing decision */
+  recordRoutingDecision(decision: RoutingDecisionRecord): Promise<void>;
+
+  /** Query routing decisions */
+  getRoutingDecisions(query?: HistoryQuery): Promise<RoutingDecisionRecord[]>;
+
+  /** Append an executed trade */
+  recordTrade(trade: TradeRecord): Promise<void>;
+
+  /** Query executed trades */
+  getTrades(query?: HistoryQuery): Promise<TradeRecord[]>;
+
+  /** Write a cache entry, replacing any previous value for the key */
+  setCacheEntry<T>(namespace: string, key: string, value: T, ttlMs?: number): Promise<void>;
+
+  /** Read a cache entry if present and not expired */
+  getCacheEntry<T>(namespace: string, key: string): Promise<CacheEntryRecord<T> | null>;
+
+  /** Read every unexpired entry of a namespace */
+  getCacheEntries<T>(namespace: string): Promise<CacheEntryRecord<T>[]>;
+
+  /** Remove a cache entry */
+  deleteCacheEntry(namespace: string, key: string): Promise<void>;
+
+  /** Remove every entry of a namespace */
+  clearCacheNamespace(namespace: string): Promise<void>;
+
+  /** Drop history older than a timestamp and expired cache entries */
+  prune(olderThan: number): Promise<void>;
+}
+
+/**
+ * Store selection for `createPersistenceStore`
+ */
+export type PersistenceConfig =
+  | { type: 'memory' }
+  | {
+      type: 'sqlite';
+
+      /** Database file path (':memory:' for a temporary database) */
+      filename: string;
+    };
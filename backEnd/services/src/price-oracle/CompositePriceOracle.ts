@@ -0,0 +1,41 @@
+/**
+ * Composite Price Oracle
+ * Asks a list of oracles in order and returns the first price found
+ */
+
+import { PriceOracle, PriceableToken, TokenPrice } from './types';
+import { Logger } from '../logging';
+
+export class CompositePriceOracle implements PriceOracle {
+  private logger = new Logger('CompositePriceOracle');
+  readonly quoteCurrency: string;
+
+  constructor(private oracles: PriceOracle[]) {
+    if (oracles.length === 0) {
+      throw new Error('CompositePriceOracle needs at least one oracle');
+    }
+
+    this.quoteCurrency = oracles[0].quoteCurrency;
+    const mismatched = oracles.find(oracle => oracle.quoteCurrency !== this.quoteCurrency);
+    if (mismatched) {
+      throw new Error(
+        `Price oracles must share a quote currency (${this.quoteCurrency} vs ${mismatched.quoteCurrency})`
+      );
+    }
+  }
+
+  /**
+   * First price any oracle returns; failing oracles are skipped
+   */
+  async getPrice(token: PriceableToken): Promise<TokenPrice | null> {
+    for (const oracle of this.oracles) {
+      try {
+        const price = await oracle.getPrice(token);
+        if (price) return price;
+      } catch (error) {
+        this.logger.warn('Price oracle failed', { chainId: token.chainId, token: token.address, error });
+      }
+    }
+    return null;
+  }
+}
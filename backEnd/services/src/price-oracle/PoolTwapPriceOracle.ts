@@ -0,0 +1,292 @@
+/**
+ * Pool-Implied TWAP Price Oracle
+ * Prices a token from the reserves of its deepest shards against a reference token,
+ * averaged over time so a single trade moves the valuation only for as long as
+ * its price holds. No price is given until the pair has been observed for
+ * `minCoverage` of the window.
+ */
+
+import { ethers } from 'ethers';
+import {
+  PriceOracle,
+  PriceableToken,
+  PoolTwapOracleConfig,
+  ShardReserveSource,
+  ShardReserves,
+  TokenPrice
+} from './types';
+import { Logger } from '../logging';
+
+const DEFAULT_TWAP_WINDOW_MS = 30 * 60 * 1000;
+const DEFAULT_OBSERVATION_INTERVAL_MS = 60 * 1000;
+const DEFAULT_MAX_SHARDS = 3;
+const DEFAULT_MIN_COVERAGE = 0.5;
+
+/** Observations further apart than this many intervals leave a gap in coverage */
+const MAX_OBSERVATION_GAP_INTERVALS = 2;
+
+interface PriceObservation {
+  timestamp: number;
+  ratio: number; // reference tokens per token
+}
+
+interface PairObservations {
+  token: PriceableToken;
+  referenceToken: string;
+  referenceDecimals: number;
+  depth: number; // reference-side reserves of the shards used
+  observations: PriceObservation[];
+}
+
+export class PoolTwapPriceOracle implements PriceOracle {
+  private logger = new Logger('PoolTwapPriceOracle');
+  private reserveSource: ShardReserveSource;
+  private referenceOracle: PriceOracle;
+  private referenceTokens: Map<number, string[]>;
+  private twapWindowMs: number;
+  private observationIntervalMs: number;
+  private maxShards: number;
+  private minCoverage: number;
+  private sampleTimer?: NodeJS.Timeout;
+
+  // Observations per `${chainId}:${token}:${referenceToken}`
+  private pairs = new Map<string, PairObservations>();
+
+  constructor(config: PoolTwapOracleConfig) {
+    this.reserveSource = config.reserveSource;
+    this.referenceOracle = config.referenceOracle;
+    this.twapWindowMs = config.twapWindowMs ?? DEFAULT_TWAP_WINDOW_MS;
+    this.observationIntervalMs = config.observationIntervalMs ?? DEFAULT_OBSERVATION_INTERVAL_MS;
+    this.maxShards = config.maxShards ?? DEFAULT_MAX_SHARDS;
+    this.minCoverage = config.minCoverage ?? DEFAULT_MIN_COVERAGE;
+
+    this.referenceTokens = new Map(
+      Object.entries(config.referenceTokens).map(([chainId, tokens]) => [
+        Number(chainId),
+        tokens.map(token => token.toLowerCase())
+      ])
+    );
+  }
+
+  get quoteCurrency(): string {
+    return this.referenceOracle.quoteCurrency;
+  }
+
+  /**
+   * Observe every pair priced so far once per observation interval
+   * Without sampling, pairs are only observed when a price is requested.
+   */
+  start(): void {
+    if (this.sampleTimer) return;
+
+    this.sampleTimer = setInterval(() => {
+      this.sampleAll().catch(error => this.logger.error('Price sampling failed', error));
+    }, this.observationIntervalMs);
+  }
+
+  /**
+   * Stop sampling
+   */
+  stop(): void {
+    if (this.sampleTimer) {
+      clearInterval(this.sampleTimer);
+      this.sampleTimer = undefined;
+    }
+  }
+
+  /**
+   * Price a token against the reference token with the deepest shards
+   * Reference tokens themselves are left to the reference oracle, and tokens
+   * whose pair has not been observed for long enough are left to the next oracle.
+   */
+  async getPrice(token: PriceableToken): Promise<TokenPrice | null> {
+    const address = token.address.toLowerCase();
+    const references = this.referenceTokens.get(token.chainId) ?? [];
+    if (references.length === 0 || references.includes(address)) {
+      return null;
+    }
+
+    let best: PairObservations | null = null;
+    for (const referenceToken of references) {
+      try {
+        const pair = await this.observePair(token, referenceToken);
+        if (pair && (!best || pair.depth > best.depth)) {
+          best = pair;
+        }
+      } catch (error) {
+        this.logger.warn('Failed to observe shards', { token: address, referenceToken, error });
+      }
+    }
+    if (!best) return null;
+
+    const now = Date.now();
+    const coverage = this.calculateCoverage(best.observations, now);
+    if (coverage < this.minCoverage * this.twapWindowMs) {
+      this.logger.debug('Not enough observations for a TWAP', {
+        token: address,
+        referenceToken: best.referenceToken,
+        coverageMs: coverage
+      });
+      return null;
+    }
+
+    const referencePrice = await this.referenceOracle.getPrice({
+      chainId: token.chainId,
+      address: best.referenceToken,
+      decimals: best.referenceDecimals
+    });
+    if (!referencePrice) return null;
+
+    return {
+      price: this.calculateTwap(best.observations, now) * referencePrice.price,
+      quoteCurrency: this.quoteCurrency,
+      source: 'pool-twap',
+      timestamp: now
+    };
+  }
+
+  // Private methods
+
+  /**
+   * Take a new observation of every known pair
+   */
+  private async sampleAll(): Promise<void> {
+    await Promise.all(Array.from(this.pairs.values()).map(async pair => {
+      try {
+        await this.observePair(pair.token, pair.referenceToken);
+      } catch (error) {
+        this.logger.warn('Failed to observe shards', {
+          token: pair.token.address,
+          referenceToken: pair.referenceToken,
+          error
+        });
+      }
+    }));
+  }
+
+  /**
+   * Record the current pool-implied ratio of a pair, at most once per observation interval
+   * @returns The pair's observations, or null if no shard holds both tokens
+   */
+  private async observePair(token: PriceableToken, referenceToken: string): Promise<PairObservations | null> {
+    const key = `${token.chainId}:${token.address.toLowerCase()}:${referenceToken}`;
+    const now = Date.now();
+    const existing = this.pairs.get(key);
+    const latest = existing?.observations[existing.observations.length - 1];
+
+    if (existing && latest && now - latest.timestamp < this.observationIntervalMs) {
+      return existing;
+    }
+
+    const shards = await this.reserveSource.getShardReserves(token.chainId, token.address, referenceToken);
+    const spot = this.calculateSpotRatio(shards, token.address.toLowerCase(), referenceToken);
+    if (!spot) return existing ?? null;
+
+    const pair: PairObservations = existing ?? {
+      token: { chainId: token.chainId, address: token.address, decimals: token.decimals },
+      referenceToken,
+      referenceDecimals: spot.referenceDecimals,
+      depth: 0,
+      observations: []
+    };
+    pair.depth = spot.depth;
+    pair.observations.push({ timestamp: now, ratio: spot.ratio });
+    this.pruneObservations(pair, now);
+
+    this.pairs.set(key, pair);
+    return pair;
+  }
+
+  /**
+   * Reserve-weighted ratio over the deepest shards
+   * Summing reserves weights each shard's price by its depth.
+   */
+  private calculateSpotRatio(
+    shards: ShardReserves[],
+    token: string,
+    referenceToken: string
+  ): { ratio: number; depth: number; referenceDecimals: number } | null {
+    const sides = shards
+      .filter(shard => {
+        const pair = [shard.tokenA.toLowerCase(), shard.tokenB.toLowerCase()];
+        return pair.includes(token) && pair.includes(referenceToken);
+      })
+      .map(shard => {
+        const tokenIsA = shard.tokenA.toLowerCase() === token;
+        return {
+          tokenReserve: Number(ethers.formatUnits(tokenIsA ? shard.reserveA : shard.reserveB, tokenIsA ? shard.decimalsA : shard.decimalsB)),
+          referenceReserve: Number(ethers.formatUnits(tokenIsA ? shard.reserveB : shard.reserveA, tokenIsA ? shard.decimalsB : shard.decimalsA)),
+          referenceDecimals: tokenIsA ? shard.decimalsB : shard.decimalsA
+        };
+      })
+      .filter(side => side.tokenReserve > 0 && side.referenceReserve > 0)
+      .sort((a, b) => b.referenceReserve - a.referenceReserve)
+      .slice(0, this.maxShards);
+
+    if (sides.length === 0) return null;
+
+    const tokenTotal = sides.reduce((sum, side) => sum + side.tokenReserve, 0);
+    const referenceTotal = sides.reduce((sum, side) => sum + side.referenceReserve, 0);
+
+    return {
+      ratio: referenceTotal / tokenTotal,
+      depth: referenceTotal,
+      referenceDecimals: sides[0].referenceDecimals
+    };
+  }
+
+  /**
+   * Time-weighted average of the observed ratios over the window
+   * Each observation holds until the next one; the latest holds until now.
+   */
+  private calculateTwap(observations: PriceObservation[], now: number): number {
+    const windowStart = now - this.twapWindowMs;
+    let weightedSum = 0;
+    let totalTime = 0;
+
+    for (let i = 0; i < observations.length; i++) {
+      const start = Math.max(observations[i].timestamp, windowStart);
+      const end = i + 1 < observations.length ? observations[i + 1].timestamp : now;
+      if (end <= start) continue;
+
+      weightedSum += observations[i].ratio * (end - start);
+      totalTime += end - start;
+    }
+
+    return totalTime > 0 ? weightedSum / totalTime : observations[observations.length - 1].ratio;
+  }
+
+  /**
+   * Time of the window backed by observations
+   * An observation covers the time until the next one, or until now, but never
+   * more than MAX_OBSERVATION_GAP_INTERVALS observation intervals; the time
+   * nothing was observed does not count.
+   */
+  private calculateCoverage(observations: PriceObservation[], now: number): number {
+    const windowStart = now - this.twapWindowMs;
+    const maxGap = MAX_OBSERVATION_GAP_INTERVALS * this.observationIntervalMs;
+    let covered = 0;
+
+    for (let i = 0; i < observations.length; i++) {
+      const end = i + 1 < observations.length ? observations[i + 1].timestamp : now;
+      const start = Math.max(observations[i].timestamp, end - maxGap, windowStart);
+      if (end > start) covered += end - start;
+    }
+
+    return covered;
+  }
+
+  /**
+   * Drop observations that no longer affect the window, keeping the one in force at its start
+   */
+  private pruneObservations(pair: PairObservations, now: number): void {
+    const windowStart = now - this.twapWindowMs;
+    const firstInWindow = pair.observations.findIndex(observation => observation.timestamp >= windowStart);
+
+    if (firstInWindow > 1) {
+      pair.observations = pair.observations.slice(firstInWindow - 1);
+    } else if (firstInWindow === -1 && pair.observations.length > 1) {
+      pair.observations = pair.observations.slice(-1);
+    }
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Static Price Oracle
+ * Prices tokens from a fixed table, typically a JSON config file
+ */
+
+import * as fs from 'fs';
+import { PriceOracle, PriceableToken, StaticPriceTable, TokenPrice } from './types';
+
+export class StaticPriceOracle implements PriceOracle {
+  readonly quoteCurrency: string;
+  private prices = new Map<string, number>();
+  private symbols = new Map<string, number>();
+  private loadedAt = Date.now();
+
+  constructor(table: StaticPriceTable) {
+    this.quoteCurrency = table.quoteCurrency;
+
+    for (const [chainId, tokens] of Object.entries(table.prices)) {
+      for (const [address, price] of Object.entries(tokens)) {
+        this.prices.set(this.priceKey(Number(chainId), address), price);
+      }
+    }
+
+    for (const [symbol, price] of Object.entries(table.symbols ?? {})) {
+      this.symbols.set(symbol.toUpperCase(), price);
+    }
+  }
+
+  /**
+   * Load a price table from a JSON file
+   */
+  static fromFile(filename: string): StaticPriceOracle {
+    return new StaticPriceOracle(loadPriceTable(filename));
+  }
+
+  async getPrice(token: PriceableToken): Promise<TokenPrice | null> {
+    const price = this.prices.get(this.priceKey(token.chainId, token.address))
+      ?? (token.symbol ? this.symbols.get(token.symbol.toUpperCase()) : undefined);
+
+    if (price === undefined) return null;
+
+    return {
+      price,
+      quoteCurrency: this.quoteCurrency,
+      source: 'static',
+      timestamp: this.loadedAt
+    };
+  }
+
+  /**
+   * Token addresses listed in the table, by chain
+   */
+  getListedTokens(): Record<number, string[]> {
+    const listed: Record<number, string[]> = {};
+
+    for (const key of this.prices.keys()) {
+      const [chainId, address] = key.split(':');
+      listed[Number(chainId)] = [...(listed[Number(chainId)] ?? []), address];
+    }
+    return listed;
+  }
+
+  private priceKey(chainId: number, address: string): string {
+    return `${chainId}:${address.toLowerCase()}`;
+  }
+}
+
+/**
+ * Read and validate a static price table file
+ */
+export function loadPriceTable(filename: string): StaticPriceTable {
+  const table = JSON.parse(fs.readFileSync(filename, 'utf8'));
+
+  if (typeof table.quoteCurrency !== 'string' || typeof table.prices !== 'object' || table.prices === null) {
+    throw new Error(`Invalid price table ${filename}: expected quoteCurrency and prices`);
+  }
+
+  const entries = [
+    ...Object.values(table.prices as Record<string, Record<string, unknown>>).flatMap(tokens => Object.values(tokens)),
+    ...Object.values((table.symbols ?? {}) as Record<string, unknown>)
+  ];
+  if (entries.some(price => typeof price !== 'number' || !Number.isFinite(price) || price < 0)) {
+    throw new Error(`Invalid price table ${filename}: prices must be non-negative numbers`);
+  }
+
+  return table as StaticPriceTable;
+}
@@ -0,0 +1,11 @@
+/**
+ * Price Oracle - Main Export
+ * Token prices in a common quote currency for pool and position valuation
+ */
+
+export { StaticPriceOracle, loadPriceTable } from './StaticPriceOracle';
+export { PoolTwapPriceOracle } from './PoolTwapPriceOracle';
+export { CompositePriceOracle } from './CompositePriceOracle';
+export { amountToQuote, valueInQuote } from './valuation';
+
+export * from './types';
@@ -0,0 +1,133 @@
+/**
+ * Price Oracle Types
+ * Token prices in a common quote currency and the sources they are derived from
+ */
+
+/**
+ * Token to be priced
+ */
+export interface PriceableToken {
+  /** Chain ID the token lives on */
+  chainId: number;
+
+  /** Token contract address */
+  address: string;
+
+  /** Token decimals */
+  decimals: number;
+
+  /** Token symbol, used by symbol-keyed price tables */
+  symbol?: string;
+}
+
+/**
+ * Price of one whole token in the oracle's quote currency
+ */
+export interface TokenPrice {
+  /** Quote currency units per whole token */
+  price: number;
+
+  /** Quote currency (e.g. 'USD') */
+  quoteCurrency: string;
+
+  /** Oracle that produced the price (e.g. 'static', 'pool-twap') */
+  source: string;
+
+  /** When the price was observed, in milliseconds */
+  timestamp: number;
+}
+
+/**
+ * Source of token prices in a single quote currency
+ */
+export interface PriceOracle {
+  /** Quote currency every price is expressed in */
+  readonly quoteCurrency: string;
+
+  /**
+   * Price of a token
+   * @returns The price, or null if this oracle cannot price the token
+   */
+  getPrice(token: PriceableToken): Promise<TokenPrice | null>;
+}
+
+/**
+ * Static price table, usually loaded from a JSON config file
+ *
+ * ```json
+ * {
+ *   "quoteCurrency": "USD",
+ *   "prices": { "11155111": { "0x1c7d...7238": 1 } },
+ *   "symbols": { "USDC": 1, "USDT": 1 }
+ * }
+ * ```
+ */
+export interface StaticPriceTable {
+  /** Quote currency of every entry */
+  quoteCurrency: string;
+
+  /** Prices by chain ID, then token address */
+  prices: Record<string, Record<string, number>>;
+
+  /** Chain-independent prices by token symbol, used when no address entry exists */
+  symbols?: Record<string, number>;
+}
+
+/**
+ * Reserves of one shard, as needed to derive a pool-implied price
+ */
+export interface ShardReserves {
+  /** Pool contract address */
+  poolAddress: string;
+
+  /** Token A address */
+  tokenA: string;
+
+  /** Token B address */
+  tokenB: string;
+
+  /** Token A reserve */
+  reserveA: bigint;
+
+  /** Token B reserve */
+  reserveB: bigint;
+
+  /** Token A decimals */
+  decimalsA: number;
+
+  /** Token B decimals */
+  decimalsB: number;
+}
+
+/**
+ * Supplies the shards of a token pair to pool-implied oracles
+ */
+export interface ShardReserveSource {
+  getShardReserves(chainId: number, tokenA: string, tokenB: string): Promise<ShardReserves[]>;
+}
+
+/**
+ * Pool-implied TWAP oracle configuration
+ */
+export interface PoolTwapOracleConfig {
+  /** Where shard reserves come from */
+  reserveSource: ShardReserveSource;
+
+  /** Prices the reference tokens; its quote currency becomes this oracle's */
+  referenceOracle: PriceOracle;
+
+  /** Tokens per chain that other tokens are priced against (e.g. stablecoins) */
+  referenceTokens: Record<number, string[]>;
+
+  /** TWAP window in milliseconds (default 30 minutes) */
+  twapWindowMs?: number;
+
+  /** Minimum time between reserve observations of a pair (default 1 minute) */
+  observationIntervalMs?: number;
+
+  /** Number of deepest shards the price is taken from (default 3) */
+  maxShards?: number;
+
+  /** Fraction of the TWAP window that must be observed before a price is given (default 0.5) */
+  minCoverage?: number;
+}
@@ -0,0 +1,27 @@
+/**
+ * Valuation helpers
+ * Convert raw token amounts into quote currency values
+ */
+
+import { ethers } from 'ethers';
+import { PriceOracle, PriceableToken } from './types';
+
+/**
+ * Value of a raw token amount at a given price
+ */
+export function amountToQuote(amount: bigint, decimals: number, price: number): number {
+  return Number(ethers.formatUnits(amount, decimals)) * price;
+}
+
+/**
+ * Value of a raw token amount in the oracle's quote currency
+ * @returns The value, or null if the oracle has no price for the token
+ */
+export async function valueInQuote(
+  oracle: PriceOracle,
+  token: PriceableToken,
+  amount: bigint
+): Promise<number | null> {
+  const price = await oracle.getPrice(token);
+  return price ? amountToQuote(amount, token.decimals, price.price) : null;
+}
@@ -16,8 +16,11 @@ import {
   TradeExecutionRequest,
   TokenPair,
   Token,
+  SplitRouting,
   RouterServiceError
 } from './types';
+import { ORDER_STATUSES, OrderBook, OrderError, OrderRecord, OrderStatus, SignedOrder } from '../orders';
+import { Logger, requestContextMiddleware } from '../logging';
 
 export interface RouterAPIConfig {
   port: number;
@@ -29,16 +32,20 @@ export interface RouterAPIConfig {
 }
 
 export class RouterAPI {
+  private logger = new Logger('RouterAPI');
   private app: express.Application;
   private config: RouterAPIConfig;
   private routerService: RouterService;
+  private orderBook?: OrderBook;
 
   constructor(
     apiConfig: RouterAPIConfig,
-    routerService: RouterService
+    routerService: RouterService,
+    orderBook?: OrderBook
   ) {
     this.config = apiConfig;
     this.routerService = routerService;
+    this.orderBook = orderBook;
     
     // Initialize Express app
     this.app = express();
@@ -51,6 +58,9 @@ export class RouterAPI {
    * Setup Express middleware
    */
   private setupMiddleware(): void {
+    // Request ID, echoed back and attached to every log line of the request
+    this.app.use(requestContextMiddleware());
+    
     // Security middleware
     this.app.use(helmet());
     
@@ -78,7 +88,7 @@ export class RouterAPI {
     // Request logging
     if (this.config.enableLogging) {
       this.app.use((req: Request, res: Response, next: NextFunction) => {
-        console.log(`${new Date().toISOString()} ${req.method} ${req.path}`);
+        this.logger.info('Request received', { method: req.method, path: req.path });
         next();
       });
     }
@@ -102,6 +112,7 @@ export class RouterAPI {
     // Routing endpoints
     this.app.post(`${prefix}/routing/find-optimal`, this.handleFindOptimalShard.bind(this));
     this.app.post(`${prefix}/routing/quote`, this.handleQuoteRoute.bind(this));
+    this.app.post(`${prefix}/routing/split-quote`, this.handleSplitQuote.bind(this));
     this.app.post(`${prefix}/routing/validate-threshold`, this.handleValidateCThreshold.bind(this));
     
     // Trade execution endpoints
@@ -114,6 +125,15 @@ export class RouterAPI {
     
     // Configuration
     this.app.post(`${prefix}/config`, this.handleUpdateConfig.bind(this));
+    
+    // Limit and TWAP orders, when an order keeper is configured
+    if (this.orderBook) {
+      this.app.post(`${prefix}/orders`, this.handleSubmitOrder.bind(this));
+      this.app.get(`${prefix}/orders`, this.handleGetOrders.bind(this));
+      this.app.get(`${prefix}/orders/domain`, this.handleGetOrderDomain.bind(this));
+      this.app.get(`${prefix}/orders/:orderHash`, this.handleGetOrder.bind(this));
+      this.app.post(`${prefix}/orders/:orderHash/cancel`, this.handleCancelOrder.bind(this));
+    }
   }
 
   /**
@@ -131,7 +151,7 @@ export class RouterAPI {
     
     // Global error handler
     this.app.use((error: Error, req: Request, res: Response, next: NextFunction) => {
-      console.error('Router API Error:', error);
+      this.logger.error('Router API error', error);
       
       res.status(500).json({
         error: 'Internal server error',
@@ -277,7 +297,7 @@ export class RouterAPI {
       const result = await this.routerService.findOptimalShard(request);
       
       res.json({
-        success: result.routing !== null,
+        success: result.routing !== null || !!result.splitRouting,
         data: {
           routing: result.routing ? {
             ...result.routing,
@@ -285,6 +305,7 @@ export class RouterAPI {
             estimatedFee: result.routing.estimatedFee.toString(),
             estimatedGas: result.routing.estimatedGas.toString()
           } : null,
+          splitRouting: result.splitRouting ? this.serializeSplitRouting(result.splitRouting) : null,
           availableShards: result.availableShards.length,
           metadata: result.metadata,
           error: result.error
@@ -328,6 +349,31 @@ export class RouterAPI {
     }
   }
 
+  /**
+   * Split quote endpoint (dry run spreading the order over several shards)
+   */
+  private async handleSplitQuote(req: Request, res: Response): Promise<void> {
+    try {
+      const request = { ...this.validateRoutingRequest(req.body), allowSplit: true };
+      const result = await this.routerService.findOptimalShard(request);
+      
+      if (result.splitRouting) {
+        res.json({
+          success: true,
+          data: this.serializeSplitRouting(result.splitRouting)
+        });
+      } else {
+        res.json({
+          success: false,
+          error: result.error || RouterServiceError.EXCEEDS_C_THRESHOLD,
+          message: 'Available shards cannot absorb the requested trade within their c-thresholds'
+        });
+      }
+    } catch (error) {
+      this.handleAPIError(error, res);
+    }
+  }
+
   /**
    * Validate c-threshold endpoint
    */
@@ -472,6 +518,107 @@ export class RouterAPI {
     }
   }
 
+  /**
+   * Submit signed order endpoint
+   */
+  private async handleSubmitOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const { order, signature } = this.validateOrderSubmission(req.body);
+      const record = await this.orderBook!.submit(order, signature);
+      
+      res.status(201).json({
+        success: true,
+        data: this.serializeOrder(record)
+      });
+    } catch (error) {
+      this.handleAPIError(error, res);
+    }
+  }
+
+  /**
+   * List orders endpoint, filtered by maker and status
+   */
+  private async handleGetOrders(req: Request, res: Response): Promise<void> {
+    try {
+      const maker = typeof req.query.maker === 'string' ? req.query.maker : undefined;
+      const status = typeof req.query.status === 'string'
+        ? req.query.status.split(',') as OrderStatus[]
+        : undefined;
+      
+      if (maker && !ethers.isAddress(maker)) {
+        throw new Error('Invalid maker address');
+      }
+      const unknownStatus = status?.find(value => !ORDER_STATUSES.includes(value));
+      if (unknownStatus !== undefined) {
+        throw new Error(`Invalid order status: ${unknownStatus}`);
+      }
+      
+      const orders = this.orderBook!.getOrders({ maker, status });
+      
+      res.json({
+        success: true,
+        data: {
+          orders: orders.map(record => this.serializeOrder(record)),
+          total: orders.length
+        }
+      });
+    } catch (error) {
+      this.handleAPIError(error, res);
+    }
+  }
+
+  /**
+   * EIP-712 domain that orders are signed for
+   */
+  private async handleGetOrderDomain(req: Request, res: Response): Promise<void> {
+    res.json({
+      success: true,
+      data: this.orderBook!.getDomain()
+    });
+  }
+
+  /**
+   * Get order endpoint
+   */
+  private async handleGetOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const record = this.orderBook!.getOrder(req.params.orderHash);
+      
+      if (!record) {
+        throw new Error(`${OrderError.ORDER_NOT_FOUND}: Order ${req.params.orderHash} not found`);
+      }
+      
+      res.json({
+        success: true,
+        data: this.serializeOrder(record)
+      });
+    } catch (error) {
+      this.handleAPIError(error, res);
+    }
+  }
+
+  /**
+   * Cancel order endpoint, authorized by the maker's signature
+   */
+  private async handleCancelOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const { signature } = req.body;
+      
+      if (!signature) {
+        throw new Error('signature is required');
+      }
+      
+      const record = await this.orderBook!.cancel(req.params.orderHash, signature);
+      
+      res.json({
+        success: true,
+        data: this.serializeOrder(record)
+      });
+    } catch (error) {
+      this.handleAPIError(error, res);
+    }
+  }
+
   // Validation methods
 
   /**
@@ -515,7 +662,7 @@ export class RouterAPI {
    * Validate routing request
    */
   private validateRoutingRequest(body: any): ShardRoutingRequest {
-    const { tokenPair, outputAmount, maxInputAmount, chainId, slippageTolerance, userAddress } = body;
+    const { tokenPair, outputAmount, maxInputAmount, chainId, slippageTolerance, userAddress, allowSplit } = body;
     
     if (!tokenPair || !outputAmount) {
       throw new Error('tokenPair and outputAmount are required');
@@ -531,7 +678,84 @@ export class RouterAPI {
       maxInputAmount: maxInputAmount ? BigInt(maxInputAmount) : undefined,
       chainId: chainId || 1,
       slippageTolerance: slippageTolerance || 1.0,
-      userAddress: userAddress || undefined
+      userAddress: userAddress || undefined,
+      allowSplit: allowSplit === true
+    };
+  }
+
+  /**
+   * Convert split routing amounts to strings for JSON responses
+   */
+  private serializeSplitRouting(splitRouting: SplitRouting) {
+    return {
+      slices: splitRouting.slices.map(slice => ({
+        ...slice,
+        amountOut: slice.amountOut.toString(),
+        expectedAmountIn: slice.expectedAmountIn.toString(),
+        estimatedFee: slice.estimatedFee.toString()
+      })),
+      totalAmountOut: splitRouting.totalAmountOut.toString(),
+      totalAmountIn: splitRouting.totalAmountIn.toString(),
+      totalFee: splitRouting.totalFee.toString(),
+      estimatedGas: splitRouting.estimatedGas.toString(),
+      priceImpact: splitRouting.priceImpact,
+      savingsVsSingleShard: splitRouting.savingsVsSingleShard.toString(),
+      chainId: splitRouting.chainId
+    };
+  }
+
+  /**
+   * Validate a signed order submission
+   */
+  private validateOrderSubmission(body: any): { order: SignedOrder; signature: string } {
+    const { order, signature } = body;
+    
+    if (!order || !signature) {
+      throw new Error('order and signature are required');
+    }
+    
+    try {
+      return {
+        order: {
+          maker: order.maker,
+          tokenIn: order.tokenIn,
+          tokenOut: order.tokenOut,
+          amountOut: BigInt(order.amountOut),
+          maxAmountIn: BigInt(order.maxAmountIn),
+          slices: Number(order.slices),
+          interval: Number(order.interval),
+          startTime: Number(order.startTime),
+          expiry: Number(order.expiry),
+          nonce: BigInt(order.nonce)
+        },
+        signature
+      };
+    } catch {
+      throw new Error('Invalid order: amounts and nonce must be integers');
+    }
+  }
+
+  /**
+   * Convert order amounts to strings for JSON responses
+   */
+  private serializeOrder(record: OrderRecord) {
+    // The signature authorises fills, so it stays with the keeper
+    const { signature: _signature, ...rest } = record;
+    return {
+      ...rest,
+      order: {
+        ...record.order,
+        amountOut: record.order.amountOut.toString(),
+        maxAmountIn: record.order.maxAmountIn.toString(),
+        nonce: record.order.nonce.toString()
+      },
+      filledAmountIn: record.filledAmountIn.toString(),
+      filledAmountOut: record.filledAmountOut.toString(),
+      fills: record.fills.map(fill => ({
+        ...fill,
+        amountIn: fill.amountIn.toString(),
+        amountOut: fill.amountOut.toString()
+      }))
     };
   }
 
@@ -571,7 +795,7 @@ export class RouterAPI {
    * Handle API errors
    */
   private handleAPIError(error: any, res: Response): void {
-    console.error('Router API Error:', error);
+    this.logger.error('Router API error', error);
     
     let statusCode = 500;
     let errorCode = 'INTERNAL_ERROR';
@@ -579,6 +803,12 @@ export class RouterAPI {
     if (error.message.includes('required') || error.message.includes('Invalid')) {
       statusCode = 400;
       errorCode = 'INVALID_REQUEST';
+    } else if (error.message.includes(OrderError.ORDER_NOT_FOUND)) {
+      statusCode = 404;
+      errorCode = OrderError.ORDER_NOT_FOUND;
+    } else if (error.message.includes(OrderError.DUPLICATE_ORDER) || error.message.includes(OrderError.ORDER_NOT_OPEN)) {
+      statusCode = 409;
+      errorCode = error.message.includes(OrderError.DUPLICATE_ORDER) ? OrderError.DUPLICATE_ORDER : OrderError.ORDER_NOT_OPEN;
     } else if (error.message.includes(RouterServiceError.NO_SHARDS_AVAILABLE)) {
       statusCode = 404;
       errorCode = RouterServiceError.NO_SHARDS_AVAILABLE;
@@ -601,9 +831,11 @@ export class RouterAPI {
   public async start(): Promise<void> {
     return new Promise((resolve) => {
       this.app.listen(this.config.port, () => {
-        console.log(`Router API listening on port ${this.config.port}`);
-        console.log(`API prefix: ${this.config.apiPrefix}`);
-        console.log(`Health check: http://localhost:${this.config.port}/health`);
+        this.logger.info('Router API listening', {
+          port: this.config.port,
+          apiPrefix: this.config.apiPrefix,
+          health: `http://localhost:${this.config.port}/health`
+        });
         resolve();
       });
     });
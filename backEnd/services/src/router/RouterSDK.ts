@@ -218,6 +218,18 @@ export class RouterSDK {
     });
   }
 
+  /**
+   * Get a quote that spreads the trade over several shards (dry run)
+   */
+  async getSplitQuote(request: ShardRoutingRequest): Promise<RouterSDKResponse<any>> {
+    return this.makeRequest('POST', '/api/v1/routing/split-quote', {
+      ...request,
+      outputAmount: request.outputAmount.toString(),
+      maxInputAmount: request.maxInputAmount?.toString(),
+      allowSplit: true
+    });
+  }
+
   /**
    * Validate c-threshold for a trade
    */
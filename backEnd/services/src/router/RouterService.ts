@@ -20,6 +20,11 @@ import {
 import { ShardDiscoveryService } from './ShardDiscoveryService';
 import { SmallestShardSelector } from './SmallestShardSelector';
 import { TradeRoutingService } from './TradeRoutingService';
+import { Logger } from '../logging';
+
+/** Persistence namespaces owned by this service */
+const ROUTING_CACHE_NAMESPACE = 'router:routing-cache';
+const STATS_NAMESPACE = 'router:stats';
 
 /**
  * Main Router Service that coordinates all routing operations
@@ -31,6 +36,7 @@ export class RouterService extends EventEmitter {
   private tradeRouting: TradeRoutingService;
   private provider: ethers.Provider;
   private signer?: ethers.Signer;
+  private logger: Logger;
   
   // Service state
   private isRunning = false;
@@ -42,6 +48,7 @@ export class RouterService extends EventEmitter {
     avgRoutingTime: 0,
     totalTradesExecuted: 0,
     totalVolumeRouted: 0n,
+    cacheHits: 0,
     cacheHitRate: 0,
     lastReset: Date.now()
   };
@@ -54,9 +61,10 @@ export class RouterService extends EventEmitter {
     this.config = config;
     this.provider = provider;
     this.signer = signer;
+    this.logger = new Logger('RouterService', { chainId: config.chainConfig.chainId });
     
     // Initialize services
-    this.shardDiscovery = new ShardDiscoveryService(config.chainConfig);
+    this.shardDiscovery = new ShardDiscoveryService(config.chainConfig, config.persistence);
     this.shardSelector = new SmallestShardSelector();
     this.tradeRouting = new TradeRoutingService(provider, signer);
     
@@ -69,7 +77,10 @@ export class RouterService extends EventEmitter {
    */
   async start(): Promise<void> {
     try {
-      console.log(`Starting Router Service for chain ${this.config.chainConfig.chainId}`);
+      this.logger.info('Starting Router Service');
+      
+      // Restore statistics and cached routes from the last run
+      await this.restorePersistedState();
       
       // Start shard discovery service
       await this.shardDiscovery.start();
@@ -80,11 +91,11 @@ export class RouterService extends EventEmitter {
       }
       
       this.isRunning = true;
-      console.log('Router Service started successfully');
+      this.logger.info('Router Service started');
       
       this.emit('service-started', { chainId: this.config.chainConfig.chainId });
     } catch (error) {
-      console.error('Failed to start Router Service:', error);
+      this.logger.error('Failed to start Router Service', error);
       this.emit('error', { error: RouterServiceError.CHAIN_CONNECTION_ERROR, context: error });
       throw error;
     }
@@ -100,7 +111,7 @@ export class RouterService extends EventEmitter {
     this.routingCache.clear();
     this.isRunning = false;
     
-    console.log('Router Service stopped');
+    this.logger.info('Router Service stopped');
     this.emit('service-stopped', { chainId: this.config.chainConfig.chainId });
   }
 
@@ -116,7 +127,9 @@ export class RouterService extends EventEmitter {
       if (this.config.enableCaching) {
         const cached = this.getCachedResult(request);
         if (cached) {
+          this.stats.cacheHits++;
           this.stats.cacheHitRate = this.calculateCacheHitRate();
+          this.emit('routing-cache-hit', { request, result: cached });
           return cached;
         }
       }
@@ -147,8 +160,17 @@ export class RouterService extends EventEmitter {
       // Use trade routing service to find optimal shard
       const result = await this.tradeRouting.findOptimalShard(request, availableShards);
       
+      // Large orders may only fit when spread over several shards
+      if (request.allowSplit) {
+        result.splitRouting = this.tradeRouting.findSplitRoute(request, availableShards);
+        
+        if (!result.routing && result.splitRouting) {
+          result.error = undefined;
+        }
+      }
+      
       // Update statistics
-      if (result.routing) {
+      if (result.routing || result.splitRouting) {
         this.stats.successfulRoutings++;
       } else {
         this.stats.failedRoutings++;
@@ -156,12 +178,24 @@ export class RouterService extends EventEmitter {
       
       this.updateSuccessRate();
       this.updateAvgRoutingTime(Date.now() - startTime);
+      this.stats.cacheHitRate = this.calculateCacheHitRate();
       
       // Cache the result
-      if (this.config.enableCaching && result.routing) {
+      if (this.config.enableCaching && (result.routing || result.splitRouting)) {
         this.cacheResult(request, result);
       }
       
+      await this.recordRoutingDecision(request, result);
+      
+      this.logger.info('Routing completed', {
+        tokenIn: request.tokenPair.tokenA.address,
+        tokenOut: request.tokenPair.tokenB.address,
+        outputAmount: request.outputAmount,
+        poolAddress: result.routing?.poolAddress,
+        split: Boolean(result.splitRouting),
+        searchTimeMs: result.metadata.searchTime,
+        routingError: result.error
+      });
       this.emit('routing-completed', { request, result });
       
       return result;
@@ -170,7 +204,7 @@ export class RouterService extends EventEmitter {
       this.stats.failedRoutings++;
       this.updateSuccessRate();
       
-      console.error('Failed to find optimal shard:', error);
+      this.logger.error('Failed to find optimal shard', error);
       this.emit('error', { error: RouterServiceError.SHARD_DISCOVERY_FAILED, context: error });
       
       return {
@@ -196,6 +230,11 @@ export class RouterService extends EventEmitter {
         throw new Error('Signer required for trade execution');
       }
       
+      this.logger.info('Executing trade', {
+        poolAddress: request.routing.poolAddress,
+        userAddress: request.userAddress,
+        recipient: request.recipient
+      });
       const result = await this.tradeRouting.executeTrade(request);
       
       // Update statistics
@@ -204,12 +243,14 @@ export class RouterService extends EventEmitter {
         this.stats.totalVolumeRouted += result.actualAmountOut;
       }
       
+      await this.recordTrade(request, result);
+      
       this.emit('trade-executed', { request, result });
       
       return result;
       
     } catch (error) {
-      console.error('Failed to execute trade:', error);
+      this.logger.error('Failed to execute trade', { userAddress: request.userAddress, error });
       this.emit('error', { error: RouterServiceError.TRADE_EXECUTION_FAILED, context: error });
       
       return {
@@ -232,12 +273,19 @@ export class RouterService extends EventEmitter {
     try {
       return await this.shardDiscovery.getAvailableShards(tokenPair);
     } catch (error) {
-      console.error('Failed to get available shards:', error);
+      this.logger.error('Failed to get available shards', error);
       this.emit('error', { error: RouterServiceError.SHARD_DISCOVERY_FAILED, context: error });
       return [];
     }
   }
 
+  /**
+   * Get every cached shard, across all pairs
+   */
+  getAllShards(): ShardInfo[] {
+    return this.shardDiscovery.getAllShards();
+  }
+
   /**
    * Get specific shard information
    */
@@ -245,7 +293,7 @@ export class RouterService extends EventEmitter {
     try {
       return await this.shardDiscovery.getShardInfo(poolAddress);
     } catch (error) {
-      console.error('Failed to get shard info:', error);
+      this.logger.error('Failed to get shard info', error);
       return null;
     }
   }
@@ -257,8 +305,9 @@ export class RouterService extends EventEmitter {
     try {
       await this.shardDiscovery.refreshAllShards();
       this.routingCache.clear(); // Clear cache after refresh
+      await this.config.persistence?.clearCacheNamespace(ROUTING_CACHE_NAMESPACE);
     } catch (error) {
-      console.error('Failed to refresh shards:', error);
+      this.logger.error('Failed to refresh shards', error);
       this.emit('error', { error: RouterServiceError.SHARD_DISCOVERY_FAILED, context: error });
     }
   }
@@ -289,9 +338,12 @@ export class RouterService extends EventEmitter {
       avgRoutingTime: 0,
       totalTradesExecuted: 0,
       totalVolumeRouted: 0n,
+      cacheHits: 0,
       cacheHitRate: 0,
       lastReset: Date.now()
     };
+    
+    this.persistStats().catch(error => this.logger.error('Failed to persist router stats', error));
   }
 
   /**
@@ -299,7 +351,7 @@ export class RouterService extends EventEmitter {
    */
   updateConfig(updates: Partial<RouterServiceConfig>): void {
     this.config = { ...this.config, ...updates };
-    console.log('Router configuration updated');
+    this.logger.info('Router configuration updated');
   }
 
   // Private methods
@@ -310,10 +362,12 @@ export class RouterService extends EventEmitter {
   private setupEventForwarding(): void {
     // Forward shard discovery events
     this.shardDiscovery.on('shard-discovered', (data) => {
+      this.invalidatePairCache(data.shard);
       this.emit('shard-discovered', data);
     });
     
     this.shardDiscovery.on('shard-updated', (data) => {
+      this.invalidatePairCache(data.shard);
       this.emit('shard-updated', data);
     });
     
@@ -330,7 +384,25 @@ export class RouterService extends EventEmitter {
    * Generate cache key for routing request
    */
   private getCacheKey(request: ShardRoutingRequest): string {
-    return `${request.tokenPair.tokenA.address}-${request.tokenPair.tokenB.address}-${request.outputAmount}-${request.chainId}`;
+    return `${request.tokenPair.tokenA.address}-${request.tokenPair.tokenB.address}-${request.outputAmount}-${request.chainId}-${request.allowSplit ? 'split' : 'single'}`;
+  }
+
+  /**
+   * Drop cached routing results for the pair of an updated shard
+   * Keeps re-quotes pushed on shard updates from returning the pre-update route.
+   */
+  private invalidatePairCache(shard: ShardInfo): void {
+    const tokenA = shard.tokenA.address;
+    const tokenB = shard.tokenB.address;
+    const prefixes = [`${tokenA}-${tokenB}-`, `${tokenB}-${tokenA}-`].map(prefix => prefix.toLowerCase());
+    
+    for (const key of Array.from(this.routingCache.keys())) {
+      if (!prefixes.some(prefix => key.toLowerCase().startsWith(prefix))) continue;
+      
+      this.routingCache.delete(key);
+      this.config.persistence?.deleteCacheEntry(ROUTING_CACHE_NAMESPACE, key)
+        .catch(error => this.logger.error('Failed to delete routing cache entry', error));
+    }
   }
 
   /**
@@ -361,6 +433,108 @@ export class RouterService extends EventEmitter {
       result,
       timestamp: Date.now()
     });
+    
+    this.config.persistence?.setCacheEntry(ROUTING_CACHE_NAMESPACE, key, result, this.config.cacheTTL)
+      .catch(error => this.logger.error('Failed to persist routing cache entry', error));
+  }
+
+  /**
+   * Load statistics and unexpired routing results from persistence
+   */
+  private async restorePersistedState(): Promise<void> {
+    const persistence = this.config.persistence;
+    if (!persistence) return;
+    
+    try {
+      const chainId = String(this.config.chainConfig.chainId);
+      const stats = await persistence.getCacheEntry<RouterServiceStats>(STATS_NAMESPACE, chainId);
+      if (stats) {
+        this.stats = { ...this.stats, ...stats.value };
+      }
+      
+      if (this.config.enableCaching) {
+        const entries = await persistence.getCacheEntries<ShardRoutingResult>(ROUTING_CACHE_NAMESPACE);
+        for (const entry of entries) {
+          this.routingCache.set(entry.key, { result: entry.value, timestamp: entry.updatedAt });
+        }
+      }
+    } catch (error) {
+      this.logger.error('Failed to restore router state from persistence', error);
+    }
+  }
+
+  /**
+   * Record a routing decision and the updated statistics
+   */
+  private async recordRoutingDecision(request: ShardRoutingRequest, result: ShardRoutingResult): Promise<void> {
+    const persistence = this.config.persistence;
+    if (!persistence) return;
+    
+    const poolAddresses = result.routing
+      ? [result.routing.poolAddress]
+      : result.splitRouting?.slices.map(slice => slice.poolAddress) ?? [];
+    const amountIn = result.routing?.expectedAmountIn ?? result.splitRouting?.totalAmountIn ?? null;
+    
+    try {
+      await persistence.recordRoutingDecision({
+        chainId: request.chainId,
+        source: 'router',
+        tokenIn: request.tokenPair.tokenA.address,
+        tokenOut: request.tokenPair.tokenB.address,
+        amountIn,
+        amountOut: request.outputAmount,
+        poolAddresses,
+        success: poolAddresses.length > 0,
+        error: result.error,
+        timestamp: Date.now()
+      });
+      await this.persistStats();
+    } catch (error) {
+      this.logger.error('Failed to persist routing decision', error);
+    }
+  }
+
+  /**
+   * Record an executed trade and the updated statistics
+   */
+  private async recordTrade(request: TradeExecutionRequest, result: TradeExecutionResult): Promise<void> {
+    const persistence = this.config.persistence;
+    if (!persistence) return;
+    
+    const shard = this.shardDiscovery.getAllShards()
+      .find(candidate => candidate.poolAddress.toLowerCase() === request.routing.poolAddress.toLowerCase());
+    
+    try {
+      await persistence.recordTrade({
+        chainId: request.routing.chainId,
+        source: 'router',
+        transactionHash: result.transactionHash,
+        tokenIn: shard?.tokenA.address ?? '',
+        tokenOut: shard?.tokenB.address ?? '',
+        amountIn: result.actualAmountIn,
+        amountOut: result.actualAmountOut,
+        fee: result.actualFee,
+        gasUsed: result.gasUsed,
+        poolAddresses: [request.routing.poolAddress],
+        success: result.success,
+        error: result.error,
+        timestamp: result.timestamp
+      });
+      await this.persistStats();
+    } catch (error) {
+      this.logger.error('Failed to persist trade', error);
+    }
+  }
+
+  /**
+   * Save current statistics so they survive a restart
+   */
+  private async persistStats(): Promise<void> {
+    await this.config.persistence?.setCacheEntry(
+      STATS_NAMESPACE,
+      String(this.config.chainConfig.chainId),
+      this.stats
+    );
   }
 
   /**
@@ -401,7 +575,6 @@ export class RouterService extends EventEmitter {
    * Calculate cache hit rate
    */
   private calculateCacheHitRate(): number {
-    // This is a simplified calculation - in production you'd want more sophisticated metrics
-    return Math.min(100, (this.routingCache.size / Math.max(1, this.stats.totalRequests)) * 100);
+    return (this.stats.cacheHits / Math.max(1, this.stats.totalRequests)) * 100;
   }
 }
\ No newline at end of file
@@ -14,6 +14,9 @@ import {
   RouterServiceError,
   RouterServiceEvents
 } from './types';
+import { PersistenceStore, ShardSnapshotRecord } from '../persistence';
+import { PoolEventIndexer, valueInTokenA } from '../event-indexer';
+import { Logger } from '../logging';
 
 // ABI for SAMM Pool contract - minimal interface for discovery
 const SAMM_POOL_ABI = [
@@ -29,11 +32,12 @@ const SAMM_POOL_ABI = [
   'function getPoolState() external view returns (tuple(address tokenA, address tokenB, uint256 reserveA, uint256 reserveB, uint256 totalSupply, uint256 tradeFeeNumerator, uint256 tradeFeeDenominator, uint256 ownerFeeNumerator, uint256 ownerFeeDenominator))'
 ];
 
-// ABI for Pool Factory contract
+// ABI for SAMMPoolFactory
 const POOL_FACTORY_ABI = [
-  'function getAllPools() external view returns (address[])',
-  'function getPoolsForTokenPair(address tokenA, address tokenB) external view returns (address[])',
-  'event PoolCreated(address indexed tokenA, address indexed tokenB, address pool, uint256 poolCount)'
+  'function getAllShards() external view returns (address[])',
+  'function getShardsForPair(address tokenA, address tokenB) external view returns (address[])',
+  'event ShardCreated(address indexed shard, address indexed tokenA, address indexed tokenB, uint256 shardIndex, address creator)',
+  'event ShardInitialized(address indexed shard, uint256 amountA, uint256 amountB, uint256 lpTokens)'
 ];
 
 // ABI for ERC20 tokens
@@ -49,6 +53,9 @@ export class ShardDiscoveryService extends EventEmitter {
   private provider: ethers.Provider;
   private config: ShardDiscoveryConfig;
   private poolFactory: ethers.Contract;
+  private persistence?: PersistenceStore;
+  private eventIndexer: PoolEventIndexer;
+  private logger: Logger;
   
   // Cache for discovered shards
   private shardCache = new Map<string, ShardInfo>();
@@ -58,6 +65,11 @@ export class ShardDiscoveryService extends EventEmitter {
   private isMonitoring = false;
   private monitoringInterval?: NodeJS.Timeout;
   private lastUpdateTime = 0;
+  private readonly onShardInitialized = (shard: string) => {
+    this.registerShard(shard).catch((error) =>
+      this.logger.error('Failed to register initialized shard', { shard, error })
+    );
+  };
   
   // Metrics
   private metrics: ShardMonitoringMetrics = {
@@ -71,15 +83,22 @@ export class ShardDiscoveryService extends EventEmitter {
     avgResponseTime: 0
   };
 
-  constructor(config: ShardDiscoveryConfig) {
+  constructor(config: ShardDiscoveryConfig, persistence?: PersistenceStore) {
     super();
     this.config = config;
+    this.persistence = persistence;
+    this.logger = new Logger('ShardDiscoveryService', { chainId: config.chainId });
     this.provider = new ethers.JsonRpcProvider(config.rpcEndpoint);
     this.poolFactory = new ethers.Contract(
       config.poolFactoryAddress,
       POOL_FACTORY_ABI,
       this.provider
     );
+    this.eventIndexer = new PoolEventIndexer({
+      chainId: config.chainId,
+      provider: this.provider,
+      averageBlockTimeMs: config.blockTime
+    });
   }
 
   /**
@@ -87,19 +106,29 @@ export class ShardDiscoveryService extends EventEmitter {
    */
   async start(): Promise<void> {
     try {
-      console.log(`Starting shard discovery service for chain ${this.config.chainId}`);
+      this.logger.info('Starting shard discovery service');
+      
+      // Serve the last known shard state while the chain is queried
+      await this.warmCacheFromPersistence();
       
       // Initial discovery
-      await this.discoverAllShards();
+      try {
+        await this.discoverAllShards();
+      } catch (error) {
+        if (this.shardCache.size === 0) {
+          throw error;
+        }
+        this.logger.warn('Initial discovery failed, continuing with persisted shards', { shards: this.shardCache.size });
+      }
       
       // Start real-time monitoring if enabled
       if (this.config.enableRealTimeMonitoring) {
         this.startMonitoring();
       }
       
-      console.log(`Shard discovery service started. Found ${this.shardCache.size} shards`);
+      this.logger.info('Shard discovery service started', { shards: this.shardCache.size });
     } catch (error) {
-      console.error('Failed to start shard discovery service:', error);
+      this.logger.error('Failed to start shard discovery service', error);
       this.emit('error', { error: RouterServiceError.SHARD_DISCOVERY_FAILED, context: error });
       throw error;
     }
@@ -113,8 +142,9 @@ export class ShardDiscoveryService extends EventEmitter {
       clearInterval(this.monitoringInterval);
       this.monitoringInterval = undefined;
     }
+    this.poolFactory.off('ShardInitialized', this.onShardInitialized).catch(() => undefined);
     this.isMonitoring = false;
-    console.log('Shard discovery service stopped');
+    this.logger.info('Shard discovery service stopped');
   }
 
   /**
@@ -124,11 +154,11 @@ export class ShardDiscoveryService extends EventEmitter {
     const startTime = Date.now();
     
     try {
-      console.log('Discovering all SAMM pools...');
+      this.logger.debug('Discovering all SAMM pools');
       
       // Get all pool addresses from factory
-      const poolAddresses: string[] = await this.poolFactory.getAllPools();
-      console.log(`Found ${poolAddresses.length} pools from factory`);
+      const poolAddresses: string[] = await this.poolFactory.getAllShards();
+      this.logger.debug('Found pools from factory', { pools: poolAddresses.length });
       
       // Process pools in batches
       const shards: ShardInfo[] = [];
@@ -142,18 +172,23 @@ export class ShardDiscoveryService extends EventEmitter {
       
       // Update cache
       for (const shard of shards) {
+        const isNew = !this.shardCache.has(shard.id);
         this.shardCache.set(shard.id, shard);
+        if (isNew) {
+          this.emit('shard-discovered', { shard });
+        }
       }
+      await this.persistShards(shards);
       
       // Update metrics
       this.updateMetrics();
       
       const discoveryTime = Date.now() - startTime;
-      console.log(`Discovery completed in ${discoveryTime}ms. Found ${shards.length} active shards`);
+      this.logger.info('Discovery completed', { durationMs: discoveryTime, shards: shards.length });
       
       return shards;
     } catch (error) {
-      console.error('Failed to discover shards:', error);
+      this.logger.error('Failed to discover shards', error);
       this.metrics.errorCount++;
       this.emit('error', { error: RouterServiceError.SHARD_DISCOVERY_FAILED, context: error });
       throw error;
@@ -191,7 +226,7 @@ export class ShardDiscoveryService extends EventEmitter {
       
       return shards;
     } catch (error) {
-      console.error('Failed to get available shards:', error);
+      this.logger.error('Failed to get available shards', error);
       this.emit('error', { error: RouterServiceError.SHARD_DISCOVERY_FAILED, context: error });
       return [];
     }
@@ -214,16 +249,35 @@ export class ShardDiscoveryService extends EventEmitter {
       const shard = await this.fetchShardData(poolAddress);
       if (shard) {
         this.shardCache.set(shard.id, shard);
+        await this.persistShards([shard]);
         this.emit('shard-updated', { shard });
       }
       
       return shard;
     } catch (error) {
-      console.error(`Failed to get shard info for ${poolAddress}:`, error);
+      this.logger.error('Failed to get shard info', { poolAddress, error });
       return null;
     }
   }
 
+  /**
+   * Add a shard the factory just initialized without waiting for the next
+   * full discovery; shards below the liquidity threshold are skipped
+   */
+  async registerShard(poolAddress: string): Promise<ShardInfo | null> {
+    const shard = await this.fetchShardData(poolAddress);
+    if (!shard) return null;
+
+    const isNew = !this.shardCache.has(shard.id);
+    this.shardCache.set(shard.id, shard);
+    await this.persistShards([shard]);
+    this.updateMetrics();
+    this.emit(isNew ? 'shard-discovered' : 'shard-updated', { shard });
+    this.logger.info('Registered shard', { poolAddress: shard.poolAddress, isNew });
+
+    return shard;
+  }
+
   /**
    * Get current monitoring metrics
    */
@@ -235,7 +289,7 @@ export class ShardDiscoveryService extends EventEmitter {
    * Force refresh of all shard data
    */
   async refreshAllShards(): Promise<void> {
-    console.log('Force refreshing all shard data...');
+    this.logger.info('Force refreshing all shard data');
     await this.discoverAllShards();
   }
 
@@ -255,16 +309,20 @@ export class ShardDiscoveryService extends EventEmitter {
     if (this.isMonitoring) return;
     
     this.isMonitoring = true;
+    // New shards become routable as soon as the factory seeds them
+    this.poolFactory.on('ShardInitialized', this.onShardInitialized).catch((error) =>
+      this.logger.warn('Failed to watch factory for new shards', { error })
+    );
     this.monitoringInterval = setInterval(async () => {
       try {
         await this.updateShardData();
       } catch (error) {
-        console.error('Error during monitoring update:', error);
+        this.logger.error('Error during monitoring update', error);
         this.metrics.errorCount++;
       }
     }, this.config.refreshInterval);
     
-    console.log(`Started real-time monitoring with ${this.config.refreshInterval}ms interval`);
+    this.logger.info('Started real-time monitoring', { intervalMs: this.config.refreshInterval });
   }
 
   /**
@@ -276,10 +334,11 @@ export class ShardDiscoveryService extends EventEmitter {
     
     if (staleShards.length === 0) return;
     
-    console.log(`Updating ${staleShards.length} stale shards`);
+    this.logger.debug('Updating stale shards', { shards: staleShards.length });
     
     // Update in batches
     const batchSize = this.config.batchSize;
+    const updatedShards: ShardInfo[] = [];
     for (let i = 0; i < staleShards.length; i += batchSize) {
       const batch = staleShards.slice(i, i + batchSize);
       await Promise.all(batch.map(async (shard) => {
@@ -287,17 +346,97 @@ export class ShardDiscoveryService extends EventEmitter {
           const updated = await this.fetchShardData(shard.poolAddress);
           if (updated) {
             this.shardCache.set(updated.id, updated);
+            updatedShards.push(updated);
             this.emit('shard-updated', { shard: updated });
           }
         } catch (error) {
-          console.error(`Failed to update shard ${shard.id}:`, error);
+          this.logger.error('Failed to update shard', { shardId: shard.id, error });
         }
       }));
     }
     
+    await this.persistShards(updatedShards);
     this.updateMetrics();
   }
 
+  /**
+   * Load the latest persisted snapshot of every shard into the cache
+   */
+  private async warmCacheFromPersistence(): Promise<void> {
+    if (!this.persistence) return;
+    
+    try {
+      const snapshots = await this.persistence.getLatestShardSnapshots(this.config.chainId);
+      
+      for (const snapshot of snapshots) {
+        const shard = this.fromSnapshot(snapshot);
+        this.shardCache.set(shard.id, shard);
+        this.tokenCache.set(`${this.config.chainId}-${shard.tokenA.address.toLowerCase()}`, shard.tokenA);
+        this.tokenCache.set(`${this.config.chainId}-${shard.tokenB.address.toLowerCase()}`, shard.tokenB);
+      }
+      
+      if (snapshots.length > 0) {
+        this.updateMetrics();
+        this.logger.info('Restored shards from persistence', { shards: snapshots.length });
+      }
+    } catch (error) {
+      this.logger.error('Failed to restore shards from persistence', error);
+    }
+  }
+
+  /**
+   * Record reserve snapshots for freshly fetched shards
+   */
+  private async persistShards(shards: ShardInfo[]): Promise<void> {
+    if (!this.persistence || shards.length === 0) return;
+    
+    try {
+      await this.persistence.saveShardSnapshots(shards.map(shard => ({
+        chainId: shard.chainId,
+        poolAddress: shard.poolAddress,
+        shardId: shard.id,
+        tokenA: shard.tokenA,
+        tokenB: shard.tokenB,
+        reserveA: shard.reserveA,
+        reserveB: shard.reserveB,
+        totalSupply: shard.totalSupply,
+        sammParams: shard.sammParams,
+        fees: shard.fees,
+        status: shard.status,
+        timestamp: shard.lastSyncTime
+      })));
+    } catch (error) {
+      this.logger.error('Failed to persist shard snapshots', error);
+    }
+  }
+
+  /**
+   * Rebuild shard information from a persisted snapshot
+   */
+  private fromSnapshot(snapshot: ShardSnapshotRecord): ShardInfo {
+    return {
+      id: snapshot.shardId,
+      poolAddress: snapshot.poolAddress.toLowerCase(),
+      tokenA: snapshot.tokenA,
+      tokenB: snapshot.tokenB,
+      reserveA: snapshot.reserveA,
+      reserveB: snapshot.reserveB,
+      totalSupply: snapshot.totalSupply,
+      sammParams: snapshot.sammParams,
+      fees: snapshot.fees,
+      metrics: {
+        volume24h: 0n,
+        fees24h: 0n,
+        transactions24h: 0,
+        lastUpdated: snapshot.timestamp
+      },
+      status: snapshot.status,
+      chainId: snapshot.chainId,
+      // Keeps restored shards stale so monitoring refreshes them first
+      lastSyncTime: snapshot.timestamp
+    };
+  }
+
   /**
    * Process a batch of pool addresses
    */
@@ -310,8 +449,10 @@ export class ShardDiscoveryService extends EventEmitter {
       if (result.status === 'fulfilled' && result.value) {
         shards.push(result.value);
       } else {
-        console.warn(`Failed to fetch data for pool ${poolAddresses[index]}:`, 
-          result.status === 'rejected' ? result.reason : 'No data returned');
+        this.logger.warn('Failed to fetch pool data', {
+          poolAddress: poolAddresses[index],
+          error: result.status === 'rejected' ? result.reason : 'No data returned'
+        });
       }
     });
     
@@ -342,7 +483,7 @@ export class ShardDiscoveryService extends EventEmitter {
       ]);
       
       if (!tokenA || !tokenB) {
-        console.warn(`Failed to get token info for pool ${poolAddress}`);
+        this.logger.warn('Failed to get token info for pool', { poolAddress });
         return null;
       }
       
@@ -353,6 +494,9 @@ export class ShardDiscoveryService extends EventEmitter {
       }
       
       const shardId = `${this.config.chainId}-${poolAddress.toLowerCase()}`;
+      const reserveA = BigInt(reserves.reserveA.toString());
+      const reserveB = BigInt(reserves.reserveB.toString());
+      const activity = await this.getShardActivity(poolAddress);
       const now = Date.now();
       
       const shard: ShardInfo = {
@@ -360,8 +504,8 @@ export class ShardDiscoveryService extends EventEmitter {
         poolAddress: poolAddress.toLowerCase(),
         tokenA,
         tokenB,
-        reserveA: BigInt(reserves.reserveA.toString()),
-        reserveB: BigInt(reserves.reserveB.toString()),
+        reserveA,
+        reserveB,
         totalSupply: BigInt(totalSupply.toString()),
         sammParams: {
           beta1: Number(sammParams.beta1) / 1e6, // Convert from scaled
@@ -376,9 +520,11 @@ export class ShardDiscoveryService extends EventEmitter {
           ownerFeeDenominator: Number(poolState.ownerFeeDenominator)
         },
         metrics: {
-          volume24h: 0n, // Would need event tracking for accurate volume
-          fees24h: 0n,
-          transactions24h: 0,
+          volume24h: activity?.volumeTokenA ?? 0n,
+          fees24h: activity
+            ? valueInTokenA(activity.feesTokenA, activity.feesTokenB, reserveA, reserveB)
+            : 0n,
+          transactions24h: activity?.swapCount ?? 0,
           lastUpdated: now
         },
         status: 'active',
@@ -388,7 +534,25 @@ export class ShardDiscoveryService extends EventEmitter {
       
       return shard;
     } catch (error) {
-      console.error(`Failed to fetch shard data for ${poolAddress}:`, error);
+      this.logger.error('Failed to fetch shard data', { poolAddress, error });
+      return null;
+    }
+  }
+
+  /**
+   * Rolling 24h swap activity of a pool from its events
+   * Returns null when indexing fails so shard discovery is not blocked
+   */
+  private async getShardActivity(poolAddress: string) {
+    try {
+      if (this.eventIndexer.isTracking(poolAddress)) {
+        await this.eventIndexer.syncPool(poolAddress);
+      } else {
+        await this.eventIndexer.trackPool(poolAddress);
+      }
+      return this.eventIndexer.getShardMetrics(poolAddress);
+    } catch (error) {
+      this.logger.warn('Failed to index pool events', { poolAddress, error });
       return null;
     }
   }
@@ -423,7 +587,7 @@ export class ShardDiscoveryService extends EventEmitter {
       
       return token;
     } catch (error) {
-      console.error(`Failed to get token info for ${tokenAddress}:`, error);
+      this.logger.error('Failed to get token info', { tokenAddress, error });
       return null;
     }
   }
@@ -9,11 +9,14 @@ import {
   SmallestShardSelection,
   RouterServiceError
 } from './types';
+import { SAMMFeeCalculator } from '../samm-fees';
+import { Logger } from '../logging';
 
 /**
  * Service for identifying and selecting the smallest shards according to SAMM properties
  */
 export class SmallestShardSelector {
+  private logger = new Logger('SmallestShardSelector');
   
   /**
    * Identify shards with smallest deposited amounts (RA values)
@@ -229,10 +232,14 @@ export class SmallestShardSelector {
     const selectedReserve = this.getReserveForToken(selectedShard, inputToken);
     
     // Check c-threshold: tradeAmount <= c * selectedReserve
-    const cThreshold = BigInt(Math.floor(selectedShard.sammParams.c * 1e6)); // Convert to scaled
-    const maxTradeAmount = (selectedReserve * cThreshold) / BigInt(1e6);
+    const isTokenA = inputToken.toLowerCase() === selectedShard.tokenA.address.toLowerCase();
+    const withinCThreshold = SAMMFeeCalculator.isWithinCThreshold(tradeAmount, selectedReserve, {
+      sammParams: SAMMFeeCalculator.fromDecimalParams(selectedShard.sammParams),
+      inputDecimals: isTokenA ? selectedShard.tokenA.decimals : selectedShard.tokenB.decimals,
+      outputDecimals: isTokenA ? selectedShard.tokenB.decimals : selectedShard.tokenA.decimals
+    });
     
-    if (tradeAmount > maxTradeAmount) {
+    if (!withinCThreshold) {
       // Trade exceeds c-threshold, c-smaller-better doesn't apply
       return true;
     }
@@ -282,7 +289,7 @@ export class SmallestShardSelector {
     );
 
     if (!isValidSelection) {
-      console.warn('Selected shard does not follow c-smaller-better property');
+      this.logger.warn('Selected shard does not follow c-smaller-better property', { poolAddress: selection.selectedShard.poolAddress });
     }
 
     return selection;
@@ -13,9 +13,13 @@ import {
   TradeExecutionRequest,
   TradeExecutionResult,
   CThresholdValidation,
+  SplitRouting,
+  SplitRouteSlice,
   RouterServiceError
 } from './types';
 import { SmallestShardSelector } from './SmallestShardSelector';
+import { SAMMFeeCalculator, SAMMPoolFeeConfig, SAMM_SCALE_FACTOR } from '../samm-fees';
+import { Logger } from '../logging';
 
 // ABI for SAMM Pool contract - trading functions
 const SAMM_POOL_TRADING_ABI = [
@@ -25,10 +29,17 @@ const SAMM_POOL_TRADING_ABI = [
   'function getSAMMParams() external view returns (int256 beta1, uint256 rmin, uint256 rmax, uint256 c)'
 ];
 
+/** Number of increments an order is divided into when allocating it across shards */
+const SPLIT_ALLOCATION_STEPS = 100n;
+
+/** Default gas per swapSAMM call when no estimate is available */
+const DEFAULT_SWAP_GAS = BigInt(200000);
+
 /**
  * Service for routing single-pool trades with SAMM properties validation
  */
 export class TradeRoutingService {
+  private logger = new Logger('TradeRoutingService');
   private provider: ethers.Provider;
   private shardSelector: SmallestShardSelector;
   private signer?: ethers.Signer;
@@ -125,7 +136,7 @@ export class TradeRoutingService {
       };
 
     } catch (error) {
-      console.error('Failed to find optimal shard:', error);
+      this.logger.error('Failed to find optimal shard', error);
       return {
         routing: null,
         availableShards,
@@ -140,6 +151,131 @@ export class TradeRoutingService {
     }
   }
 
+  /**
+   * Spread an order over several shards of the same pair
+   *
+   * The order is allocated in small increments, each going to the shard whose
+   * SAMM quote grows the least for it. The allocation is compared with the best
+   * single shard and the cheaper of the two is returned. No shard receives more
+   * than its c-threshold allows.
+   * @param request Routing request parameters
+   * @param availableShards Available shards for the token pair
+   * @returns Split routing, or null if the shards cannot absorb the order
+   */
+  findSplitRoute(
+    request: ShardRoutingRequest,
+    availableShards: ShardInfo[]
+  ): SplitRouting | null {
+    this.validateRoutingRequest(request);
+
+    const inputToken = this.determineInputToken(request.tokenPair, request.outputAmount);
+    const shards = availableShards.filter(shard => shard.status === 'active');
+
+    const capacities = shards.map(shard => this.getMaxOutputWithinCThreshold(shard, inputToken));
+    const totalCapacity = capacities.reduce((sum, capacity) => sum + capacity, 0n);
+    if (shards.length === 0 || totalCapacity < request.outputAmount) {
+      return null;
+    }
+
+    const allocations = shards.map(() => 0n);
+    const costs = shards.map(() => 0n);
+    const step = (request.outputAmount + SPLIT_ALLOCATION_STEPS - 1n) / SPLIT_ALLOCATION_STEPS;
+    let remaining = request.outputAmount;
+
+    while (remaining > 0n) {
+      let bestIndex = -1;
+      let bestChunk = 0n;
+      let bestCost = 0n;
+
+      for (let i = 0; i < shards.length; i++) {
+        const room = capacities[i] - allocations[i];
+        const chunk = room < step ? room : step;
+        const size = chunk < remaining ? chunk : remaining;
+        if (size <= 0n) {
+          continue;
+        }
+
+        const cost = this.quoteShard(shards[i], allocations[i] + size, inputToken).amountIn;
+        const marginal = cost - costs[i];
+
+        // Compare marginal input per unit of output: marginal / size
+        const isBetter = bestIndex === -1 || marginal * bestChunk < (bestCost - costs[bestIndex]) * size;
+        if (isBetter) {
+          bestIndex = i;
+          bestChunk = size;
+          bestCost = cost;
+        }
+      }
+
+      if (bestIndex === -1) {
+        return null;
+      }
+
+      allocations[bestIndex] += bestChunk;
+      costs[bestIndex] = bestCost;
+      remaining -= bestChunk;
+    }
+
+    // SAMM fees favour a single shard (c-non-splitting), so keep the cheapest
+    // shard that can take the whole order alone if it beats the allocation
+    let bestSingleIndex = -1;
+    let bestSingleAmountIn: bigint | null = null;
+    for (let i = 0; i < shards.length; i++) {
+      if (capacities[i] >= request.outputAmount) {
+        const amountIn = this.quoteShard(shards[i], request.outputAmount, inputToken).amountIn;
+        if (bestSingleAmountIn === null || amountIn < bestSingleAmountIn) {
+          bestSingleIndex = i;
+          bestSingleAmountIn = amountIn;
+        }
+      }
+    }
+
+    const allocatedAmountIn = costs.reduce((sum, cost) => sum + cost, 0n);
+    if (bestSingleAmountIn !== null && bestSingleAmountIn <= allocatedAmountIn) {
+      allocations.fill(0n);
+      allocations[bestSingleIndex] = request.outputAmount;
+    }
+
+    const slices: SplitRouteSlice[] = [];
+    for (let i = 0; i < shards.length; i++) {
+      if (allocations[i] === 0n) {
+        continue;
+      }
+
+      const quote = this.quoteShard(shards[i], allocations[i], inputToken);
+      slices.push({
+        shardId: shards[i].id,
+        poolAddress: shards[i].poolAddress,
+        amountOut: allocations[i],
+        expectedAmountIn: quote.amountIn,
+        estimatedFee: quote.tradeFee + quote.ownerFee,
+        priceImpact: this.calculatePriceImpact(
+          quote.amountIn,
+          this.shardSelector.getReserveForToken(shards[i], inputToken)
+        )
+      });
+    }
+
+    const totalAmountIn = slices.reduce((sum, slice) => sum + slice.expectedAmountIn, 0n);
+    const priceImpact = slices.reduce(
+      (sum, slice) => sum + slice.priceImpact * Number(slice.amountOut),
+      0
+    ) / Number(request.outputAmount);
+
+    return {
+      slices,
+      totalAmountOut: request.outputAmount,
+      totalAmountIn,
+      totalFee: slices.reduce((sum, slice) => sum + slice.estimatedFee, 0n),
+      estimatedGas: DEFAULT_SWAP_GAS * BigInt(slices.length),
+      priceImpact,
+      savingsVsSingleShard: bestSingleAmountIn !== null && bestSingleAmountIn > totalAmountIn
+        ? bestSingleAmountIn - totalAmountIn
+        : 0n,
+      chainId: request.chainId
+    };
+  }
+
   /**
    * Validate c-threshold for a trade
    * Implements: trade_amount <= c × shard_reserve_amount
@@ -156,14 +292,19 @@ export class TradeRoutingService {
     // Get the reserve amount for the input token (RA in the paper)
     const shardReserve = this.shardSelector.getReserveForToken(shard, inputToken);
     
-    // Calculate c-threshold: c × shard_reserve_amount
+    // Calculate c-threshold: c × shard_reserve_amount, expressed in output token units
     const cParameter = shard.sammParams.c;
-    const cScaled = BigInt(Math.floor(cParameter * 1e6)); // Convert to scaled integer
-    const threshold = (shardReserve * cScaled) / BigInt(1e6);
+    const feeConfig = this.getFeeConfig(shard, inputToken);
+    const threshold = SAMMFeeCalculator.denormalize(
+      (SAMMFeeCalculator.normalize(shardReserve, feeConfig.inputDecimals) * feeConfig.sammParams.c) / SAMM_SCALE_FACTOR,
+      feeConfig.outputDecimals
+    );
     
-    // Check if trade amount is within threshold
-    const isValid = outputAmount <= threshold;
-    const ratio = Number(outputAmount * BigInt(1000)) / Number(threshold); // Ratio in basis points
+    // Check if trade amount is within threshold (same normalized check as swapSAMM)
+    const isValid = SAMMFeeCalculator.isWithinCThreshold(outputAmount, shardReserve, feeConfig);
+    const ratio = threshold > 0n
+      ? Number(outputAmount * BigInt(1000)) / Number(threshold) // Ratio in basis points
+      : Infinity;
     
     return {
       isValid,
@@ -252,7 +393,7 @@ export class TradeRoutingService {
       };
 
     } catch (error) {
-      console.error('Trade execution failed:', error);
+      this.logger.error('Trade execution failed', { userAddress: request.userAddress, error });
       return {
         transactionHash: '',
         actualAmountIn: 0n,
@@ -291,15 +432,32 @@ export class TradeRoutingService {
         ? shard.tokenB.address
         : shard.tokenA.address;
 
-      // Calculate swap details
-      const swapResult = await pool.calculateSwapSAMM(
-        request.outputAmount,
-        inputToken,
-        outputToken
-      );
+      // The snapshot that picked the shard may be stale, so the pool's own
+      // quote at current reserves is preferred; the snapshot quote is only
+      // used when the pool cannot be reached
+      let swapResult: { amountIn: bigint; tradeFee: bigint; ownerFee: bigint };
+      try {
+        const onChainQuote = await pool.calculateSwapSAMM(request.outputAmount, inputToken, outputToken);
+        swapResult = {
+          amountIn: BigInt(onChainQuote.amountIn.toString()),
+          tradeFee: BigInt(onChainQuote.tradeFee.toString()),
+          ownerFee: BigInt(onChainQuote.ownerFee.toString())
+        };
+      } catch (quoteError) {
+        this.logger.warn('On-chain quote failed, using the shard snapshot', {
+          poolAddress: shard.poolAddress,
+          error: quoteError
+        });
+        const snapshotQuote = this.quoteShard(shard, request.outputAmount, inputToken);
+        swapResult = {
+          amountIn: snapshotQuote.amountIn,
+          tradeFee: snapshotQuote.tradeFee,
+          ownerFee: snapshotQuote.ownerFee
+        };
+      }
 
       // Estimate gas
-      let estimatedGas = BigInt(200000); // Default estimate
+      let estimatedGas = DEFAULT_SWAP_GAS; // Default estimate
       if (request.userAddress) {
         try {
           const gasEstimate = await pool.swapSAMM.estimateGas(
@@ -311,14 +469,14 @@ export class TradeRoutingService {
           );
           estimatedGas = BigInt(gasEstimate.toString());
         } catch (gasError) {
-          console.warn('Gas estimation failed, using default:', gasError);
+          this.logger.warn('Gas estimation failed, using default', gasError);
         }
       }
 
       // Calculate price impact
       const inputReserve = this.shardSelector.getReserveForToken(shard, inputToken);
       const priceImpact = this.calculatePriceImpact(
-        BigInt(swapResult.amountIn.toString()),
+        swapResult.amountIn,
         inputReserve
       );
 
@@ -332,8 +490,8 @@ export class TradeRoutingService {
       return {
         shardId: shard.id,
         poolAddress: shard.poolAddress,
-        expectedAmountIn: BigInt(swapResult.amountIn.toString()),
-        estimatedFee: BigInt(swapResult.tradeFee.toString()) + BigInt(swapResult.ownerFee.toString()),
+        expectedAmountIn: swapResult.amountIn,
+        estimatedFee: swapResult.tradeFee + swapResult.ownerFee,
         isSmallestShard,
         chainId: shard.chainId,
         confidenceScore: isSmallestShard ? 95 : 75, // High confidence for smallest shard
@@ -342,11 +500,53 @@ export class TradeRoutingService {
       };
 
     } catch (error) {
-      console.error('Failed to calculate routing:', error);
+      this.logger.error('Failed to calculate routing', error);
       throw error;
     }
   }
 
+  /**
+   * Quote an exact-output swap on a shard from its cached state
+   */
+  private quoteShard(shard: ShardInfo, outputAmount: bigint, inputToken: string) {
+    const isTokenA = inputToken.toLowerCase() === shard.tokenA.address.toLowerCase();
+    return SAMMFeeCalculator.calculateSwapSAMM(
+      outputAmount,
+      isTokenA ? shard.reserveA : shard.reserveB,
+      isTokenA ? shard.reserveB : shard.reserveA,
+      this.getFeeConfig(shard, inputToken)
+    );
+  }
+
+  /**
+   * Largest output a shard can serve without exceeding its c-threshold
+   */
+  private getMaxOutputWithinCThreshold(shard: ShardInfo, inputToken: string): bigint {
+    const isTokenA = inputToken.toLowerCase() === shard.tokenA.address.toLowerCase();
+    const outputReserve = isTokenA ? shard.reserveB : shard.reserveA;
+    const threshold = this.validateCThreshold(shard, 0n, inputToken).threshold;
+
+    // The contract also requires amountOut < outputReserve
+    if (threshold < outputReserve) {
+      return threshold;
+    }
+    return outputReserve > 0n ? outputReserve - 1n : 0n;
+  }
+
+  /**
+   * Build fee-library configuration for a shard and trade direction
+   */
+  private getFeeConfig(shard: ShardInfo, inputToken: string): SAMMPoolFeeConfig {
+    const isTokenA = inputToken.toLowerCase() === shard.tokenA.address.toLowerCase();
+    return {
+      sammParams: SAMMFeeCalculator.fromDecimalParams(shard.sammParams),
+      ownerFeeNumerator: BigInt(shard.fees.ownerFeeNumerator),
+      ownerFeeDenominator: BigInt(shard.fees.ownerFeeDenominator),
+      inputDecimals: isTokenA ? shard.tokenA.decimals : shard.tokenB.decimals,
+      outputDecimals: isTokenA ? shard.tokenB.decimals : shard.tokenA.decimals
+    };
+  }
+
   /**
    * Validate routing request parameters
    */
@@ -3,6 +3,9 @@
  * Single-pool routing service with smallest-shard selection strategy
  */
 
+import type { PersistenceStore } from '../persistence';
+import { OrderBook, OrderKeeper, type OrderKeeperConfig } from '../orders';
+
 // Core services
 export { RouterService } from './RouterService';
 export { RouterAPI, type RouterAPIConfig } from './RouterAPI';
@@ -57,11 +60,14 @@ export async function createRouterService(
   chainConfig: any,
   provider: any,
   signer?: any,
-  apiConfig?: Partial<any>
+  apiConfig?: Partial<any>,
+  persistence?: PersistenceStore,
+  orderConfig?: Omit<OrderKeeperConfig, 'chainId'>
 ) {
   const routerConfig = {
     chainConfig,
-    ...DEFAULT_ROUTER_CONFIG
+    ...DEFAULT_ROUTER_CONFIG,
+    persistence
   };
 
   const router = new RouterService(routerConfig, provider, signer);
@@ -71,19 +77,31 @@ export async function createRouterService(
     ...apiConfig
   };
 
-  const api = new RouterAPI(finalApiConfig, router);
+  // Limit and TWAP orders need a settlement contract and a signer to fill them
+  let orderBook: OrderBook | undefined;
+  let orderKeeper: OrderKeeper | undefined;
+  if (orderConfig && signer) {
+    const keeperConfig = { ...orderConfig, chainId: chainConfig.chainId };
+    orderBook = new OrderBook({ ...keeperConfig, persistence });
+    orderKeeper = new OrderKeeper(keeperConfig, router, orderBook, signer);
+  }
+
+  const api = new RouterAPI(finalApiConfig, router, orderBook);
 
   return {
     router,
     api,
+    orderBook,
+    orderKeeper,
     async start() {
       await router.start();
+      await orderBook?.initialize();
+      orderKeeper?.start();
       await api.start();
-      console.log('Router Service and API started successfully');
     },
     stop() {
+      orderKeeper?.stop();
       router.stop();
-      console.log('Router Service stopped');
     }
   };
 }
@@ -3,6 +3,8 @@
  * Defines data structures for single-pool routing and shard selection
  */
 
+import { PersistenceStore } from '../persistence';
+
 /**
  * Represents a token in the system
  */
@@ -75,7 +77,7 @@ export interface ShardInfo {
     ownerFeeDenominator: number;
   };
   
-  /** Shard metrics */
+  /** Shard metrics, amounts in token A units */
   metrics: {
     volume24h: bigint;
     fees24h: bigint;
@@ -146,6 +148,61 @@ export interface ShardRoutingRequest {
   
   /** User's wallet address for gas estimation */
   userAddress?: string;
+  
+  /** Allow spreading the order over several shards of the pair */
+  allowSplit?: boolean;
+}
+
+/**
+ * One slice of a split order, executed on a single shard
+ */
+export interface SplitRouteSlice {
+  /** Shard ID */
+  shardId: string;
+  
+  /** Pool contract address */
+  poolAddress: string;
+  
+  /** Output amount taken from this shard */
+  amountOut: bigint;
+  
+  /** Input amount required for this slice */
+  expectedAmountIn: bigint;
+  
+  /** Trade fee + owner fee for this slice */
+  estimatedFee: bigint;
+  
+  /** Price impact percentage for this slice */
+  priceImpact: number;
+}
+
+/**
+ * Routing decision that spreads one order over several shards of the same pair
+ */
+export interface SplitRouting {
+  /** Slices, each within its shard's c-threshold */
+  slices: SplitRouteSlice[];
+  
+  /** Total output across slices (equals the requested output) */
+  totalAmountOut: bigint;
+  
+  /** Total input across slices */
+  totalAmountIn: bigint;
+  
+  /** Total fees across slices */
+  totalFee: bigint;
+  
+  /** Estimated gas for executing every slice */
+  estimatedGas: bigint;
+  
+  /** Output-weighted price impact percentage */
+  priceImpact: number;
+  
+  /** Input saved compared to the best single-shard route (0 if none exists) */
+  savingsVsSingleShard: bigint;
+  
+  /** Chain ID where routing occurs */
+  chainId: number;
 }
 
 /**
@@ -155,6 +212,9 @@ export interface ShardRoutingResult {
   /** Selected routing */
   routing: ShardRouting | null;
   
+  /** Split routing across several shards (only when requested with allowSplit) */
+  splitRouting?: SplitRouting | null;
+  
   /** All available shards considered */
   availableShards: ShardInfo[];
   
@@ -246,6 +306,9 @@ export interface ShardDiscoveryConfig {
   
   /** Batch size for querying multiple shards */
   batchSize: number;
+
+  /** Average block time in milliseconds, sizes the event backfill (default 12000) */
+  blockTime?: number;
 }
 
 /**
@@ -327,6 +390,9 @@ export interface RouterServiceConfig {
   /** Chain configuration */
   chainConfig: ShardDiscoveryConfig;
   
+  /** Store for shard snapshots, routing decisions and trades (state is in-memory only when omitted) */
+  persistence?: PersistenceStore;
+  
   /** Default slippage tolerance */
   defaultSlippage: number;
   
@@ -386,6 +452,9 @@ export interface RouterServiceStats {
   /** Total volume routed */
   totalVolumeRouted: bigint;
   
+  /** Routing requests answered from the cache */
+  cacheHits: number;
+  
   /** Cache hit rate */
   cacheHitRate: number;
   
@@ -417,6 +486,7 @@ export interface RouterServiceEvents {
   'shard-updated': { shard: ShardInfo };
   'shard-removed': { shardId: string };
   'routing-completed': { request: ShardRoutingRequest; result: ShardRoutingResult };
+  'routing-cache-hit': { request: ShardRoutingRequest; result: ShardRoutingResult };
   'trade-executed': { request: TradeExecutionRequest; result: TradeExecutionResult };
   'error': { error: RouterServiceError; context: any };
   'metrics-updated': { metrics: ShardMonitoringMetrics };
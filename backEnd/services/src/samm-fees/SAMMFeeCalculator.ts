@@ -0,0 +1,296 @@
+/**
+ * SAMM Fee Calculator
+ * Off-chain port of SAMMFees.sol, SAMMCurve.sol and SAMMPool._calculateSwapSAMM
+ *
+ * All arithmetic is done in bigint with the same operation order and rounding
+ * as the contracts, so a quote computed here matches `calculateSwapSAMM` on-chain.
+ */
+
+import {
+  SAMMFeeParams,
+  SAMMPoolFeeConfig,
+  SAMMSwapCalculation
+} from './types';
+
+/** Fixed-point scale used by all SAMM parameters */
+export const SAMM_SCALE_FACTOR = 1000000n;
+
+/** Decimals every amount is normalized to before fee math */
+export const SAMM_NORMALIZED_DECIMALS = 18;
+
+/** Research paper parameters (SAMMFees.BETA1_SCALED etc.) */
+export const DEFAULT_SAMM_PARAMS: SAMMFeeParams = {
+  beta1: -1050000n,
+  rmin: 1000n,
+  rmax: 12000n,
+  c: 10400n
+};
+
+export class SAMMFeeCalculator {
+
+  /**
+   * Build integer params from values already scaled by 1e6
+   * (the representation used by the cross-pool router's Pool type)
+   */
+  static fromScaledParams(params: { beta1: number; rmin: number; rmax: number; c: number }): SAMMFeeParams {
+    return {
+      beta1: BigInt(Math.round(params.beta1)),
+      rmin: BigInt(Math.round(params.rmin)),
+      rmax: BigInt(Math.round(params.rmax)),
+      c: BigInt(Math.round(params.c))
+    };
+  }
+
+  /**
+   * Build integer params from decimal values (e.g. c = 0.0104),
+   * the representation used by the router's ShardInfo type
+   */
+  static fromDecimalParams(params: { beta1: number; rmin: number; rmax: number; c: number }): SAMMFeeParams {
+    const scale = Number(SAMM_SCALE_FACTOR);
+    return SAMMFeeCalculator.fromScaledParams({
+      beta1: params.beta1 * scale,
+      rmin: params.rmin * scale,
+      rmax: params.rmax * scale,
+      c: params.c * scale
+    });
+  }
+
+  /**
+   * Normalize an amount to 18 decimals (SAMMPool._normalize)
+   */
+  static normalize(amount: bigint, tokenDecimals: number): bigint {
+    if (tokenDecimals === SAMM_NORMALIZED_DECIMALS) {
+      return amount;
+    }
+    if (tokenDecimals < SAMM_NORMALIZED_DECIMALS) {
+      return amount * 10n ** BigInt(SAMM_NORMALIZED_DECIMALS - tokenDecimals);
+    }
+    return amount / 10n ** BigInt(tokenDecimals - SAMM_NORMALIZED_DECIMALS);
+  }
+
+  /**
+   * Convert an 18-decimal amount back to native decimals (SAMMPool._denormalize)
+   */
+  static denormalize(amount: bigint, tokenDecimals: number): bigint {
+    if (tokenDecimals === SAMM_NORMALIZED_DECIMALS) {
+      return amount;
+    }
+    if (tokenDecimals < SAMM_NORMALIZED_DECIMALS) {
+      return amount / 10n ** BigInt(SAMM_NORMALIZED_DECIMALS - tokenDecimals);
+    }
+    return amount * 10n ** BigInt(tokenDecimals - SAMM_NORMALIZED_DECIMALS);
+  }
+
+  /**
+   * Dynamic SAMM trade fee (SAMMFees.calculateFeeSAMM)
+   * tf_SAMM(RA,RB,OA) = (RB/RA) × OA × max{rmin, β1×(OA/RA) + rmax}
+   * @param outputAmount Requested output amount (OA)
+   * @param outputReserve Output token reserve (RB)
+   * @param inputReserve Input token reserve (RA)
+   * @param params SAMM parameters (scaled by 1e6)
+   * @returns Fee in input tokens
+   */
+  static calculateFeeSAMM(
+    outputAmount: bigint,
+    outputReserve: bigint,
+    inputReserve: bigint,
+    params: SAMMFeeParams = DEFAULT_SAMM_PARAMS
+  ): bigint {
+    if (outputAmount === 0n || outputReserve === 0n || inputReserve === 0n) {
+      return 0n;
+    }
+
+    const oaRaRatio = (outputAmount * SAMM_SCALE_FACTOR) / inputReserve;
+
+    // bigint division truncates toward zero, like Solidity's signed division
+    const feeRateScaled = (params.beta1 * oaRaRatio) / SAMM_SCALE_FACTOR + params.rmax;
+    const finalFeeRate = feeRateScaled <= params.rmin ? params.rmin : feeRateScaled;
+
+    return (outputReserve * outputAmount * finalFeeRate) / (inputReserve * SAMM_SCALE_FACTOR);
+  }
+
+  /**
+   * Effective fee rate max{rmin, β1×(OA/RA) + rmax} as a decimal (e.g. 0.012)
+   */
+  static calculateFeeRate(
+    outputAmount: bigint,
+    inputReserve: bigint,
+    params: SAMMFeeParams = DEFAULT_SAMM_PARAMS
+  ): number {
+    if (inputReserve === 0n) {
+      return Number(params.rmax) / Number(SAMM_SCALE_FACTOR);
+    }
+
+    const oaRaRatio = (outputAmount * SAMM_SCALE_FACTOR) / inputReserve;
+    const feeRateScaled = (params.beta1 * oaRaRatio) / SAMM_SCALE_FACTOR + params.rmax;
+    const finalFeeRate = feeRateScaled <= params.rmin ? params.rmin : feeRateScaled;
+
+    return Number(finalFeeRate) / Number(SAMM_SCALE_FACTOR);
+  }
+
+  /**
+   * Owner fee on traded tokens (SAMMFees.ownerTradingFee)
+   * Rounds up to 1 when the fee is enabled but would otherwise be 0
+   */
+  static ownerTradingFee(
+    tradingTokens: bigint,
+    ownerFeeNumerator: bigint,
+    ownerFeeDenominator: bigint
+  ): bigint {
+    if (ownerFeeNumerator === 0n || tradingTokens === 0n) {
+      return 0n;
+    }
+
+    const fee = (tradingTokens * ownerFeeNumerator) / ownerFeeDenominator;
+    return fee === 0n ? 1n : fee;
+  }
+
+  /**
+   * Input needed for an exact output on the constant product curve (SAMMCurve.swapRevert)
+   * Uses ceiling division in favour of the pool
+   */
+  static swapRevert(
+    destinationAmount: bigint,
+    swapSourceAmount: bigint,
+    swapDestinationAmount: bigint
+  ): bigint {
+    if (destinationAmount <= 0n) {
+      throw new Error('SAMMCurve: zero destination amount');
+    }
+    if (swapSourceAmount <= 0n) {
+      throw new Error('SAMMCurve: zero source reserve');
+    }
+    if (swapDestinationAmount <= destinationAmount) {
+      throw new Error('SAMMCurve: insufficient destination reserve');
+    }
+
+    const invariant = swapSourceAmount * swapDestinationAmount;
+    const newSwapDestinationAmount = swapDestinationAmount - destinationAmount;
+
+    let newSwapSourceAmount = invariant / newSwapDestinationAmount;
+    if (newSwapSourceAmount * newSwapDestinationAmount !== invariant) {
+      newSwapSourceAmount += 1n;
+    }
+
+    return newSwapSourceAmount - swapSourceAmount;
+  }
+
+  /**
+   * c-threshold check OA/RA <= c (SAMMFees.validateCThreshold)
+   * Amounts must already be in the same decimal space
+   */
+  static validateCThreshold(outputAmount: bigint, inputReserve: bigint, cThreshold: bigint): boolean {
+    if (inputReserve === 0n) {
+      return false;
+    }
+
+    const oaRaRatio = (outputAmount * SAMM_SCALE_FACTOR) / inputReserve;
+    return oaRaRatio <= cThreshold;
+  }
+
+  /**
+   * c-threshold check exactly as `swapSAMM` performs it, on normalized amounts
+   * @param amountOut Output amount in output token decimals
+   * @param inputReserve Input reserve in input token decimals
+   */
+  static isWithinCThreshold(
+    amountOut: bigint,
+    inputReserve: bigint,
+    config: Pick<SAMMPoolFeeConfig, 'sammParams' | 'inputDecimals' | 'outputDecimals'>
+  ): boolean {
+    return SAMMFeeCalculator.validateCThreshold(
+      SAMMFeeCalculator.normalize(amountOut, config.outputDecimals),
+      SAMMFeeCalculator.normalize(inputReserve, config.inputDecimals),
+      config.sammParams.c
+    );
+  }
+
+  /**
+   * Full exact-output swap quote (SAMMPool._calculateSwapSAMM)
+   * @param amountOut Desired output in output token decimals
+   * @param inputReserve Input reserve in input token decimals
+   * @param outputReserve Output reserve in output token decimals
+   * @param config Pool fee configuration
+   * @returns Amounts in native token decimals
+   * @throws If the output cannot be served by the reserves
+   */
+  static calculateSwapSAMM(
+    amountOut: bigint,
+    inputReserve: bigint,
+    outputReserve: bigint,
+    config: SAMMPoolFeeConfig
+  ): SAMMSwapCalculation {
+    const amountOutNorm = SAMMFeeCalculator.normalize(amountOut, config.outputDecimals);
+    const inputReserveNorm = SAMMFeeCalculator.normalize(inputReserve, config.inputDecimals);
+    const outputReserveNorm = SAMMFeeCalculator.normalize(outputReserve, config.outputDecimals);
+
+    const tradeFeeNorm = SAMMFeeCalculator.calculateFeeSAMM(
+      amountOutNorm,
+      outputReserveNorm,
+      inputReserveNorm,
+      config.sammParams
+    );
+
+    const ownerFeeNorm = SAMMFeeCalculator.ownerTradingFee(
+      amountOutNorm,
+      config.ownerFeeNumerator,
+      config.ownerFeeDenominator
+    );
+
+    const sourceAmountSwappedNorm = SAMMFeeCalculator.swapRevert(
+      amountOutNorm,
+      inputReserveNorm,
+      outputReserveNorm
+    );
+
+    const totalAmountInNorm = sourceAmountSwappedNorm + tradeFeeNorm + ownerFeeNorm;
+
+    return {
+      amountIn: SAMMFeeCalculator.denormalize(totalAmountInNorm, config.inputDecimals),
+      amountOut,
+      tradeFee: SAMMFeeCalculator.denormalize(tradeFeeNorm, config.inputDecimals),
+      ownerFee: SAMMFeeCalculator.denormalize(ownerFeeNorm, config.inputDecimals)
+    };
+  }
+
+  /**
+   * Largest output purchasable with a fixed input that `swapSAMM` would accept
+   * Binary search over the exact-output calculation, bounded by the c-threshold
+   * @returns Quote for the best output, or null if the input cannot buy anything
+   */
+  static calculateSwapSAMMForInput(
+    amountIn: bigint,
+    inputReserve: bigint,
+    outputReserve: bigint,
+    config: SAMMPoolFeeConfig
+  ): SAMMSwapCalculation | null {
+    if (amountIn <= 0n || inputReserve <= 0n || outputReserve <= 1n) {
+      return null;
+    }
+
+    // Upper bound: the c-threshold caps OA at c × RA (normalized), and OA < RB
+    const inputReserveNorm = SAMMFeeCalculator.normalize(inputReserve, config.inputDecimals);
+    const maxOutNorm = (inputReserveNorm * config.sammParams.c) / SAMM_SCALE_FACTOR;
+    let high = SAMMFeeCalculator.denormalize(maxOutNorm, config.outputDecimals);
+    if (high >= outputReserve) {
+      high = outputReserve - 1n;
+    }
+
+    let low = 0n;
+    let best: SAMMSwapCalculation | null = null;
+
+    while (low < high) {
+      const mid = (low + high + 1n) / 2n;
+      const quote = SAMMFeeCalculator.calculateSwapSAMM(mid, inputReserve, outputReserve, config);
+
+      if (quote.amountIn <= amountIn && SAMMFeeCalculator.isWithinCThreshold(mid, inputReserve, config)) {
+        best = quote;
+        low = mid;
+      } else {
+        high = mid - 1n;
+      }
+    }
+
+    return best;
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * SAMM Fee Library - Main Export
+ * Shared contract-exact fee and swap math for all routers
+ */
+
+export {
+  SAMMFeeCalculator,
+  SAMM_SCALE_FACTOR,
+  SAMM_NORMALIZED_DECIMALS,
+  DEFAULT_SAMM_PARAMS
+} from './SAMMFeeCalculator';
+
+export * from './types';
@@ -0,0 +1,60 @@
+/**
+ * SAMM Fee Library Types
+ * Integer representations of the parameters used by SAMMPool on-chain
+ */
+
+/**
+ * SAMM curve parameters scaled by 1e6, exactly as returned by
+ * `SAMMPool.getSAMMParams()`
+ */
+export interface SAMMFeeParams {
+  /** β1 slope parameter (e.g. -1050000 for -1.05) */
+  beta1: bigint;
+
+  /** Minimum fee rate (e.g. 1000 for 0.001) */
+  rmin: bigint;
+
+  /** Maximum fee rate (e.g. 12000 for 0.012) */
+  rmax: bigint;
+
+  /** c-threshold on OA/RA (e.g. 10400 for 0.0104) */
+  c: bigint;
+}
+
+/**
+ * Pool configuration needed to reproduce `SAMMPool.calculateSwapSAMM`
+ */
+export interface SAMMPoolFeeConfig {
+  /** SAMM curve parameters (scaled by 1e6) */
+  sammParams: SAMMFeeParams;
+
+  /** Owner fee numerator */
+  ownerFeeNumerator: bigint;
+
+  /** Owner fee denominator */
+  ownerFeeDenominator: bigint;
+
+  /** Decimals of the input token */
+  inputDecimals: number;
+
+  /** Decimals of the output token */
+  outputDecimals: number;
+}
+
+/**
+ * Result of an exact-output SAMM swap calculation.
+ * Mirrors the contract's `SwapResult`, with amounts in native token decimals.
+ */
+export interface SAMMSwapCalculation {
+  /** Total input required (base amount + trade fee + owner fee) */
+  amountIn: bigint;
+
+  /** Requested output amount */
+  amountOut: bigint;
+
+  /** Dynamic SAMM trade fee in input tokens */
+  tradeFee: bigint;
+
+  /** Owner fee in input tokens */
+  ownerFee: bigint;
+}
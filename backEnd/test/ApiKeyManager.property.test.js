@@ -0,0 +1,256 @@
+const { expect } = require('chai');
+const fc = require('fast-check');
+const { createHash, randomBytes, timingSafeEqual } = require('crypto');
+
+/**
+ * Property-Based Tests for API key management
+ *
+ * ApiKeyManager is a TypeScript module, so its key format, authentication and
+ * quota accounting are mirrored below. The properties check that a key never
+ * spends more than its quotas in a window, that rejected requests are counted
+ * without being charged, and that only the exact issued key authenticates.
+ * Quota overrides must be positive finite numbers, chain restrictions must be
+ * positive integer chain IDs, and charging a key saves its last use together
+ * with its usage.
+ */
+
+describe('API Key Manager Property Tests', function() {
+  this.timeout(30000);
+
+  const DEFAULT_QUOTA = { windowMs: 15 * 60 * 1000, maxRequests: 1000, maxComputeUnits: 5000 };
+  const QUOTA_FIELDS = ['windowMs', 'maxRequests', 'maxComputeUnits'];
+
+  // Mirror of ApiKeyManager (issue, authenticate, revoke, charge, isAuthorized)
+  class ApiKeyManagerMirror {
+    constructor() {
+      this.keys = new Map();
+      this.usage = new Map();
+      // Stands in for the persistence namespaces: what a restart would restore
+      this.saved = { keys: new Map(), usage: new Map() };
+    }
+
+    hashSecret(secret) {
+      return createHash('sha256').update(secret).digest('hex');
+    }
+
+    issueKey(name, scopes, requestedQuota, requestedChainIds) {
+      const quota = { ...DEFAULT_QUOTA };
+      for (const field of QUOTA_FIELDS) {
+        const value = requestedQuota?.[field];
+        if (value === undefined) continue;
+        if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+          throw new Error(`API key quota ${field} must be a positive finite number`);
+        }
+        quota[field] = value;
+      }
+
+      const chainIds = requestedChainIds ?? [];
+      if (!Array.isArray(chainIds) || chainIds.some(chainId => !Number.isSafeInteger(chainId) || chainId <= 0)) {
+        throw new Error('API key chainIds must be an array of positive integer chain IDs');
+      }
+
+      const id = randomBytes(6).toString('hex');
+      const secret = randomBytes(24).toString('hex');
+      const record = { id, name, keyHash: this.hashSecret(secret), scopes, chainIds: Array.from(new Set(chainIds)), quota, revokedAt: null, lastUsedAt: null };
+      this.keys.set(id, record);
+      this.saved.keys.set(id, JSON.stringify(record));
+      return { apiKey: `samm_${id}_${secret}`, record };
+    }
+
+    isAuthorized(record, scope, chainId) {
+      if (!record.scopes.includes(scope)) return false;
+      return record.chainIds.length === 0 || record.chainIds.includes(chainId);
+    }
+
+    revokeKey(id, now) {
+      this.keys.get(id).revokedAt = now;
+    }
+
+    authenticate(apiKey, now) {
+      const [prefix, id, secret, ...rest] = apiKey.split('_');
+      if (prefix !== 'samm' || !id || !secret || rest.length > 0) return null;
+
+      const record = this.keys.get(id);
+      if (!record || (record.revokedAt !== null && record.revokedAt <= now)) return null;
+
+      const expected = Buffer.from(record.keyHash, 'hex');
+      const actual = Buffer.from(this.hashSecret(secret), 'hex');
+      return expected.length === actual.length && timingSafeEqual(expected, actual) ? record : null;
+    }
+
+    charge(record, computeUnits, now) {
+      let usage = this.usage.get(record.id);
+      if (!usage) {
+        usage = { windowStart: now, windowRequests: 0, windowComputeUnits: 0, totalRequests: 0, totalComputeUnits: 0, rejectedRequests: 0 };
+        this.usage.set(record.id, usage);
+      }
+
+      if (now - usage.windowStart >= record.quota.windowMs) {
+        usage.windowStart = now;
+        usage.windowRequests = 0;
+        usage.windowComputeUnits = 0;
+      }
+
+      let reason;
+      if (usage.windowRequests + 1 > record.quota.maxRequests) {
+        reason = 'requests';
+      } else if (usage.windowComputeUnits + computeUnits > record.quota.maxComputeUnits) {
+        reason = 'compute';
+      }
+
+      if (reason) {
+        usage.rejectedRequests++;
+      } else {
+        usage.windowRequests++;
+        usage.windowComputeUnits += computeUnits;
+        usage.totalRequests++;
+        usage.totalComputeUnits += computeUnits;
+      }
+
+      record.lastUsedAt = now;
+      this.saved.keys.set(record.id, JSON.stringify(record));
+      this.saved.usage.set(record.id, JSON.stringify(usage));
+
+      return { allowed: !reason, reason, windowStart: usage.windowStart };
+    }
+  }
+
+  const ROUTE_COSTS = [1, 2, 5, 10, 20];
+
+  /**
+   * Property: accepted requests never exceed the key's quotas in any window
+   */
+  it('Property: per-key quotas bound every window and rejected requests are not charged', function() {
+    fc.assert(
+      fc.property(
+        fc.record({
+          windowMs: fc.integer({ min: 1000, max: 60000 }),
+          maxRequests: fc.integer({ min: 1, max: 50 }),
+          maxComputeUnits: fc.integer({ min: 1, max: 200 })
+        }),
+        fc.array(
+          fc.record({ gapMs: fc.integer({ min: 0, max: 5000 }), cost: fc.constantFrom(...ROUTE_COSTS) }),
+          { minLength: 1, maxLength: 200 }
+        ),
+        (quota, requests) => {
+          const manager = new ApiKeyManagerMirror();
+          const { record } = manager.issueKey('integrator', ['quote'], quota);
+
+          const windows = new Map();
+          let now = 0;
+          let accepted = 0;
+          let charged = 0;
+
+          for (const request of requests) {
+            now += request.gapMs;
+            const decision = manager.charge(record, request.cost, now);
+            const window = windows.get(decision.windowStart) || { requests: 0, computeUnits: 0 };
+
+            if (decision.allowed) {
+              accepted++;
+              charged += request.cost;
+              window.requests++;
+              window.computeUnits += request.cost;
+            } else if (decision.reason === 'compute') {
+              // Only rejected for compute when the request itself would overrun
+              expect(window.computeUnits + request.cost).to.be.greaterThan(quota.maxComputeUnits);
+            }
+            windows.set(decision.windowStart, window);
+          }
+
+          for (const window of windows.values()) {
+            expect(window.requests).to.be.at.most(quota.maxRequests);
+            expect(window.computeUnits).to.be.at.most(quota.maxComputeUnits);
+          }
+
+          const usage = manager.usage.get(record.id);
+          expect(usage.totalRequests).to.equal(accepted);
+          expect(usage.totalComputeUnits).to.equal(charged);
+          expect(usage.totalRequests + usage.rejectedRequests).to.equal(requests.length);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * Property: only the exact issued key authenticates, and never after revocation
+   */
+  it('Property: tampered, foreign and revoked keys do not authenticate', function() {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 100 }),
+        fc.constantFrom(...'0123456789abcdef'),
+        (position, replacement) => {
+          const manager = new ApiKeyManagerMirror();
+          const quota = { windowMs: 60000, maxRequests: 10, maxComputeUnits: 100 };
+          const first = manager.issueKey('first', ['quote'], quota);
+          const second = manager.issueKey('second', ['quote', 'execute'], quota);
+
+          expect(manager.authenticate(first.apiKey, 0)).to.equal(first.record);
+          expect(manager.authenticate(second.apiKey, 0)).to.equal(second.record);
+
+          // Change one character of the secret
+          const secretStart = first.apiKey.lastIndexOf('_') + 1;
+          const index = secretStart + (position % (first.apiKey.length - secretStart));
+          const tampered = first.apiKey.slice(0, index) + replacement + first.apiKey.slice(index + 1);
+          if (tampered !== first.apiKey) {
+            expect(manager.authenticate(tampered, 0)).to.equal(null);
+          }
+
+          // One key's secret under another key's id
+          const [, firstId] = first.apiKey.split('_');
+          const secondSecret = second.apiKey.split('_')[2];
+          expect(manager.authenticate(`samm_${firstId}_${secondSecret}`, 0)).to.equal(null);
+
+          manager.revokeKey(first.record.id, 10);
+          expect(manager.authenticate(first.apiKey, 9)).to.equal(first.record);
+          expect(manager.authenticate(first.apiKey, 10)).to.equal(null);
+          expect(manager.authenticate(second.apiKey, 10)).to.equal(second.record);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should reject quota overrides that are not positive finite numbers', function() {
+    const manager = new ApiKeyManagerMirror();
+
+    for (const value of [0, -1, NaN, Infinity, '100', null]) {
+      expect(() => manager.issueKey('integrator', ['quote'], { maxRequests: value }))
+        .to.throw('API key quota maxRequests must be a positive finite number');
+    }
+    expect(manager.keys.size).to.equal(0);
+
+    // Unknown fields are ignored and missing ones keep their defaults
+    const { record } = manager.issueKey('integrator', ['quote'], { windowMs: 1000, burst: -5 });
+    expect(record.quota).to.deep.equal({ ...DEFAULT_QUOTA, windowMs: 1000 });
+  });
+
+  it('should reject chain restrictions that are not positive integer chain IDs', function() {
+    const manager = new ApiKeyManagerMirror();
+
+    for (const chainIds of ['11155111', '1,2', 11155111, { 0: 1 }, [0], [-1], [1.5], ['1'], [NaN], [null]]) {
+      expect(() => manager.issueKey('integrator', ['quote'], undefined, chainIds))
+        .to.throw('API key chainIds must be an array of positive integer chain IDs');
+    }
+    expect(manager.keys.size).to.equal(0);
+
+    const { record } = manager.issueKey('integrator', ['quote'], undefined, [11155111, 11155111]);
+    expect(record.chainIds).to.deep.equal([11155111]);
+    expect(manager.isAuthorized(record, 'quote', 11155111)).to.equal(true);
+    expect(manager.isAuthorized(record, 'quote', 1)).to.equal(false);
+  });
+
+  it('should save the key record with its usage on every charge', function() {
+    const manager = new ApiKeyManagerMirror();
+    const { record } = manager.issueKey('integrator', ['quote'], { maxRequests: 1 });
+
+    manager.charge(record, 1, 100);
+    manager.charge(record, 1, 200);
+
+    const saved = JSON.parse(manager.saved.keys.get(record.id));
+    expect(saved.lastUsedAt).to.equal(200);
+    expect(JSON.parse(manager.saved.usage.get(record.id))).to.include({ totalRequests: 1, rejectedRequests: 1 });
+  });
+});
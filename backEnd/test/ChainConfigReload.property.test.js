@@ -0,0 +1,186 @@
+const { expect } = require('chai');
+const fc = require('fast-check');
+
+/**
+ * Property-Based Tests for chain configuration reloading
+ *
+ * The chain configuration schema and reloader are TypeScript modules, so the
+ * diff and the required-field checks are mirrored below. The properties check
+ * that every chain lands in exactly one part of the diff, that only
+ * service-building fields cause a rebuild, and that each missing or malformed
+ * field is reported under its own path.
+ */
+
+describe('Chain Config Reload Property Tests', function() {
+  this.timeout(30000);
+
+  const RECREATE_FIELDS = ['rpcEndpoint', 'rpcEndpoints', 'blockTime', 'gasPrice', 'gasSettings', 'contractAddresses', 'sammParameters'];
+  const MUTABLE_FIELDS = ['name', 'blockTime', 'blockExplorer', 'rpcEndpoint', 'gasPrice', 'gasSettings'];
+
+  // Mirror of stableStringify
+  function stableStringify(value) {
+    return JSON.stringify(value, (key, item) => {
+      if (item && typeof item === 'object' && !Array.isArray(item)) {
+        return Object.fromEntries(Object.keys(item).sort().map(name => [name, item[name]]));
+      }
+      return item;
+    }) ?? 'undefined';
+  }
+
+  // Mirror of diffChainConfigs
+  function diffChainConfigs(current, next) {
+    const currentById = new Map(current.map(config => [config.chainId, config]));
+    const nextIds = new Set(next.map(config => config.chainId));
+    const diff = { added: [], removed: [], changed: [], unchanged: [] };
+
+    for (const config of next) {
+      const existing = currentById.get(config.chainId);
+      if (!existing) {
+        diff.added.push(config);
+        continue;
+      }
+
+      const fields = Array.from(new Set([...Object.keys(existing), ...Object.keys(config)]))
+        .filter(field => stableStringify(existing[field]) !== stableStringify(config[field]))
+        .sort();
+      if (fields.length === 0) {
+        diff.unchanged.push(config.chainId);
+      } else {
+        diff.changed.push({ chainId: config.chainId, fields, recreate: fields.some(field => RECREATE_FIELDS.includes(field)), config });
+      }
+    }
+
+    for (const config of current) {
+      if (!nextIds.has(config.chainId)) diff.removed.push(config.chainId);
+    }
+    return diff;
+  }
+
+  // Mirror of the chainId, name and rpcEndpoint checks in validateChainConfig
+  function validateRequired(raw, path) {
+    const issues = [];
+    const issue = (field, message) => issues.push({ path: `${path}.${field}`, message });
+
+    if (raw.chainId === undefined) issue('chainId', 'is required');
+    else if (!Number.isSafeInteger(raw.chainId) || raw.chainId <= 0) issue('chainId', 'must be a positive integer');
+
+    if (raw.name === undefined) issue('name', 'is required');
+    else if (typeof raw.name !== 'string' || raw.name.trim().length === 0) issue('name', 'must be a non-empty string');
+
+    const rpcField = raw.rpcEndpoint !== undefined ? 'rpcEndpoint' : 'rpcUrl';
+    const rpcEndpoint = raw[rpcField];
+    if (raw.rpcEndpoint !== undefined && raw.rpcUrl !== undefined && raw.rpcEndpoint !== raw.rpcUrl) {
+      issue('rpcUrl', 'conflicts with rpcEndpoint; set only one of them');
+    }
+    if (rpcEndpoint === undefined) issue('rpcEndpoint', 'is required');
+    else if (typeof rpcEndpoint !== 'string' || !/^https?:\/\/[^/\s]+/.test(rpcEndpoint)) issue(rpcField, 'must be an http or https URL');
+
+    return issues;
+  }
+
+  const configArb = fc.record({
+    name: fc.constantFrom('Sepolia', 'Rise Testnet', 'Monad Testnet'),
+    rpcEndpoint: fc.constantFrom('https://rpc-a.example', 'https://rpc-b.example'),
+    blockTime: fc.constantFrom(1000, 2000, 12000),
+    gasPrice: fc.constantFrom('0', '1000000000'),
+    gasSettings: fc.constantFrom({ gasLimit: 8000000 }, { gasLimit: 8000000, gasPrice: 'auto' })
+  });
+
+  const chainsArb = fc.uniqueArray(
+    fc.tuple(fc.integer({ min: 1, max: 12 }), configArb).map(([chainId, config]) => ({ chainId, ...config })),
+    { selector: config => config.chainId, maxLength: 8 }
+  );
+
+  /**
+   * Property: each chain is added, removed, changed or unchanged, exactly once
+   */
+  it('Property: the diff partitions chains and rebuilds only for service fields', function() {
+    fc.assert(
+      fc.property(chainsArb, chainsArb, (current, next) => {
+        const diff = diffChainConfigs(current, next);
+        const currentIds = new Set(current.map(config => config.chainId));
+        const nextIds = new Set(next.map(config => config.chainId));
+
+        expect(diff.added.map(config => config.chainId).sort()).to.deep.equal(
+          [...nextIds].filter(id => !currentIds.has(id)).sort());
+        expect([...diff.removed].sort()).to.deep.equal(
+          [...currentIds].filter(id => !nextIds.has(id)).sort());
+
+        const kept = [...diff.changed.map(change => change.chainId), ...diff.unchanged].sort();
+        expect(kept).to.deep.equal([...nextIds].filter(id => currentIds.has(id)).sort());
+
+        for (const change of diff.changed) {
+          expect(change.fields).to.not.be.empty;
+          for (const field of change.fields) expect(MUTABLE_FIELDS).to.include(field);
+          expect(change.recreate).to.equal(change.fields.some(field => RECREATE_FIELDS.includes(field)));
+        }
+
+        // Applying the diff's next configs leaves nothing to change
+        const again = diffChainConfigs(next, next);
+        expect(again.added).to.be.empty;
+        expect(again.removed).to.be.empty;
+        expect(again.changed).to.be.empty;
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  /**
+   * Property: each bad field is reported once, under the entry's own path
+   */
+  it('Property: validation reports every bad field at its exact path', function() {
+    const fieldArb = (valid, invalid) => fc.oneof(
+      fc.constant({ value: valid, bad: false }),
+      fc.constant({ value: undefined, bad: true }),
+      fc.constantFrom(...invalid).map(value => ({ value, bad: true }))
+    );
+
+    fc.assert(
+      fc.property(
+        fc.constantFrom('sepolia', 'riseTestnet', '[0]'),
+        fieldArb(11155111, [0, -1, 1.5, '11155111']),
+        fieldArb('Sepolia', ['', '   ', 42]),
+        fieldArb('https://rpc.example', ['ws://rpc.example', 'not a url', 7]),
+        fc.boolean(),
+        (path, chainId, name, rpc, useAlias) => {
+          const raw = {};
+          if (chainId.value !== undefined) raw.chainId = chainId.value;
+          if (name.value !== undefined) raw.name = name.value;
+          if (rpc.value !== undefined) raw[useAlias ? 'rpcUrl' : 'rpcEndpoint'] = rpc.value;
+
+          const issues = validateRequired(raw, path);
+          const paths = issues.map(issue => issue.path);
+          const rpcPath = `${path}.${useAlias && rpc.value !== undefined ? 'rpcUrl' : 'rpcEndpoint'}`;
+
+          expect(paths.includes(`${path}.chainId`)).to.equal(chainId.bad);
+          expect(paths.includes(`${path}.name`)).to.equal(name.bad);
+          expect(paths.includes(rpcPath)).to.equal(rpc.bad);
+          expect(new Set(paths).size).to.equal(paths.length);
+          expect(issues).to.have.length([chainId, name, rpc].filter(field => field.bad).length);
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+
+  /**
+   * Property: an rpcUrl alias is accepted unless it disagrees with rpcEndpoint
+   */
+  it('Property: rpcUrl conflicts with a different rpcEndpoint', function() {
+    fc.assert(
+      fc.property(
+        fc.constantFrom('https://rpc-a.example', 'https://rpc-b.example'),
+        fc.constantFrom('https://rpc-a.example', 'https://rpc-b.example'),
+        (rpcEndpoint, rpcUrl) => {
+          const issues = validateRequired({ chainId: 1, name: 'Mainnet', rpcEndpoint, rpcUrl }, 'mainnet');
+          if (rpcEndpoint === rpcUrl) {
+            expect(issues).to.be.empty;
+          } else {
+            expect(issues).to.deep.equal([{ path: 'mainnet.rpcUrl', message: 'conflicts with rpcEndpoint; set only one of them' }]);
+          }
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
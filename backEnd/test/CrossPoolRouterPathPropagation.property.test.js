@@ -0,0 +1,333 @@
+/**
+ * Property-Based Tests for multi-hop amount propagation in PathDiscoveryService
+ *
+ * **Feature: samm-deployment, Property 7: Cross-pool routing path optimization**
+ * **Validates: Requirements 2.1, 2.4**
+ *
+ * The service is a TypeScript module, so the backward k-best search from
+ * PathDiscoveryService.findMultiHopPaths is mirrored below and run against
+ * real SAMMPool deployments. The properties check that consecutive hops chain
+ * exactly and that the quoted amounts are what the pools charge on-chain.
+ */
+
+const { expect } = require('chai');
+const fc = require('fast-check');
+const { ethers, network } = require('hardhat');
+
+describe('Cross-Pool Router Path Propagation Property Tests', function () {
+  const CHAIN_ID = 31337;
+  const MAX_PATHS = 5;
+  const SCALE_FACTOR = 1000000n;
+  const OWNER_FEE_NUMERATOR = 5n;
+  const OWNER_FEE_DENOMINATOR = 10000n;
+
+  let owner;
+  let tokens;
+  let poolContracts;
+  let tokenGraph;
+
+  // Mirror of samm-fees/SAMMFeeCalculator
+  function normalize(amount, decimals) {
+    if (decimals === 18) return amount;
+    if (decimals < 18) return amount * 10n ** BigInt(18 - decimals);
+    return amount / 10n ** BigInt(decimals - 18);
+  }
+
+  function denormalize(amount, decimals) {
+    if (decimals === 18) return amount;
+    if (decimals < 18) return amount / 10n ** BigInt(18 - decimals);
+    return amount * 10n ** BigInt(decimals - 18);
+  }
+
+  function calculateSwapSAMM(amountOut, inputReserve, outputReserve, config) {
+    const outNorm = normalize(amountOut, config.outputDecimals);
+    const inResNorm = normalize(inputReserve, config.inputDecimals);
+    const outResNorm = normalize(outputReserve, config.outputDecimals);
+
+    const ratio = (outNorm * SCALE_FACTOR) / inResNorm;
+    const rate = (config.sammParams.beta1 * ratio) / SCALE_FACTOR + config.sammParams.rmax;
+    const finalRate = rate <= config.sammParams.rmin ? config.sammParams.rmin : rate;
+    const tradeFee = (outResNorm * outNorm * finalRate) / (inResNorm * SCALE_FACTOR);
+
+    let ownerFee = (outNorm * config.ownerFeeNumerator) / config.ownerFeeDenominator;
+    if (config.ownerFeeNumerator === 0n) ownerFee = 0n;
+    else if (ownerFee === 0n) ownerFee = 1n;
+
+    const invariant = inResNorm * outResNorm;
+    const newOut = outResNorm - outNorm;
+    let newIn = invariant / newOut;
+    if (newIn * newOut !== invariant) newIn += 1n;
+
+    return {
+      amountIn: denormalize(newIn - inResNorm + tradeFee + ownerFee, config.inputDecimals),
+      fee: denormalize(tradeFee + ownerFee, config.inputDecimals)
+    };
+  }
+
+  // Mirror of PathDiscoveryService.calculateSwapMetrics / validateCThreshold
+  function calculateSwapMetrics(pool, tokenIn, tokenOut, amountOut) {
+    const isTokenA = pool.tokenPair.tokenA.address === tokenIn.address;
+    const inputReserve = isTokenA ? pool.reserves.tokenA : pool.reserves.tokenB;
+    const outputReserve = isTokenA ? pool.reserves.tokenB : pool.reserves.tokenA;
+    if (inputReserve === 0n || amountOut <= 0n || amountOut >= outputReserve) {
+      return null;
+    }
+
+    const config = {
+      sammParams: pool.sammParams,
+      ownerFeeNumerator: OWNER_FEE_NUMERATOR,
+      ownerFeeDenominator: OWNER_FEE_DENOMINATOR,
+      inputDecimals: tokenIn.decimals,
+      outputDecimals: tokenOut.decimals
+    };
+    const quote = calculateSwapSAMM(amountOut, inputReserve, outputReserve, config);
+    const withinC = (normalize(amountOut, tokenOut.decimals) * SCALE_FACTOR) /
+      normalize(inputReserve, tokenIn.decimals) <= pool.sammParams.c;
+
+    if (!withinC) {
+      return null;
+    }
+
+    const currentPrice = Number(outputReserve) / Number(inputReserve);
+    const executionPrice = Number(amountOut) / Number(quote.amountIn);
+    return {
+      amountIn: quote.amountIn,
+      fee: quote.fee,
+      priceImpact: Math.abs((executionPrice - currentPrice) / currentPrice) * 100
+    };
+  }
+
+  // Mirror of PathDiscoveryService.findMultiHopPaths
+  function findMultiHopPaths(tokenIn, tokenOut, amountOut, maxHops) {
+    const paths = [];
+    const frontier = [{ token: tokenOut, requiredAmount: amountOut, hops: [], totalPriceImpact: 0 }];
+    const settledCount = new Map();
+
+    while (frontier.length > 0 && paths.length < MAX_PATHS) {
+      const current = frontier.shift();
+      const settled = settledCount.get(current.token.address) || 0;
+      if (settled >= MAX_PATHS) continue;
+      settledCount.set(current.token.address, settled + 1);
+
+      if (current.token.address === tokenIn.address) {
+        const hops = current.hops.map((hop, index) => ({ ...hop, hopIndex: index }));
+        paths.push({ hops, totalAmountIn: hops[0].expectedAmountIn, finalAmountOut: amountOut });
+        continue;
+      }
+      if (current.hops.length >= maxHops) continue;
+
+      for (const [previousAddress, pools] of tokenGraph.get(current.token.address)) {
+        if (current.hops.length === 0 && previousAddress === tokenIn.address) continue;
+        if (previousAddress === tokenOut.address ||
+            current.hops.some(hop => hop.tokenIn.address === previousAddress)) continue;
+
+        const previousToken = tokens.find(token => token.address === previousAddress);
+        for (const pool of pools) {
+          const metrics = calculateSwapMetrics(pool, previousToken, current.token, current.requiredAmount);
+          if (!metrics) continue;
+
+          const state = {
+            token: previousToken,
+            requiredAmount: metrics.amountIn,
+            hops: [{
+              pool,
+              tokenIn: previousToken,
+              tokenOut: current.token,
+              expectedAmountIn: metrics.amountIn,
+              expectedAmountOut: current.requiredAmount,
+              estimatedFee: metrics.fee,
+              priceImpact: metrics.priceImpact
+            }, ...current.hops],
+            totalPriceImpact: current.totalPriceImpact + metrics.priceImpact
+          };
+
+          let index = frontier.findIndex(other =>
+            state.totalPriceImpact < other.totalPriceImpact ||
+            (state.totalPriceImpact === other.totalPriceImpact && state.hops.length < other.hops.length)
+          );
+          if (index === -1) index = frontier.length;
+          frontier.splice(index, 0, state);
+        }
+      }
+    }
+
+    return paths;
+  }
+
+  async function deployPool(tokenA, tokenB, amountA, amountB) {
+    const SAMMPool = await ethers.getContractFactory('SAMMPool');
+    const pool = await SAMMPool.deploy(tokenA.address, tokenB.address, 'SAMM Pool', 'SAMM-LP');
+    const poolAddress = await pool.getAddress();
+
+    await tokenA.contract.approve(poolAddress, ethers.MaxUint256);
+    await tokenB.contract.approve(poolAddress, ethers.MaxUint256);
+    await pool.initialize(
+      tokenA.address,
+      tokenB.address,
+      amountA,
+      amountB,
+      25,
+      10000,
+      OWNER_FEE_NUMERATOR,
+      OWNER_FEE_DENOMINATOR
+    );
+
+    return pool;
+  }
+
+  async function loadPool(contract, tokenA, tokenB) {
+    const [reserveA, reserveB] = await contract.getReserves();
+    const [beta1, rmin, rmax, c] = await contract.getSAMMParams();
+    return {
+      address: await contract.getAddress(),
+      contract,
+      tokenPair: { tokenA, tokenB, chainId: CHAIN_ID },
+      reserves: { tokenA: reserveA, tokenB: reserveB },
+      sammParams: { beta1, rmin, rmax, c },
+      status: 'active',
+      chainId: CHAIN_ID
+    };
+  }
+
+  before(async function () {
+    [owner] = await ethers.getSigners();
+
+    const MockERC20 = await ethers.getContractFactory('MockERC20');
+    const specs = [['Token A', 'TKNA', 18], ['Token B', 'TKNB', 6], ['Token C', 'TKNC', 18], ['Token D', 'TKND', 8]];
+    tokens = [];
+    for (const [name, symbol, decimals] of specs) {
+      const contract = await MockERC20.deploy(name, symbol, decimals);
+      await contract.mint(owner.address, ethers.parseUnits('100000000', decimals));
+      tokens.push({ address: await contract.getAddress(), symbol, decimals, chainId: CHAIN_ID, contract });
+    }
+
+    const [A, B, C, D] = tokens;
+    const unit = (token, amount) => ethers.parseUnits(amount, token.decimals);
+
+    // A-B-C-D chain plus an A-C shortcut and a second, smaller B-C shard
+    const layout = [
+      [A, B, unit(A, '500000'), unit(B, '500000')],
+      [B, C, unit(B, '400000'), unit(C, '400000')],
+      [B, C, unit(B, '150000'), unit(C, '150000')],
+      [C, D, unit(C, '600000'), unit(D, '600000')],
+      [A, C, unit(A, '200000'), unit(C, '200000')]
+    ];
+
+    poolContracts = [];
+    for (const [tokenA, tokenB, amountA, amountB] of layout) {
+      poolContracts.push({ contract: await deployPool(tokenA, tokenB, amountA, amountB), tokenA, tokenB });
+    }
+
+    // Same shape as PathDiscoveryService.updateTokenGraph: address -> neighbour -> pools
+    tokenGraph = new Map(tokens.map(token => [token.address, new Map()]));
+    for (const { contract, tokenA, tokenB } of poolContracts) {
+      const pool = await loadPool(contract, tokenA, tokenB);
+      for (const [from, to] of [[tokenA, tokenB], [tokenB, tokenA]]) {
+        const connections = tokenGraph.get(from.address);
+        if (!connections.has(to.address)) connections.set(to.address, []);
+        connections.get(to.address).push(pool);
+      }
+    }
+  });
+
+  describe('Backward amount propagation', function () {
+    it('should chain hop amounts exactly for every discovered path', async function () {
+      this.timeout(60000);
+      const [A, , , D] = tokens;
+
+      await fc.assert(
+        fc.property(
+          fc.integer({ min: 1, max: 2000 }),
+          fc.integer({ min: 2, max: 3 }),
+          (wholeTokens, maxHops) => {
+            const amountOut = ethers.parseUnits(wholeTokens.toString(), D.decimals);
+            const paths = findMultiHopPaths(A, D, amountOut, maxHops);
+
+            expect(paths.length).to.be.greaterThan(0);
+            for (const path of paths) {
+              expect(path.hops.length).to.be.within(2, maxHops);
+              expect(path.hops[0].tokenIn.address).to.equal(A.address);
+              expect(path.hops[path.hops.length - 1].tokenOut.address).to.equal(D.address);
+              expect(path.hops[path.hops.length - 1].expectedAmountOut).to.equal(amountOut);
+              expect(path.totalAmountIn).to.equal(path.hops[0].expectedAmountIn);
+
+              for (let i = 0; i < path.hops.length - 1; i++) {
+                expect(path.hops[i].expectedAmountOut).to.equal(path.hops[i + 1].expectedAmountIn);
+                expect(path.hops[i].tokenOut.address).to.equal(path.hops[i + 1].tokenIn.address);
+                expect(path.hops[i].hopIndex).to.equal(i);
+              }
+            }
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should quote each hop on the shard it selected', async function () {
+      this.timeout(60000);
+      const [A, , , D] = tokens;
+
+      await fc.assert(
+        fc.asyncProperty(
+          fc.integer({ min: 1, max: 2000 }),
+          async (wholeTokens) => {
+            const amountOut = ethers.parseUnits(wholeTokens.toString(), D.decimals);
+            const paths = findMultiHopPaths(A, D, amountOut, 3);
+
+            for (const path of paths) {
+              for (const hop of path.hops) {
+                const onChain = await hop.pool.contract.calculateSwapSAMM(
+                  hop.expectedAmountOut,
+                  hop.tokenIn.address,
+                  hop.tokenOut.address
+                );
+                expect(onChain.amountIn).to.equal(hop.expectedAmountIn);
+              }
+            }
+          }
+        ),
+        { numRuns: 25 }
+      );
+    });
+
+    it('should execute hop by hop consuming exactly the previous hop output', async function () {
+      this.timeout(60000);
+      const [A, , , D] = tokens;
+
+      for (const wholeTokens of ['10', '750', '1800']) {
+        const amountOut = ethers.parseUnits(wholeTokens, D.decimals);
+        const paths = findMultiHopPaths(A, D, amountOut, 3);
+        expect(paths.length).to.be.greaterThan(0);
+
+        for (const path of paths) {
+          const snapshot = await network.provider.send('evm_snapshot');
+
+          const inputBefore = await A.contract.balanceOf(owner.address);
+          const outputBefore = await D.contract.balanceOf(owner.address);
+
+          for (const hop of path.hops) {
+            const tokenIn = tokens.find(token => token.address === hop.tokenIn.address);
+            const intermediateBefore = await tokenIn.contract.balanceOf(owner.address);
+
+            // maximalAmountIn is the quote itself: any drift between hops would revert
+            await hop.pool.contract.swapSAMM(
+              hop.expectedAmountOut,
+              hop.expectedAmountIn,
+              hop.tokenIn.address,
+              hop.tokenOut.address,
+              owner.address
+            );
+
+            const intermediateAfter = await tokenIn.contract.balanceOf(owner.address);
+            expect(intermediateBefore - intermediateAfter).to.equal(hop.expectedAmountIn);
+          }
+
+          expect(inputBefore - await A.contract.balanceOf(owner.address)).to.equal(path.totalAmountIn);
+          expect(await D.contract.balanceOf(owner.address) - outputBefore).to.equal(amountOut);
+
+          await network.provider.send('evm_revert', [snapshot]);
+        }
+      }
+    });
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Property-Based Tests for the multi-hop execution policy
+ *
+ * ExecutionPolicyService is a TypeScript module, so its hop limit allocation and
+ * sandwich exposure estimate are mirrored below and checked against SAMMPool
+ * shards. The properties check that the per-hop limits spend exactly the
+ * slippage budget, favouring the hops a front-run moves most, and that the
+ * estimated largest front-run is exactly where the victim's limit starts to bind.
+ */
+
+const { expect } = require('chai');
+const fc = require('fast-check');
+const { ethers, network } = require('hardhat');
+
+describe('Execution Policy Property Tests', function () {
+  const SCALE_FACTOR = 1000000n;
+  const LIMIT_PRECISION = 1000000;
+  const OWNER_FEE_NUMERATOR = 5n;
+  const OWNER_FEE_DENOMINATOR = 10000n;
+
+  let owner;
+  let attacker;
+  let victim;
+  let tokenA;
+  let tokenB;
+  let tokenC;
+  let hopPools;
+
+  // Mirror of samm-fees/SAMMFeeCalculator
+  function normalize(amount, decimals) {
+    if (decimals === 18) return amount;
+    if (decimals < 18) return amount * 10n ** BigInt(18 - decimals);
+    return amount / 10n ** BigInt(decimals - 18);
+  }
+
+  function denormalize(amount, decimals) {
+    if (decimals === 18) return amount;
+    if (decimals < 18) return amount / 10n ** BigInt(18 - decimals);
+    return amount * 10n ** BigInt(decimals - 18);
+  }
+
+  function calculateSwapSAMM(amountOut, inputReserve, outputReserve, pool) {
+    const outNorm = normalize(amountOut, pool.outputDecimals);
+    const inResNorm = normalize(inputReserve, pool.inputDecimals);
+    const outResNorm = normalize(outputReserve, pool.outputDecimals);
+
+    const ratio = (outNorm * SCALE_FACTOR) / inResNorm;
+    const rate = (pool.sammParams.beta1 * ratio) / SCALE_FACTOR + pool.sammParams.rmax;
+    const finalRate = rate <= pool.sammParams.rmin ? pool.sammParams.rmin : rate;
+    const tradeFee = (outResNorm * outNorm * finalRate) / (inResNorm * SCALE_FACTOR);
+
+    let ownerFee = (outNorm * OWNER_FEE_NUMERATOR) / OWNER_FEE_DENOMINATOR;
+    if (ownerFee === 0n) ownerFee = 1n;
+
+    const invariant = inResNorm * outResNorm;
+    const newOut = outResNorm - outNorm;
+    let newIn = invariant / newOut;
+    if (newIn * newOut !== invariant) newIn += 1n;
+
+    return {
+      amountIn: denormalize(newIn - inResNorm + tradeFee + ownerFee, pool.inputDecimals),
+      fee: denormalize(tradeFee + ownerFee, pool.inputDecimals)
+    };
+  }
+
+  // Mirror of ExecutionPolicyService.quoteAfterFrontRun
+  function quoteAfterFrontRun(hop, frontRunAmountOut) {
+    let { inputReserve, outputReserve } = hop.pool;
+    if (frontRunAmountOut > 0n) {
+      inputReserve += calculateSwapSAMM(frontRunAmountOut, inputReserve, outputReserve, hop.pool).amountIn;
+      outputReserve -= frontRunAmountOut;
+    }
+    return calculateSwapSAMM(hop.amountOut, inputReserve, outputReserve, hop.pool).amountIn;
+  }
+
+  // Mirror of ExecutionPolicyService.getMaxFrontRunOutput
+  function getMaxFrontRunOutput(hop) {
+    const { inputReserve, outputReserve, inputDecimals, outputDecimals, sammParams } = hop.pool;
+    const cLimit = denormalize((normalize(inputReserve, inputDecimals) * sammParams.c) / SCALE_FACTOR, outputDecimals);
+    const liquidityLimit = outputReserve - hop.amountOut - 1n;
+    const limit = cLimit < liquidityLimit ? cLimit : liquidityLimit;
+    return limit > 0n ? limit : 0n;
+  }
+
+  // Mirror of ExecutionPolicyService.computeHopLimits
+  function computeHopLimits(hops, maxSlippage) {
+    const sensitivities = hops.map(hop => {
+      const maxFrontRun = getMaxFrontRunOutput(hop);
+      const frontRun = hop.amountOut < maxFrontRun ? hop.amountOut : maxFrontRun;
+      const before = quoteAfterFrontRun(hop, 0n);
+      return Number(quoteAfterFrontRun(hop, frontRun) - before) / Number(before);
+    });
+    const total = sensitivities.reduce((sum, sensitivity) => sum + sensitivity, 0);
+    const budget = 1 + maxSlippage / 100;
+
+    return hops.map((hop, i) => {
+      const factor = Math.pow(budget, total > 0 ? sensitivities[i] / total : 1 / hops.length);
+      return {
+        sensitivity: sensitivities[i],
+        slippage: (factor - 1) * 100,
+        maxAmountIn: (hop.expectedAmountIn * BigInt(Math.floor(factor * LIMIT_PRECISION))) / BigInt(LIMIT_PRECISION)
+      };
+    });
+  }
+
+  // Mirror of ExecutionPolicyService.measureExposure
+  function measureExposure(hop, maxAmountIn) {
+    const baseline = quoteAfterFrontRun(hop, 0n);
+    let low = 0n;
+    let high = getMaxFrontRunOutput(hop);
+    while (low < high) {
+      const mid = (low + high + 1n) / 2n;
+      if (quoteAfterFrontRun(hop, mid) <= maxAmountIn) {
+        low = mid;
+      } else {
+        high = mid - 1n;
+      }
+    }
+
+    if (low === 0n) {
+      return { maxFrontRunAmountOut: 0n, victimExtraAmountIn: 0n, extractableValue: 0n, cLimited: high === 0n };
+    }
+
+    const attackerFees = calculateSwapSAMM(low, hop.pool.inputReserve, hop.pool.outputReserve, hop.pool).fee * 2n;
+    const victimExtraAmountIn = quoteAfterFrontRun(hop, low) - baseline;
+    return {
+      maxFrontRunAmountOut: low,
+      victimExtraAmountIn,
+      extractableValue: victimExtraAmountIn > attackerFees ? victimExtraAmountIn - attackerFees : 0n,
+      cLimited: low === getMaxFrontRunOutput(hop)
+    };
+  }
+
+  async function deployPool(tokenX, tokenY, decimalsX, decimalsY, amountX, amountY) {
+    const SAMMPool = await ethers.getContractFactory('SAMMPool');
+    const contract = await SAMMPool.deploy(await tokenX.getAddress(), await tokenY.getAddress(), 'SAMM Pool', 'SAMM-LP');
+    await tokenX.approve(await contract.getAddress(), ethers.MaxUint256);
+    await tokenY.approve(await contract.getAddress(), ethers.MaxUint256);
+
+    const inputReserve = ethers.parseUnits(amountX, decimalsX);
+    const outputReserve = ethers.parseUnits(amountY, decimalsY);
+    await contract.initialize(
+      await tokenX.getAddress(), await tokenY.getAddress(), inputReserve, outputReserve,
+      25, 10000, OWNER_FEE_NUMERATOR, OWNER_FEE_DENOMINATOR
+    );
+
+    const [beta1, rmin, rmax, c] = await contract.getSAMMParams();
+    return {
+      contract,
+      tokenIn: await tokenX.getAddress(),
+      tokenOut: await tokenY.getAddress(),
+      inputReserve,
+      outputReserve,
+      inputDecimals: decimalsX,
+      outputDecimals: decimalsY,
+      sammParams: { beta1, rmin, rmax, c }
+    };
+  }
+
+  // Exact-output hop chain A -> B -> C for an amount of C
+  function buildHops(amountOutC) {
+    const [poolAB, poolBC] = hopPools;
+    const second = { pool: poolBC, amountOut: amountOutC };
+    second.expectedAmountIn = quoteAfterFrontRun(second, 0n);
+    const first = { pool: poolAB, amountOut: second.expectedAmountIn };
+    first.expectedAmountIn = quoteAfterFrontRun(first, 0n);
+    return [first, second];
+  }
+
+  before(async function () {
+    [owner, attacker, victim] = await ethers.getSigners();
+
+    const MockERC20 = await ethers.getContractFactory('MockERC20');
+    tokenA = await MockERC20.deploy('Token A', 'TKA', 18);
+    tokenB = await MockERC20.deploy('Token B', 'TKB', 6);
+    tokenC = await MockERC20.deploy('Token C', 'TKC', 18);
+
+    for (const token of [tokenA, tokenB, tokenC]) {
+      const decimals = await token.decimals();
+      await token.mint(owner.address, ethers.parseUnits('100000000', decimals));
+      await token.mint(attacker.address, ethers.parseUnits('1000000', decimals));
+      await token.mint(victim.address, ethers.parseUnits('1000000', decimals));
+    }
+
+    // A deep first hop and a shallow second hop
+    hopPools = [
+      await deployPool(tokenA, tokenB, 18, 6, '5000000', '10000000'),
+      await deployPool(tokenB, tokenC, 6, 18, '400000', '100000')
+    ];
+
+    for (const pool of hopPools) {
+      const poolAddress = await pool.contract.getAddress();
+      for (const signer of [attacker, victim]) {
+        await tokenA.connect(signer).approve(poolAddress, ethers.MaxUint256);
+        await tokenB.connect(signer).approve(poolAddress, ethers.MaxUint256);
+      }
+    }
+  });
+
+  /**
+   * Property: hop limits spend the slippage budget by sensitivity
+   */
+  it('Property: per-hop limits compound to the budget and follow front-run sensitivity', async function () {
+    this.timeout(120000);
+
+    await fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 4000 }),
+        fc.integer({ min: 1, max: 500 }),
+        (wholeC, slippageBps) => {
+          const hops = buildHops(ethers.parseUnits(String(wholeC), 18));
+          const maxSlippage = slippageBps / 100;
+          const limits = computeHopLimits(hops, maxSlippage);
+
+          // Compounded factors spend exactly the budget
+          const compounded = limits.reduce((product, limit) => product * (1 + limit.slippage / 100), 1);
+          expect(compounded).to.be.closeTo(1 + maxSlippage / 100, 1e-9);
+
+          // Limits never fall below the quote and never exceed the budget
+          limits.forEach((limit, i) => {
+            expect(limit.maxAmountIn >= hops[i].expectedAmountIn).to.equal(true);
+            const budgetLimit = (hops[i].expectedAmountIn * BigInt(Math.floor((1 + maxSlippage / 100) * LIMIT_PRECISION))) / BigInt(LIMIT_PRECISION);
+            expect(limit.maxAmountIn <= budgetLimit).to.equal(true);
+          });
+
+          // The more sensitive hop gets the larger share
+          const [first, second] = limits;
+          if (first.sensitivity !== second.sensitivity) {
+            expect(first.sensitivity > second.sensitivity).to.equal(first.slippage > second.slippage);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * Property: the estimated largest front-run is where the victim's limit binds
+   */
+  it('Property: a front-run beyond the estimated maximum makes the victim revert', async function () {
+    this.timeout(300000);
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1, max: 2000 }),
+        fc.integer({ min: 5, max: 300 }),
+        fc.integer({ min: 0, max: 1 }),
+        async (wholeC, slippageBps, hopIndex) => {
+          const hops = buildHops(ethers.parseUnits(String(wholeC), 18));
+          const limits = computeHopLimits(hops, slippageBps / 100);
+          const hop = hops[hopIndex];
+          const { maxAmountIn } = limits[hopIndex];
+          const exposure = measureExposure(hop, maxAmountIn);
+          const { contract, tokenIn, tokenOut } = hop.pool;
+
+          const snapshotId = await network.provider.send('evm_snapshot');
+          try {
+            if (exposure.maxFrontRunAmountOut > 0n) {
+              await contract.connect(attacker).swapSAMM(exposure.maxFrontRunAmountOut, ethers.MaxUint256, tokenIn, tokenOut, attacker.address);
+            }
+
+            // The victim still fits its limit and pays the estimated extra input
+            const [victimAmountIn] = await contract.calculateSwapSAMM(hop.amountOut, tokenIn, tokenOut);
+            expect(victimAmountIn - hop.expectedAmountIn).to.equal(exposure.victimExtraAmountIn);
+            await contract.connect(victim).swapSAMM.staticCall(hop.amountOut, maxAmountIn, tokenIn, tokenOut, victim.address);
+          } finally {
+            await network.provider.send('evm_revert', [snapshotId]);
+          }
+
+          // A front-run one unit larger pushes the victim past its limit
+          if (exposure.cLimited) return;
+          const largerSnapshotId = await network.provider.send('evm_snapshot');
+          try {
+            await contract.connect(attacker).swapSAMM(exposure.maxFrontRunAmountOut + 1n, ethers.MaxUint256, tokenIn, tokenOut, attacker.address);
+            await expect(
+              contract.connect(victim).swapSAMM(hop.amountOut, maxAmountIn, tokenIn, tokenOut, victim.address)
+            ).to.be.revertedWith('SAMMPool: excessive input amount');
+          } finally {
+            await network.provider.send('evm_revert', [largerSnapshotId]);
+          }
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+});
@@ -0,0 +1,198 @@
+const { expect } = require('chai');
+const fc = require('fast-check');
+
+/**
+ * Property-Based Tests for gas-aware route ranking
+ *
+ * PathDiscoveryService and GasCostEstimator are TypeScript modules, so the
+ * gas price, path cost and ranking are mirrored below. The properties check
+ * that paths are ordered by input plus gas in the input token, so a direct
+ * swap that is cheaper in total beats a longer route needing less input, and
+ * that the EIP-1559 price respects configured overrides and the fee cap.
+ */
+
+describe('Gas-Aware Routing Property Tests', function() {
+  this.timeout(30000);
+
+  const ROUTER_GAS = 75000n;
+  const SWAP_GAS = 115000n;
+
+  function parseWei(value) {
+    return value !== undefined && /^\d+$/.test(value) ? BigInt(value) : null;
+  }
+
+  // Mirror of readGasPrice for a reachable provider
+  function readGasPrice(settings, feeData, baseFeePerGas) {
+    const configuredPrice = parseWei(settings.gasPrice);
+    if (configuredPrice !== null) {
+      return { gasPrice: configuredPrice, pricing: 'configured' };
+    }
+
+    if (baseFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+      const priorityFeePerGas = parseWei(settings.maxPriorityFeePerGas) ?? feeData.maxPriorityFeePerGas;
+      const maxFeePerGas = parseWei(settings.maxFeePerGas) ?? feeData.maxFeePerGas;
+      let gasPrice = baseFeePerGas + priorityFeePerGas;
+      if (maxFeePerGas !== null && gasPrice > maxFeePerGas) {
+        gasPrice = maxFeePerGas;
+      }
+      return { gasPrice, pricing: 'eip1559' };
+    }
+
+    return { gasPrice: feeData.gasPrice ?? 0n, pricing: 'legacy' };
+  }
+
+  // Mirror of estimatePathCost with a pool conversion (native reserve, token reserve)
+  function estimatePathCost(path, gasPrice, pricingPool) {
+    const totalGas = ROUTER_GAS + SWAP_GAS * BigInt(path.hops);
+    const costInNative = totalGas * gasPrice;
+    let costInTokenIn = null;
+    if (costInNative === 0n) costInTokenIn = 0n;
+    else if (pricingPool) costInTokenIn = costInNative * pricingPool.tokenReserve / pricingPool.nativeReserve;
+
+    return {
+      totalGas,
+      costInNative,
+      costInTokenIn,
+      totalCostInTokenIn: costInTokenIn === null ? null : path.totalAmountIn + costInTokenIn
+    };
+  }
+
+  // Mirror of rankPathsByCost
+  function rankPathsByCost(paths, gasPrice, pricingPool) {
+    for (const path of paths) {
+      path.estimatedGas = ROUTER_GAS + SWAP_GAS * BigInt(path.hops);
+      path.gasCost = estimatePathCost(path, gasPrice, pricingPool);
+    }
+
+    const cost = path => path.gasCost.totalCostInTokenIn ?? path.totalAmountIn;
+    paths.sort((a, b) => {
+      if (cost(a) !== cost(b)) return cost(a) < cost(b) ? -1 : 1;
+      if (a.estimatedGas !== b.estimatedGas) return a.estimatedGas < b.estimatedGas ? -1 : 1;
+      return a.hops - b.hops;
+    });
+
+    const bestCost = cost(paths[0]);
+    for (const path of paths) {
+      path.efficiencyScore = cost(path) > 0n ? Number(bestCost * 10000n / cost(path)) / 100 : 100;
+    }
+    return paths;
+  }
+
+  const pathArb = fc.record({
+    hops: fc.integer({ min: 1, max: 3 }),
+    totalAmountIn: fc.bigInt({ min: 1n, max: 10n ** 21n })
+  });
+
+  const poolArb = fc.record({
+    nativeReserve: fc.bigInt({ min: 10n ** 15n, max: 10n ** 24n }),
+    tokenReserve: fc.bigInt({ min: 10n ** 6n, max: 10n ** 24n })
+  });
+
+  /**
+   * Property: paths are ordered by input plus gas, ties broken by gas units
+   */
+  it('Property: paths are ranked by total cost in the input token', function() {
+    fc.assert(
+      fc.property(
+        fc.array(pathArb, { minLength: 1, maxLength: 8 }),
+        fc.bigInt({ min: 0n, max: 500n * 10n ** 9n }),
+        fc.option(poolArb, { nil: null }),
+        (paths, gasPrice, pool) => {
+          const ranked = rankPathsByCost(paths.map(path => ({ ...path })), gasPrice, pool);
+          const cost = path => path.gasCost.totalCostInTokenIn ?? path.totalAmountIn;
+
+          for (let i = 1; i < ranked.length; i++) {
+            const [previous, next] = [ranked[i - 1], ranked[i]];
+            expect(cost(previous) <= cost(next)).to.equal(true);
+            if (cost(previous) === cost(next)) {
+              expect(previous.estimatedGas <= next.estimatedGas).to.equal(true);
+            }
+          }
+
+          // Gas is only left out when there is gas to pay and no way to price it
+          for (const path of ranked) {
+            expect(path.gasCost.totalCostInTokenIn === null).to.equal(gasPrice > 0n && pool === null);
+            expect(path.efficiencyScore).to.be.at.most(100);
+          }
+          expect(ranked[0].efficiencyScore).to.equal(100);
+        }
+      ),
+      { numRuns: 300 }
+    );
+  });
+
+  /**
+   * Property: a direct swap beats a multi-hop route exactly when it costs less in total
+   */
+  it('Property: a direct swap cheaper in total beats a longer route needing less input', function() {
+    fc.assert(
+      fc.property(
+        fc.bigInt({ min: 10n ** 12n, max: 10n ** 21n }),
+        fc.integer({ min: 2, max: 3 }),
+        fc.bigInt({ min: 1n, max: 10n ** 18n }),
+        fc.bigInt({ min: 1n, max: 500n * 10n ** 9n }),
+        poolArb,
+        (multiHopInput, hops, inputSaving, gasPrice, pool) => {
+          const direct = { id: 'direct', hops: 1, totalAmountIn: multiHopInput + inputSaving };
+          const multiHop = { id: 'multi-hop', hops, totalAmountIn: multiHopInput };
+
+          const [best] = rankPathsByCost([multiHop, direct], gasPrice, pool);
+          const directTotal = direct.gasCost.totalCostInTokenIn;
+          const multiHopTotal = multiHop.gasCost.totalCostInTokenIn;
+
+          // The extra gas of the longer route is what the direct swap may spend on input
+          const extraGas = multiHop.gasCost.costInTokenIn - direct.gasCost.costInTokenIn;
+          expect(extraGas >= 0n).to.equal(true);
+          expect(best.id).to.equal(directTotal <= multiHopTotal ? 'direct' : 'multi-hop');
+          expect(best.id === 'direct').to.equal(inputSaving <= extraGas);
+        }
+      ),
+      { numRuns: 300 }
+    );
+  });
+
+  /**
+   * Property: EIP-1559 pricing is base fee plus priority fee, within the cap
+   */
+  it('Property: configured gas settings override fee data and the cap always holds', function() {
+    const gwei = fc.bigInt({ min: 0n, max: 1000n * 10n ** 9n });
+    const setting = fc.option(gwei.map(value => value.toString()), { nil: undefined });
+
+    fc.assert(
+      fc.property(
+        fc.record({
+          gasPrice: fc.oneof(setting, fc.constant('auto')),
+          maxFeePerGas: setting,
+          maxPriorityFeePerGas: setting
+        }),
+        fc.record({ gasPrice: fc.option(gwei, { nil: null }), maxFeePerGas: fc.option(gwei, { nil: null }), maxPriorityFeePerGas: fc.option(gwei, { nil: null }) }),
+        fc.option(gwei, { nil: null }),
+        (settings, feeData, baseFeePerGas) => {
+          const quote = readGasPrice(settings, feeData, baseFeePerGas);
+
+          if (parseWei(settings.gasPrice) !== null) {
+            expect(quote).to.deep.equal({ gasPrice: BigInt(settings.gasPrice), pricing: 'configured' });
+            return;
+          }
+
+          if (baseFeePerGas === null || feeData.maxPriorityFeePerGas === null) {
+            expect(quote).to.deep.equal({ gasPrice: feeData.gasPrice ?? 0n, pricing: 'legacy' });
+            return;
+          }
+
+          const priority = parseWei(settings.maxPriorityFeePerGas) ?? feeData.maxPriorityFeePerGas;
+          const cap = parseWei(settings.maxFeePerGas) ?? feeData.maxFeePerGas;
+          expect(quote.pricing).to.equal('eip1559');
+          expect(quote.gasPrice <= baseFeePerGas + priority).to.equal(true);
+          if (cap !== null) {
+            expect(quote.gasPrice <= cap).to.equal(true);
+            expect(quote.gasPrice).to.equal(baseFeePerGas + priority < cap ? baseFeePerGas + priority : cap);
+          } else {
+            expect(quote.gasPrice).to.equal(baseFeePerGas + priority);
+          }
+        }
+      ),
+      { numRuns: 300 }
+    );
+  });
+});
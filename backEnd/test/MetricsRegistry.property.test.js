@@ -0,0 +1,101 @@
+const { expect } = require('chai');
+const fc = require('fast-check');
+
+/**
+ * Property-Based Tests for the metrics registry
+ *
+ * MetricsRegistry is a TypeScript module, so its histogram bucketing and label
+ * rendering are mirrored below. The properties check that rendered buckets are
+ * cumulative and end at the observation count, and that any label value
+ * survives escaping and parses back to itself.
+ */
+
+describe('Metrics Registry Property Tests', function() {
+  this.timeout(30000);
+
+  // Mirror of Histogram.observe / Histogram.renderSeries
+  function renderHistogram(name, buckets, observations) {
+    const counts = new Array(buckets.length + 1).fill(0);
+    let sum = 0;
+    for (const value of observations) {
+      const index = buckets.findIndex(bound => value <= bound);
+      counts[index === -1 ? buckets.length : index]++;
+      sum += value;
+    }
+
+    const lines = [];
+    let cumulative = 0;
+    [...buckets, Infinity].forEach((bound, i) => {
+      cumulative += counts[i];
+      const le = bound === Infinity ? '+Inf' : Number.isInteger(bound) ? bound.toFixed(1) : String(bound);
+      lines.push(`${name}_bucket{le="${le}"} ${cumulative}`);
+    });
+    lines.push(`${name}_sum ${sum}`);
+    lines.push(`${name}_count ${observations.length}`);
+    return lines;
+  }
+
+  // Mirror of the label value escaping
+  function escape(value) {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  }
+
+  // Label value parser as a scraper implements it
+  function unescape(value) {
+    return value.replace(/\\(\\|"|n)/g, (match, char) => (char === 'n' ? '\n' : char));
+  }
+
+  /**
+   * Property: histogram buckets are cumulative and the +Inf bucket equals the count
+   */
+  it('Property: histogram buckets are cumulative and end at the observation count', function() {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(fc.double({ min: 0.001, max: 100, noNaN: true }), { minLength: 1, maxLength: 12 }),
+        fc.array(fc.double({ min: 0, max: 200, noNaN: true }), { maxLength: 200 }),
+        (rawBuckets, observations) => {
+          const buckets = [...rawBuckets].sort((a, b) => a - b);
+          const lines = renderHistogram('samm_routing_duration_seconds', buckets, observations);
+
+          const bucketLines = lines.filter(line => line.includes('_bucket'));
+          const values = bucketLines.map(line => Number(line.split(' ').pop()));
+          expect(bucketLines).to.have.length(buckets.length + 1);
+          values.forEach((value, i) => {
+            if (i > 0) expect(value).to.be.at.least(values[i - 1]);
+          });
+
+          // Each bucket counts exactly the observations at or below its bound
+          buckets.forEach((bound, i) => {
+            expect(values[i]).to.equal(observations.filter(value => value <= bound).length);
+          });
+
+          expect(bucketLines[bucketLines.length - 1]).to.include('le="+Inf"');
+          expect(values[values.length - 1]).to.equal(observations.length);
+          expect(lines[lines.length - 1]).to.equal(`samm_routing_duration_seconds_count ${observations.length}`);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * Property: escaped label values round-trip and never end the quoted string early
+   */
+  it('Property: label values round-trip through escaping', function() {
+    fc.assert(
+      fc.property(
+        fc.string({ unit: fc.constantFrom('a', 'B', '/', '"', '\\', '\n', ' ', '0', 'x'), maxLength: 40 }),
+        (value) => {
+          const escaped = escape(value);
+          const line = `samm_shard_reserve{pair="${escaped}"} 1`;
+
+          expect(escaped).to.not.include('\n');
+          const match = line.match(/^samm_shard_reserve\{pair="((?:[^"\\]|\\.)*)"\} 1$/);
+          expect(match).to.not.equal(null);
+          expect(unescape(match[1])).to.equal(value);
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+});
@@ -0,0 +1,503 @@
+/**
+ * Property-Based Tests for the order keeper
+ *
+ * The keeper is a TypeScript module, so OrderKeeper.checkOrders and the
+ * OrderBook status updates it drives are mirrored below and run against
+ * SAMMPool shards and SAMMOrderSettlement on the Hardhat network. The
+ * properties check that a limit order fills exactly when the routed shard
+ * meets its price, that TWAP slices never fill before they are due and add up
+ * to the order, and that expired and cancelled orders are closed. The keeper
+ * also follows the contract's slice counter, skips underfunded makers and
+ * gives up on orders whose fills keep reverting.
+ */
+
+const { expect } = require('chai');
+const fc = require('fast-check');
+const { ethers, network } = require('hardhat');
+
+describe('Order Keeper Property Tests', function () {
+  const ORDER_TYPES = {
+    Order: [
+      { name: 'maker', type: 'address' },
+      { name: 'tokenIn', type: 'address' },
+      { name: 'tokenOut', type: 'address' },
+      { name: 'amountOut', type: 'uint256' },
+      { name: 'maxAmountIn', type: 'uint256' },
+      { name: 'slices', type: 'uint256' },
+      { name: 'interval', type: 'uint256' },
+      { name: 'startTime', type: 'uint256' },
+      { name: 'expiry', type: 'uint256' },
+      { name: 'nonce', type: 'uint256' }
+    ]
+  };
+  const OPEN_STATUSES = ['open', 'partially_filled'];
+  const MAX_FILL_ATTEMPTS = 5;
+  const CHECK_INTERVAL = 15000;
+  const MAX_RETRY_BACKOFF_MS = 10 * 60 * 1000;
+
+  let owner;
+  let maker;
+  let keeper;
+  let tokenIn;
+  let tokenOut;
+  let shards;
+  let settlement;
+  let domain;
+  let nonce = 0n;
+  // Wall clock in milliseconds for retry backoff, advanced by the tests
+  let clock = 0;
+
+  async function latestTimestamp() {
+    return (await ethers.provider.getBlock('latest')).timestamp;
+  }
+
+  async function advance(seconds) {
+    await network.provider.send('evm_increaseTime', [seconds]);
+    await network.provider.send('evm_mine');
+  }
+
+  // Mirror of getSliceAmounts
+  function sliceAmounts(order, slice) {
+    const share = total => total * (slice + 1n) / order.slices - total * slice / order.slices;
+    return { amountOut: share(order.amountOut), maxAmountIn: share(order.maxAmountIn) };
+  }
+
+  // Mirror of OrderBook.submit
+  async function submit(book, order) {
+    const signature = await maker.signTypedData(domain, ORDER_TYPES, order);
+    expect(ethers.verifyTypedData(domain, ORDER_TYPES, order, signature)).to.equal(order.maker);
+
+    const record = {
+      orderHash: ethers.TypedDataEncoder.hash(domain, ORDER_TYPES, order),
+      order,
+      signature,
+      status: 'open',
+      filledSlices: 0n,
+      filledAmountIn: 0n,
+      filledAmountOut: 0n,
+      fills: [],
+      failedAttempts: 0,
+      history: ['open']
+    };
+    book.set(record.orderHash, record);
+    return record;
+  }
+
+  function setStatus(record, status) {
+    record.status = status;
+    record.history.push(status);
+  }
+
+  // Mirror of OrderBook.syncFills
+  function syncFills(record, filledSlices, fills) {
+    for (const fill of fills) {
+      if (record.fills.some(existing => existing.slice === fill.slice)) continue;
+      record.fills.push(fill);
+      record.filledAmountIn += fill.amountIn;
+      record.filledAmountOut += fill.amountOut;
+    }
+    record.fills.sort((a, b) => Number(a.slice - b.slice));
+    record.filledSlices = filledSlices > record.filledSlices ? filledSlices : record.filledSlices;
+    setStatus(record, record.filledSlices >= record.order.slices ? 'filled' : 'partially_filled');
+    record.lastError = undefined;
+    record.failedAttempts = 0;
+    record.retryAt = undefined;
+  }
+
+  // Mirror of OrderBook.recordError
+  function recordError(record, error, retryAt) {
+    record.lastError = error;
+    record.failedAttempts++;
+    record.retryAt = retryAt;
+    if (record.failedAttempts >= MAX_FILL_ATTEMPTS) {
+      setStatus(record, 'failed');
+    }
+  }
+
+  // Mirror of OrderKeeper.getRetryAt
+  function getRetryAt(attempt) {
+    return clock + Math.min(CHECK_INTERVAL * 2 ** Math.max(0, attempt - 1), MAX_RETRY_BACKOFF_MS);
+  }
+
+  // Mirror of OrderKeeper.syncWithChain, true when the record already matched the contract
+  async function syncWithChain(record) {
+    const filledOnChain = await settlement.filledSlices(record.orderHash);
+    if (await settlement.cancelled(record.orderHash)) {
+      setStatus(record, 'cancelled');
+      return false;
+    }
+    if (filledOnChain === record.filledSlices) return true;
+
+    const logs = await settlement.queryFilter(settlement.filters.OrderFilled(record.orderHash));
+    syncFills(record, filledOnChain, logs.map(log => {
+      // `slice` is shadowed by Result.slice, so read the fields by name
+      const { slice, amountIn, amountOut } = log.args.toObject();
+      return { slice, amountIn, amountOut };
+    }));
+    return false;
+  }
+
+  // Mirror of OrderKeeper.getFundingShortfall
+  async function getFundingShortfall(order, maxAmountIn) {
+    if (await tokenIn.balanceOf(order.maker) < maxAmountIn) {
+      return 'Maker balance is below the slice input';
+    }
+    if (await tokenIn.allowance(order.maker, await settlement.getAddress()) < maxAmountIn) {
+      return 'Maker allowance to the settlement contract is below the slice input';
+    }
+    return null;
+  }
+
+  /**
+   * Mirror of the router's smallest-shard selection for an exact-output trade
+   * Shards are ordered by size; the first within its c-threshold wins.
+   */
+  async function route(amountOut) {
+    for (const shard of shards) {
+      const [reserveA, reserveB] = await shard.getReserves();
+      const inputReserve = (await shard.tokenA()) === (await tokenIn.getAddress()) ? reserveA : reserveB;
+      if (amountOut * 1000000n / inputReserve > await shard.c()) continue;
+
+      try {
+        const quote = await shard.calculateSwapSAMM(amountOut, await tokenIn.getAddress(), await tokenOut.getAddress());
+        return { poolAddress: await shard.getAddress(), expectedAmountIn: quote.amountIn };
+      } catch {
+        continue;
+      }
+    }
+    return null;
+  }
+
+  // Mirror of OrderKeeper.checkOrders / processOrder / fillSlice
+  async function checkOrders(book) {
+    const now = BigInt(await latestTimestamp());
+    const fills = [];
+
+    for (const record of book.values()) {
+      if (!OPEN_STATUSES.includes(record.status)) continue;
+      const { order } = record;
+
+      if (now > order.expiry) {
+        setStatus(record, 'expired');
+        continue;
+      }
+      if (record.retryAt && clock < record.retryAt) continue;
+
+      const slice = record.filledSlices;
+      if (now < order.startTime + slice * order.interval) continue;
+
+      const { amountOut, maxAmountIn } = sliceAmounts(order, slice);
+      const routing = await route(amountOut);
+      if (!routing || routing.expectedAmountIn > maxAmountIn) continue;
+
+      if (!await syncWithChain(record)) continue;
+      const shortfall = await getFundingShortfall(order, maxAmountIn);
+      if (shortfall) {
+        record.lastError = shortfall;
+        record.retryAt = getRetryAt(record.failedAttempts + 1);
+        continue;
+      }
+
+      const args = [order, record.signature, routing.poolAddress];
+      try {
+        await settlement.connect(keeper).fillOrder.staticCall(...args);
+        const receipt = await (await settlement.connect(keeper).fillOrder(...args)).wait();
+        const filled = receipt.logs
+          .map(log => settlement.interface.parseLog(log))
+          .find(event => event && event.name === 'OrderFilled');
+        if (!filled) {
+          await syncWithChain(record);
+          continue;
+        }
+
+        const fill = { slice, amountIn: filled.args.amountIn, amountOut: filled.args.amountOut };
+        syncFills(record, slice + 1n, [fill]);
+        fills.push(fill);
+      } catch (error) {
+        if (error.message.includes('SAMMOrderSettlement: cancelled')) {
+          setStatus(record, 'cancelled');
+        } else if (error.message.includes('SAMMOrderSettlement: expired')) {
+          setStatus(record, 'expired');
+        } else {
+          recordError(record, error.message, getRetryAt(record.failedAttempts + 1));
+        }
+      }
+    }
+
+    return fills;
+  }
+
+  async function buildOrder(overrides = {}) {
+    const now = BigInt(await latestTimestamp());
+    nonce++;
+    return {
+      maker: maker.address,
+      tokenIn: await tokenIn.getAddress(),
+      tokenOut: await tokenOut.getAddress(),
+      amountOut: ethers.parseEther('10'),
+      maxAmountIn: ethers.parseEther('11'),
+      slices: 1n,
+      interval: 0n,
+      startTime: now,
+      expiry: now + 86400n,
+      nonce,
+      ...overrides
+    };
+  }
+
+  async function deployShard(liquidity) {
+    const SAMMPool = await ethers.getContractFactory('SAMMPool');
+    const shard = await SAMMPool.deploy(await tokenIn.getAddress(), await tokenOut.getAddress(), 'SAMM Pool', 'SAMM-LP');
+    await tokenIn.approve(await shard.getAddress(), ethers.MaxUint256);
+    await tokenOut.approve(await shard.getAddress(), ethers.MaxUint256);
+    await shard.initialize(await tokenIn.getAddress(), await tokenOut.getAddress(), liquidity, liquidity, 25, 10000, 5, 10000);
+    return shard;
+  }
+
+  before(async function () {
+    [owner, maker, keeper] = await ethers.getSigners();
+
+    const MockERC20 = await ethers.getContractFactory('MockERC20');
+    tokenIn = await MockERC20.deploy('USD Coin', 'USDC', 18);
+    tokenOut = await MockERC20.deploy('Tether', 'USDT', 18);
+    for (const token of [tokenIn, tokenOut]) {
+      await token.mint(owner.address, ethers.parseEther('1000000'));
+    }
+    await tokenIn.mint(maker.address, ethers.parseEther('100000'));
+
+    // Smallest shard first, as the router ranks them
+    shards = [await deployShard(ethers.parseEther('1000')), await deployShard(ethers.parseEther('10000'))];
+
+    const Settlement = await ethers.getContractFactory('SAMMOrderSettlement');
+    settlement = await Settlement.deploy();
+    await tokenIn.connect(maker).approve(await settlement.getAddress(), ethers.MaxUint256);
+
+    domain = {
+      name: 'SAMMOrderSettlement',
+      version: '1',
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: await settlement.getAddress()
+    };
+  });
+
+  /**
+   * Property: a limit order fills on the first check iff the routed quote is within its price
+   */
+  it('Property: limit orders fill exactly when the routed shard meets the limit price', async function () {
+    this.timeout(300000);
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1, max: 50 }),
+        fc.integer({ min: 9500, max: 10500 }),
+        async (amount, limitBps) => {
+          const snapshotId = await network.provider.send('evm_snapshot');
+          try {
+            const amountOut = ethers.parseEther(amount.toString());
+            const order = await buildOrder({ amountOut, maxAmountIn: amountOut * BigInt(limitBps) / 10000n });
+            const book = new Map();
+            const record = await submit(book, order);
+
+            const quote = (await route(amountOut)).expectedAmountIn;
+            const makerOutBefore = await tokenOut.balanceOf(maker.address);
+            const makerInBefore = await tokenIn.balanceOf(maker.address);
+
+            const fills = await checkOrders(book);
+
+            if (quote <= order.maxAmountIn) {
+              expect(record.lastError).to.equal(undefined);
+              expect(fills).to.have.length(1);
+              expect(record.status).to.equal('filled');
+              expect(record.filledAmountIn).to.equal(quote);
+              expect(await tokenOut.balanceOf(maker.address)).to.equal(makerOutBefore + amountOut);
+              expect(await tokenIn.balanceOf(maker.address)).to.equal(makerInBefore - quote);
+            } else {
+              expect(fills).to.have.length(0);
+              expect(record.status).to.equal('open');
+              expect(record.lastError).to.equal(undefined);
+              expect(await tokenIn.balanceOf(maker.address)).to.equal(makerInBefore);
+            }
+            expect(await settlement.filledSlices(record.orderHash)).to.equal(record.filledSlices);
+          } finally {
+            await network.provider.send('evm_revert', [snapshotId]);
+          }
+        }
+      ),
+      { numRuns: 15 }
+    );
+  });
+
+  /**
+   * Property: TWAP slices fill no earlier than their due time and sum to the order
+   */
+  it('Property: TWAP slices follow the schedule and add up to the order', async function () {
+    this.timeout(300000);
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 2, max: 4 }),
+        fc.integer({ min: 60, max: 900 }),
+        fc.array(fc.integer({ min: 1, max: 1200 }), { minLength: 1, maxLength: 6 }),
+        async (slices, interval, steps) => {
+          const snapshotId = await network.provider.send('evm_snapshot');
+          try {
+            const order = await buildOrder({
+              amountOut: ethers.parseEther('10') + 1n,
+              maxAmountIn: ethers.parseEther('12'),
+              slices: BigInt(slices),
+              interval: BigInt(interval)
+            });
+            const book = new Map();
+            const record = await submit(book, order);
+
+            await checkOrders(book);
+            for (const step of steps) {
+              await advance(step);
+              await checkOrders(book);
+
+              // One fill per check, never ahead of the schedule
+              const now = BigInt(await latestTimestamp());
+              const due = (now - order.startTime) / order.interval + 1n;
+              expect(record.filledSlices <= due).to.equal(true);
+            }
+
+            // Run out the schedule
+            for (let i = 0; i < slices; i++) {
+              await advance(interval);
+              await checkOrders(book);
+            }
+
+            expect(record.status).to.equal('filled');
+            expect(record.fills.map(fill => fill.slice)).to.deep.equal([...Array(slices).keys()].map(BigInt));
+            expect(record.filledAmountOut).to.equal(order.amountOut);
+            expect(record.filledAmountIn <= order.maxAmountIn).to.equal(true);
+            expect(record.history[0]).to.equal('open');
+            expect(record.history.slice(1, -1).every(status => status === 'partially_filled')).to.equal(true);
+          } finally {
+            await network.provider.send('evm_revert', [snapshotId]);
+          }
+        }
+      ),
+      { numRuns: 10 }
+    );
+  });
+
+  it('should close orders that expire or are cancelled on-chain', async function () {
+    const snapshotId = await network.provider.send('evm_snapshot');
+    try {
+      const book = new Map();
+
+      // Priced below any shard, so it waits until it expires
+      const unreachable = await buildOrder({ maxAmountIn: ethers.parseEther('9'), expiry: BigInt(await latestTimestamp()) + 600n });
+      const waiting = await submit(book, unreachable);
+      await checkOrders(book);
+      expect(waiting.status).to.equal('open');
+      await advance(601);
+      await checkOrders(book);
+      expect(waiting.status).to.equal('expired');
+
+      const order = await buildOrder();
+      const cancelled = await submit(book, order);
+      await settlement.connect(maker).cancelOrder(order);
+      await checkOrders(book);
+      expect(cancelled.status).to.equal('cancelled');
+      expect(cancelled.fills).to.have.length(0);
+
+      // Closed orders are not checked again
+      const fills = await checkOrders(book);
+      expect(fills).to.have.length(0);
+      expect(waiting.history).to.deep.equal(['open', 'expired']);
+      expect(cancelled.history).to.deep.equal(['open', 'cancelled']);
+    } finally {
+      await network.provider.send('evm_revert', [snapshotId]);
+    }
+  });
+
+  it('should pick up slices filled outside the keeper from the contract', async function () {
+    const snapshotId = await network.provider.send('evm_snapshot');
+    try {
+      const book = new Map();
+      const order = await buildOrder({ slices: 3n, interval: 600n });
+      const record = await submit(book, order);
+
+      // Another filler settles the first slice before the keeper sees it
+      const routing = await route(sliceAmounts(order, 0n).amountOut);
+      await settlement.connect(owner).fillOrder(order, record.signature, routing.poolAddress);
+
+      const fills = await checkOrders(book);
+      expect(fills).to.have.length(0);
+      expect(record.filledSlices).to.equal(1n);
+      expect(record.status).to.equal('partially_filled');
+      expect(record.fills.map(fill => fill.slice)).to.deep.equal([0n]);
+      expect(record.filledAmountOut).to.equal(sliceAmounts(order, 0n).amountOut);
+
+      // The next slice is filled on schedule, not slice 0 again
+      await advance(600);
+      const next = await checkOrders(book);
+      expect(next.map(fill => fill.slice)).to.deep.equal([1n]);
+      expect(await settlement.filledSlices(record.orderHash)).to.equal(2n);
+      expect(record.filledSlices).to.equal(2n);
+    } finally {
+      await network.provider.send('evm_revert', [snapshotId]);
+    }
+  });
+
+  it('should not send fills for an underfunded maker until funds arrive', async function () {
+    const snapshotId = await network.provider.send('evm_snapshot');
+    try {
+      const book = new Map();
+      const order = await buildOrder();
+      const record = await submit(book, order);
+      await tokenIn.connect(maker).approve(await settlement.getAddress(), 0);
+
+      const keeperNonce = await ethers.provider.getTransactionCount(keeper.address);
+      await checkOrders(book);
+      expect(await ethers.provider.getTransactionCount(keeper.address)).to.equal(keeperNonce);
+      expect(record.status).to.equal('open');
+      expect(record.failedAttempts).to.equal(0);
+      expect(record.lastError).to.include('allowance');
+
+      // Backed off until the retry time
+      await tokenIn.connect(maker).approve(await settlement.getAddress(), ethers.MaxUint256);
+      expect(await checkOrders(book)).to.have.length(0);
+      clock = record.retryAt;
+      expect(await checkOrders(book)).to.have.length(1);
+      expect(record.status).to.equal('filled');
+      expect(record.lastError).to.equal(undefined);
+    } finally {
+      await network.provider.send('evm_revert', [snapshotId]);
+    }
+  });
+
+  it('should back off and fail an order whose fills keep reverting', async function () {
+    const snapshotId = await network.provider.send('evm_snapshot');
+    try {
+      const book = new Map();
+      const order = await buildOrder();
+      const record = await submit(book, order);
+      // A signature by someone other than the maker makes every fill revert
+      record.signature = await owner.signTypedData(domain, ORDER_TYPES, order);
+
+      const retries = [];
+      for (let attempt = 1; attempt <= MAX_FILL_ATTEMPTS; attempt++) {
+        await checkOrders(book);
+        expect(record.failedAttempts).to.equal(attempt);
+        expect(record.lastError).to.include('SAMMOrderSettlement: invalid signature');
+        retries.push(record.retryAt - clock);
+
+        // Nothing is retried before the backoff runs out
+        await checkOrders(book);
+        expect(record.failedAttempts).to.equal(attempt);
+        clock = record.retryAt;
+      }
+
+      expect(retries).to.deep.equal([15000, 30000, 60000, 120000, 240000]);
+      expect(record.status).to.equal('failed');
+      await checkOrders(book);
+      expect(record.failedAttempts).to.equal(MAX_FILL_ATTEMPTS);
+      expect(record.history).to.deep.equal(['open', 'failed']);
+    } finally {
+      await network.provider.send('evm_revert', [snapshotId]);
+    }
+  });
+});
@@ -0,0 +1,725 @@
+const { expect } = require('chai');
+const fc = require('fast-check');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+/**
+ * Property-Based Tests for the persistence stores
+ *
+ * The stores are TypeScript modules, so InMemoryPersistenceStore,
+ * SQLitePersistenceStore and the JSON encoding they share are mirrored below.
+ * The same suite runs against both stores through the PersistenceStore
+ * interface: tagged bigints and Dates round-trip, history queries filter and
+ * order the same way, cache entries expire, and a restarted service warms its
+ * caches from what the previous run saved.
+ *
+ * The SQLite suite needs better-sqlite3 and is skipped where it is not installed.
+ */
+
+let Database = null;
+try {
+  Database = require('better-sqlite3');
+} catch {
+  // Optional native dependency of the API server
+}
+
+describe('Persistence Store Property Tests', function() {
+  this.timeout(60000);
+
+  const BIGINT_TAG = '$bigint';
+  const DATE_TAG = '$date';
+
+  // Mirror of encodeValue
+  function encodeValue(value) {
+    return JSON.stringify(value, function(key, current) {
+      const original = this[key];
+      if (original instanceof Date) {
+        return { [DATE_TAG]: original.getTime() };
+      }
+      if (typeof current === 'bigint') {
+        return { [BIGINT_TAG]: current.toString() };
+      }
+      return current;
+    });
+  }
+
+  // Mirror of decodeValue
+  function decodeValue(text) {
+    return JSON.parse(text, (_key, current) => {
+      if (current && typeof current === 'object' && !Array.isArray(current)) {
+        if (typeof current[BIGINT_TAG] === 'string') {
+          return BigInt(current[BIGINT_TAG]);
+        }
+        if (typeof current[DATE_TAG] === 'number') {
+          return new Date(current[DATE_TAG]);
+        }
+      }
+      return current;
+    });
+  }
+
+  // Mirror of the limit handling both stores share
+  function normalizeLimit(limit) {
+    if (limit === undefined || !Number.isFinite(limit)) return undefined;
+    return Math.max(0, Math.floor(limit));
+  }
+
+  // Mirror of InMemoryPersistenceStore (snapshots, trades and cache entries)
+  class InMemoryStoreMirror {
+    constructor() {
+      this.shardSnapshots = [];
+      this.trades = [];
+      this.cacheEntries = new Map();
+      this.nextTradeId = 1;
+    }
+
+    async initialize() {}
+
+    async close() {
+      this.shardSnapshots = [];
+      this.trades = [];
+      this.cacheEntries.clear();
+    }
+
+    async saveShardSnapshots(snapshots) {
+      for (const snapshot of snapshots) {
+        this.shardSnapshots.push(decodeValue(encodeValue(snapshot)));
+      }
+    }
+
+    async getShardSnapshots(query = {}) {
+      return this.applyQuery(
+        this.shardSnapshots.filter(snapshot =>
+          !query.poolAddress || snapshot.poolAddress.toLowerCase() === query.poolAddress.toLowerCase()
+        ),
+        query
+      );
+    }
+
+    async getLatestShardSnapshots(chainId) {
+      const latest = new Map();
+      for (const snapshot of this.shardSnapshots) {
+        if (snapshot.chainId !== chainId) continue;
+        const key = snapshot.poolAddress.toLowerCase();
+        const current = latest.get(key);
+        if (!current || snapshot.timestamp >= current.timestamp) {
+          latest.set(key, snapshot);
+        }
+      }
+      return Array.from(latest.values());
+    }
+
+    async recordTrade(trade) {
+      this.trades.push({ ...trade, poolAddresses: [...trade.poolAddresses], id: this.nextTradeId++ });
+    }
+
+    async getTrades(query = {}) {
+      return this.applyQuery(
+        this.trades.filter(trade => !query.poolAddress ||
+          trade.poolAddresses.some(address => address.toLowerCase() === query.poolAddress.toLowerCase())),
+        query
+      );
+    }
+
+    async setCacheEntry(namespace, key, value, ttlMs) {
+      const now = Date.now();
+      this.cacheEntries.set(`${namespace}:${key}`, {
+        namespace,
+        key,
+        value: encodeValue(value),
+        updatedAt: now,
+        expiresAt: ttlMs !== undefined ? now + ttlMs : null
+      });
+    }
+
+    async getCacheEntry(namespace, key) {
+      const entry = this.cacheEntries.get(`${namespace}:${key}`);
+      if (!entry) return null;
+      if (this.isExpired(entry, Date.now())) {
+        this.cacheEntries.delete(`${namespace}:${key}`);
+        return null;
+      }
+      return { ...entry, value: decodeValue(entry.value) };
+    }
+
+    async getCacheEntries(namespace) {
+      const now = Date.now();
+      return Array.from(this.cacheEntries.values())
+        .filter(entry => entry.namespace === namespace && !this.isExpired(entry, now))
+        .map(entry => ({ ...entry, value: decodeValue(entry.value) }));
+    }
+
+    async deleteCacheEntry(namespace, key) {
+      this.cacheEntries.delete(`${namespace}:${key}`);
+    }
+
+    async clearCacheNamespace(namespace) {
+      for (const [key, entry] of this.cacheEntries.entries()) {
+        if (entry.namespace === namespace) this.cacheEntries.delete(key);
+      }
+    }
+
+    async prune(olderThan) {
+      this.shardSnapshots = this.shardSnapshots.filter(snapshot => snapshot.timestamp >= olderThan);
+      this.trades = this.trades.filter(trade => trade.timestamp >= olderThan);
+      const now = Date.now();
+      for (const [key, entry] of this.cacheEntries.entries()) {
+        if (this.isExpired(entry, now)) this.cacheEntries.delete(key);
+      }
+    }
+
+    applyQuery(records, query) {
+      const matches = records
+        .filter(record =>
+          (query.chainId === undefined || record.chainId === query.chainId) &&
+          (query.source === undefined || record.source === query.source) &&
+          (query.since === undefined || record.timestamp >= query.since) &&
+          (query.until === undefined || record.timestamp <= query.until)
+        )
+        .sort((a, b) => b.timestamp - a.timestamp);
+
+      const limit = normalizeLimit(query.limit);
+      return limit === undefined ? matches : matches.slice(0, limit);
+    }
+
+    isExpired(entry, now) {
+      return entry.expiresAt !== null && entry.expiresAt <= now;
+    }
+  }
+
+  // Mirror of SQLitePersistenceStore (snapshots, trades and cache entries)
+  class SQLiteStoreMirror {
+    constructor(filename) {
+      this.filename = filename;
+      this.db = null;
+    }
+
+    async initialize() {
+      if (this.db) return;
+      this.db = new Database(this.filename);
+      this.db.pragma('journal_mode = WAL');
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS shard_snapshots (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          chain_id INTEGER NOT NULL,
+          pool_address TEXT NOT NULL,
+          shard_id TEXT NOT NULL,
+          token_a TEXT NOT NULL,
+          token_b TEXT NOT NULL,
+          reserve_a TEXT NOT NULL,
+          reserve_b TEXT NOT NULL,
+          total_supply TEXT NOT NULL,
+          samm_params TEXT NOT NULL,
+          fees TEXT NOT NULL,
+          status TEXT NOT NULL,
+          timestamp INTEGER NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS trades (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          chain_id INTEGER NOT NULL,
+          source TEXT NOT NULL,
+          transaction_hash TEXT NOT NULL,
+          token_in TEXT NOT NULL,
+          token_out TEXT NOT NULL,
+          amount_in TEXT NOT NULL,
+          amount_out TEXT NOT NULL,
+          fee TEXT NOT NULL,
+          gas_used TEXT NOT NULL,
+          pool_addresses TEXT NOT NULL,
+          success INTEGER NOT NULL,
+          error TEXT,
+          timestamp INTEGER NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS cache_entries (
+          namespace TEXT NOT NULL,
+          key TEXT NOT NULL,
+          value TEXT NOT NULL,
+          updated_at INTEGER NOT NULL,
+          expires_at INTEGER,
+          PRIMARY KEY (namespace, key)
+        );
+      `);
+    }
+
+    async close() {
+      if (this.db) {
+        this.db.close();
+        this.db = null;
+      }
+    }
+
+    async saveShardSnapshots(snapshots) {
+      const insert = this.db.prepare(`
+        INSERT INTO shard_snapshots (
+          chain_id, pool_address, shard_id, token_a, token_b, reserve_a, reserve_b,
+          total_supply, samm_params, fees, status, timestamp
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      this.db.transaction(records => {
+        for (const snapshot of records) {
+          insert.run(
+            snapshot.chainId,
+            snapshot.poolAddress.toLowerCase(),
+            snapshot.shardId,
+            JSON.stringify(snapshot.tokenA),
+            JSON.stringify(snapshot.tokenB),
+            snapshot.reserveA.toString(),
+            snapshot.reserveB.toString(),
+            snapshot.totalSupply.toString(),
+            JSON.stringify(snapshot.sammParams),
+            JSON.stringify(snapshot.fees),
+            snapshot.status,
+            snapshot.timestamp
+          );
+        }
+      })(snapshots);
+    }
+
+    async getShardSnapshots(query = {}) {
+      const conditions = [];
+      const params = [];
+      if (query.poolAddress) {
+        conditions.push('pool_address = ?');
+        params.push(query.poolAddress.toLowerCase());
+      }
+      this.addCommonConditions(query, conditions, params, false);
+
+      return this.db
+        .prepare(`SELECT * FROM shard_snapshots ${this.buildWhere(conditions)} ORDER BY timestamp DESC, id DESC ${this.buildLimit(query)}`)
+        .all(...params)
+        .map(row => this.toShardSnapshot(row));
+    }
+
+    async getLatestShardSnapshots(chainId) {
+      return this.db
+        .prepare(`
+          SELECT s.* FROM shard_snapshots s
+          WHERE s.chain_id = ? AND s.id = (
+            SELECT latest.id FROM shard_snapshots latest
+            WHERE latest.chain_id = s.chain_id AND latest.pool_address = s.pool_address
+            ORDER BY latest.timestamp DESC, latest.id DESC
+            LIMIT 1
+          )
+        `)
+        .all(chainId)
+        .map(row => this.toShardSnapshot(row));
+    }
+
+    async recordTrade(trade) {
+      this.db
+        .prepare(`
+          INSERT INTO trades (
+            chain_id, source, transaction_hash, token_in, token_out, amount_in, amount_out,
+            fee, gas_used, pool_addresses, success, error, timestamp
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `)
+        .run(
+          trade.chainId,
+          trade.source,
+          trade.transactionHash,
+          trade.tokenIn,
+          trade.tokenOut,
+          trade.amountIn.toString(),
+          trade.amountOut.toString(),
+          trade.fee.toString(),
+          trade.gasUsed.toString(),
+          JSON.stringify(trade.poolAddresses.map(address => address.toLowerCase())),
+          trade.success ? 1 : 0,
+          trade.error ?? null,
+          trade.timestamp
+        );
+    }
+
+    async getTrades(query = {}) {
+      const conditions = [];
+      const params = [];
+      if (query.poolAddress) {
+        conditions.push('pool_addresses LIKE ?');
+        params.push(`%"${query.poolAddress.toLowerCase()}"%`);
+      }
+      this.addCommonConditions(query, conditions, params, true);
+
+      return this.db
+        .prepare(`SELECT * FROM trades ${this.buildWhere(conditions)} ORDER BY timestamp DESC, id DESC ${this.buildLimit(query)}`)
+        .all(...params)
+        .map(row => ({
+          id: row.id,
+          chainId: row.chain_id,
+          source: row.source,
+          transactionHash: row.transaction_hash,
+          tokenIn: row.token_in,
+          tokenOut: row.token_out,
+          amountIn: BigInt(row.amount_in),
+          amountOut: BigInt(row.amount_out),
+          fee: BigInt(row.fee),
+          gasUsed: BigInt(row.gas_used),
+          poolAddresses: JSON.parse(row.pool_addresses),
+          success: row.success === 1,
+          error: row.error ?? undefined,
+          timestamp: row.timestamp
+        }));
+    }
+
+    async setCacheEntry(namespace, key, value, ttlMs) {
+      const now = Date.now();
+      this.db
+        .prepare(`
+          INSERT INTO cache_entries (namespace, key, value, updated_at, expires_at)
+          VALUES (?, ?, ?, ?, ?)
+          ON CONFLICT (namespace, key) DO UPDATE SET
+            value = excluded.value,
+            updated_at = excluded.updated_at,
+            expires_at = excluded.expires_at
+        `)
+        .run(namespace, key, encodeValue(value), now, ttlMs !== undefined ? now + ttlMs : null);
+    }
+
+    async getCacheEntry(namespace, key) {
+      const row = this.db
+        .prepare('SELECT * FROM cache_entries WHERE namespace = ? AND key = ? AND (expires_at IS NULL OR expires_at > ?)')
+        .get(namespace, key, Date.now());
+      return row ? this.toCacheEntry(row) : null;
+    }
+
+    async getCacheEntries(namespace) {
+      return this.db
+        .prepare('SELECT * FROM cache_entries WHERE namespace = ? AND (expires_at IS NULL OR expires_at > ?)')
+        .all(namespace, Date.now())
+        .map(row => this.toCacheEntry(row));
+    }
+
+    async deleteCacheEntry(namespace, key) {
+      this.db.prepare('DELETE FROM cache_entries WHERE namespace = ? AND key = ?').run(namespace, key);
+    }
+
+    async clearCacheNamespace(namespace) {
+      this.db.prepare('DELETE FROM cache_entries WHERE namespace = ?').run(namespace);
+    }
+
+    async prune(olderThan) {
+      this.db.transaction(() => {
+        this.db.prepare('DELETE FROM shard_snapshots WHERE timestamp < ?').run(olderThan);
+        this.db.prepare('DELETE FROM trades WHERE timestamp < ?').run(olderThan);
+        this.db.prepare('DELETE FROM cache_entries WHERE expires_at IS NOT NULL AND expires_at <= ?').run(Date.now());
+      })();
+    }
+
+    addCommonConditions(query, conditions, params, hasSource) {
+      if (query.chainId !== undefined) {
+        conditions.push('chain_id = ?');
+        params.push(query.chainId);
+      }
+      if (hasSource && query.source !== undefined) {
+        conditions.push('source = ?');
+        params.push(query.source);
+      }
+      if (query.since !== undefined) {
+        conditions.push('timestamp >= ?');
+        params.push(query.since);
+      }
+      if (query.until !== undefined) {
+        conditions.push('timestamp <= ?');
+        params.push(query.until);
+      }
+    }
+
+    buildWhere(conditions) {
+      return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    }
+
+    buildLimit(query) {
+      const limit = normalizeLimit(query.limit);
+      return limit === undefined ? '' : `LIMIT ${limit}`;
+    }
+
+    toShardSnapshot(row) {
+      return {
+        chainId: row.chain_id,
+        poolAddress: row.pool_address,
+        shardId: row.shard_id,
+        tokenA: JSON.parse(row.token_a),
+        tokenB: JSON.parse(row.token_b),
+        reserveA: BigInt(row.reserve_a),
+        reserveB: BigInt(row.reserve_b),
+        totalSupply: BigInt(row.total_supply),
+        sammParams: JSON.parse(row.samm_params),
+        fees: JSON.parse(row.fees),
+        status: row.status,
+        timestamp: row.timestamp
+      };
+    }
+
+    toCacheEntry(row) {
+      return {
+        namespace: row.namespace,
+        key: row.key,
+        value: decodeValue(row.value),
+        updatedAt: row.updated_at,
+        expiresAt: row.expires_at ?? null
+      };
+    }
+  }
+
+  // Mirror of ShardDiscoveryService.warmCacheFromPersistence and RouterService.restorePersistedState
+  async function warmCaches(persistence, chainId) {
+    const shards = new Map();
+    for (const snapshot of await persistence.getLatestShardSnapshots(chainId)) {
+      shards.set(snapshot.poolAddress.toLowerCase(), snapshot);
+    }
+
+    const routingCache = new Map();
+    for (const entry of await persistence.getCacheEntries('router:routing-cache')) {
+      routingCache.set(entry.key, { result: entry.value, timestamp: entry.updatedAt });
+    }
+
+    const stats = await persistence.getCacheEntry('router:stats', String(chainId));
+    return { shards, routingCache, stats: stats ? stats.value : null };
+  }
+
+  const uint256 = fc.bigInt({ min: 0n, max: 2n ** 256n - 1n });
+  const poolAddress = fc.integer({ min: 1, max: 8 }).map(n => `0x${n.toString(16).padStart(40, '0')}`);
+
+  const token = symbol => ({ address: `0x${symbol.charCodeAt(0).toString(16).padStart(40, '0')}`, symbol, decimals: 18 });
+
+  function snapshot(poolAddress, timestamp, reserve, chainId = 1) {
+    return {
+      chainId,
+      poolAddress,
+      shardId: `shard-${poolAddress.slice(-4)}`,
+      tokenA: token('A'),
+      tokenB: token('B'),
+      reserveA: reserve,
+      reserveB: reserve * 2n,
+      totalSupply: reserve + 1n,
+      sammParams: { beta1: -1050000, rmin: 1000, rmax: 12000, c: 10400 },
+      fees: { tradeFeeNumerator: 25, tradeFeeDenominator: 10000, ownerFeeNumerator: 5, ownerFeeDenominator: 10000 },
+      status: 'active',
+      timestamp
+    };
+  }
+
+  function trade(poolAddresses, timestamp, amountIn, overrides = {}) {
+    return {
+      chainId: 1,
+      source: 'router',
+      transactionHash: `0x${timestamp.toString(16).padStart(64, '0')}`,
+      tokenIn: token('A').address,
+      tokenOut: token('B').address,
+      amountIn,
+      amountOut: amountIn / 2n,
+      fee: amountIn / 400n,
+      gasUsed: 150000n,
+      poolAddresses,
+      success: true,
+      timestamp,
+      ...overrides
+    };
+  }
+
+  describe('serialization', function() {
+    /**
+     * Property: bigints and Dates survive encodeValue/decodeValue at any depth
+     */
+    it('Property: tagged bigints and Dates round-trip at any depth', function() {
+      const leaf = fc.oneof(
+        fc.bigInt({ min: -(2n ** 255n), max: 2n ** 256n - 1n }),
+        fc.date({ min: new Date(0), max: new Date(8.64e15), noInvalidDate: true }),
+        fc.integer(),
+        fc.string(),
+        fc.boolean(),
+        fc.constant(null)
+      );
+      // Keys starting with '$' are reserved for the tags
+      const key = fc.string({ minLength: 1 }).filter(k => !k.startsWith('$') && k !== '__proto__');
+      const value = fc.letrec(tie => ({
+        node: fc.oneof({ maxDepth: 3 }, leaf, fc.array(tie('node'), { maxLength: 4 }), fc.dictionary(key, tie('node'), { maxKeys: 4 }))
+      })).node;
+
+      fc.assert(
+        fc.property(value, original => {
+          expect(decodeValue(encodeValue(original))).to.deep.equal(original);
+        }),
+        { numRuns: 200 }
+      );
+    });
+
+    it('should only decode tags that carry the expected value type', function() {
+      expect(decodeValue(encodeValue({ amount: 10n, at: new Date(5) }))).to.deep.equal({ amount: 10n, at: new Date(5) });
+      expect(decodeValue('{"$bigint":1}')).to.deep.equal({ $bigint: 1 });
+      expect(decodeValue('{"$date":"soon"}')).to.deep.equal({ $date: 'soon' });
+    });
+  });
+
+  function describeStore(name, available, createStore, reopenStore) {
+    describe(name, function() {
+      let store;
+
+      before(function() {
+        if (!available()) this.skip();
+      });
+
+      beforeEach(async function() {
+        store = createStore();
+        await store.initialize();
+      });
+
+      afterEach(async function() {
+        if (store) await store.close();
+      });
+
+      /**
+       * Property: snapshots come back whole, most recent first, and the latest per pool wins
+       */
+      it('Property: shard snapshots round-trip uint256 reserves and the latest per pool wins', async function() {
+        await fc.assert(
+          fc.asyncProperty(
+            fc.array(fc.tuple(poolAddress, fc.integer({ min: 1, max: 1e9 }), uint256), { minLength: 1, maxLength: 12 }),
+            async entries => {
+              await store.prune(Number.MAX_SAFE_INTEGER);
+              const saved = entries.map(([pool, timestamp, reserve]) => snapshot(pool, timestamp, reserve));
+              await store.saveShardSnapshots(saved);
+
+              const history = await store.getShardSnapshots({ chainId: 1 });
+              expect(history).to.have.length(saved.length);
+              expect(history.map(s => s.timestamp)).to.deep.equal(saved.map(s => s.timestamp).sort((a, b) => b - a));
+
+              const pool = entries[0][0];
+              const forPool = await store.getShardSnapshots({ poolAddress: pool });
+              expect(forPool.every(s => s.poolAddress === pool)).to.equal(true);
+              expect(forPool).to.have.length(saved.filter(s => s.poolAddress === pool).length);
+
+              const latest = await store.getLatestShardSnapshots(1);
+              const pools = new Set(saved.map(s => s.poolAddress));
+              expect(latest).to.have.length(pools.size);
+              for (const record of latest) {
+                const newest = Math.max(...saved.filter(s => s.poolAddress === record.poolAddress).map(s => s.timestamp));
+                expect(record.timestamp).to.equal(newest);
+                const match = saved.find(s => s.poolAddress === record.poolAddress && s.timestamp === newest && s.reserveA === record.reserveA);
+                expect(match).to.not.equal(undefined);
+                expect(record).to.deep.equal(match);
+              }
+            }
+          ),
+          { numRuns: 25 }
+        );
+      });
+
+      it('should filter trades by pool, source and time and apply the limit', async function() {
+        const [poolA, poolB] = ['0x' + 'a'.repeat(40), '0x' + 'b'.repeat(40)];
+        await store.recordTrade(trade([poolA], 1000, 2n ** 200n));
+        await store.recordTrade(trade([poolA, poolB], 2000, 4000n));
+        await store.recordTrade(trade([poolB], 3000, 6000n, { source: 'cross-pool-router', success: false, error: 'reverted' }));
+
+        const all = await store.getTrades();
+        expect(all.map(t => t.timestamp)).to.deep.equal([3000, 2000, 1000]);
+        expect(all[2].amountIn).to.equal(2n ** 200n);
+        expect(all[0]).to.include({ success: false, error: 'reverted' });
+
+        expect((await store.getTrades({ poolAddress: poolA.toUpperCase().replace('0X', '0x') })).map(t => t.timestamp)).to.deep.equal([2000, 1000]);
+        expect((await store.getTrades({ source: 'router' })).map(t => t.timestamp)).to.deep.equal([2000, 1000]);
+        expect((await store.getTrades({ since: 1500, until: 2500 })).map(t => t.timestamp)).to.deep.equal([2000]);
+        expect((await store.getTrades({ limit: 2 })).map(t => t.timestamp)).to.deep.equal([3000, 2000]);
+        expect((await store.getTrades({ limit: 1.7 })).map(t => t.timestamp)).to.deep.equal([3000]);
+        expect(await store.getTrades({ limit: -1 })).to.have.length(0);
+      });
+
+      it('should ignore a limit that is not a finite number', async function() {
+        await store.recordTrade(trade(['0x' + 'a'.repeat(40)], 1000, 1n));
+        await store.recordTrade(trade(['0x' + 'a'.repeat(40)], 2000, 2n));
+
+        for (const limit of [NaN, Infinity, -Infinity]) {
+          expect(await store.getTrades({ limit })).to.have.length(2);
+          expect(await store.getShardSnapshots({ limit })).to.have.length(0);
+        }
+      });
+
+      it('should store, replace, expire and clear cache entries', async function() {
+        const value = { amountIn: 2n ** 255n, at: new Date(1700000000000), path: ['0x1', '0x2'] };
+        await store.setCacheEntry('router:routing-cache', 'quote', value);
+        await store.setCacheEntry('router:routing-cache', 'stale', { n: 1n }, -1);
+        await store.setCacheEntry('pool:metrics', 'quote', { n: 2n }, 60000);
+
+        const entry = await store.getCacheEntry('router:routing-cache', 'quote');
+        expect(entry.value).to.deep.equal(value);
+        expect(entry.expiresAt).to.equal(null);
+        expect(await store.getCacheEntry('router:routing-cache', 'stale')).to.equal(null);
+        expect((await store.getCacheEntries('router:routing-cache')).map(e => e.key)).to.deep.equal(['quote']);
+
+        await store.setCacheEntry('router:routing-cache', 'quote', { replaced: true });
+        expect((await store.getCacheEntry('router:routing-cache', 'quote')).value).to.deep.equal({ replaced: true });
+
+        await store.deleteCacheEntry('router:routing-cache', 'quote');
+        expect(await store.getCacheEntry('router:routing-cache', 'quote')).to.equal(null);
+
+        await store.clearCacheNamespace('pool:metrics');
+        expect(await store.getCacheEntries('pool:metrics')).to.have.length(0);
+      });
+
+      it('should prune history older than the cutoff and expired cache entries', async function() {
+        const pool = '0x' + 'c'.repeat(40);
+        await store.saveShardSnapshots([snapshot(pool, 1000, 1n), snapshot(pool, 3000, 3n)]);
+        await store.recordTrade(trade([pool], 1000, 1n));
+        await store.recordTrade(trade([pool], 3000, 3n));
+        await store.setCacheEntry('ns', 'expired', 1, -1);
+        await store.setCacheEntry('ns', 'kept', 2);
+
+        await store.prune(2000);
+
+        expect((await store.getShardSnapshots()).map(s => s.timestamp)).to.deep.equal([3000]);
+        expect((await store.getTrades()).map(t => t.timestamp)).to.deep.equal([3000]);
+        expect((await store.getCacheEntries('ns')).map(e => e.key)).to.deep.equal(['kept']);
+      });
+
+      it('should warm the shard and routing caches of a restarted service', async function() {
+        const [poolA, poolB] = ['0x' + 'd'.repeat(40), '0x' + 'e'.repeat(40)];
+        await store.saveShardSnapshots([
+          snapshot(poolA, 1000, 10n),
+          snapshot(poolA, 2000, 2n ** 128n),
+          snapshot(poolB, 1500, 5n),
+          snapshot(poolB, 2500, 7n, 2)
+        ]);
+        const routing = { poolAddress: poolA, expectedAmountIn: 1234n, quotedAt: new Date(2000) };
+        await store.setCacheEntry('router:routing-cache', 'A-B-100', routing, 60000);
+        await store.setCacheEntry('router:routing-cache', 'A-B-expired', routing, -1);
+        await store.setCacheEntry('router:stats', '1', { totalRequests: 3, totalVolume: 10n ** 30n });
+
+        store = await reopenStore(store);
+
+        const warmed = await warmCaches(store, 1);
+        expect([...warmed.shards.keys()].sort()).to.deep.equal([poolA, poolB]);
+        expect(warmed.shards.get(poolA).reserveA).to.equal(2n ** 128n);
+        expect(warmed.shards.get(poolB).timestamp).to.equal(1500);
+        expect([...warmed.routingCache.keys()]).to.deep.equal(['A-B-100']);
+        expect(warmed.routingCache.get('A-B-100').result).to.deep.equal(routing);
+        expect(warmed.stats).to.deep.equal({ totalRequests: 3, totalVolume: 10n ** 30n });
+      });
+    });
+  }
+
+  // The in-memory store lives as long as the process, so a restarted service reads the same instance
+  describeStore('InMemoryPersistenceStore', () => true, () => new InMemoryStoreMirror(), async store => store);
+
+  let tempDir;
+  let databases = 0;
+
+  describeStore(
+    'SQLitePersistenceStore',
+    () => Database !== null,
+    () => {
+      tempDir = tempDir || fs.mkdtempSync(path.join(os.tmpdir(), 'samm-persistence-'));
+      return new SQLiteStoreMirror(path.join(tempDir, `store-${++databases}.db`));
+    },
+    // Closing and reopening the file stands in for a process restart
+    async store => {
+      await store.close();
+      const reopened = new SQLiteStoreMirror(store.filename);
+      await reopened.initialize();
+      return reopened;
+    }
+  );
+
+  after(function() {
+    if (tempDir) fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+});
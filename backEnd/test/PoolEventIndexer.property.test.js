@@ -0,0 +1,360 @@
+/**
+ * Property-Based Tests for the SAMMPool event indexer
+ *
+ * The indexer is a TypeScript module, so PoolEventIndexer's paginated log
+ * reads and rolling-window aggregation are mirrored below and run against a
+ * live SAMMPool. The properties check that the aggregates match the swaps and
+ * liquidity changes that were executed, that the result does not depend on
+ * the getLogs page size, and that events leave the window after 24 hours.
+ */
+
+const { expect } = require('chai');
+const fc = require('fast-check');
+const { ethers, network } = require('hardhat');
+
+describe('Pool Event Indexer Property Tests', function () {
+  const WINDOW_MS = 24 * 60 * 60 * 1000;
+  const SAMM_POOL_EVENTS_ABI = [
+    'event SwapSAMM(address indexed user, address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut, uint256 fee)',
+    'event LiquidityAdded(address indexed provider, uint256 amountA, uint256 amountB, uint256 lpTokens)',
+    'event LiquidityRemoved(address indexed provider, uint256 amountA, uint256 amountB, uint256 lpTokens)'
+  ];
+
+  const eventInterface = new ethers.Interface(SAMM_POOL_EVENTS_ABI);
+  const eventTopics = ['SwapSAMM', 'LiquidityAdded', 'LiquidityRemoved']
+    .map(name => eventInterface.getEvent(name).topicHash);
+
+  let owner;
+  let trader;
+  let tokenA;
+  let tokenB;
+  let pool;
+  let poolAddress;
+  let tokenAAddress;
+  let tokenBAddress;
+
+  // Mirror of PoolEventIndexer.indexNewBlocks / parseLog
+  async function indexEvents(fromBlock, toBlock, blockRange) {
+    const events = [];
+    const blockTimestamps = new Map();
+    let range = blockRange;
+
+    while (fromBlock <= toBlock) {
+      const pageEnd = Math.min(fromBlock + range - 1, toBlock);
+      const logs = await ethers.provider.getLogs({
+        address: poolAddress,
+        topics: [eventTopics],
+        fromBlock,
+        toBlock: pageEnd
+      });
+
+      for (const log of logs) {
+        const parsed = eventInterface.parseLog({ topics: [...log.topics], data: log.data });
+        if (!parsed) continue;
+
+        if (!blockTimestamps.has(log.blockNumber)) {
+          const block = await ethers.provider.getBlock(log.blockNumber);
+          blockTimestamps.set(log.blockNumber, block.timestamp * 1000);
+        }
+        const base = { blockNumber: log.blockNumber, timestamp: blockTimestamps.get(log.blockNumber) };
+
+        if (parsed.name === 'SwapSAMM') {
+          events.push({
+            ...base,
+            type: 'swap',
+            user: parsed.args.user.toLowerCase(),
+            tokenIn: parsed.args.tokenIn.toLowerCase(),
+            amountIn: parsed.args.amountIn,
+            amountOut: parsed.args.amountOut,
+            fee: parsed.args.fee
+          });
+        } else {
+          events.push({
+            ...base,
+            type: parsed.name === 'LiquidityAdded' ? 'mint' : 'burn',
+            amountA: parsed.args.amountA,
+            amountB: parsed.args.amountB
+          });
+        }
+      }
+
+      fromBlock = pageEnd + 1;
+    }
+
+    return events;
+  }
+
+  // Mirror of PoolEventIndexer.getShardMetrics
+  function aggregate(events, windowStart) {
+    const metrics = {
+      swapCount: 0,
+      mintCount: 0,
+      burnCount: 0,
+      volumeTokenA: 0n,
+      volumeTokenB: 0n,
+      feesTokenA: 0n,
+      feesTokenB: 0n,
+      liquidityAdded: { tokenA: 0n, tokenB: 0n },
+      liquidityRemoved: { tokenA: 0n, tokenB: 0n }
+    };
+    const traders = new Set();
+
+    for (const event of events) {
+      if (event.timestamp < windowStart) continue;
+
+      if (event.type === 'swap') {
+        metrics.swapCount++;
+        traders.add(event.user);
+
+        if (event.tokenIn === tokenAAddress.toLowerCase()) {
+          metrics.volumeTokenA += event.amountIn;
+          metrics.volumeTokenB += event.amountOut;
+          metrics.feesTokenA += event.fee;
+        } else {
+          metrics.volumeTokenB += event.amountIn;
+          metrics.volumeTokenA += event.amountOut;
+          metrics.feesTokenB += event.fee;
+        }
+      } else {
+        const totals = event.type === 'mint' ? metrics.liquidityAdded : metrics.liquidityRemoved;
+        totals.tokenA += event.amountA;
+        totals.tokenB += event.amountB;
+        if (event.type === 'mint') {
+          metrics.mintCount++;
+        } else {
+          metrics.burnCount++;
+        }
+      }
+    }
+
+    metrics.uniqueTraders = traders.size;
+    return metrics;
+  }
+
+  function emptyTally() {
+    return {
+      swapCount: 0,
+      mintCount: 0,
+      burnCount: 0,
+      volumeTokenA: 0n,
+      volumeTokenB: 0n,
+      feesTokenA: 0n,
+      feesTokenB: 0n,
+      liquidityAdded: { tokenA: 0n, tokenB: 0n },
+      liquidityRemoved: { tokenA: 0n, tokenB: 0n },
+      traders: new Set()
+    };
+  }
+
+  /**
+   * Execute one action and add its expected effect to the tally
+   * Amounts are quoted with calculateSwapSAMM / staticCall right before execution.
+   */
+  async function execute(action, tally) {
+    const signer = action.bySecondAccount ? trader : owner;
+    const connected = pool.connect(signer);
+
+    if (action.kind === 'swap') {
+      const aToB = action.direction === 'AtoB';
+      const tokenIn = aToB ? tokenAAddress : tokenBAddress;
+      const tokenOut = aToB ? tokenBAddress : tokenAAddress;
+      const amountOut = aToB
+        ? ethers.parseUnits(action.amount.toString(), 6)
+        : ethers.parseUnits(action.amount.toString(), 18);
+
+      const quote = await pool.calculateSwapSAMM(amountOut, tokenIn, tokenOut);
+      await connected.swapSAMM(amountOut, quote.amountIn, tokenIn, tokenOut, signer.address);
+
+      tally.swapCount++;
+      tally.traders.add(signer.address.toLowerCase());
+      if (aToB) {
+        tally.volumeTokenA += quote.amountIn;
+        tally.volumeTokenB += amountOut;
+        tally.feesTokenA += quote.tradeFee;
+      } else {
+        tally.volumeTokenB += quote.amountIn;
+        tally.volumeTokenA += amountOut;
+        tally.feesTokenB += quote.tradeFee;
+      }
+      return;
+    }
+
+    if (action.kind === 'add') {
+      const amountA = ethers.parseUnits(action.amount.toString(), 18);
+      const amountB = ethers.parseUnits((action.amount * 2).toString(), 6);
+      const [addedA, addedB] = await connected.addLiquidity.staticCall(amountA, amountB, 0, 0, signer.address);
+      await connected.addLiquidity(amountA, amountB, 0, 0, signer.address);
+
+      tally.mintCount++;
+      tally.liquidityAdded.tokenA += addedA;
+      tally.liquidityAdded.tokenB += addedB;
+      return;
+    }
+
+    const lpBalance = await pool.balanceOf(signer.address);
+    const liquidity = lpBalance / BigInt(action.fraction);
+    if (liquidity === 0n) return;
+
+    const [removedA, removedB] = await connected.removeLiquidity.staticCall(liquidity, 0, 0, signer.address);
+    await connected.removeLiquidity(liquidity, 0, 0, signer.address);
+
+    tally.burnCount++;
+    tally.liquidityRemoved.tokenA += removedA;
+    tally.liquidityRemoved.tokenB += removedB;
+  }
+
+  const actionArbitrary = fc.oneof(
+    fc.record({
+      kind: fc.constant('swap'),
+      direction: fc.constantFrom('AtoB', 'BtoA'),
+      amount: fc.integer({ min: 1, max: 500 }),
+      bySecondAccount: fc.boolean()
+    }),
+    fc.record({
+      kind: fc.constant('add'),
+      amount: fc.integer({ min: 1, max: 5000 }),
+      bySecondAccount: fc.boolean()
+    }),
+    fc.record({
+      kind: fc.constant('remove'),
+      fraction: fc.integer({ min: 2, max: 20 }),
+      bySecondAccount: fc.boolean()
+    })
+  );
+
+  before(async function () {
+    [owner, trader] = await ethers.getSigners();
+
+    const MockERC20 = await ethers.getContractFactory('MockERC20');
+    tokenA = await MockERC20.deploy('Token A', 'TKNA', 18);
+    tokenB = await MockERC20.deploy('Token B', 'TKNB', 6);
+    tokenAAddress = await tokenA.getAddress();
+    tokenBAddress = await tokenB.getAddress();
+
+    const SAMMPool = await ethers.getContractFactory('SAMMPool');
+    pool = await SAMMPool.deploy(tokenAAddress, tokenBAddress, 'SAMM Pool A-B', 'SAMM-AB');
+    poolAddress = await pool.getAddress();
+
+    for (const signer of [owner, trader]) {
+      await tokenA.mint(signer.address, ethers.parseUnits('10000000', 18));
+      await tokenB.mint(signer.address, ethers.parseUnits('10000000', 6));
+      await tokenA.connect(signer).approve(poolAddress, ethers.MaxUint256);
+      await tokenB.connect(signer).approve(poolAddress, ethers.MaxUint256);
+    }
+
+    await pool.initialize(
+      tokenAAddress,
+      tokenBAddress,
+      ethers.parseUnits('200000', 18),
+      ethers.parseUnits('400000', 6),
+      25,
+      10000,
+      5,
+      10000
+    );
+  });
+
+  /**
+   * Property: aggregates equal the executed activity, for any getLogs page size
+   */
+  it('Property: window aggregates match executed swaps and liquidity changes', async function () {
+    this.timeout(300000);
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(actionArbitrary, { minLength: 1, maxLength: 8 }),
+        fc.integer({ min: 1, max: 5 }),
+        async (actions, blockRange) => {
+          const snapshotId = await network.provider.send('evm_snapshot');
+          try {
+            const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+            const tally = emptyTally();
+
+            for (const action of actions) {
+              await execute(action, tally);
+            }
+
+            const toBlock = await ethers.provider.getBlockNumber();
+            const latest = await ethers.provider.getBlock(toBlock);
+            const windowStart = latest.timestamp * 1000 - WINDOW_MS;
+
+            const paged = await indexEvents(fromBlock, toBlock, blockRange);
+            const single = await indexEvents(fromBlock, toBlock, toBlock - fromBlock + 1);
+            expect(paged).to.deep.equal(single);
+
+            const metrics = aggregate(paged, windowStart);
+            expect(metrics.swapCount).to.equal(tally.swapCount);
+            expect(metrics.mintCount).to.equal(tally.mintCount);
+            expect(metrics.burnCount).to.equal(tally.burnCount);
+            expect(metrics.uniqueTraders).to.equal(tally.traders.size);
+            expect(metrics.volumeTokenA).to.equal(tally.volumeTokenA);
+            expect(metrics.volumeTokenB).to.equal(tally.volumeTokenB);
+            expect(metrics.feesTokenA).to.equal(tally.feesTokenA);
+            expect(metrics.feesTokenB).to.equal(tally.feesTokenB);
+            expect(metrics.liquidityAdded).to.deep.equal(tally.liquidityAdded);
+            expect(metrics.liquidityRemoved).to.deep.equal(tally.liquidityRemoved);
+          } finally {
+            await network.provider.send('evm_revert', [snapshotId]);
+          }
+        }
+      ),
+      { numRuns: 15 }
+    );
+  });
+
+  /**
+   * Property: events older than the window are excluded from the aggregates
+   */
+  it('Property: events drop out of the rolling window after 24 hours', async function () {
+    this.timeout(300000);
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(actionArbitrary, { minLength: 1, maxLength: 4 }),
+        fc.array(actionArbitrary, { minLength: 1, maxLength: 4 }),
+        async (oldActions, recentActions) => {
+          const snapshotId = await network.provider.send('evm_snapshot');
+          try {
+            const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+            const oldTally = emptyTally();
+            const recentTally = emptyTally();
+
+            for (const action of oldActions) {
+              await execute(action, oldTally);
+            }
+
+            await network.provider.send('evm_increaseTime', [WINDOW_MS / 1000 + 60]);
+            await network.provider.send('evm_mine');
+
+            for (const action of recentActions) {
+              await execute(action, recentTally);
+            }
+
+            const toBlock = await ethers.provider.getBlockNumber();
+            const latest = await ethers.provider.getBlock(toBlock);
+            const events = await indexEvents(fromBlock, toBlock, 3);
+            const metrics = aggregate(events, latest.timestamp * 1000 - WINDOW_MS);
+
+            expect(metrics.swapCount).to.equal(recentTally.swapCount);
+            expect(metrics.mintCount).to.equal(recentTally.mintCount);
+            expect(metrics.burnCount).to.equal(recentTally.burnCount);
+            expect(metrics.volumeTokenA).to.equal(recentTally.volumeTokenA);
+            expect(metrics.volumeTokenB).to.equal(recentTally.volumeTokenB);
+            expect(metrics.feesTokenA).to.equal(recentTally.feesTokenA);
+            expect(metrics.feesTokenB).to.equal(recentTally.feesTokenB);
+            expect(metrics.liquidityAdded).to.deep.equal(recentTally.liquidityAdded);
+            expect(metrics.liquidityRemoved).to.deep.equal(recentTally.liquidityRemoved);
+
+            // The full history is still readable from the chain
+            const everything = aggregate(events, 0);
+            expect(everything.swapCount).to.equal(oldTally.swapCount + recentTally.swapCount);
+            expect(everything.volumeTokenA).to.equal(oldTally.volumeTokenA + recentTally.volumeTokenA);
+          } finally {
+            await network.provider.send('evm_revert', [snapshotId]);
+          }
+        }
+      ),
+      { numRuns: 10 }
+    );
+  });
+});
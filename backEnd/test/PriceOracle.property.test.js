@@ -0,0 +1,277 @@
+/**
+ * Property-Based Tests for the pool-implied TWAP price oracle
+ *
+ * The oracle is a TypeScript module, so PoolTwapPriceOracle's spot ratio and
+ * TWAP are mirrored below and fed with the reserves of deployed SAMMPool
+ * shards. The properties check that the price is the depth-weighted ratio of
+ * the deepest shards with decimals normalized, that thin shards cannot move
+ * it, that a swap moves the TWAP only for the time its price holds, and that
+ * gaps between observations do not count towards the window's coverage.
+ */
+
+const { expect } = require('chai');
+const fc = require('fast-check');
+const { ethers, network } = require('hardhat');
+
+describe('Price Oracle Property Tests', function () {
+  const MAX_SHARDS = 3;
+  const TWAP_WINDOW_MS = 30 * 60 * 1000;
+  const OBSERVATION_INTERVAL_MS = 60 * 1000;
+  const MAX_OBSERVATION_GAP_INTERVALS = 2;
+  const MIN_COVERAGE = 0.5;
+
+  let owner;
+  let token;
+  let reference;
+  let tokenAddress;
+  let referenceAddress;
+
+  // Mirror of PoolTwapPriceOracle.calculateSpotRatio
+  function calculateSpotRatio(shards) {
+    const sides = shards
+      .filter(shard => {
+        const pair = [shard.tokenA.toLowerCase(), shard.tokenB.toLowerCase()];
+        return pair.includes(tokenAddress.toLowerCase()) && pair.includes(referenceAddress.toLowerCase());
+      })
+      .map(shard => {
+        const tokenIsA = shard.tokenA.toLowerCase() === tokenAddress.toLowerCase();
+        return {
+          tokenReserve: Number(ethers.formatUnits(tokenIsA ? shard.reserveA : shard.reserveB, tokenIsA ? shard.decimalsA : shard.decimalsB)),
+          referenceReserve: Number(ethers.formatUnits(tokenIsA ? shard.reserveB : shard.reserveA, tokenIsA ? shard.decimalsB : shard.decimalsA))
+        };
+      })
+      .filter(side => side.tokenReserve > 0 && side.referenceReserve > 0)
+      .sort((a, b) => b.referenceReserve - a.referenceReserve)
+      .slice(0, MAX_SHARDS);
+
+    if (sides.length === 0) return null;
+
+    const tokenTotal = sides.reduce((sum, side) => sum + side.tokenReserve, 0);
+    const referenceTotal = sides.reduce((sum, side) => sum + side.referenceReserve, 0);
+    return { ratio: referenceTotal / tokenTotal, sides };
+  }
+
+  // Mirror of PoolTwapPriceOracle.calculateTwap
+  function calculateTwap(observations, now) {
+    const windowStart = now - TWAP_WINDOW_MS;
+    let weightedSum = 0;
+    let totalTime = 0;
+
+    for (let i = 0; i < observations.length; i++) {
+      const start = Math.max(observations[i].timestamp, windowStart);
+      const end = i + 1 < observations.length ? observations[i + 1].timestamp : now;
+      if (end <= start) continue;
+
+      weightedSum += observations[i].ratio * (end - start);
+      totalTime += end - start;
+    }
+
+    return totalTime > 0 ? weightedSum / totalTime : observations[observations.length - 1].ratio;
+  }
+
+  // Mirror of PoolTwapPriceOracle.calculateCoverage
+  function calculateCoverage(observations, now) {
+    const windowStart = now - TWAP_WINDOW_MS;
+    const maxGap = MAX_OBSERVATION_GAP_INTERVALS * OBSERVATION_INTERVAL_MS;
+    let covered = 0;
+
+    for (let i = 0; i < observations.length; i++) {
+      const end = i + 1 < observations.length ? observations[i + 1].timestamp : now;
+      const start = Math.max(observations[i].timestamp, end - maxGap, windowStart);
+      if (end > start) covered += end - start;
+    }
+
+    return covered;
+  }
+
+  /**
+   * Deploy a shard; `tokenFirst` decides whether the priced token is token A
+   */
+  async function deployShard(tokenReserve, referenceReserve, tokenFirst) {
+    const SAMMPool = await ethers.getContractFactory('SAMMPool');
+    const [tokenA, tokenB] = tokenFirst ? [token, reference] : [reference, token];
+    const [amountA, amountB] = tokenFirst
+      ? [ethers.parseUnits(tokenReserve.toString(), 18), ethers.parseUnits(referenceReserve.toString(), 6)]
+      : [ethers.parseUnits(referenceReserve.toString(), 6), ethers.parseUnits(tokenReserve.toString(), 18)];
+
+    const pool = await SAMMPool.deploy(await tokenA.getAddress(), await tokenB.getAddress(), 'SAMM Pool', 'SAMM-LP');
+    await tokenA.approve(await pool.getAddress(), ethers.MaxUint256);
+    await tokenB.approve(await pool.getAddress(), ethers.MaxUint256);
+    await pool.initialize(await tokenA.getAddress(), await tokenB.getAddress(), amountA, amountB, 25, 10000, 5, 10000);
+    return pool;
+  }
+
+  // Mirror of PoolAnalysisService.getShardReserves for one shard
+  async function readShardReserves(pool) {
+    const [reserveA, reserveB] = await pool.getReserves();
+    const tokenA = await pool.tokenA();
+    const tokenB = await pool.tokenB();
+    const tokenIsA = tokenA.toLowerCase() === tokenAddress.toLowerCase();
+
+    return {
+      poolAddress: await pool.getAddress(),
+      tokenA,
+      tokenB,
+      reserveA,
+      reserveB,
+      decimalsA: tokenIsA ? 18 : 6,
+      decimalsB: tokenIsA ? 6 : 18
+    };
+  }
+
+  const shardArbitrary = fc.record({
+    tokenReserve: fc.integer({ min: 100, max: 100000 }),
+    price: fc.integer({ min: 1, max: 5000 }),
+    tokenFirst: fc.boolean()
+  });
+
+  before(async function () {
+    [owner] = await ethers.getSigners();
+
+    const MockERC20 = await ethers.getContractFactory('MockERC20');
+    token = await MockERC20.deploy('Wrapped Ether', 'WETH', 18);
+    reference = await MockERC20.deploy('USD Coin', 'USDC', 6);
+    tokenAddress = await token.getAddress();
+    referenceAddress = await reference.getAddress();
+
+    await token.mint(owner.address, ethers.parseUnits('1000000000', 18));
+    await reference.mint(owner.address, ethers.parseUnits('1000000000000', 6));
+  });
+
+  /**
+   * Property: the spot ratio is the depth-weighted price of the deepest shards
+   */
+  it('Property: spot ratio weights the deepest shards by depth across token orderings', async function () {
+    this.timeout(300000);
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(shardArbitrary, { minLength: 1, maxLength: 5 }),
+        async (shardSpecs) => {
+          const snapshotId = await network.provider.send('evm_snapshot');
+          try {
+            const shards = [];
+            for (const spec of shardSpecs) {
+              const pool = await deployShard(spec.tokenReserve, spec.tokenReserve * spec.price, spec.tokenFirst);
+              shards.push(await readShardReserves(pool));
+            }
+
+            const spot = calculateSpotRatio(shards);
+            expect(spot).to.not.be.null;
+            expect(spot.sides.length).to.equal(Math.min(MAX_SHARDS, shardSpecs.length));
+
+            // The ratio is bounded by the prices of the shards it uses
+            const used = spot.sides.map(side => side.referenceReserve / side.tokenReserve);
+            expect(spot.ratio).to.be.at.least(Math.min(...used) * (1 - 1e-9));
+            expect(spot.ratio).to.be.at.most(Math.max(...used) * (1 + 1e-9));
+
+            // Shards beyond the deepest MAX_SHARDS are ignored
+            const depths = shardSpecs.map(spec => spec.tokenReserve * spec.price).sort((a, b) => b - a);
+            const usedDepth = spot.sides.reduce((sum, side) => sum + side.referenceReserve, 0);
+            const expectedDepth = depths.slice(0, MAX_SHARDS).reduce((sum, depth) => sum + depth, 0);
+            expect(usedDepth).to.be.closeTo(expectedDepth, expectedDepth * 1e-9);
+
+            // Uniformly priced shards give exactly that price, whatever the token order and decimals
+            if (shardSpecs.every(spec => spec.price === shardSpecs[0].price)) {
+              expect(spot.ratio).to.be.closeTo(shardSpecs[0].price, shardSpecs[0].price * 1e-9);
+            }
+          } finally {
+            await network.provider.send('evm_revert', [snapshotId]);
+          }
+        }
+      ),
+      { numRuns: 15 }
+    );
+  });
+
+  /**
+   * Property: a swap moves the TWAP in proportion to how long its price holds
+   */
+  it('Property: TWAP weights post-swap prices by the time they hold', async function () {
+    this.timeout(300000);
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1000, max: 100000 }),
+        fc.integer({ min: 1, max: 5000 }),
+        fc.integer({ min: 1, max: 99 }),
+        fc.integer({ min: 1, max: 29 }),
+        async (tokenReserve, price, buyPercent, minutesSinceSwap) => {
+          const snapshotId = await network.provider.send('evm_snapshot');
+          try {
+            const pool = await deployShard(tokenReserve, tokenReserve * price, true);
+            const before = calculateSpotRatio([await readShardReserves(pool)]).ratio;
+
+            // Buy up to 10% of the priced token out of the shard, within the c-threshold
+            const [, , , c] = await pool.getSAMMParams();
+            const cBound = (ethers.parseUnits((tokenReserve * price).toString(), 18) * c) / 1000000n;
+            const reserveBound = ethers.parseUnits(tokenReserve.toString(), 18) / 10n;
+            const maxOut = cBound < reserveBound ? cBound : reserveBound;
+            const amountOut = (maxOut * BigInt(buyPercent)) / 100n;
+            if (amountOut === 0n) return;
+
+            await pool.swapSAMM(amountOut, ethers.MaxUint256, referenceAddress, tokenAddress, owner.address);
+            const after = calculateSpotRatio([await readShardReserves(pool)]).ratio;
+            expect(after).to.be.greaterThan(before);
+
+            const start = 1_700_000_000_000;
+            const swapAt = start + (30 - minutesSinceSwap) * 60 * 1000;
+            const now = start + 30 * 60 * 1000;
+            const twap = calculateTwap(
+              [{ timestamp: start, ratio: before }, { timestamp: swapAt, ratio: after }],
+              now
+            );
+
+            const weight = minutesSinceSwap / 30;
+            expect(twap).to.be.closeTo(before * (1 - weight) + after * weight, after * 1e-9);
+            expect(twap).to.be.greaterThan(before);
+            expect(twap).to.be.lessThan(after);
+          } finally {
+            await network.provider.send('evm_revert', [snapshotId]);
+          }
+        }
+      ),
+      { numRuns: 15 }
+    );
+  });
+
+  /**
+   * Property: only observed time counts as coverage, so a single reading or a
+   * pair sampled after a gap gets no price
+   */
+  it('Property: coverage counts observed time and excludes gaps', async function () {
+    await fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 60 }),
+        fc.integer({ min: 0, max: 30 }),
+        (samples, gapMinutes) => {
+          const now = 1_700_000_000_000;
+
+          // One observation per interval up to now, with no observations for `gapMinutes` before the last
+          const observations = [];
+          for (let i = samples - 1; i >= 0; i--) {
+            const timestamp = now - (i === 0 ? 0 : i * OBSERVATION_INTERVAL_MS + gapMinutes * 60 * 1000);
+            observations.push({ timestamp, ratio: 1 });
+          }
+
+          const coverage = calculateCoverage(observations, now);
+          expect(coverage).to.be.at.most(TWAP_WINDOW_MS);
+
+          if (samples === 1) {
+            // A single spot reading covers nothing
+            expect(coverage).to.equal(0);
+          } else if (observations[0].timestamp >= now - TWAP_WINDOW_MS) {
+            // The gap before the last observation counts for at most two intervals
+            const gap = Math.min(OBSERVATION_INTERVAL_MS + gapMinutes * 60 * 1000, MAX_OBSERVATION_GAP_INTERVALS * OBSERVATION_INTERVAL_MS);
+            expect(coverage).to.equal((samples - 2) * OBSERVATION_INTERVAL_MS + gap);
+          }
+
+          if (gapMinutes === 0 && samples > TWAP_WINDOW_MS / OBSERVATION_INTERVAL_MS) {
+            expect(coverage).to.be.at.least(MIN_COVERAGE * TWAP_WINDOW_MS);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
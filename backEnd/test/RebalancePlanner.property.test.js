@@ -0,0 +1,208 @@
+const { expect } = require('chai');
+const fc = require('fast-check');
+
+/**
+ * Property-Based Tests for the liquidity router's rebalance planner
+ *
+ * RebalancePlanner is a TypeScript module, so its fee share, greedy slice
+ * allocation and LP withdrawal sizing are mirrored below. The properties check
+ * that a shard only ever gives or receives liquidity, that a plan never burns
+ * more LP tokens than the LP holds, and that a plan with moves always earns at
+ * least the fees of the current allocation.
+ */
+
+describe('Rebalance Planner Property Tests', function() {
+  this.timeout(30000);
+
+  const PLAN_STEPS = 20;
+  const MIN_SLICE_GAIN = 1e-9;
+  const LP_FRACTION_PRECISION = 1_000_000_000;
+
+  function feeShare(shard, position, poolValue) {
+    return poolValue > 0 ? shard.fees24h * position / poolValue : 0;
+  }
+
+  function dailyFees(shards) {
+    return shards.reduce(
+      (sum, shard) => sum + feeShare(shard, shard.positionValue + shard.delta, shard.poolValue + shard.delta),
+      0
+    );
+  }
+
+  // Mirror of toShardStates for shards described by pool value, fees, supply and the LP's tokens
+  function toShardStates(pools) {
+    return pools.map(pool => ({
+      ...pool,
+      positionValue: pool.totalSupply > 0n ? pool.poolValue * Number(pool.lpTokens) / Number(pool.totalSupply) : 0,
+      delta: 0
+    }));
+  }
+
+  // Mirror of allocate
+  function allocate(shards, slice) {
+    const transfers = [];
+    const maxSlices = PLAN_STEPS * shards.length;
+
+    for (let i = 0; i < maxSlices; i++) {
+      let best = null;
+
+      for (const from of shards) {
+        if (from.delta > 0) continue;
+        const position = from.positionValue + from.delta;
+        const amount = Math.min(slice, position);
+        if (amount <= 0) continue;
+
+        const poolValue = from.poolValue + from.delta;
+        const loss = feeShare(from, position, poolValue) - feeShare(from, position - amount, poolValue - amount);
+
+        for (const to of shards) {
+          if (to === from || to.delta < 0) continue;
+          const toPosition = to.positionValue + to.delta;
+          const toPoolValue = to.poolValue + to.delta;
+          const gain = feeShare(to, toPosition + amount, toPoolValue + amount) - feeShare(to, toPosition, toPoolValue) - loss;
+          if (!best || gain > best.gain) {
+            best = { from, to, amount, gain };
+          }
+        }
+      }
+
+      if (!best || best.gain <= best.amount * MIN_SLICE_GAIN) break;
+
+      best.from.delta -= best.amount;
+      best.to.delta += best.amount;
+      const existing = transfers.find(t => t.from === best.from && t.to === best.to);
+      if (existing) {
+        existing.value += best.amount;
+      } else {
+        transfers.push({ from: best.from, to: best.to, value: best.amount });
+      }
+    }
+
+    return transfers;
+  }
+
+  // Mirror of the LP token sizing in buildMoves
+  function lpWithdrawals(shards, transfers) {
+    const remainingLp = new Map(shards.map(shard => [shard, shard.lpTokens]));
+    const withdrawals = [];
+
+    for (const { from, value } of transfers) {
+      const available = remainingLp.get(from);
+      const fraction = Math.min(1, value / from.positionValue);
+      const share = from.lpTokens * BigInt(Math.round(fraction * LP_FRACTION_PRECISION)) / BigInt(LP_FRACTION_PRECISION);
+      const lpTokens = fraction >= 1 - 1 / LP_FRACTION_PRECISION || share > available ? available : share;
+      if (lpTokens === 0n) continue;
+      remainingLp.set(from, available - lpTokens);
+      withdrawals.push({ from, lpTokens });
+    }
+
+    return withdrawals;
+  }
+
+  function plan(pools) {
+    const shards = toShardStates(pools);
+    const totalValue = shards.reduce((sum, shard) => sum + shard.positionValue, 0);
+    const currentDailyFees = dailyFees(shards);
+    const transfers = totalValue > 0 ? allocate(shards, totalValue / PLAN_STEPS) : [];
+    return { shards, transfers, currentDailyFees, projectedDailyFees: dailyFees(shards) };
+  }
+
+  const poolArb = fc.record({
+    poolValue: fc.double({ min: 1000, max: 1e9, noNaN: true }),
+    fees24h: fc.double({ min: 0, max: 1e6, noNaN: true }),
+    totalSupply: fc.bigInt({ min: 10n ** 18n, max: 10n ** 27n }),
+    lpShare: fc.integer({ min: 0, max: 1000 })
+  }).map(({ lpShare, ...pool }) => ({ ...pool, lpTokens: pool.totalSupply * BigInt(lpShare) / 1000n }));
+
+  const poolsArb = fc.array(poolArb, { minLength: 1, maxLength: 6 });
+
+  /**
+   * Property: every move withdraws from a giving shard into a receiving one
+   */
+  it('Property: a shard either gives or receives liquidity, never both', function() {
+    fc.assert(
+      fc.property(poolsArb, (pools) => {
+        const { shards, transfers } = plan(pools);
+
+        for (const transfer of transfers) {
+          expect(transfer.from).to.not.equal(transfer.to);
+          expect(transfer.from.delta <= 0).to.equal(true);
+          expect(transfer.to.delta >= 0).to.equal(true);
+          expect(transfer.value).to.be.greaterThan(0);
+        }
+
+        // Value is only moved, never created
+        const moved = shards.reduce((sum, shard) => sum + shard.delta, 0);
+        const total = shards.reduce((sum, shard) => sum + shard.positionValue, 0);
+        expect(Math.abs(moved)).to.be.at.most(total * 1e-9 + 1e-9);
+      }),
+      { numRuns: 300 }
+    );
+  });
+
+  /**
+   * Property: LP tokens burned from a shard never exceed the LP's balance there
+   */
+  it('Property: withdrawals never burn more LP tokens than the LP holds', function() {
+    fc.assert(
+      fc.property(poolsArb, (pools) => {
+        const { shards, transfers } = plan(pools);
+        const withdrawals = lpWithdrawals(shards, transfers);
+
+        for (const shard of shards) {
+          const burned = withdrawals
+            .filter(withdrawal => withdrawal.from === shard)
+            .reduce((sum, withdrawal) => sum + withdrawal.lpTokens, 0n);
+          expect(burned <= shard.lpTokens).to.equal(true);
+          if (burned > 0n) {
+            expect(shard.lpTokens > 0n).to.equal(true);
+          }
+        }
+      }),
+      { numRuns: 300 }
+    );
+  });
+
+  /**
+   * Property: the planned allocation earns at least the current fees
+   */
+  it('Property: a plan with moves never lowers expected daily fees', function() {
+    fc.assert(
+      fc.property(poolsArb, (pools) => {
+        const { transfers, currentDailyFees, projectedDailyFees } = plan(pools);
+
+        if (transfers.length > 0) {
+          expect(projectedDailyFees).to.be.at.least(currentDailyFees - Math.abs(currentDailyFees) * 1e-9);
+        } else {
+          expect(projectedDailyFees).to.equal(currentDailyFees);
+        }
+      }),
+      { numRuns: 300 }
+    );
+  });
+
+  /**
+   * Property: without fees there is nothing to gain and nothing moves
+   */
+  it('Property: no moves are planned when no shard earned fees', function() {
+    fc.assert(
+      fc.property(poolsArb, (pools) => {
+        const { transfers } = plan(pools.map(pool => ({ ...pool, fees24h: 0 })));
+        expect(transfers).to.have.length(0);
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('moves liquidity from a large idle shard into a small busy one', function() {
+    const large = { poolValue: 1_000_000, fees24h: 100, totalSupply: 10n ** 24n, lpTokens: 10n ** 22n };
+    const small = { poolValue: 10_000, fees24h: 100, totalSupply: 10n ** 22n, lpTokens: 0n };
+
+    const { shards, transfers, currentDailyFees, projectedDailyFees } = plan([large, small]);
+
+    expect(transfers).to.have.length(1);
+    expect(transfers[0].from).to.equal(shards[0]);
+    expect(transfers[0].to).to.equal(shards[1]);
+    expect(projectedDailyFees).to.be.greaterThan(currentDailyFees);
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Property-Based Tests for split-order routing in TradeRoutingService
+ *
+ * **Feature: samm-deployment, Property 10: C-threshold validation**
+ * **Validates: Requirements 2.1, 2.3**
+ *
+ * The service is a TypeScript module, so TradeRoutingService.findSplitRoute is
+ * mirrored below and run against several SAMMPool shards of the same pair. The
+ * properties check that every slice respects its shard's c-threshold, that the
+ * slices add up to the order, and that the quoted inputs are charged on-chain.
+ */
+
+const { expect } = require('chai');
+const fc = require('fast-check');
+const { ethers, network } = require('hardhat');
+
+describe('Router Split Routing Property Tests', function () {
+  const SCALE_FACTOR = 1000000n;
+  const SPLIT_ALLOCATION_STEPS = 100n;
+  const OWNER_FEE_NUMERATOR = 5n;
+  const OWNER_FEE_DENOMINATOR = 10000n;
+
+  // Shards of one pair with deliberately uneven depth
+  const SHARD_RESERVES = [
+    { reserveA: '40000', reserveB: '52000' },
+    { reserveA: '120000', reserveB: '150000' },
+    { reserveA: '75000', reserveB: '90000' }
+  ];
+
+  let owner;
+  let tokenA;
+  let tokenB;
+  let shards;
+
+  // Mirror of samm-fees/SAMMFeeCalculator
+  function normalize(amount, decimals) {
+    if (decimals === 18) return amount;
+    if (decimals < 18) return amount * 10n ** BigInt(18 - decimals);
+    return amount / 10n ** BigInt(decimals - 18);
+  }
+
+  function denormalize(amount, decimals) {
+    if (decimals === 18) return amount;
+    if (decimals < 18) return amount / 10n ** BigInt(18 - decimals);
+    return amount * 10n ** BigInt(decimals - 18);
+  }
+
+  function isWithinCThreshold(amountOut, inputReserve, shard) {
+    return (normalize(amountOut, shard.outputDecimals) * SCALE_FACTOR) /
+      normalize(inputReserve, shard.inputDecimals) <= shard.sammParams.c;
+  }
+
+  function calculateSwapSAMM(amountOut, shard) {
+    const outNorm = normalize(amountOut, shard.outputDecimals);
+    const inResNorm = normalize(shard.reserveA, shard.inputDecimals);
+    const outResNorm = normalize(shard.reserveB, shard.outputDecimals);
+
+    const ratio = (outNorm * SCALE_FACTOR) / inResNorm;
+    const rate = (shard.sammParams.beta1 * ratio) / SCALE_FACTOR + shard.sammParams.rmax;
+    const finalRate = rate <= shard.sammParams.rmin ? shard.sammParams.rmin : rate;
+    const tradeFee = (outResNorm * outNorm * finalRate) / (inResNorm * SCALE_FACTOR);
+
+    let ownerFee = (outNorm * OWNER_FEE_NUMERATOR) / OWNER_FEE_DENOMINATOR;
+    if (ownerFee === 0n) ownerFee = 1n;
+
+    const invariant = inResNorm * outResNorm;
+    const newOut = outResNorm - outNorm;
+    let newIn = invariant / newOut;
+    if (newIn * newOut !== invariant) newIn += 1n;
+
+    return {
+      amountIn: denormalize(newIn - inResNorm + tradeFee + ownerFee, shard.inputDecimals),
+      fee: denormalize(tradeFee + ownerFee, shard.inputDecimals)
+    };
+  }
+
+  // Mirror of TradeRoutingService.getMaxOutputWithinCThreshold
+  function getMaxOutput(shard) {
+    const threshold = denormalize(
+      (normalize(shard.reserveA, shard.inputDecimals) * shard.sammParams.c) / SCALE_FACTOR,
+      shard.outputDecimals
+    );
+    if (threshold < shard.reserveB) return threshold;
+    return shard.reserveB > 0n ? shard.reserveB - 1n : 0n;
+  }
+
+  // Mirror of TradeRoutingService.findSplitRoute
+  function findSplitRoute(outputAmount) {
+    const capacities = shards.map(getMaxOutput);
+    const totalCapacity = capacities.reduce((sum, capacity) => sum + capacity, 0n);
+    if (totalCapacity < outputAmount) return null;
+
+    const allocations = shards.map(() => 0n);
+    const costs = shards.map(() => 0n);
+    const step = (outputAmount + SPLIT_ALLOCATION_STEPS - 1n) / SPLIT_ALLOCATION_STEPS;
+    let remaining = outputAmount;
+
+    while (remaining > 0n) {
+      let bestIndex = -1;
+      let bestChunk = 0n;
+      let bestCost = 0n;
+
+      for (let i = 0; i < shards.length; i++) {
+        const room = capacities[i] - allocations[i];
+        const chunk = room < step ? room : step;
+        const size = chunk < remaining ? chunk : remaining;
+        if (size <= 0n) continue;
+
+        const cost = calculateSwapSAMM(allocations[i] + size, shards[i]).amountIn;
+        const marginal = cost - costs[i];
+        if (bestIndex === -1 || marginal * bestChunk < (bestCost - costs[bestIndex]) * size) {
+          bestIndex = i;
+          bestChunk = size;
+          bestCost = cost;
+        }
+      }
+
+      if (bestIndex === -1) return null;
+      allocations[bestIndex] += bestChunk;
+      costs[bestIndex] = bestCost;
+      remaining -= bestChunk;
+    }
+
+    let bestSingleIndex = -1;
+    let bestSingleAmountIn = null;
+    for (let i = 0; i < shards.length; i++) {
+      if (capacities[i] >= outputAmount) {
+        const amountIn = calculateSwapSAMM(outputAmount, shards[i]).amountIn;
+        if (bestSingleAmountIn === null || amountIn < bestSingleAmountIn) {
+          bestSingleIndex = i;
+          bestSingleAmountIn = amountIn;
+        }
+      }
+    }
+
+    const allocatedAmountIn = costs.reduce((sum, cost) => sum + cost, 0n);
+    if (bestSingleAmountIn !== null && bestSingleAmountIn <= allocatedAmountIn) {
+      allocations.fill(0n);
+      allocations[bestSingleIndex] = outputAmount;
+    }
+
+    const slices = [];
+    for (let i = 0; i < shards.length; i++) {
+      if (allocations[i] === 0n) continue;
+      const quote = calculateSwapSAMM(allocations[i], shards[i]);
+      slices.push({ shard: shards[i], amountOut: allocations[i], expectedAmountIn: quote.amountIn });
+    }
+
+    return {
+      slices,
+      totalAmountIn: slices.reduce((sum, slice) => sum + slice.expectedAmountIn, 0n),
+      bestSingleAmountIn
+    };
+  }
+
+  before(async function () {
+    [owner] = await ethers.getSigners();
+
+    const MockERC20 = await ethers.getContractFactory('MockERC20');
+    tokenA = await MockERC20.deploy('Token A', 'TKNA', 18);
+    tokenB = await MockERC20.deploy('Token B', 'TKNB', 6);
+    await tokenA.mint(owner.address, ethers.parseUnits('10000000', 18));
+    await tokenB.mint(owner.address, ethers.parseUnits('10000000', 6));
+
+    const SAMMPool = await ethers.getContractFactory('SAMMPool');
+    shards = [];
+
+    for (const [index, reserves] of SHARD_RESERVES.entries()) {
+      const contract = await SAMMPool.deploy(
+        await tokenA.getAddress(),
+        await tokenB.getAddress(),
+        `SAMM Pool A-B ${index + 1}`,
+        `SAMM-AB-${index + 1}`
+      );
+      const reserveA = ethers.parseUnits(reserves.reserveA, 18);
+      const reserveB = ethers.parseUnits(reserves.reserveB, 6);
+      await tokenA.approve(await contract.getAddress(), ethers.MaxUint256);
+      await tokenB.approve(await contract.getAddress(), ethers.MaxUint256);
+      await contract.initialize(
+        await tokenA.getAddress(),
+        await tokenB.getAddress(),
+        reserveA,
+        reserveB,
+        25,
+        10000,
+        OWNER_FEE_NUMERATOR,
+        OWNER_FEE_DENOMINATOR
+      );
+
+      const [beta1, rmin, rmax, c] = await contract.getSAMMParams();
+      shards.push({
+        contract,
+        reserveA,
+        reserveB,
+        inputDecimals: 18,
+        outputDecimals: 6,
+        sammParams: { beta1, rmin, rmax, c }
+      });
+    }
+  });
+
+  it('should keep every slice within its shard c-threshold and cover the order exactly', async function () {
+    this.timeout(120000);
+
+    const totalCapacity = shards.map(getMaxOutput).reduce((sum, capacity) => sum + capacity, 0n);
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.bigInt({ min: 1000n, max: totalCapacity }),
+
+        async (outputAmount) => {
+          const split = findSplitRoute(outputAmount);
+          expect(split).to.not.equal(null);
+
+          const sliceTotal = split.slices.reduce((sum, slice) => sum + slice.amountOut, 0n);
+          expect(sliceTotal).to.equal(outputAmount);
+
+          for (const slice of split.slices) {
+            expect(isWithinCThreshold(slice.amountOut, slice.shard.reserveA, slice.shard)).to.equal(true);
+
+            const onChain = await slice.shard.contract.calculateSwapSAMM(
+              slice.amountOut,
+              await tokenA.getAddress(),
+              await tokenB.getAddress()
+            );
+            expect(slice.expectedAmountIn).to.equal(onChain.amountIn);
+          }
+
+          if (split.bestSingleAmountIn !== null) {
+            expect(split.totalAmountIn <= split.bestSingleAmountIn).to.equal(true);
+          }
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  it('should reject orders larger than the combined c-threshold capacity', async function () {
+    const totalCapacity = shards.map(getMaxOutput).reduce((sum, capacity) => sum + capacity, 0n);
+    expect(findSplitRoute(totalCapacity + 1n)).to.equal(null);
+  });
+
+  it('should execute an order no single shard can take at exactly the quoted input', async function () {
+    this.timeout(120000);
+
+    const capacities = shards.map(getMaxOutput);
+    const largestSingle = capacities.reduce((max, capacity) => capacity > max ? capacity : max, 0n);
+    const totalCapacity = capacities.reduce((sum, capacity) => sum + capacity, 0n);
+
+    for (const outputAmount of [largestSingle + 1n, (largestSingle + totalCapacity) / 2n, totalCapacity]) {
+      const split = findSplitRoute(outputAmount);
+      expect(split.slices.length).to.be.greaterThan(1);
+
+      const snapshot = await network.provider.send('evm_snapshot');
+
+      const inputBefore = await tokenA.balanceOf(owner.address);
+      const outputBefore = await tokenB.balanceOf(owner.address);
+
+      for (const slice of split.slices) {
+        await slice.shard.contract.swapSAMM(
+          slice.amountOut,
+          slice.expectedAmountIn,
+          await tokenA.getAddress(),
+          await tokenB.getAddress(),
+          owner.address
+        );
+      }
+
+      const inputAfter = await tokenA.balanceOf(owner.address);
+      const outputAfter = await tokenB.balanceOf(owner.address);
+      expect(inputBefore - inputAfter).to.equal(split.totalAmountIn);
+      expect(outputAfter - outputBefore).to.equal(outputAmount);
+
+      await network.provider.send('evm_revert', [snapshot]);
+    }
+  });
+});
@@ -0,0 +1,142 @@
+const { expect } = require('chai');
+const fc = require('fast-check');
+
+/**
+ * Property-Based Tests for the RPC provider pool
+ *
+ * RpcProviderPool is a TypeScript module, so its ranking, failover and lag
+ * quarantine are mirrored below. The properties check that a request reaches
+ * the best endpoint that can answer it, trying the others strictly in rank
+ * order, and that only endpoints trailing by more than the allowed lag are
+ * taken out of rotation.
+ */
+
+describe('RPC Provider Pool Property Tests', function() {
+  this.timeout(30000);
+
+  const CONFIG = { failureThreshold: 3, maxBlockLag: 5, blockLagPenaltyMs: 250 };
+
+  function getHighestBlock(endpoints) {
+    return Math.max(0, ...endpoints.filter(endpoint => endpoint.servesChain).map(endpoint => endpoint.blockNumber));
+  }
+
+  // Mirror of rankEndpoints
+  function rankEndpoints(endpoints) {
+    const highestBlock = getHighestBlock(endpoints);
+    const score = endpoint => endpoint.latencyMs + Math.max(0, highestBlock - endpoint.blockNumber) * CONFIG.blockLagPenaltyMs;
+
+    return [...endpoints].sort((a, b) =>
+      Number(a.quarantineReason !== null) - Number(b.quarantineReason !== null) ||
+      Number(a.consecutiveFailures > 0) - Number(b.consecutiveFailures > 0) ||
+      score(a) - score(b) ||
+      a.index - b.index
+    );
+  }
+
+  // Mirror of _send: try endpoints in rank order until one answers
+  function send(endpoints, reachable) {
+    const tried = [];
+    for (const endpoint of rankEndpoints(endpoints)) {
+      tried.push(endpoint.index);
+      if (reachable.has(endpoint.index)) {
+        endpoint.consecutiveFailures = 0;
+        return { answeredBy: endpoint.index, tried };
+      }
+      endpoint.consecutiveFailures++;
+      if (endpoint.consecutiveFailures >= CONFIG.failureThreshold) endpoint.quarantineReason = 'failures';
+    }
+    return { answeredBy: null, tried };
+  }
+
+  // Mirror of the lag check in probe
+  function assessLag(endpoints) {
+    const highestBlock = getHighestBlock(endpoints);
+    for (const endpoint of endpoints) {
+      if (!endpoint.servesChain || endpoint.consecutiveFailures > 0) continue;
+      if (highestBlock - endpoint.blockNumber > CONFIG.maxBlockLag) endpoint.quarantineReason = 'lagging';
+    }
+  }
+
+  const endpointsArb = fc.array(
+    fc.record({
+      latencyMs: fc.integer({ min: 1, max: 2000 }),
+      blockNumber: fc.integer({ min: 1000, max: 1020 }),
+      quarantined: fc.boolean(),
+      consecutiveFailures: fc.integer({ min: 0, max: 2 })
+    }),
+    { minLength: 1, maxLength: 6 }
+  ).map(endpoints => endpoints.map((endpoint, index) => ({
+    index,
+    latencyMs: endpoint.latencyMs,
+    blockNumber: endpoint.blockNumber,
+    servesChain: true,
+    consecutiveFailures: endpoint.consecutiveFailures,
+    quarantineReason: endpoint.quarantined ? 'lagging' : null
+  })));
+
+  /**
+   * Property: a request is answered by the first reachable endpoint in rank order
+   */
+  it('Property: requests fail over in rank order to the first reachable endpoint', function() {
+    fc.assert(
+      fc.property(
+        endpointsArb,
+        fc.array(fc.integer({ min: 0, max: 5 }), { maxLength: 6 }),
+        (endpoints, reachableIndexes) => {
+          const reachable = new Set(reachableIndexes);
+          const ranked = rankEndpoints(endpoints).map(endpoint => endpoint.index);
+
+          // Every endpoint in rotation is ranked before every quarantined one
+          const quarantined = ranked.map(index => endpoints[index].quarantineReason !== null);
+          expect(quarantined).to.deep.equal([...quarantined].sort((a, b) => Number(a) - Number(b)));
+
+          const { answeredBy, tried } = send(endpoints, reachable);
+
+          // Endpoints are tried in rank order and stop at the first answer
+          expect(tried).to.deep.equal(ranked.slice(0, tried.length));
+          const expected = ranked.find(index => reachable.has(index));
+          expect(answeredBy).to.equal(expected === undefined ? null : expected);
+          if (answeredBy === null) {
+            expect(tried).to.have.length(endpoints.length);
+          }
+        }
+      ),
+      { numRuns: 300 }
+    );
+  });
+
+  /**
+   * Property: only endpoints trailing by more than maxBlockLag are quarantined for lag
+   */
+  it('Property: lagging endpoints are quarantined and the most advanced never is', function() {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer({ min: 0, max: 30 }), { minLength: 1, maxLength: 8 }),
+        (blockNumbers) => {
+          const endpoints = blockNumbers.map((blockNumber, index) => ({
+            index,
+            latencyMs: 100,
+            blockNumber,
+            servesChain: true,
+            consecutiveFailures: 0,
+            quarantineReason: null
+          }));
+          assessLag(endpoints);
+
+          const highest = Math.max(...blockNumbers);
+          for (const endpoint of endpoints) {
+            expect(endpoint.quarantineReason === 'lagging').to.equal(highest - endpoint.blockNumber > CONFIG.maxBlockLag);
+          }
+          expect(endpoints.some(endpoint => endpoint.quarantineReason === null)).to.equal(true);
+
+          // Among endpoints in rotation, a fresher one never ranks below a staler one at equal latency
+          const ranked = rankEndpoints(endpoints).filter(endpoint => endpoint.quarantineReason === null);
+          for (let i = 1; i < ranked.length; i++) {
+            expect(ranked[i - 1].blockNumber).to.be.at.least(ranked[i].blockNumber);
+          }
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+});
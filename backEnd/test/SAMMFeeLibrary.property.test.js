@@ -0,0 +1,295 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const fc = require("fast-check");
+
+/**
+ * Property-Based Tests for the off-chain SAMM fee library
+ *
+ * **Feature: samm-deployment, Property 2: SAMM fee calculation accuracy**
+ * **Validates: Requirements 6.1**
+ *
+ * services/src/samm-fees/SAMMFeeCalculator.ts is a TypeScript module, so the
+ * functions below mirror it line for line (same bigint operation order) and are
+ * checked for exact equality against SAMMFeesTest and a deployed SAMMPool.
+ */
+describe("SAMM Fee Library Property Tests", function () {
+    let sammFees;
+
+    const SCALE_FACTOR = 1000000n;
+    const DEFAULT_PARAMS = { beta1: -1050000n, rmin: 1000n, rmax: 12000n, c: 10400n };
+
+    // Mirror of SAMMFeeCalculator.normalize / denormalize
+    function normalize(amount, decimals) {
+        if (decimals === 18) return amount;
+        if (decimals < 18) return amount * 10n ** BigInt(18 - decimals);
+        return amount / 10n ** BigInt(decimals - 18);
+    }
+
+    function denormalize(amount, decimals) {
+        if (decimals === 18) return amount;
+        if (decimals < 18) return amount / 10n ** BigInt(18 - decimals);
+        return amount * 10n ** BigInt(decimals - 18);
+    }
+
+    // Mirror of SAMMFeeCalculator.calculateFeeSAMM
+    function calculateFeeSAMM(outputAmount, outputReserve, inputReserve, params) {
+        if (outputAmount === 0n || outputReserve === 0n || inputReserve === 0n) {
+            return 0n;
+        }
+        const oaRaRatio = (outputAmount * SCALE_FACTOR) / inputReserve;
+        const feeRateScaled = (params.beta1 * oaRaRatio) / SCALE_FACTOR + params.rmax;
+        const finalFeeRate = feeRateScaled <= params.rmin ? params.rmin : feeRateScaled;
+        return (outputReserve * outputAmount * finalFeeRate) / (inputReserve * SCALE_FACTOR);
+    }
+
+    // Mirror of SAMMFeeCalculator.validateCThreshold
+    function validateCThreshold(outputAmount, inputReserve, cThreshold) {
+        if (inputReserve === 0n) return false;
+        return (outputAmount * SCALE_FACTOR) / inputReserve <= cThreshold;
+    }
+
+    // Mirror of SAMMFeeCalculator.ownerTradingFee
+    function ownerTradingFee(tradingTokens, numerator, denominator) {
+        if (numerator === 0n || tradingTokens === 0n) return 0n;
+        const fee = (tradingTokens * numerator) / denominator;
+        return fee === 0n ? 1n : fee;
+    }
+
+    // Mirror of SAMMFeeCalculator.swapRevert
+    function swapRevert(destinationAmount, sourceReserve, destinationReserve) {
+        const invariant = sourceReserve * destinationReserve;
+        const newDestination = destinationReserve - destinationAmount;
+        let newSource = invariant / newDestination;
+        if (newSource * newDestination !== invariant) {
+            newSource += 1n;
+        }
+        return newSource - sourceReserve;
+    }
+
+    // Mirror of SAMMFeeCalculator.calculateSwapSAMM
+    function calculateSwapSAMM(amountOut, inputReserve, outputReserve, config) {
+        const amountOutNorm = normalize(amountOut, config.outputDecimals);
+        const inputReserveNorm = normalize(inputReserve, config.inputDecimals);
+        const outputReserveNorm = normalize(outputReserve, config.outputDecimals);
+
+        const tradeFeeNorm = calculateFeeSAMM(amountOutNorm, outputReserveNorm, inputReserveNorm, config.sammParams);
+        const ownerFeeNorm = ownerTradingFee(amountOutNorm, config.ownerFeeNumerator, config.ownerFeeDenominator);
+        const baseNorm = swapRevert(amountOutNorm, inputReserveNorm, outputReserveNorm);
+
+        return {
+            amountIn: denormalize(baseNorm + tradeFeeNorm + ownerFeeNorm, config.inputDecimals),
+            tradeFee: denormalize(tradeFeeNorm, config.inputDecimals),
+            ownerFee: denormalize(ownerFeeNorm, config.inputDecimals)
+        };
+    }
+
+    before(async function () {
+        const SAMMFeesTest = await ethers.getContractFactory("SAMMFeesTest");
+        sammFees = await SAMMFeesTest.deploy();
+        await sammFees.waitForDeployment();
+    });
+
+    describe("Fee formula matches SAMMFees.calculateFeeSAMM exactly", function () {
+        it("should match the contract for the research paper parameters", async function () {
+            this.timeout(60000);
+
+            await fc.assert(
+                fc.asyncProperty(
+                    fc.bigInt({ min: 1n, max: 10n ** 27n }),
+                    fc.bigInt({ min: 1n, max: 10n ** 27n }),
+                    // OA up to 2% of RA covers small, mid-sized and rmin-clamped trades
+                    fc.integer({ min: 1, max: 20000 }),
+
+                    async (inputReserve, outputReserve, ratioPpm) => {
+                        const outputAmount = (inputReserve * BigInt(ratioPpm)) / SCALE_FACTOR + 1n;
+
+                        const onChain = await sammFees.calculateFeeSAMM(
+                            outputAmount,
+                            outputReserve,
+                            inputReserve,
+                            DEFAULT_PARAMS.beta1,
+                            DEFAULT_PARAMS.rmin,
+                            DEFAULT_PARAMS.rmax
+                        );
+
+                        expect(calculateFeeSAMM(outputAmount, outputReserve, inputReserve, DEFAULT_PARAMS))
+                            .to.equal(onChain, `OA=${outputAmount}, RB=${outputReserve}, RA=${inputReserve}`);
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it("should match the contract for arbitrary pool parameters", async function () {
+            this.timeout(60000);
+
+            await fc.assert(
+                fc.asyncProperty(
+                    fc.bigInt({ min: 10n ** 18n, max: 10n ** 26n }),
+                    fc.bigInt({ min: 10n ** 18n, max: 10n ** 26n }),
+                    fc.integer({ min: 1, max: 50000 }),
+                    fc.integer({ min: -5000000, max: -1 }),
+                    fc.integer({ min: 1, max: 10000 }),
+                    fc.integer({ min: 1, max: 90000 }),
+
+                    async (inputReserve, outputReserve, ratioPpm, beta1, rmin, rmaxExtra) => {
+                        const params = {
+                            beta1: BigInt(beta1),
+                            rmin: BigInt(rmin),
+                            rmax: BigInt(rmin + rmaxExtra),
+                            c: DEFAULT_PARAMS.c
+                        };
+                        const outputAmount = (inputReserve * BigInt(ratioPpm)) / SCALE_FACTOR;
+
+                        const onChain = await sammFees.calculateFeeSAMM(
+                            outputAmount,
+                            outputReserve,
+                            inputReserve,
+                            params.beta1,
+                            params.rmin,
+                            params.rmax
+                        );
+
+                        expect(calculateFeeSAMM(outputAmount, outputReserve, inputReserve, params)).to.equal(onChain);
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it("should match SAMMFees.validateCThreshold", async function () {
+            this.timeout(60000);
+
+            await fc.assert(
+                fc.asyncProperty(
+                    fc.bigInt({ min: 0n, max: 10n ** 26n }),
+                    fc.bigInt({ min: 0n, max: 10n ** 24n }),
+                    fc.integer({ min: 0, max: 100000 }),
+
+                    async (inputReserve, outputAmount, cThreshold) => {
+                        const onChain = await sammFees.validateCThreshold(outputAmount, inputReserve, cThreshold);
+                        expect(validateCThreshold(outputAmount, inputReserve, BigInt(cThreshold))).to.equal(onChain);
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    describe("Swap quote matches SAMMPool.calculateSwapSAMM exactly", function () {
+        let pool, tokenA, tokenB;
+        let owner;
+
+        const OWNER_FEE_NUMERATOR = 5n;
+        const OWNER_FEE_DENOMINATOR = 10000n;
+
+        before(async function () {
+            [owner] = await ethers.getSigners();
+
+            // Mixed decimals exercise the 18-decimal normalization path
+            const MockERC20 = await ethers.getContractFactory("MockERC20");
+            tokenA = await MockERC20.deploy("Token A", "TKNA", 18);
+            tokenB = await MockERC20.deploy("Token B", "TKNB", 6);
+
+            const SAMMPool = await ethers.getContractFactory("SAMMPool");
+            pool = await SAMMPool.deploy(
+                await tokenA.getAddress(),
+                await tokenB.getAddress(),
+                "SAMM Pool A-B",
+                "SAMM-AB"
+            );
+
+            const reserveA = ethers.parseUnits("250000", 18);
+            const reserveB = ethers.parseUnits("310000", 6);
+            await tokenA.mint(owner.address, reserveA * 2n);
+            await tokenB.mint(owner.address, reserveB * 2n);
+            await tokenA.approve(await pool.getAddress(), reserveA * 2n);
+            await tokenB.approve(await pool.getAddress(), reserveB * 2n);
+
+            await pool.initialize(
+                await tokenA.getAddress(),
+                await tokenB.getAddress(),
+                reserveA,
+                reserveB,
+                25,
+                10000,
+                OWNER_FEE_NUMERATOR,
+                OWNER_FEE_DENOMINATOR
+            );
+        });
+
+        async function quoteBoth(amountOut, aToB) {
+            const [reserveA, reserveB] = await pool.getReserves();
+            const [beta1, rmin, rmax, c] = await pool.getSAMMParams();
+            const config = {
+                sammParams: { beta1, rmin, rmax, c },
+                ownerFeeNumerator: OWNER_FEE_NUMERATOR,
+                ownerFeeDenominator: OWNER_FEE_DENOMINATOR,
+                inputDecimals: aToB ? 18 : 6,
+                outputDecimals: aToB ? 6 : 18
+            };
+
+            const local = calculateSwapSAMM(
+                amountOut,
+                aToB ? reserveA : reserveB,
+                aToB ? reserveB : reserveA,
+                config
+            );
+            const onChain = await pool.calculateSwapSAMM(
+                amountOut,
+                aToB ? await tokenA.getAddress() : await tokenB.getAddress(),
+                aToB ? await tokenB.getAddress() : await tokenA.getAddress()
+            );
+
+            return { local, onChain };
+        }
+
+        it("should reproduce amountIn, tradeFee and ownerFee in both directions", async function () {
+            this.timeout(60000);
+
+            await fc.assert(
+                fc.asyncProperty(
+                    fc.boolean(),
+                    // Up to the 1.04% c-threshold of the input reserve
+                    fc.integer({ min: 1, max: 10400 }),
+
+                    async (aToB, ratioPpm) => {
+                        const [reserveA, reserveB] = await pool.getReserves();
+                        const outputReserve = aToB ? reserveB : reserveA;
+                        const amountOut = (outputReserve * BigInt(ratioPpm)) / SCALE_FACTOR + 1n;
+
+                        const { local, onChain } = await quoteBoth(amountOut, aToB);
+
+                        expect(local.amountIn).to.equal(onChain.amountIn);
+                        expect(local.tradeFee).to.equal(onChain.tradeFee);
+                        expect(local.ownerFee).to.equal(onChain.ownerFee);
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it("should charge exactly the quoted input when the swap executes", async function () {
+            this.timeout(60000);
+
+            // Mid-sized trades are where a flat fee diverges most from the dynamic one
+            for (const ratioPpm of [500n, 2500n, 5000n, 8000n]) {
+                const [, reserveB] = await pool.getReserves();
+                const amountOut = (reserveB * ratioPpm) / SCALE_FACTOR;
+                const { local } = await quoteBoth(amountOut, true);
+
+                const balanceBefore = await tokenA.balanceOf(owner.address);
+                await pool.swapSAMM(
+                    amountOut,
+                    local.amountIn,
+                    await tokenA.getAddress(),
+                    await tokenB.getAddress(),
+                    owner.address
+                );
+                const balanceAfter = await tokenA.balanceOf(owner.address);
+
+                expect(balanceBefore - balanceAfter).to.equal(local.amountIn);
+            }
+        });
+    });
+});
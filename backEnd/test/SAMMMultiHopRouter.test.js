@@ -0,0 +1,159 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+
+describe("SAMM Multi-Hop Router", function () {
+    let router;
+    let usdc, usdt, dai;
+    let poolUsdcUsdt, poolUsdtDai;
+    let owner, user;
+
+    const LIQUIDITY = ethers.parseEther("10000");
+
+    async function deployPool(tokenA, tokenB) {
+        const SAMMPool = await ethers.getContractFactory("SAMMPool");
+        const pool = await SAMMPool.deploy(
+            await tokenA.getAddress(),
+            await tokenB.getAddress(),
+            "SAMM Pool",
+            "SAMM-LP"
+        );
+        await pool.waitForDeployment();
+
+        await tokenA.approve(await pool.getAddress(), LIQUIDITY);
+        await tokenB.approve(await pool.getAddress(), LIQUIDITY);
+        await pool.initialize(
+            await tokenA.getAddress(),
+            await tokenB.getAddress(),
+            LIQUIDITY,
+            LIQUIDITY,
+            25, 10000, 5, 10000
+        );
+        return pool;
+    }
+
+    async function deadline() {
+        const block = await ethers.provider.getBlock("latest");
+        return block.timestamp + 600;
+    }
+
+    async function swapArgs(amountOut) {
+        const daiOut = amountOut;
+        const usdtOut = (await poolUsdtDai.calculateSwapSAMM(daiOut, await usdt.getAddress(), await dai.getAddress())).amountIn;
+        const usdcIn = (await poolUsdcUsdt.calculateSwapSAMM(usdtOut, await usdc.getAddress(), await usdt.getAddress())).amountIn;
+
+        return {
+            pools: [await poolUsdcUsdt.getAddress(), await poolUsdtDai.getAddress()],
+            amountsOut: [usdtOut, daiOut],
+            // 1% headroom per hop
+            maxAmountsIn: [usdcIn * 101n / 100n, usdtOut],
+            tokens: [await usdc.getAddress(), await usdt.getAddress(), await dai.getAddress()],
+            usdcIn
+        };
+    }
+
+    beforeEach(async function () {
+        [owner, user] = await ethers.getSigners();
+
+        const MockERC20 = await ethers.getContractFactory("MockERC20");
+        usdc = await MockERC20.deploy("USD Coin", "USDC", 18);
+        usdt = await MockERC20.deploy("Tether", "USDT", 18);
+        dai = await MockERC20.deploy("Dai", "DAI", 18);
+
+        for (const token of [usdc, usdt, dai]) {
+            await token.mint(owner.address, ethers.parseEther("100000"));
+        }
+        await usdc.mint(user.address, ethers.parseEther("1000"));
+
+        poolUsdcUsdt = await deployPool(usdc, usdt);
+        poolUsdtDai = await deployPool(usdt, dai);
+
+        const Router = await ethers.getContractFactory("SAMMMultiHopRouter");
+        router = await Router.deploy();
+        await router.waitForDeployment();
+    });
+
+    it("should swap through every hop in one transaction with one approval", async function () {
+        const amountOut = ethers.parseEther("50");
+        const args = await swapArgs(amountOut);
+
+        await usdc.connect(user).approve(await router.getAddress(), args.maxAmountsIn[0]);
+        await expect(
+            router.connect(user).executeMultiHopSwap(
+                args.pools, args.amountsOut, args.maxAmountsIn, args.tokens, user.address, await deadline()
+            )
+        ).to.emit(router, "MultiHopSwap")
+            .withArgs(user.address, user.address, args.tokens[0], args.tokens[2], args.usdcIn, amountOut, 2);
+
+        expect(await dai.balanceOf(user.address)).to.equal(amountOut);
+        expect(await usdc.balanceOf(user.address)).to.equal(ethers.parseEther("1000") - args.usdcIn);
+        expect(await usdt.balanceOf(user.address)).to.equal(0n);
+
+        // Nothing is left in the router
+        for (const token of [usdc, usdt, dai]) {
+            expect(await token.balanceOf(await router.getAddress())).to.equal(0n);
+        }
+    });
+
+    it("should revert every hop when a later hop fails", async function () {
+        const amountOut = ethers.parseEther("50");
+        const args = await swapArgs(amountOut);
+
+        // The second hop's bound is below what it costs
+        const maxAmountsIn = [args.maxAmountsIn[0], args.amountsOut[0] / 2n];
+        await usdc.connect(user).approve(await router.getAddress(), maxAmountsIn[0]);
+
+        await expect(
+            router.connect(user).executeMultiHopSwap(
+                args.pools, args.amountsOut, maxAmountsIn, args.tokens, user.address, await deadline()
+            )
+        ).to.be.revertedWith("SAMMPool: excessive input amount");
+
+        expect(await usdc.balanceOf(user.address)).to.equal(ethers.parseEther("1000"));
+        expect(await usdt.balanceOf(user.address)).to.equal(0n);
+        expect(await dai.balanceOf(user.address)).to.equal(0n);
+    });
+
+    it("should refund intermediate leftovers to the sender", async function () {
+        const amountOut = ethers.parseEther("50");
+        const args = await swapArgs(amountOut);
+
+        // Buy more USDT than the second hop needs
+        const extraUsdt = ethers.parseEther("1");
+        const amountsOut = [args.amountsOut[0] + extraUsdt, amountOut];
+        const usdcIn = (await poolUsdcUsdt.calculateSwapSAMM(amountsOut[0], args.tokens[0], args.tokens[1])).amountIn;
+        const maxAmountsIn = [usdcIn * 101n / 100n, amountsOut[0]];
+        await usdc.connect(user).approve(await router.getAddress(), maxAmountsIn[0]);
+
+        await router.connect(user).executeMultiHopSwap(
+            args.pools, amountsOut, maxAmountsIn, args.tokens, user.address, await deadline()
+        );
+
+        expect(await usdt.balanceOf(user.address)).to.equal(extraUsdt);
+        expect(await usdt.balanceOf(await router.getAddress())).to.equal(0n);
+        expect(await usdt.allowance(await router.getAddress(), args.pools[1])).to.equal(0n);
+    });
+
+    it("should reject expired and malformed swaps", async function () {
+        const args = await swapArgs(ethers.parseEther("10"));
+        await usdc.connect(user).approve(await router.getAddress(), args.maxAmountsIn[0]);
+
+        const block = await ethers.provider.getBlock("latest");
+        await expect(
+            router.connect(user).executeMultiHopSwap(
+                args.pools, args.amountsOut, args.maxAmountsIn, args.tokens, user.address, block.timestamp - 1
+            )
+        ).to.be.revertedWith("SAMMRouter: expired");
+
+        await expect(
+            router.connect(user).executeMultiHopSwap(
+                args.pools, args.amountsOut, args.maxAmountsIn, args.tokens.slice(0, 2), user.address, await deadline()
+            )
+        ).to.be.revertedWith("SAMMRouter: length mismatch");
+
+        await expect(
+            router.connect(user).executeMultiHopSwap(
+                args.pools, args.amountsOut, args.maxAmountsIn, args.tokens, ethers.ZeroAddress, await deadline()
+            )
+        ).to.be.revertedWith("SAMMRouter: zero recipient");
+    });
+});
@@ -0,0 +1,170 @@
+const { expect } = require("chai");
+const { ethers, network } = require("hardhat");
+
+describe("SAMM Order Settlement", function () {
+    let settlement;
+    let usdc, usdt;
+    let smallShard, largeShard;
+    let owner, maker, keeper;
+
+    const ORDER_TYPES = {
+        Order: [
+            { name: "maker", type: "address" },
+            { name: "tokenIn", type: "address" },
+            { name: "tokenOut", type: "address" },
+            { name: "amountOut", type: "uint256" },
+            { name: "maxAmountIn", type: "uint256" },
+            { name: "slices", type: "uint256" },
+            { name: "interval", type: "uint256" },
+            { name: "startTime", type: "uint256" },
+            { name: "expiry", type: "uint256" },
+            { name: "nonce", type: "uint256" }
+        ]
+    };
+
+    async function deployPool(liquidity) {
+        const SAMMPool = await ethers.getContractFactory("SAMMPool");
+        const pool = await SAMMPool.deploy(await usdc.getAddress(), await usdt.getAddress(), "SAMM Pool", "SAMM-LP");
+        await pool.waitForDeployment();
+
+        await usdc.approve(await pool.getAddress(), liquidity);
+        await usdt.approve(await pool.getAddress(), liquidity);
+        await pool.initialize(await usdc.getAddress(), await usdt.getAddress(), liquidity, liquidity, 25, 10000, 5, 10000);
+        return pool;
+    }
+
+    async function now() {
+        return (await ethers.provider.getBlock("latest")).timestamp;
+    }
+
+    async function buildOrder(overrides = {}) {
+        const start = await now();
+        return {
+            maker: maker.address,
+            tokenIn: await usdc.getAddress(),
+            tokenOut: await usdt.getAddress(),
+            amountOut: ethers.parseEther("10"),
+            maxAmountIn: ethers.parseEther("11"),
+            slices: 1n,
+            interval: 0n,
+            startTime: BigInt(start),
+            expiry: BigInt(start + 3600),
+            nonce: 1n,
+            ...overrides
+        };
+    }
+
+    async function sign(order, signer = maker) {
+        const domain = {
+            name: "SAMMOrderSettlement",
+            version: "1",
+            chainId: (await ethers.provider.getNetwork()).chainId,
+            verifyingContract: await settlement.getAddress()
+        };
+        return signer.signTypedData(domain, ORDER_TYPES, order);
+    }
+
+    beforeEach(async function () {
+        [owner, maker, keeper] = await ethers.getSigners();
+
+        const MockERC20 = await ethers.getContractFactory("MockERC20");
+        usdc = await MockERC20.deploy("USD Coin", "USDC", 18);
+        usdt = await MockERC20.deploy("Tether", "USDT", 18);
+        for (const token of [usdc, usdt]) {
+            await token.mint(owner.address, ethers.parseEther("100000"));
+        }
+        await usdc.mint(maker.address, ethers.parseEther("1000"));
+
+        smallShard = await deployPool(ethers.parseEther("1000"));
+        largeShard = await deployPool(ethers.parseEther("10000"));
+
+        const Settlement = await ethers.getContractFactory("SAMMOrderSettlement");
+        settlement = await Settlement.deploy();
+        await settlement.waitForDeployment();
+
+        await usdc.connect(maker).approve(await settlement.getAddress(), ethers.MaxUint256);
+    });
+
+    it("should hash orders the same way as EIP-712 typed data signing", async function () {
+        const order = await buildOrder();
+        const domain = {
+            name: "SAMMOrderSettlement",
+            version: "1",
+            chainId: (await ethers.provider.getNetwork()).chainId,
+            verifyingContract: await settlement.getAddress()
+        };
+
+        expect(await settlement.hashOrder(order)).to.equal(ethers.TypedDataEncoder.hash(domain, ORDER_TYPES, order));
+    });
+
+    it("should fill a limit order at the signed price and refund unspent input", async function () {
+        const order = await buildOrder();
+        const signature = await sign(order);
+        const orderHash = await settlement.hashOrder(order);
+        const cost = (await smallShard.calculateSwapSAMM(order.amountOut, order.tokenIn, order.tokenOut)).amountIn;
+
+        await expect(settlement.connect(keeper).fillOrder(order, signature, await smallShard.getAddress()))
+            .to.emit(settlement, "OrderFilled")
+            .withArgs(orderHash, maker.address, await smallShard.getAddress(), 0, cost, order.amountOut);
+
+        expect(await usdt.balanceOf(maker.address)).to.equal(order.amountOut);
+        expect(await usdc.balanceOf(maker.address)).to.equal(ethers.parseEther("1000") - cost);
+        expect(await usdc.balanceOf(await settlement.getAddress())).to.equal(0n);
+        expect(await usdc.allowance(await settlement.getAddress(), await smallShard.getAddress())).to.equal(0n);
+
+        await expect(settlement.connect(keeper).fillOrder(order, signature, await smallShard.getAddress()))
+            .to.be.revertedWith("SAMMOrderSettlement: filled");
+    });
+
+    it("should not fill below the limit price", async function () {
+        const order = await buildOrder({ maxAmountIn: ethers.parseEther("10") });
+        const signature = await sign(order);
+
+        // Buying 10 USDT costs more than 10 USDC once fees are added
+        await expect(settlement.connect(keeper).fillOrder(order, signature, await largeShard.getAddress()))
+            .to.be.revertedWith("SAMMPool: excessive input amount");
+        expect(await usdc.balanceOf(maker.address)).to.equal(ethers.parseEther("1000"));
+    });
+
+    it("should release TWAP slices on schedule and fill the exact total", async function () {
+        const order = await buildOrder({ amountOut: ethers.parseEther("10"), maxAmountIn: ethers.parseEther("12"), slices: 3n, interval: 600n });
+        const signature = await sign(order);
+        const orderHash = await settlement.hashOrder(order);
+
+        await settlement.connect(keeper).fillOrder(order, signature, await largeShard.getAddress());
+        await expect(settlement.connect(keeper).fillOrder(order, signature, await largeShard.getAddress()))
+            .to.be.revertedWith("SAMMOrderSettlement: slice not due");
+
+        for (let slice = 1; slice < 3; slice++) {
+            await network.provider.send("evm_increaseTime", [600]);
+            await network.provider.send("evm_mine");
+            await settlement.connect(keeper).fillOrder(order, signature, await largeShard.getAddress());
+        }
+
+        expect(await settlement.filledSlices(orderHash)).to.equal(3n);
+        // 10 / 3 does not divide evenly; the slices still add up to the order
+        expect(await usdt.balanceOf(maker.address)).to.equal(order.amountOut);
+    });
+
+    it("should reject forged, expired and cancelled orders", async function () {
+        const order = await buildOrder();
+
+        await expect(settlement.connect(keeper).fillOrder(order, await sign(order, keeper), await smallShard.getAddress()))
+            .to.be.revertedWith("SAMMOrderSettlement: invalid signature");
+
+        const signature = await sign(order);
+        await expect(settlement.connect(keeper).cancelOrder(order))
+            .to.be.revertedWith("SAMMOrderSettlement: not maker");
+        await expect(settlement.connect(maker).cancelOrder(order))
+            .to.emit(settlement, "OrderCancelled")
+            .withArgs(await settlement.hashOrder(order), maker.address);
+        await expect(settlement.connect(keeper).fillOrder(order, signature, await smallShard.getAddress()))
+            .to.be.revertedWith("SAMMOrderSettlement: cancelled");
+
+        const expiring = await buildOrder({ nonce: 2n, expiry: BigInt(await now()) });
+        const expiringSignature = await sign(expiring);
+        await network.provider.send("evm_mine");
+        await expect(settlement.connect(keeper).fillOrder(expiring, expiringSignature, await smallShard.getAddress()))
+            .to.be.revertedWith("SAMMOrderSettlement: expired");
+    });
+});
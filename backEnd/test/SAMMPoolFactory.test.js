@@ -0,0 +1,91 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+
+describe("SAMM Pool Factory", function () {
+    let factory;
+    let tokenA, tokenB;
+    let owner, creator;
+
+    const LIQUIDITY = ethers.parseEther("1000");
+    const SAMM_PARAMS = { beta1: -900000, rmin: 2000, rmax: 15000, c: 9000 };
+    const FEE_PARAMS = {
+        tradeFeeNumerator: 30,
+        tradeFeeDenominator: 10000,
+        ownerFeeNumerator: 5,
+        ownerFeeDenominator: 10000
+    };
+
+    async function createShard(signer, sammParams = SAMM_PARAMS) {
+        const tx = await factory.connect(signer).createShard(
+            await tokenA.getAddress(),
+            await tokenB.getAddress(),
+            sammParams,
+            FEE_PARAMS
+        );
+        const receipt = await tx.wait();
+        const created = receipt.logs
+            .map((log) => { try { return factory.interface.parseLog(log); } catch { return null; } })
+            .find((event) => event && event.name === "ShardCreated");
+        return created.args.shard;
+    }
+
+    beforeEach(async function () {
+        [owner, creator] = await ethers.getSigners();
+
+        const MockERC20 = await ethers.getContractFactory("MockERC20");
+        tokenA = await MockERC20.deploy("USD Coin", "USDC", 18);
+        tokenB = await MockERC20.deploy("Tether", "USDT", 18);
+        for (const token of [tokenA, tokenB]) {
+            await token.mint(creator.address, ethers.parseEther("10000"));
+        }
+
+        const Factory = await ethers.getContractFactory("SAMMPoolFactory");
+        factory = await Factory.deploy();
+        await factory.waitForDeployment();
+    });
+
+    it("should apply the shard's SAMM parameters on initialization", async function () {
+        const shard = await createShard(creator);
+
+        await tokenA.connect(creator).approve(await factory.getAddress(), LIQUIDITY);
+        await tokenB.connect(creator).approve(await factory.getAddress(), LIQUIDITY);
+        await expect(factory.connect(creator).initializeShard(shard, LIQUIDITY, LIQUIDITY))
+            .to.emit(factory, "ShardInitialized");
+
+        const pool = await ethers.getContractAt("SAMMPool", shard);
+        const [beta1, rmin, rmax, c] = await pool.getSAMMParams();
+        expect([beta1, rmin, rmax, c]).to.deep.equal([
+            BigInt(SAMM_PARAMS.beta1),
+            BigInt(SAMM_PARAMS.rmin),
+            BigInt(SAMM_PARAMS.rmax),
+            BigInt(SAMM_PARAMS.c)
+        ]);
+    });
+
+    it("should give the LP tokens to the provider, not the factory", async function () {
+        const shard = await createShard(creator);
+
+        await tokenA.connect(creator).approve(await factory.getAddress(), LIQUIDITY);
+        await tokenB.connect(creator).approve(await factory.getAddress(), LIQUIDITY);
+        await factory.connect(creator).initializeShard(shard, LIQUIDITY, LIQUIDITY);
+
+        const pool = await ethers.getContractAt("SAMMPool", shard);
+        // The pool locks MINIMUM_LIQUIDITY (1000) on initialization
+        expect(await pool.balanceOf(creator.address)).to.equal(LIQUIDITY - 1000n);
+        expect(await pool.balanceOf(await factory.getAddress())).to.equal(0n);
+    });
+
+    it("should list every shard created for a pair", async function () {
+        const first = await createShard(creator);
+        const second = await createShard(owner);
+
+        const shards = await factory.getShardsForPair(await tokenB.getAddress(), await tokenA.getAddress());
+        expect(shards).to.deep.equal([first, second]);
+        expect((await factory.getShardInfo(second)).shardIndex).to.equal(1n);
+    });
+
+    it("should reject a curve whose rmax does not exceed rmin", async function () {
+        await expect(createShard(creator, { ...SAMM_PARAMS, rmax: SAMM_PARAMS.rmin }))
+            .to.be.revertedWith("SAMMFactory: rmax must be greater than rmin");
+    });
+});
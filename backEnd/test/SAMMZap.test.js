@@ -0,0 +1,199 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+
+describe("SAMM Zap", function () {
+    let zap;
+    let usdc, usdt, dai;
+    let smallShard, largeShard, otherPair;
+    let owner, user;
+
+    async function deployPool(tokenA, tokenB, liquidity) {
+        const SAMMPool = await ethers.getContractFactory("SAMMPool");
+        const pool = await SAMMPool.deploy(
+            await tokenA.getAddress(),
+            await tokenB.getAddress(),
+            "SAMM Pool",
+            "SAMM-LP"
+        );
+        await pool.waitForDeployment();
+
+        await tokenA.approve(await pool.getAddress(), liquidity);
+        await tokenB.approve(await pool.getAddress(), liquidity);
+        await pool.initialize(
+            await tokenA.getAddress(),
+            await tokenB.getAddress(),
+            liquidity,
+            liquidity,
+            25, 10000, 5, 10000
+        );
+        return pool;
+    }
+
+    async function deadline() {
+        const block = await ethers.provider.getBlock("latest");
+        return block.timestamp + 600;
+    }
+
+    /**
+     * Largest USDT purchase from the large shard that leaves USDC at the small shard's ratio
+     */
+    async function zapInSplit(amountIn) {
+        const [reserveUsdc, reserveUsdt] = await smallShard.getReserves();
+        const cost = async (out) =>
+            (await largeShard.calculateSwapSAMM(out, await usdc.getAddress(), await usdt.getAddress())).amountIn;
+
+        let low = 0n;
+        let high = amountIn;
+        while (low < high) {
+            const mid = (low + high + 1n) / 2n;
+            const spent = await cost(mid);
+            if (spent < amountIn && (amountIn - spent) * reserveUsdt >= mid * reserveUsdc) {
+                low = mid;
+            } else {
+                high = mid - 1n;
+            }
+        }
+        const swapAmountIn = await cost(low);
+        const depositUsdc = amountIn - swapAmountIn;
+        const totalSupply = await smallShard.totalSupply();
+        const expectedLiquidity = [depositUsdc * totalSupply / reserveUsdc, low * totalSupply / reserveUsdt]
+            .reduce((a, b) => (a < b ? a : b));
+
+        return { swapAmountOut: low, swapAmountIn, expectedLiquidity };
+    }
+
+    beforeEach(async function () {
+        [owner, user] = await ethers.getSigners();
+
+        const MockERC20 = await ethers.getContractFactory("MockERC20");
+        usdc = await MockERC20.deploy("USD Coin", "USDC", 18);
+        usdt = await MockERC20.deploy("Tether", "USDT", 18);
+        dai = await MockERC20.deploy("Dai", "DAI", 18);
+
+        for (const token of [usdc, usdt, dai]) {
+            await token.mint(owner.address, ethers.parseEther("100000"));
+        }
+        await usdc.mint(user.address, ethers.parseEther("1000"));
+
+        smallShard = await deployPool(usdc, usdt, ethers.parseEther("1000"));
+        largeShard = await deployPool(usdc, usdt, ethers.parseEther("10000"));
+        otherPair = await deployPool(usdt, dai, ethers.parseEther("10000"));
+
+        const Zap = await ethers.getContractFactory("SAMMZap");
+        zap = await Zap.deploy();
+        await zap.waitForDeployment();
+    });
+
+    it("should deposit a single token into the target shard, swapping through another shard", async function () {
+        const amountIn = ethers.parseEther("100");
+        const split = await zapInSplit(amountIn);
+        const [largeUsdcBefore] = await largeShard.getReserves();
+
+        await usdc.connect(user).approve(await zap.getAddress(), amountIn);
+        await expect(
+            zap.connect(user).zapIn(
+                await smallShard.getAddress(), await largeShard.getAddress(), await usdc.getAddress(),
+                amountIn, split.swapAmountOut, split.swapAmountIn, split.expectedLiquidity,
+                user.address, await deadline()
+            )
+        ).to.emit(zap, "ZapIn")
+            .withArgs(user.address, user.address, await smallShard.getAddress(), await usdc.getAddress(), amountIn, split.expectedLiquidity);
+
+        expect(await smallShard.balanceOf(user.address)).to.equal(split.expectedLiquidity);
+        // The swap moved the large shard, not the target
+        const [largeUsdcAfter] = await largeShard.getReserves();
+        expect(largeUsdcAfter - largeUsdcBefore).to.equal(split.swapAmountIn);
+
+        // Only rounding dust is refunded, and nothing stays in the zap
+        expect(await usdc.balanceOf(user.address)).to.be.closeTo(ethers.parseEther("900"), ethers.parseEther("0.001"));
+        for (const token of [usdc, usdt]) {
+            expect(await token.balanceOf(await zap.getAddress())).to.equal(0n);
+            expect(await token.allowance(await zap.getAddress(), await smallShard.getAddress())).to.equal(0n);
+        }
+    });
+
+    it("should revert the whole zap when fewer LP tokens than the minimum are minted", async function () {
+        const amountIn = ethers.parseEther("100");
+        const split = await zapInSplit(amountIn);
+
+        await usdc.connect(user).approve(await zap.getAddress(), amountIn);
+        await expect(
+            zap.connect(user).zapIn(
+                await smallShard.getAddress(), await largeShard.getAddress(), await usdc.getAddress(),
+                amountIn, split.swapAmountOut, split.swapAmountIn, split.expectedLiquidity + 1n,
+                user.address, await deadline()
+            )
+        ).to.be.revertedWith("SAMMZap: insufficient liquidity");
+
+        expect(await usdc.balanceOf(user.address)).to.equal(ethers.parseEther("1000"));
+        expect(await smallShard.balanceOf(user.address)).to.equal(0n);
+    });
+
+    it("should withdraw into a single token and enforce the minimum output", async function () {
+        const amountIn = ethers.parseEther("100");
+        const split = await zapInSplit(amountIn);
+        await usdc.connect(user).approve(await zap.getAddress(), amountIn);
+        await zap.connect(user).zapIn(
+            await smallShard.getAddress(), await largeShard.getAddress(), await usdc.getAddress(),
+            amountIn, split.swapAmountOut, split.swapAmountIn, 0, user.address, await deadline()
+        );
+
+        const liquidity = await smallShard.balanceOf(user.address);
+        const [reserveUsdc, reserveUsdt] = await smallShard.getReserves();
+        const totalSupply = await smallShard.totalSupply();
+        const usdcOut = liquidity * reserveUsdc / totalSupply;
+        const usdtOut = liquidity * reserveUsdt / totalSupply;
+        // Sell 99% of the USDT, leaving room for the fee
+        const swapAmountOut = usdtOut * 99n / 100n - ethers.parseEther("1");
+        const swapCost = (await largeShard.calculateSwapSAMM(swapAmountOut, await usdt.getAddress(), await usdc.getAddress())).amountIn;
+        const usdcBefore = await usdc.balanceOf(user.address);
+
+        await smallShard.connect(user).approve(await zap.getAddress(), liquidity);
+        await expect(
+            zap.connect(user).zapOut(
+                await smallShard.getAddress(), await largeShard.getAddress(), liquidity, await usdc.getAddress(),
+                swapAmountOut, usdcOut + swapAmountOut + 1n, user.address, await deadline()
+            )
+        ).to.be.revertedWith("SAMMZap: insufficient output");
+
+        await expect(
+            zap.connect(user).zapOut(
+                await smallShard.getAddress(), await largeShard.getAddress(), liquidity, await usdc.getAddress(),
+                swapAmountOut, usdcOut + swapAmountOut, user.address, await deadline()
+            )
+        ).to.emit(zap, "ZapOut")
+            .withArgs(user.address, user.address, await smallShard.getAddress(), await usdc.getAddress(), liquidity, usdcOut + swapAmountOut);
+
+        expect(await usdc.balanceOf(user.address) - usdcBefore).to.equal(usdcOut + swapAmountOut);
+        // The unsold USDT is paid out rather than left in the zap
+        expect(await usdt.balanceOf(user.address)).to.equal(usdtOut - swapCost);
+        expect(await smallShard.balanceOf(user.address)).to.equal(0n);
+        expect(await usdt.balanceOf(await zap.getAddress())).to.equal(0n);
+    });
+
+    it("should reject swaps through the target shard, mismatched pairs and expired zaps", async function () {
+        const amountIn = ethers.parseEther("100");
+        await usdc.connect(user).approve(await zap.getAddress(), amountIn);
+        const args = (swapPool, recipient, until) => [
+            smallShard.getAddress(), swapPool, usdc.getAddress(), amountIn,
+            ethers.parseEther("40"), ethers.parseEther("50"), 0, recipient, until
+        ];
+
+        await expect(
+            zap.connect(user).zapIn(...args(await smallShard.getAddress(), user.address, await deadline()))
+        ).to.be.revertedWith("SAMMZap: swap through target shard");
+
+        await expect(
+            zap.connect(user).zapIn(...args(await otherPair.getAddress(), user.address, await deadline()))
+        ).to.be.revertedWith("SAMMZap: pair mismatch");
+
+        await expect(
+            zap.connect(user).zapIn(...args(await largeShard.getAddress(), ethers.ZeroAddress, await deadline()))
+        ).to.be.revertedWith("SAMMZap: zero recipient");
+
+        const block = await ethers.provider.getBlock("latest");
+        await expect(
+            zap.connect(user).zapIn(...args(await largeShard.getAddress(), user.address, block.timestamp - 1))
+        ).to.be.revertedWith("SAMMZap: expired");
+    });
+});
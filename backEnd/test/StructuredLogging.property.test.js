@@ -0,0 +1,143 @@
+const { expect } = require('chai');
+const fc = require('fast-check');
+const { randomUUID } = require('crypto');
+
+/**
+ * Property-Based Tests for structured logging
+ *
+ * The logger is a TypeScript module, so its redaction and request ID resolution
+ * are mirrored below. The properties check that no user address under a redacted
+ * key reaches a log line at any depth while other fields are kept, and that only
+ * well-formed caller request IDs are reused.
+ */
+
+describe('Structured Logging Property Tests', function() {
+  this.timeout(30000);
+
+  const REDACT_KEYS = new Set(['useraddress', 'user', 'recipient', 'sender', 'from', 'owner', 'trader', 'account', 'wallet']);
+  const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+  const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+  // Mirror of maskAddress / toLogValue
+  function maskAddress(address) {
+    return `${address.slice(0, 6)}…${address.slice(-4)}`;
+  }
+
+  function redactValue(value) {
+    if (value === null || value === undefined) return value;
+    if (typeof value === 'string' && ADDRESS_PATTERN.test(value)) return maskAddress(value);
+    return '[Redacted]';
+  }
+
+  function toLogValue(value, depth = 0, seen = new WeakSet()) {
+    if (value === null || value === undefined) return value;
+    if (typeof value === 'bigint') return value.toString();
+    if (typeof value !== 'object') return value;
+    if (depth >= 8) return '[Truncated]';
+    if (seen.has(value)) return '[Circular]';
+    seen.add(value);
+
+    let result;
+    if (Array.isArray(value)) {
+      result = value.map(item => toLogValue(item, depth + 1, seen));
+    } else {
+      result = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = REDACT_KEYS.has(key.toLowerCase()) ? redactValue(item) : toLogValue(item, depth + 1, seen);
+      }
+    }
+    seen.delete(value);
+    return result;
+  }
+
+  // Mirror of resolveRequestId
+  function resolveRequestId(header) {
+    const value = Array.isArray(header) ? header[0] : header;
+    return typeof value === 'string' && REQUEST_ID_PATTERN.test(value) ? value : randomUUID();
+  }
+
+  const addressArb = fc.string({ unit: fc.constantFrom(...'0123456789abcdefABCDEF'), minLength: 40, maxLength: 40 })
+    .map(hex => `0x${hex}`);
+
+  /**
+   * Property: user addresses under redacted keys never appear in full, at any depth
+   */
+  it('Property: redacted fields are masked and other fields are kept', function() {
+    const dataArb = fc.letrec(tie => ({
+      node: fc.dictionary(
+        fc.constantFrom('userAddress', 'recipient', 'Owner', 'poolAddress', 'amount', 'hops', 'route'),
+        fc.oneof(
+          { depthSize: 'small' },
+          addressArb,
+          fc.bigInt({ min: 0n, max: 10n ** 30n }),
+          fc.integer(),
+          tie('node'),
+          fc.array(tie('node'), { maxLength: 3 })
+        ),
+        { maxKeys: 5 }
+      )
+    })).node;
+
+    fc.assert(
+      fc.property(dataArb, (data) => {
+        const logged = toLogValue(data);
+        const line = JSON.stringify(logged);
+
+        // Collect every address under a redacted key in the input
+        const hidden = [];
+        (function walk(value) {
+          if (!value || typeof value !== 'object') return;
+          for (const [key, item] of Object.entries(value)) {
+            if (REDACT_KEYS.has(key.toLowerCase()) && typeof item === 'string') hidden.push(item);
+            else walk(item);
+          }
+        })(data);
+
+        for (const address of hidden) {
+          expect(line).to.not.include(address);
+        }
+
+        // At the top level, redacted fields are masked and the others are kept
+        for (const [key, item] of Object.entries(data)) {
+          if (REDACT_KEYS.has(key.toLowerCase())) {
+            expect(logged[key]).to.equal(typeof item === 'string' ? maskAddress(item) : '[Redacted]');
+          } else if (typeof item === 'bigint') {
+            expect(logged[key]).to.equal(item.toString());
+          } else if (typeof item === 'string') {
+            expect(logged[key]).to.equal(item);
+          }
+        }
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  /**
+   * Property: a well-formed caller ID is kept, anything else gets a fresh UUID
+   */
+  it('Property: request IDs are reused only when well formed', function() {
+    fc.assert(
+      fc.property(
+        fc.oneof(
+          fc.string({ unit: fc.constantFrom('a', 'Z', '0', '.', '_', ':', '-'), minLength: 1, maxLength: 128 }),
+          fc.string({ unit: fc.constantFrom('a', ' ', '\n', '"', '{', '0'), maxLength: 40 }),
+          fc.string({ unit: fc.constantFrom('a', '1'), minLength: 129, maxLength: 200 }),
+          fc.constant(undefined)
+        ),
+        (header) => {
+          const requestId = resolveRequestId(header);
+          expect(requestId).to.match(REQUEST_ID_PATTERN);
+
+          if (typeof header === 'string' && REQUEST_ID_PATTERN.test(header)) {
+            expect(requestId).to.equal(header);
+            expect(resolveRequestId([header, 'other'])).to.equal(header);
+          } else {
+            expect(requestId).to.not.equal(header);
+            expect(requestId).to.match(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+          }
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+});
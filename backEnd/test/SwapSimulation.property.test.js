@@ -0,0 +1,252 @@
+/**
+ * Property-Based Tests for multi-hop swap simulation
+ *
+ * SwapSimulationService is a TypeScript module, so its per-hop simulation and
+ * revert decoding are mirrored below and run against deployed SAMMPool shards.
+ * The properties check that the simulated trace matches what executing the
+ * hops actually moves, that a simulation pinned to a block ignores later
+ * trades, and that every revert is predicted with the reason the chain reports.
+ */
+
+const { expect } = require('chai');
+const fc = require('fast-check');
+const { ethers, network } = require('hardhat');
+
+describe('Swap Simulation Property Tests', function () {
+  const POOL_REVERT_PREFIXES = ['SAMMPool:', 'SAMMCurve:', 'SAMMFees:'];
+
+  let owner;
+  let trader;
+  let tokenA;
+  let tokenB;
+  let tokenC;
+  let poolAB;
+  let poolBC;
+
+  // Mirror of decodeRevertReason
+  function decodeRevertReason(error) {
+    if (error?.revert?.name === 'Error' && typeof error.revert.args?.[0] === 'string') {
+      return error.revert.args[0];
+    }
+
+    const data = [error?.data, error?.info?.error?.data, error?.error?.data]
+      .find(candidate => typeof candidate === 'string' && candidate.startsWith('0x'));
+    if (data === '0x') return 'Reverted without a reason';
+    if (data && data.length >= 10) {
+      const selector = data.slice(0, 10).toLowerCase();
+      const coder = ethers.AbiCoder.defaultAbiCoder();
+      if (selector === '0x08c379a0') return coder.decode(['string'], `0x${data.slice(10)}`)[0];
+      if (selector === '0x4e487b71') return `Panic(0x${coder.decode(['uint256'], `0x${data.slice(10)}`)[0].toString(16)})`;
+      return `Custom error ${selector}`;
+    }
+
+    return error?.reason || error?.shortMessage || error?.message || 'Unknown error';
+  }
+
+  // Mirror of SwapSimulationService.simulateHop
+  async function simulateHop(shard, amountOut, maxAmountIn, tokenIn, tokenOut, recipient, from, blockTag) {
+    // Read-only like the service's pool contract, so `from` can be overridden
+    const pool = shard.connect(ethers.provider);
+    const trace = { actualAmountIn: 0n, actualAmountOut: amountOut, actualFee: 0n, success: true };
+
+    try {
+      const quote = await pool.calculateSwapSAMM.staticCall(amountOut, tokenIn, tokenOut, { blockTag });
+      trace.actualAmountIn = quote.amountIn;
+      trace.actualFee = quote.tradeFee + quote.ownerFee;
+    } catch (error) {
+      return { ...trace, success: false, revertReason: decodeRevertReason(error) };
+    }
+
+    try {
+      await pool.swapSAMM.staticCall(amountOut, maxAmountIn, tokenIn, tokenOut, recipient, { from, blockTag });
+    } catch (error) {
+      const reason = decodeRevertReason(error);
+      if (POOL_REVERT_PREFIXES.some(prefix => reason.startsWith(prefix))) {
+        return { ...trace, success: false, revertReason: reason };
+      }
+    }
+
+    return trace;
+  }
+
+  async function deployPool(tokenX, tokenY, amountX, amountY) {
+    const SAMMPool = await ethers.getContractFactory('SAMMPool');
+    const pool = await SAMMPool.deploy(await tokenX.getAddress(), await tokenY.getAddress(), 'SAMM Pool', 'SAMM-LP');
+    await tokenX.approve(await pool.getAddress(), ethers.MaxUint256);
+    await tokenY.approve(await pool.getAddress(), ethers.MaxUint256);
+    await pool.initialize(await tokenX.getAddress(), await tokenY.getAddress(), amountX, amountY, 25, 10000, 5, 10000);
+    return pool;
+  }
+
+  // Largest output the c-threshold allows for a hop paying `inputReserve` (18 decimals normalized)
+  async function maxOutput(pool, inputReserve, outputDecimals) {
+    const [, , , c] = await pool.getSAMMParams();
+    const normalizedOut = (inputReserve * c) / 1000000n;
+    return outputDecimals === 18 ? normalizedOut : normalizedOut / 10n ** BigInt(18 - outputDecimals);
+  }
+
+  before(async function () {
+    [owner, trader] = await ethers.getSigners();
+
+    const MockERC20 = await ethers.getContractFactory('MockERC20');
+    tokenA = await MockERC20.deploy('Token A', 'TKA', 18);
+    tokenB = await MockERC20.deploy('Token B', 'TKB', 6);
+    tokenC = await MockERC20.deploy('Token C', 'TKC', 18);
+
+    await tokenA.mint(owner.address, ethers.parseUnits('100000000', 18));
+    await tokenB.mint(owner.address, ethers.parseUnits('100000000', 6));
+    await tokenC.mint(owner.address, ethers.parseUnits('100000000', 18));
+    await tokenA.mint(trader.address, ethers.parseUnits('1000000', 18));
+
+    poolAB = await deployPool(tokenA, tokenB, ethers.parseUnits('1000000', 18), ethers.parseUnits('2000000', 6));
+    poolBC = await deployPool(tokenB, tokenC, ethers.parseUnits('2000000', 6), ethers.parseUnits('500000', 18));
+
+    await tokenA.connect(trader).approve(await poolAB.getAddress(), ethers.MaxUint256);
+    await tokenB.connect(trader).approve(await poolBC.getAddress(), ethers.MaxUint256);
+  });
+
+  /**
+   * Property: the simulated trace is what executing the hops moves
+   */
+  it('Property: simulated per-hop amounts match executed swaps A -> B -> C', async function () {
+    this.timeout(300000);
+
+    // Hop 1 pays about four B per C, so its c-threshold binds well before hop 2's
+    const [reserveB] = await poolBC.getReserves();
+    const cMax = (await maxOutput(poolBC, reserveB * 10n ** 12n, 18)) / 10n;
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1, max: 95 }),
+        async (percentOfMax) => {
+          const snapshotId = await network.provider.send('evm_snapshot');
+          try {
+            const amountOutC = (cMax * BigInt(percentOfMax)) / 100n;
+            const blockTag = await ethers.provider.getBlockNumber();
+
+            // Exact output propagates backwards: hop 2 fixes how much B hop 1 must deliver
+            const quoteBC = await poolBC.calculateSwapSAMM(amountOutC, await tokenB.getAddress(), await tokenC.getAddress());
+            const amountOutB = quoteBC.amountIn;
+
+            const hop1 = await simulateHop(
+              poolAB, amountOutB, ethers.MaxUint256, await tokenA.getAddress(), await tokenB.getAddress(),
+              trader.address, trader.address, blockTag
+            );
+            const hop2 = await simulateHop(
+              poolBC, amountOutC, ethers.MaxUint256, await tokenB.getAddress(), await tokenC.getAddress(),
+              trader.address, trader.address, blockTag
+            );
+
+            expect(hop1.success).to.equal(true);
+            expect(hop2.success).to.equal(true);
+            expect(hop1.actualAmountOut).to.be.at.least(hop2.actualAmountIn);
+
+            // Execute the same hops and compare balances
+            const balanceA = await tokenA.balanceOf(trader.address);
+            const balanceC = await tokenC.balanceOf(trader.address);
+            await poolAB.connect(trader).swapSAMM(amountOutB, ethers.MaxUint256, await tokenA.getAddress(), await tokenB.getAddress(), trader.address);
+            await poolBC.connect(trader).swapSAMM(amountOutC, ethers.MaxUint256, await tokenB.getAddress(), await tokenC.getAddress(), trader.address);
+
+            expect(balanceA - (await tokenA.balanceOf(trader.address))).to.equal(hop1.actualAmountIn);
+            expect((await tokenC.balanceOf(trader.address)) - balanceC).to.equal(hop2.actualAmountOut);
+          } finally {
+            await network.provider.send('evm_revert', [snapshotId]);
+          }
+        }
+      ),
+      { numRuns: 15 }
+    );
+  });
+
+  /**
+   * Property: a simulation pinned to a block is not affected by later trades
+   */
+  it('Property: simulating against a past block ignores trades mined after it', async function () {
+    this.timeout(300000);
+
+    const [reserveA] = await poolAB.getReserves();
+    const cMax = await maxOutput(poolAB, reserveA, 6);
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1, max: 90 }),
+        fc.integer({ min: 1, max: 90 }),
+        async (simulatedPercent, interveningPercent) => {
+          const snapshotId = await network.provider.send('evm_snapshot');
+          try {
+            const amountOut = (cMax * BigInt(simulatedPercent)) / 100n;
+            const args = [amountOut, ethers.MaxUint256, await tokenA.getAddress(), await tokenB.getAddress(), trader.address, trader.address];
+
+            const blockTag = await ethers.provider.getBlockNumber();
+            const before = await simulateHop(poolAB, ...args, blockTag);
+
+            // Someone else trades in between
+            await poolAB.swapSAMM((cMax * BigInt(interveningPercent)) / 100n, ethers.MaxUint256, await tokenA.getAddress(), await tokenB.getAddress(), owner.address);
+
+            const pinned = await simulateHop(poolAB, ...args, blockTag);
+            const latest = await simulateHop(poolAB, ...args, 'latest');
+
+            expect(pinned).to.deep.equal(before);
+            expect(latest.actualAmountIn).to.be.greaterThan(before.actualAmountIn);
+          } finally {
+            await network.provider.send('evm_revert', [snapshotId]);
+          }
+        }
+      ),
+      { numRuns: 10 }
+    );
+  });
+
+  /**
+   * Property: every revert is predicted, with the reason the chain reports
+   */
+  it('Property: simulation predicts reverts and decodes their reasons', async function () {
+    this.timeout(300000);
+
+    const [reserveA] = await poolAB.getReserves();
+    const cMax = await maxOutput(poolAB, reserveA, 6);
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1, max: 200 }),
+        fc.integer({ min: 50, max: 150 }),
+        async (percentOfMax, maxInPercent) => {
+          const snapshotId = await network.provider.send('evm_snapshot');
+          try {
+            const amountOut = (cMax * BigInt(percentOfMax)) / 100n;
+            const tokenIn = await tokenA.getAddress();
+            const tokenOut = await tokenB.getAddress();
+
+            // Bound the input around what the pool would charge, when it can quote at all
+            let maxAmountIn = ethers.MaxUint256;
+            try {
+              const quote = await poolAB.calculateSwapSAMM(amountOut, tokenIn, tokenOut);
+              maxAmountIn = (quote.amountIn * BigInt(maxInPercent)) / 100n;
+            } catch {
+              // Output beyond the reserves; the simulation must report it
+            }
+
+            const simulated = await simulateHop(poolAB, amountOut, maxAmountIn, tokenIn, tokenOut, trader.address, trader.address, 'latest');
+
+            let executedReason = null;
+            try {
+              const tx = await poolAB.connect(trader).swapSAMM(amountOut, maxAmountIn, tokenIn, tokenOut, trader.address);
+              await tx.wait();
+            } catch (error) {
+              executedReason = decodeRevertReason(error);
+            }
+
+            expect(simulated.success).to.equal(executedReason === null);
+            if (executedReason !== null) {
+              expect(simulated.revertReason).to.equal(executedReason);
+              expect(executedReason).to.match(/^SAMM(Pool|Curve|Fees):/);
+            }
+          } finally {
+            await network.provider.send('evm_revert', [snapshotId]);
+          }
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+});
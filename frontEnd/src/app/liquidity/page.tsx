@@ -2,11 +2,15 @@
 
 import React, { useState } from "react";
 import { motion } from "framer-motion";
-import { formatUnits } from "viem";
+import { formatUnits, parseUnits } from "viem";
 import { useLiquidity } from "@/hooks/useLiquidity";
 import { useLiquidityPositions } from "@/hooks/useLiquidityPositions";
+import { useRebalancePlan } from "@/hooks/useRebalancePlan";
+import { useZap } from "@/hooks/useZap";
 import { useAccount } from "wagmi";
 import { SlippageSettings } from "@/components/swap/SlippageSettings";
+import { RebalancePanel } from "@/components/pools/RebalancePanel";
+import { ZapPlanSummary } from "@/components/pools/ZapPlanSummary";
 import toast from "react-hot-toast";
 
 type TabType = "add" | "remove" | "positions";
@@ -16,6 +20,10 @@ export default function LiquidityPage() {
   const [activeTab, setActiveTab] = useState<TabType>("add");
   const [slippageTolerance, setSlippageTolerance] = useState(0.5);
   const [showSlippageSettings, setShowSlippageSettings] = useState(false);
+  // Single-token mode zaps through another shard of the pair
+  const [singleToken, setSingleToken] = useState(false);
+  const [zapTokenAddress, setZapTokenAddress] = useState("");
+  const [zapAmount, setZapAmount] = useState("");
 
   const {
     loading,
@@ -37,12 +45,69 @@ export default function LiquidityPage() {
     setLPTokenAmount,
     addLiquidity,
     removeLiquidity,
+    refreshPools,
+    refreshBalances,
     canAddLiquidity,
     canRemoveLiquidity,
     validationError,
   } = useLiquidity();
 
-  const { positions, hasPositions, loading: positionsLoading } = useLiquidityPositions();
+  const { positions, hasPositions, loading: positionsLoading, refreshAfterOperation } = useLiquidityPositions();
+  const rebalance = useRebalancePlan();
+  const zap = useZap();
+  const zapMode = singleToken && zap.zapAvailable;
+
+  const zapToken = selectedPool
+    ? [selectedPool.tokenA, selectedPool.tokenB].find((token) => token.address === zapTokenAddress) ?? selectedPool.tokenA
+    : null;
+  const zapTokenBalance = zapToken && selectedPool && zapToken.address === selectedPool.tokenB.address
+    ? tokenBBalance
+    : tokenABalance;
+
+  const parseZapAmount = (amount: string, decimals: number) => {
+    try {
+      return parseUnits(amount || "0", decimals);
+    } catch {
+      return BigInt(0);
+    }
+  };
+  const zapAmountIn = zapToken ? parseZapAmount(zapAmount, zapToken.decimals) : BigInt(0);
+  const zapLiquidity = parseZapAmount(lpTokenAmount, 18);
+
+  const positionPairs = Array.from(new Set(positions.map((position) => position.pairName)));
+
+  const shardLabel = (poolAddress: string) => {
+    const pool = pools.find((p) => p.address.toLowerCase() === poolAddress.toLowerCase());
+    return pool ? `Shard ${pool.shardNumber}` : `${poolAddress.slice(0, 8)}...`;
+  };
+
+  const handleRebalance = async () => {
+    if (await rebalance.executePlan(slippageTolerance)) {
+      await refreshAfterOperation();
+    }
+  };
+
+  const refreshAfterZap = async () => {
+    await Promise.all([refreshPools(), refreshBalances(), refreshAfterOperation()]);
+  };
+
+  const handleZapIn = async () => {
+    const hash = await zap.executeZapIn(slippageTolerance);
+    if (hash) {
+      toast.success(`Transaction: ${hash.slice(0, 10)}...`);
+      setZapAmount("");
+      await refreshAfterZap();
+    }
+  };
+
+  const handleZapOut = async () => {
+    const hash = await zap.executeZapOut(slippageTolerance);
+    if (hash) {
+      toast.success(`Transaction: ${hash.slice(0, 10)}...`);
+      setLPTokenAmount("");
+      await refreshAfterZap();
+    }
+  };
 
   const handleAddLiquidity = async () => {
     const hash = await addLiquidity(slippageTolerance);
@@ -127,7 +192,12 @@ export default function LiquidityPage() {
                     <label className="block text-sm text-gray-400 mb-2">Select Pool</label>
                     <select
                       value={selectedPool?.address || ""}
-                      onChange={(e) => selectPool(e.target.value as any)}
+                      onChange={(e) => {
+                        selectPool(e.target.value as any);
+                        setZapTokenAddress("");
+                        setZapAmount("");
+                        zap.clearPlans();
+                      }}
                       className="w-full p-4 bg-white/5 border border-white/10 rounded-xl text-white focus:outline-none focus:border-purple-500"
                     >
                       <option value="">Select a pool...</option>
@@ -140,8 +210,100 @@ export default function LiquidityPage() {
                   </div>
                 )}
 
+                {/* Single Token Toggle */}
+                {(activeTab === "add" || activeTab === "remove") && selectedPool && zap.zapAvailable && (
+                  <div className="flex gap-2 mb-4">
+                    {[false, true].map((single) => (
+                      <button
+                        key={String(single)}
+                        onClick={() => {
+                          setSingleToken(single);
+                          zap.clearPlans();
+                        }}
+                        className={`flex-1 py-2 rounded-lg text-sm transition-all ${
+                          singleToken === single
+                            ? "bg-purple-500/20 text-purple-400 border border-purple-500/30"
+                            : "bg-white/5 text-gray-400 border border-white/10 hover:bg-white/10"
+                        }`}
+                      >
+                        {single ? "Single Token" : "Both Tokens"}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {/* Single Token Add */}
+                {activeTab === "add" && selectedPool && zapMode && zapToken && (
+                  <div className="space-y-4">
+                    <div className="p-4 bg-white/5 rounded-xl border border-white/10">
+                      <div className="flex justify-between mb-2">
+                        <select
+                          value={zapToken.address}
+                          onChange={(e) => {
+                            setZapTokenAddress(e.target.value);
+                            zap.clearPlans();
+                          }}
+                          className="bg-transparent text-sm text-gray-400 focus:outline-none"
+                        >
+                          {[selectedPool.tokenA, selectedPool.tokenB].map((token) => (
+                            <option key={token.address} value={token.address}>{token.symbol}</option>
+                          ))}
+                        </select>
+                        <span className="text-sm text-gray-400">
+                          Balance: {formatUnits(zapTokenBalance, zapToken.decimals).slice(0, 10)}
+                        </span>
+                      </div>
+                      <input
+                        type="number"
+                        value={zapAmount}
+                        onChange={(e) => {
+                          setZapAmount(e.target.value);
+                          zap.clearPlans();
+                        }}
+                        placeholder="0.0"
+                        className="w-full bg-transparent text-2xl font-medium focus:outline-none"
+                      />
+                    </div>
+
+                    <p className="text-xs text-gray-400">
+                      The liquidity router picks the {selectedPool.pairName} shard to deposit into and swaps part of
+                      your {zapToken.symbol} through another shard in the same transaction.
+                    </p>
+
+                    {zap.zapInPlan && (
+                      <ZapPlanSummary
+                        plan={zap.zapInPlan}
+                        pool={pools.find((pool) => pool.address.toLowerCase() === zap.zapInPlan?.pool.toLowerCase()) ?? selectedPool}
+                        shardLabel={shardLabel}
+                      />
+                    )}
+                    {zap.error && <p className="text-red-400 text-sm text-center">{zap.error}</p>}
+                    {zapAmountIn > zapTokenBalance && (
+                      <p className="text-red-400 text-sm text-center">Insufficient {zapToken.symbol} balance</p>
+                    )}
+
+                    {zap.zapInPlan ? (
+                      <button
+                        onClick={handleZapIn}
+                        disabled={zap.executing || zapAmountIn > zapTokenBalance}
+                        className="w-full py-4 rounded-xl font-semibold transition-all bg-gradient-to-r from-purple-500 to-purple-600 hover:from-purple-600 hover:to-purple-700 disabled:from-gray-600 disabled:to-gray-600 disabled:cursor-not-allowed"
+                      >
+                        {zap.executing ? "Processing..." : `Add Liquidity with ${zapToken.symbol}`}
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => zap.fetchZapInPlan(selectedPool, zapToken.address, zapAmountIn)}
+                        disabled={zap.loading || zapAmountIn === BigInt(0) || zapAmountIn > zapTokenBalance}
+                        className="w-full py-4 rounded-xl font-semibold transition-all bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {zap.loading ? "Planning..." : "Preview Zap"}
+                      </button>
+                    )}
+                  </div>
+                )}
+
                 {/* Add Liquidity Tab */}
-                {activeTab === "add" && selectedPool && (
+                {activeTab === "add" && selectedPool && !zapMode && (
                   <div className="space-y-4">
                     {/* Token A Input */}
                     <div className="p-4 bg-white/5 rounded-xl border border-white/10">
@@ -220,8 +382,85 @@ export default function LiquidityPage() {
                   </div>
                 )}
 
+                {/* Single Token Remove */}
+                {activeTab === "remove" && selectedPool && zapMode && zapToken && (
+                  <div className="space-y-4">
+                    <div className="p-4 bg-white/5 rounded-xl border border-white/10">
+                      <div className="flex justify-between mb-2">
+                        <span className="text-sm text-gray-400">LP Tokens</span>
+                        <span className="text-sm text-gray-400">
+                          Balance: {formatUnits(userLPBalance, 18).slice(0, 12)}
+                        </span>
+                      </div>
+                      <input
+                        type="number"
+                        value={lpTokenAmount}
+                        onChange={(e) => {
+                          setLPTokenAmount(e.target.value);
+                          zap.clearPlans();
+                        }}
+                        placeholder="0.0"
+                        className="w-full bg-transparent text-2xl font-medium focus:outline-none"
+                      />
+                    </div>
+
+                    <div className="flex gap-2">
+                      {[25, 50, 75, 100].map((percent) => (
+                        <button
+                          key={percent}
+                          onClick={() => {
+                            setPercentage(percent);
+                            zap.clearPlans();
+                          }}
+                          className="flex-1 py-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg text-sm transition-all"
+                        >
+                          {percent}%
+                        </button>
+                      ))}
+                    </div>
+
+                    <div className="flex items-center justify-between p-4 bg-white/5 rounded-xl border border-white/10">
+                      <span className="text-sm text-gray-400">Receive</span>
+                      <select
+                        value={zapToken.address}
+                        onChange={(e) => {
+                          setZapTokenAddress(e.target.value);
+                          zap.clearPlans();
+                        }}
+                        className="bg-transparent text-white focus:outline-none"
+                      >
+                        {[selectedPool.tokenA, selectedPool.tokenB].map((token) => (
+                          <option key={token.address} value={token.address}>{token.symbol}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {zap.zapOutPlan && <ZapPlanSummary plan={zap.zapOutPlan} pool={selectedPool} shardLabel={shardLabel} />}
+                    {zap.error && <p className="text-red-400 text-sm text-center">{zap.error}</p>}
+                    {validationError && <p className="text-red-400 text-sm text-center">{validationError}</p>}
+
+                    {zap.zapOutPlan ? (
+                      <button
+                        onClick={handleZapOut}
+                        disabled={zap.executing || !canRemoveLiquidity}
+                        className="w-full py-4 rounded-xl font-semibold transition-all bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 disabled:from-gray-600 disabled:to-gray-600 disabled:cursor-not-allowed"
+                      >
+                        {zap.executing ? "Processing..." : `Remove Liquidity as ${zapToken.symbol}`}
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => zap.fetchZapOutPlan(selectedPool, zapLiquidity, zapToken.address)}
+                        disabled={zap.loading || !canRemoveLiquidity}
+                        className="w-full py-4 rounded-xl font-semibold transition-all bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {zap.loading ? "Planning..." : "Preview Zap"}
+                      </button>
+                    )}
+                  </div>
+                )}
+
                 {/* Remove Liquidity Tab */}
-                {activeTab === "remove" && selectedPool && (
+                {activeTab === "remove" && selectedPool && !zapMode && (
                   <div className="space-y-4">
                     {/* LP Token Balance */}
                     <div className="p-4 bg-white/5 rounded-xl border border-white/10">
@@ -320,6 +559,31 @@ export default function LiquidityPage() {
                       </div>
                     ) : (
                       <div className="space-y-3">
+                        <div className="flex flex-wrap gap-2">
+                          {positionPairs.map((pairName) => (
+                            <button
+                              key={pairName}
+                              onClick={() => rebalance.fetchPlan(positions.filter((position) => position.pairName === pairName))}
+                              disabled={rebalance.loading || rebalance.executing}
+                              className="px-4 py-2 bg-purple-500/20 text-purple-400 rounded-lg text-sm hover:bg-purple-500/30 transition-all disabled:opacity-50"
+                            >
+                              Rebalance {pairName}
+                            </button>
+                          ))}
+                        </div>
+                        {rebalance.pairName && (
+                          <RebalancePanel
+                            pairName={rebalance.pairName}
+                            plan={rebalance.plan}
+                            loading={rebalance.loading}
+                            executing={rebalance.executing}
+                            progress={rebalance.progress}
+                            error={rebalance.error}
+                            shardLabel={shardLabel}
+                            onExecute={handleRebalance}
+                            onClose={rebalance.clearPlan}
+                          />
+                        )}
                         {positions.map((position) => (
                           <div
                             key={position.poolAddress}
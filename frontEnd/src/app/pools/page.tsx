@@ -12,11 +12,14 @@ import {
   FunnelIcon,
   ArrowPathIcon,
   ExclamationTriangleIcon,
+  PlusIcon,
 } from '@heroicons/react/24/outline';
 import { TokenPairIcon } from '@/components/tokens/TokenIcon';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { ShardCreator } from '@/components/pools/ShardCreator';
 import { usePoolStore } from '@/stores/poolStore';
 import { usePoolRefresh } from '@/hooks/usePoolRefresh';
+import { usePoolListSubscriptions } from '@/hooks/usePoolUpdates';
 import { useChainId } from 'wagmi';
 import { getDexConfig } from '@/config/dex-config-loader';
 import { getAutoRefreshInterval } from '@/config/pool-refresh-config';
@@ -77,6 +80,7 @@ export default function PoolsPage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedPair, setSelectedPair] = useState<string>('all');
   const [showFilters, setShowFilters] = useState(false);
+  const [showShardCreator, setShowShardCreator] = useState(false);
   
   // Get current chain
   const chainId = useChainId();
@@ -96,6 +100,9 @@ export default function PoolsPage() {
     refreshInterval: getAutoRefreshInterval(), // Configurable, default 30 seconds
   });
 
+  // Push shard updates while connected; polling resumes if the WebSocket drops
+  usePoolListSubscriptions();
+
   const poolsData = useMemo(() => {
     return pools.map(pool => ({
       poolAddress: pool.address,
@@ -199,6 +206,14 @@ export default function PoolsPage() {
               className="flex flex-col items-center gap-3 mt-6"
             >
               <div className="flex items-center gap-3">
+                <button
+                  onClick={() => setShowShardCreator(true)}
+                  className="flex items-center gap-2 px-4 py-2 backdrop-blur-xl bg-purple-500/20 border border-purple-500/30 rounded-xl hover:bg-purple-500/30 hover:border-purple-500/50 text-white transition-all"
+                >
+                  <PlusIcon className="w-4 h-4" />
+                  <span className="text-sm">Create Shard</span>
+                </button>
+
                 <button
                   onClick={manualRefresh}
                   disabled={isBackgroundRefresh}
@@ -468,6 +483,8 @@ export default function PoolsPage() {
           </>
         )}
       </div>
+
+      <ShardCreator isOpen={showShardCreator} onClose={() => setShowShardCreator(false)} />
     </div>
   );
 }
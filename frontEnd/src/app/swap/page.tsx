@@ -9,6 +9,7 @@ import { SwapQuote } from "@/lib/shardedDex";
 import { TokenIcon } from "@/components/tokens/TokenIcon";
 import { SwapSuccessModal } from "@/components/swap/SwapSuccessModal";
 import { SlippageSettings } from "@/components/swap/SlippageSettings";
+import { OpenOrdersPanel } from "@/components/swap/OpenOrdersPanel";
 import { isChainSupported } from "@/config/dex-config-loader";
 import toast from "react-hot-toast";
 
@@ -441,6 +442,11 @@ export default function SwapPage() {
             )}
           </div>
 
+          {/* Limit and TWAP Orders */}
+          {isConnected && chainSupported && (
+            <OpenOrdersPanel tokens={tokens} inputToken={inputToken} outputToken={outputToken} />
+          )}
+
           {/* Available Shards */}
           {pools.length > 0 && (
             <div className="backdrop-blur-xl bg-white/5 rounded-xl p-4 border border-white/10">
@@ -0,0 +1,187 @@
+'use client';
+
+import { useMemo } from 'react';
+import { ShardDistributionPoint } from '@/utils/poolAnalytics';
+
+const WIDTH = 800;
+const HEIGHT = 200;
+const PADDING = 40;
+
+const SHARD_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ef4444', '#06b6d4'];
+
+interface SeriesPoint {
+  timestamp: number;
+  value: number;
+}
+
+interface TimeSeriesChartProps {
+  title: string;
+  unit?: string;
+  data: SeriesPoint[];
+  variant?: 'line' | 'bar';
+  color?: string;
+}
+
+const formatAxisValue = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: value !== 0 && Math.abs(value) < 1 ? 6 : 2 });
+
+const formatTime = (timestamp: number, spanMs: number) =>
+  new Date(timestamp).toLocaleString(undefined, spanMs <= 24 * 60 * 60 * 1000
+    ? { hour: '2-digit', minute: '2-digit' }
+    : { month: 'short', day: 'numeric' });
+
+/**
+ * Single-series SVG chart: a line for levels (TVL, price), bars for flows (volume, fees)
+ */
+export function TimeSeriesChart({ title, unit, data, variant = 'line', color = '#3b82f6' }: TimeSeriesChartProps) {
+  const { min, max, points, barWidth } = useMemo(() => {
+    if (data.length === 0) {
+      return { min: 0, max: 0, points: [], barWidth: 0 };
+    }
+
+    const values = data.map((d) => d.value);
+    // Bars grow from zero; lines zoom into their range
+    const min = variant === 'bar' ? 0 : Math.min(...values);
+    const max = Math.max(...values);
+    const xStep = (WIDTH - 2 * PADDING) / (variant === 'bar' ? data.length : data.length - 1 || 1);
+    const yScale = (HEIGHT - 2 * PADDING) / (max - min || 1);
+
+    return {
+      min,
+      max,
+      barWidth: xStep * 0.7,
+      points: data.map((d, i) => ({
+        x: PADDING + i * xStep,
+        y: HEIGHT - PADDING - (d.value - min) * yScale,
+        ...d,
+      })),
+    };
+  }, [data, variant]);
+
+  const span = data.length > 1 ? data[data.length - 1].timestamp - data[0].timestamp : 0;
+  const latest = data[data.length - 1];
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4">
+      <div className="flex items-baseline justify-between mb-2">
+        <div className="text-sm font-medium text-gray-500">{title}</div>
+        {latest && (
+          <div className="text-sm font-semibold text-gray-900">
+            {formatAxisValue(latest.value)} {unit}
+          </div>
+        )}
+      </div>
+      {points.length === 0 ? (
+        <div className="h-32 flex items-center justify-center text-sm text-gray-400">No data</div>
+      ) : (
+        <svg width="100%" height="160" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none">
+          <g stroke="#e5e7eb" strokeWidth="1">
+            {[0, 1, 2].map((i) => (
+              <line
+                key={i}
+                x1={PADDING}
+                y1={PADDING + (i * (HEIGHT - 2 * PADDING)) / 2}
+                x2={WIDTH - PADDING}
+                y2={PADDING + (i * (HEIGHT - 2 * PADDING)) / 2}
+                strokeDasharray="4 4"
+              />
+            ))}
+          </g>
+
+          {variant === 'bar' ? (
+            points.map((point) => (
+              <rect
+                key={point.timestamp}
+                x={point.x}
+                y={point.y}
+                width={barWidth}
+                height={HEIGHT - PADDING - point.y}
+                fill={color}
+                opacity="0.8"
+              >
+                <title>{`${formatTime(point.timestamp, span)}: ${formatAxisValue(point.value)} ${unit ?? ''}`}</title>
+              </rect>
+            ))
+          ) : (
+            <path
+              d={points.map((point, i) => `${i === 0 ? 'M' : 'L'} ${point.x} ${point.y}`).join(' ')}
+              fill="none"
+              stroke={color}
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          )}
+
+          <g fill="#6b7280" fontSize="12">
+            <text x="5" y={PADDING + 4}>{formatAxisValue(max)}</text>
+            <text x="5" y={HEIGHT - PADDING + 4}>{formatAxisValue(min)}</text>
+            <text x={PADDING} y={HEIGHT - 10}>{formatTime(data[0].timestamp, span)}</text>
+            <text x={WIDTH - PADDING} y={HEIGHT - 10} textAnchor="end">{formatTime(latest.timestamp, span)}</text>
+          </g>
+        </svg>
+      )}
+    </div>
+  );
+}
+
+interface ShardDistributionChartProps {
+  data: ShardDistributionPoint[];
+  pairName: string;
+  highlightPool?: string;
+}
+
+/**
+ * Stacked share of each shard in the pair's combined reserve value over time
+ */
+export function ShardDistributionChart({ data, pairName, highlightPool }: ShardDistributionChartProps) {
+  const columnWidth = data.length > 0 ? (WIDTH - 2 * PADDING) / data.length : 0;
+  const latest = data[data.length - 1];
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4">
+      <div className="text-sm font-medium text-gray-500 mb-2">{pairName} reserve distribution by shard</div>
+      {data.length === 0 ? (
+        <div className="h-32 flex items-center justify-center text-sm text-gray-400">No data</div>
+      ) : (
+        <>
+          <svg width="100%" height="160" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none">
+            {data.map((point, i) => {
+              let offset = 0;
+              return point.shards.map((shard, j) => {
+                const height = shard.share * (HEIGHT - 2 * PADDING);
+                const y = HEIGHT - PADDING - offset - height;
+                offset += height;
+                return (
+                  <rect
+                    key={`${point.timestamp}-${shard.poolAddress}`}
+                    x={PADDING + i * columnWidth}
+                    y={y}
+                    width={columnWidth * 0.9}
+                    height={height}
+                    fill={SHARD_COLORS[j % SHARD_COLORS.length]}
+                    opacity={highlightPool && shard.poolAddress.toLowerCase() !== highlightPool.toLowerCase() ? 0.45 : 0.9}
+                  >
+                    <title>{`Shard ${shard.shardNumber}: ${(shard.share * 100).toFixed(1)}%`}</title>
+                  </rect>
+                );
+              });
+            })}
+          </svg>
+          {latest && (
+            <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-600">
+              {latest.shards.map((shard, j) => (
+                <div key={shard.poolAddress} className="flex items-center space-x-1">
+                  <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: SHARD_COLORS[j % SHARD_COLORS.length] }} />
+                  <span>
+                    Shard {shard.shardNumber}: {(shard.share * 100).toFixed(1)}%
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
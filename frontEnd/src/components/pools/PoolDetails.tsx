@@ -1,7 +1,9 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Dialog } from '@headlessui/react';
+import { useChainId } from 'wagmi';
+import { formatUnits } from 'viem';
 import { 
   XMarkIcon, 
   ArrowTopRightOnSquareIcon,
@@ -12,7 +14,13 @@ import {
 } from '@heroicons/react/24/outline';
 import { Pool } from '@/types';
 import { TokenLogo } from '@/components/tokens/TokenLogo';
-import { formatTokenAmount, formatNumber, formatCurrency, formatDate } from '@/utils/formatting';
+import { formatTokenAmount, formatNumber, formatDate } from '@/utils/formatting';
+import { useLiquidityPositions } from '@/hooks/useLiquidityPositions';
+import { usePoolAnalytics, PoolAnalyticsRange, POOL_ANALYTICS_RANGES } from '@/hooks/usePoolAnalytics';
+import { getBlockExplorer } from '@/config/dex-config-loader';
+import { PoolHistoryBucket, PoolMetrics, PoolSwapEvent, ShardDistributionPoint } from '@/utils/poolAnalytics';
+import { LPPositionAnalytics } from '@/components/portfolio/LPPositionAnalytics';
+import { TimeSeriesChart, ShardDistributionChart } from './PoolAnalyticsCharts';
 
 interface PoolDetailsProps {
   pool: Pool | null;
@@ -22,52 +30,10 @@ interface PoolDetailsProps {
   onRemoveLiquidity?: (pool: Pool) => void;
 }
 
-interface PoolMetrics {
-  totalValueLocked: number;
-  volume24h: number;
-  volume7d: number;
-  fees24h: number;
-  fees7d: number;
-  apr: number;
-  priceChange24h: number;
-}
-
 export function PoolDetails({ pool, isOpen, onClose, onAddLiquidity, onRemoveLiquidity }: PoolDetailsProps) {
   const [activeTab, setActiveTab] = useState<'overview' | 'transactions' | 'analytics'>('overview');
-  const [metrics, setMetrics] = useState<PoolMetrics | null>(null);
-  const [loading, setLoading] = useState(false);
-
-  // Fetch pool metrics when pool changes
-  useEffect(() => {
-    if (pool && isOpen) {
-      fetchPoolMetrics(pool.id);
-    }
-  }, [pool, isOpen]);
-
-  const fetchPoolMetrics = async (poolId: string) => {
-    setLoading(true);
-    try {
-      // TODO: Implement actual metrics fetching from Solana
-      // This is mock data for now
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      const mockMetrics: PoolMetrics = {
-        totalValueLocked: Number(pool?.totalLiquidity || 0) / 1e9,
-        volume24h: Number(pool?.volume24h || 0) / 1e9,
-        volume7d: Number(pool?.volume24h || 0) * 7 / 1e9,
-        fees24h: Number(pool?.fees24h || 0) / 1e9,
-        fees7d: Number(pool?.fees24h || 0) * 7 / 1e9,
-        apr: Math.random() * 50 + 5, // 5-55% APR
-        priceChange24h: (Math.random() - 0.5) * 20, // -10% to +10%
-      };
-      
-      setMetrics(mockMetrics);
-    } catch (error) {
-      console.error('Failed to fetch pool metrics:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const [analyticsRange, setAnalyticsRange] = useState<PoolAnalyticsRange>('7d');
+  const analytics = usePoolAnalytics(pool && isOpen ? pool.id : undefined, analyticsRange);
 
   if (!pool) return null;
 
@@ -157,18 +123,32 @@ export function PoolDetails({ pool, isOpen, onClose, onAddLiquidity, onRemoveLiq
               {activeTab === 'overview' && (
                 <OverviewTab 
                   pool={pool} 
-                  metrics={metrics} 
-                  loading={loading}
+                  metrics={analytics.metrics} 
+                  loading={analytics.loading && !analytics.metrics}
                   currentPrice={currentPrice}
                   onAddLiquidity={onAddLiquidity}
                   onRemoveLiquidity={onRemoveLiquidity}
                 />
               )}
               {activeTab === 'transactions' && (
-                <TransactionsTab pool={pool} />
+                <TransactionsTab
+                  pool={pool}
+                  swaps={analytics.recentSwaps}
+                  loading={analytics.loading}
+                  error={analytics.error}
+                />
               )}
               {activeTab === 'analytics' && (
-                <AnalyticsTab pool={pool} metrics={metrics} />
+                <AnalyticsTab
+                  pool={pool}
+                  buckets={analytics.buckets}
+                  distribution={analytics.distribution}
+                  historyStart={analytics.historyStart}
+                  range={analyticsRange}
+                  onRangeChange={setAnalyticsRange}
+                  loading={analytics.loading}
+                  error={analytics.error}
+                />
               )}
             </div>
           </Dialog.Panel>
@@ -188,6 +168,11 @@ interface OverviewTabProps {
 }
 
 function OverviewTab({ pool, metrics, loading, currentPrice, onAddLiquidity, onRemoveLiquidity }: OverviewTabProps) {
+  const { positions } = useLiquidityPositions();
+  const poolPositions = positions.filter(
+    (position) => position.poolAddress.toLowerCase() === pool.id.toLowerCase()
+  );
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -212,21 +197,21 @@ function OverviewTab({ pool, metrics, loading, currentPrice, onAddLiquidity, onR
         <div className="bg-gray-50 rounded-lg p-4">
           <div className="text-sm font-medium text-gray-500">Total Value Locked</div>
           <div className="text-2xl font-semibold text-gray-900">
-            {formatCurrency(metrics?.totalValueLocked || 0)} SOL
+            {formatNumber(metrics?.totalValueLocked || 0)} {pool.tokenB.symbol}
           </div>
         </div>
         
         <div className="bg-gray-50 rounded-lg p-4">
           <div className="text-sm font-medium text-gray-500">24h Volume</div>
           <div className="text-2xl font-semibold text-gray-900">
-            {formatCurrency(metrics?.volume24h || 0)} SOL
+            {formatNumber(metrics?.volume24h || 0)} {pool.tokenB.symbol}
           </div>
         </div>
         
         <div className="bg-gray-50 rounded-lg p-4">
           <div className="text-sm font-medium text-gray-500">24h Fees</div>
           <div className="text-2xl font-semibold text-gray-900">
-            {formatCurrency(metrics?.fees24h || 0)} SOL
+            {formatNumber(metrics?.fees24h || 0)} {pool.tokenB.symbol}
           </div>
         </div>
         
@@ -238,6 +223,12 @@ function OverviewTab({ pool, metrics, loading, currentPrice, onAddLiquidity, onR
         </div>
       </div>
 
+      {metrics && Date.now() - metrics.historyStart < 7 * 24 * 60 * 60 * 1000 && (
+        <p className="text-xs text-gray-500">
+          Volume, fees and APR are based on indexed history since {formatDate(metrics.historyStart)}.
+        </p>
+      )}
+
       {/* Pool Composition */}
       <div className="bg-gray-50 rounded-lg p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Pool Composition</h3>
@@ -276,6 +267,11 @@ function OverviewTab({ pool, metrics, loading, currentPrice, onAddLiquidity, onR
               <div className="text-lg font-semibold">
                 1 {pool.tokenB.symbol} = {formatNumber(currentPrice)} {pool.tokenA.symbol}
               </div>
+              {metrics && (
+                <div className={`text-sm ${metrics.priceChange24h >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {metrics.priceChange24h >= 0 ? '+' : ''}{formatNumber(metrics.priceChange24h, 2)}% {pool.tokenA.symbol} (24h)
+                </div>
+              )}
             </div>
             
             <div>
@@ -288,6 +284,16 @@ function OverviewTab({ pool, metrics, loading, currentPrice, onAddLiquidity, onR
         </div>
       </div>
 
+      {/* Your Position */}
+      {poolPositions.length > 0 && (
+        <div className="bg-gray-50 rounded-lg overflow-hidden">
+          <h3 className="text-lg font-semibold text-gray-900 px-6 pt-6 pb-4">Your Position</h3>
+          <div className="overflow-x-auto">
+            <LPPositionAnalytics positions={poolPositions} />
+          </div>
+        </div>
+      )}
+
       {/* Actions */}
       <div className="flex space-x-4">
         <button
@@ -307,28 +313,159 @@ function OverviewTab({ pool, metrics, loading, currentPrice, onAddLiquidity, onR
   );
 }
 
-function TransactionsTab({ pool }: { pool: Pool }) {
-  // TODO: Implement transaction history fetching
+interface TransactionsTabProps {
+  pool: Pool;
+  swaps: PoolSwapEvent[];
+  loading: boolean;
+  error: string | null;
+}
+
+function TransactionsTab({ pool, swaps, loading, error }: TransactionsTabProps) {
+  const chainId = useChainId();
+
+  const tokenFor = (address: string) =>
+    address.toLowerCase() === pool.tokenA.mint.toLowerCase() ? pool.tokenA : pool.tokenB;
+
+  const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+  if (loading && swaps.length === 0) {
+    return <div className="text-center py-8 text-gray-500">Loading swaps...</div>;
+  }
+
+  if (swaps.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <ClockIcon className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <div className="text-gray-500 mb-2">{error ? 'Failed to load swaps' : 'No recent swaps'}</div>
+        {error && <p className="text-sm text-gray-400">{error}</p>}
+      </div>
+    );
+  }
+
   return (
-    <div className="text-center py-8">
-      <ClockIcon className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-      <div className="text-gray-500 mb-2">Transaction History</div>
-      <p className="text-sm text-gray-400">
-        Transaction history will be displayed here
-      </p>
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Swap</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Fee</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Trader</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {swaps.map((swap) => {
+            const tokenIn = tokenFor(swap.tokenIn);
+            const tokenOut = tokenFor(swap.tokenOut);
+            return (
+              <tr key={`${swap.transactionHash}-${swap.logIndex}`}>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                  <a
+                    href={`${getBlockExplorer(chainId)}/tx/${swap.transactionHash}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="hover:text-blue-600"
+                  >
+                    {formatDate(swap.timestamp)}
+                  </a>
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                  {formatNumber(Number(formatUnits(swap.amountIn, tokenIn.decimals)), 4)} {tokenIn.symbol}
+                  {' → '}
+                  {formatNumber(Number(formatUnits(swap.amountOut, tokenOut.decimals)), 4)} {tokenOut.symbol}
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap text-right text-sm text-gray-500">
+                  {formatNumber(Number(formatUnits(swap.fee, tokenIn.decimals)), 6)} {tokenIn.symbol}
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap text-right text-sm font-mono text-gray-500">
+                  {shortAddress(swap.trader)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
     </div>
   );
 }
 
-function AnalyticsTab({ pool, metrics }: { pool: Pool; metrics: PoolMetrics | null }) {
-  // TODO: Implement analytics charts and data
+interface AnalyticsTabProps {
+  pool: Pool;
+  buckets: PoolHistoryBucket[];
+  distribution: ShardDistributionPoint[];
+  historyStart: number | null;
+  range: PoolAnalyticsRange;
+  onRangeChange: (range: PoolAnalyticsRange) => void;
+  loading: boolean;
+  error: string | null;
+}
+
+function AnalyticsTab({ pool, buckets, distribution, historyStart, range, onRangeChange, loading, error }: AnalyticsTabProps) {
+  if (loading && buckets.length === 0) {
+    return <div className="text-center py-8 text-gray-500">Loading pool history...</div>;
+  }
+
+  if (buckets.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <BeakerIcon className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <div className="text-gray-500 mb-2">{error ? 'Failed to load pool history' : 'No pool history available'}</div>
+        {error && <p className="text-sm text-gray-400">{error}</p>}
+      </div>
+    );
+  }
+
+  const unit = pool.tokenB.symbol;
+  const series = (value: (bucket: PoolHistoryBucket) => number) =>
+    buckets.map((bucket) => ({ timestamp: bucket.timestamp, value: value(bucket) }));
+
   return (
-    <div className="text-center py-8">
-      <BeakerIcon className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-      <div className="text-gray-500 mb-2">Pool Analytics</div>
-      <p className="text-sm text-gray-400">
-        Charts and analytics will be displayed here
-      </p>
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-500">
+          Values in {unit}
+          {historyStart !== null && historyStart > Date.now() - POOL_ANALYTICS_RANGES[range] && (
+            <> · indexed since {formatDate(historyStart)}</>
+          )}
+        </p>
+        <div className="flex space-x-2">
+          {(Object.keys(POOL_ANALYTICS_RANGES) as PoolAnalyticsRange[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => onRangeChange(option)}
+              className={`px-3 py-1 text-sm font-medium rounded-md ${
+                range === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <TimeSeriesChart title="TVL" unit={unit} data={series((bucket) => bucket.tvl)} />
+        <TimeSeriesChart
+          title={`Price (${pool.tokenA.symbol})`}
+          unit={unit}
+          data={series((bucket) => bucket.price)}
+          color="#8b5cf6"
+        />
+        <TimeSeriesChart title="Volume" unit={unit} data={series((bucket) => bucket.volume)} variant="bar" />
+        <TimeSeriesChart
+          title="Fees"
+          unit={unit}
+          data={series((bucket) => bucket.fees)}
+          variant="bar"
+          color="#10b981"
+        />
+      </div>
+
+      <ShardDistributionChart
+        data={distribution}
+        pairName={`${pool.tokenA.symbol}/${pool.tokenB.symbol}`}
+        highlightPool={pool.id}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
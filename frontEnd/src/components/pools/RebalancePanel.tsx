@@ -0,0 +1,129 @@
+'use client';
+
+import React from 'react';
+import type { RebalancePlan } from '@/services/liquidityRouterClient';
+import type { RebalanceProgress } from '@/hooks/useRebalancePlan';
+
+interface RebalancePanelProps {
+  pairName: string;
+  plan: RebalancePlan | null;
+  loading: boolean;
+  executing: boolean;
+  progress: RebalanceProgress | null;
+  error: string | null;
+  // Display name of a shard, e.g. "Shard 2"
+  shardLabel: (poolAddress: string) => string;
+  onExecute: () => void;
+  onClose: () => void;
+}
+
+const formatValue = (value: number, currency: string) =>
+  `${value.toLocaleString(undefined, { maximumFractionDigits: value < 1 ? 4 : 2 })} ${currency}`;
+
+export function RebalancePanel({
+  pairName,
+  plan,
+  loading,
+  executing,
+  progress,
+  error,
+  shardLabel,
+  onExecute,
+  onClose,
+}: RebalancePanelProps) {
+  return (
+    <div className="p-4 bg-purple-500/5 rounded-xl border border-purple-500/30 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Rebalance {pairName}</h3>
+        <button
+          onClick={onClose}
+          disabled={executing}
+          className="text-sm text-gray-400 hover:text-white disabled:opacity-50"
+        >
+          Close
+        </button>
+      </div>
+
+      {loading && <p className="text-sm text-gray-400">Analyzing shards...</p>}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {plan && (
+        <>
+          <p className="text-sm text-gray-300">{plan.reasoning}</p>
+
+          <div className="space-y-2">
+            {plan.allocations.map((allocation) => {
+              const change = allocation.targetValue - allocation.currentValue;
+              return (
+                <div key={allocation.poolAddress} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-400">
+                    {shardLabel(allocation.poolAddress)}
+                    <span className="ml-2 text-xs">{(allocation.dailyFeeYield * 365 * 100).toFixed(2)}% APR</span>
+                  </span>
+                  <span>
+                    {formatValue(allocation.currentValue, plan.quoteCurrency)}
+                    {Math.abs(change) > 0 && (
+                      <span className={change > 0 ? 'text-green-400 ml-2' : 'text-red-400 ml-2'}>
+                        {change > 0 ? '+' : '-'}{formatValue(Math.abs(change), plan.quoteCurrency)}
+                      </span>
+                    )}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="text-gray-400">Fee uplift / day</p>
+              <p className="font-medium text-green-400">+{formatValue(plan.dailyFeeUplift, plan.quoteCurrency)}</p>
+            </div>
+            <div>
+              <p className="text-gray-400">Migration cost</p>
+              <p className="font-medium">
+                {plan.migrationCost.gasCostValue === null
+                  ? 'Unknown'
+                  : formatValue(plan.migrationCost.gasCostValue, plan.quoteCurrency)}
+              </p>
+            </div>
+            <div>
+              <p className="text-gray-400">Break-even</p>
+              <p className="font-medium">
+                {plan.breakEvenDays === null ? '-' : `${plan.breakEvenDays.toFixed(1)} days`}
+              </p>
+            </div>
+          </div>
+
+          {plan.moves.length > 0 && (
+            <>
+              <ul className="text-sm text-gray-300 space-y-1">
+                {plan.moves.map((move, index) => (
+                  <li key={`${move.fromPool}-${move.toPool}`}>
+                    {index + 1}. Move {formatValue(move.value, plan.quoteCurrency)} from {shardLabel(move.fromPool)} to{' '}
+                    {shardLabel(move.toPool)}
+                  </li>
+                ))}
+              </ul>
+
+              {!plan.recommended && (
+                <p className="text-xs text-yellow-400">
+                  The fee uplift may not cover gas soon. You can still rebalance if you expect to stay in the pool.
+                </p>
+              )}
+
+              <button
+                onClick={onExecute}
+                disabled={executing}
+                className="w-full py-3 bg-gradient-to-r from-purple-500 to-purple-600 hover:from-purple-600 hover:to-purple-700 rounded-xl font-semibold disabled:opacity-50"
+              >
+                {executing && progress
+                  ? `Step ${progress.step}/${progress.totalSteps}: ${progress.description}`
+                  : `Rebalance (${plan.moves.length * 2} transactions)`}
+              </button>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { Dialog } from '@headlessui/react';
+import { XMarkIcon, ExclamationTriangleIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import { Address, formatUnits } from 'viem';
+import { useAccount, useChainId } from 'wagmi';
+import { getBlockExplorer } from '@/config/dex-config-loader';
+import { useShardCreation } from '@/hooks/useShardCreation';
+import { ShardCreationStep } from '@/services/evmShardService';
+import { SAMM_PARAMETER_LABELS, SammParameterKey } from '@/utils/sammParameters';
+
+interface ShardCreatorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onShardCreated?: (shardAddress: string) => void;
+}
+
+const STEP_LABELS: Record<ShardCreationStep, string> = {
+  approve: 'Approving tokens for the factory...',
+  create: 'Deploying shard...',
+  initialize: 'Seeding initial liquidity...',
+  register: 'Registering shard for routing...',
+};
+
+const inputClass =
+  'w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-purple-500/50 disabled:opacity-50';
+
+export function ShardCreator({ isOpen, onClose, onShardCreated }: ShardCreatorProps) {
+  const { isConnected } = useAccount();
+  const chainId = useChainId();
+  const {
+    tokens,
+    tokenA,
+    tokenB,
+    form,
+    balances,
+    existingShards,
+    pairPrice,
+    expectedLpTokens,
+    errors,
+    canCreate,
+    step,
+    isCreating,
+    error,
+    result,
+    setToken,
+    setAmount,
+    setParameter,
+    resetParameters,
+    matchPairPrice,
+    createShard,
+    reset,
+  } = useShardCreation();
+
+  useEffect(() => {
+    if (!isOpen) {
+      reset();
+    }
+  }, [isOpen, reset]);
+
+  const handleCreate = async () => {
+    const created = await createShard();
+    if (created) {
+      onShardCreated?.(created.shardAddress);
+    }
+  };
+
+  const explorer = getBlockExplorer(chainId);
+
+  return (
+    <Dialog open={isOpen} onClose={() => !isCreating && onClose()} className="relative z-50">
+      <div className="fixed inset-0 bg-black/60 backdrop-blur-sm" />
+
+      <div className="fixed inset-0 overflow-y-auto">
+        <div className="flex min-h-full items-center justify-center p-4">
+          <Dialog.Panel className="w-full max-w-lg rounded-2xl bg-gray-900 border border-white/10 p-6 text-left shadow-xl">
+            <div className="flex items-center justify-between mb-6">
+              <Dialog.Title className="text-xl font-semibold text-white">
+                Create Shard
+              </Dialog.Title>
+              <button onClick={onClose} className="text-gray-400 hover:text-white" disabled={isCreating}>
+                <XMarkIcon className="w-6 h-6" />
+              </button>
+            </div>
+
+            {!isConnected && (
+              <div className="mb-6 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg flex items-center gap-2">
+                <ExclamationTriangleIcon className="w-5 h-5 text-yellow-400" />
+                <span className="text-sm text-yellow-200">Connect your wallet to create a shard</span>
+              </div>
+            )}
+
+            {result ? (
+              <div className="space-y-4">
+                <div className="flex items-center gap-2 text-green-300">
+                  <CheckCircleIcon className="w-6 h-6" />
+                  <span className="font-medium">{result.pool.name} is live and routable</span>
+                </div>
+                <div className="text-sm text-gray-300 space-y-1">
+                  <div className="font-mono break-all">{result.shardAddress}</div>
+                  <div>LP tokens received: {formatUnits(result.lpTokens, 18)}</div>
+                  {explorer && (
+                    <a
+                      href={`${explorer}/tx/${result.initializeHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-purple-300 hover:text-purple-200"
+                    >
+                      View transaction
+                    </a>
+                  )}
+                </div>
+                <button
+                  onClick={onClose}
+                  className="w-full py-3 rounded-xl bg-purple-600 hover:bg-purple-500 text-white font-medium"
+                >
+                  Done
+                </button>
+              </div>
+            ) : (
+              <div className="space-y-5">
+                {/* Token pair */}
+                <div className="grid grid-cols-2 gap-3">
+                  {(['A', 'B'] as const).map((side) => (
+                    <div key={side}>
+                      <label className="block text-sm text-gray-400 mb-1">Token {side}</label>
+                      <select
+                        value={(side === 'A' ? form.tokenA : form.tokenB) ?? ''}
+                        onChange={(e) => setToken(side, e.target.value as Address)}
+                        disabled={isCreating}
+                        className={inputClass}
+                      >
+                        <option value="" disabled>Select token</option>
+                        {tokens.map((token) => (
+                          <option key={token.address} value={token.address} className="bg-gray-900">
+                            {token.symbol}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                {errors.tokenPair && <p className="text-sm text-red-400">{errors.tokenPair}</p>}
+
+                {tokenA && tokenB && !errors.tokenPair && (
+                  <div className="text-sm text-gray-400">
+                    {existingShards.length > 0
+                      ? `${existingShards.length} existing shard${existingShards.length === 1 ? '' : 's'}; this deploys shard #${existingShards[existingShards.length - 1].shardNumber + 1}`
+                      : 'No shards yet; this opens the pair'}
+                  </div>
+                )}
+
+                {/* Initial liquidity */}
+                {([['A', tokenA, form.amountA, balances.a, errors.amountA], ['B', tokenB, form.amountB, balances.b, errors.amountB]] as const).map(
+                  ([side, token, value, balance, fieldError]) => token && (
+                    <div key={side}>
+                      <label className="block text-sm text-gray-400 mb-1">{token.symbol} deposit</label>
+                      <input
+                        type="text"
+                        value={value}
+                        onChange={(e) => setAmount(side, e.target.value)}
+                        placeholder="0.0"
+                        disabled={isCreating}
+                        className={inputClass}
+                      />
+                      <div className="mt-1 text-xs text-gray-500">
+                        Balance: {formatUnits(balance, token.decimals)} {token.symbol}
+                      </div>
+                      {fieldError && <p className="mt-1 text-sm text-red-400">{fieldError}</p>}
+                    </div>
+                  )
+                )}
+
+                {pairPrice !== null && tokenA && tokenB && (
+                  <div className="flex items-center justify-between text-sm text-gray-400">
+                    <span>Pair price: 1 {tokenA.symbol} = {pairPrice.toPrecision(6)} {tokenB.symbol}</span>
+                    <button
+                      type="button"
+                      onClick={matchPairPrice}
+                      disabled={isCreating || !form.amountA}
+                      className="text-purple-300 hover:text-purple-200 disabled:opacity-50"
+                    >
+                      Match price
+                    </button>
+                  </div>
+                )}
+
+                {/* SAMM parameters */}
+                <div className="p-4 bg-white/5 border border-white/10 rounded-xl space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-white">SAMM parameters</span>
+                    <button
+                      type="button"
+                      onClick={resetParameters}
+                      disabled={isCreating}
+                      className="text-xs text-purple-300 hover:text-purple-200 disabled:opacity-50"
+                    >
+                      Reset to chain defaults
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    {(Object.keys(SAMM_PARAMETER_LABELS) as SammParameterKey[]).map((key) => (
+                      <div key={key}>
+                        <label className="block text-xs text-gray-400 mb-1" title={SAMM_PARAMETER_LABELS[key].description}>
+                          {SAMM_PARAMETER_LABELS[key].label}
+                        </label>
+                        <input
+                          type="text"
+                          value={form.parameters[key]}
+                          onChange={(e) => setParameter(key, e.target.value)}
+                          disabled={isCreating}
+                          className={inputClass}
+                        />
+                        {errors[key] && <p className="mt-1 text-xs text-red-400">{errors[key]}</p>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {expectedLpTokens > BigInt(0) && (
+                  <div className="text-sm text-gray-400">
+                    You receive {formatUnits(expectedLpTokens, 18)} LP tokens (100% of the shard)
+                  </div>
+                )}
+
+                {error && (
+                  <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-300 break-words">
+                    {error}
+                  </div>
+                )}
+
+                <button
+                  onClick={handleCreate}
+                  disabled={!canCreate}
+                  className="w-full py-3 rounded-xl bg-purple-600 hover:bg-purple-500 text-white font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {step ? STEP_LABELS[step] : 'Create Shard'}
+                </button>
+              </div>
+            )}
+          </Dialog.Panel>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import React from 'react';
+import { formatUnits } from 'viem';
+import type { ZapInPlan, ZapOutPlan } from '@/services/liquidityRouterClient';
+import type { PoolInfo } from '@/hooks/useLiquidity';
+
+type PairToken = PoolInfo['tokenA'];
+
+interface ZapPlanSummaryProps {
+  plan: ZapInPlan | ZapOutPlan;
+  // Shard the plan deposits into or withdraws from
+  pool: PoolInfo;
+  // Display name of a shard, e.g. "Shard 2"
+  shardLabel: (poolAddress: string) => string;
+}
+
+const isZapIn = (plan: ZapInPlan | ZapOutPlan): plan is ZapInPlan => 'tokenIn' in plan;
+
+export function ZapPlanSummary({ plan, pool, shardLabel }: ZapPlanSummaryProps) {
+  const tokenOf = (address: string): PairToken =>
+    pool.tokenA.address.toLowerCase() === address.toLowerCase() ? pool.tokenA : pool.tokenB;
+  const format = (amount: bigint, token: PairToken) =>
+    `${formatUnits(amount, token.decimals).slice(0, 12)} ${token.symbol}`;
+
+  const rows: Array<[string, string]> = [];
+  if (isZapIn(plan)) {
+    const tokenIn = tokenOf(plan.tokenIn);
+    const tokenBought = tokenOf(plan.tokenBought);
+    // Refund amounts follow the target shard's token order
+    const refunds = [
+      [plan.refundAmount.tokenA, pool.tokenA],
+      [plan.refundAmount.tokenB, pool.tokenB],
+    ] as Array<[bigint, PairToken]>;
+
+    rows.push(
+      ['Deposit into', shardLabel(plan.pool)],
+      ['Swap through', shardLabel(plan.swapPool)],
+      ['Swapped', `${format(plan.swapAmountIn, tokenIn)} → ${format(plan.swapAmountOut, tokenBought)}`],
+      ['Expected LP Tokens', formatUnits(plan.expectedLiquidity, 18).slice(0, 12)],
+      ...refunds
+        .filter(([amount]) => amount > BigInt(0))
+        .map(([amount, token]): [string, string] => ['Refunded', format(amount, token)])
+    );
+  } else {
+    const tokenOut = tokenOf(plan.tokenOut);
+    const tokenSold = tokenOf(plan.tokenSold);
+
+    rows.push(['Swap through', shardLabel(plan.swapPool)]);
+    if (plan.swapAmountIn > BigInt(0)) {
+      rows.push(['Swapped', `${format(plan.swapAmountIn, tokenSold)} → ${format(plan.swapAmountOut, tokenOut)}`]);
+    }
+    rows.push(['You will receive', format(plan.expectedAmountOut, tokenOut)]);
+    if (plan.unsoldAmount > BigInt(0)) {
+      rows.push(['Paid out unsold', format(plan.unsoldAmount, tokenSold)]);
+    }
+  }
+
+  return (
+    <div className="p-4 bg-purple-500/10 rounded-xl border border-purple-500/20 space-y-2">
+      {rows.map(([label, value], index) => (
+        <div key={`${label}-${index}`} className="flex justify-between text-sm">
+          <span className="text-gray-400">{label}</span>
+          <span className="text-purple-400">{value}</span>
+        </div>
+      ))}
+      <p className="text-xs text-gray-400 pt-1">{plan.reasoning}</p>
+    </div>
+  );
+}
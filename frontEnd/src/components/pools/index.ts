@@ -1,8 +1,12 @@
 // Pool components
 export { PoolCreator } from './PoolCreator';
+export { ShardCreator } from './ShardCreator';
 export { PoolList } from './PoolList';
 export { PoolDetails } from './PoolDetails';
+export { TimeSeriesChart, ShardDistributionChart } from './PoolAnalyticsCharts';
 export { AddLiquidity } from './AddLiquidity';
 export { RemoveLiquidity } from './RemoveLiquidity';
+export { RebalancePanel } from './RebalancePanel';
 export { TokenSelectorCard } from './TokenSelectorCard';
-export { AmountInputCard } from './AmountInputCard';
\ No newline at end of file
+export { AmountInputCard } from './AmountInputCard';
+export { ZapPlanSummary } from './ZapPlanSummary';
\ No newline at end of file
@@ -0,0 +1,123 @@
+'use client';
+
+import { formatUnits } from 'viem';
+import { LiquidityPosition } from '@/hooks/useLiquidityPositions';
+
+interface LPPositionAnalyticsProps {
+  positions: LiquidityPosition[];
+  loading?: boolean;
+  emptyMessage?: string;
+}
+
+/**
+ * Per-shard LP performance: what was deposited, what it is worth now, fees
+ * earned and impermanent loss versus holding the deposited tokens
+ */
+export function LPPositionAnalytics({ positions, loading, emptyMessage = 'No liquidity positions found' }: LPPositionAnalyticsProps) {
+  const formatValue = (value: bigint, position: LiquidityPosition) => {
+    const amount = Number(formatUnits(value, position.tokenBDecimals));
+    return `${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 4 })} ${position.tokenBSymbol}`;
+  };
+
+  const formatPercent = (percent: number) => `${percent >= 0 ? '+' : ''}${percent.toFixed(2)}%`;
+
+  const signColor = (value: bigint) => (value >= BigInt(0) ? 'text-green-600' : 'text-red-600');
+
+  if (loading && positions.length === 0) {
+    return (
+      <div className="p-6 sm:p-8 text-center text-gray-500 text-sm sm:text-base">
+        Loading position history...
+      </div>
+    );
+  }
+
+  if (positions.length === 0) {
+    return (
+      <div className="p-6 sm:p-8 text-center text-gray-500 text-sm sm:text-base">
+        {emptyMessage}
+      </div>
+    );
+  }
+
+  return (
+    <table className="w-full">
+      <thead className="bg-gray-50">
+        <tr>
+          <th className="px-3 sm:px-6 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+            Shard
+          </th>
+          <th className="hidden md:table-cell px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+            Deposited
+          </th>
+          <th className="px-3 sm:px-6 py-2 sm:py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+            Value Now
+          </th>
+          <th className="px-3 sm:px-6 py-2 sm:py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+            Fees Earned
+          </th>
+          <th className="hidden sm:table-cell px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+            Impermanent Loss
+          </th>
+          <th className="px-3 sm:px-6 py-2 sm:py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+            vs. Holding
+          </th>
+        </tr>
+      </thead>
+      <tbody className="bg-white divide-y divide-gray-200">
+        {positions.map((position) => {
+          const analytics = position.analytics;
+          return (
+            <tr key={position.poolAddress}>
+              <td className="px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap">
+                <div className="text-xs sm:text-sm font-medium text-gray-900">
+                  {position.pairName} #{position.shardNumber}
+                </div>
+                <div className="text-xs text-gray-500">{position.shareOfPool.toFixed(4)}% of shard</div>
+              </td>
+              {!analytics ? (
+                <td colSpan={5} className="px-3 sm:px-6 py-3 sm:py-4 text-right text-xs sm:text-sm text-gray-500">
+                  History unavailable
+                </td>
+              ) : (
+                <>
+                  <td className="hidden md:table-cell px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                    {formatValue(analytics.holdValue, position)}
+                    {!analytics.basisComplete && (
+                      <span
+                        className="ml-1 text-gray-400 cursor-help"
+                        title="Part of this position was received by transfer or predates the indexed history, so it has no cost basis"
+                      >
+                        *
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap text-right text-xs sm:text-sm text-gray-900">
+                    {formatValue(analytics.currentValue, position)}
+                  </td>
+                  <td className="px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap text-right text-xs sm:text-sm text-green-600">
+                    {formatValue(analytics.unrealisedFeesValue + analytics.realisedFeesValue, position)}
+                    {analytics.realisedFeesValue > BigInt(0) && (
+                      <div className="text-xs text-gray-500">
+                        {formatValue(analytics.realisedFeesValue, position)} withdrawn
+                      </div>
+                    )}
+                  </td>
+                  <td className="hidden sm:table-cell px-6 py-4 whitespace-nowrap text-right text-sm">
+                    <span className={signColor(analytics.impermanentLoss)}>
+                      {formatPercent(analytics.impermanentLossPercent)}
+                    </span>
+                  </td>
+                  <td className="px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap text-right text-xs sm:text-sm">
+                    <span className={signColor(analytics.netVsHold)}>
+                      {formatPercent(analytics.netVsHoldPercent)}
+                    </span>
+                  </td>
+                </>
+              )}
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
@@ -1,42 +1,29 @@
 'use client';
 
 import { useMemo, useState } from 'react';
-import { usePortfolioStore } from '@/stores/portfolioStore';
+import { usePortfolioHistory, PortfolioHistoryRange } from '@/hooks/usePortfolioHistory';
+import { PnlAttribution } from '@/utils/portfolioValuation';
 
-type TimeRange = '24h' | '7d' | '30d' | 'all';
+const ATTRIBUTION_ROWS: Array<{ key: keyof PnlAttribution; label: string; hint: string }> = [
+  { key: 'priceMoves', label: 'Price moves', hint: 'Revaluation of the tokens and LP shares you held' },
+  { key: 'swaps', label: 'Swaps', hint: 'Value received minus value paid, at the prices of the time' },
+  { key: 'lpFees', label: 'LP fees', hint: 'Trading fees accrued to your LP shares' },
+  { key: 'transfers', label: 'Transfers', hint: 'Tokens received minus tokens sent' },
+];
 
-export function PortfolioChart() {
-  const { portfolioHistory } = usePortfolioStore();
-  const [timeRange, setTimeRange] = useState<TimeRange>('7d');
-
-  const filteredData = useMemo(() => {
-    const now = Date.now();
-    let cutoff = 0;
-
-    switch (timeRange) {
-      case '24h':
-        cutoff = now - 24 * 60 * 60 * 1000;
-        break;
-      case '7d':
-        cutoff = now - 7 * 24 * 60 * 60 * 1000;
-        break;
-      case '30d':
-        cutoff = now - 30 * 24 * 60 * 60 * 1000;
-        break;
-      case 'all':
-        cutoff = 0;
-        break;
-    }
+const formatUsd = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 
-    return portfolioHistory.filter((point) => point.timestamp >= cutoff);
-  }, [portfolioHistory, timeRange]);
+export function PortfolioChart() {
+  const [timeRange, setTimeRange] = useState<PortfolioHistoryRange>('7d');
+  const { snapshots: filteredData, attribution, loading } = usePortfolioHistory(timeRange);
 
   const { minValue, maxValue, points } = useMemo(() => {
     if (filteredData.length === 0) {
       return { minValue: 0, maxValue: 0, points: [] };
     }
 
-    const values = filteredData.map((d) => Number(d.totalValue) / 1e9);
+    const values = filteredData.map((d) => d.totalValueUsd);
     const min = Math.min(...values);
     const max = Math.max(...values);
 
@@ -50,8 +37,8 @@ export function PortfolioChart() {
 
     const svgPoints = filteredData.map((point, index) => {
       const x = padding + index * xScale;
-      const y = height - padding - (Number(point.totalValue) / 1e9 - min) * yScale;
-      return { x, y, value: Number(point.totalValue) / 1e9, timestamp: point.timestamp };
+      const y = height - padding - (point.totalValueUsd - min) * yScale;
+      return { x, y, value: point.totalValueUsd, timestamp: point.timestamp };
     });
 
     return { minValue: min, maxValue: max, points: svgPoints };
@@ -85,7 +72,7 @@ export function PortfolioChart() {
           <h3 className="text-lg font-medium text-gray-900">Portfolio Performance</h3>
         </div>
         <div className="h-64 flex items-center justify-center text-gray-500">
-          No historical data available
+          {loading ? 'Rebuilding portfolio history...' : 'No historical data available'}
         </div>
       </div>
     );
@@ -96,7 +83,7 @@ export function PortfolioChart() {
       <div className="flex items-center justify-between mb-4">
         <h3 className="text-lg font-medium text-gray-900">Portfolio Performance</h3>
         <div className="flex space-x-2">
-          {(['24h', '7d', '30d', 'all'] as TimeRange[]).map((range) => (
+          {(['24h', '7d', '30d', 'all'] as PortfolioHistoryRange[]).map((range) => (
             <button
               key={range}
               onClick={() => setTimeRange(range)}
@@ -169,13 +156,33 @@ export function PortfolioChart() {
         {/* Value range */}
         <div className="mt-4 flex items-center justify-between text-sm text-gray-500">
           <div>
-            Min: {minValue.toFixed(2)} SOL
+            Min: {formatUsd(minValue)}
           </div>
           <div>
-            Max: {maxValue.toFixed(2)} SOL
+            Max: {formatUsd(maxValue)}
           </div>
         </div>
       </div>
+
+      {/* PnL attribution */}
+      <div className="mt-6 border-t border-gray-200 pt-4">
+        <div className="flex items-center justify-between mb-3">
+          <div className="text-sm font-medium text-gray-900">Change over {timeRange === 'all' ? 'all time' : timeRange}</div>
+          <div className={`text-sm font-semibold ${attribution.change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {attribution.change >= 0 ? '+' : ''}{formatUsd(attribution.change)}
+          </div>
+        </div>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {ATTRIBUTION_ROWS.map((row) => (
+            <div key={row.key} className="bg-gray-50 rounded-md p-3" title={row.hint}>
+              <div className="text-xs text-gray-500">{row.label}</div>
+              <div className={`text-sm font-medium ${attribution[row.key] >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {attribution[row.key] >= 0 ? '+' : ''}{formatUsd(attribution[row.key])}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
     </div>
   );
 }
@@ -1,14 +1,18 @@
 'use client';
 
 import { usePortfolio } from '@/hooks/usePortfolio';
+import { useLiquidityPositions } from '@/hooks/useLiquidityPositions';
 import { usePortfolioStore } from '@/stores/portfolioStore';
 import { useWalletStore } from '@/stores/walletStore';
 import { ArrowUpIcon, ArrowDownIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { LPPositionAnalytics } from './LPPositionAnalytics';
+import { PortfolioChart } from './PortfolioChart';
 
 export function PortfolioDashboard() {
   const { isConnected } = useWalletStore();
   const { portfolio, loading } = usePortfolioStore();
   const { fetchPortfolio, exportPortfolio } = usePortfolio();
+  const { positions: lpPositions, loading: lpLoading } = useLiquidityPositions();
 
   if (!isConnected) {
     return (
@@ -128,6 +132,9 @@ export function PortfolioDashboard() {
         </div>
       </div>
 
+      {/* Value history */}
+      <PortfolioChart />
+
       {/* Token Holdings */}
       <div className="bg-white rounded-lg shadow">
         <div className="px-4 sm:px-6 py-3 sm:py-4 border-b border-gray-200">
@@ -281,6 +288,19 @@ export function PortfolioDashboard() {
           )}
         </div>
       </div>
+
+      {/* LP Performance by Shard */}
+      <div className="bg-white rounded-lg shadow">
+        <div className="px-4 sm:px-6 py-3 sm:py-4 border-b border-gray-200">
+          <h3 className="text-base sm:text-lg font-medium text-gray-900">LP Performance by Shard</h3>
+          <p className="text-xs sm:text-sm text-gray-500 mt-1">
+            Fees earned and impermanent loss since your deposits, valued in the second token of each pair
+          </p>
+        </div>
+        <div className="overflow-x-auto scrollbar-thin">
+          <LPPositionAnalytics positions={lpPositions} loading={lpLoading} />
+        </div>
+      </div>
     </div>
   );
 }
@@ -1,2 +1,3 @@
 export * from './PortfolioDashboard';
 export * from './PortfolioChart';
+export * from './LPPositionAnalytics';
@@ -0,0 +1,293 @@
+'use client';
+
+import React, { useState } from 'react';
+import { formatUnits, parseUnits } from 'viem';
+import { useOrders } from '@/hooks/useOrders';
+import type { OrderRecord, OrderStatus } from '@/services/orderClient';
+import type { TokenConfig } from '@/lib/shardedDex';
+
+interface OpenOrdersPanelProps {
+  tokens: TokenConfig[];
+  // Symbols selected in the swap card; orders sell the input and buy the output
+  inputToken: string;
+  outputToken: string;
+}
+
+type OrderMode = 'limit' | 'twap';
+
+const EXPIRY_OPTIONS: Array<[string, number]> = [
+  ['1 hour', 60 * 60],
+  ['1 day', 24 * 60 * 60],
+  ['7 days', 7 * 24 * 60 * 60],
+];
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+  open: 'bg-purple-500/20 text-purple-400 border-purple-500/30',
+  partially_filled: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  filled: 'bg-green-500/20 text-green-400 border-green-500/30',
+  cancelled: 'bg-gray-500/20 text-gray-400 border-gray-500/30',
+  expired: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+  failed: 'bg-red-500/20 text-red-400 border-red-500/30',
+};
+
+// Closed orders shown below the open ones
+const RECENT_CLOSED_ORDERS = 3;
+
+const parseAmount = (value: string, decimals: number): bigint | null => {
+  try {
+    const amount = parseUnits(value, decimals);
+    return amount > BigInt(0) ? amount : null;
+  } catch {
+    return null;
+  }
+};
+
+export function OpenOrdersPanel({ tokens, inputToken, outputToken }: OpenOrdersPanelProps) {
+  const { ordersAvailable, orders, openOrders, loading, submitting, placeOrder, cancelOrder, stopOrder } = useOrders();
+
+  const [mode, setMode] = useState<OrderMode>('limit');
+  const [amount, setAmount] = useState('');
+  const [limitPrice, setLimitPrice] = useState('');
+  const [slices, setSlices] = useState('4');
+  const [intervalMinutes, setIntervalMinutes] = useState('15');
+  const [expiresIn, setExpiresIn] = useState(EXPIRY_OPTIONS[1][1]);
+  const [cancelling, setCancelling] = useState<string | null>(null);
+
+  if (!ordersAvailable) return null;
+
+  const tokenIn = tokens.find((token) => token.symbol === inputToken);
+  const tokenOut = tokens.find((token) => token.symbol === outputToken);
+  const tokenByAddress = (address: string) =>
+    tokens.find((token) => token.address.toLowerCase() === address.toLowerCase());
+  const format = (value: bigint, address: string) => {
+    const token = tokenByAddress(address);
+    return token ? `${formatUnits(value, token.decimals).slice(0, 12)} ${token.symbol}` : value.toString();
+  };
+
+  // Limit price is quoted in input tokens per output token
+  const amountOut = tokenOut ? parseAmount(amount, tokenOut.decimals) : null;
+  const price = tokenIn ? parseAmount(limitPrice, tokenIn.decimals) : null;
+  const maxAmountIn = amountOut && price && tokenOut
+    ? (amountOut * price) / BigInt(10) ** BigInt(tokenOut.decimals)
+    : null;
+  const sliceCount = mode === 'twap' ? parseInt(slices) || 0 : 1;
+  const interval = mode === 'twap' ? (parseInt(intervalMinutes) || 0) * 60 : 0;
+  const validSchedule = mode === 'limit' || (sliceCount >= 2 && sliceCount <= 100 && interval > 0);
+  const canSubmit = !!tokenIn && !!tokenOut && tokenIn.address !== tokenOut.address &&
+    !!amountOut && !!maxAmountIn && validSchedule && !submitting;
+
+  const handleSubmit = async () => {
+    if (!canSubmit || !tokenIn || !tokenOut || !amountOut || !maxAmountIn) return;
+
+    const record = await placeOrder({
+      tokenIn: tokenIn.address,
+      tokenOut: tokenOut.address,
+      amountOut,
+      maxAmountIn,
+      slices: sliceCount,
+      interval,
+      expiresIn,
+    });
+    if (record) {
+      setAmount('');
+      setLimitPrice('');
+    }
+  };
+
+  const handleCancel = async (record: OrderRecord) => {
+    setCancelling(record.orderHash);
+    await cancelOrder(record);
+    setCancelling(null);
+  };
+
+  const handleStop = async (orderHash: string) => {
+    setCancelling(orderHash);
+    await stopOrder(orderHash);
+    setCancelling(null);
+  };
+
+  const closedOrders = orders
+    .filter((record) => !openOrders.includes(record))
+    .slice(0, RECENT_CLOSED_ORDERS);
+
+  const renderOrder = (record: OrderRecord, cancellable: boolean) => (
+    <div key={record.orderHash} className="p-3 bg-white/5 rounded-xl border border-white/10 space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold">
+          {record.type === 'twap' ? 'TWAP' : 'Limit'} · Buy {format(record.order.amountOut, record.order.tokenOut)}
+        </span>
+        <span className={`px-2 py-0.5 text-xs rounded-full border ${STATUS_STYLES[record.status]}`}>
+          {record.status.replace('_', ' ')}
+        </span>
+      </div>
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>Pay at most {format(record.order.maxAmountIn, record.order.tokenIn)}</span>
+        {record.type === 'twap' && <span>{record.filledSlices}/{record.order.slices} slices</span>}
+      </div>
+      {record.filledSlices > 0 && (
+        <div className="text-xs text-gray-400">
+          Filled {format(record.filledAmountOut, record.order.tokenOut)} for {format(record.filledAmountIn, record.order.tokenIn)}
+        </div>
+      )}
+      {cancellable && (
+        <div className="flex items-center justify-between pt-1">
+          <span className="text-xs text-gray-500">
+            Expires {new Date(record.order.expiry * 1000).toLocaleString()}
+          </span>
+          <div className="flex gap-1">
+            <button
+              onClick={() => handleStop(record.orderHash)}
+              disabled={cancelling === record.orderHash}
+              title="Gasless. The keeper stops filling, but the signed order stays valid on-chain."
+              className="px-3 py-1 text-xs text-gray-400 hover:text-white rounded-lg transition-all disabled:opacity-50"
+            >
+              Stop keeper
+            </button>
+            <button
+              onClick={() => handleCancel(record)}
+              disabled={cancelling === record.orderHash}
+              title="Cancels the order on the settlement contract so no one can fill it"
+              className="px-3 py-1 text-xs bg-white/10 hover:bg-white/20 rounded-lg transition-all disabled:opacity-50"
+            >
+              {cancelling === record.orderHash ? 'Cancelling...' : 'Cancel on-chain'}
+            </button>
+          </div>
+        </div>
+      )}
+      {cancellable && record.lastError && (
+        <p className="text-xs text-yellow-400/80 truncate" title={record.lastError}>
+          Last fill attempt failed, retrying
+        </p>
+      )}
+      {record.status === 'failed' && record.lastError && (
+        <p className="text-xs text-red-400/80 truncate" title={record.lastError}>
+          Fills kept failing: {record.lastError}
+        </p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="backdrop-blur-xl bg-white/5 rounded-xl p-4 border border-white/10 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-400">Open Orders</h3>
+        <div className="flex gap-1 p-1 bg-white/5 rounded-lg">
+          {(['limit', 'twap'] as OrderMode[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-3 py-1 text-xs rounded-md transition-all ${
+                mode === option ? 'bg-purple-500/30 text-purple-300' : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              {option === 'limit' ? 'Limit' : 'TWAP'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* New order */}
+      <div className="space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-xs text-gray-400 space-y-1">
+            <span>Buy ({outputToken})</span>
+            <input
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="0.0"
+              className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm outline-none"
+            />
+          </label>
+          <label className="text-xs text-gray-400 space-y-1">
+            <span>Max price ({inputToken} per {outputToken})</span>
+            <input
+              type="number"
+              value={limitPrice}
+              onChange={(e) => setLimitPrice(e.target.value)}
+              placeholder="0.0"
+              className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm outline-none"
+            />
+          </label>
+        </div>
+
+        {mode === 'twap' && (
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-400 space-y-1">
+              <span>Slices</span>
+              <input
+                type="number"
+                min={2}
+                max={100}
+                value={slices}
+                onChange={(e) => setSlices(e.target.value)}
+                className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm outline-none"
+              />
+            </label>
+            <label className="text-xs text-gray-400 space-y-1">
+              <span>Every (minutes)</span>
+              <input
+                type="number"
+                min={1}
+                value={intervalMinutes}
+                onChange={(e) => setIntervalMinutes(e.target.value)}
+                className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm outline-none"
+              />
+            </label>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between text-xs text-gray-400">
+          <span>Expires after</span>
+          <select
+            value={expiresIn}
+            onChange={(e) => setExpiresIn(Number(e.target.value))}
+            className="bg-transparent text-white outline-none border-none cursor-pointer"
+          >
+            {EXPIRY_OPTIONS.map(([label, seconds]) => (
+              <option key={seconds} value={seconds} className="bg-gray-900">
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {maxAmountIn && tokenIn && (
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-400">You pay at most</span>
+            <span className="text-purple-400">{format(maxAmountIn, tokenIn.address)}</span>
+          </div>
+        )}
+
+        <button
+          onClick={handleSubmit}
+          disabled={!canSubmit}
+          className={`w-full py-3 rounded-xl font-semibold text-sm transition-all ${
+            canSubmit
+              ? 'bg-gradient-to-r from-purple-500 to-purple-600 hover:from-purple-600 hover:to-purple-700'
+              : 'bg-gray-600 cursor-not-allowed'
+          }`}
+        >
+          {submitting ? 'Placing Order...' : mode === 'limit' ? 'Place Limit Order' : 'Place TWAP Order'}
+        </button>
+      </div>
+
+      {/* Orders */}
+      <div className="space-y-2">
+        {openOrders.length === 0 ? (
+          <p className="text-xs text-gray-500 text-center py-2">
+            {loading ? 'Loading orders...' : 'No open orders'}
+          </p>
+        ) : (
+          openOrders.map((record) => renderOrder(record, true))
+        )}
+        {closedOrders.length > 0 && (
+          <>
+            <h4 className="text-xs text-gray-500 pt-2">Recent</h4>
+            {closedOrders.map((record) => renderOrder(record, false))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
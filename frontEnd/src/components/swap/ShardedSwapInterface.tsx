@@ -1,13 +1,18 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
-import { useChainId } from "wagmi";
+import React, { useState, useEffect, useCallback } from "react";
+import { useChainId, usePublicClient, useWalletClient } from "wagmi";
 import { useShardedDexDirect } from "@/hooks/useShardedDexDirect";
 import { useSammBackend } from "@/hooks/useSammBackend";
+import { useSwap } from "@/hooks/useSwap";
+import { SAMMExactInputQuote } from "@/services/sammSwapService";
 import { SwapQuote } from "@/lib/shardedDex";
 import { TokenIcon } from "@/components/tokens/TokenIcon";
 import { TokenBalances } from "./TokenBalances";
 import { SwapSuccessModal } from "./SwapSuccessModal";
+import { StrandedSwapRecoveryModal } from "./StrandedSwapRecoveryModal";
+import { MultiHopPartialFillError, StrandedSwap, RecoveryOption } from "@/services/evmSwapService";
+import { Address, formatUnits, parseUnits } from "viem";
 import { SlippageSettings } from "./SlippageSettings";
 import { QuoteAgeProgress } from "./QuoteAgeProgress";
 import { ChainIndicator } from "@/components/ui/ChainIndicator";
@@ -35,6 +40,8 @@ export function ShardedSwapInterface() {
     switchChain,
     getQuote,
     executeSwap,
+    getRecoveryOptions,
+    recoverStrandedSwap,
     getPoolsForPair,
     getPoolsForPairRealTime,
     getTradingPairs,
@@ -42,6 +49,12 @@ export function ShardedSwapInterface() {
 
 
 
+  // Exact input spends exactly the entered amount through one shard;
+  // exact output buys the quoted output and may spend up to the slippage more
+  const { swapMode, setSwapMode, getSAMMQuote, executeSAMMSwap } = useSwap();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+
   // Backend API integration for optimal routing
   const {
     getSwapQuote: getBackendQuote,
@@ -55,6 +68,7 @@ export function ShardedSwapInterface() {
   const [outputToken, setOutputToken] = useState("USDT");
   const [inputAmount, setInputAmount] = useState("");
   const [quote, setQuote] = useState<SwapQuote | null>(null);
+  const [exactInputQuote, setExactInputQuote] = useState<SAMMExactInputQuote | null>(null);
   const [quoteLoading, setQuoteLoading] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [successData, setSuccessData] = useState<{
@@ -64,6 +78,7 @@ export function ShardedSwapInterface() {
     inputToken: string;
     outputToken: string;
   } | null>(null);
+  const [strandedSwap, setStrandedSwap] = useState<StrandedSwap | null>(null);
   const [showSlippageSettings, setShowSlippageSettings] = useState(false);
   const [slippageTolerance, setSlippageTolerance] = useState(5.0); // Default 5% - accounts for devnet pool changes
 
@@ -106,6 +121,7 @@ export function ShardedSwapInterface() {
     
     setInputAmount("");
     setQuote(null);
+    setExactInputQuote(null);
     setQuoteAge(0);
     setLastQuoteTime(0);
     setRealTimePools([]);
@@ -204,6 +220,46 @@ export function ShardedSwapInterface() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [inputToken, outputToken, chainSupported, chainId, backendHealthy]);
 
+  // Quote spending exactly `amount` of the input token on the best direct shard
+  const fetchExactInputQuote = async (amount: number): Promise<SwapQuote | null> => {
+    const inputTokenInfo = tokens.find(t => t.symbol === inputToken);
+    const outputTokenInfo = tokens.find(t => t.symbol === outputToken);
+    if (!publicClient || !inputTokenInfo?.address || !outputTokenInfo?.address) {
+      return null;
+    }
+
+    const q = await getSAMMQuote(
+      publicClient,
+      chainId,
+      inputTokenInfo.address as Address,
+      outputTokenInfo.address as Address,
+      parseUnits(inputAmount, inputTokenInfo.decimals),
+      slippageTolerance
+    ) as SAMMExactInputQuote;
+    setExactInputQuote(q);
+
+    const estimatedOutput = Number(formatUnits(q.outputAmount, outputTokenInfo.decimals));
+    return {
+      inputToken,
+      outputToken,
+      inputAmount: amount,
+      estimatedOutput,
+      priceImpact: q.priceImpact,
+      route: [{
+        poolAddress: q.selectedShard.address,
+        shardNumber: q.selectedShard.shardNumber,
+        inputAmount: amount,
+        outputAmount: estimatedOutput,
+        reserves: {
+          reserve0: q.selectedShard.reserveA.toString(),
+          reserve1: q.selectedShard.reserveB.toString(),
+        },
+      }],
+      totalFee: Number(formatUnits(q.tradeFee, inputTokenInfo.decimals)),
+      routingMethod: 'local',
+    };
+  };
+
   // Get quote when inputs change - WITH BACKEND INTEGRATION
   useEffect(() => {
     // Don't fetch quotes if chain is not supported
@@ -214,6 +270,7 @@ export function ShardedSwapInterface() {
     }
 
     const amount = parseFloat(inputAmount);
+    setExactInputQuote(null);
     if (!amount || amount <= 0) {
       setQuote(null);
       setQuoteAge(0);
@@ -237,6 +294,15 @@ export function ShardedSwapInterface() {
       
       setQuoteLoading(true);
       try {
+        if (swapMode === 'exactInput') {
+          const q = await fetchExactInputQuote(amount);
+          setQuote(q);
+          setBackendQuoteData(null);
+          setLastQuoteTime(Date.now());
+          setQuoteAge(0);
+          return;
+        }
+
         // Try backend routing first if enabled and healthy
         if (useBackendRouting && backendHealthy && chainId === 10143) {
           console.log('🚀 Using SAMM Backend for optimal routing...');
@@ -426,7 +492,7 @@ export function ShardedSwapInterface() {
 
     return () => clearTimeout(debounce);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [inputToken, outputToken, inputAmount, chainSupported, useBackendRouting, backendHealthy, chainId, refreshCounter]);
+  }, [inputToken, outputToken, inputAmount, chainSupported, useBackendRouting, backendHealthy, chainId, refreshCounter, swapMode]);
 
   // DISABLED: Auto-refresh to prevent RPC rate limiting
   // Backend API provides fresh data on each request
@@ -610,7 +676,17 @@ export function ShardedSwapInterface() {
     console.log('═══════════════════════════════════════════════════════');
 
     try {
-      const signature = await executeSwap(quote, slippageTolerance);
+      let signature: string | null;
+      if (swapMode === 'exactInput') {
+        if (!exactInputQuote || !publicClient || !walletClient || !walletAddress) {
+          toast.error("Quote is not ready, please try again");
+          return;
+        }
+        const result = await executeSAMMSwap(walletClient, publicClient, exactInputQuote, walletAddress as Address);
+        signature = result.hash;
+      } else {
+        signature = await executeSwap(quote, slippageTolerance);
+      }
       
       if (signature) {
         console.log('═══════════════════════════════════════════════════════');
@@ -632,6 +708,7 @@ export function ShardedSwapInterface() {
         // Reset form
         setInputAmount("");
         setQuote(null);
+        setExactInputQuote(null);
         setBackendQuoteData(null);
       }
     } catch (err) {
@@ -642,11 +719,38 @@ export function ShardedSwapInterface() {
       console.log('Error Message:', err instanceof Error ? err.message : String(err));
       console.log('═══════════════════════════════════════════════════════');
       
+      // Earlier hops went through: offer to swap the intermediate token back or onward
+      if (err instanceof MultiHopPartialFillError) {
+        setStrandedSwap(err.stranded);
+        setQuote(null);
+        return;
+      }
+
       const friendlyError = getUserFriendlyError(err);
       toast.error(friendlyError);
     }
   };
 
+  const getStrandedRecoveryOptions = useCallback(
+    (stranded: StrandedSwap) => getRecoveryOptions(stranded, slippageTolerance),
+    [getRecoveryOptions, slippageTolerance]
+  );
+
+  const handleRecovered = (hash: string, option: RecoveryOption) => {
+    const stranded = strandedSwap;
+    setStrandedSwap(null);
+    if (!stranded) return;
+
+    setSuccessData({
+      signature: hash,
+      inputAmount: Number(formatUnits(stranded.amount, stranded.token.decimals)),
+      outputAmount: Number(formatUnits(option.quote.estimatedOutput, option.token.decimals)),
+      inputToken: stranded.token.symbol,
+      outputToken: option.token.symbol,
+    });
+    setShowSuccessModal(true);
+  };
+
   const handleSwapDirection = () => {
     setInputToken(outputToken);
     setOutputToken(inputToken);
@@ -674,6 +778,15 @@ export function ShardedSwapInterface() {
         />
       )}
 
+      {/* Recovery for multi-hop swaps that failed partway */}
+      <StrandedSwapRecoveryModal
+        stranded={strandedSwap}
+        onClose={() => setStrandedSwap(null)}
+        getRecoveryOptions={getStrandedRecoveryOptions}
+        onRecover={recoverStrandedSwap}
+        onRecovered={handleRecovered}
+      />
+
       {/* Slippage Settings Modal */}
       <SlippageSettings
         isOpen={showSlippageSettings}
@@ -818,9 +931,27 @@ export function ShardedSwapInterface() {
 
             {/* Input Token */}
             <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-300 mb-2">
-                From
-              </label>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-300">
+                  From
+                </label>
+                <div className="flex p-0.5 backdrop-blur-xl bg-white/5 border border-white/10 rounded-full text-xs">
+                  <button
+                    onClick={() => setSwapMode('exactInput')}
+                    title="Spend exactly this amount; the output may be lower by your slippage"
+                    className={`px-3 py-1 rounded-full transition-all ${swapMode === 'exactInput' ? 'bg-white/15 text-white' : 'text-gray-400 hover:text-white'}`}
+                  >
+                    Exact in
+                  </button>
+                  <button
+                    onClick={() => setSwapMode('exactOutput')}
+                    title="Receive exactly the quoted output; the input may be higher by your slippage"
+                    className={`px-3 py-1 rounded-full transition-all ${swapMode === 'exactOutput' ? 'bg-white/15 text-white' : 'text-gray-400 hover:text-white'}`}
+                  >
+                    Exact out
+                  </button>
+                </div>
+              </div>
               <div className="flex gap-2">
                 <input
                   type="number"
@@ -0,0 +1,154 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { formatUnits } from "viem";
+import { StrandedSwap, RecoveryOption } from "@/services/evmSwapService";
+
+interface StrandedSwapRecoveryModalProps {
+  stranded: StrandedSwap | null;
+  onClose: () => void;
+  getRecoveryOptions: (stranded: StrandedSwap) => Promise<RecoveryOption[]>;
+  onRecover: (option: RecoveryOption) => Promise<string>;
+  onRecovered: (hash: string, option: RecoveryOption) => void;
+}
+
+/**
+ * Offers to swap the intermediate token of a multi-hop swap that failed partway
+ * back to the input token or on to the output token
+ */
+export function StrandedSwapRecoveryModal({
+  stranded,
+  onClose,
+  getRecoveryOptions,
+  onRecover,
+  onRecovered,
+}: StrandedSwapRecoveryModalProps) {
+  const [options, setOptions] = useState<RecoveryOption[]>([]);
+  const [loadingOptions, setLoadingOptions] = useState(false);
+  const [pending, setPending] = useState<RecoveryOption["direction"] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!stranded) return;
+
+    let cancelled = false;
+    setOptions([]);
+    setError(null);
+    setLoadingOptions(true);
+
+    getRecoveryOptions(stranded)
+      .then(result => {
+        if (cancelled) return;
+        setOptions(result);
+        if (result.length === 0) {
+          setError(`No route found to swap your ${stranded.token.symbol} right now.`);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to quote recovery swaps");
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingOptions(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [stranded, getRecoveryOptions]);
+
+  const handleRecover = async (option: RecoveryOption) => {
+    setPending(option.direction);
+    setError(null);
+    try {
+      const hash = await onRecover(option);
+      onRecovered(hash, option);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Recovery swap failed");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const formatAmount = (amount: bigint, decimals: number) =>
+    Number(formatUnits(amount, decimals)).toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+  return (
+    <AnimatePresence>
+      {stranded && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={pending ? undefined : onClose}
+            className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[9998]"
+          />
+
+          {/* Modal */}
+          <div className="fixed inset-0 flex items-center justify-center z-[9999] p-4">
+            <motion.div
+              initial={{ scale: 0.8, opacity: 0, y: 50 }}
+              animate={{ scale: 1, opacity: 1, y: 0 }}
+              exit={{ scale: 0.8, opacity: 0, y: 50 }}
+              transition={{ type: "spring", duration: 0.5 }}
+              className="relative w-full max-w-md"
+            >
+              <div className="relative backdrop-blur-xl bg-gradient-to-br from-gray-900/95 via-gray-800/95 to-gray-900/95 border border-yellow-500/30 rounded-3xl shadow-2xl overflow-hidden p-6">
+                <h2 className="text-2xl font-bold text-center bg-clip-text text-transparent bg-gradient-to-r from-yellow-400 to-orange-400">
+                  Swap Stopped Partway
+                </h2>
+                <p className="mt-2 text-center text-gray-400 text-sm">
+                  Step {stranded.failedStep + 1} failed after {stranded.completedTxHashes.length} completed{" "}
+                  {stranded.completedTxHashes.length === 1 ? "step" : "steps"}.
+                </p>
+
+                <div className="mt-5 backdrop-blur-xl bg-yellow-500/10 border border-yellow-500/30 rounded-2xl p-4">
+                  <div className="text-sm text-yellow-300 font-medium mb-1">In your wallet</div>
+                  <div className="text-xl font-semibold text-white">
+                    {formatAmount(stranded.amount, stranded.token.decimals)} {stranded.token.symbol}
+                  </div>
+                  <div className="mt-2 text-xs text-gray-400 leading-relaxed">{stranded.reason}</div>
+                </div>
+
+                <div className="mt-5 space-y-3">
+                  {loadingOptions && (
+                    <div className="text-center text-sm text-gray-400">Finding recovery routes...</div>
+                  )}
+
+                  {options.map(option => (
+                    <button
+                      key={option.direction}
+                      onClick={() => handleRecover(option)}
+                      disabled={pending !== null}
+                      className="w-full py-3 px-4 bg-gradient-to-r from-yellow-500 to-orange-600 hover:from-yellow-600 hover:to-orange-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold rounded-xl transition-all shadow-lg"
+                    >
+                      {pending === option.direction
+                        ? "Swapping..."
+                        : `${option.direction === "back" ? "Swap back to" : "Continue to"} ${option.token.symbol} (~${formatAmount(option.quote.estimatedOutput, option.token.decimals)})`}
+                    </button>
+                  ))}
+
+                  {error && (
+                    <div className="text-sm text-red-300 bg-red-500/10 border border-red-500/30 rounded-xl p-3">
+                      {error}
+                    </div>
+                  )}
+
+                  <button
+                    onClick={onClose}
+                    disabled={pending !== null}
+                    className="w-full py-3 px-4 bg-gray-700/50 hover:bg-gray-700 disabled:opacity-50 text-gray-300 font-medium rounded-xl transition-all"
+                  >
+                    Keep {stranded.token.symbol}
+                  </button>
+                </div>
+              </div>
+            </motion.div>
+          </div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
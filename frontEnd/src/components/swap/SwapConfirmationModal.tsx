@@ -12,6 +12,7 @@ import {
 import { SwapQuote, TransactionStatus, Token } from '@/types';
 import { TokenLogo } from '@/components/tokens';
 import { formatTokenAmount } from '@/utils/formatting';
+import type { SwapSimulationTrace } from '@/services/sammRouterService';
 
 interface SwapConfirmationModalProps {
   isOpen: boolean;
@@ -25,6 +26,8 @@ interface SwapConfirmationModalProps {
   transactionStatus?: TransactionStatus;
   transactionSignature?: string;
   error?: string;
+  simulation?: SwapSimulationTrace | null;
+  isSimulating?: boolean;
 }
 
 export function SwapConfirmationModal({
@@ -38,7 +41,9 @@ export function SwapConfirmationModal({
   amountOut,
   transactionStatus,
   transactionSignature,
-  error
+  error,
+  simulation,
+  isSimulating = false
 }: SwapConfirmationModalProps) {
   const [timeRemaining, setTimeRemaining] = useState(0);
 
@@ -92,7 +97,21 @@ export function SwapConfirmationModal({
     }
   };
 
+  const shortenAddress = (address: string): string =>
+    `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+  // Format a simulated amount in the hop token's units when the token is known
+  const formatSimulatedAmount = (amount: string, tokenAddress: string): string => {
+    const token = [tokenIn, tokenOut].find(
+      t => t && t.address.toLowerCase() === tokenAddress.toLowerCase()
+    );
+    if (!token) return `${amount} (${shortenAddress(tokenAddress)})`;
+    return `${formatTokenAmount(BigInt(amount), token.decimals)} ${token.symbol}`;
+  };
+
   const statusDisplay = getStatusDisplay();
+  const simulationFailed = simulation?.success === false;
+  const canConfirm = timeRemaining > 0 && !isSimulating && !simulationFailed;
   const isProcessing = transactionStatus === TransactionStatus.PENDING;
   const isCompleted = transactionStatus === TransactionStatus.CONFIRMED || transactionStatus === TransactionStatus.FAILED;
 
@@ -229,6 +248,62 @@ export function SwapConfirmationModal({
                   </div>
                 </div>
 
+                {/* Simulation Trace */}
+                {(isSimulating || simulation) && (
+                  <div className={`mb-4 p-3 border rounded-lg ${
+                    isSimulating
+                      ? 'bg-gray-50 border-gray-200'
+                      : simulationFailed ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-200'
+                  }`}>
+                    {isSimulating || !simulation ? (
+                      <div className="flex items-center text-sm text-gray-600">
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
+                        <span>Simulating swap...</span>
+                      </div>
+                    ) : (
+                      <>
+                        <div className={`flex items-center text-sm font-medium ${
+                          simulationFailed ? 'text-red-800' : 'text-green-800'
+                        }`}>
+                          {simulationFailed
+                            ? <ExclamationCircleIcon className="w-5 h-5 mr-2" />
+                            : <CheckCircleIcon className="w-5 h-5 mr-2" />}
+                          <span>
+                            {simulationFailed ? 'Simulation reverted' : 'Simulation succeeded'}
+                          </span>
+                        </div>
+                        {simulation.revertReason && (
+                          <p className="text-sm text-red-700 mt-1">{simulation.revertReason}</p>
+                        )}
+                        <div className="text-xs text-gray-700 mt-2 space-y-2">
+                          {simulation.hops.map(hop => (
+                            <div key={hop.hopIndex} className="flex items-start justify-between">
+                              <span className={hop.success ? 'text-gray-600' : 'text-red-700'}>
+                                Hop {hop.hopIndex + 1} · {shortenAddress(hop.poolAddress)}
+                              </span>
+                              <span className="text-right">
+                                <div>{formatSimulatedAmount(hop.actualAmountIn, hop.tokenIn)} →</div>
+                                <div>{formatSimulatedAmount(hop.actualAmountOut, hop.tokenOut)}</div>
+                                {!hop.success && hop.revertReason && (
+                                  <div className="text-red-700">{hop.revertReason}</div>
+                                )}
+                              </span>
+                            </div>
+                          ))}
+                          <div className="flex justify-between pt-1 border-t border-gray-200">
+                            <span className="text-gray-600">Gas Used</span>
+                            <span>{simulationFailed ? '-' : Number(simulation.gasUsed).toLocaleString()}</span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">Block</span>
+                            <span>#{simulation.blockNumber}</span>
+                          </div>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+
                 {/* High Price Impact Warning */}
                 {quote.priceImpact > 5 && (
                   <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
@@ -274,14 +349,16 @@ export function SwapConfirmationModal({
                   </button>
                   <button
                     onClick={onConfirm}
-                    disabled={timeRemaining === 0}
+                    disabled={!canConfirm}
                     className={`flex-1 px-4 py-2 text-sm font-medium text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                      timeRemaining === 0
+                      !canConfirm
                         ? 'bg-gray-400 cursor-not-allowed'
                         : 'bg-blue-600 hover:bg-blue-700'
                     }`}
                   >
-                    {timeRemaining === 0 ? 'Quote Expired' : 'Confirm Swap'}
+                    {timeRemaining === 0
+                      ? 'Quote Expired'
+                      : simulationFailed ? 'Swap Would Revert' : 'Confirm Swap'}
                   </button>
                 </>
               )}
@@ -0,0 +1,128 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { ArrowLeftIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { useTokenList } from '@/hooks/useTokenList';
+
+interface TokenListManagerProps {
+  onBack: () => void;
+}
+
+export function TokenListManager({ onBack }: TokenListManagerProps) {
+  const [url, setUrl] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const {
+    tokens,
+    tokenLists,
+    loading,
+    error,
+    importTokenList,
+    removeTokenList,
+    removeCustomToken,
+  } = useTokenList();
+
+  const customTokens = tokens.filter((token) => token.tags?.includes('custom'));
+
+  const runImport = async (source: { url: string } | { json: string }) => {
+    setMessage(null);
+    try {
+      const result = await importTokenList(source);
+      setMessage(
+        `Imported ${result.imported} token${result.imported === 1 ? '' : 's'} from ${result.name}` +
+        (result.skipped > 0 ? ` (${result.skipped} skipped)` : '')
+      );
+      setUrl('');
+    } catch (err) {
+      console.error('Failed to import token list:', err);
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+    await runImport({ json: await file.text() });
+  };
+
+  return (
+    <div className="space-y-4">
+      <button onClick={onBack} className="flex items-center text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeftIcon className="w-4 h-4 mr-1" />
+        Back
+      </button>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Import token list</label>
+        <div className="flex space-x-2">
+          <input
+            type="url"
+            value={url}
+            onChange={(event) => setUrl(event.target.value)}
+            placeholder="https://example.com/tokens.json"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={() => runImport({ url: url.trim() })}
+            disabled={loading || !url.trim()}
+            className="px-3 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Import
+          </button>
+        </div>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={loading}
+          className="mt-2 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+        >
+          Upload a token list file
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        {message && !error && <p className="mt-2 text-sm text-green-700">{message}</p>}
+      </div>
+
+      <div>
+        <div className="text-sm font-medium text-gray-700 mb-1">Lists</div>
+        {tokenLists.length === 0 ? (
+          <div className="text-sm text-gray-500">No imported lists</div>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {tokenLists.map((list) => (
+              <li key={list.name} className="flex items-center justify-between py-2">
+                <div>
+                  <div className="text-sm text-gray-900">{list.name}</div>
+                  <div className="text-xs text-gray-500">{list.tokens.length} tokens</div>
+                </div>
+                <button onClick={() => removeTokenList(list.name)} className="text-gray-400 hover:text-red-600">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div>
+        <div className="text-sm font-medium text-gray-700 mb-1">Custom tokens</div>
+        {customTokens.length === 0 ? (
+          <div className="text-sm text-gray-500">Paste a token address in the search to add one</div>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {customTokens.map((token) => (
+              <li key={token.address} className="flex items-center justify-between py-2">
+                <div>
+                  <div className="text-sm text-gray-900">{token.symbol}</div>
+                  <div className="text-xs text-gray-500 font-mono">{token.address}</div>
+                </div>
+                <button onClick={() => removeCustomToken(token.address)} className="text-gray-400 hover:text-red-600">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,17 +2,21 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { Dialog, Combobox } from '@headlessui/react';
-import { MagnifyingGlassIcon, XMarkIcon, ChevronDownIcon } from '@heroicons/react/24/outline';
+import { MagnifyingGlassIcon, XMarkIcon, ChevronDownIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { isAddress } from 'viem';
+import { useChainId } from 'wagmi';
 import { Token } from '@/types';
-import { useTokenList } from '@/hooks/useTokenList';
+import { getBlockExplorer } from '@/config/dex-config-loader';
+import { isUnverifiedToken, useTokenList } from '@/hooks/useTokenList';
 import { useWallet } from '@/hooks/useWallet';
 import { TokenLogo } from './TokenLogo';
+import { TokenListManager } from './TokenListManager';
 import { formatTokenAmount } from '@/utils/formatting';
 
 interface TokenSelectorProps {
   selectedToken?: Token | null;
   onTokenSelect: (token: Token | null) => void;
-  excludeTokens?: string[]; // Mint addresses to exclude
+  excludeTokens?: string[]; // Token addresses to exclude
   showBalance?: boolean;
   disabled?: boolean;
   placeholder?: string;
@@ -28,9 +32,25 @@ export function TokenSelector({
 }: TokenSelectorProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [query, setQuery] = useState('');
-  const { tokens, loading, searchTokens, addCustomToken } = useTokenList();
+  const [view, setView] = useState<'search' | 'manage'>('search');
+  // Unverified token awaiting the user's confirmation
+  const [pendingToken, setPendingToken] = useState<Token | null>(null);
+  const [riskAccepted, setRiskAccepted] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const chainId = useChainId();
+  const { tokens, loading, addCustomToken, isTokenAcknowledged, acknowledgeToken } = useTokenList();
   const { tokenBalances } = useWallet();
 
+  // Start from the search view each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) {
+      setView('search');
+      setPendingToken(null);
+      setRiskAccepted(false);
+      setImportError(null);
+    }
+  }, [isOpen]);
+
   // Filter tokens based on search query and exclusions
   const filteredTokens = useMemo(() => {
     let filtered = tokens.filter(token => 
@@ -60,30 +80,44 @@ export function TokenSelector({
     return filtered;
   }, [tokens, query, excludeTokens, tokenBalances, showBalance]);
 
+  const completeSelection = (token: Token | null) => {
+    onTokenSelect(token);
+    setIsOpen(false);
+    setQuery('');
+  };
+
+  // Unverified tokens need a one-time confirmation before they can be traded
+  const handleTokenSelect = (token: Token | null) => {
+    if (token && isUnverifiedToken(token) && !isTokenAcknowledged(token.address)) {
+      setPendingToken(token);
+      setRiskAccepted(false);
+      return;
+    }
+    completeSelection(token);
+  };
+
   // Handle custom token import
-  const handleCustomTokenImport = async (mintAddress: string) => {
+  const handleCustomTokenImport = async (address: string) => {
+    setImportError(null);
     try {
-      const customToken = await addCustomToken(mintAddress);
+      const customToken = await addCustomToken(address);
       if (customToken) {
-        onTokenSelect(customToken);
-        setIsOpen(false);
-        setQuery('');
+        handleTokenSelect(customToken);
       }
     } catch (error) {
       console.error('Failed to import custom token:', error);
+      setImportError(error instanceof Error ? error.message : 'Failed to import token');
     }
   };
 
-  // Check if query looks like a mint address (base58, ~44 characters)
-  const isValidMintAddress = (address: string) => {
-    return /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address);
+  const confirmPendingToken = () => {
+    if (!pendingToken) return;
+    acknowledgeToken(pendingToken.address);
+    completeSelection(pendingToken);
+    setPendingToken(null);
   };
 
-  const handleTokenSelect = (token: Token | null) => {
-    onTokenSelect(token);
-    setIsOpen(false);
-    setQuery('');
-  };
+  const explorer = getBlockExplorer(chainId);
 
   return (
     <>
@@ -124,7 +158,7 @@ export function TokenSelector({
             <Dialog.Panel className="w-full max-w-md transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
               <div className="flex items-center justify-between mb-4">
                 <Dialog.Title className="text-lg font-medium text-gray-900">
-                  Select Token
+                  {pendingToken ? 'Unverified Token' : view === 'manage' ? 'Manage Tokens' : 'Select Token'}
                 </Dialog.Title>
                 <button
                   onClick={() => setIsOpen(false)}
@@ -134,71 +168,150 @@ export function TokenSelector({
                 </button>
               </div>
 
-              <Combobox value={selectedToken} onChange={handleTokenSelect}>
-                <div className="relative">
-                  <div className="relative">
-                    <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
-                    <Combobox.Input
-                      className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                      placeholder="Search by name, symbol, or mint address"
-                      value={query}
-                      onChange={(event) => setQuery(event.target.value)}
+              {pendingToken ? (
+                <div className="space-y-4">
+                  <div className="flex items-start p-3 space-x-2 bg-yellow-50 border border-yellow-200 rounded-lg">
+                    <ExclamationTriangleIcon className="flex-shrink-0 w-5 h-5 text-yellow-600" />
+                    <p className="text-sm text-yellow-800">
+                      {pendingToken.symbol} is not on the SAMM token list.{' '}
+                      {pendingToken.tags?.includes('list') ? 'It comes from a token list you imported.' : 'It was added by address.'}{' '}
+                      Anyone can deploy a token with any name and symbol, including copies of real tokens.
+                      Check the contract address before trading.
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <TokenLogo token={pendingToken} size="md" />
+                    <div className="min-w-0">
+                      <div className="font-medium text-gray-900">{pendingToken.symbol}</div>
+                      <div className="text-sm text-gray-500">{pendingToken.name}</div>
+                    </div>
+                  </div>
+                  <div className="text-xs text-gray-600 break-all font-mono">
+                    {explorer ? (
+                      <a
+                        href={`${explorer}/address/${pendingToken.address}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        {pendingToken.address}
+                      </a>
+                    ) : (
+                      pendingToken.address
+                    )}
+                  </div>
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={riskAccepted}
+                      onChange={(event) => setRiskAccepted(event.target.checked)}
                     />
+                    <span>I understand the risk of trading this token</span>
+                  </label>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => setPendingToken(null)}
+                      className="flex-1 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                    >
+                      Back
+                    </button>
+                    <button
+                      onClick={confirmPendingToken}
+                      disabled={!riskAccepted}
+                      className="flex-1 py-2 text-sm text-white bg-yellow-600 rounded-lg hover:bg-yellow-700 disabled:opacity-50"
+                    >
+                      Trade {pendingToken.symbol}
+                    </button>
                   </div>
+                </div>
+              ) : view === 'manage' ? (
+                <TokenListManager onBack={() => setView('search')} />
+              ) : (
+              <>
+                <Combobox value={selectedToken} onChange={handleTokenSelect}>
+                  <div className="relative">
+                    <div className="relative">
+                      <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                      <Combobox.Input
+                        className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="Search by name, symbol, or address"
+                        value={query}
+                        onChange={(event) => {
+                          setQuery(event.target.value);
+                          setImportError(null);
+                        }}
+                      />
+                    </div>
 
-                  <Combobox.Options className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-lg shadow-lg max-h-60 overflow-auto">
-                    {loading ? (
-                      <div className="px-4 py-2 text-sm text-gray-500">Loading tokens...</div>
-                    ) : filteredTokens.length === 0 ? (
-                      <div className="px-4 py-2">
-                        {query && isValidMintAddress(query) ? (
-                          <button
-                            onClick={() => handleCustomTokenImport(query)}
-                            className="w-full text-left text-sm text-blue-600 hover:text-blue-800"
+                    <Combobox.Options className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-lg shadow-lg max-h-60 overflow-auto">
+                      {loading ? (
+                        <div className="px-4 py-2 text-sm text-gray-500">Loading tokens...</div>
+                      ) : filteredTokens.length === 0 ? (
+                        <div className="px-4 py-2">
+                          {query && isAddress(query.trim(), { strict: false }) ? (
+                            <>
+                              <button
+                                onClick={() => handleCustomTokenImport(query.trim())}
+                                className="w-full text-left text-sm text-blue-600 hover:text-blue-800"
+                              >
+                                Import custom token: {query.trim().slice(0, 8)}...{query.trim().slice(-6)}
+                              </button>
+                              {importError && <div className="mt-1 text-sm text-red-600">{importError}</div>}
+                            </>
+                          ) : (
+                            <div className="text-sm text-gray-500">No tokens found</div>
+                          )}
+                        </div>
+                      ) : (
+                        filteredTokens.map((token) => (
+                          <Combobox.Option
+                            key={token.mint}
+                            value={token}
+                            className={({ active }) =>
+                              `relative cursor-pointer select-none py-2 px-4 ${
+                                active ? 'bg-blue-600 text-white' : 'text-gray-900'
+                              }`
+                            }
                           >
-                            Import custom token: {query.slice(0, 8)}...{query.slice(-8)}
-                          </button>
-                        ) : (
-                          <div className="text-sm text-gray-500">No tokens found</div>
-                        )}
-                      </div>
-                    ) : (
-                      filteredTokens.map((token) => (
-                        <Combobox.Option
-                          key={token.mint}
-                          value={token}
-                          className={({ active }) =>
-                            `relative cursor-pointer select-none py-2 px-4 ${
-                              active ? 'bg-blue-600 text-white' : 'text-gray-900'
-                            }`
-                          }
-                        >
-                          {({ active }) => (
-                            <div className="flex items-center justify-between">
-                              <div className="flex items-center space-x-3">
-                                <TokenLogo token={token} size="sm" />
-                                <div>
-                                  <div className={`font-medium ${active ? 'text-white' : 'text-gray-900'}`}>
-                                    {token.symbol}
+                            {({ active }) => (
+                              <div className="flex items-center justify-between">
+                                <div className="flex items-center space-x-3">
+                                  <TokenLogo token={token} size="sm" />
+                                  <div>
+                                    <div className={`flex items-center font-medium ${active ? 'text-white' : 'text-gray-900'}`}>
+                                      {token.symbol}
+                                      {isUnverifiedToken(token) && (
+                                        <span className="ml-2 px-1.5 py-0.5 text-xs font-normal text-yellow-800 bg-yellow-100 rounded">
+                                          Unverified
+                                        </span>
+                                      )}
+                                    </div>
+                                    <div className={`text-sm ${active ? 'text-blue-100' : 'text-gray-500'}`}>
+                                      {token.name}
+                                    </div>
                                   </div>
+                                </div>
+                                {showBalance && tokenBalances && (
                                   <div className={`text-sm ${active ? 'text-blue-100' : 'text-gray-500'}`}>
-                                    {token.name}
+                                    {formatTokenAmount(tokenBalances[token.mint] || BigInt(0), token.decimals)}
                                   </div>
-                                </div>
+                                )}
                               </div>
-                              {showBalance && tokenBalances && (
-                                <div className={`text-sm ${active ? 'text-blue-100' : 'text-gray-500'}`}>
-                                  {formatTokenAmount(tokenBalances[token.mint] || BigInt(0), token.decimals)}
-                                </div>
-                              )}
-                            </div>
-                          )}
-                        </Combobox.Option>
-                      ))
-                    )}
-                  </Combobox.Options>
-                </div>
-              </Combobox>
+                            )}
+                          </Combobox.Option>
+                        ))
+                      )}
+                    </Combobox.Options>
+                  </div>
+                </Combobox>
+                <button
+                  onClick={() => setView('manage')}
+                  className="mt-4 text-sm text-blue-600 hover:text-blue-800"
+                >
+                  Manage token lists
+                </button>
+              </>
+              )}
             </Dialog.Panel>
           </div>
         </div>
@@ -1,3 +1,4 @@
 export { TokenIcon, TokenPairIcon } from './TokenIcon';
 export { TokenLogo } from './TokenLogo';
 export { TokenSelector } from './TokenSelector';
+export { TokenListManager } from './TokenListManager';
@@ -4,7 +4,9 @@ import { useState, useMemo } from 'react';
 import { useTransactionStore } from '@/stores/transactionStore';
 import { useTransactionTracking } from '@/hooks/useTransactionTracking';
 import { useTransactionHistory } from '@/hooks/useTransactionHistory';
-import { TransactionType, TransactionStatus } from '@/types';
+import { Transaction, TransactionType, TransactionStatus } from '@/types';
+import { getBlockExplorer } from '@/config/dex-config-loader';
+import { getNetworkByChainId } from '@/config/evm-networks';
 import { ArrowPathIcon } from '@heroicons/react/24/outline';
 // Lightweight relative time formatter to avoid external dependency
 const formatDistanceToNow = (timestamp: number): string => {
@@ -61,7 +63,7 @@ export function TransactionList() {
   useTransactionTracking();
   
   // Fetch historical transactions from blockchain
-  const { loading, error, progress, fetchTransactionHistory, transactionCount } = useTransactionHistory({
+  const { loading, error, progress, fetchTransactionHistory, hasOlder, transactionCount } = useTransactionHistory({
     enabled: true,
     limit: 1000, // Fetch up to 1000 transactions
     fetchOnMount: true,
@@ -87,7 +89,11 @@ export function TransactionList() {
     setFilters({ status: status === 'all' ? undefined : status });
   };
 
-  const getExplorerUrl = (signature: string, cluster: string = 'devnet') => {
+  const getExplorerUrl = (tx: Transaction, cluster: string = 'devnet') => {
+    if (tx.chainId) {
+      return `${getBlockExplorer(tx.chainId)}/tx/${tx.hash}`;
+    }
+    const signature = tx.signature;
     const baseUrl = EXPLORER_URLS[cluster as keyof typeof EXPLORER_URLS] || EXPLORER_URLS.devnet;
     return `${baseUrl}/tx/${signature}?cluster=${cluster}`;
   };
@@ -101,6 +107,14 @@ export function TransactionList() {
     });
   };
 
+  const formatFee = (tx: Transaction) => {
+    if (tx.chainId) {
+      const currency = getNetworkByChainId(tx.chainId)?.nativeCurrency;
+      return `${(Number(tx.solFee) / Math.pow(10, currency?.decimals ?? 18)).toFixed(6)} ${currency?.symbol ?? 'ETH'}`;
+    }
+    return `${(Number(tx.solFee) / 1e9).toFixed(6)} SOL`;
+  };
+
   const truncateSignature = (signature: string) => {
     return `${signature.slice(0, 8)}...${signature.slice(-8)}`;
   };
@@ -255,6 +269,9 @@ export function TransactionList() {
                     >
                       {tx.status}
                     </span>
+                    {tx.shardNumber !== undefined && (
+                      <span className="text-xs text-gray-400">Shard {tx.shardNumber}</span>
+                    )}
                   </div>
                   {tx.tokenIn && tx.tokenOut ? (
                     <div className="flex items-center space-x-2 text-sm text-gray-300">
@@ -277,7 +294,7 @@ export function TransactionList() {
                   )}
                   {tx.solFee > BigInt(0) && (
                     <div className="text-xs text-gray-500 mt-1">
-                      Fee: {(Number(tx.solFee) / 1e9).toFixed(6)} SOL
+                      Fee: {formatFee(tx)}
                     </div>
                   )}
                 </div>
@@ -286,7 +303,7 @@ export function TransactionList() {
                     {formatDistanceToNow(tx.timestamp)}
                   </span>
                   <a
-                    href={getExplorerUrl(tx.signature)}
+                    href={getExplorerUrl(tx)}
                     target="_blank"
                     rel="noopener noreferrer"
                     onClick={(e) => e.stopPropagation()}
@@ -334,7 +351,7 @@ export function TransactionList() {
       )}
 
       {/* Load More Button - for fetching additional historical transactions */}
-      {!loading && paginatedTransactions.length > 0 && transactionCount >= 1000 && (
+      {!loading && paginatedTransactions.length > 0 && hasOlder && (
         <div className="pt-4 border-t border-white/10 text-center">
           <button
             onClick={() => {
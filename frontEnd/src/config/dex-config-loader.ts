@@ -7,6 +7,16 @@
 
 import monadConfig from './dex-config-monad.json';
 
+/**
+ * SAMM curve parameters, scaled by 1e6 as SAMMPoolFactory expects them
+ */
+export interface SammParameters {
+  beta1: number;
+  rmin: number;
+  rmax: number;
+  c: number;
+}
+
 export interface DexConfig {
   network: string;
   chainId: number;
@@ -15,8 +25,12 @@ export interface DexConfig {
   deployer: string;
   factory: string;
   timestamp?: string;
+  // First block worth scanning for history; older blocks predate the DEX
+  deploymentBlock?: number;
   version?: string;
   sammCoreFeature?: string;
+  // Defaults for new shards
+  sammParameters?: SammParameters;
   tokens: Array<{
     symbol: string;
     name: string;
@@ -57,15 +71,21 @@ export interface DexConfig {
   };
 }
 
+export type DexPoolConfig = DexConfig['pools'][number];
+
 // Supported chain IDs - Monad only
 export const SUPPORTED_CHAIN_IDS = [10143] as const;
 export type SupportedChainId = typeof SUPPORTED_CHAIN_IDS[number];
 
 // Chain ID to config mapping
+// Pools are copied so runtime registrations never touch the imported JSON
 const CONFIG_MAP: Record<number, DexConfig> = {
-  10143: monadConfig as DexConfig,
+  10143: { ...(monadConfig as DexConfig), pools: [...monadConfig.pools] },
 };
 
+// Lowercase addresses of pools registered at runtime
+const REGISTERED_POOLS = new Set<string>();
+
 // Chain ID to name mapping
 const CHAIN_NAMES: Record<number, string> = {
   10143: 'Monad Testnet',
@@ -190,3 +210,32 @@ export function getRpcUrl(chainId: number): string {
   const config = getDexConfig(chainId);
   return config ? config.rpcUrl : '';
 }
+
+/**
+ * Add a pool deployed after the config was generated so everything reading
+ * the chain's pools (routing, analytics, portfolio) sees it.
+ * Returns false when the pool is already known or the chain is unsupported.
+ */
+export function registerPool(pool: DexPoolConfig): boolean {
+  const config = CONFIG_MAP[pool.chainId];
+  if (!config) {
+    return false;
+  }
+
+  const address = pool.address.toLowerCase();
+  if (config.pools.some((existing) => existing.address.toLowerCase() === address)) {
+    return false;
+  }
+
+  config.pools.push(pool);
+  REGISTERED_POOLS.add(address);
+  return true;
+}
+
+/**
+ * Pools added at runtime through `registerPool`
+ */
+export function getRegisteredPools(chainId: number): DexPoolConfig[] {
+  const config = CONFIG_MAP[chainId];
+  return config ? config.pools.filter((pool) => REGISTERED_POOLS.has(pool.address.toLowerCase())) : [];
+}
@@ -7,14 +7,22 @@
 export interface ContractAddresses {
   factory: string;
   router?: string;
+  zap?: string;
+  orderSettlement?: string;
 }
 
 export const RISECHAIN_CONTRACTS: ContractAddresses = {
   factory: process.env.NEXT_PUBLIC_RISECHAIN_FACTORY || "0xa0Bb5eaDE9Ea3C8661881884d3a0b0565921aE48",
+  router: process.env.NEXT_PUBLIC_RISECHAIN_ROUTER,
+  zap: process.env.NEXT_PUBLIC_RISECHAIN_ZAP,
+  orderSettlement: process.env.NEXT_PUBLIC_RISECHAIN_ORDER_SETTLEMENT,
 };
 
 export const MONAD_CONTRACTS: ContractAddresses = {
   factory: process.env.NEXT_PUBLIC_MONAD_FACTORY || "0x70fe868ac814CC197631B60eEEaEaa1553418D03",
+  router: process.env.NEXT_PUBLIC_MONAD_ROUTER,
+  zap: process.env.NEXT_PUBLIC_MONAD_ZAP,
+  orderSettlement: process.env.NEXT_PUBLIC_MONAD_ORDER_SETTLEMENT,
 };
 
 export const CONTRACT_ADDRESSES: Record<number, ContractAddresses> = {
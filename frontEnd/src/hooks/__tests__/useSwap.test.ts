@@ -2,16 +2,28 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useSwap } from '../useSwap';
 import { useSwapStore } from '@/stores/swapStore';
+import { sammSwapService } from '@/services/sammSwapService';
 
 // Mock the swap store
 vi.mock('@/stores/swapStore');
 
+// Mock the SAMM swap service
+vi.mock('@/services/sammSwapService', () => ({
+  sammSwapService: {
+    getQuoteForInput: vi.fn(),
+    getQuoteForOutput: vi.fn(),
+    executeSwapSAMM: vi.fn(),
+    executeSwapSAMMExactInput: vi.fn(),
+  },
+}));
+
 describe('useSwap', () => {
   const mockSwapStore = {
     tokenIn: null,
     tokenOut: null,
     amountIn: '',
     amountOut: '',
+    swapMode: 'exactInput' as const,
     quote: null,
     loading: false,
     error: null,
@@ -24,6 +36,7 @@ describe('useSwap', () => {
     setTokenOut: vi.fn(),
     setAmountIn: vi.fn(),
     setAmountOut: vi.fn(),
+    setSwapMode: vi.fn(),
     setQuote: vi.fn(),
     setLoading: vi.fn(),
     setError: vi.fn(),
@@ -44,7 +57,11 @@ describe('useSwap', () => {
   it('should return all swap store properties and methods', () => {
     const { result } = renderHook(() => useSwap());
 
-    expect(result.current).toEqual(mockSwapStore);
+    expect(result.current).toEqual({
+      ...mockSwapStore,
+      getSAMMQuote: expect.any(Function),
+      executeSAMMSwap: expect.any(Function),
+    });
   });
 
   it('should call setTokenIn when setting input token', () => {
@@ -100,4 +117,42 @@ describe('useSwap', () => {
 
     expect(mockSwapStore.resetTransaction).toHaveBeenCalled();
   });
-});
\ No newline at end of file
+
+  describe('swap mode', () => {
+    const client = {} as any;
+    const USDC = '0x67DcA5710a9dA091e00093dF04765d711759f435' as const;
+    const USDT = '0x1888FF2446f2542cbb399eD179F4d6d966268C1F' as const;
+
+    it('should quote exact input when in exactInput mode', async () => {
+      const { result } = renderHook(() => useSwap());
+
+      await result.current.getSAMMQuote(client, 10143, USDC, USDT, 1000000n, 0.5);
+
+      expect(sammSwapService.getQuoteForInput).toHaveBeenCalledWith(client, 10143, USDC, USDT, 1000000n, 0.5);
+      expect(sammSwapService.getQuoteForOutput).not.toHaveBeenCalled();
+    });
+
+    it('should quote exact output when in exactOutput mode', async () => {
+      vi.mocked(useSwapStore).mockReturnValue({ ...mockSwapStore, swapMode: 'exactOutput' } as any);
+      const { result } = renderHook(() => useSwap());
+
+      await result.current.getSAMMQuote(client, 10143, USDC, USDT, 1000000n, 0.5);
+
+      expect(sammSwapService.getQuoteForOutput).toHaveBeenCalledWith(client, 10143, USDC, USDT, 1000000n, 0.5);
+      expect(sammSwapService.getQuoteForInput).not.toHaveBeenCalled();
+    });
+
+    it('should execute through the path matching the quote mode', async () => {
+      const { result } = renderHook(() => useSwap());
+      const user = '0x1234567890123456789012345678901234567890' as const;
+      const exactInputQuote = { mode: 'exactInput' } as any;
+      const exactOutputQuote = {} as any;
+
+      await result.current.executeSAMMSwap(client, client, exactInputQuote, user);
+      await result.current.executeSAMMSwap(client, client, exactOutputQuote, user);
+
+      expect(sammSwapService.executeSwapSAMMExactInput).toHaveBeenCalledWith(client, client, exactInputQuote, user);
+      expect(sammSwapService.executeSwapSAMM).toHaveBeenCalledWith(client, client, exactOutputQuote, user);
+    });
+  });
+});
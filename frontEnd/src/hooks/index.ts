@@ -17,4 +17,7 @@ export * from './useRpcFallback'
 export * from './useLoadingState'
 export * from './useTransactionProgress'
 export * from './useLiquidity'
-export * from './useLiquidityPositions'
\ No newline at end of file
+export * from './useLiquidityPositions'
+export * from './useRebalancePlan'
+export * from './useZap'
+export * from './useOrders'
\ No newline at end of file
@@ -76,6 +76,7 @@ export interface UseLiquidityReturn {
   addLiquidity: (slippageTolerance: number) => Promise<string | null>;
   removeLiquidity: (slippageTolerance: number) => Promise<string | null>;
   refreshPools: () => Promise<void>;
+  refreshBalances: () => Promise<void>;
   
   // Validation
   canAddLiquidity: boolean;
@@ -596,6 +597,7 @@ export function useLiquidity(): UseLiquidityReturn {
     addLiquidity,
     removeLiquidity,
     refreshPools,
+    refreshBalances: fetchUserBalances,
     canAddLiquidity,
     canRemoveLiquidity,
     validationError,
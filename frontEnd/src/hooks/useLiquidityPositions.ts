@@ -8,6 +8,9 @@ import { useState, useEffect, useCallback } from 'react';
 import { useAccount, useChainId, usePublicClient } from 'wagmi';
 import { Address, formatUnits } from 'viem';
 import { evmLiquidityService } from '@/services/evmLiquidityService';
+import { evmTransactionHistoryService } from '@/services/evmTransactionHistoryService';
+import { Transaction, TransactionType } from '@/types';
+import { computePositionAccounting, LiquidityEvent, PositionAccounting } from '@/utils/positionAccounting';
 
 // Monad Testnet tokens
 const MONAD_TOKENS = {
@@ -28,6 +31,9 @@ const MONAD_POOLS = [
   { address: '0x4d3c19832713A7993d69870cB421586CBC36dceA' as Address, tokenA: MONAD_TOKENS.USDT, tokenB: MONAD_TOKENS.DAI, shardNumber: 3, pairName: 'USDT/DAI' },
 ];
 
+// Lookback windows to walk back while LP balances are still unexplained by the history
+const MAX_HISTORY_BACKFILL = 20;
+
 export interface LiquidityPosition {
   poolAddress: string;
   pairName: string;
@@ -41,8 +47,70 @@ export interface LiquidityPosition {
   tokenBValueFormatted: string;
   tokenASymbol: string;
   tokenBSymbol: string;
+  tokenAAddress: Address;
+  tokenBAddress: Address;
   tokenADecimals: number;
   tokenBDecimals: number;
+  // Cost basis, fees and impermanent loss; absent when the history could not be read
+  analytics?: PositionAccounting;
+}
+
+/**
+ * Add/remove events per pool (lowercased address), oldest first
+ */
+function groupLiquidityEvents(transactions: Transaction[]): Map<string, LiquidityEvent[]> {
+  const byPool = new Map<string, LiquidityEvent[]>();
+  const liquidityTxs = transactions
+    .filter(tx =>
+      (tx.type === TransactionType.ADD_LIQUIDITY || tx.type === TransactionType.REMOVE_LIQUIDITY) &&
+      tx.poolId && tx.lpTokens !== undefined
+    )
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const tx of liquidityTxs) {
+    const key = tx.poolId!.toLowerCase();
+    const events = byPool.get(key) ?? [];
+    events.push({
+      kind: tx.type === TransactionType.ADD_LIQUIDITY ? 'add' : 'remove',
+      amountA: tx.amountIn ?? BigInt(0),
+      amountB: tx.amountOut ?? BigInt(0),
+      lpTokens: tx.lpTokens!,
+      timestamp: tx.timestamp,
+    });
+    byPool.set(key, events);
+  }
+  return byPool;
+}
+
+function explainsBalances(events: Map<string, LiquidityEvent[]>, balances: Map<string, bigint>): boolean {
+  for (const [pool, balance] of balances) {
+    const net = (events.get(pool) ?? []).reduce(
+      (sum, event) => (event.kind === 'add' ? sum + event.lpTokens : sum - event.lpTokens),
+      BigInt(0)
+    );
+    if (net < balance) return false;
+  }
+  return true;
+}
+
+/**
+ * Read the indexed liquidity history, extending it back until every LP
+ * balance is covered by deposits or the DEX deployment block is reached
+ */
+async function loadLiquidityEvents(
+  publicClient: NonNullable<ReturnType<typeof usePublicClient>>,
+  chainId: number,
+  address: Address,
+  balances: Map<string, bigint>
+): Promise<Map<string, LiquidityEvent[]>> {
+  let history = await evmTransactionHistoryService.syncLatest(publicClient, chainId, address);
+  let events = groupLiquidityEvents(history.transactions);
+
+  for (let i = 0; i < MAX_HISTORY_BACKFILL && history.hasOlder && !explainsBalances(events, balances); i++) {
+    history = await evmTransactionHistoryService.loadOlder(publicClient, chainId, address);
+    events = groupLiquidityEvents(history.transactions);
+  }
+  return events;
 }
 
 export function useLiquidityPositions() {
@@ -97,6 +165,7 @@ export function useLiquidityPositions() {
             : 0n;
 
           return {
+            poolState,
             poolAddress: pool.address,
             pairName: pool.pairName,
             shardNumber: pool.shardNumber,
@@ -109,6 +178,8 @@ export function useLiquidityPositions() {
             tokenBValueFormatted: formatUnits(tokenBValue, pool.tokenB.decimals),
             tokenASymbol: pool.tokenA.symbol,
             tokenBSymbol: pool.tokenB.symbol,
+            tokenAAddress: pool.tokenA.address,
+            tokenBAddress: pool.tokenB.address,
             tokenADecimals: pool.tokenA.decimals,
             tokenBDecimals: pool.tokenB.decimals,
           };
@@ -120,8 +191,26 @@ export function useLiquidityPositions() {
 
       const fetchedPositions = await Promise.all(positionPromises);
       // Filter out null positions (no balance or errors)
-      const validPositions = fetchedPositions.filter((p): p is NonNullable<typeof p> => p !== null) as LiquidityPosition[];
-      setPositions(validPositions);
+      const validPositions = fetchedPositions.filter((p): p is NonNullable<typeof p> => p !== null);
+
+      // Position accounting is best-effort: balances still show if the history can't be read
+      let eventsByPool: Map<string, LiquidityEvent[]> | null = null;
+      try {
+        const balances = new Map(validPositions.map(p => [p.poolAddress.toLowerCase(), p.lpTokenBalance]));
+        eventsByPool = await loadLiquidityEvents(publicClient, chainId, address, balances);
+      } catch (historyError) {
+        console.warn('⚠️ Failed to load liquidity history for position analytics:', historyError);
+      }
+
+      setPositions(validPositions.map(({ poolState, ...position }) => {
+        const events = eventsByPool?.get(position.poolAddress.toLowerCase()) ?? [];
+        return {
+          ...position,
+          analytics: eventsByPool
+            ? computePositionAccounting(events, poolState, position.lpTokenBalance)
+            : undefined,
+        };
+      }));
     } catch (err) {
       console.error('Failed to fetch positions:', err);
       setError('Failed to load positions');
@@ -129,7 +218,7 @@ export function useLiquidityPositions() {
     } finally {
       setLoading(false);
     }
-  }, [address, isConnected, publicClient, isMonadTestnet]);
+  }, [address, isConnected, publicClient, chainId, isMonadTestnet]);
 
   // Fetch positions on mount and when dependencies change
   useEffect(() => {
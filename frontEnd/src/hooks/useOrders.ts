@@ -0,0 +1,262 @@
+/**
+ * useOrders Hook
+ *
+ * Limit and TWAP orders. The maker approves the input token to the settlement
+ * contract and signs the order; the backend keeper fills it once a shard
+ * offers the signed price, so placing an order costs no gas beyond the
+ * approval. Only an on-chain cancel stops every filler; asking the keeper to
+ * stop is gasless but leaves the signed order valid.
+ */
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { Address } from 'viem';
+import { useAccount, useChainId, usePublicClient, useWalletClient } from 'wagmi';
+import { getContractAddresses } from '@/config/evm-contracts';
+import OrderSettlementABI from '@/abis/OrderSettlement.json';
+import {
+  OrderClient,
+  OrderRecord,
+  OPEN_ORDER_STATUSES,
+  ORDER_TYPES,
+  getCancelMessage,
+  getOrderDomain,
+} from '@/services/orderClient';
+import toast from 'react-hot-toast';
+
+const ORDER_REFRESH_MS = 15000;
+
+export interface PlaceOrderParams {
+  tokenIn: string;
+  tokenOut: string;
+  amountOut: bigint;
+  maxAmountIn: bigint;
+  // 1 for a limit order
+  slices: number;
+  // Seconds between TWAP slices
+  interval: number;
+  // Seconds the order stays fillable after its last slice is due
+  expiresIn: number;
+}
+
+export function useOrders() {
+  const { address: userAddress } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+
+  const [orders, setOrders] = useState<OrderRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const settlement = useMemo(() => {
+    const address = getContractAddresses(chainId)?.orderSettlement;
+    return address ? address as Address : null;
+  }, [chainId]);
+
+  const refresh = useCallback(async () => {
+    if (!userAddress || !settlement) {
+      setOrders([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setOrders(await OrderClient.getOrders(userAddress));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load orders');
+    } finally {
+      setLoading(false);
+    }
+  }, [userAddress, settlement]);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, ORDER_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  const openOrders = useMemo(
+    () => orders.filter((record) => OPEN_ORDER_STATUSES.includes(record.status)),
+    [orders]
+  );
+
+  /**
+   * Approve the input token, sign the order and hand it to the keeper
+   */
+  const placeOrder = useCallback(async (params: PlaceOrderParams): Promise<OrderRecord | null> => {
+    if (!settlement) {
+      toast.error('Limit orders are not available on this network');
+      return null;
+    }
+    if (!publicClient || !walletClient || !userAddress) {
+      toast.error('Please connect your wallet');
+      return null;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    toast.loading('Placing order...', { id: 'place-order' });
+
+    try {
+      // Open orders selling the same token draw on the same allowance
+      const committed = openOrders
+        .filter((record) => record.order.tokenIn.toLowerCase() === params.tokenIn.toLowerCase())
+        .reduce((sum, record) => sum + record.order.maxAmountIn - record.filledAmountIn, BigInt(0));
+
+      const { evmApprovalService } = await import('@/services/evmApprovalService');
+      await evmApprovalService.ensureApproval(
+        walletClient,
+        publicClient,
+        params.tokenIn as Address,
+        userAddress,
+        settlement,
+        committed + params.maxAmountIn,
+        'exact'
+      );
+
+      const startTime = Math.floor(Date.now() / 1000);
+      const order = {
+        maker: userAddress,
+        tokenIn: params.tokenIn,
+        tokenOut: params.tokenOut,
+        amountOut: params.amountOut,
+        maxAmountIn: params.maxAmountIn,
+        slices: params.slices,
+        interval: params.interval,
+        startTime,
+        expiry: startTime + (params.slices - 1) * params.interval + params.expiresIn,
+        nonce: BigInt(Date.now()),
+      };
+
+      const signature = await walletClient.signTypedData({
+        account: userAddress,
+        domain: getOrderDomain(chainId, settlement),
+        types: ORDER_TYPES,
+        primaryType: 'Order',
+        message: {
+          ...order,
+          maker: order.maker as Address,
+          tokenIn: order.tokenIn as Address,
+          tokenOut: order.tokenOut as Address,
+          slices: BigInt(order.slices),
+          interval: BigInt(order.interval),
+          startTime: BigInt(order.startTime),
+          expiry: BigInt(order.expiry),
+        },
+      });
+
+      const record = await OrderClient.submitOrder(order, signature);
+      toast.success('Order placed', { id: 'place-order' });
+      await refresh();
+      return record;
+    } catch (err: any) {
+      console.error('Failed to place order:', err);
+      const errorMsg = err?.message || 'Failed to place order';
+      if (errorMsg.includes('rejected') || errorMsg.includes('denied')) {
+        toast.error('Order cancelled', { id: 'place-order' });
+      } else {
+        toast.error('Failed to place order. Please try again.', { id: 'place-order' });
+      }
+      setError(errorMsg);
+      return null;
+    } finally {
+      setSubmitting(false);
+    }
+  }, [settlement, publicClient, walletClient, userAddress, chainId, openOrders, refresh]);
+
+  /**
+   * Cancel an order on the settlement contract so no one can fill it
+   * The keeper sees the cancellation on its next check and closes the order.
+   */
+  const cancelOrder = useCallback(async (record: OrderRecord): Promise<boolean> => {
+    if (!settlement || !publicClient || !walletClient || !userAddress) {
+      toast.error('Please connect your wallet');
+      return false;
+    }
+
+    toast.loading('Cancelling order...', { id: 'cancel-order' });
+    try {
+      const { order } = record;
+      const { request } = await publicClient.simulateContract({
+        address: settlement,
+        abi: OrderSettlementABI,
+        functionName: 'cancelOrder',
+        args: [{
+          ...order,
+          maker: order.maker as Address,
+          tokenIn: order.tokenIn as Address,
+          tokenOut: order.tokenOut as Address,
+          slices: BigInt(order.slices),
+          interval: BigInt(order.interval),
+          startTime: BigInt(order.startTime),
+          expiry: BigInt(order.expiry),
+        }],
+        account: userAddress,
+      });
+      const hash = await walletClient.writeContract({ ...request, chain: walletClient.chain });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') {
+        throw new Error(`Transaction ${hash} reverted`);
+      }
+
+      toast.success('Order cancelled on-chain', { id: 'cancel-order' });
+      await refresh();
+      return true;
+    } catch (err: any) {
+      console.error('Failed to cancel order:', err);
+      const errorMsg = err?.message || 'Failed to cancel order';
+      if (errorMsg.includes('rejected') || errorMsg.includes('denied')) {
+        toast.dismiss('cancel-order');
+      } else {
+        toast.error('Failed to cancel order. Please try again.', { id: 'cancel-order' });
+      }
+      setError(errorMsg);
+      return false;
+    }
+  }, [settlement, publicClient, walletClient, userAddress, refresh]);
+
+  /**
+   * Ask the keeper to stop filling an order with a signed message
+   * Gasless, but the signed order stays valid on-chain for other fillers.
+   */
+  const stopOrder = useCallback(async (orderHash: string): Promise<boolean> => {
+    if (!walletClient || !userAddress) {
+      toast.error('Please connect your wallet');
+      return false;
+    }
+
+    try {
+      const signature = await walletClient.signMessage({
+        account: userAddress,
+        message: getCancelMessage(orderHash),
+      });
+      await OrderClient.cancelOrder(orderHash, signature);
+      toast.success('Keeper stopped filling the order. It is still valid on-chain.');
+      await refresh();
+      return true;
+    } catch (err: any) {
+      console.error('Failed to stop order:', err);
+      const errorMsg = err?.message || 'Failed to stop order';
+      if (!errorMsg.includes('rejected') && !errorMsg.includes('denied')) {
+        toast.error('Failed to stop order. Please try again.');
+      }
+      setError(errorMsg);
+      return false;
+    }
+  }, [walletClient, userAddress, refresh]);
+
+  return {
+    ordersAvailable: settlement !== null,
+    orders,
+    openOrders,
+    loading,
+    submitting,
+    error,
+    placeOrder,
+    cancelOrder,
+    stopOrder,
+    refresh,
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * usePoolAnalytics Hook
+ *
+ * Metrics, time series and recent swaps for one shard, plus the reserve
+ * distribution across the shards of its pair, from indexed pool events
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useChainId, usePublicClient } from 'wagmi';
+import { Address } from 'viem';
+import { getDexConfig } from '@/config/dex-config-loader';
+import { poolAnalyticsService, PoolHistory } from '@/services/poolAnalyticsService';
+import {
+  PoolHistoryBucket,
+  PoolMetrics,
+  PoolSwapEvent,
+  PoolTokens,
+  ShardDistributionPoint,
+  bucketPoolHistory,
+  bucketSizeFor,
+  computePoolMetrics,
+  shardDistribution,
+} from '@/utils/poolAnalytics';
+
+export type PoolAnalyticsRange = '24h' | '7d' | '30d';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const POOL_ANALYTICS_RANGES: Record<PoolAnalyticsRange, number> = {
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+};
+
+const RECENT_SWAP_COUNT = 25;
+
+interface ShardHistory {
+  poolAddress: string;
+  shardNumber: number;
+  history: PoolHistory;
+}
+
+export function usePoolAnalytics(poolAddress: string | undefined, range: PoolAnalyticsRange = '7d') {
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+
+  const [shards, setShards] = useState<ShardHistory[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const config = getDexConfig(chainId);
+  const poolConfig = config?.pools.find(
+    (pool) => pool.address.toLowerCase() === poolAddress?.toLowerCase()
+  );
+
+  const tokens = useMemo<PoolTokens | null>(() => {
+    if (!poolConfig || !config) return null;
+    const decimalsOf = (address: string) =>
+      config.tokens.find((token) => token.address.toLowerCase() === address.toLowerCase())?.decimals ?? 18;
+    return {
+      tokenA: poolConfig.tokenA,
+      decimalsA: decimalsOf(poolConfig.tokenA),
+      decimalsB: decimalsOf(poolConfig.tokenB),
+    };
+  }, [config, poolConfig]);
+
+  const fetchAnalytics = useCallback(async () => {
+    if (!publicClient || !config || !poolConfig) {
+      setShards([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      // Every shard of the pair, oriented like this one, indexed over the longest range
+      const siblings = config.pools.filter(
+        (pool) =>
+          pool.tokenA.toLowerCase() === poolConfig.tokenA.toLowerCase() &&
+          pool.tokenB.toLowerCase() === poolConfig.tokenB.toLowerCase()
+      );
+      const since = Date.now() - POOL_ANALYTICS_RANGES['30d'];
+
+      const results = await Promise.all(
+        siblings.map(async (pool) => ({
+          poolAddress: pool.address,
+          shardNumber: pool.shardNumber,
+          history: await poolAnalyticsService.getPoolHistory(publicClient, chainId, pool.address as Address, { since }),
+        }))
+      );
+      setShards(results);
+    } catch (err) {
+      console.error('Failed to load pool analytics:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load pool analytics');
+    } finally {
+      setLoading(false);
+    }
+  }, [publicClient, chainId, config, poolConfig]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  const analytics = useMemo(() => {
+    const shard = shards.find((entry) => entry.poolAddress.toLowerCase() === poolAddress?.toLowerCase());
+    if (!shard || !tokens) return null;
+
+    const { points, events } = shard.history;
+    const now = Date.now();
+    const rangeMs = POOL_ANALYTICS_RANGES[range];
+    const bucketMs = bucketSizeFor(rangeMs);
+    // Align buckets so the last one ends now
+    const from = now - Math.ceil(rangeMs / bucketMs) * bucketMs;
+
+    const metrics: PoolMetrics = computePoolMetrics(points, events, tokens, now);
+    const buckets: PoolHistoryBucket[] = bucketPoolHistory(points, events, tokens, from, now, bucketMs);
+    const distribution: ShardDistributionPoint[] = shardDistribution(
+      shards.map((entry) => ({ poolAddress: entry.poolAddress, shardNumber: entry.shardNumber, points: entry.history.points })),
+      tokens,
+      buckets.map((bucket) => Math.min(bucket.timestamp + bucketMs, now) - 1)
+    );
+    const recentSwaps = events
+      .filter((event): event is PoolSwapEvent => event.kind === 'swap')
+      .slice(-RECENT_SWAP_COUNT)
+      .reverse();
+
+    return { metrics, buckets, distribution, recentSwaps, historyStart: shard.history.fromTimestamp };
+  }, [shards, tokens, poolAddress, range]);
+
+  return {
+    metrics: analytics?.metrics ?? null,
+    buckets: analytics?.buckets ?? [],
+    distribution: analytics?.distribution ?? [],
+    recentSwaps: analytics?.recentSwaps ?? [],
+    historyStart: analytics?.historyStart ?? null,
+    tokens,
+    loading,
+    error,
+    refresh: fetchAnalytics,
+  };
+}
@@ -7,6 +7,7 @@
 import { useEffect, useCallback } from 'react';
 import { useChainId } from 'wagmi';
 import { usePoolStore } from '@/stores/poolStore';
+import { poolUpdatesClient } from '@/services/poolUpdatesClient';
 
 interface UsePoolRefreshOptions {
   enabled?: boolean;
@@ -44,6 +45,9 @@ export function usePoolRefresh(options: UsePoolRefreshOptions = {}) {
     console.log(`Setting up auto-refresh every ${refreshInterval}ms for chain ${chainId}`);
     
     const interval = setInterval(() => {
+      // Pushed shard updates keep the pools current while the WebSocket is up
+      if (poolUpdatesClient.isConnected()) return;
+
       console.log(`Auto-refreshing pools for chain ${chainId}`);
       refreshPools(chainId);
     }, refreshInterval);
@@ -1,208 +1,197 @@
 'use client';
 
-import { useEffect, useCallback, useRef } from 'react';
-import { Connection, PublicKey } from '@solana/web3.js';
-import { useConnection } from '@solana/wallet-adapter-react';
-import { Pool, PoolUpdateEvent } from '@/types';
+/**
+ * usePoolUpdates Hook - EVM Version
+ *
+ * Keeps pools in the pool store up to date from the backend's WebSocket
+ * push channel instead of polling the chain.
+ */
+
+import { useEffect, useCallback, useRef, useState } from 'react';
+import { formatUnits } from 'viem';
 import { usePoolStore } from '@/stores/poolStore';
+import {
+  poolUpdatesClient,
+  ShardUpdate,
+  SwapIntent,
+  LiveQuote,
+} from '@/services/poolUpdatesClient';
 
 interface UsePoolUpdatesOptions {
   enabled?: boolean;
-  updateInterval?: number; // milliseconds
 }
 
 interface UsePoolUpdatesReturn {
-  subscribeToPool: (poolId: string) => void;
-  unsubscribeFromPool: (poolId: string) => void;
+  subscribeToPool: (poolAddress: string) => void;
+  unsubscribeFromPool: (poolAddress: string) => void;
   subscribeToAllPools: () => void;
   unsubscribeFromAllPools: () => void;
+  isLive: boolean;
 }
 
-export function usePoolUpdates(options: UsePoolUpdatesOptions = {}): UsePoolUpdatesReturn {
-  const { enabled = true, updateInterval = 60000 } = options; // Increased from 30s to 60s
-  const { connection } = useConnection();
-  const { pools, setPools } = usePoolStore();
-  
-  const subscriptionsRef = useRef<Map<string, number>>(new Map());
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const wsConnectionRef = useRef<WebSocket | null>(null);
-
-  // Fetch pool data from Solana
-  const fetchPoolData = useCallback(async (poolId: string): Promise<Partial<Pool> | null> => {
-    try {
-      const poolPubkey = new PublicKey(poolId);
-      
-      // TODO: Implement actual pool data fetching from Solana programs
-      // This would involve:
-      // 1. Fetching pool account data
-      // 2. Parsing AMM-specific data structures
-      // 3. Calculating current reserves, volume, fees, etc.
-      
-      // For now, return mock updated data
-      const mockUpdate: Partial<Pool> = {
-        reserveA: BigInt(Math.floor(Math.random() * 1000000 * 1e9)),
-        reserveB: BigInt(Math.floor(Math.random() * 1000000 * 1e6)),
-        volume24h: BigInt(Math.floor(Math.random() * 100000 * 1e9)),
-        fees24h: BigInt(Math.floor(Math.random() * 1000 * 1e9)),
-        lastUpdated: Date.now(),
-      };
-
-      return mockUpdate;
-    } catch (error) {
-      console.error(`Failed to fetch pool data for ${poolId}:`, error);
-      return null;
-    }
-  }, []);
+interface PairSubscription {
+  unsubscribe: () => void;
+  poolAddresses: Set<string>;
+}
 
-  // Update pool data in store
-  const updatePoolData = useCallback((poolId: string, updates: Partial<Pool>) => {
-    setPools(pools.map(pool => 
-      pool.id === poolId 
-        ? { ...pool, ...updates }
-        : pool
-    ));
-  }, [pools, setPools]);
-
-  // Fetch updates for all subscribed pools
-  const fetchAllPoolUpdates = useCallback(async () => {
-    if (!enabled || subscriptionsRef.current.size === 0) return;
-
-    const updatePromises = Array.from(subscriptionsRef.current.keys()).map(async (poolId) => {
-      const updates = await fetchPoolData(poolId);
-      if (updates) {
-        updatePoolData(poolId, updates);
-      }
-    });
+/**
+ * Apply a pushed shard update to the matching pool in the store
+ */
+function applyShardUpdate(shard: ShardUpdate) {
+  const { pools, updatePool } = usePoolStore.getState();
+  const pool = pools.find(p => p.address.toLowerCase() === shard.poolAddress.toLowerCase());
+  if (!pool) return;
+
+  const sameOrder = pool.tokenA.toLowerCase() === shard.tokenA.address.toLowerCase();
+  const liquidityA = formatUnits(BigInt(shard.reserveA), shard.tokenA.decimals);
+  const liquidityB = formatUnits(BigInt(shard.reserveB), shard.tokenB.decimals);
+
+  updatePool(pool.address, {
+    liquidityA: sameOrder ? liquidityA : liquidityB,
+    liquidityB: sameOrder ? liquidityB : liquidityA,
+    isFresh: true,
+    lastBlockchainFetch: Date.now(),
+  });
+}
 
-    await Promise.all(updatePromises);
-  }, [enabled, fetchPoolData, updatePoolData]);
-
-  // Set up WebSocket connection for real-time updates
-  const setupWebSocketConnection = useCallback(() => {
-    if (!enabled || wsConnectionRef.current) return;
-
-    try {
-      // TODO: Implement actual WebSocket connection to Solana RPC
-      // For now, we'll use polling instead of WebSocket
-      console.log('WebSocket connection would be established here');
-      
-      // Mock WebSocket connection
-      const mockWs = {
-        close: () => console.log('Mock WebSocket closed'),
-        send: (data: string) => console.log('Mock WebSocket send:', data),
-      } as any;
-      
-      wsConnectionRef.current = mockWs;
-    } catch (error) {
-      console.error('Failed to establish WebSocket connection:', error);
-    }
-  }, [enabled]);
+/**
+ * Whether the push channel is connected
+ */
+function useIsLive(): boolean {
+  const [isLive, setIsLive] = useState(() => poolUpdatesClient.isConnected());
 
-  // Close WebSocket connection
-  const closeWebSocketConnection = useCallback(() => {
-    if (wsConnectionRef.current) {
-      wsConnectionRef.current.close();
-      wsConnectionRef.current = null;
-    }
+  useEffect(() => {
+    setIsLive(poolUpdatesClient.isConnected());
+    return poolUpdatesClient.onConnectionChange(setIsLive);
   }, []);
 
-  // Subscribe to pool updates
-  const subscribeToPool = useCallback((poolId: string) => {
-    if (!enabled) return;
+  return isLive;
+}
 
-    // Add to subscriptions
-    subscriptionsRef.current.set(poolId, Date.now());
+export function usePoolUpdates(options: UsePoolUpdatesOptions = {}): UsePoolUpdatesReturn {
+  const { enabled = true } = options;
+  const isLive = useIsLive();
 
-    // Set up WebSocket if not already connected
-    setupWebSocketConnection();
+  // One backend subscription per chain and token pair, shared by its shards
+  const pairsRef = useRef<Map<string, PairSubscription>>(new Map());
 
-    // TODO: Subscribe to specific pool account changes via WebSocket
-    console.log(`Subscribed to pool updates: ${poolId}`);
-  }, [enabled, setupWebSocketConnection]);
+  const subscribeToPool = useCallback((poolAddress: string) => {
+    if (!enabled) return;
 
-  // Unsubscribe from pool updates
-  const unsubscribeFromPool = useCallback((poolId: string) => {
-    subscriptionsRef.current.delete(poolId);
+    const pool = usePoolStore.getState().pools
+      .find(p => p.address.toLowerCase() === poolAddress.toLowerCase());
+    if (!pool) return;
 
-    // Close WebSocket if no more subscriptions
-    if (subscriptionsRef.current.size === 0) {
-      closeWebSocketConnection();
+    const pairKey = `${pool.chainId}:${[pool.tokenA.toLowerCase(), pool.tokenB.toLowerCase()].sort().join(':')}`;
+    const existing = pairsRef.current.get(pairKey);
+    if (existing) {
+      existing.poolAddresses.add(pool.address.toLowerCase());
+      return;
     }
 
-    console.log(`Unsubscribed from pool updates: ${poolId}`);
-  }, [closeWebSocketConnection]);
-
-  // Subscribe to all pools
-  const subscribeToAllPools = useCallback(() => {
-    pools.forEach(pool => subscribeToPool(pool.id));
-  }, [pools, subscribeToPool]);
-
-  // Unsubscribe from all pools
-  const unsubscribeFromAllPools = useCallback(() => {
-    Array.from(subscriptionsRef.current.keys()).forEach(poolId => {
-      unsubscribeFromPool(poolId);
+    pairsRef.current.set(pairKey, {
+      unsubscribe: poolUpdatesClient.subscribeShards(pool.chainId, pool.tokenA, pool.tokenB, applyShardUpdate),
+      poolAddresses: new Set([pool.address.toLowerCase()]),
     });
-  }, [unsubscribeFromPool]);
+  }, [enabled]);
 
-  // Set up polling interval for updates
-  useEffect(() => {
-    if (!enabled) return;
+  const unsubscribeFromPool = useCallback((poolAddress: string) => {
+    const address = poolAddress.toLowerCase();
 
-    intervalRef.current = setInterval(fetchAllPoolUpdates, updateInterval);
+    for (const [pairKey, pair] of pairsRef.current.entries()) {
+      if (!pair.poolAddresses.delete(address)) continue;
 
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
+      if (pair.poolAddresses.size === 0) {
+        pair.unsubscribe();
+        pairsRef.current.delete(pairKey);
       }
-    };
-  }, [enabled, updateInterval, fetchAllPoolUpdates]);
+    }
+  }, []);
+
+  const subscribeToAllPools = useCallback(() => {
+    usePoolStore.getState().pools.forEach(pool => subscribeToPool(pool.address));
+  }, [subscribeToPool]);
+
+  const unsubscribeFromAllPools = useCallback(() => {
+    pairsRef.current.forEach(pair => pair.unsubscribe());
+    pairsRef.current.clear();
+  }, []);
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
       unsubscribeFromAllPools();
-      closeWebSocketConnection();
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
     };
-  }, [unsubscribeFromAllPools, closeWebSocketConnection]);
+  }, [unsubscribeFromAllPools]);
 
   return {
     subscribeToPool,
     unsubscribeFromPool,
     subscribeToAllPools,
     unsubscribeFromAllPools,
+    isLive,
   };
 }
 
 // Hook for subscribing to specific pool updates
-export function usePoolSubscription(poolId: string | null, enabled: boolean = true) {
-  const { subscribeToPool, unsubscribeFromPool } = usePoolUpdates({ enabled });
+export function usePoolSubscription(poolAddress: string | null, enabled: boolean = true) {
+  const { subscribeToPool, unsubscribeFromPool, isLive } = usePoolUpdates({ enabled });
 
   useEffect(() => {
-    if (poolId && enabled) {
-      subscribeToPool(poolId);
-      return () => unsubscribeFromPool(poolId);
+    if (poolAddress && enabled) {
+      subscribeToPool(poolAddress);
+      return () => unsubscribeFromPool(poolAddress);
     }
-  }, [poolId, enabled, subscribeToPool, unsubscribeFromPool]);
+  }, [poolAddress, enabled, subscribeToPool, unsubscribeFromPool]);
+
+  return { isLive };
 }
 
 // Hook for managing pool list subscriptions
 export function usePoolListSubscriptions(enabled: boolean = true) {
-  const { subscribeToAllPools, unsubscribeFromAllPools } = usePoolUpdates({ enabled });
+  const { subscribeToAllPools, unsubscribeFromAllPools, isLive } = usePoolUpdates({ enabled });
   const { pools } = usePoolStore();
 
+  // Resubscribe when the pool list changes (e.g. after switching chains)
+  const poolKey = pools.map(pool => `${pool.chainId}:${pool.address}`).join(',');
+
   useEffect(() => {
-    if (enabled && pools.length > 0) {
+    if (enabled && poolKey) {
       subscribeToAllPools();
     }
 
     return () => {
-      if (enabled) {
-        unsubscribeFromAllPools();
-      }
+      unsubscribeFromAllPools();
     };
-  }, [enabled, pools.length, subscribeToAllPools, unsubscribeFromAllPools]);
-}
\ No newline at end of file
+  }, [enabled, poolKey, subscribeToAllPools, unsubscribeFromAllPools]);
+
+  return { isLive };
+}
+
+// Hook for a live quote of an open swap intent
+export function useLiveQuote(chainId: number | null, intent: SwapIntent | null) {
+  const [quote, setQuote] = useState<LiveQuote | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isLive = useIsLive();
+
+  // Re-subscribe only when the intent itself changes
+  const intentKey = intent ? JSON.stringify(intent) : null;
+
+  useEffect(() => {
+    setQuote(null);
+    setError(null);
+    if (!chainId || !intentKey) return;
+
+    return poolUpdatesClient.subscribeQuote(
+      chainId,
+      JSON.parse(intentKey) as SwapIntent,
+      nextQuote => {
+        setQuote(nextQuote);
+        setError(null);
+      },
+      setError
+    );
+  }, [chainId, intentKey]);
+
+  return { quote, error, isLive };
+}
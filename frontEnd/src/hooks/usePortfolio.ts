@@ -21,6 +21,7 @@ export function usePortfolio(options: UsePortfolioOptions = {}) {
     setPortfolio,
     setLoading,
     setError,
+    revaluePortfolio,
     addHistoricalData,
     clearPortfolio,
   } = usePortfolioStore();
@@ -161,7 +162,8 @@ export function usePortfolio(options: UsePortfolioOptions = {}) {
       });
 
       setPortfolio(portfolioData);
-      addHistoricalData(Date.now(), totalValue, totalValueUsd);
+      await revaluePortfolio();
+      addHistoricalData(Date.now(), totalValue, usePortfolioStore.getState().portfolio?.totalValueUsd ?? totalValueUsd);
     } catch (err) {
       console.error('Failed to fetch portfolio:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch portfolio');
@@ -179,6 +181,7 @@ export function usePortfolio(options: UsePortfolioOptions = {}) {
     setPortfolio,
     setLoading,
     setError,
+    revaluePortfolio,
     addHistoricalData,
     clearPortfolio,
   ]);
@@ -0,0 +1,118 @@
+/**
+ * usePortfolioHistory Hook
+ *
+ * Persisted portfolio value history for the connected EVM wallet: backfills
+ * past values from indexed history once per session, then snapshots the live
+ * value at an interval while mounted
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAccount, useChainId, usePublicClient } from 'wagmi';
+import { portfolioHistoryService } from '@/services/portfolioHistoryService';
+import { evmTransactionHistoryService } from '@/services/evmTransactionHistoryService';
+import { usePortfolioHistoryStore, portfolioHistoryKey } from '@/stores/portfolioHistoryStore';
+import { Transaction } from '@/types';
+import { PnlAttribution, attributePnl } from '@/utils/portfolioValuation';
+
+export type PortfolioHistoryRange = '24h' | '7d' | '30d' | 'all';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+// How far back the first backfill reaches
+const BACKFILL_WINDOW_MS = 30 * DAY_MS;
+
+export const PORTFOLIO_HISTORY_RANGES: Record<PortfolioHistoryRange, number> = {
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+  all: Infinity,
+};
+
+// Wallets backfilled in this session
+const backfilledKeys = new Set<string>();
+
+export function usePortfolioHistory(range: PortfolioHistoryRange = '7d') {
+  const { address, isConnected } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const { histories, addSnapshot, mergeBackfill } = usePortfolioHistoryStore();
+
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const key = address ? portfolioHistoryKey(chainId, address) : null;
+
+  const takeSnapshot = useCallback(async () => {
+    if (!isConnected || !address || !publicClient || !key) return;
+
+    try {
+      addSnapshot(key, await portfolioHistoryService.takeSnapshot(publicClient, chainId, address));
+    } catch (err) {
+      console.error('Failed to snapshot portfolio:', err);
+      setError(err instanceof Error ? err.message : 'Failed to snapshot portfolio');
+    }
+  }, [isConnected, address, publicClient, chainId, key, addSnapshot]);
+
+  const backfill = useCallback(async () => {
+    if (!isConnected || !address || !publicClient || !key) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await portfolioHistoryService.backfill(
+        publicClient,
+        chainId,
+        address,
+        Date.now() - BACKFILL_WINDOW_MS
+      );
+      mergeBackfill(key, result.snapshots, result.coveredFrom);
+      setTransactions(result.transactions);
+      backfilledKeys.add(key);
+    } catch (err) {
+      console.error('Failed to backfill portfolio history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to backfill portfolio history');
+    } finally {
+      setLoading(false);
+    }
+  }, [isConnected, address, publicClient, chainId, key, mergeBackfill]);
+
+  useEffect(() => {
+    if (!key || !address) return;
+
+    if (backfilledKeys.has(key)) {
+      // Attribution still needs the transactions; the cache has them
+      evmTransactionHistoryService.getCachedHistory(chainId, address)
+        .then((history) => setTransactions(history?.transactions ?? []))
+        .catch(() => setTransactions([]));
+    } else {
+      backfill();
+    }
+  }, [key, address, chainId, backfill]);
+
+  useEffect(() => {
+    takeSnapshot();
+    const interval = setInterval(takeSnapshot, SNAPSHOT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [takeSnapshot]);
+
+  const snapshots = useMemo(() => {
+    const all = key ? histories[key] || [] : [];
+    const cutoff = Date.now() - PORTFOLIO_HISTORY_RANGES[range];
+    return all.filter((snapshot) => snapshot.timestamp >= cutoff);
+  }, [histories, key, range]);
+
+  const attribution = useMemo<PnlAttribution>(
+    () => attributePnl(snapshots, transactions),
+    [snapshots, transactions]
+  );
+
+  return {
+    snapshots,
+    attribution,
+    loading,
+    error,
+    refresh: backfill,
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * useRebalancePlan Hook
+ *
+ * Asks the liquidity router where an LP's positions in a pair earn the most
+ * fees, and carries out the plan: withdraw from the large shards, then deposit
+ * into the small ones at their current ratio.
+ */
+
+import { useState, useCallback } from 'react';
+import { useAccount, useChainId, usePublicClient, useWalletClient } from 'wagmi';
+import { Address } from 'viem';
+import { evmLiquidityService } from '@/services/evmLiquidityService';
+import { evmApprovalService } from '@/services/evmApprovalService';
+import { LiquidityRouterClient, RebalancePlan } from '@/services/liquidityRouterClient';
+import { depositAtPoolRatio } from '@/utils/rebalance';
+import type { LiquidityPosition } from './useLiquidityPositions';
+import toast from 'react-hot-toast';
+
+export interface RebalanceProgress {
+  step: number;
+  totalSteps: number;
+  description: string;
+}
+
+export function useRebalancePlan() {
+  const { address: userAddress } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+
+  const [plan, setPlan] = useState<RebalancePlan | null>(null);
+  const [pairName, setPairName] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [executing, setExecuting] = useState(false);
+  const [progress, setProgress] = useState<RebalanceProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Plan a rebalance of every position the LP holds in a pair
+   */
+  const fetchPlan = useCallback(async (pairPositions: LiquidityPosition[]) => {
+    if (pairPositions.length === 0) return;
+    const [first] = pairPositions;
+
+    setPairName(first.pairName);
+    setPlan(null);
+    setLoading(true);
+    setError(null);
+
+    try {
+      const token = (address: string, symbol: string, decimals: number) => ({ address, symbol, decimals, name: symbol });
+      const nextPlan = await LiquidityRouterClient.getRebalancePlan(
+        chainId,
+        {
+          tokenA: token(first.tokenAAddress, first.tokenASymbol, first.tokenADecimals),
+          tokenB: token(first.tokenBAddress, first.tokenBSymbol, first.tokenBDecimals),
+        },
+        pairPositions.map((position) => ({ poolAddress: position.poolAddress, lpTokens: position.lpTokenBalance }))
+      );
+      setPlan(nextPlan);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to plan rebalance');
+    } finally {
+      setLoading(false);
+    }
+  }, [chainId]);
+
+  /**
+   * Run the plan's moves in order. A move that fails stops the rest, leaving
+   * any withdrawn tokens in the wallet.
+   */
+  const executePlan = useCallback(async (slippageTolerance: number): Promise<boolean> => {
+    if (!plan || plan.moves.length === 0) return false;
+    if (!publicClient || !walletClient || !userAddress) {
+      toast.error('Please connect your wallet');
+      return false;
+    }
+
+    setExecuting(true);
+    setError(null);
+    const totalSteps = plan.moves.length * 2;
+
+    try {
+      for (const [index, move] of plan.moves.entries()) {
+        const fromPool = move.fromPool as Address;
+        const toPool = move.toPool as Address;
+
+        setProgress({ step: index * 2 + 1, totalSteps, description: `Withdrawing from ${fromPool.slice(0, 8)}...` });
+        const fromState = await evmLiquidityService.getPoolState(publicClient, fromPool);
+        const withdrawnA = (move.lpTokensToWithdraw * fromState.reserveA) / fromState.totalSupply;
+        const withdrawnB = (move.lpTokensToWithdraw * fromState.reserveB) / fromState.totalSupply;
+        await evmLiquidityService.removeLiquidity(
+          walletClient,
+          publicClient,
+          fromPool,
+          move.lpTokensToWithdraw,
+          slippageTolerance,
+          userAddress
+        );
+
+        setProgress({ step: index * 2 + 2, totalSteps, description: `Depositing into ${toPool.slice(0, 8)}...` });
+        const toState = await evmLiquidityService.getPoolState(publicClient, toPool);
+        const { amountA, amountB } = depositAtPoolRatio(
+          {
+            [fromState.tokenA.toLowerCase()]: withdrawnA,
+            [fromState.tokenB.toLowerCase()]: withdrawnB,
+          },
+          toState
+        );
+        if (amountA === BigInt(0) || amountB === BigInt(0)) {
+          throw new Error(`Nothing to deposit into ${toPool}`);
+        }
+
+        await evmApprovalService.ensureApproval(walletClient, publicClient, toState.tokenA, userAddress, toPool, amountA, 'unlimited');
+        await evmApprovalService.ensureApproval(walletClient, publicClient, toState.tokenB, userAddress, toPool, amountB, 'unlimited');
+        await evmLiquidityService.addLiquidity(
+          walletClient,
+          publicClient,
+          toPool,
+          amountA,
+          amountB,
+          slippageTolerance,
+          userAddress
+        );
+      }
+
+      toast.success(`Rebalanced ${pairName ?? 'positions'}`);
+      setPlan(null);
+      return true;
+    } catch (err: any) {
+      console.error('Rebalance failed:', err);
+      const errorMsg = err?.message || 'Failed to rebalance';
+      if (errorMsg.includes('rejected') || errorMsg.includes('denied')) {
+        toast.error('Transaction cancelled');
+      } else {
+        toast.error('Rebalance stopped. Withdrawn tokens are in your wallet.');
+      }
+      setError(errorMsg);
+      return false;
+    } finally {
+      setExecuting(false);
+      setProgress(null);
+    }
+  }, [plan, pairName, publicClient, walletClient, userAddress]);
+
+  const clearPlan = useCallback(() => {
+    setPlan(null);
+    setPairName(null);
+    setError(null);
+  }, []);
+
+  return {
+    plan,
+    pairName,
+    loading,
+    executing,
+    progress,
+    error,
+    fetchPlan,
+    executePlan,
+    clearPlan,
+  };
+}
@@ -0,0 +1,309 @@
+/**
+ * useShardCreation Hook
+ *
+ * Form state for deploying a SAMM shard through SAMMPoolFactory on the
+ * connected EVM chain: token pair, first deposit and curve parameters,
+ * validated the way the factory and pool will check them
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Address, formatUnits, parseUnits } from 'viem';
+import { useAccount, useChainId, usePublicClient, useWalletClient } from 'wagmi';
+import toast from 'react-hot-toast';
+import { getDexConfig } from '@/config/dex-config-loader';
+import { evmApprovalService } from '@/services/evmApprovalService';
+import { evmLiquidityService } from '@/services/evmLiquidityService';
+import {
+  CreateShardResult,
+  ShardCreationStep,
+  ShardTokenInput,
+  evmShardService,
+} from '@/services/evmShardService';
+import { usePoolStore } from '@/stores/poolStore';
+import {
+  SammParameterKey,
+  getDefaultSammParameters,
+  initialLpTokens,
+  toDecimalSammParameters,
+  toScaledSammParameters,
+  validateSammParameters,
+} from '@/utils/sammParameters';
+
+export type ShardFormField = 'tokenPair' | 'amountA' | 'amountB' | SammParameterKey;
+
+export interface ShardCreationForm {
+  tokenA?: Address;
+  tokenB?: Address;
+  amountA: string;
+  amountB: string;
+  // Decimal strings as typed, e.g. "-1.05"
+  parameters: Record<SammParameterKey, string>;
+}
+
+function defaultParameterInputs(chainId: number): Record<SammParameterKey, string> {
+  const decimal = toDecimalSammParameters(getDefaultSammParameters(chainId));
+  return {
+    beta1: String(decimal.beta1),
+    rmin: String(decimal.rmin),
+    rmax: String(decimal.rmax),
+    c: String(decimal.c),
+  };
+}
+
+function parseAmount(value: string, decimals: number): bigint | null {
+  if (!value) return null;
+  try {
+    return parseUnits(value, decimals);
+  } catch {
+    return null;
+  }
+}
+
+export function useShardCreation() {
+  const { address: userAddress, isConnected } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+  const { addPool } = usePoolStore();
+
+  const [form, setForm] = useState<ShardCreationForm>(() => ({
+    amountA: '',
+    amountB: '',
+    parameters: defaultParameterInputs(chainId),
+  }));
+  const [balances, setBalances] = useState<{ a: bigint; b: bigint }>({ a: BigInt(0), b: BigInt(0) });
+  // Token B per token A in the pair's existing shards
+  const [pairPrice, setPairPrice] = useState<number | null>(null);
+  const [step, setStep] = useState<ShardCreationStep | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<CreateShardResult | null>(null);
+
+  const tokens = useMemo<ShardTokenInput[]>(
+    () => (getDexConfig(chainId)?.tokens ?? []).map((token) => ({
+      address: token.address as Address,
+      symbol: token.symbol,
+      decimals: token.decimals,
+    })),
+    [chainId]
+  );
+
+  const tokenA = tokens.find((token) => token.address === form.tokenA);
+  const tokenB = tokens.find((token) => token.address === form.tokenB);
+
+  // Read on every render so a shard registered meanwhile shows up
+  const pairKey = tokenA && tokenB
+    ? [tokenA.address.toLowerCase(), tokenB.address.toLowerCase()].sort().join()
+    : null;
+  const existingShards = pairKey
+    ? (getDexConfig(chainId)?.pools ?? [])
+      .filter((pool) => [pool.tokenA.toLowerCase(), pool.tokenB.toLowerCase()].sort().join() === pairKey)
+      .sort((a, b) => a.shardNumber - b.shardNumber)
+    : [];
+  const referenceShard = existingShards[0]?.address as Address | undefined;
+
+  // Parameters follow the chain defaults until the user edits them
+  useEffect(() => {
+    setForm((prev) => ({ ...prev, parameters: defaultParameterInputs(chainId) }));
+  }, [chainId]);
+
+  useEffect(() => {
+    if (!publicClient || !userAddress || !tokenA || !tokenB) {
+      setBalances({ a: BigInt(0), b: BigInt(0) });
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all([
+      evmApprovalService.getTokenBalance(publicClient, tokenA.address, userAddress),
+      evmApprovalService.getTokenBalance(publicClient, tokenB.address, userAddress),
+    ])
+      .then(([a, b]) => {
+        if (!cancelled) setBalances({ a, b });
+      })
+      .catch((err) => console.warn('⚠️  Failed to load token balances:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [publicClient, userAddress, tokenA, tokenB, result]);
+
+  useEffect(() => {
+    if (!publicClient || !referenceShard || !tokenA || !tokenB) {
+      setPairPrice(null);
+      return;
+    }
+
+    let cancelled = false;
+    evmLiquidityService.getPoolState(publicClient, referenceShard)
+      .then((state) => {
+        if (cancelled || state.reserveA === BigInt(0) || state.reserveB === BigInt(0)) return;
+        const aIsFirst = state.tokenA.toLowerCase() === tokenA.address.toLowerCase();
+        const reserveA = Number(aIsFirst ? state.reserveA : state.reserveB) / 10 ** tokenA.decimals;
+        const reserveB = Number(aIsFirst ? state.reserveB : state.reserveA) / 10 ** tokenB.decimals;
+        setPairPrice(reserveB / reserveA);
+      })
+      .catch(() => {
+        if (!cancelled) setPairPrice(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [publicClient, referenceShard, tokenA, tokenB]);
+
+  const amountA = tokenA ? parseAmount(form.amountA, tokenA.decimals) : null;
+  const amountB = tokenB ? parseAmount(form.amountB, tokenB.decimals) : null;
+
+  const scaledParameters = useMemo(
+    () => toScaledSammParameters({
+      beta1: Number(form.parameters.beta1),
+      rmin: Number(form.parameters.rmin),
+      rmax: Number(form.parameters.rmax),
+      c: Number(form.parameters.c),
+    }),
+    [form.parameters]
+  );
+
+  const expectedLpTokens = amountA && amountB ? initialLpTokens(amountA, amountB) : BigInt(0);
+
+  const errors = useMemo(() => {
+    const result: Partial<Record<ShardFormField, string>> = { ...validateSammParameters(scaledParameters) };
+
+    if (tokenA && tokenB && tokenA.address === tokenB.address) {
+      result.tokenPair = 'Select two different tokens';
+    }
+    if (tokenA && form.amountA) {
+      if (!amountA || amountA <= BigInt(0)) {
+        result.amountA = 'Enter a valid amount';
+      } else if (amountA > balances.a) {
+        result.amountA = `Insufficient ${tokenA.symbol} balance`;
+      }
+    }
+    if (tokenB && form.amountB) {
+      if (!amountB || amountB <= BigInt(0)) {
+        result.amountB = 'Enter a valid amount';
+      } else if (amountB > balances.b) {
+        result.amountB = `Insufficient ${tokenB.symbol} balance`;
+      }
+    }
+    if (amountA && amountB && !result.amountA && !result.amountB && expectedLpTokens === BigInt(0)) {
+      result.amountA = 'Deposit too small to mint LP tokens';
+    }
+
+    return result;
+  }, [scaledParameters, tokenA, tokenB, form.amountA, form.amountB, amountA, amountB, balances, expectedLpTokens]);
+
+  const canCreate = Boolean(
+    isConnected && walletClient && tokenA && tokenB && amountA && amountB &&
+    Object.keys(errors).length === 0 && !step
+  );
+
+  const setToken = useCallback((side: 'A' | 'B', address: Address) => {
+    setForm((prev) => (side === 'A' ? { ...prev, tokenA: address } : { ...prev, tokenB: address }));
+    setResult(null);
+  }, []);
+
+  const setAmount = useCallback((side: 'A' | 'B', value: string) => {
+    if (value !== '' && !/^\d*\.?\d*$/.test(value)) return;
+    setForm((prev) => (side === 'A' ? { ...prev, amountA: value } : { ...prev, amountB: value }));
+  }, []);
+
+  const setParameter = useCallback((key: SammParameterKey, value: string) => {
+    if (value !== '' && !/^-?\d*\.?\d*$/.test(value)) return;
+    setForm((prev) => ({ ...prev, parameters: { ...prev.parameters, [key]: value } }));
+  }, []);
+
+  const resetParameters = useCallback(() => {
+    setForm((prev) => ({ ...prev, parameters: defaultParameterInputs(chainId) }));
+  }, [chainId]);
+
+  /**
+   * Fill token B's amount so the new shard opens at the pair's current price
+   */
+  const matchPairPrice = useCallback(() => {
+    if (pairPrice === null || !tokenB || !form.amountA) return;
+    const amount = Number(form.amountA) * pairPrice;
+    setForm((prev) => ({ ...prev, amountB: amount.toFixed(Math.min(tokenB.decimals, 6)) }));
+  }, [pairPrice, tokenB, form.amountA]);
+
+  const createShard = useCallback(async (): Promise<CreateShardResult | null> => {
+    if (!publicClient || !walletClient || !userAddress || !tokenA || !tokenB || !amountA || !amountB) {
+      toast.error('Please connect your wallet');
+      return null;
+    }
+
+    setError(null);
+    setResult(null);
+
+    try {
+      const created = await evmShardService.createShard(
+        walletClient,
+        publicClient,
+        { chainId, tokenA, tokenB, amountA, amountB, sammParameters: scaledParameters },
+        userAddress,
+        setStep
+      );
+
+      // The registered pool lists the pair in the factory's order
+      const [poolTokenA, poolTokenB, poolAmountA, poolAmountB] =
+        created.pool.tokenA.toLowerCase() === tokenA.address.toLowerCase()
+          ? [tokenA, tokenB, amountA, amountB]
+          : [tokenB, tokenA, amountB, amountA];
+      addPool({
+        address: created.pool.address,
+        tokenA: created.pool.tokenA,
+        tokenB: created.pool.tokenB,
+        tokenASymbol: created.pool.tokenASymbol,
+        tokenBSymbol: created.pool.tokenBSymbol,
+        liquidityA: formatUnits(poolAmountA, poolTokenA.decimals),
+        liquidityB: formatUnits(poolAmountB, poolTokenB.decimals),
+        shardNumber: created.pool.shardNumber,
+        chainId,
+      });
+
+      setResult(created);
+      toast.success(`${created.pool.name} created`);
+      return created;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to create shard';
+      console.error('Shard creation failed:', err);
+      setError(message);
+      toast.error(message);
+      return null;
+    } finally {
+      setStep(null);
+    }
+  }, [publicClient, walletClient, userAddress, tokenA, tokenB, amountA, amountB, chainId, scaledParameters, addPool]);
+
+  const reset = useCallback(() => {
+    setForm({ amountA: '', amountB: '', parameters: defaultParameterInputs(chainId) });
+    setStep(null);
+    setError(null);
+    setResult(null);
+  }, [chainId]);
+
+  return {
+    tokens,
+    tokenA,
+    tokenB,
+    form,
+    balances,
+    existingShards,
+    pairPrice,
+    scaledParameters,
+    expectedLpTokens,
+    errors,
+    canCreate,
+    step,
+    isCreating: step !== null,
+    error,
+    result,
+    setToken,
+    setAmount,
+    setParameter,
+    resetParameters,
+    matchPairPrice,
+    createShard,
+    reset,
+  };
+}
@@ -7,6 +7,7 @@
 import { useState, useMemo, useCallback } from 'react';
 import { useDirectWalletConnection } from './useDirectWalletConnection';
 import { ShardedDexService, SwapQuote, TokenConfig, PoolData } from '../lib/shardedDex';
+import { StrandedSwap, RecoveryOption } from '../services/evmSwapService';
 
 export function useShardedDexDirect() {
   const {
@@ -156,6 +157,38 @@ export function useShardedDexDirect() {
     }
   }, [dexService, isConnected, address, walletClient, isWalletReady, chainId, switchChain]);
 
+  /**
+   * Quote the ways out of a multi-hop swap that failed partway
+   */
+  const getRecoveryOptions = useCallback(async (
+    stranded: StrandedSwap,
+    slippageTolerance: number = 0.5
+  ): Promise<RecoveryOption[]> => {
+    if (!dexService) return [];
+    return dexService.getRecoveryOptions(stranded, slippageTolerance);
+  }, [dexService]);
+
+  /**
+   * Swap a stranded intermediate token back or onward
+   */
+  const recoverStrandedSwap = useCallback(async (option: RecoveryOption): Promise<string> => {
+    if (!dexService || !walletClient) {
+      throw new Error('Please connect your wallet');
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      return await dexService.recoverStrandedSwap(option);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Failed to recover swap';
+      setError(errorMsg);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, [dexService, walletClient]);
+
   /**
    * Get pools for a token pair with real-time data
    */
@@ -265,6 +298,8 @@ export function useShardedDexDirect() {
     switchChain,
     getQuote,
     executeSwap,
+    getRecoveryOptions,
+    recoverStrandedSwap,
     getPoolsForPairRealTime,
     getPoolsForPair,
     getTradingPairs,
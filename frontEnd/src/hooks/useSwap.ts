@@ -1,9 +1,55 @@
+import { useCallback } from 'react';
+import { Address, PublicClient, WalletClient } from 'viem';
 import { useSwapStore } from '@/stores/swapStore';
+import {
+  sammSwapService,
+  SAMMExactInputQuote,
+  SAMMSwapQuote,
+  SAMMSwapResult,
+} from '@/services/sammSwapService';
 
 export const useSwap = () => {
   const swapStore = useSwapStore();
-  
+  const { swapMode } = swapStore;
+
+  /**
+   * Get a SAMM quote in the current swap mode.
+   * `amount` is what the user spends (exact input) or receives (exact output).
+   */
+  const getSAMMQuote = useCallback(
+    (
+      client: PublicClient,
+      chainId: number,
+      inputToken: Address,
+      outputToken: Address,
+      amount: bigint,
+      slippageTolerance?: number
+    ): Promise<SAMMSwapQuote | SAMMExactInputQuote> =>
+      swapMode === 'exactInput'
+        ? sammSwapService.getQuoteForInput(client, chainId, inputToken, outputToken, amount, slippageTolerance)
+        : sammSwapService.getQuoteForOutput(client, chainId, inputToken, outputToken, amount, slippageTolerance),
+    [swapMode]
+  );
+
+  /**
+   * Execute a SAMM quote through the path matching the mode it was quoted in.
+   */
+  const executeSAMMSwap = useCallback(
+    (
+      walletClient: WalletClient,
+      publicClient: PublicClient,
+      quote: SAMMSwapQuote | SAMMExactInputQuote,
+      userAddress: Address
+    ): Promise<SAMMSwapResult> =>
+      'mode' in quote && quote.mode === 'exactInput'
+        ? sammSwapService.executeSwapSAMMExactInput(walletClient, publicClient, quote, userAddress)
+        : sammSwapService.executeSwapSAMM(walletClient, publicClient, quote, userAddress),
+    []
+  );
+
   return {
     ...swapStore,
+    getSAMMQuote,
+    executeSAMMSwap,
   };
-};
\ No newline at end of file
+};
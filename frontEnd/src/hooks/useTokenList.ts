@@ -1,70 +1,87 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { PublicKey } from '@solana/web3.js';
-import { Token, TokenListResponse } from '@/types';
-import { useSolanaConnection } from './useSolanaConnection';
-
-// Solana Token Registry URLs (with fallbacks)
-const TOKEN_LIST_URLS = [
-  'https://token.jup.ag/strict',
-  'https://tokens.jup.ag/all',
-  'https://raw.githubusercontent.com/solana-labs/token-list/main/src/tokens/solana.tokenlist.json',
-];
-
-// Popular Solana tokens for fallback
-const POPULAR_TOKENS: Token[] = [
-  {
-    mint: 'So11111111111111111111111111111111111111112',
-    address: 'So11111111111111111111111111111111111111112',
-    symbol: 'SOL',
-    name: 'Solana',
-    decimals: 9,
-    logoURI: 'https://raw.githubusercontent.com/solana-labs/token-list/main/assets/mainnet/So11111111111111111111111111111111111111112/logo.png',
-    isNative: true,
-    tags: ['verified']
-  },
-  {
-    mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
-    address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
-    symbol: 'USDC',
-    name: 'USD Coin',
-    decimals: 6,
-    logoURI: 'https://raw.githubusercontent.com/solana-labs/token-list/main/assets/mainnet/EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v/logo.png',
-    tags: ['verified', 'stablecoin']
-  },
-  {
-    mint: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
-    address: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
-    symbol: 'USDT',
-    name: 'Tether USD',
-    decimals: 6,
-    logoURI: 'https://raw.githubusercontent.com/solana-labs/token-list/main/assets/mainnet/Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB/logo.png',
-    tags: ['verified', 'stablecoin']
-  }
-];
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { isAddress } from 'viem';
+import { useChainId, usePublicClient } from 'wagmi';
+import { Token } from '@/types';
+import { evmTokenService } from '@/services/evmTokenService';
+import { useTokenListStore } from '@/stores/tokenListStore';
+import { ImportedTokenList, ManagedToken, mergeTokenSources, parseTokenList } from '@/utils/tokenLists';
+
+const FAVORITES_KEY = 'samm-dex-favorite-tokens';
+
+export interface TokenListImportResult {
+  name: string;
+  imported: number;
+  skipped: number;
+}
 
 interface UseTokenListReturn {
   tokens: Token[];
   loading: boolean;
   error: string | null;
   favoriteTokens: string[];
+  tokenLists: ImportedTokenList[];
   searchTokens: (query: string) => Token[];
-  addCustomToken: (mintAddress: string) => Promise<Token | null>;
-  toggleFavorite: (mintAddress: string) => void;
+  addCustomToken: (address: string) => Promise<Token | null>;
+  removeCustomToken: (address: string) => void;
+  importTokenList: (source: { url: string } | { json: string }) => Promise<TokenListImportResult>;
+  removeTokenList: (name: string) => void;
+  isTokenAcknowledged: (address: string) => boolean;
+  acknowledgeToken: (address: string) => void;
+  toggleFavorite: (address: string) => void;
   refreshTokenList: () => Promise<void>;
 }
 
+/**
+ * Tokens outside the DEX config carry an `unverified` tag until the user
+ * confirms them in the token selector
+ */
+export function isUnverifiedToken(token: Pick<Token, 'tags'>): boolean {
+  return !!token.tags?.includes('unverified');
+}
+
+function toToken(token: ManagedToken): Token {
+  return {
+    mint: token.address,
+    address: token.address,
+    symbol: token.symbol,
+    name: token.name,
+    decimals: token.decimals,
+    logoURI: token.logoURI,
+    chainId: token.chainId,
+    tags: token.verified ? ['verified'] : ['unverified', token.source],
+  };
+}
+
 export function useTokenList(): UseTokenListReturn {
-  const [tokens, setTokens] = useState<Token[]>(POPULAR_TOKENS);
-  const [loading, setLoading] = useState(true);
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [favoriteTokens, setFavoriteTokens] = useState<string[]>([]);
-  const { connection } = useSolanaConnection();
+
+  const customTokens = useTokenListStore((state) => state.customTokens[chainId]);
+  const chainTokenLists = useTokenListStore((state) => state.tokenLists[chainId]);
+  const {
+    addCustomToken: storeCustomToken,
+    removeCustomToken: dropCustomToken,
+    addTokenList,
+    removeTokenList: dropTokenList,
+    acknowledgeToken: storeAcknowledgement,
+    isAcknowledged,
+  } = useTokenListStore();
+
+  const tokenLists = useMemo(() => chainTokenLists || [], [chainTokenLists]);
+
+  const tokens = useMemo(
+    () => mergeTokenSources(chainId, tokenLists, customTokens || []).map(toToken),
+    [chainId, tokenLists, customTokens]
+  );
 
   // Load favorites from localStorage
   useEffect(() => {
-    const savedFavorites = localStorage.getItem('solana-dex-favorite-tokens');
+    const savedFavorites = localStorage.getItem(FAVORITES_KEY);
     if (savedFavorites) {
       try {
         setFavoriteTokens(JSON.parse(savedFavorites));
@@ -76,79 +93,9 @@ export function useTokenList(): UseTokenListReturn {
 
   // Save favorites to localStorage
   const saveFavorites = useCallback((favorites: string[]) => {
-    localStorage.setItem('solana-dex-favorite-tokens', JSON.stringify(favorites));
-  }, []);
-
-  // Fetch token list from Solana Token Registry with fallbacks
-  const fetchTokenList = useCallback(async () => {
-    setLoading(true);
-    setError(null);
-
-    // Try each URL until one succeeds
-    for (const url of TOKEN_LIST_URLS) {
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-
-        const response = await fetch(url, {
-          signal: controller.signal,
-          headers: {
-            'Accept': 'application/json',
-          },
-        });
-
-        clearTimeout(timeoutId);
-
-        if (!response.ok) {
-          continue; // Try next URL
-        }
-
-        const data: TokenListResponse = await response.json();
-        
-        // Transform tokens to our format
-        const transformedTokens: Token[] = (data.tokens || []).map(token => ({
-          mint: token.address || token.mint,
-          address: token.address || token.mint,
-          symbol: token.symbol,
-          name: token.name,
-          decimals: token.decimals,
-          logoURI: token.logoURI,
-          tags: token.tags,
-          extensions: token.extensions
-        }));
-
-        // Merge with popular tokens, avoiding duplicates
-        const allTokens = [...POPULAR_TOKENS];
-        transformedTokens.forEach(token => {
-          if (!allTokens.find(existing => existing.mint === token.mint)) {
-            allTokens.push(token);
-          }
-        });
-
-        setTokens(allTokens);
-        setLoading(false);
-        return; // Success, exit function
-      } catch (err) {
-        // Continue to next URL if this one fails
-        if (err instanceof Error && err.name !== 'AbortError') {
-          // Only log non-timeout errors
-          continue;
-        }
-      }
-    }
-
-    // All URLs failed - use fallback
-    console.warn('Token list API unavailable, using fallback tokens');
-    setTokens(POPULAR_TOKENS);
-    setError(null); // Don't show error to user, fallback works
-    setLoading(false);
+    localStorage.setItem(FAVORITES_KEY, JSON.stringify(favorites));
   }, []);
 
-  // Initial token list fetch
-  useEffect(() => {
-    fetchTokenList();
-  }, [fetchTokenList]);
-
   // Search tokens by query
   const searchTokens = useCallback((query: string): Token[] => {
     if (!query.trim()) return tokens;
@@ -157,101 +104,128 @@ export function useTokenList(): UseTokenListReturn {
     return tokens.filter(token =>
       token.symbol.toLowerCase().includes(lowercaseQuery) ||
       token.name.toLowerCase().includes(lowercaseQuery) ||
-      token.mint.toLowerCase().includes(lowercaseQuery)
+      token.address.toLowerCase().includes(lowercaseQuery)
     );
   }, [tokens]);
 
-  // Add custom token by mint address
-  const addCustomToken = useCallback(async (mintAddress: string): Promise<Token | null> => {
+  // Add custom token by contract address, reading its metadata on-chain
+  const addCustomToken = useCallback(async (address: string): Promise<Token | null> => {
     try {
-      // Validate mint address format
-      if (!mintAddress || mintAddress.length < 32) {
-        throw new Error('Invalid mint address format');
+      if (!isAddress(address, { strict: false })) {
+        throw new Error('Invalid token address');
       }
 
-      // Check if token already exists
-      const existingToken = tokens.find(token => token.mint === mintAddress);
+      const existingToken = tokens.find(token => token.address.toLowerCase() === address.toLowerCase());
       if (existingToken) {
         return existingToken;
       }
 
-      // Validate as PublicKey
-      const mintPubkey = new PublicKey(mintAddress);
-      
-      // Fetch token metadata from blockchain
-      const mintInfo = await connection.getParsedAccountInfo(mintPubkey);
-      
-      if (!mintInfo.value || !mintInfo.value.data || typeof (mintInfo.value.data as any) === 'string') {
-        throw new Error('Invalid token mint address');
+      if (!publicClient) {
+        throw new Error('No RPC client for the connected chain');
       }
 
-      const parsedData = mintInfo.value.data as any;
-      if (parsedData.program !== 'spl-token' || parsedData.parsed?.type !== 'mint') {
-        throw new Error('Address is not a valid SPL token mint');
-      }
+      const resolved = await evmTokenService.resolveToken(publicClient, chainId, address);
+      storeCustomToken(resolved);
 
-      const mintData = parsedData.parsed.info;
-      
-      // Create token object with basic info
-      const customToken: Token = {
-        mint: mintAddress,
-        address: mintAddress,
-        symbol: `TOKEN_${mintAddress.slice(0, 4)}`, // Fallback symbol
-        name: `Custom Token ${mintAddress.slice(0, 8)}...`, // Fallback name
-        decimals: mintData.decimals || 0,
-        tags: ['custom']
-      };
-
-      // Try to fetch metadata from common sources
-      try {
-        // Try Jupiter API for token info
-        const jupiterResponse = await fetch(`https://tokens.jup.ag/token/${mintAddress}`);
-        if (jupiterResponse.ok) {
-          const jupiterData = await jupiterResponse.json();
-          customToken.symbol = jupiterData.symbol || customToken.symbol;
-          customToken.name = jupiterData.name || customToken.name;
-          customToken.logoURI = jupiterData.logoURI;
-        }
-      } catch (e) {
-        // Ignore metadata fetch errors, use basic info
-        console.warn('Failed to fetch token metadata:', e);
+      return toToken({ ...resolved, source: 'custom', verified: false });
+    } catch (err) {
+      console.error('Failed to add custom token:', err);
+      throw err;
+    }
+  }, [tokens, publicClient, chainId, storeCustomToken]);
+
+  const removeCustomToken = useCallback((address: string) => {
+    dropCustomToken(chainId, address);
+  }, [chainId, dropCustomToken]);
+
+  // Import a token list from a URL or the contents of an uploaded file
+  const importTokenList = useCallback(async (
+    source: { url: string } | { json: string }
+  ): Promise<TokenListImportResult> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const parsed = 'url' in source
+        ? await evmTokenService.fetchTokenList(source.url, chainId)
+        : parseTokenList(source.json, chainId);
+      if (parsed.tokens.length === 0) {
+        throw new Error(`${parsed.name} has no tokens for this network`);
       }
 
-      // Add to token list
-      setTokens(prevTokens => [...prevTokens, customToken]);
-      
-      return customToken;
+      addTokenList(chainId, {
+        name: parsed.name,
+        url: 'url' in source ? source.url : undefined,
+        importedAt: Date.now(),
+        tokens: parsed.tokens,
+      });
+
+      return { name: parsed.name, imported: parsed.tokens.length, skipped: parsed.skipped };
     } catch (err) {
-      console.error('Failed to add custom token:', err);
+      const message = err instanceof Error ? err.message : 'Failed to import token list';
+      setError(message);
       throw err;
+    } finally {
+      setLoading(false);
     }
-  }, [tokens, connection]);
+  }, [chainId, addTokenList]);
+
+  const removeTokenList = useCallback((name: string) => {
+    dropTokenList(chainId, name);
+  }, [chainId, dropTokenList]);
+
+  const isTokenAcknowledged = useCallback((address: string) => {
+    return isAcknowledged(chainId, address);
+  }, [chainId, isAcknowledged]);
+
+  const acknowledgeToken = useCallback((address: string) => {
+    storeAcknowledgement(chainId, address);
+  }, [chainId, storeAcknowledgement]);
 
   // Toggle favorite token
-  const toggleFavorite = useCallback((mintAddress: string) => {
+  const toggleFavorite = useCallback((address: string) => {
     setFavoriteTokens(prevFavorites => {
-      const newFavorites = prevFavorites.includes(mintAddress)
-        ? prevFavorites.filter(mint => mint !== mintAddress)
-        : [...prevFavorites, mintAddress];
-      
+      const newFavorites = prevFavorites.includes(address)
+        ? prevFavorites.filter(favorite => favorite !== address)
+        : [...prevFavorites, address];
+
       saveFavorites(newFavorites);
       return newFavorites;
     });
   }, [saveFavorites]);
 
-  // Refresh token list
+  // Re-fetch imported lists that came from a URL
   const refreshTokenList = useCallback(async () => {
-    await fetchTokenList();
-  }, [fetchTokenList]);
+    setLoading(true);
+    setError(null);
+
+    for (const list of tokenLists) {
+      if (!list.url) continue;
+      try {
+        const parsed = await evmTokenService.fetchTokenList(list.url, chainId);
+        addTokenList(chainId, { ...list, tokens: parsed.tokens, importedAt: Date.now() });
+      } catch (err) {
+        console.warn(`⚠️  Failed to refresh token list ${list.name}:`, err);
+      }
+    }
+
+    setLoading(false);
+  }, [tokenLists, chainId, addTokenList]);
 
   return {
     tokens,
     loading,
     error,
     favoriteTokens,
+    tokenLists,
     searchTokens,
     addCustomToken,
+    removeCustomToken,
+    importTokenList,
+    removeTokenList,
+    isTokenAcknowledged,
+    acknowledgeToken,
     toggleFavorite,
     refreshTokenList
   };
-}
\ No newline at end of file
+}
@@ -1,9 +1,12 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { Connection, PublicKey, ConfirmedSignatureInfo, ParsedTransactionWithMeta } from '@solana/web3.js';
+import { usePublicClient } from 'wagmi';
+import { Address, isAddress } from 'viem';
 import { useTransactionStore } from '@/stores/transactionStore';
 import { useSolanaConnection } from './useSolanaConnection';
 import { useWallet } from './useWallet';
 import { Transaction, TransactionType, TransactionStatus, Token } from '@/types';
+import { evmTransactionHistoryService } from '@/services/evmTransactionHistoryService';
 
 interface UseTransactionHistoryOptions {
   enabled?: boolean;
@@ -13,17 +16,21 @@ interface UseTransactionHistoryOptions {
 }
 
 /**
- * Hook to fetch and sync historical transactions from Solana blockchain
+ * Hook to fetch and sync historical transactions from the blockchain.
+ * EVM wallets are indexed from DEX and token logs; Solana wallets from signatures.
  */
 export function useTransactionHistory(options: UseTransactionHistoryOptions = {}) {
   const { enabled = true, limit = 1000, fetchOnMount = true, batchSize = 20 } = options;
   const { connection } = useSolanaConnection();
-  const { address, isConnected } = useWallet();
+  const { address, isConnected, chainId } = useWallet();
+  const publicClient = usePublicClient();
   const { transactions, setTransactions, addTransaction } = useTransactionStore();
+  const isEvmAccount = !!address && isAddress(address);
   
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState<{ current: number; total: number } | null>(null);
+  const [hasOlder, setHasOlder] = useState(false);
   const abortControllerRef = useRef<AbortController | null>(null);
 
   /**
@@ -192,11 +199,36 @@ export function useTransactionHistory(options: UseTransactionHistoryOptions = {}
     };
   }, []);
 
+  /**
+   * Index EVM history into the store. Refreshes scan new blocks; passing
+   * `older` extends the scan further back instead.
+   */
+  const fetchEvmHistory = useCallback(async (older: boolean, signal: AbortSignal) => {
+    if (!publicClient || !address) return;
+
+    const options = { signal, onProgress: setProgress };
+    const result = older
+      ? await evmTransactionHistoryService.loadOlder(publicClient, chainId, address as Address, options)
+      : await evmTransactionHistoryService.syncLatest(publicClient, chainId, address as Address, options);
+    if (signal.aborted) return;
+
+    // Merge so swaps recorded locally but not yet indexed stay visible
+    const indexed = new Set(result.transactions.map(tx => tx.signature));
+    const merged = [
+      ...result.transactions,
+      ...useTransactionStore.getState().transactions.filter(tx => !indexed.has(tx.signature)),
+    ].sort((a, b) => b.timestamp - a.timestamp);
+
+    setTransactions(merged);
+    setHasOlder(result.hasOlder);
+    console.log(`📜 Indexed ${result.transactions.length} EVM transactions (blocks ${result.fromBlock}-${result.toBlock})`);
+  }, [publicClient, address, chainId, setTransactions]);
+
   /**
    * Fetch transaction history from blockchain with pagination support
    */
   const fetchTransactionHistory = useCallback(async (beforeSignature?: string) => {
-    if (!enabled || !isConnected || !address || !connection) {
+    if (!enabled || !isConnected || !address || (!connection && !isEvmAccount)) {
       return;
     }
 
@@ -209,8 +241,15 @@ export function useTransactionHistory(options: UseTransactionHistoryOptions = {}
     setLoading(true);
     setError(null);
     setProgress(null);
+    const signal = abortControllerRef.current.signal;
 
     try {
+      if (isEvmAccount) {
+        await fetchEvmHistory(beforeSignature !== undefined, signal);
+        return;
+      }
+      if (!connection) return;
+
       const publicKey = new PublicKey(address);
       
       // Fetch transaction signatures with pagination
@@ -230,6 +269,7 @@ export function useTransactionHistory(options: UseTransactionHistoryOptions = {}
       );
 
       console.log(`Fetched ${signatures.length} signatures`);
+      setHasOlder(signatures.length >= Math.min(limit, 1000));
 
       if (signatures.length === 0) {
         setLoading(false);
@@ -239,8 +279,9 @@ export function useTransactionHistory(options: UseTransactionHistoryOptions = {}
         return;
       }
 
-      // Get existing transaction signatures to avoid duplicates
-      const existingSignatures = new Set(transactions.map(tx => tx.signature));
+      // Get existing transaction signatures to avoid duplicates. Read from the
+      // store so this callback does not change every time it stores a result.
+      const existingSignatures = new Set(useTransactionStore.getState().transactions.map(tx => tx.signature));
       const newTransactions: Transaction[] = [];
 
       // Fetch detailed transaction data in batches with progress tracking
@@ -308,7 +349,7 @@ export function useTransactionHistory(options: UseTransactionHistoryOptions = {}
       console.log(`Parsed ${newTransactions.length} new transactions`);
 
       // Merge with existing transactions, avoiding duplicates
-      const allTransactions = [...transactions];
+      const allTransactions = [...useTransactionStore.getState().transactions];
 
       newTransactions.forEach(tx => {
         if (!existingSignatures.has(tx.signature)) {
@@ -325,6 +366,7 @@ export function useTransactionHistory(options: UseTransactionHistoryOptions = {}
       console.log(`Total transactions in store: ${allTransactions.length}`);
 
     } catch (err: any) {
+      if (signal.aborted) return;
       console.error('Failed to fetch transaction history:', err);
       
       // Handle specific RPC errors
@@ -354,18 +396,20 @@ export function useTransactionHistory(options: UseTransactionHistoryOptions = {}
       
       setError(errorMessage);
     } finally {
-      setLoading(false);
-      setProgress(null);
-      abortControllerRef.current = null;
+      if (abortControllerRef.current?.signal === signal) {
+        setLoading(false);
+        setProgress(null);
+        abortControllerRef.current = null;
+      }
     }
-  }, [enabled, isConnected, address, connection, limit, batchSize, transactions, parseTransaction, setTransactions]);
+  }, [enabled, isConnected, address, connection, isEvmAccount, fetchEvmHistory, limit, batchSize, parseTransaction, setTransactions]);
 
-  // Fetch on mount if enabled
+  // Fetch on mount if enabled, and again when the account or chain changes
   useEffect(() => {
     if (fetchOnMount && enabled && isConnected && address) {
       fetchTransactionHistory();
     }
-  }, [fetchOnMount, enabled, isConnected, address]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [fetchOnMount, enabled, isConnected, address, fetchTransactionHistory]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -381,6 +425,7 @@ export function useTransactionHistory(options: UseTransactionHistoryOptions = {}
     error,
     progress,
     fetchTransactionHistory,
+    hasOlder,
     transactionCount: transactions.length,
   };
 }
@@ -0,0 +1,152 @@
+/**
+ * useZap Hook
+ *
+ * Single-token liquidity through the SAMMZap contract. The liquidity router
+ * picks the shard a zap-in deposits into and the shard its swap goes through;
+ * the zap then runs the swap and the deposit (or withdrawal) in one transaction.
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import { useAccount, useChainId, usePublicClient, useWalletClient } from 'wagmi';
+import { evmLiquidityService } from '@/services/evmLiquidityService';
+import { LiquidityRouterClient, ZapInPlan, ZapOutPlan } from '@/services/liquidityRouterClient';
+import type { PoolInfo } from './useLiquidity';
+import toast from 'react-hot-toast';
+
+const routerPair = (pool: PoolInfo) => {
+  const token = ({ address, symbol, decimals }: PoolInfo['tokenA']) => ({ address, symbol, decimals, name: symbol });
+  return { tokenA: token(pool.tokenA), tokenB: token(pool.tokenB) };
+};
+
+export function useZap() {
+  const { address: userAddress } = useAccount();
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+
+  const [zapInPlan, setZapInPlan] = useState<ZapInPlan | null>(null);
+  const [zapOutPlan, setZapOutPlan] = useState<ZapOutPlan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [executing, setExecuting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const zap = useMemo(() => evmLiquidityService.getZap(chainId), [chainId]);
+
+  /**
+   * Plan depositing `amountIn` of one token into the best shard of `pool`'s pair
+   */
+  const fetchZapInPlan = useCallback(async (pool: PoolInfo, tokenIn: string, amountIn: bigint) => {
+    setZapInPlan(null);
+    if (amountIn <= BigInt(0)) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      setZapInPlan(await LiquidityRouterClient.getZapInPlan(chainId, routerPair(pool), tokenIn, amountIn));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to plan zap-in');
+    } finally {
+      setLoading(false);
+    }
+  }, [chainId]);
+
+  /**
+   * Plan withdrawing `liquidity` LP tokens of `pool` into `tokenOut`
+   */
+  const fetchZapOutPlan = useCallback(async (pool: PoolInfo, liquidity: bigint, tokenOut: string) => {
+    setZapOutPlan(null);
+    if (liquidity <= BigInt(0)) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      setZapOutPlan(await LiquidityRouterClient.getZapOutPlan(chainId, routerPair(pool), pool.address, liquidity, tokenOut));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to plan zap-out');
+    } finally {
+      setLoading(false);
+    }
+  }, [chainId]);
+
+  const execute = useCallback(async (
+    action: 'zap-in' | 'zap-out',
+    run: () => Promise<string>
+  ): Promise<string | null> => {
+    if (!zap) {
+      toast.error('Single-token liquidity is not available on this network');
+      return null;
+    }
+
+    setExecuting(true);
+    setError(null);
+    toast.loading(action === 'zap-in' ? 'Adding liquidity...' : 'Removing liquidity...', { id: action });
+
+    try {
+      const hash = await run();
+      toast.success(action === 'zap-in' ? 'Liquidity added successfully!' : 'Liquidity removed successfully!', { id: action });
+      return hash;
+    } catch (err: any) {
+      console.error(`${action} failed:`, err);
+      const errorMsg = err?.message || `Failed to ${action}`;
+      if (errorMsg.includes('rejected') || errorMsg.includes('denied')) {
+        toast.error('Transaction cancelled', { id: action });
+      } else if (errorMsg.includes('insufficient') || errorMsg.includes('exceeds')) {
+        toast.error('Price changed too much. Try increasing slippage.', { id: action });
+      } else {
+        toast.error(`Failed to ${action}. Please try again.`, { id: action });
+      }
+      setError(errorMsg);
+      return null;
+    } finally {
+      setExecuting(false);
+    }
+  }, [zap]);
+
+  const executeZapIn = useCallback(async (slippageTolerance: number): Promise<string | null> => {
+    if (!zapInPlan) return null;
+    if (!publicClient || !walletClient || !userAddress) {
+      toast.error('Please connect your wallet');
+      return null;
+    }
+
+    const hash = await execute('zap-in', () =>
+      evmLiquidityService.zapIn(walletClient, publicClient, zap!, zapInPlan, slippageTolerance, userAddress)
+    );
+    if (hash) setZapInPlan(null);
+    return hash;
+  }, [zapInPlan, publicClient, walletClient, userAddress, zap, execute]);
+
+  const executeZapOut = useCallback(async (slippageTolerance: number): Promise<string | null> => {
+    if (!zapOutPlan) return null;
+    if (!publicClient || !walletClient || !userAddress) {
+      toast.error('Please connect your wallet');
+      return null;
+    }
+
+    const hash = await execute('zap-out', () =>
+      evmLiquidityService.zapOut(walletClient, publicClient, zap!, zapOutPlan, slippageTolerance, userAddress)
+    );
+    if (hash) setZapOutPlan(null);
+    return hash;
+  }, [zapOutPlan, publicClient, walletClient, userAddress, zap, execute]);
+
+  const clearPlans = useCallback(() => {
+    setZapInPlan(null);
+    setZapOutPlan(null);
+    setError(null);
+  }, []);
+
+  return {
+    zapAvailable: zap !== null,
+    zapInPlan,
+    zapOutPlan,
+    loading,
+    executing,
+    error,
+    fetchZapInPlan,
+    fetchZapOutPlan,
+    executeZapIn,
+    executeZapOut,
+    clearPlans,
+  };
+}
@@ -22,7 +22,7 @@
 
 import { PublicClient, WalletClient, Address, parseUnits, formatUnits } from 'viem';
 import { evmPoolService } from '../services/evmPoolService';
-import { evmSwapService } from '../services/evmSwapService';
+import { evmSwapService, StrandedSwap, RecoveryOption } from '../services/evmSwapService';
 import { evmLiquidityService } from '../services/evmLiquidityService';
 import { evmApprovalService } from '../services/evmApprovalService';
 import { getTokensByChainId, getTokenBySymbol } from '../config/evm-tokens';
@@ -273,7 +273,13 @@ export class ShardedDexService {
     console.log('  - Is Multi-Hop:', isMultiHop);
     console.log('  - Slippage Tolerance:', slippageTolerance);
 
-    if (isMultiHop) {
+    const multiHopRouter = evmSwapService.getMultiHopRouter(this.chainId);
+
+    if (isMultiHop && multiHopRouter) {
+      // The router swap approves the router for the first hop itself
+      console.log('  - Multi-Hop Path:', quote.multiHopPath?.join(' → '));
+      console.log('  - Multi-Hop Router:', multiHopRouter);
+    } else if (isMultiHop) {
       console.log('  - Multi-Hop Path:', quote.multiHopPath?.join(' → '));
       console.log('  - Multi-Hop Steps:', quote.multiHopSteps?.length);
       
@@ -378,6 +384,7 @@ export class ShardedDexService {
             tradeFee: parseUnits(quote.totalFee.toString(), inputToken.decimals),
             ownerFee: 0n,
           },
+          slippageTolerance,
           isMultiHop: true,
           backendOptimized: true,
         };
@@ -436,6 +443,25 @@ export class ShardedDexService {
     }
   }
 
+  /**
+   * Quote swapping a stranded intermediate token back or onward
+   */
+  async getRecoveryOptions(stranded: StrandedSwap, slippageTolerance: number = 0.5): Promise<RecoveryOption[]> {
+    return evmSwapService.getRecoveryOptions(this.publicClient, stranded, slippageTolerance);
+  }
+
+  /**
+   * Swap a stranded intermediate token using a recovery option
+   */
+  async recoverStrandedSwap(option: RecoveryOption): Promise<string> {
+    const userAddress = this.walletClient?.account?.address;
+    if (!this.walletClient || !userAddress) {
+      throw new Error('Wallet not connected');
+    }
+
+    return evmSwapService.recoverStrandedSwap(this.walletClient, this.publicClient, option, userAddress);
+  }
+
   /**
    * Get pools for a token pair with real-time data
    */
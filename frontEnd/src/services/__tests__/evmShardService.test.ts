@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Address } from 'viem';
+import { EVMShardService } from '../evmShardService';
+import { getDexConfig, getRegisteredPools } from '../../config/dex-config-loader';
+
+
+const USDC = '0x9153bc242a5FD22b149B1cb252e3eE6314C37366' as Address;
+const USDT = '0x39f0B52190CeA4B3569D5D501f0c637892F52379' as Address;
+const OTHER = '0x00000000000000000000000000000000000000ff' as Address;
+const KNOWN = '0x986e6AA143Ecf491FbB9FFbcFB1A61424af1BC1e' as Address;
+const NEW_SHARD = '0x1111111111111111111111111111111111111111' as Address;
+const EMPTY_SHARD = '0x2222222222222222222222222222222222222222' as Address;
+const FOREIGN_SHARD = '0x3333333333333333333333333333333333333333' as Address;
+
+const shardInfo: Record<string, { tokenA: Address; tokenB: Address; shardIndex: bigint; isActive: boolean }> = {
+  [NEW_SHARD]: { tokenA: USDT, tokenB: USDC, shardIndex: BigInt(1), isActive: true },
+  [EMPTY_SHARD]: { tokenA: USDT, tokenB: USDC, shardIndex: BigInt(2), isActive: true },
+  [FOREIGN_SHARD]: { tokenA: USDT, tokenB: OTHER, shardIndex: BigInt(0), isActive: true },
+};
+
+function createClient() {
+  return {
+    readContract: vi.fn().mockImplementation(async ({ address, functionName, args }) => {
+      if (functionName === 'getAllShards') return [KNOWN, NEW_SHARD, EMPTY_SHARD, FOREIGN_SHARD];
+      if (functionName === 'getShardInfo') return shardInfo[args[0]];
+      // getPoolState
+      const reserve = address === EMPTY_SHARD ? BigInt(0) : BigInt(2_000_000);
+      return { tokenA: USDT, tokenB: USDC, reserveA: reserve, reserveB: reserve, totalSupply: reserve };
+    }),
+  };
+}
+
+describe('EVMShardService.discoverShards', () => {
+  // USDC/USDT shards 1-3 come from the Monad DEX config
+  it('registers seeded factory shards of listed tokens as the next shard of their pair', async () => {
+    const service = new EVMShardService();
+    const client = createClient();
+
+    const registered = await service.discoverShards(client as any, 10143);
+
+    expect(registered).toHaveLength(1);
+    expect(registered[0]).toMatchObject({
+      address: NEW_SHARD,
+      name: 'USDT/USDC-4',
+      tokenA: USDT,
+      tokenBSymbol: 'USDC',
+      shardNumber: 4,
+      initialLiquidity: '2',
+    });
+    expect(getDexConfig(10143)?.pools.slice(-1)[0].address).toBe(NEW_SHARD);
+    expect(getRegisteredPools(10143).map(pool => pool.address)).toEqual([NEW_SHARD]);
+
+    // Already registered shards are not read again
+    client.readContract.mockClear();
+    expect(await service.discoverShards(client as any, 10143)).toEqual([]);
+    expect(client.readContract.mock.calls.some(([call]) => call.args?.[0] === NEW_SHARD)).toBe(false);
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Address } from 'viem';
+
+const contracts = vi.hoisted(() => ({ router: undefined as string | undefined }));
+const approvals = vi.hoisted(() => ({
+  ensureApproval: vi.fn(),
+  checkApproval: vi.fn(),
+  requestApproval: vi.fn(),
+  getTokenBalance: vi.fn(),
+}));
+
+vi.mock('../../config/evm-contracts', () => ({
+  getContractAddresses: () => ({ factory: '0xfactory', router: contracts.router }),
+}));
+
+vi.mock('../evmApprovalService', () => ({ evmApprovalService: approvals }));
+
+vi.mock('../sammBackendService', () => ({
+  sammBackendService: {
+    getDeploymentInfo: vi.fn().mockResolvedValue({
+      tokens: {
+        USDC: { address: '0x67DcA5710a9dA091e00093dF04765d711759f435', decimals: 6 },
+        USDT: { address: '0x1888FF2446f2542cbb399eD179F4d6d966268C1F', decimals: 6 },
+        DAI: { address: '0x60CB213FCd1616FbBD44319Eb11A35d5671E692e', decimals: 18 },
+      },
+    }),
+  },
+}));
+
+import { evmSwapService, EVMSwapQuote, MultiHopPartialFillError } from '../evmSwapService';
+
+describe('EVMSwapService multi-hop execution', () => {
+  const USER = '0x0fb795cfc581666932abafe438bd3ce6702da69c' as Address;
+  const ROUTER = '0x5555555555555555555555555555555555555555';
+  const POOL_1 = '0x1111111111111111111111111111111111111111' as Address;
+  const POOL_2 = '0x2222222222222222222222222222222222222222' as Address;
+  const USDC = '0x67DcA5710a9dA091e00093dF04765d711759f435' as Address;
+  const USDT = '0x1888FF2446f2542cbb399eD179F4d6d966268C1F' as Address;
+  const DAI = '0x60CB213FCd1616FbBD44319Eb11A35d5671E692e' as Address;
+
+  const quote: EVMSwapQuote = {
+    inputToken: USDC,
+    outputToken: DAI,
+    inputAmount: 1_000_000n,
+    estimatedOutput: 980_000_000_000_000_000n,
+    minimumOutput: 970_000_000_000_000_000n,
+    maximalInput: 1_100_000n,
+    priceImpact: 0,
+    route: {
+      path: ['USDC', 'USDT', 'DAI'],
+      shards: [POOL_1, POOL_2],
+      steps: [
+        { poolAddress: POOL_1, shardNumber: 1, inputAmount: 1_000_000n, outputAmount: 990_000n, from: 'USDC', to: 'USDT' },
+        { poolAddress: POOL_2, shardNumber: 1, inputAmount: 990_000n, outputAmount: 980_000_000_000_000_000n, from: 'USDT', to: 'DAI' },
+      ],
+    },
+    poolAddress: POOL_1,
+    chainId: 10143,
+    calculation: { amountIn: 1_000_000n, amountOut: 980_000_000_000_000_000n, tradeFee: 0n, ownerFee: 0n },
+    slippageTolerance: 0.5,
+    isMultiHop: true,
+    backendOptimized: true,
+  };
+
+  let publicClient: any;
+  let walletClient: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    contracts.router = undefined;
+    approvals.ensureApproval.mockResolvedValue(null);
+    approvals.checkApproval.mockResolvedValue(true);
+    approvals.getTokenBalance.mockResolvedValue(5_000_000n);
+
+    publicClient = {
+      simulateContract: vi.fn().mockImplementation(async (params: any) => ({ request: params })),
+      waitForTransactionReceipt: vi.fn().mockResolvedValue({ status: 'success' }),
+    };
+    walletClient = {
+      writeContract: vi.fn().mockResolvedValueOnce('0xhash1').mockResolvedValueOnce('0xhash2'),
+    };
+  });
+
+  it('runs every hop in one router call with one upfront approval', async () => {
+    contracts.router = ROUTER;
+
+    const hash = await evmSwapService.executeSwap(walletClient, publicClient, quote, USER);
+
+    expect(hash).toBe('0xhash1');
+    expect(approvals.ensureApproval).toHaveBeenCalledTimes(1);
+    expect(approvals.ensureApproval).toHaveBeenCalledWith(
+      walletClient, publicClient, USDC, USER, ROUTER, 1_005_000n, 'exact'
+    );
+
+    expect(publicClient.simulateContract).toHaveBeenCalledTimes(1);
+    const call = publicClient.simulateContract.mock.calls[0][0];
+    expect(call.address).toBe(ROUTER);
+    expect(call.functionName).toBe('executeMultiHopSwap');
+
+    const [pools, amountsOut, maxAmountsIn, tokens, recipient, deadline] = call.args;
+    expect(pools).toEqual([POOL_1, POOL_2]);
+    expect(amountsOut).toEqual([990_000n, 980_000_000_000_000_000n]);
+    expect(maxAmountsIn).toEqual([1_005_000n, 994_950n]);
+    expect(tokens).toEqual([USDC, USDT, DAI]);
+    expect(recipient).toBe(USER);
+    expect(deadline).toBeGreaterThan(BigInt(Math.floor(Date.now() / 1000)));
+  });
+
+  it('caps the router pull at the wallet balance when swapping the full balance', async () => {
+    contracts.router = ROUTER;
+    approvals.getTokenBalance.mockResolvedValue(1_000_000n);
+
+    await evmSwapService.executeSwap(walletClient, publicClient, quote, USER);
+
+    expect(approvals.getTokenBalance).toHaveBeenCalledWith(publicClient, USDC, USER);
+    expect(approvals.ensureApproval).toHaveBeenCalledWith(
+      walletClient, publicClient, USDC, USER, ROUTER, 1_000_000n, 'exact'
+    );
+    const [, , maxAmountsIn] = publicClient.simulateContract.mock.calls[0][0].args;
+    expect(maxAmountsIn).toEqual([1_000_000n, 994_950n]);
+  });
+
+  it('caps the router pull at the quote maximal input', async () => {
+    contracts.router = ROUTER;
+
+    await evmSwapService.executeSwap(walletClient, publicClient, { ...quote, maximalInput: 1_002_000n }, USER);
+
+    const [, , maxAmountsIn] = publicClient.simulateContract.mock.calls[0][0].args;
+    expect(maxAmountsIn[0]).toBe(1_002_000n);
+  });
+
+  it('refuses a router swap the wallet cannot fund', async () => {
+    contracts.router = ROUTER;
+    approvals.getTokenBalance.mockResolvedValue(999_999n);
+
+    const error = await evmSwapService.executeSwap(walletClient, publicClient, quote, USER).catch(err => err);
+
+    expect(error.message).toContain('Insufficient USDC balance');
+    expect(approvals.ensureApproval).not.toHaveBeenCalled();
+    expect(publicClient.simulateContract).not.toHaveBeenCalled();
+  });
+
+  it('reports the stranded intermediate when a sequential hop fails partway', async () => {
+    walletClient.writeContract = vi.fn()
+      .mockResolvedValueOnce('0xhash1')
+      .mockRejectedValueOnce(new Error('SAMMPool: excessive input amount'));
+
+    const error = await evmSwapService.executeSwap(walletClient, publicClient, quote, USER).catch(err => err);
+
+    expect(error).toBeInstanceOf(MultiHopPartialFillError);
+    expect(error.stranded).toMatchObject({
+      failedStep: 1,
+      completedTxHashes: ['0xhash1'],
+      token: { symbol: 'USDT', address: USDT, decimals: 6 },
+      amount: 990_000n,
+      inputToken: { symbol: 'USDC', address: USDC },
+      outputToken: { symbol: 'DAI', address: DAI },
+    });
+    expect(error.stranded.reason).toContain('Price moved unfavorably');
+  });
+
+  it('throws a plain error when the first sequential hop fails', async () => {
+    walletClient.writeContract = vi.fn().mockRejectedValueOnce(new Error('user rejected'));
+
+    const error = await evmSwapService.executeSwap(walletClient, publicClient, quote, USER).catch(err => err);
+
+    expect(error).not.toBeInstanceOf(MultiHopPartialFillError);
+    expect(error.message).toContain('failed at step 1');
+  });
+
+  it('quotes recovery back and onward without spending more than was stranded', async () => {
+    const getQuote = vi.spyOn(evmSwapService, 'getQuote').mockImplementation(
+      async (_client, chainId, inputToken, outputToken, inputAmount) => ({
+        ...quote,
+        inputToken,
+        outputToken,
+        inputAmount,
+        maximalInput: inputAmount * 11n / 10n,
+        chainId,
+        isMultiHop: false,
+      })
+    );
+
+    const options = await evmSwapService.getRecoveryOptions(publicClient, {
+      chainId: 10143,
+      userAddress: USER,
+      failedStep: 1,
+      completedTxHashes: ['0xhash1' as Address],
+      token: { symbol: 'USDT', address: USDT, decimals: 6 },
+      amount: 990_000n,
+      inputToken: { symbol: 'USDC', address: USDC, decimals: 6 },
+      outputToken: { symbol: 'DAI', address: DAI, decimals: 18 },
+      reason: 'failed',
+    });
+
+    expect(options.map(option => [option.direction, option.token.symbol])).toEqual([['back', 'USDC'], ['onward', 'DAI']]);
+    for (const option of options) {
+      expect(option.quote.inputToken).toBe(USDT);
+      expect(option.quote.maximalInput).toBe(990_000n);
+    }
+    getQuote.mockRestore();
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest';
+import { stringToHex } from 'viem';
+import { EVMTokenService } from '../evmTokenService';
+
+const TOKEN = '0x00000000000000000000000000000000000000aa';
+
+function createClient(reads: Record<string, unknown>, code: string = '0x6080') {
+  return {
+    getCode: vi.fn().mockResolvedValue(code),
+    readContract: vi.fn().mockImplementation(async ({ functionName, abi }) => {
+      const bytes32 = abi.some((item: any) => item.name === functionName && item.outputs?.[0]?.type === 'bytes32');
+      const value = reads[bytes32 ? `${functionName}:bytes32` : functionName];
+      if (value === undefined) throw new Error(`execution reverted: ${functionName}`);
+      return value;
+    }),
+  };
+}
+
+describe('EVMTokenService.resolveToken', () => {
+  const service = new EVMTokenService();
+
+  it('reads ERC-20 metadata and checksums the address', async () => {
+    const client = createClient({ decimals: 8, symbol: 'WBTC', name: 'Wrapped BTC' });
+
+    await expect(service.resolveToken(client as any, 10143, TOKEN)).resolves.toEqual({
+      address: '0x00000000000000000000000000000000000000AA',
+      symbol: 'WBTC',
+      name: 'Wrapped BTC',
+      decimals: 8,
+      chainId: 10143,
+    });
+  });
+
+  it('falls back to bytes32 symbol and name', async () => {
+    const client = createClient({
+      decimals: 18,
+      'symbol:bytes32': stringToHex('MKR', { size: 32 }),
+      'name:bytes32': stringToHex('Maker', { size: 32 }),
+    });
+
+    const token = await service.resolveToken(client as any, 10143, TOKEN);
+    expect(token.symbol).toBe('MKR');
+    expect(token.name).toBe('Maker');
+  });
+
+  it('uses placeholders when the token has no symbol or name', async () => {
+    const token = await service.resolveToken(createClient({ decimals: 0 }) as any, 10143, TOKEN);
+
+    expect(token.symbol).toBe('TOKEN_0000');
+    expect(token.name).toMatch(/^Custom Token 0x/);
+  });
+
+  it('rejects addresses that are not ERC-20 contracts', async () => {
+    await expect(service.resolveToken(createClient({}) as any, 10143, 'abc')).rejects.toThrow('Invalid token address');
+    await expect(service.resolveToken(createClient({}, '0x') as any, 10143, TOKEN))
+      .rejects.toThrow('No contract deployed');
+    await expect(service.resolveToken(createClient({ symbol: 'X' }) as any, 10143, TOKEN))
+      .rejects.toThrow('not an ERC-20 token');
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Address, Hex, encodeAbiParameters, encodeEventTopics, numberToHex, parseAbi } from 'viem';
+
+const USER = '0x0fb795cfc581666932abafe438bd3ce6702da69c' as Address;
+const OTHER = '0x9999999999999999999999999999999999999999' as Address;
+const POOL = '0x1111111111111111111111111111111111111111' as Address;
+const USDC = '0x67DcA5710a9dA091e00093dF04765d711759f435' as Address;
+const USDT = '0x1888FF2446f2542cbb399eD179F4d6d966268C1F' as Address;
+
+vi.mock('../../config/dex-config-loader', () => ({
+  getDexConfig: () => ({
+    deploymentBlock: 100,
+    tokens: [
+      { symbol: 'USDC', name: 'USD Coin', address: USDC, decimals: 6 },
+      { symbol: 'USDT', name: 'Tether USD', address: USDT, decimals: 6 },
+    ],
+    pools: [{ address: POOL, tokenA: USDC, tokenB: USDT, tokenASymbol: 'USDC', tokenBSymbol: 'USDT', shardNumber: 2 }],
+  }),
+}));
+
+vi.mock('../../config/evm-contracts', () => ({
+  getContractAddresses: () => ({ factory: '0xfactory' }),
+}));
+
+import { EVMTransactionHistoryService } from '../evmTransactionHistoryService';
+import { MemoryHistoryCache } from '../evmHistoryCache';
+import { TransactionType } from '../../types';
+
+const abi = parseAbi([
+  'event SwapSAMM(address indexed user, address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut, uint256 fee)',
+  'event LiquidityAdded(address indexed provider, uint256 amountA, uint256 amountB, uint256 lpTokens)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+]);
+
+interface FakeLog {
+  address: Address;
+  topics: Hex[];
+  data: Hex;
+  blockNumber: Hex;
+  transactionHash: Hex;
+  logIndex: Hex;
+}
+
+const txHash = (n: number) => numberToHex(n, { size: 32 });
+
+function swapLog(block: number, tx: number): FakeLog {
+  return {
+    address: POOL,
+    topics: encodeEventTopics({ abi, eventName: 'SwapSAMM', args: { user: USER, tokenIn: USDC, tokenOut: USDT } }) as Hex[],
+    data: encodeAbiParameters([{ type: 'uint256' }, { type: 'uint256' }, { type: 'uint256' }], [1_000_000n, 990_000n, 3_000n]),
+    blockNumber: numberToHex(block),
+    transactionHash: txHash(tx),
+    logIndex: '0x1',
+  };
+}
+
+function transferLog(block: number, tx: number, from: Address, to: Address, token = USDC): FakeLog {
+  return {
+    address: token,
+    topics: encodeEventTopics({ abi, eventName: 'Transfer', args: { from, to } }) as Hex[],
+    data: encodeAbiParameters([{ type: 'uint256' }], [5_000_000n]),
+    blockNumber: numberToHex(block),
+    transactionHash: txHash(tx),
+    logIndex: '0x0',
+  };
+}
+
+function liquidityLog(block: number, tx: number): FakeLog {
+  return {
+    address: POOL,
+    topics: encodeEventTopics({ abi, eventName: 'LiquidityAdded', args: { provider: USER } }) as Hex[],
+    data: encodeAbiParameters([{ type: 'uint256' }, { type: 'uint256' }, { type: 'uint256' }], [7_000_000n, 6_000_000n, 1_000n]),
+    blockNumber: numberToHex(block),
+    transactionHash: txHash(tx),
+    logIndex: '0x2',
+  };
+}
+
+/**
+ * Minimal eth_getLogs: filters by block range, address and topic positions
+ */
+function createClient(logs: FakeLog[], head: bigint) {
+  const matches = (log: FakeLog, filter: any) => {
+    const block = BigInt(log.blockNumber);
+    if (block < BigInt(filter.fromBlock) || block > BigInt(filter.toBlock)) return false;
+    if (!filter.address.some((address: string) => address.toLowerCase() === log.address.toLowerCase())) return false;
+    return filter.topics.every((topic: Hex | Hex[] | null, i: number) =>
+      topic === null || (Array.isArray(topic) ? topic : [topic]).some(t => t.toLowerCase() === log.topics[i]?.toLowerCase())
+    );
+  };
+
+  return {
+    getBlockNumber: vi.fn().mockResolvedValue(head),
+    getBlock: vi.fn().mockImplementation(async ({ blockNumber }) => ({ timestamp: 1_700_000_000n + blockNumber })),
+    getTransactionReceipt: vi.fn().mockResolvedValue({ status: 'success', from: USER, gasUsed: 100_000n, effectiveGasPrice: 50n }),
+    request: vi.fn().mockImplementation(async ({ params: [filter] }) => logs.filter(log => matches(log, filter))),
+  };
+}
+
+describe('EVMTransactionHistoryService', () => {
+  let cache: MemoryHistoryCache;
+  let service: EVMTransactionHistoryService;
+
+  beforeEach(() => {
+    cache = new MemoryHistoryCache();
+    service = new EVMTransactionHistoryService(cache);
+  });
+
+  it('maps pool events to transactions ahead of the transfers they cause', async () => {
+    const client = createClient(
+      [
+        swapLog(150, 1),
+        transferLog(150, 1, USER, POOL),
+        liquidityLog(160, 2),
+        transferLog(170, 3, OTHER, USER, USDT),
+      ],
+      200n
+    );
+
+    const result = await service.syncLatest(client as any, 10143, USER, { lookbackBlocks: 1000n });
+
+    expect(result.fromBlock).toBe(100n);
+    expect(result.hasOlder).toBe(false);
+    expect(result.transactions.map(tx => tx.type)).toEqual([
+      TransactionType.SPL_TRANSFER,
+      TransactionType.ADD_LIQUIDITY,
+      TransactionType.SWAP,
+    ]);
+
+    const [transfer, liquidity, swap] = result.transactions;
+    expect(swap).toMatchObject({
+      signature: txHash(1),
+      amountIn: 1_000_000n,
+      amountOut: 990_000n,
+      poolId: POOL,
+      shardNumber: 2,
+      slot: 150,
+      chainId: 10143,
+      timestamp: (1_700_000_000 + 150) * 1000,
+      solFee: 5_000_000n,
+    });
+    expect(swap.tokenIn?.symbol).toBe('USDC');
+    expect(swap.tokenOut?.symbol).toBe('USDT');
+    expect(liquidity).toMatchObject({ amountIn: 7_000_000n, amountOut: 6_000_000n, lpTokens: 1_000n, shardNumber: 2 });
+    expect(transfer.tokenOut?.symbol).toBe('USDT');
+    expect(transfer.amountOut).toBe(5_000_000n);
+    expect(transfer.tokenIn).toBeUndefined();
+  });
+
+  it('scans only new blocks on refresh and older blocks on demand', async () => {
+    const logs = [swapLog(500, 1)];
+    const client = createClient(logs, 1000n);
+
+    const first = await service.syncLatest(client as any, 10143, USER, { lookbackBlocks: 300n, chunkSize: 100n });
+    expect([first.fromBlock, first.toBlock]).toEqual([701n, 1000n]);
+    expect(first.transactions).toHaveLength(0);
+    expect(first.hasOlder).toBe(true);
+
+    logs.push(swapLog(1100, 2));
+    client.getBlockNumber.mockResolvedValue(1200n);
+    client.request.mockClear();
+
+    const refreshed = await service.syncLatest(client as any, 10143, USER, { lookbackBlocks: 300n, chunkSize: 100n });
+    const scannedFrom = client.request.mock.calls.map(([{ params: [filter] }]) => BigInt(filter.fromBlock));
+    expect(scannedFrom.every(block => block >= 1001n)).toBe(true);
+    expect(refreshed.transactions.map(tx => tx.slot)).toEqual([1100]);
+
+    const older = await service.loadOlder(client as any, 10143, USER, { lookbackBlocks: 300n, chunkSize: 100n });
+    expect([older.fromBlock, older.toBlock]).toEqual([401n, 1200n]);
+    expect(older.transactions.map(tx => tx.slot)).toEqual([1100, 500]);
+
+    expect((await cache.load(10143, USER))?.fromBlock).toBe(401n);
+  });
+
+  it('halves the chunk size when the RPC rejects the block range', async () => {
+    const client = createClient([swapLog(150, 1)], 200n);
+    const getLogs = client.request.getMockImplementation()!;
+    client.request.mockImplementation(async (args: any) => {
+      const [filter] = args.params;
+      if (BigInt(filter.toBlock) - BigInt(filter.fromBlock) >= 50n) {
+        throw new Error('eth_getLogs block range too large');
+      }
+      return getLogs(args);
+    });
+
+    const result = await service.syncLatest(client as any, 10143, USER, { lookbackBlocks: 1000n, chunkSize: 200n });
+
+    expect(result.transactions).toHaveLength(1);
+    expect([result.fromBlock, result.toBlock]).toEqual([100n, 200n]);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { LiquidityRouterClient } from '../liquidityRouterClient';
+
+const POOL_A = '0x686ff8090b18C0DF4f828f02deAf122CeC40B1DE';
+const POOL_B = '0x0481CD694F9C4EfC925C694f49835547404c0460';
+
+const tokenPair = {
+  tokenA: { address: '0x67DcA5710a9dA091e00093dF04765d711759f435', symbol: 'USDC', decimals: 6, name: 'USDC' },
+  tokenB: { address: '0x1888FF2446f2542cbb399eD179F4d6d966268C1F', symbol: 'USDT', decimals: 6, name: 'USDT' },
+};
+
+const serializedPlan = {
+  chainId: 10143,
+  quoteCurrency: 'USD',
+  allocations: [
+    { poolAddress: POOL_A, poolValue: 1_000_000, dailyFeeYield: 0.0001, lpTokens: '5000000000000000000', currentValue: 500, targetValue: 0 },
+    { poolAddress: POOL_B, poolValue: 10_000, dailyFeeYield: 0.01, lpTokens: '0', currentValue: 0, targetValue: 500 },
+  ],
+  moves: [{
+    fromPool: POOL_A,
+    toPool: POOL_B,
+    lpTokensToWithdraw: '5000000000000000000',
+    withdrawAmount: { tokenA: '250000000', tokenB: '250000000' },
+    depositAmount: { tokenA: '249000000', tokenB: '250000000' },
+    expectedLpTokens: '123456789012345678901',
+    value: 499,
+  }],
+  currentDailyFees: 0.05,
+  projectedDailyFees: 4.8,
+  dailyFeeUplift: 4.75,
+  migrationCost: { gasUnits: '372000', gasCostNative: '18600000000000000', gasCostValue: 0.02, remainderValue: 1 },
+  breakEvenDays: 0.004,
+  recommended: true,
+  reasoning: 'Moving 100.0% of your position',
+};
+
+describe('LiquidityRouterClient.getRebalancePlan', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends LP balances as strings and restores bigint fields', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ chainId: 10143, plan: serializedPlan }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const plan = await LiquidityRouterClient.getRebalancePlan(10143, tokenPair, [
+      { poolAddress: POOL_A, lpTokens: BigInt('5000000000000000000') },
+    ]);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toMatch(/\/api\/liquidity-router\/10143\/rebalance-plan$/);
+    expect(JSON.parse(init.body).positions).toEqual([{ poolAddress: POOL_A, lpTokens: '5000000000000000000' }]);
+
+    expect(plan.allocations[0].lpTokens).toBe(BigInt('5000000000000000000'));
+    expect(plan.moves[0].depositAmount).toEqual({ tokenA: BigInt(249000000), tokenB: BigInt(250000000) });
+    expect(plan.moves[0].expectedLpTokens).toBe(BigInt('123456789012345678901'));
+    expect(plan.migrationCost.gasUnits).toBe(BigInt(372000));
+    expect(plan.migrationCost.gasCostValue).toBe(0.02);
+  });
+
+  it('surfaces the API error message', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: false,
+      statusText: 'Internal Server Error',
+      json: async () => ({ error: 'Failed to plan rebalance', message: 'No pools found for token pair on chain 10143' }),
+    }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(LiquidityRouterClient.getRebalancePlan(10143, tokenPair, []))
+      .rejects.toThrow('No pools found for token pair');
+  });
+});
+
+describe('LiquidityRouterClient zap plans', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the zap-in amount as a string and restores bigint fields', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        chainId: 10143,
+        plan: {
+          chainId: 10143,
+          pool: POOL_B,
+          swapPool: POOL_A,
+          tokenIn: tokenPair.tokenA.address,
+          tokenBought: tokenPair.tokenB.address,
+          amountIn: '100000000',
+          swapAmountIn: '49900000',
+          swapAmountOut: '49800000',
+          depositAmount: { tokenA: '50100000', tokenB: '49800000' },
+          expectedLiquidity: '49950000000000000000',
+          refundAmount: { tokenA: '0', tokenB: '1' },
+          reasoning: 'Swaps 49.9% of the input',
+        },
+      }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const plan = await LiquidityRouterClient.getZapInPlan(10143, tokenPair, tokenPair.tokenA.address, BigInt(100000000));
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toMatch(/\/api\/liquidity-router\/10143\/zap-in-plan$/);
+    expect(JSON.parse(init.body).amountIn).toBe('100000000');
+
+    expect(plan.swapAmountIn).toBe(BigInt(49900000));
+    expect(plan.depositAmount).toEqual({ tokenA: BigInt(50100000), tokenB: BigInt(49800000) });
+    expect(plan.expectedLiquidity).toBe(BigInt('49950000000000000000'));
+    expect(plan.refundAmount.tokenB).toBe(BigInt(1));
+  });
+
+  it('sends the zap-out liquidity as a string and restores bigint fields', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        chainId: 10143,
+        plan: {
+          chainId: 10143,
+          pool: POOL_A,
+          swapPool: POOL_B,
+          tokenOut: tokenPair.tokenA.address,
+          tokenSold: tokenPair.tokenB.address,
+          liquidity: '5000000000000000000',
+          withdrawAmount: { tokenA: '250000000', tokenB: '250000000' },
+          swapAmountIn: '250000000',
+          swapAmountOut: '249000000',
+          expectedAmountOut: '499000000',
+          unsoldAmount: '0',
+          reasoning: 'Sells the withdrawn USDT',
+        },
+      }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const plan = await LiquidityRouterClient.getZapOutPlan(
+      10143, tokenPair, POOL_A, BigInt('5000000000000000000'), tokenPair.tokenA.address
+    );
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toMatch(/\/api\/liquidity-router\/10143\/zap-out-plan$/);
+    expect(JSON.parse(init.body)).toMatchObject({ poolAddress: POOL_A, liquidity: '5000000000000000000' });
+
+    expect(plan.withdrawAmount).toEqual({ tokenA: BigInt(250000000), tokenB: BigInt(250000000) });
+    expect(plan.expectedAmountOut).toBe(BigInt(499000000));
+    expect(plan.unsoldAmount).toBe(BigInt(0));
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { OrderClient, getCancelMessage } from '../orderClient';
+
+const MAKER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const USDC = '0x67DcA5710a9dA091e00093dF04765d711759f435';
+const USDT = '0x1888FF2446f2542cbb399eD179F4d6d966268C1F';
+const ORDER_HASH = '0x9c4e5f3b0d1a2e6f8a7b9c0d1e2f3a4b5c6d7e8f9a0b1c2d3e4f5a6b7c8d9e0f';
+
+const order = {
+  maker: MAKER,
+  tokenIn: USDC,
+  tokenOut: USDT,
+  amountOut: BigInt('10000000000000000000'),
+  maxAmountIn: BigInt('10100000000000000000'),
+  slices: 4,
+  interval: 900,
+  startTime: 1760000000,
+  expiry: 1760090000,
+  nonce: BigInt('1760000000123'),
+};
+
+const serializedRecord = {
+  orderHash: ORDER_HASH,
+  chainId: 10143,
+  type: 'twap',
+  order: {
+    ...order,
+    amountOut: '10000000000000000000',
+    maxAmountIn: '10100000000000000000',
+    nonce: '1760000000123',
+  },
+  status: 'partially_filled',
+  filledSlices: 1,
+  filledAmountIn: '2506265664160401002',
+  filledAmountOut: '2500000000000000000',
+  fills: [{
+    slice: 0,
+    poolAddress: '0x686ff8090b18C0DF4f828f02deAf122CeC40B1DE',
+    amountIn: '2506265664160401002',
+    amountOut: '2500000000000000000',
+    transactionHash: '0xabc',
+    timestamp: 1760000012000,
+  }],
+  createdAt: 1760000001000,
+  updatedAt: 1760000012000,
+};
+
+describe('OrderClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('submits order amounts as strings and restores bigint fields', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: true, data: serializedRecord }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const record = await OrderClient.submitOrder(order, '0xsig');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toMatch(/\/api\/v1\/orders$/);
+    expect(init.method).toBe('POST');
+    const body = JSON.parse(init.body);
+    expect(body.order.amountOut).toBe('10000000000000000000');
+    expect(body.order.nonce).toBe('1760000000123');
+    expect(body.order.slices).toBe(4);
+    expect(body.signature).toBe('0xsig');
+
+    expect(record.order.maxAmountIn).toBe(BigInt('10100000000000000000'));
+    expect(record.filledAmountIn).toBe(BigInt('2506265664160401002'));
+    expect(record.fills[0].amountOut).toBe(BigInt('2500000000000000000'));
+    expect(record.status).toBe('partially_filled');
+  });
+
+  it('lists orders by maker and status and cancels with a signed message', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, data: { orders: [serializedRecord], total: 1 } }),
+      })
+      .mockResolvedValueOnce({
+        ok: false,
+        statusText: 'Conflict',
+        json: async () => ({ success: false, error: 'ORDER_NOT_OPEN', message: `ORDER_NOT_OPEN: Order ${ORDER_HASH} is filled` }),
+      });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const orders = await OrderClient.getOrders(MAKER, ['open', 'partially_filled']);
+    expect(fetchMock.mock.calls[0][0]).toContain(`maker=${MAKER}`);
+    expect(fetchMock.mock.calls[0][0]).toContain('status=open%2Cpartially_filled');
+    expect(orders[0].order.amountOut).toBe(BigInt('10000000000000000000'));
+
+    await expect(OrderClient.cancelOrder(ORDER_HASH, '0xcancel')).rejects.toThrow('ORDER_NOT_OPEN');
+    const [url, init] = fetchMock.mock.calls[1];
+    expect(url).toMatch(new RegExp(`/api/v1/orders/${ORDER_HASH}/cancel$`));
+    expect(JSON.parse(init.body)).toEqual({ signature: '0xcancel' });
+    expect(getCancelMessage(ORDER_HASH.toUpperCase())).toBe(`Cancel SAMM order ${ORDER_HASH}`);
+  });
+});
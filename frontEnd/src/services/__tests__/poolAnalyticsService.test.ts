@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Address, Hex, encodeAbiParameters, encodeEventTopics, numberToHex, parseAbi } from 'viem';
+
+const POOL = '0x1111111111111111111111111111111111111111' as Address;
+const USDC = '0x67DcA5710a9dA091e00093dF04765d711759f435' as Address;
+const USDT = '0x1888FF2446f2542cbb399eD179F4d6d966268C1F' as Address;
+const TRADER = '0x0fb795cfc581666932abafe438bd3ce6702da69c' as Address;
+
+vi.mock('../../config/dex-config-loader', () => ({
+  getDexConfig: () => ({ deploymentBlock: 100, tokens: [], pools: [] }),
+}));
+
+import { PoolAnalyticsService, PoolEventSnapshot } from '../poolAnalyticsService';
+import { MemoryHistoryCache } from '../evmHistoryCache';
+
+const abi = parseAbi([
+  'event SwapSAMM(address indexed user, address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut, uint256 fee)',
+  'event LiquidityAdded(address indexed provider, uint256 amountA, uint256 amountB, uint256 lpTokens)',
+]);
+
+const uints = (...values: bigint[]) => encodeAbiParameters(values.map(() => ({ type: 'uint256' })), values);
+
+function swapLog(block: number, amountIn: bigint, amountOut: bigint) {
+  return {
+    address: POOL,
+    topics: encodeEventTopics({ abi, eventName: 'SwapSAMM', args: { user: TRADER, tokenIn: USDC, tokenOut: USDT } }) as Hex[],
+    data: uints(amountIn, amountOut, amountIn / BigInt(100)),
+    blockNumber: numberToHex(block),
+    transactionHash: numberToHex(block, { size: 32 }),
+    logIndex: '0x0',
+  };
+}
+
+function addLog(block: number, amountA: bigint, amountB: bigint, lpTokens: bigint) {
+  return {
+    address: POOL,
+    topics: encodeEventTopics({ abi, eventName: 'LiquidityAdded', args: { provider: TRADER } }) as Hex[],
+    data: uints(amountA, amountB, lpTokens),
+    blockNumber: numberToHex(block),
+    transactionHash: numberToHex(block, { size: 32 }),
+    logIndex: '0x1',
+  };
+}
+
+function createClient(logs: ReturnType<typeof swapLog>[], head: bigint) {
+  return {
+    getBlockNumber: vi.fn().mockResolvedValue(head),
+    // One second per block
+    getBlock: vi.fn().mockImplementation(async ({ blockNumber }) => ({ timestamp: blockNumber })),
+    readContract: vi.fn().mockResolvedValue({
+      tokenA: USDC,
+      tokenB: USDT,
+      reserveA: 1_100_000n,
+      reserveB: 1_000_000n,
+      totalSupply: 1_000_000n,
+    }),
+    request: vi.fn().mockImplementation(async ({ params: [filter] }) =>
+      logs.filter(log =>
+        BigInt(log.blockNumber) >= BigInt(filter.fromBlock) && BigInt(log.blockNumber) <= BigInt(filter.toBlock)
+      )
+    ),
+  };
+}
+
+describe('PoolAnalyticsService', () => {
+  let cache: MemoryHistoryCache<PoolEventSnapshot>;
+  let service: PoolAnalyticsService;
+
+  beforeEach(() => {
+    cache = new MemoryHistoryCache<PoolEventSnapshot>();
+    service = new PoolAnalyticsService(cache);
+  });
+
+  it('rebuilds reserves from the state at the indexed head', async () => {
+    const client = createClient([addLog(150, 500_000n, 500_000n, 500_000n), swapLog(180, 100_000n, 90_000n)], 200n);
+
+    const history = await service.getPoolHistory(client as any, 10143, POOL, { lookbackBlocks: 1000n });
+
+    expect(client.readContract).toHaveBeenCalledWith(expect.objectContaining({ address: POOL, blockNumber: 200n }));
+    expect(history.events.map(event => event.kind)).toEqual(['add', 'swap']);
+    expect(history.events[1]).toMatchObject({ amountIn: 100_000n, fee: 1_000n, timestamp: 180_000 });
+    expect(history.points.map(point => [point.reserveA, point.reserveB, point.totalSupply])).toEqual([
+      [500_000n, 590_000n, 500_000n],
+      [1_000_000n, 1_090_000n, 1_000_000n],
+      [1_100_000n, 1_000_000n, 1_000_000n],
+    ]);
+    expect(history.hasOlder).toBe(false);
+  });
+
+  it('walks back one lookback window at a time until `since` is covered', async () => {
+    const client = createClient([swapLog(450, 100_000n, 90_000n)], 1000n);
+
+    const recent = await service.getPoolHistory(client as any, 10143, POOL, { lookbackBlocks: 200n });
+    expect([recent.fromBlock, recent.events.length]).toEqual([801n, 0]);
+
+    client.request.mockClear();
+    const extended = await service.getPoolHistory(client as any, 10143, POOL, { lookbackBlocks: 200n, since: 500_000 });
+
+    expect(extended.fromBlock).toBe(401n);
+    expect(extended.events).toHaveLength(1);
+    expect(client.request.mock.calls.every(([{ params: [filter] }]) => BigInt(filter.toBlock) <= 800n)).toBe(true);
+    expect((await cache.load(10143, POOL))?.fromTimestamp).toBe(401_000);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PoolUpdatesClient, ShardUpdate } from '../poolUpdatesClient';
+
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+
+  readyState = 0;
+  sent: any[] = [];
+  onopen: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = 3;
+  }
+
+  open() {
+    this.readyState = 1;
+    this.onopen?.();
+  }
+
+  drop() {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  receive(message: object) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+describe('PoolUpdatesClient', () => {
+  const USDC = '0x9153bc242a5FD22b149B1cb252e3eE6314C37366';
+  const WETH = '0x1111111111111111111111111111111111111111';
+
+  const shard: ShardUpdate = {
+    id: 'shard-1',
+    poolAddress: '0xpool',
+    tokenA: { address: WETH, symbol: 'WETH', decimals: 18 },
+    tokenB: { address: USDC, symbol: 'USDC', decimals: 6 },
+    reserveA: '1000000000000000000',
+    reserveB: '2000000000',
+  };
+
+  const createClient = () => new PoolUpdatesClient('ws://localhost:3000/ws', {
+    WebSocketImpl: FakeWebSocket as unknown as typeof WebSocket,
+    reconnectBaseDelayMs: 1000,
+    maxReconnectDelayMs: 4000,
+  });
+
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should connect on the first subscription and subscribe once open', () => {
+    const client = createClient();
+    client.subscribeShards(10143, WETH, USDC, vi.fn());
+
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    const socket = FakeWebSocket.instances[0];
+    expect(socket.sent).toHaveLength(0);
+
+    socket.open();
+
+    expect(client.isConnected()).toBe(true);
+    expect(socket.sent).toEqual([
+      { type: 'subscribe', id: 'sub-1', channel: 'shards', chainId: 10143, tokenA: WETH, tokenB: USDC },
+    ]);
+  });
+
+  it('should route shard updates and quotes to their subscriptions', () => {
+    const client = createClient();
+    const onShard = vi.fn();
+    const onQuote = vi.fn();
+    const onError = vi.fn();
+    client.subscribeShards(10143, WETH, USDC, onShard);
+    client.subscribeQuote(10143, {
+      tokenA: shard.tokenB,
+      tokenB: shard.tokenA,
+      outputAmount: '1000000000000000000',
+    }, onQuote, onError);
+    const socket = FakeWebSocket.instances[0];
+    socket.open();
+
+    socket.receive({ type: 'shard-updated', id: 'sub-1', chainId: 10143, shard, timestamp: 1 });
+    socket.receive({ type: 'quote', id: 'sub-2', chainId: 10143, result: { routing: null }, timestamp: 2 });
+    socket.receive({ type: 'error', id: 'sub-2', error: 'Quote failed' });
+
+    expect(onShard).toHaveBeenCalledWith(shard);
+    expect(onQuote).toHaveBeenCalledWith({ routing: null, timestamp: 2 });
+    expect(onError).toHaveBeenCalledWith('Quote failed');
+  });
+
+  it('should reconnect with backoff and resubscribe everything', () => {
+    const client = createClient();
+    client.subscribeShards(10143, WETH, USDC, vi.fn());
+    client.subscribeShards(10143, WETH, '0xdai', vi.fn());
+    FakeWebSocket.instances[0].open();
+
+    FakeWebSocket.instances[0].drop();
+    expect(client.isConnected()).toBe(false);
+
+    // First retry fails, second one waits twice as long
+    vi.advanceTimersByTime(1000);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    FakeWebSocket.instances[1].drop();
+    vi.advanceTimersByTime(1999);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    vi.advanceTimersByTime(1);
+    expect(FakeWebSocket.instances).toHaveLength(3);
+
+    const socket = FakeWebSocket.instances[2];
+    socket.open();
+
+    expect(socket.sent.map(message => message.id)).toEqual(['sub-1', 'sub-2']);
+    expect(client.isConnected()).toBe(true);
+  });
+
+  it('should close the connection when the last subscription ends', () => {
+    const client = createClient();
+    const onConnectionChange = vi.fn();
+    client.onConnectionChange(onConnectionChange);
+    const unsubscribeA = client.subscribeShards(10143, WETH, USDC, vi.fn());
+    const unsubscribeB = client.subscribeShards(10143, WETH, '0xdai', vi.fn());
+    const socket = FakeWebSocket.instances[0];
+    socket.open();
+
+    unsubscribeA();
+    expect(socket.sent[socket.sent.length - 1]).toEqual({ type: 'unsubscribe', id: 'sub-1' });
+    expect(client.isConnected()).toBe(true);
+
+    unsubscribeB();
+    expect(client.isConnected()).toBe(false);
+    expect(onConnectionChange).toHaveBeenLastCalledWith(false);
+
+    // No reconnect after an intentional close
+    vi.advanceTimersByTime(60000);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+  });
+});
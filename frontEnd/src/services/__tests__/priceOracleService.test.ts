@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  StaticPriceOracle,
+  PoolTwapPriceOracle,
+  CompositePriceOracle,
+  amountToQuote,
+  PriceOracle,
+} from '../priceOracleService';
+import type { Pool } from '@/stores/poolStore';
+
+describe('priceOracleService', () => {
+  const USDC = '0x9153bc242a5FD22b149B1cb252e3eE6314C37366';
+  const WETH = '0x1111111111111111111111111111111111111111';
+
+  const table = new StaticPriceOracle({
+    quoteCurrency: 'USD',
+    prices: { '10143': { [USDC]: 1 } },
+    symbols: { DAI: 1 },
+  });
+
+  const createPool = (liquidityWeth: string, liquidityUsdc: string, wethFirst = true): Pool => ({
+    address: `0xpool${liquidityWeth}`,
+    tokenA: wethFirst ? WETH : USDC,
+    tokenB: wethFirst ? USDC : WETH,
+    tokenASymbol: wethFirst ? 'WETH' : 'USDC',
+    tokenBSymbol: wethFirst ? 'USDC' : 'WETH',
+    liquidityA: wethFirst ? liquidityWeth : liquidityUsdc,
+    liquidityB: wethFirst ? liquidityUsdc : liquidityWeth,
+    shardNumber: 1,
+    chainId: 10143,
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('StaticPriceOracle', () => {
+    it('should price by chain and address, case-insensitively', async () => {
+      const price = await table.getPrice({ address: USDC.toLowerCase(), decimals: 6, chainId: 10143 });
+
+      expect(price?.price).toBe(1);
+      expect(price?.quoteCurrency).toBe('USD');
+      expect(price?.source).toBe('static');
+    });
+
+    it('should fall back to symbol prices', async () => {
+      const price = await table.getPrice({ address: '0xdai', decimals: 18, symbol: 'dai', chainId: 10143 });
+
+      expect(price?.price).toBe(1);
+    });
+
+    it('should return null for unlisted tokens', async () => {
+      expect(await table.getPrice({ address: WETH, decimals: 18, symbol: 'WETH', chainId: 10143 })).toBeNull();
+    });
+  });
+
+  describe('PoolTwapPriceOracle', () => {
+    it('should price a token from the depth-weighted ratio of its shards', async () => {
+      const oracle = new PoolTwapPriceOracle(table, () => [
+        createPool('10', '20000'),
+        createPool('30', '63000', false),
+      ]);
+
+      const price = await oracle.getPrice({ address: WETH, decimals: 18, chainId: 10143 });
+
+      // (20000 + 63000) / (10 + 30)
+      expect(price?.price).toBeCloseTo(2075);
+      expect(price?.source).toBe('pool-twap');
+    });
+
+    it('should only use the deepest shards', async () => {
+      const oracle = new PoolTwapPriceOracle(table, () => [
+        createPool('10', '20000'),
+        createPool('10', '20000'),
+        createPool('10', '20000'),
+        createPool('1', '100'),
+      ]);
+
+      const price = await oracle.getPrice({ address: WETH, decimals: 18, chainId: 10143 });
+
+      expect(price?.price).toBeCloseTo(2000);
+    });
+
+    it('should average ratios over time', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(0);
+      let pools = [createPool('10', '20000')];
+      const oracle = new PoolTwapPriceOracle(table, () => pools, 30 * 60 * 1000, 0);
+
+      await oracle.getPrice({ address: WETH, decimals: 18, chainId: 10143 });
+      vi.setSystemTime(20 * 60 * 1000);
+      pools = [createPool('10', '40000')];
+      await oracle.getPrice({ address: WETH, decimals: 18, chainId: 10143 });
+      vi.setSystemTime(30 * 60 * 1000);
+      const price = await oracle.getPrice({ address: WETH, decimals: 18, chainId: 10143 });
+
+      // 20 minutes at 2000, 10 minutes at 4000
+      expect(price?.price).toBeCloseTo((2000 * 20 + 4000 * 10) / 30);
+    });
+
+    it('should leave reference tokens to the reference oracle', async () => {
+      const oracle = new PoolTwapPriceOracle(table, () => [createPool('10', '20000')]);
+
+      expect(await oracle.getPrice({ address: USDC, decimals: 6, chainId: 10143 })).toBeNull();
+    });
+  });
+
+  describe('CompositePriceOracle', () => {
+    it('should return the first available price and skip failing oracles', async () => {
+      const failing: PriceOracle = {
+        quoteCurrency: 'USD',
+        getPrice: vi.fn().mockRejectedValue(new Error('rpc down')),
+      };
+      const oracle = new CompositePriceOracle([failing, table]);
+
+      const price = await oracle.getPrice({ address: USDC, decimals: 6, chainId: 10143 });
+
+      expect(price?.price).toBe(1);
+      expect(failing.getPrice).toHaveBeenCalled();
+    });
+
+    it('should reject oracles with different quote currencies', () => {
+      const euro: PriceOracle = { quoteCurrency: 'EUR', getPrice: async () => null };
+
+      expect(() => new CompositePriceOracle([table, euro])).toThrow('quote currency');
+    });
+  });
+
+  describe('amountToQuote', () => {
+    it('should convert raw amounts using token decimals', () => {
+      expect(amountToQuote(BigInt('2500000'), 6, 1)).toBe(2.5);
+      expect(amountToQuote(BigInt('500000000000000000'), 18, 2000)).toBe(1000);
+    });
+  });
+});
@@ -1,5 +1,11 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { SammRouterService, RouteRequest, RouteResponse } from '../sammRouterService';
+import {
+  SammRouterService,
+  RouteRequest,
+  RouteResponse,
+  SwapSimulationRequest,
+  SwapSimulationResponse,
+} from '../sammRouterService';
 
 // Mock fetch globally
 global.fetch = vi.fn();
@@ -301,6 +307,93 @@ describe('SammRouterService', () => {
     });
   });
 
+  describe('simulateSwap', () => {
+    const simulationRequest: SwapSimulationRequest = {
+      path: { hops: [] },
+      userAddress: '0x1111111111111111111111111111111111111111',
+      blockTag: 'latest',
+    };
+
+    const revertedSimulation: SwapSimulationResponse = {
+      success: true,
+      data: {
+        success: false,
+        blockNumber: 1234,
+        hops: [{
+          hopIndex: 0,
+          poolAddress: '0x2222222222222222222222222222222222222222',
+          tokenIn: '0x3333333333333333333333333333333333333333',
+          tokenOut: '0x4444444444444444444444444444444444444444',
+          expectedAmountIn: '1000',
+          actualAmountIn: '1200',
+          actualAmountOut: '500',
+          actualFee: '3',
+          maxAmountIn: '1005',
+          success: false,
+          revertReason: 'SAMMPool: excessive input amount',
+        }],
+        finalAmountIn: '1200',
+        finalAmountOut: '500',
+        totalFees: '3',
+        gasUsed: '0',
+        revertReason: 'SAMMPool: excessive input amount',
+      },
+    };
+
+    beforeEach(() => {
+      service = new SammRouterService('http://test-api.example.com');
+    });
+
+    it('should post the request and return the trace of a reverting swap', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve(revertedSimulation),
+      } as Response);
+
+      const result = await service.simulateSwap(simulationRequest);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://test-api.example.com/api/v1/swaps/simulate',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify(simulationRequest),
+        })
+      );
+      expect(result.data?.success).toBe(false);
+      expect(result.data?.hops[0].revertReason).toBe('SAMMPool: excessive input amount');
+    });
+
+    it('should return request errors reported by the router', async () => {
+      const errorResponse: SwapSimulationResponse = {
+        success: false,
+        error: 'INVALID_REQUEST',
+        message: 'Invalid blockTag',
+      };
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        json: () => Promise.resolve(errorResponse),
+      } as Response);
+
+      const result = await service.simulateSwap({ ...simulationRequest, blockTag: 'soon' });
+
+      expect(result).toEqual(errorResponse);
+    });
+
+    it('should throw when the response is not JSON', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 502,
+        statusText: 'Bad Gateway',
+        json: () => Promise.reject(new SyntaxError('Unexpected token <')),
+      } as Response);
+
+      await expect(service.simulateSwap(simulationRequest)).rejects.toThrow('HTTP 502: Bad Gateway');
+    });
+  });
+
   describe('healthCheck', () => {
     beforeEach(() => {
       service = new SammRouterService('http://test-api.example.com');
@@ -932,4 +932,190 @@ describe('SAMMSwapService', () => {
       }).not.toThrow();
     });
   });
+
+  describe('getQuoteForInput - Validation', () => {
+    it('should throw error for non-Monad chain', async () => {
+      await expect(
+        service.getQuoteForInput({} as any, 1, USDC_ADDRESS, USDT_ADDRESS, 100000000n, 0.5)
+      ).rejects.toThrow('SAMM swaps are only available on Monad testnet');
+    });
+
+    it('should throw error for zero input amount', async () => {
+      await expect(
+        service.getQuoteForInput({} as any, MONAD_CHAIN_ID, USDC_ADDRESS, USDT_ADDRESS, 0n, 0.5)
+      ).rejects.toThrow('Input amount must be greater than zero');
+    });
+
+    it('should throw error for same input and output tokens', async () => {
+      await expect(
+        service.getQuoteForInput({} as any, MONAD_CHAIN_ID, USDC_ADDRESS, USDC_ADDRESS, 100000000n, 0.5)
+      ).rejects.toThrow('Input and output tokens must be different');
+    });
+  });
+
+  describe('calculateSwapSAMMLocal', () => {
+    // Research paper parameters with a 0.01% owner fee
+    const params = {
+      beta1: -1050000n,
+      rmin: 1000n,
+      rmax: 12000n,
+      c: 10400n,
+      ownerFeeNumerator: 1n,
+      ownerFeeDenominator: 10000n,
+      inputDecimals: 6,
+      outputDecimals: 6,
+    };
+    const reserve = 1000000000000n; // 1,000,000 tokens (6 decimals)
+
+    it('should add trade and owner fees on top of the curve input', () => {
+      const result = service.calculateSwapSAMMLocal(1000000000n, reserve, reserve, params);
+
+      expect(result.amountOut).toBe(1000000000n);
+      expect(result.tradeFee).toBeGreaterThan(0n);
+      expect(result.ownerFee).toBe(100000n);
+      expect(result.amountIn).toBeGreaterThan(1000000000n + result.tradeFee + result.ownerFee - 1n);
+    });
+
+    it('should normalize tokens with different decimals', () => {
+      const mixedParams = { ...params, inputDecimals: 6, outputDecimals: 18 };
+      const daiReserve = 1000000n * 10n ** 18n;
+
+      const result = service.calculateSwapSAMMLocal(1000n * 10n ** 18n, reserve, daiReserve, mixedParams);
+
+      // ~1000 USDC (6 decimals) plus fees for 1000 DAI
+      expect(result.amountIn).toBeGreaterThan(1000000000n);
+      expect(result.amountIn).toBeLessThan(1020000000n);
+    });
+
+    it('should throw when output exceeds the reserve', () => {
+      expect(() => {
+        service.calculateSwapSAMMLocal(reserve, reserve, reserve, params);
+      }).toThrow('Insufficient liquidity for this output amount');
+    });
+  });
+
+  describe('findMaxOutputForInput', () => {
+    const params = {
+      beta1: -1050000n,
+      rmin: 1000n,
+      rmax: 12000n,
+      c: 10400n,
+      ownerFeeNumerator: 1n,
+      ownerFeeDenominator: 10000n,
+      inputDecimals: 6,
+      outputDecimals: 6,
+    };
+    const reserve = 1000000000000n;
+
+    it('should return the largest output that fits in the input', () => {
+      const inputAmount = 1000000000n; // 1,000 tokens
+      const result = service.findMaxOutputForInput(inputAmount, reserve, reserve, params);
+
+      expect(result).not.toBeNull();
+      expect(result!.amountIn).toBeLessThanOrEqual(inputAmount);
+      expect(result!.amountOut).toBeLessThan(inputAmount);
+
+      const next = service.calculateSwapSAMMLocal(result!.amountOut + 1n, reserve, reserve, params);
+      expect(next.amountIn).toBeGreaterThan(inputAmount);
+    });
+
+    it('should never exceed the c-threshold for large inputs', () => {
+      const result = service.findMaxOutputForInput(reserve, reserve, reserve, params);
+
+      expect(result).not.toBeNull();
+      expect(service.validateCThreshold(result!.amountOut, reserve, params.c)).toBe(true);
+      expect(service.validateCThreshold(result!.amountOut + 1n, reserve, params.c)).toBe(false);
+    });
+
+    it('should return null when the input cannot buy any output', () => {
+      const wadParams = { ...params, inputDecimals: 18, outputDecimals: 18 };
+      const wadReserve = 1000000n * 10n ** 18n;
+
+      // Curve rounding plus the minimum owner fee already cost more than 1 wei
+      expect(service.findMaxOutputForInput(1n, wadReserve, wadReserve, wadParams)).toBeNull();
+    });
+
+    it('should return null for empty reserves', () => {
+      expect(service.findMaxOutputForInput(1000000n, 0n, reserve, params)).toBeNull();
+    });
+
+    it('should give more output for more input', () => {
+      const small = service.findMaxOutputForInput(1000000000n, reserve, reserve, params);
+      const large = service.findMaxOutputForInput(2000000000n, reserve, reserve, params);
+
+      expect(large!.amountOut).toBeGreaterThan(small!.amountOut);
+    });
+  });
+
+  describe('calculateMinimumOutput', () => {
+    it('should reduce output by slippage tolerance', () => {
+      expect(service.calculateMinimumOutput(100000000n, 0.5)).toBe(99500000n);
+    });
+
+    it('should return estimated output when slippage is 0', () => {
+      expect(service.calculateMinimumOutput(100000000n, 0)).toBe(100000000n);
+    });
+
+    it('should throw for zero estimated output', () => {
+      expect(() => service.calculateMinimumOutput(0n, 0.5)).toThrow(
+        'Estimated output must be greater than zero'
+      );
+    });
+
+    it('should throw for out-of-range slippage', () => {
+      expect(() => service.calculateMinimumOutput(100000000n, -1)).toThrow(
+        'Slippage tolerance must be between 0 and 100'
+      );
+      expect(() => service.calculateMinimumOutput(100000000n, 100)).toThrow(
+        'Slippage tolerance must be between 0 and 100'
+      );
+    });
+  });
+
+  describe('executeSwapSAMMExactInput - Validation', () => {
+    it('should throw error for expired quote', async () => {
+      const expiredQuote = {
+        mode: 'exactInput' as const,
+        inputToken: USDC_ADDRESS,
+        outputToken: USDT_ADDRESS,
+        inputAmount: 100000000n,
+        outputAmount: 99000000n,
+        minimumOutput: 98505000n,
+        estimatedInput: 99990000n,
+        maximalInput: 100000000n,
+        tradeFee: 60000n,
+        ownerFee: 20000n,
+        priceImpact: 0.08,
+        selectedShard: {
+          address: '0x49ac6422c88e5b6e5c0e3e0e3e0e3e0e3e0e3e0e' as Address,
+          shardNumber: 3,
+          pairName: 'USDC/USDT',
+          liquidityA: '1000.00',
+          liquidityB: '1000.00',
+          reserveA: 1000000000n,
+          reserveB: 1000000000n,
+          estimatedInput: 99990000n,
+          estimatedOutput: 99000000n,
+          tradeFee: 60000n,
+          ownerFee: 20000n,
+          isOptimal: true,
+          reason: 'Highest output for input',
+        },
+        alternativeShards: [],
+        slippageTolerance: 0.5,
+        chainId: MONAD_CHAIN_ID,
+        timestamp: Date.now() - 60000,
+        expiresAt: Date.now() - 30000,
+      };
+
+      await expect(
+        service.executeSwapSAMMExactInput(
+          {} as any,
+          {} as any,
+          expiredQuote,
+          '0x1234567890123456789012345678901234567890' as Address
+        )
+      ).rejects.toThrow('Quote has expired');
+    });
+  });
 });
@@ -0,0 +1,131 @@
+/**
+ * EVM History Cache
+ *
+ * Persists indexed log ranges per chain and address in IndexedDB so a page
+ * reload only scans blocks that arrived since the last visit. Wallet
+ * transaction history and pool event history live in separate object stores.
+ * Falls back to an in-memory map where IndexedDB is unavailable (SSR, tests,
+ * private mode).
+ */
+
+import { Transaction } from '../types';
+
+/**
+ * A contiguous block range that has been fully scanned for one address
+ */
+export interface IndexedRange {
+  chainId: number;
+  address: string;
+  // Inclusive block range that has been fully scanned
+  fromBlock: bigint;
+  toBlock: bigint;
+  updatedAt: number;
+}
+
+export interface HistorySnapshot extends IndexedRange {
+  transactions: Transaction[];
+}
+
+export interface HistoryCache<T extends IndexedRange = HistorySnapshot> {
+  load(chainId: number, address: string): Promise<T | null>;
+  save(snapshot: T): Promise<void>;
+  clear(chainId: number, address: string): Promise<void>;
+}
+
+export type HistoryStoreName = 'snapshots' | 'pool-events';
+
+const DB_NAME = 'samm-evm-history';
+const DB_VERSION = 2;
+const STORE_NAMES: HistoryStoreName[] = ['snapshots', 'pool-events'];
+
+function snapshotKey(chainId: number, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
+
+export class MemoryHistoryCache<T extends IndexedRange = HistorySnapshot> implements HistoryCache<T> {
+  private snapshots = new Map<string, T>();
+
+  async load(chainId: number, address: string): Promise<T | null> {
+    return this.snapshots.get(snapshotKey(chainId, address)) ?? null;
+  }
+
+  async save(snapshot: T): Promise<void> {
+    this.snapshots.set(snapshotKey(snapshot.chainId, snapshot.address), snapshot);
+  }
+
+  async clear(chainId: number, address: string): Promise<void> {
+    this.snapshots.delete(snapshotKey(chainId, address));
+  }
+}
+
+/**
+ * Snapshots are stored as-is: structured clone keeps the bigint amounts and
+ * block numbers, so no serializer is needed unlike the localStorage stores
+ */
+export class IndexedDBHistoryCache<T extends IndexedRange = HistorySnapshot> implements HistoryCache<T> {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private factory: IDBFactory, private storeName: HistoryStoreName = 'snapshots') {}
+
+  async load(chainId: number, address: string): Promise<T | null> {
+    const result = await this.run<T | undefined>('readonly', store =>
+      store.get(snapshotKey(chainId, address))
+    );
+    return result ?? null;
+  }
+
+  async save(snapshot: T): Promise<void> {
+    await this.run('readwrite', store =>
+      store.put(snapshot, snapshotKey(snapshot.chainId, snapshot.address))
+    );
+  }
+
+  async clear(chainId: number, address: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(snapshotKey(chainId, address)));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = this.factory.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          for (const name of STORE_NAMES) {
+            if (!request.result.objectStoreNames.contains(name)) {
+              request.result.createObjectStore(name);
+            }
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<R> {
+    const db = await this.open();
+    return new Promise<R>((resolve, reject) => {
+      const request = operation(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result as R);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Pick IndexedDB when the browser provides it, memory otherwise
+ */
+export function createHistoryCache<T extends IndexedRange = HistorySnapshot>(
+  storeName: HistoryStoreName = 'snapshots'
+): HistoryCache<T> {
+  if (typeof indexedDB !== 'undefined' && indexedDB) {
+    return new IndexedDBHistoryCache<T>(indexedDB, storeName);
+  }
+  return new MemoryHistoryCache<T>();
+}
@@ -8,7 +8,12 @@
 import { PublicClient, WalletClient, Address, formatUnits } from 'viem';
 import { evmPoolService } from './evmPoolService';
 import PoolABI from '../abis/Pool.json';
+import ZapABI from '../abis/Zap.json';
 import { MONAD_TESTNET } from '../config/evm-networks';
+import { getContractAddresses } from '../config/evm-contracts';
+import type { ZapInPlan, ZapOutPlan } from './liquidityRouterClient';
+
+const ZAP_DEADLINE_SECONDS = 20 * 60;
 
 // Monad chain configuration for viem
 const monadChain = {
@@ -261,6 +266,162 @@ class EVMLiquidityService {
     return hash;
   }
 
+  /**
+   * SAMMZap deployment for a chain, or null when single-token liquidity is unavailable
+   */
+  getZap(chainId: number): Address | null {
+    const zap = getContractAddresses(chainId)?.zap;
+    return zap ? zap as Address : null;
+  }
+
+  /**
+   * Deposit a single token into a shard through the SAMMZap contract
+   * The swap through the plan's other shard and the deposit happen in one
+   * transaction, and it reverts unless at least the slippage-adjusted LP
+   * amount is minted.
+   *
+   * @param plan - Zap-in plan from the liquidity router
+   * @param slippageTolerance - Slippage tolerance as percentage (e.g., 0.5 for 0.5%)
+   * @returns Transaction hash
+   */
+  async zapIn(
+    walletClient: WalletClient,
+    publicClient: PublicClient,
+    zap: Address,
+    plan: ZapInPlan,
+    slippageTolerance: number,
+    userAddress: Address
+  ): Promise<Address> {
+    const slippageBps = BigInt(Math.floor(slippageTolerance * 100));
+    const swapBudget = plan.swapAmountIn + (plan.swapAmountIn * slippageBps) / 10000n;
+    // The zap rejects swaps that could spend the whole input
+    const maxSwapAmountIn = swapBudget < plan.amountIn ? swapBudget : plan.amountIn - 1n;
+    const minLiquidity = calculateMinAmount(plan.expectedLiquidity, slippageTolerance);
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + ZAP_DEADLINE_SECONDS);
+
+    console.log('📊 Zap-In Parameters:');
+    console.log('  - Pool:', plan.pool);
+    console.log('  - Swap Pool:', plan.swapPool);
+    console.log('  - Amount In:', plan.amountIn.toString());
+    console.log('  - Swap Amount Out:', plan.swapAmountOut.toString());
+    console.log('  - Max Swap Amount In:', maxSwapAmountIn.toString());
+    console.log('  - Min Liquidity:', minLiquidity.toString());
+
+    const { evmApprovalService } = await import('./evmApprovalService');
+    await evmApprovalService.ensureApproval(
+      walletClient,
+      publicClient,
+      plan.tokenIn as Address,
+      userAddress,
+      zap,
+      plan.amountIn,
+      'exact'
+    );
+
+    const { request } = await publicClient.simulateContract({
+      address: zap,
+      abi: ZapABI,
+      functionName: 'zapIn',
+      args: [
+        plan.pool,
+        plan.swapPool,
+        plan.tokenIn,
+        plan.amountIn,
+        plan.swapAmountOut,
+        maxSwapAmountIn,
+        minLiquidity,
+        userAddress,
+        deadline,
+      ],
+      account: userAddress,
+      chain: monadChain,
+    });
+
+    const hash = await walletClient.writeContract({
+      ...request,
+      chain: monadChain,
+    });
+
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== 'success') {
+      throw new Error(`Transaction ${hash} reverted`);
+    }
+
+    return hash;
+  }
+
+  /**
+   * Withdraw a shard position into a single token through the SAMMZap contract
+   * The swap amount is reduced by the slippage tolerance so a small price move
+   * does not leave the withdrawn tokens short of paying for it; whatever is
+   * not sold is paid out alongside.
+   *
+   * @param plan - Zap-out plan from the liquidity router
+   * @param slippageTolerance - Slippage tolerance as percentage (e.g., 0.5 for 0.5%)
+   * @returns Transaction hash
+   */
+  async zapOut(
+    walletClient: WalletClient,
+    publicClient: PublicClient,
+    zap: Address,
+    plan: ZapOutPlan,
+    slippageTolerance: number,
+    userAddress: Address
+  ): Promise<Address> {
+    const swapAmountOut = calculateMinAmount(plan.swapAmountOut, slippageTolerance);
+    const minAmountOut = calculateMinAmount(plan.expectedAmountOut, slippageTolerance);
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + ZAP_DEADLINE_SECONDS);
+
+    console.log('📊 Zap-Out Parameters:');
+    console.log('  - Pool:', plan.pool);
+    console.log('  - Swap Pool:', plan.swapPool);
+    console.log('  - LP Tokens:', plan.liquidity.toString());
+    console.log('  - Swap Amount Out:', swapAmountOut.toString());
+    console.log('  - Min Amount Out:', minAmountOut.toString());
+
+    // LP tokens are the pool contract itself
+    const { evmApprovalService } = await import('./evmApprovalService');
+    await evmApprovalService.ensureApproval(
+      walletClient,
+      publicClient,
+      plan.pool as Address,
+      userAddress,
+      zap,
+      plan.liquidity,
+      'exact'
+    );
+
+    const { request } = await publicClient.simulateContract({
+      address: zap,
+      abi: ZapABI,
+      functionName: 'zapOut',
+      args: [
+        plan.pool,
+        plan.swapPool,
+        plan.liquidity,
+        plan.tokenOut,
+        swapAmountOut,
+        minAmountOut,
+        userAddress,
+        deadline,
+      ],
+      account: userAddress,
+      chain: monadChain,
+    });
+
+    const hash = await walletClient.writeContract({
+      ...request,
+      chain: monadChain,
+    });
+
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== 'success') {
+      throw new Error(`Transaction ${hash} reverted`);
+    }
+
+    return hash;
+  }
+
   /**
    * Get user's LP token balance for a pool
    */
@@ -281,15 +442,18 @@ class EVMLiquidityService {
 
   /**
    * Get complete pool state from contract
+   * @param blockNumber Read the state as of this block instead of the latest one
    */
   async getPoolState(
     publicClient: PublicClient,
-    poolAddress: Address
+    poolAddress: Address,
+    blockNumber?: bigint
   ): Promise<PoolState> {
     const state = await publicClient.readContract({
       address: poolAddress,
       abi: PoolABI,
       functionName: 'getPoolState',
+      blockNumber,
     }) as {
       tokenA: Address;
       tokenB: Address;
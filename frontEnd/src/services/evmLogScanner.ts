@@ -0,0 +1,98 @@
+/**
+ * EVM Log Scanner
+ *
+ * Reads eth_getLogs over a block range in chunks. RPCs cap the span or result
+ * size of a single call, so the chunk is halved whenever a range is refused.
+ */
+
+import { Address, Hex, PublicClient, numberToHex } from 'viem';
+
+export interface RawLog {
+  address: Address;
+  topics: Hex[];
+  data: Hex;
+  blockNumber: Hex | null;
+  transactionHash: Hex | null;
+  logIndex: Hex | null;
+}
+
+/**
+ * One eth_getLogs filter; every query is run for every chunk
+ */
+export interface LogQuery {
+  addresses: Address[];
+  topics: (Hex | Hex[] | null)[];
+}
+
+export interface LogScanOptions {
+  // Blocks per eth_getLogs call; halved automatically when the RPC rejects the range
+  chunkSize?: bigint;
+  onProgress?: (progress: { current: number; total: number }) => void;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_CHUNK_SIZE = BigInt(1000);
+
+/**
+ * Run the queries over [fromBlock, toBlock] and return their logs in chunk order
+ */
+export async function scanLogs(
+  client: PublicClient,
+  queries: LogQuery[],
+  fromBlock: bigint,
+  toBlock: bigint,
+  options: LogScanOptions = {}
+): Promise<RawLog[]> {
+  let chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  let start = fromBlock;
+  let completed = 0;
+  const logs: RawLog[] = [];
+
+  while (start <= toBlock) {
+    if (options.signal?.aborted) {
+      throw new Error('Log scan aborted');
+    }
+
+    const end = minBigInt(start + chunkSize - BigInt(1), toBlock);
+    try {
+      const results = await Promise.all(
+        queries.map(query => getLogs(client, query, start, end))
+      );
+      logs.push(...results.flat());
+    } catch (error) {
+      if (chunkSize > BigInt(1) && isRangeError(error)) {
+        chunkSize = chunkSize / BigInt(2);
+        continue;
+      }
+      throw error;
+    }
+
+    completed++;
+    start = end + BigInt(1);
+    const remaining = start > toBlock ? 0 : Number((toBlock - start) / chunkSize) + 1;
+    options.onProgress?.({ current: completed, total: completed + remaining });
+  }
+
+  return logs;
+}
+
+async function getLogs(client: PublicClient, query: LogQuery, fromBlock: bigint, toBlock: bigint): Promise<RawLog[]> {
+  if (query.addresses.length === 0) return [];
+  return (await client.request({
+    method: 'eth_getLogs',
+    params: [{
+      address: query.addresses,
+      topics: query.topics,
+      fromBlock: numberToHex(fromBlock),
+      toBlock: numberToHex(toBlock),
+    }],
+  })) as RawLog[];
+}
+
+function isRangeError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /block range|range too|too many|limit exceeded|exceed|query returned more than/i.test(message);
+}
+
+export const maxBigInt = (a: bigint, b: bigint) => (a > b ? a : b);
+export const minBigInt = (a: bigint, b: bigint) => (a < b ? a : b);
@@ -0,0 +1,259 @@
+/**
+ * EVM Shard Service
+ *
+ * Deploys and seeds new SAMM shards through SAMMPoolFactory, and registers
+ * shards the factory knows about but the DEX config does not, so routing
+ * picks them up without a config redeploy
+ */
+
+import { Abi, Address, PublicClient, WalletClient, formatUnits, parseEventLogs } from 'viem';
+import FactoryABI from '../abis/Factory.json';
+import {
+  DexPoolConfig,
+  SammParameters,
+  getDexConfig,
+  getFactoryAddress,
+  registerPool,
+} from '../config/dex-config-loader';
+import { MONAD_TESTNET } from '../config/evm-networks';
+import { evmApprovalService } from './evmApprovalService';
+import { evmLiquidityService } from './evmLiquidityService';
+
+// Monad chain configuration for viem
+const monadChain = {
+  id: MONAD_TESTNET.chainId,
+  name: MONAD_TESTNET.name,
+  nativeCurrency: MONAD_TESTNET.nativeCurrency,
+  rpcUrls: {
+    default: { http: MONAD_TESTNET.rpcUrls },
+    public: { http: MONAD_TESTNET.rpcUrls },
+  },
+} as const;
+
+const factoryAbi = FactoryABI as Abi;
+
+// SAMMPoolFactory TRADE_FEE_* and OWNER_FEE_* defaults
+const DEFAULT_FEE_PARAMS = {
+  tradeFeeNumerator: BigInt(25),
+  tradeFeeDenominator: BigInt(10000),
+  ownerFeeNumerator: BigInt(5),
+  ownerFeeDenominator: BigInt(10000),
+};
+
+export type ShardCreationStep = 'approve' | 'create' | 'initialize' | 'register';
+
+export interface ShardTokenInput {
+  address: Address;
+  symbol: string;
+  decimals: number;
+}
+
+export interface CreateShardRequest {
+  chainId: number;
+  tokenA: ShardTokenInput;
+  tokenB: ShardTokenInput;
+  amountA: bigint;
+  amountB: bigint;
+  // Scaled by 1e6
+  sammParameters: SammParameters;
+}
+
+export interface CreateShardResult {
+  shardAddress: Address;
+  shardIndex: number;
+  createHash: Address;
+  initializeHash: Address;
+  lpTokens: bigint;
+  pool: DexPoolConfig;
+}
+
+interface FactoryShardInfo {
+  tokenA: Address;
+  tokenB: Address;
+  shardIndex: bigint;
+  isActive: boolean;
+}
+
+export class EVMShardService {
+  /**
+   * Create a shard with the given curve, seed it with the first deposit and
+   * register it. Approvals go first so a rejected approval does not leave an
+   * empty shard behind.
+   */
+  async createShard(
+    walletClient: WalletClient,
+    publicClient: PublicClient,
+    request: CreateShardRequest,
+    userAddress: Address,
+    onStep?: (step: ShardCreationStep) => void
+  ): Promise<CreateShardResult> {
+    const factory = this.requireFactory(request.chainId);
+
+    // The factory stores the pair sorted by address; amounts must follow
+    const [first, second, amountFirst, amountSecond] =
+      request.tokenA.address.toLowerCase() < request.tokenB.address.toLowerCase()
+        ? [request.tokenA, request.tokenB, request.amountA, request.amountB]
+        : [request.tokenB, request.tokenA, request.amountB, request.amountA];
+
+    onStep?.('approve');
+    await evmApprovalService.ensureApproval(walletClient, publicClient, first.address, userAddress, factory, amountFirst);
+    await evmApprovalService.ensureApproval(walletClient, publicClient, second.address, userAddress, factory, amountSecond);
+
+    onStep?.('create');
+    const { sammParameters } = request;
+    const { request: createRequest } = await publicClient.simulateContract({
+      address: factory,
+      abi: factoryAbi,
+      functionName: 'createShard',
+      args: [
+        first.address,
+        second.address,
+        {
+          beta1: BigInt(sammParameters.beta1),
+          rmin: BigInt(sammParameters.rmin),
+          rmax: BigInt(sammParameters.rmax),
+          c: BigInt(sammParameters.c),
+        },
+        DEFAULT_FEE_PARAMS,
+      ],
+      account: userAddress,
+      chain: monadChain,
+    });
+    const createHash = await walletClient.writeContract({ ...createRequest, chain: monadChain });
+    const createReceipt = await publicClient.waitForTransactionReceipt({ hash: createHash });
+
+    const [created] = parseEventLogs({ abi: factoryAbi, logs: createReceipt.logs, eventName: 'ShardCreated' });
+    if (!created) {
+      throw new Error('Shard creation did not emit ShardCreated');
+    }
+    const { shard, shardIndex } = created.args as unknown as { shard: Address; shardIndex: bigint };
+
+    onStep?.('initialize');
+    const { request: initializeRequest } = await publicClient.simulateContract({
+      address: factory,
+      abi: factoryAbi,
+      functionName: 'initializeShard',
+      args: [shard, amountFirst, amountSecond],
+      account: userAddress,
+      chain: monadChain,
+    });
+    const initializeHash = await walletClient.writeContract({ ...initializeRequest, chain: monadChain });
+    const initializeReceipt = await publicClient.waitForTransactionReceipt({ hash: initializeHash });
+
+    const [initialized] = parseEventLogs({
+      abi: factoryAbi,
+      logs: initializeReceipt.logs,
+      eventName: 'ShardInitialized',
+    });
+    const lpTokens = initialized ? (initialized.args as unknown as { lpTokens: bigint }).lpTokens : BigInt(0);
+
+    onStep?.('register');
+    const pool = this.toPoolConfig(request.chainId, shard, first, second, formatUnits(amountFirst, first.decimals));
+    registerPool(pool);
+
+    return {
+      shardAddress: shard,
+      shardIndex: Number(shardIndex),
+      createHash,
+      initializeHash,
+      lpTokens,
+      pool,
+    };
+  }
+
+  /**
+   * Register active, seeded factory shards missing from the DEX config.
+   * Shards of tokens the config does not list are skipped since routing
+   * resolves pools by token symbol.
+   */
+  async discoverShards(client: PublicClient, chainId: number): Promise<DexPoolConfig[]> {
+    const config = getDexConfig(chainId);
+    const factory = getFactoryAddress(chainId) as Address;
+    if (!config || !factory) {
+      return [];
+    }
+
+    const known = new Set(config.pools.map((pool) => pool.address.toLowerCase()));
+    const shards = await client.readContract({
+      address: factory,
+      abi: factoryAbi,
+      functionName: 'getAllShards',
+    }) as Address[];
+
+    const registered: DexPoolConfig[] = [];
+    for (const shard of shards) {
+      if (known.has(shard.toLowerCase())) continue;
+
+      try {
+        const info = await client.readContract({
+          address: factory,
+          abi: factoryAbi,
+          functionName: 'getShardInfo',
+          args: [shard],
+        }) as FactoryShardInfo;
+        if (!info.isActive) continue;
+
+        const tokenA = config.tokens.find((token) => token.address.toLowerCase() === info.tokenA.toLowerCase());
+        const tokenB = config.tokens.find((token) => token.address.toLowerCase() === info.tokenB.toLowerCase());
+        if (!tokenA || !tokenB) continue;
+
+        const state = await evmLiquidityService.getPoolState(client, shard);
+        if (state.reserveA === BigInt(0) || state.reserveB === BigInt(0)) continue;
+
+        const pool = this.toPoolConfig(
+          chainId,
+          shard,
+          { ...tokenA, address: tokenA.address as Address },
+          { ...tokenB, address: tokenB.address as Address },
+          formatUnits(state.reserveA, tokenA.decimals)
+        );
+        if (registerPool(pool)) {
+          registered.push(pool);
+        }
+      } catch (error) {
+        console.warn(`⚠️  Skipping factory shard ${shard}:`, error);
+      }
+    }
+
+    return registered;
+  }
+
+  private toPoolConfig(
+    chainId: number,
+    address: Address,
+    tokenA: ShardTokenInput,
+    tokenB: ShardTokenInput,
+    initialLiquidity: string
+  ): DexPoolConfig {
+    const pairName = `${tokenA.symbol}/${tokenB.symbol}`;
+    const siblings = (getDexConfig(chainId)?.pools ?? []).filter((pool) =>
+      [pool.tokenA.toLowerCase(), pool.tokenB.toLowerCase()].sort().join() ===
+      [tokenA.address.toLowerCase(), tokenB.address.toLowerCase()].sort().join()
+    );
+    const shardNumber = siblings.reduce((max, pool) => Math.max(max, pool.shardNumber), 0) + 1;
+
+    return {
+      name: `${pairName}-${shardNumber}`,
+      pairName,
+      address,
+      tokenA: tokenA.address,
+      tokenB: tokenB.address,
+      tokenASymbol: tokenA.symbol,
+      tokenBSymbol: tokenB.symbol,
+      shardNumber,
+      initialLiquidity,
+      status: 'active',
+      chainId,
+    };
+  }
+
+  private requireFactory(chainId: number): Address {
+    const factory = getFactoryAddress(chainId);
+    if (!factory) {
+      throw new Error(`No SAMMPoolFactory configured for chain ${chainId}`);
+    }
+    return factory as Address;
+  }
+}
+
+export const evmShardService = new EVMShardService();
@@ -10,7 +10,9 @@ import { PublicClient, WalletClient, Address } from 'viem';
 import { evmPoolService } from './evmPoolService';
 import { sammBackendService } from './sammBackendService';
 import PoolABI from '../abis/Pool.json';
+import MultiHopRouterABI from '../abis/MultiHopRouter.json';
 import { MONAD_TESTNET } from '../config/evm-networks';
+import { getContractAddresses } from '../config/evm-contracts';
 
 // Monad chain configuration for viem
 const monadChain = {
@@ -35,6 +37,8 @@ export interface EVMSwapQuote {
   poolAddress: Address;
   chainId: number;
   calculation: SwapCalculation;
+  /** Slippage tolerance the quote was built with, in percent */
+  slippageTolerance: number;
   isMultiHop?: boolean;
   backendOptimized?: boolean;
 }
@@ -57,6 +61,9 @@ export interface SwapCalculation {
   ownerFee: bigint;
 }
 
+/** Seconds a router swap stays valid after it is signed */
+const ROUTER_DEADLINE_SECONDS = 20 * 60;
+
 export interface EVMMultiHopRoute {
   path: string[];
   shards: string[];
@@ -70,6 +77,53 @@ export interface EVMMultiHopRoute {
   }>;
 }
 
+export interface SwapTokenInfo {
+  symbol: string;
+  address: Address;
+  decimals: number;
+}
+
+/**
+ * Intermediate token left in the wallet when a sequential multi-hop swap fails partway
+ */
+export interface StrandedSwap {
+  chainId: number;
+  userAddress: Address;
+  /** Hop that failed (0-based) */
+  failedStep: number;
+  /** Transactions of the hops that went through */
+  completedTxHashes: Address[];
+  /** Token received from the last completed hop */
+  token: SwapTokenInfo;
+  amount: bigint;
+  inputToken: SwapTokenInfo;
+  outputToken: SwapTokenInfo;
+  reason: string;
+}
+
+export class MultiHopPartialFillError extends Error {
+  readonly stranded: StrandedSwap;
+
+  constructor(stranded: StrandedSwap) {
+    super(
+      `Multi-hop swap failed at step ${stranded.failedStep + 1} ` +
+      `(${stranded.token.symbol} → ${stranded.outputToken.symbol}): ${stranded.reason}. ` +
+      `The ${stranded.token.symbol} from the earlier steps is still in your wallet.`
+    );
+    this.name = 'MultiHopPartialFillError';
+    this.stranded = stranded;
+  }
+}
+
+/**
+ * Way out of a stranded swap: back to the input token, or on to the output token
+ */
+export interface RecoveryOption {
+  direction: 'back' | 'onward';
+  token: SwapTokenInfo;
+  quote: EVMSwapQuote;
+}
+
 class EVMSwapService {
   /**
    * Calculate price impact as percentage
@@ -193,8 +247,8 @@ class EVMSwapService {
       const slippageMultiplier = BigInt(Math.floor((100 - slippageTolerance) * 100));
       const minimumOutput = (outputAmount * slippageMultiplier) / 10000n;
 
-      // Calculate maximal input with slippage (10% buffer)
-      const maximalInput = actualInputAmount + (actualInputAmount * 10n / 100n);
+      // Calculate maximal input with slippage
+      const maximalInput = this.getMaxInput(actualInputAmount, slippageTolerance);
 
       // Get pool reserves for price impact calculation
       const { reserves } = await evmPoolService.getPoolReserves(
@@ -232,6 +286,7 @@ class EVMSwapService {
           tradeFee: totalFee,
           ownerFee: 0n,
         },
+        slippageTolerance,
         isMultiHop: false,
         backendOptimized: true,
       };
@@ -255,8 +310,8 @@ class EVMSwapService {
         const slippageMultiplier = BigInt(Math.floor((100 - slippageTolerance) * 100));
         const minimumOutput = (outputAmount * slippageMultiplier) / 10000n;
 
-        // Calculate maximal input with slippage (10% buffer)
-        const maximalInput = actualInputAmount + (actualInputAmount * 10n / 100n);
+        // Calculate maximal input with slippage
+        const maximalInput = this.getMaxInput(actualInputAmount, slippageTolerance);
 
         // Multi-hop routing
         const steps = multiHopResult.steps.map(step => ({
@@ -289,6 +344,7 @@ class EVMSwapService {
             tradeFee: totalFee,
             ownerFee: 0n,
           },
+          slippageTolerance,
           isMultiHop: true,
           backendOptimized: true,
         };
@@ -363,8 +419,8 @@ class EVMSwapService {
           const slippageMultiplier = BigInt(Math.floor((100 - slippageTolerance) * 100));
           const minimumOutput = (outputAmount * slippageMultiplier) / 10000n;
 
-          // Calculate maximal input with slippage (10% buffer like backend)
-          const maximalInput = calculation.amountIn + (calculation.amountIn * 10n / 100n);
+          // Calculate maximal input with slippage
+          const maximalInput = this.getMaxInput(calculation.amountIn, slippageTolerance);
 
           // Calculate price impact
           const priceImpact = this.calculatePriceImpact(
@@ -400,6 +456,7 @@ class EVMSwapService {
               tradeFee: calculation.tradeFee,
               ownerFee: calculation.ownerFee,
             },
+            slippageTolerance,
             backendOptimized: false,
           };
         }
@@ -561,38 +618,53 @@ class EVMSwapService {
 
       return hash;
     } catch (error: any) {
-      // Handle specific error cases with better messages
-      const errorMsg = error.message || '';
-      
-      // C-threshold exceeded (0xfb8f41b2)
-      if (errorMsg.includes('0xfb8f41b2') || errorMsg.includes('ExceedsCThreshold')) {
-        throw new Error(
-          'Swap amount exceeds pool safety threshold. Please try a smaller amount or use a different pool.'
-        );
-      }
-      
-      // Insufficient liquidity
-      if (errorMsg.includes('insufficient liquidity')) {
-        throw new Error(
-          'Insufficient liquidity in pool. Please try a smaller amount.'
-        );
-      }
-      
-      // Slippage exceeded
-      if (errorMsg.includes('excessive input amount')) {
-        throw new Error(
-          'Price moved unfavorably. Please try again with higher slippage tolerance.'
-        );
-      }
-      
-      // Re-throw original error if not a known case
-      throw error;
+      throw this.toSwapError(error);
+    }
+  }
+
+  /**
+   * Map known pool reverts to messages users can act on
+   */
+  private toSwapError(error: any): Error {
+    const errorMsg = error.message || '';
+    
+    // C-threshold exceeded (0xfb8f41b2)
+    if (errorMsg.includes('0xfb8f41b2') || errorMsg.includes('ExceedsCThreshold') || errorMsg.includes('exceeds c-threshold')) {
+      return new Error(
+        'Swap amount exceeds pool safety threshold. Please try a smaller amount or use a different pool.'
+      );
+    }
+    
+    // Insufficient liquidity
+    if (errorMsg.includes('insufficient liquidity')) {
+      return new Error(
+        'Insufficient liquidity in pool. Please try a smaller amount.'
+      );
     }
+    
+    // Slippage exceeded
+    if (errorMsg.includes('excessive input amount')) {
+      return new Error(
+        'Price moved unfavorably. Please try again with higher slippage tolerance.'
+      );
+    }
+    
+    // Return original error if not a known case
+    return error;
+  }
+
+  /**
+   * Multi-hop router deployed on a chain, if any
+   */
+  getMultiHopRouter(chainId: number): Address | null {
+    const router = getContractAddresses(chainId)?.router;
+    return router ? router as Address : null;
   }
 
   /**
    * Execute a multi-hop swap (e.g., USDC → USDT → DAI)
-   * Executes sequential swaps through intermediate tokens
+   * Runs every hop in one router transaction when the chain has a router,
+   * otherwise falls back to sequential swaps through intermediate tokens
    */
   private async executeMultiHopSwap(
     walletClient: WalletClient,
@@ -604,20 +676,119 @@ class EVMSwapService {
       throw new Error('Invalid multi-hop quote: missing steps');
     }
 
+    const router = this.getMultiHopRouter(quote.chainId);
+    if (router) {
+      return await this.executeAtomicMultiHopSwap(
+        walletClient,
+        publicClient,
+        quote,
+        userAddress,
+        router
+      );
+    }
+
+    console.warn('⚠️  No multi-hop router on this chain - swapping one hop at a time');
+    return await this.executeSequentialMultiHopSwap(
+      walletClient,
+      publicClient,
+      quote,
+      userAddress
+    );
+  }
+
+  /**
+   * Execute a multi-hop swap as one router call
+   * One approval of the first hop's maximum input to the router; if any hop
+   * fails the whole transaction reverts, so no intermediate token is left behind.
+   * The router pulls the first hop's whole cap up front, so the cap is kept
+   * within the quote's maximal input and the wallet balance.
+   */
+  private async executeAtomicMultiHopSwap(
+    walletClient: WalletClient,
+    publicClient: PublicClient,
+    quote: EVMSwapQuote,
+    userAddress: Address,
+    router: Address
+  ): Promise<Address> {
     const route = quote.route as EVMMultiHopRoute;
     const steps = route.steps;
 
-    console.log(`🔀 Executing ${steps.length}-hop swap: ${route.path.join(' → ')}`);
+    console.log(`🔀 Executing ${steps.length}-hop swap atomically via router ${router}: ${route.path.join(' → ')}`);
 
-    // Get token addresses from deployment info
-    const deploymentInfo = await sammBackendService.getDeploymentInfo();
-    const tokenAddresses: Record<string, Address> = {};
+    const tokens = (await this.resolvePathTokens(route)).map(token => token.address);
+    const pools = steps.map(step => step.poolAddress);
+    const amountsOut = steps.map(step => step.outputAmount);
+    const maxAmountsIn = steps.map(step => this.getMaxInput(step.inputAmount, quote.slippageTolerance));
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + ROUTER_DEADLINE_SECONDS);
+
+    const { evmApprovalService } = await import('./evmApprovalService');
+    const balance = await evmApprovalService.getTokenBalance(publicClient, tokens[0], userAddress);
+    if (balance < steps[0].inputAmount) {
+      throw new Error(`Insufficient ${route.path[0]} balance for this swap`);
+    }
+    maxAmountsIn[0] = [maxAmountsIn[0], quote.maximalInput, balance]
+      .reduce((cap, limit) => limit < cap ? limit : cap);
 
-    for (const [symbol, info] of Object.entries(deploymentInfo.tokens)) {
-      tokenAddresses[symbol] = info.address as Address;
+    const approvalHash = await evmApprovalService.ensureApproval(
+      walletClient,
+      publicClient,
+      tokens[0],
+      userAddress,
+      router,
+      maxAmountsIn[0],
+      'exact'
+    );
+    if (approvalHash) {
+      console.log(`   ✅ Router approved for ${route.path[0]} (tx: ${approvalHash})`);
     }
 
-    console.log('📋 Token addresses:', tokenAddresses);
+    try {
+      const { request } = await publicClient.simulateContract({
+        address: router,
+        abi: MultiHopRouterABI,
+        functionName: 'executeMultiHopSwap',
+        args: [pools, amountsOut, maxAmountsIn, tokens, userAddress, deadline],
+        account: userAddress,
+        chain: monadChain,
+      });
+
+      const hash = await walletClient.writeContract({
+        ...request,
+        chain: monadChain,
+      });
+
+      console.log(`   ⏳ Waiting for confirmation... (tx: ${hash})`);
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') {
+        throw new Error(`Transaction ${hash} reverted`);
+      }
+
+      console.log(`\n✅ Multi-hop swap completed in one transaction: ${hash}`);
+      return hash;
+    } catch (error: any) {
+      console.error('   ❌ Router swap failed:', error);
+      throw this.toSwapError(error);
+    }
+  }
+
+  /**
+   * Execute a multi-hop swap one hop at a time
+   * A failure after the first hop throws MultiHopPartialFillError describing the
+   * intermediate token left in the wallet, so it can be recovered.
+   */
+  private async executeSequentialMultiHopSwap(
+    walletClient: WalletClient,
+    publicClient: PublicClient,
+    quote: EVMSwapQuote,
+    userAddress: Address
+  ): Promise<Address> {
+    const route = quote.route as EVMMultiHopRoute;
+    const steps = route.steps;
+
+    console.log(`🔀 Executing ${steps.length}-hop swap: ${route.path.join(' → ')}`);
+
+    const pathTokens = await this.resolvePathTokens(route);
+    const completedTxHashes: Address[] = [];
 
     let lastTxHash: Address | null = null;
 
@@ -633,51 +804,45 @@ class EVMSwapService {
       console.log(`   Amount Out: ${step.outputAmount.toString()}`);
 
       // Get token addresses for this step
-      const tokenInAddress = tokenAddresses[route.path[i]];
-      const tokenOutAddress = tokenAddresses[route.path[i + 1]];
+      const tokenInAddress = pathTokens[i].address;
+      const tokenOutAddress = pathTokens[i + 1].address;
 
-      if (!tokenInAddress || !tokenOutAddress) {
-        throw new Error(
-          `Cannot find token addresses for ${route.path[i]} or ${route.path[i + 1]}`
-        );
-      }
-
-      // For intermediate steps, we need to approve the pool to spend the intermediate token
-      if (!isFirstStep) {
-        console.log(`   ℹ️  Intermediate step - checking approval for ${step.from}...`);
-        // Import evmApprovalService to handle approvals
-        const { evmApprovalService } = await import('./evmApprovalService');
-
-        // Check if we have enough approval
-        const currentAllowance = await evmApprovalService.checkApproval(
-          publicClient,
-          tokenInAddress,
-          userAddress,
-          step.poolAddress,
-          step.inputAmount
-        );
-
-        if (!currentAllowance) {
-          console.log(`   🔓 Approving ${step.from} for pool ${step.poolAddress}...`);
-          await evmApprovalService.requestApproval(
-            walletClient,
+      // Execute the swap for this step
+      try {
+        // For intermediate steps, we need to approve the pool to spend the intermediate token
+        if (!isFirstStep) {
+          console.log(`   ℹ️  Intermediate step - checking approval for ${step.from}...`);
+          // Import evmApprovalService to handle approvals
+          const { evmApprovalService } = await import('./evmApprovalService');
+
+          // Check if we have enough approval
+          const currentAllowance = await evmApprovalService.checkApproval(
             publicClient,
             tokenInAddress,
+            userAddress,
             step.poolAddress,
-            step.inputAmount,
-            'exact',
-            userAddress
+            step.inputAmount
           );
-          console.log(`   ✅ Approval confirmed`);
+
+          if (!currentAllowance) {
+            console.log(`   🔓 Approving ${step.from} for pool ${step.poolAddress}...`);
+            await evmApprovalService.requestApproval(
+              walletClient,
+              publicClient,
+              tokenInAddress,
+              step.poolAddress,
+              step.inputAmount,
+              'exact',
+              userAddress
+            );
+            console.log(`   ✅ Approval confirmed`);
+          }
         }
-      }
 
-      // Execute the swap for this step
-      try {
         console.log(`   🔄 Executing swap on pool ${step.poolAddress}...`);
 
-        // Calculate max input with slippage for this step (10% buffer)
-        const maxInput = step.inputAmount + (step.inputAmount * 10n / 100n);
+        // Calculate max input with slippage for this step
+        const maxInput = this.getMaxInput(step.inputAmount, quote.slippageTolerance);
 
         const { request } = await publicClient.simulateContract({
           address: step.poolAddress,
@@ -707,12 +872,28 @@ class EVMSwapService {
 
         console.log(`   ✅ Step ${i + 1} completed`);
         lastTxHash = hash;
+        completedTxHashes.push(hash);
 
       } catch (error: any) {
         console.error(`   ❌ Step ${i + 1} failed:`, error);
-        throw new Error(
-          `Multi-hop swap failed at step ${i + 1} (${step.from} → ${step.to}): ${error.message}`
-        );
+        if (isFirstStep) {
+          throw new Error(
+            `Multi-hop swap failed at step ${i + 1} (${step.from} → ${step.to}): ${error.message}`
+          );
+        }
+
+        // Earlier hops went through: the previous hop's exact output is now in the wallet
+        throw new MultiHopPartialFillError({
+          chainId: quote.chainId,
+          userAddress,
+          failedStep: i,
+          completedTxHashes,
+          token: pathTokens[i],
+          amount: steps[i - 1].outputAmount,
+          inputToken: pathTokens[0],
+          outputToken: pathTokens[pathTokens.length - 1],
+          reason: this.toSwapError(error).message,
+        });
       }
     }
 
@@ -724,6 +905,96 @@ class EVMSwapService {
     return lastTxHash;
   }
 
+  /**
+   * Quote the ways out of a stranded swap: back to the input token and on to the
+   * output token. Options that cannot be quoted are left out.
+   */
+  async getRecoveryOptions(
+    client: PublicClient,
+    stranded: StrandedSwap,
+    slippageTolerance: number = 0.5
+  ): Promise<RecoveryOption[]> {
+    const targets: Array<[RecoveryOption['direction'], SwapTokenInfo]> = [
+      ['back', stranded.inputToken],
+      ['onward', stranded.outputToken],
+    ];
+    const options: RecoveryOption[] = [];
+
+    for (const [direction, token] of targets) {
+      try {
+        const quote = await this.getQuote(
+          client,
+          stranded.chainId,
+          stranded.token.address,
+          token.address,
+          stranded.amount,
+          slippageTolerance
+        );
+
+        // Never spend more than what was stranded
+        if (quote.maximalInput > stranded.amount) {
+          quote.maximalInput = stranded.amount;
+        }
+        options.push({ direction, token, quote });
+      } catch (error) {
+        console.warn(`Could not quote ${stranded.token.symbol} → ${token.symbol} for recovery:`, error);
+      }
+    }
+
+    return options;
+  }
+
+  /**
+   * Swap a stranded intermediate token using one of its recovery options
+   */
+  async recoverStrandedSwap(
+    walletClient: WalletClient,
+    publicClient: PublicClient,
+    option: RecoveryOption,
+    userAddress: Address
+  ): Promise<Address> {
+    const { quote } = option;
+
+    // Router swaps approve the router themselves; otherwise the first pool pulls the input
+    if (!(quote.isMultiHop && this.getMultiHopRouter(quote.chainId))) {
+      const { evmApprovalService } = await import('./evmApprovalService');
+      await evmApprovalService.ensureApproval(
+        walletClient,
+        publicClient,
+        quote.inputToken,
+        userAddress,
+        quote.poolAddress,
+        quote.maximalInput,
+        'exact'
+      );
+    }
+
+    return await this.executeSwap(walletClient, publicClient, quote, userAddress);
+  }
+
+  /**
+   * Maximum input for a quoted input: the input plus the slippage tolerance
+   */
+  private getMaxInput(inputAmount: bigint, slippageTolerance: number): bigint {
+    const slippageBps = BigInt(Math.floor(slippageTolerance * 100));
+    return inputAmount + (inputAmount * slippageBps / 10000n);
+  }
+
+  /**
+   * Resolve a route's token symbols to addresses from the deployment info
+   */
+  private async resolvePathTokens(route: EVMMultiHopRoute): Promise<SwapTokenInfo[]> {
+    const deploymentInfo = await sammBackendService.getDeploymentInfo();
+
+    return route.path.map(symbol => {
+      const info = deploymentInfo.tokens[symbol];
+      if (!info) {
+        throw new Error(`Cannot find token address for ${symbol}`);
+      }
+      return { symbol, address: info.address as Address, decimals: info.decimals };
+    });
+  }
+
   /**
    * Estimate gas for a swap using swapSAMM
    */
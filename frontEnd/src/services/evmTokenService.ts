@@ -0,0 +1,103 @@
+/**
+ * EVM Token Service
+ *
+ * Resolves ERC-20 metadata on-chain for tokens added by address and loads
+ * token lists from URLs or uploaded files
+ */
+
+import { Address, Hex, PublicClient, erc20Abi_bytes32, getAddress, hexToString, isAddress } from 'viem';
+import ERC20ABI from '../abis/ERC20.json';
+import { EVMToken } from '../config/evm-tokens';
+import { ParsedTokenList, parseTokenList } from '../utils/tokenLists';
+
+const TOKEN_LIST_TIMEOUT_MS = 10000;
+
+export class EVMTokenService {
+  /**
+   * Read symbol, name and decimals from the token contract. `decimals` is
+   * required; symbol and name fall back to the bytes32 variant some older
+   * tokens use, then to placeholders.
+   */
+  async resolveToken(client: PublicClient, chainId: number, address: string): Promise<EVMToken> {
+    if (!isAddress(address, { strict: false })) {
+      throw new Error('Invalid token address');
+    }
+    const tokenAddress = getAddress(address);
+
+    const code = await client.getCode({ address: tokenAddress });
+    if (!code || code === '0x') {
+      throw new Error('No contract deployed at this address');
+    }
+
+    let decimals: number;
+    try {
+      decimals = Number(await client.readContract({
+        address: tokenAddress,
+        abi: ERC20ABI,
+        functionName: 'decimals',
+      }));
+    } catch {
+      throw new Error('Address is not an ERC-20 token');
+    }
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 255) {
+      throw new Error('Token reports invalid decimals');
+    }
+
+    const [symbol, name] = await Promise.all([
+      this.readString(client, tokenAddress, 'symbol'),
+      this.readString(client, tokenAddress, 'name'),
+    ]);
+    const fallbackSymbol = `TOKEN_${tokenAddress.slice(2, 6).toUpperCase()}`;
+
+    return {
+      address: tokenAddress,
+      symbol: symbol || fallbackSymbol,
+      name: name || symbol || `Custom Token ${tokenAddress.slice(0, 10)}...`,
+      decimals,
+      chainId,
+    };
+  }
+
+  /**
+   * Fetch a token list and keep the entries for `chainId`
+   */
+  async fetchTokenList(url: string, chainId: number): Promise<ParsedTokenList> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), TOKEN_LIST_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(url, {
+        signal: controller.signal,
+        headers: { 'Accept': 'application/json' },
+      });
+      if (!response.ok) {
+        throw new Error(`Token list request failed: ${response.status}`);
+      }
+      return parseTokenList(await response.json(), chainId);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private async readString(
+    client: PublicClient,
+    address: Address,
+    functionName: 'symbol' | 'name'
+  ): Promise<string | null> {
+    try {
+      const value = await client.readContract({ address, abi: ERC20ABI, functionName }) as string;
+      return value.trim() || null;
+    } catch {
+      // Fall through to the bytes32 ABI
+    }
+
+    try {
+      const value = await client.readContract({ address, abi: erc20Abi_bytes32, functionName }) as Hex;
+      return hexToString(value, { size: 32 }).replace(/\u0000/g, '').trim() || null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const evmTokenService = new EVMTokenService();
@@ -0,0 +1,410 @@
+/**
+ * EVM Transaction History Service
+ *
+ * Rebuilds a wallet's DEX history from SAMMPool, router and ERC-20 logs.
+ * Block ranges are scanned in chunks and the scanned range is cached per
+ * chain and address, so refreshes only read new blocks and "load older"
+ * only reads the blocks just below what is already indexed.
+ */
+
+import {
+  Address,
+  Hex,
+  PublicClient,
+  decodeEventLog,
+  encodeEventTopics,
+  hexToBigInt,
+  pad,
+  parseAbi,
+} from 'viem';
+import { getDexConfig } from '../config/dex-config-loader';
+import { getContractAddresses } from '../config/evm-contracts';
+import { Token, Transaction, TransactionStatus, TransactionType } from '../types';
+import { HistoryCache, HistorySnapshot, createHistoryCache } from './evmHistoryCache';
+import { LogScanOptions, RawLog, maxBigInt, scanLogs } from './evmLogScanner';
+
+const HISTORY_EVENTS_ABI = parseAbi([
+  'event SwapSAMM(address indexed user, address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut, uint256 fee)',
+  'event LiquidityAdded(address indexed provider, uint256 amountA, uint256 amountB, uint256 lpTokens)',
+  'event LiquidityRemoved(address indexed provider, uint256 amountA, uint256 amountB, uint256 lpTokens)',
+  'event MultiHopSwap(address indexed sender, address indexed recipient, address indexed tokenIn, address tokenOut, uint256 amountIn, uint256 amountOut, uint256 hops)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+]);
+
+type HistoryEventName = 'SwapSAMM' | 'LiquidityAdded' | 'LiquidityRemoved' | 'MultiHopSwap' | 'Transfer';
+
+const eventTopic = (eventName: HistoryEventName): Hex =>
+  encodeEventTopics({ abi: HISTORY_EVENTS_ABI, eventName })[0] as Hex;
+
+// All of these carry the acting wallet as their first indexed argument
+const USER_EVENT_TOPICS = (['SwapSAMM', 'LiquidityAdded', 'LiquidityRemoved', 'MultiHopSwap', 'Transfer'] as const)
+  .map(eventTopic);
+const TRANSFER_TOPIC = eventTopic('Transfer');
+
+const DEFAULT_LOOKBACK_BLOCKS = BigInt(50000);
+
+interface DecodedLog {
+  eventName: HistoryEventName;
+  args: Record<string, any>;
+  address: Address;
+  blockNumber: bigint;
+  transactionHash: Hex;
+  logIndex: number;
+}
+
+export interface EVMHistoryOptions extends LogScanOptions {
+  // Blocks covered by the first scan and by each "load older" step
+  lookbackBlocks?: bigint;
+}
+
+export interface EVMHistoryResult {
+  transactions: Transaction[];
+  fromBlock: bigint;
+  toBlock: bigint;
+  hasOlder: boolean;
+}
+
+export class EVMTransactionHistoryService {
+  constructor(private cache: HistoryCache = createHistoryCache()) {}
+
+  /**
+   * Index everything since the last scan, or the most recent lookback window
+   * on the first visit
+   */
+  async syncLatest(
+    client: PublicClient,
+    chainId: number,
+    userAddress: Address,
+    options: EVMHistoryOptions = {}
+  ): Promise<EVMHistoryResult> {
+    const lookback = options.lookbackBlocks ?? DEFAULT_LOOKBACK_BLOCKS;
+    const floor = this.getStartBlock(chainId);
+    const head = await client.getBlockNumber();
+    const snapshot = await this.loadSnapshot(chainId, userAddress);
+
+    if (snapshot && snapshot.toBlock >= head) {
+      return this.toResult(snapshot, floor);
+    }
+
+    const fromBlock = snapshot
+      ? snapshot.toBlock + BigInt(1)
+      : maxBigInt(floor, head - lookback + BigInt(1));
+    const scanned = await this.scanRange(client, chainId, userAddress, fromBlock, head, options);
+
+    return this.saveSnapshot(
+      {
+        chainId,
+        address: userAddress,
+        fromBlock: snapshot?.fromBlock ?? fromBlock,
+        toBlock: head,
+        transactions: mergeTransactions(snapshot?.transactions ?? [], scanned),
+        updatedAt: Date.now(),
+      },
+      floor
+    );
+  }
+
+  /**
+   * Extend the indexed range one lookback window further into the past
+   */
+  async loadOlder(
+    client: PublicClient,
+    chainId: number,
+    userAddress: Address,
+    options: EVMHistoryOptions = {}
+  ): Promise<EVMHistoryResult> {
+    const snapshot = await this.loadSnapshot(chainId, userAddress);
+    if (!snapshot) {
+      return this.syncLatest(client, chainId, userAddress, options);
+    }
+
+    const floor = this.getStartBlock(chainId);
+    if (snapshot.fromBlock <= floor) {
+      return this.toResult(snapshot, floor);
+    }
+
+    const lookback = options.lookbackBlocks ?? DEFAULT_LOOKBACK_BLOCKS;
+    const toBlock = snapshot.fromBlock - BigInt(1);
+    const fromBlock = maxBigInt(floor, toBlock - lookback + BigInt(1));
+    const scanned = await this.scanRange(client, chainId, userAddress, fromBlock, toBlock, options);
+
+    return this.saveSnapshot(
+      {
+        ...snapshot,
+        fromBlock,
+        transactions: mergeTransactions(snapshot.transactions, scanned),
+        updatedAt: Date.now(),
+      },
+      floor
+    );
+  }
+
+  /**
+   * Cached history without touching the RPC
+   */
+  async getCachedHistory(chainId: number, userAddress: Address): Promise<EVMHistoryResult | null> {
+    const snapshot = await this.loadSnapshot(chainId, userAddress);
+    return snapshot ? this.toResult(snapshot, this.getStartBlock(chainId)) : null;
+  }
+
+  async clearHistory(chainId: number, userAddress: Address): Promise<void> {
+    await this.cache.clear(chainId, userAddress);
+  }
+
+  private getStartBlock(chainId: number): bigint {
+    return BigInt(getDexConfig(chainId)?.deploymentBlock ?? 0);
+  }
+
+  private toResult(snapshot: HistorySnapshot, floor: bigint): EVMHistoryResult {
+    return {
+      transactions: snapshot.transactions,
+      fromBlock: snapshot.fromBlock,
+      toBlock: snapshot.toBlock,
+      hasOlder: snapshot.fromBlock > floor,
+    };
+  }
+
+  private async loadSnapshot(chainId: number, userAddress: Address): Promise<HistorySnapshot | null> {
+    try {
+      return await this.cache.load(chainId, userAddress);
+    } catch (error) {
+      console.warn('⚠️ Failed to read cached transaction history, rescanning:', error);
+      return null;
+    }
+  }
+
+  private async saveSnapshot(snapshot: HistorySnapshot, floor: bigint): Promise<EVMHistoryResult> {
+    try {
+      await this.cache.save(snapshot);
+    } catch (error) {
+      console.warn('⚠️ Failed to cache transaction history:', error);
+    }
+    return this.toResult(snapshot, floor);
+  }
+
+  /**
+   * Read the user's logs over [fromBlock, toBlock] and turn them into transactions
+   */
+  private async scanRange(
+    client: PublicClient,
+    chainId: number,
+    userAddress: Address,
+    fromBlock: bigint,
+    toBlock: bigint,
+    options: EVMHistoryOptions
+  ): Promise<Transaction[]> {
+    const config = getDexConfig(chainId);
+    if (!config) {
+      throw new Error(`No DEX configuration for chain ${chainId}`);
+    }
+
+    const router = getContractAddresses(chainId)?.router;
+    const tokenAddresses = config.tokens.map(token => token.address as Address);
+    const sourceAddresses = [
+      ...config.pools.map(pool => pool.address as Address),
+      ...tokenAddresses,
+      ...(router ? [router as Address] : []),
+    ];
+    const userTopic = pad(userAddress.toLowerCase() as Hex, { size: 32 });
+
+    // Events where the user is the first indexed argument, then transfers received
+    const logs = await scanLogs(
+      client,
+      [
+        { addresses: sourceAddresses, topics: [USER_EVENT_TOPICS, userTopic] },
+        { addresses: tokenAddresses, topics: [TRANSFER_TOPIC, null, userTopic] },
+      ],
+      fromBlock,
+      toBlock,
+      options
+    );
+
+    return this.buildTransactions(client, chainId, userAddress, decodeLogs(logs));
+  }
+
+  /**
+   * Group logs by transaction and map each group to one history entry
+   */
+  private async buildTransactions(
+    client: PublicClient,
+    chainId: number,
+    userAddress: Address,
+    logs: DecodedLog[]
+  ): Promise<Transaction[]> {
+    const byHash = new Map<Hex, DecodedLog[]>();
+    for (const log of logs) {
+      const group = byHash.get(log.transactionHash) ?? [];
+      if (!group.some(existing => existing.logIndex === log.logIndex)) {
+        group.push(log);
+      }
+      byHash.set(log.transactionHash, group);
+    }
+
+    const blockTimes = new Map<bigint, Promise<number>>();
+    const getBlockTime = (blockNumber: bigint) => {
+      if (!blockTimes.has(blockNumber)) {
+        blockTimes.set(
+          blockNumber,
+          client.getBlock({ blockNumber }).then(block => Number(block.timestamp))
+        );
+      }
+      return blockTimes.get(blockNumber)!;
+    };
+
+    const transactions: Transaction[] = [];
+    for (const [hash, group] of byHash) {
+      group.sort((a, b) => a.logIndex - b.logIndex);
+      const entry = mapLogsToTransaction(chainId, userAddress, group);
+      if (!entry) continue;
+
+      const [receipt, blockTime] = await Promise.all([
+        client.getTransactionReceipt({ hash }),
+        getBlockTime(group[0].blockNumber),
+      ]);
+
+      transactions.push({
+        ...entry,
+        signature: hash,
+        hash,
+        chainId,
+        status: receipt.status === 'success' ? TransactionStatus.CONFIRMED : TransactionStatus.FAILED,
+        timestamp: blockTime * 1000,
+        blockTime,
+        slot: Number(group[0].blockNumber),
+        feePayer: receipt.from,
+        solFee: receipt.gasUsed * receipt.effectiveGasPrice,
+      });
+    }
+
+    return transactions;
+  }
+}
+
+type HistoryEntry = Pick<
+  Transaction,
+  'type' | 'tokenIn' | 'tokenOut' | 'amountIn' | 'amountOut' | 'poolId' | 'shardNumber' | 'lpTokens' | 'logs'
+>;
+
+/**
+ * Pool events describe the transaction better than the token transfers they
+ * cause, so a swap or liquidity change wins over its transfers. Transfers of
+ * tokens outside the DEX config (e.g. LP tokens moved alone) are skipped.
+ */
+function mapLogsToTransaction(chainId: number, userAddress: Address, logs: DecodedLog[]): HistoryEntry | null {
+  const multiHop = logs.find(log => log.eventName === 'MultiHopSwap');
+  if (multiHop) {
+    return {
+      type: TransactionType.SWAP,
+      tokenIn: findToken(chainId, multiHop.args.tokenIn),
+      tokenOut: findToken(chainId, multiHop.args.tokenOut),
+      amountIn: multiHop.args.amountIn,
+      amountOut: multiHop.args.amountOut,
+      poolId: multiHop.address,
+      logs: [`Multi-hop swap through ${multiHop.args.hops} pools`],
+    };
+  }
+
+  const swaps = logs.filter(log => log.eventName === 'SwapSAMM');
+  if (swaps.length > 0) {
+    const [first, last] = [swaps[0], swaps[swaps.length - 1]];
+    return {
+      type: TransactionType.SWAP,
+      tokenIn: findToken(chainId, first.args.tokenIn),
+      tokenOut: findToken(chainId, last.args.tokenOut),
+      amountIn: first.args.amountIn,
+      amountOut: last.args.amountOut,
+      ...poolFields(chainId, first.address),
+    };
+  }
+
+  const liquidity = logs.find(log => log.eventName === 'LiquidityAdded' || log.eventName === 'LiquidityRemoved');
+  if (liquidity) {
+    const pool = findPool(chainId, liquidity.address);
+    return {
+      type: liquidity.eventName === 'LiquidityAdded' ? TransactionType.ADD_LIQUIDITY : TransactionType.REMOVE_LIQUIDITY,
+      tokenIn: pool ? findToken(chainId, pool.tokenA) : undefined,
+      tokenOut: pool ? findToken(chainId, pool.tokenB) : undefined,
+      amountIn: liquidity.args.amountA,
+      amountOut: liquidity.args.amountB,
+      lpTokens: liquidity.args.lpTokens,
+      ...poolFields(chainId, liquidity.address),
+    };
+  }
+
+  const user = userAddress.toLowerCase();
+  const transfer = logs.find(log =>
+    log.eventName === 'Transfer' &&
+    findToken(chainId, log.address) &&
+    (log.args.from.toLowerCase() === user || log.args.to.toLowerCase() === user)
+  );
+  if (transfer) {
+    const token = findToken(chainId, transfer.address);
+    const outgoing = transfer.args.from.toLowerCase() === user;
+    return {
+      type: TransactionType.SPL_TRANSFER,
+      ...(outgoing
+        ? { tokenIn: token, amountIn: transfer.args.value }
+        : { tokenOut: token, amountOut: transfer.args.value }),
+    };
+  }
+
+  return null;
+}
+
+function findPool(chainId: number, address: string) {
+  return getDexConfig(chainId)?.pools.find(pool => pool.address.toLowerCase() === address.toLowerCase());
+}
+
+function poolFields(chainId: number, address: Address): Pick<Transaction, 'poolId' | 'shardNumber'> {
+  return { poolId: address, shardNumber: findPool(chainId, address)?.shardNumber };
+}
+
+function findToken(chainId: number, address: string): Token | undefined {
+  const token = getDexConfig(chainId)?.tokens.find(
+    candidate => candidate.address.toLowerCase() === address.toLowerCase()
+  );
+  if (!token) return undefined;
+  return {
+    mint: token.address,
+    address: token.address,
+    symbol: token.symbol,
+    name: token.name,
+    decimals: token.decimals,
+    chainId,
+  };
+}
+
+function decodeLogs(logs: RawLog[]): DecodedLog[] {
+  const decoded: DecodedLog[] = [];
+  for (const log of logs) {
+    if (!log.blockNumber || !log.transactionHash || !log.logIndex) continue;
+    try {
+      const event = decodeEventLog({
+        abi: HISTORY_EVENTS_ABI,
+        data: log.data,
+        topics: log.topics as [Hex, ...Hex[]],
+      });
+      decoded.push({
+        eventName: event.eventName,
+        args: event.args as Record<string, any>,
+        address: log.address,
+        blockNumber: hexToBigInt(log.blockNumber),
+        transactionHash: log.transactionHash,
+        logIndex: Number(hexToBigInt(log.logIndex)),
+      });
+    } catch {
+      // Same topic, different indexing (e.g. ERC-721 Transfer) - not ours
+    }
+  }
+  return decoded;
+}
+
+function mergeTransactions(existing: Transaction[], incoming: Transaction[]): Transaction[] {
+  const bySignature = new Map(existing.map(tx => [tx.signature, tx]));
+  for (const tx of incoming) {
+    bySignature.set(tx.signature, tx);
+  }
+  return Array.from(bySignature.values()).sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export const evmTransactionHistoryService = new EVMTransactionHistoryService();
@@ -0,0 +1,240 @@
+/**
+ * Liquidity Router Client
+ *
+ * Talks to the backend liquidity router, which analyzes the shards of a pair
+ * and plans where an LP's liquidity earns the most fees.
+ */
+
+const BASE_URL = process.env.NEXT_PUBLIC_LIQUIDITY_ROUTER_URL || 'http://localhost:3002';
+
+export interface RouterToken {
+  address: string;
+  symbol: string;
+  decimals: number;
+  name: string;
+}
+
+export interface RebalanceShardAllocation {
+  poolAddress: string;
+  poolValue: number;
+  dailyFeeYield: number;
+  lpTokens: bigint;
+  currentValue: number;
+  targetValue: number;
+}
+
+export interface RebalanceMove {
+  fromPool: string;
+  toPool: string;
+  lpTokensToWithdraw: bigint;
+  // Amounts follow each shard's own token order
+  withdrawAmount: { tokenA: bigint; tokenB: bigint };
+  depositAmount: { tokenA: bigint; tokenB: bigint };
+  expectedLpTokens: bigint;
+  value: number;
+}
+
+export interface RebalancePlan {
+  chainId: number;
+  quoteCurrency: string;
+  allocations: RebalanceShardAllocation[];
+  moves: RebalanceMove[];
+  currentDailyFees: number;
+  projectedDailyFees: number;
+  dailyFeeUplift: number;
+  migrationCost: {
+    gasUnits: bigint;
+    gasCostNative: bigint;
+    gasCostValue: number | null;
+    remainderValue: number;
+  };
+  breakEvenDays: number | null;
+  recommended: boolean;
+  reasoning: string;
+}
+
+export interface ZapInPlan {
+  chainId: number;
+  pool: string;
+  swapPool: string;
+  tokenIn: string;
+  tokenBought: string;
+  amountIn: bigint;
+  swapAmountIn: bigint;
+  swapAmountOut: bigint;
+  // Pool amounts follow the target shard's token order
+  depositAmount: { tokenA: bigint; tokenB: bigint };
+  expectedLiquidity: bigint;
+  refundAmount: { tokenA: bigint; tokenB: bigint };
+  reasoning: string;
+}
+
+export interface ZapOutPlan {
+  chainId: number;
+  pool: string;
+  swapPool: string;
+  tokenOut: string;
+  tokenSold: string;
+  liquidity: bigint;
+  withdrawAmount: { tokenA: bigint; tokenB: bigint };
+  swapAmountIn: bigint;
+  swapAmountOut: bigint;
+  expectedAmountOut: bigint;
+  unsoldAmount: bigint;
+  reasoning: string;
+}
+
+export type Serialized<T> = {
+  [K in keyof T]: T[K] extends bigint
+    ? string
+    : T[K] extends Array<infer U>
+      ? Array<Serialized<U>>
+      : T[K] extends object | null
+        ? Serialized<T[K]>
+        : T[K];
+};
+
+const toAmount = (amount: { tokenA: string; tokenB: string }) => ({
+  tokenA: BigInt(amount.tokenA),
+  tokenB: BigInt(amount.tokenB),
+});
+
+/**
+ * Restore the bigint fields the API sends as decimal strings
+ */
+export function parseRebalancePlan(plan: Serialized<RebalancePlan>): RebalancePlan {
+  return {
+    ...plan,
+    allocations: plan.allocations.map((allocation) => ({
+      ...allocation,
+      lpTokens: BigInt(allocation.lpTokens),
+    })),
+    moves: plan.moves.map((move) => ({
+      ...move,
+      lpTokensToWithdraw: BigInt(move.lpTokensToWithdraw),
+      withdrawAmount: toAmount(move.withdrawAmount),
+      depositAmount: toAmount(move.depositAmount),
+      expectedLpTokens: BigInt(move.expectedLpTokens),
+    })),
+    migrationCost: {
+      ...plan.migrationCost,
+      gasUnits: BigInt(plan.migrationCost.gasUnits),
+      gasCostNative: BigInt(plan.migrationCost.gasCostNative),
+    },
+  };
+}
+
+export function parseZapInPlan(plan: Serialized<ZapInPlan>): ZapInPlan {
+  return {
+    ...plan,
+    amountIn: BigInt(plan.amountIn),
+    swapAmountIn: BigInt(plan.swapAmountIn),
+    swapAmountOut: BigInt(plan.swapAmountOut),
+    depositAmount: toAmount(plan.depositAmount),
+    expectedLiquidity: BigInt(plan.expectedLiquidity),
+    refundAmount: toAmount(plan.refundAmount),
+  };
+}
+
+export function parseZapOutPlan(plan: Serialized<ZapOutPlan>): ZapOutPlan {
+  return {
+    ...plan,
+    liquidity: BigInt(plan.liquidity),
+    withdrawAmount: toAmount(plan.withdrawAmount),
+    swapAmountIn: BigInt(plan.swapAmountIn),
+    swapAmountOut: BigInt(plan.swapAmountOut),
+    expectedAmountOut: BigInt(plan.expectedAmountOut),
+    unsoldAmount: BigInt(plan.unsoldAmount),
+  };
+}
+
+async function postPlan<T>(path: string, chainId: number, body: unknown, action: string): Promise<T> {
+  const response = await fetch(`${BASE_URL}/api/liquidity-router/${chainId}/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || error.error || `Failed to ${action}: ${response.statusText}`);
+  }
+
+  const { plan } = await response.json();
+  return plan;
+}
+
+export class LiquidityRouterClient {
+  /**
+   * Plan moving LP positions between the shards of a pair
+   *
+   * @param positions - LP token balances per shard of the pair
+   */
+  static async getRebalancePlan(
+    chainId: number,
+    tokenPair: { tokenA: RouterToken; tokenB: RouterToken },
+    positions: Array<{ poolAddress: string; lpTokens: bigint }>
+  ): Promise<RebalancePlan> {
+    try {
+      const plan = await postPlan<Serialized<RebalancePlan>>('rebalance-plan', chainId, {
+        tokenPair,
+        positions: positions.map((position) => ({
+          poolAddress: position.poolAddress,
+          lpTokens: position.lpTokens.toString(),
+        })),
+      }, 'plan rebalance');
+      return parseRebalancePlan(plan);
+    } catch (error) {
+      console.error('Failed to get rebalance plan:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Plan a single-token deposit into the shard the fillup strategy recommends
+   *
+   * @param amountIn - Input amount in token base units
+   */
+  static async getZapInPlan(
+    chainId: number,
+    tokenPair: { tokenA: RouterToken; tokenB: RouterToken },
+    tokenIn: string,
+    amountIn: bigint
+  ): Promise<ZapInPlan> {
+    try {
+      const plan = await postPlan<Serialized<ZapInPlan>>('zap-in-plan', chainId, {
+        tokenPair,
+        tokenIn,
+        amountIn: amountIn.toString(),
+      }, 'plan zap-in');
+      return parseZapInPlan(plan);
+    } catch (error) {
+      console.error('Failed to get zap-in plan:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Plan withdrawing LP tokens of a shard into a single token
+   */
+  static async getZapOutPlan(
+    chainId: number,
+    tokenPair: { tokenA: RouterToken; tokenB: RouterToken },
+    poolAddress: string,
+    liquidity: bigint,
+    tokenOut: string
+  ): Promise<ZapOutPlan> {
+    try {
+      const plan = await postPlan<Serialized<ZapOutPlan>>('zap-out-plan', chainId, {
+        tokenPair,
+        poolAddress,
+        liquidity: liquidity.toString(),
+        tokenOut,
+      }, 'plan zap-out');
+      return parseZapOutPlan(plan);
+    } catch (error) {
+      console.error('Failed to get zap-out plan:', error);
+      throw error;
+    }
+  }
+}
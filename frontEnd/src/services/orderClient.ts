@@ -0,0 +1,186 @@
+/**
+ * Order Client
+ *
+ * Talks to the router API's order book. Users sign limit and TWAP orders
+ * off-chain; the backend keeper settles them through SAMMOrderSettlement when
+ * a shard offers the signed price.
+ */
+
+import type { Serialized } from './liquidityRouterClient';
+
+const BASE_URL = process.env.NEXT_PUBLIC_ORDER_API_URL || 'http://localhost:3001';
+
+// Field order must match ORDER_TYPEHASH in SAMMOrderSettlement.sol
+export const ORDER_TYPES = {
+  Order: [
+    { name: 'maker', type: 'address' },
+    { name: 'tokenIn', type: 'address' },
+    { name: 'tokenOut', type: 'address' },
+    { name: 'amountOut', type: 'uint256' },
+    { name: 'maxAmountIn', type: 'uint256' },
+    { name: 'slices', type: 'uint256' },
+    { name: 'interval', type: 'uint256' },
+    { name: 'startTime', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+} as const;
+
+export type OrderStatus = 'open' | 'partially_filled' | 'filled' | 'cancelled' | 'expired' | 'failed';
+
+export const OPEN_ORDER_STATUSES: OrderStatus[] = ['open', 'partially_filled'];
+
+/**
+ * Buys exactly `amountOut` of `tokenOut` for at most `maxAmountIn` of `tokenIn`,
+ * in `slices` parts `interval` seconds apart. Times are unix seconds.
+ */
+export interface SignedOrder {
+  maker: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountOut: bigint;
+  maxAmountIn: bigint;
+  slices: number;
+  interval: number;
+  startTime: number;
+  expiry: number;
+  nonce: bigint;
+}
+
+export interface OrderFill {
+  slice: number;
+  poolAddress: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface OrderRecord {
+  orderHash: string;
+  chainId: number;
+  type: 'limit' | 'twap';
+  order: SignedOrder;
+  status: OrderStatus;
+  filledSlices: number;
+  filledAmountIn: bigint;
+  filledAmountOut: bigint;
+  fills: OrderFill[];
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * EIP-712 domain of a settlement contract
+ */
+export function getOrderDomain(chainId: number, settlementAddress: string) {
+  return {
+    name: 'SAMMOrderSettlement',
+    version: '1',
+    chainId,
+    verifyingContract: settlementAddress as `0x${string}`,
+  };
+}
+
+/**
+ * Message the maker signs to cancel an order
+ */
+export function getCancelMessage(orderHash: string): string {
+  return `Cancel SAMM order ${orderHash.toLowerCase()}`;
+}
+
+/**
+ * Restore the bigint fields the API sends as decimal strings
+ */
+export function parseOrderRecord(record: Serialized<OrderRecord>): OrderRecord {
+  return {
+    ...record,
+    order: {
+      ...record.order,
+      amountOut: BigInt(record.order.amountOut),
+      maxAmountIn: BigInt(record.order.maxAmountIn),
+      nonce: BigInt(record.order.nonce),
+    },
+    filledAmountIn: BigInt(record.filledAmountIn),
+    filledAmountOut: BigInt(record.filledAmountOut),
+    fills: record.fills.map((fill) => ({
+      ...fill,
+      amountIn: BigInt(fill.amountIn),
+      amountOut: BigInt(fill.amountOut),
+    })),
+  };
+}
+
+async function request<T>(path: string, init: RequestInit | undefined, action: string): Promise<T> {
+  const response = await fetch(`${BASE_URL}/api/v1/orders${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || error.error || `Failed to ${action}: ${response.statusText}`);
+  }
+
+  const { data } = await response.json();
+  return data;
+}
+
+export class OrderClient {
+  /**
+   * Submit an order signed with ORDER_TYPES
+   */
+  static async submitOrder(order: SignedOrder, signature: string): Promise<OrderRecord> {
+    try {
+      const record = await request<Serialized<OrderRecord>>('', {
+        method: 'POST',
+        body: JSON.stringify({
+          order: {
+            ...order,
+            amountOut: order.amountOut.toString(),
+            maxAmountIn: order.maxAmountIn.toString(),
+            nonce: order.nonce.toString(),
+          },
+          signature,
+        }),
+      }, 'submit order');
+      return parseOrderRecord(record);
+    } catch (error) {
+      console.error('Failed to submit order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Orders of a maker, most recent first
+   */
+  static async getOrders(maker: string, status?: OrderStatus[]): Promise<OrderRecord[]> {
+    try {
+      const query = new URLSearchParams({ maker });
+      if (status) query.set('status', status.join(','));
+
+      const { orders } = await request<{ orders: Serialized<OrderRecord>[] }>(`?${query}`, undefined, 'load orders');
+      return orders.map(parseOrderRecord);
+    } catch (error) {
+      console.error('Failed to load orders:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel an order with the maker's signature of `getCancelMessage(orderHash)`
+   */
+  static async cancelOrder(orderHash: string, signature: string): Promise<OrderRecord> {
+    try {
+      const record = await request<Serialized<OrderRecord>>(`/${orderHash}/cancel`, {
+        method: 'POST',
+        body: JSON.stringify({ signature }),
+      }, 'cancel order');
+      return parseOrderRecord(record);
+    } catch (error) {
+      console.error('Failed to cancel order:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Pool Analytics Service
+ *
+ * Indexes every SAMMPool event of a shard, not just the connected wallet's,
+ * and rebuilds the shard's reserve history from it. Feeds the pool analytics
+ * tab and the portfolio backfill. Scanned ranges are cached per pool the same
+ * way the wallet history is, so revisits only read new blocks.
+ */
+
+import { Address, Hex, PublicClient, decodeEventLog, encodeEventTopics, hexToBigInt, parseAbi } from 'viem';
+import { getDexConfig } from '../config/dex-config-loader';
+import { PoolEvent, ReservePoint, reconstructReserveHistory } from '../utils/poolAnalytics';
+import { HistoryCache, IndexedRange, createHistoryCache } from './evmHistoryCache';
+import { LogScanOptions, RawLog, maxBigInt, scanLogs } from './evmLogScanner';
+import { evmLiquidityService } from './evmLiquidityService';
+
+const POOL_EVENTS_ABI = parseAbi([
+  'event PoolInitialized(address indexed tokenA, address indexed tokenB, uint256 amountA, uint256 amountB, uint256 lpTokens)',
+  'event SwapSAMM(address indexed user, address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut, uint256 fee)',
+  'event LiquidityAdded(address indexed provider, uint256 amountA, uint256 amountB, uint256 lpTokens)',
+  'event LiquidityRemoved(address indexed provider, uint256 amountA, uint256 amountB, uint256 lpTokens)',
+]);
+
+const POOL_EVENT_TOPICS = (['PoolInitialized', 'SwapSAMM', 'LiquidityAdded', 'LiquidityRemoved'] as const)
+  .map(eventName => encodeEventTopics({ abi: POOL_EVENTS_ABI, eventName })[0] as Hex);
+
+const DEFAULT_LOOKBACK_BLOCKS = BigInt(50000);
+// Lookback windows to walk back while the index is younger than `since`
+const MAX_BACKFILL_STEPS = 20;
+
+export interface PoolEventSnapshot extends IndexedRange {
+  events: PoolEvent[];
+  // Timestamp of fromBlock in milliseconds
+  fromTimestamp: number;
+}
+
+export interface PoolHistoryOptions extends LogScanOptions {
+  // Blocks covered by the first scan and by each backfill step
+  lookbackBlocks?: bigint;
+  // Extend the index into the past until it covers this time (ms)
+  since?: number;
+}
+
+export interface PoolHistory {
+  poolAddress: Address;
+  tokenA: Address;
+  tokenB: Address;
+  // Chain order
+  events: PoolEvent[];
+  // State before the first event, then after each event
+  points: ReservePoint[];
+  fromBlock: bigint;
+  toBlock: bigint;
+  fromTimestamp: number;
+  hasOlder: boolean;
+}
+
+export class PoolAnalyticsService {
+  constructor(
+    private cache: HistoryCache<PoolEventSnapshot> = createHistoryCache<PoolEventSnapshot>('pool-events')
+  ) {}
+
+  /**
+   * Index new blocks (and older ones down to `since`) and rebuild the reserve
+   * history from the pool's state at the indexed head
+   */
+  async getPoolHistory(
+    client: PublicClient,
+    chainId: number,
+    poolAddress: Address,
+    options: PoolHistoryOptions = {}
+  ): Promise<PoolHistory> {
+    const floor = BigInt(getDexConfig(chainId)?.deploymentBlock ?? 0);
+    const lookback = options.lookbackBlocks ?? DEFAULT_LOOKBACK_BLOCKS;
+    const head = await client.getBlockNumber();
+    let snapshot = await this.loadSnapshot(chainId, poolAddress);
+    let changed = false;
+
+    if (!snapshot || snapshot.toBlock < head) {
+      const fromBlock = snapshot
+        ? snapshot.toBlock + BigInt(1)
+        : maxBigInt(floor, head - lookback + BigInt(1));
+      const events = await this.scanEvents(client, poolAddress, fromBlock, head, options);
+
+      snapshot = {
+        chainId,
+        address: poolAddress,
+        fromBlock: snapshot?.fromBlock ?? fromBlock,
+        toBlock: head,
+        fromTimestamp: snapshot?.fromTimestamp ?? await getBlockTime(client, fromBlock),
+        events: mergeEvents(snapshot?.events ?? [], events),
+        updatedAt: Date.now(),
+      };
+      changed = true;
+    }
+
+    for (
+      let step = 0;
+      options.since !== undefined && snapshot.fromTimestamp > options.since && snapshot.fromBlock > floor && step < MAX_BACKFILL_STEPS;
+      step++
+    ) {
+      const toBlock = snapshot.fromBlock - BigInt(1);
+      const fromBlock = maxBigInt(floor, toBlock - lookback + BigInt(1));
+      const events = await this.scanEvents(client, poolAddress, fromBlock, toBlock, options);
+
+      snapshot = {
+        ...snapshot,
+        fromBlock,
+        fromTimestamp: await getBlockTime(client, fromBlock),
+        events: mergeEvents(snapshot.events, events),
+        updatedAt: Date.now(),
+      };
+      changed = true;
+    }
+
+    if (changed) {
+      await this.saveSnapshot(snapshot);
+    }
+
+    const [state, headTime] = await Promise.all([
+      evmLiquidityService.getPoolState(client, poolAddress, snapshot.toBlock),
+      getBlockTime(client, snapshot.toBlock),
+    ]);
+    const points = reconstructReserveHistory(
+      snapshot.events,
+      state.tokenA,
+      {
+        timestamp: headTime,
+        blockNumber: Number(snapshot.toBlock),
+        reserveA: state.reserveA,
+        reserveB: state.reserveB,
+        totalSupply: state.totalSupply,
+      },
+      snapshot.fromTimestamp
+    );
+
+    return {
+      poolAddress,
+      tokenA: state.tokenA,
+      tokenB: state.tokenB,
+      events: snapshot.events,
+      points,
+      fromBlock: snapshot.fromBlock,
+      toBlock: snapshot.toBlock,
+      fromTimestamp: snapshot.fromTimestamp,
+      hasOlder: snapshot.fromBlock > floor,
+    };
+  }
+
+  async clearPoolHistory(chainId: number, poolAddress: Address): Promise<void> {
+    await this.cache.clear(chainId, poolAddress);
+  }
+
+  private async loadSnapshot(chainId: number, poolAddress: Address): Promise<PoolEventSnapshot | null> {
+    try {
+      return await this.cache.load(chainId, poolAddress);
+    } catch (error) {
+      console.warn('⚠️ Failed to read cached pool events, rescanning:', error);
+      return null;
+    }
+  }
+
+  private async saveSnapshot(snapshot: PoolEventSnapshot): Promise<void> {
+    try {
+      await this.cache.save(snapshot);
+    } catch (error) {
+      console.warn('⚠️ Failed to cache pool events:', error);
+    }
+  }
+
+  private async scanEvents(
+    client: PublicClient,
+    poolAddress: Address,
+    fromBlock: bigint,
+    toBlock: bigint,
+    options: LogScanOptions
+  ): Promise<PoolEvent[]> {
+    const logs = await scanLogs(
+      client,
+      [{ addresses: [poolAddress], topics: [POOL_EVENT_TOPICS] }],
+      fromBlock,
+      toBlock,
+      options
+    );
+
+    const blockTimes = new Map<bigint, Promise<number>>();
+    const events: PoolEvent[] = [];
+    for (const log of logs) {
+      if (!log.blockNumber || !log.transactionHash || !log.logIndex) continue;
+
+      const blockNumber = hexToBigInt(log.blockNumber);
+      if (!blockTimes.has(blockNumber)) {
+        blockTimes.set(blockNumber, getBlockTime(client, blockNumber));
+      }
+      const event = decodePoolLog(log, await blockTimes.get(blockNumber)!);
+      if (event) events.push(event);
+    }
+    return events;
+  }
+}
+
+function decodePoolLog(log: RawLog, timestamp: number): PoolEvent | null {
+  let decoded;
+  try {
+    decoded = decodeEventLog({ abi: POOL_EVENTS_ABI, data: log.data, topics: log.topics as [Hex, ...Hex[]] });
+  } catch {
+    return null;
+  }
+
+  const base = {
+    blockNumber: Number(hexToBigInt(log.blockNumber!)),
+    logIndex: Number(hexToBigInt(log.logIndex!)),
+    transactionHash: log.transactionHash!,
+    timestamp,
+  };
+
+  switch (decoded.eventName) {
+    case 'SwapSAMM':
+      return {
+        ...base,
+        kind: 'swap',
+        trader: decoded.args.user,
+        tokenIn: decoded.args.tokenIn,
+        tokenOut: decoded.args.tokenOut,
+        amountIn: decoded.args.amountIn,
+        amountOut: decoded.args.amountOut,
+        fee: decoded.args.fee,
+      };
+    case 'PoolInitialized':
+      return {
+        ...base,
+        kind: 'add',
+        amountA: decoded.args.amountA,
+        amountB: decoded.args.amountB,
+        lpTokens: decoded.args.lpTokens,
+      };
+    default:
+      return {
+        ...base,
+        kind: decoded.eventName === 'LiquidityAdded' ? 'add' : 'remove',
+        provider: decoded.args.provider,
+        amountA: decoded.args.amountA,
+        amountB: decoded.args.amountB,
+        lpTokens: decoded.args.lpTokens,
+      };
+  }
+}
+
+function mergeEvents(existing: PoolEvent[], incoming: PoolEvent[]): PoolEvent[] {
+  const byId = new Map<string, PoolEvent>();
+  for (const event of [...existing, ...incoming]) {
+    byId.set(`${event.transactionHash}:${event.logIndex}`, event);
+  }
+  return Array.from(byId.values()).sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
+
+async function getBlockTime(client: PublicClient, blockNumber: bigint): Promise<number> {
+  const block = await client.getBlock({ blockNumber });
+  return Number(block.timestamp) * 1000;
+}
+
+export const poolAnalyticsService = new PoolAnalyticsService();
@@ -0,0 +1,299 @@
+/**
+ * Pool Updates Client
+ *
+ * WebSocket client for the backend's shard and quote push channel.
+ * Reconnects with exponential backoff and resubscribes everything that was
+ * open, so callers subscribe once and keep receiving updates.
+ */
+
+export interface ShardUpdateToken {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface ShardUpdate {
+  id: string;
+  poolAddress: string;
+  tokenA: ShardUpdateToken;
+  tokenB: ShardUpdateToken;
+  reserveA: string;
+  reserveB: string;
+  lastUpdated?: number;
+}
+
+export interface SwapIntent {
+  tokenA: ShardUpdateToken; // paid in
+  tokenB: ShardUpdateToken; // received
+  outputAmount: string;
+  maxInputAmount?: string;
+  slippageTolerance?: number;
+  allowSplit?: boolean;
+}
+
+export interface LiveQuote {
+  routing: {
+    poolAddress: string;
+    expectedAmountIn: string;
+    estimatedFee: string;
+    priceImpact: number;
+  } | null;
+  splitRouting?: {
+    totalAmountIn: string;
+    totalFee: string;
+    priceImpact: number;
+    slices: Array<{ poolAddress: string; amountOut: string; expectedAmountIn: string; estimatedFee: string }>;
+  } | null;
+  error?: string;
+  timestamp: number;
+}
+
+export interface PoolUpdatesClientOptions {
+  reconnectBaseDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  WebSocketImpl?: typeof WebSocket;
+}
+
+type ServerMessage =
+  | { type: 'subscribed' | 'unsubscribed'; id: string }
+  | { type: 'shard-updated'; id: string; chainId: number; shard: ShardUpdate; timestamp: number }
+  | { type: 'quote'; id: string; chainId: number; result: Omit<LiveQuote, 'timestamp'>; timestamp: number }
+  | { type: 'error'; id?: string; error: string }
+  | { type: 'pong'; timestamp: number };
+
+interface Subscription {
+  request: Record<string, unknown>;
+  onMessage: (message: ServerMessage) => void;
+  onError?: (error: string) => void;
+}
+
+export class PoolUpdatesClient {
+  private socket: WebSocket | null = null;
+  private subscriptions = new Map<string, Subscription>();
+  private connectionListeners = new Set<(connected: boolean) => void>();
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private nextId = 0;
+  private readonly reconnectBaseDelayMs: number;
+  private readonly maxReconnectDelayMs: number;
+  private readonly WebSocketImpl?: typeof WebSocket;
+
+  constructor(private url: string, options: PoolUpdatesClientOptions = {}) {
+    this.reconnectBaseDelayMs = options.reconnectBaseDelayMs ?? 1000;
+    this.maxReconnectDelayMs = options.maxReconnectDelayMs ?? 30000;
+    this.WebSocketImpl = options.WebSocketImpl;
+  }
+
+  /**
+   * Stream updates of the shards of a token pair
+   * @returns Function that ends the subscription
+   */
+  subscribeShards(
+    chainId: number,
+    tokenA: string,
+    tokenB: string,
+    onUpdate: (shard: ShardUpdate) => void
+  ): () => void {
+    return this.subscribe(
+      { channel: 'shards', chainId, tokenA, tokenB },
+      message => {
+        if (message.type === 'shard-updated') onUpdate(message.shard);
+      }
+    );
+  }
+
+  /**
+   * Stream quotes for a swap intent, re-quoted whenever a shard of its pair changes
+   * @returns Function that ends the subscription
+   */
+  subscribeQuote(
+    chainId: number,
+    intent: SwapIntent,
+    onQuote: (quote: LiveQuote) => void,
+    onError?: (error: string) => void
+  ): () => void {
+    return this.subscribe(
+      { channel: 'quote', chainId, intent },
+      message => {
+        if (message.type === 'quote') onQuote({ ...message.result, timestamp: message.timestamp });
+      },
+      onError
+    );
+  }
+
+  /**
+   * Whether updates are currently being pushed
+   */
+  isConnected(): boolean {
+    return this.socket !== null && this.socket.readyState === 1; // WebSocket.OPEN
+  }
+
+  /**
+   * Listen to connection state changes
+   * @returns Function that removes the listener
+   */
+  onConnectionChange(listener: (connected: boolean) => void): () => void {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
+  private subscribe(
+    request: Record<string, unknown>,
+    onMessage: (message: ServerMessage) => void,
+    onError?: (error: string) => void
+  ): () => void {
+    const id = `sub-${++this.nextId}`;
+    this.subscriptions.set(id, { request, onMessage, onError });
+
+    if (this.isConnected()) {
+      this.sendSubscribe(id);
+    } else {
+      this.connect();
+    }
+
+    return () => {
+      if (!this.subscriptions.delete(id)) return;
+
+      if (this.isConnected()) {
+        this.send({ type: 'unsubscribe', id });
+      }
+      if (this.subscriptions.size === 0) {
+        this.disconnect();
+      }
+    };
+  }
+
+  private connect(): void {
+    if (this.socket || this.reconnectTimer) return;
+
+    const WebSocketImpl = this.WebSocketImpl ?? (typeof WebSocket !== 'undefined' ? WebSocket : undefined);
+    if (!WebSocketImpl) return;
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocketImpl(this.url);
+    } catch (error) {
+      console.error('[PoolUpdatesClient] Failed to open WebSocket:', error);
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      for (const id of this.subscriptions.keys()) {
+        this.sendSubscribe(id);
+      }
+      this.notifyConnectionChange(true);
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      this.handleMessage(event.data);
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+
+      this.socket = null;
+      this.notifyConnectionChange(false);
+      if (this.subscriptions.size > 0) {
+        this.scheduleReconnect();
+      }
+    };
+
+    // Errors are followed by a close event, which handles reconnection
+    socket.onerror = () => {
+      console.warn('[PoolUpdatesClient] WebSocket error');
+    };
+  }
+
+  private disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempts = 0;
+
+    const socket = this.socket;
+    if (socket) {
+      this.socket = null;
+      socket.close();
+      this.notifyConnectionChange(false);
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) return;
+
+    const delay = Math.min(this.reconnectBaseDelayMs * 2 ** this.reconnectAttempts, this.maxReconnectDelayMs);
+    this.reconnectAttempts++;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.subscriptions.size > 0) {
+        this.connect();
+      }
+    }, delay);
+  }
+
+  private handleMessage(data: unknown): void {
+    let message: ServerMessage;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      console.warn('[PoolUpdatesClient] Ignoring malformed message');
+      return;
+    }
+
+    if (message.type === 'pong' || !('id' in message) || !message.id) {
+      if (message.type === 'error') console.warn('[PoolUpdatesClient] Server error:', message.error);
+      return;
+    }
+
+    const subscription = this.subscriptions.get(message.id);
+    if (!subscription) return;
+
+    if (message.type === 'error') {
+      subscription.onError?.(message.error);
+      return;
+    }
+    subscription.onMessage(message);
+  }
+
+  private sendSubscribe(id: string): void {
+    const subscription = this.subscriptions.get(id);
+    if (subscription) {
+      this.send({ type: 'subscribe', id, ...subscription.request });
+    }
+  }
+
+  private send(message: Record<string, unknown>): void {
+    this.socket?.send(JSON.stringify(message));
+  }
+
+  private notifyConnectionChange(connected: boolean): void {
+    this.connectionListeners.forEach(listener => listener(connected));
+  }
+}
+
+/**
+ * Push channel URL, derived from the router API URL unless set explicitly
+ */
+export function getPoolUpdatesUrl(): string {
+  if (process.env.NEXT_PUBLIC_SAMM_WS_URL) {
+    return process.env.NEXT_PUBLIC_SAMM_WS_URL;
+  }
+
+  const apiUrl = process.env.NEXT_PUBLIC_SAMM_ROUTER_API_URL || 'https://saigreen.cloud:3000';
+  let url = `${apiUrl.replace(/^http/, 'ws').replace(/\/+$/, '')}/ws`;
+
+  // Insecure sockets are blocked on HTTPS pages
+  if (typeof window !== 'undefined' && window.location.protocol === 'https:') {
+    url = url.replace(/^ws:/, 'wss:');
+  }
+  return url;
+}
+
+export const poolUpdatesClient = new PoolUpdatesClient(getPoolUpdatesUrl());
@@ -0,0 +1,195 @@
+/**
+ * Portfolio History Service
+ *
+ * Values a wallet's DEX tokens and LP positions, either live at the chain
+ * head or in the past. Past values are rebuilt by undoing the wallet's
+ * indexed transactions from its current balances and pricing them against
+ * pool reserves reconstructed from indexed pool events.
+ */
+
+import { Address, PublicClient, erc20Abi } from 'viem';
+import { getDexConfig } from '../config/dex-config-loader';
+import { Transaction } from '../types';
+import { stateAt } from '../utils/poolAnalytics';
+import {
+  BalancePoint,
+  PortfolioPool,
+  PortfolioSnapshot,
+  PortfolioToken,
+  reconstructBalanceHistory,
+  valuePortfolio,
+} from '../utils/portfolioValuation';
+import { evmLiquidityService } from './evmLiquidityService';
+import { evmTransactionHistoryService } from './evmTransactionHistoryService';
+import { poolAnalyticsService } from './poolAnalyticsService';
+import { staticPriceOracle } from './priceOracleService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Lookback windows of wallet history to walk back while it is younger than `since`
+const MAX_HISTORY_BACKFILL = 20;
+
+interface PortfolioContext {
+  tokens: PortfolioToken[];
+  pools: Array<Omit<PortfolioPool, 'reserveA' | 'reserveB' | 'totalSupply'>>;
+  referencePrices: Record<string, number>;
+}
+
+export interface BackfillResult {
+  snapshots: PortfolioSnapshot[];
+  // Oldest time the rebuilt values cover
+  coveredFrom: number;
+  transactions: Transaction[];
+}
+
+export class PortfolioHistoryService {
+  /**
+   * Value the wallet at the chain head
+   */
+  async takeSnapshot(client: PublicClient, chainId: number, owner: Address): Promise<PortfolioSnapshot> {
+    const context = await this.getContext(chainId);
+    const blockNumber = await client.getBlockNumber();
+    const [balances, pools, block] = await Promise.all([
+      this.readBalances(client, context, owner, blockNumber),
+      Promise.all(context.pools.map(async (pool) => {
+        const state = await evmLiquidityService.getPoolState(client, pool.address as Address, blockNumber);
+        return { ...pool, reserveA: state.reserveA, reserveB: state.reserveB, totalSupply: state.totalSupply };
+      })),
+      client.getBlock({ blockNumber }),
+    ]);
+
+    return valuePortfolio({
+      timestamp: Number(block.timestamp) * 1000,
+      blockNumber: Number(blockNumber),
+      source: 'live',
+      tokens: context.tokens,
+      pools,
+      balances,
+      referencePrices: context.referencePrices,
+    });
+  }
+
+  /**
+   * Rebuild past values back to `since`, or as far as the wallet history
+   * reaches: one point after each transaction plus one per day in between
+   */
+  async backfill(client: PublicClient, chainId: number, owner: Address, since: number): Promise<BackfillResult> {
+    const context = await this.getContext(chainId);
+    const blockNumber = await client.getBlockNumber();
+    const balances = await this.readBalances(client, context, owner, blockNumber);
+
+    let history = await evmTransactionHistoryService.syncLatest(client, chainId, owner);
+    let coveredFrom = await getBlockTime(client, history.fromBlock);
+    for (let i = 0; i < MAX_HISTORY_BACKFILL && history.hasOlder && coveredFrom > since; i++) {
+      history = await evmTransactionHistoryService.loadOlder(client, chainId, owner);
+      coveredFrom = await getBlockTime(client, history.fromBlock);
+    }
+    coveredFrom = Math.max(coveredFrom, since);
+
+    const poolHistories = await Promise.all(
+      context.pools.map(async (pool) => ({
+        pool,
+        history: await poolAnalyticsService.getPoolHistory(client, chainId, pool.address as Address, { since: coveredFrom }),
+      }))
+    );
+
+    const balancePoints = reconstructBalanceHistory(balances, history.transactions, coveredFrom);
+    const now = await getBlockTime(client, blockNumber);
+
+    const snapshots = sampleTimes(balancePoints, coveredFrom, now).map((timestamp) =>
+      valuePortfolio({
+        timestamp,
+        source: 'backfill',
+        tokens: context.tokens,
+        pools: poolHistories.map(({ pool, history: poolHistory }) => {
+          const state = stateAt(poolHistory.points, timestamp);
+          return { ...pool, reserveA: state.reserveA, reserveB: state.reserveB, totalSupply: state.totalSupply };
+        }),
+        balances: balancesAt(balancePoints, timestamp),
+        referencePrices: context.referencePrices,
+      })
+    );
+
+    return { snapshots, coveredFrom, transactions: history.transactions };
+  }
+
+  private async getContext(chainId: number): Promise<PortfolioContext> {
+    const config = getDexConfig(chainId);
+    if (!config) {
+      throw new Error(`No DEX configuration for chain ${chainId}`);
+    }
+
+    const tokens = config.tokens.map((token) => ({
+      address: token.address.toLowerCase(),
+      symbol: token.symbol,
+      decimals: token.decimals,
+    }));
+
+    const referencePrices: Record<string, number> = {};
+    await Promise.all(tokens.map(async (token) => {
+      const price = await staticPriceOracle.getPrice({ ...token, chainId });
+      if (price) referencePrices[token.address] = price.price;
+    }));
+
+    return {
+      tokens,
+      pools: config.pools.map((pool) => ({
+        address: pool.address.toLowerCase(),
+        symbol: `${pool.pairName} #${pool.shardNumber}`,
+        tokenA: pool.tokenA.toLowerCase(),
+        tokenB: pool.tokenB.toLowerCase(),
+      })),
+      referencePrices,
+    };
+  }
+
+  /**
+   * Token and LP balances by lowercase address; LP tokens are ERC-20 as well
+   */
+  private async readBalances(
+    client: PublicClient,
+    context: PortfolioContext,
+    owner: Address,
+    blockNumber: bigint
+  ): Promise<Record<string, bigint>> {
+    const addresses = [...context.tokens, ...context.pools].map((entry) => entry.address);
+    const amounts = await Promise.all(
+      addresses.map((address) =>
+        client.readContract({
+          address: address as Address,
+          abi: erc20Abi,
+          functionName: 'balanceOf',
+          args: [owner],
+          blockNumber,
+        })
+      )
+    );
+    return Object.fromEntries(addresses.map((address, i) => [address, amounts[i]]));
+  }
+}
+
+function balancesAt(points: BalancePoint[], timestamp: number): Record<string, bigint> {
+  let result = points[0].balances;
+  for (const point of points) {
+    if (point.timestamp > timestamp) break;
+    result = point.balances;
+  }
+  return result;
+}
+
+function sampleTimes(points: BalancePoint[], from: number, to: number): number[] {
+  const times = new Set<number>([from]);
+  for (let time = from + DAY_MS; time < to; time += DAY_MS) {
+    times.add(time);
+  }
+  for (const point of points.slice(1)) {
+    if (point.timestamp >= from && point.timestamp <= to) times.add(point.timestamp);
+  }
+  return Array.from(times).sort((a, b) => a - b);
+}
+
+async function getBlockTime(client: PublicClient, blockNumber: bigint): Promise<number> {
+  const block = await client.getBlock({ blockNumber });
+  return Number(block.timestamp) * 1000;
+}
+
+export const portfolioHistoryService = new PortfolioHistoryService();
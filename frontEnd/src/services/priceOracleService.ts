@@ -0,0 +1,241 @@
+/**
+ * Price Oracle Service
+ *
+ * Prices tokens in a common quote currency for portfolio and position valuation.
+ * Tokens are priced from a TWAP of their deepest shards against a token of the
+ * static price table, falling back to the table itself.
+ */
+
+import { formatUnits } from 'viem';
+import { usePoolStore, Pool } from '@/stores/poolStore';
+import priceTableConfig from '@/config/price-table.json';
+
+const DEFAULT_TWAP_WINDOW_MS = 30 * 60 * 1000;
+const DEFAULT_OBSERVATION_INTERVAL_MS = 60 * 1000;
+const DEFAULT_MAX_SHARDS = 3;
+
+export interface PriceableToken {
+  address: string;
+  decimals: number;
+  symbol?: string;
+  chainId?: number;
+}
+
+export interface TokenPrice {
+  price: number; // quote currency per whole token
+  quoteCurrency: string;
+  source: string;
+  timestamp: number;
+}
+
+export interface PriceOracle {
+  readonly quoteCurrency: string;
+  getPrice(token: PriceableToken): Promise<TokenPrice | null>;
+}
+
+export interface StaticPriceTable {
+  quoteCurrency: string;
+  prices: Record<string, Record<string, number>>; // chainId -> address -> price
+  symbols?: Record<string, number>;
+}
+
+interface PriceObservation {
+  timestamp: number;
+  ratio: number;
+}
+
+/**
+ * Value of a raw token amount at a given price
+ */
+export function amountToQuote(amount: bigint, decimals: number, price: number): number {
+  return Number(formatUnits(amount, decimals)) * price;
+}
+
+/**
+ * Prices from a fixed table, by chain and address or by symbol
+ */
+export class StaticPriceOracle implements PriceOracle {
+  readonly quoteCurrency: string;
+  private table: StaticPriceTable;
+
+  constructor(table: StaticPriceTable) {
+    this.quoteCurrency = table.quoteCurrency;
+    this.table = table;
+  }
+
+  async getPrice(token: PriceableToken): Promise<TokenPrice | null> {
+    const byAddress = token.chainId !== undefined
+      ? Object.entries(this.table.prices[String(token.chainId)] || {})
+          .find(([address]) => address.toLowerCase() === token.address.toLowerCase())?.[1]
+      : undefined;
+    const price = byAddress ?? (token.symbol ? this.table.symbols?.[token.symbol.toUpperCase()] : undefined);
+
+    if (price === undefined) return null;
+
+    return { price, quoteCurrency: this.quoteCurrency, source: 'static', timestamp: Date.now() };
+  }
+}
+
+/**
+ * Pool-implied TWAP over the deepest shards in the pool store
+ * The counter token of the shards must be priced by the reference oracle.
+ */
+export class PoolTwapPriceOracle implements PriceOracle {
+  private observations = new Map<string, PriceObservation[]>();
+
+  constructor(
+    private referenceOracle: PriceOracle,
+    private getPools: () => Pool[] = () => usePoolStore.getState().pools,
+    private twapWindowMs: number = DEFAULT_TWAP_WINDOW_MS,
+    private observationIntervalMs: number = DEFAULT_OBSERVATION_INTERVAL_MS,
+    private maxShards: number = DEFAULT_MAX_SHARDS
+  ) {}
+
+  get quoteCurrency(): string {
+    return this.referenceOracle.quoteCurrency;
+  }
+
+  async getPrice(token: PriceableToken): Promise<TokenPrice | null> {
+    const address = token.address.toLowerCase();
+
+    // Tokens with a reference price are left to the reference oracle
+    if (await this.referenceOracle.getPrice(token)) {
+      return null;
+    }
+
+    // Group the token's shards by counter token
+    const pairs = new Map<string, { symbol: string; chainId: number; sides: Array<{ token: number; reference: number }> }>();
+    for (const pool of this.getPools()) {
+      if (token.chainId !== undefined && pool.chainId !== token.chainId) continue;
+
+      const tokenIsA = pool.tokenA.toLowerCase() === address;
+      if (!tokenIsA && pool.tokenB.toLowerCase() !== address) continue;
+
+      const referenceAddress = (tokenIsA ? pool.tokenB : pool.tokenA).toLowerCase();
+      const side = {
+        token: parseFloat(tokenIsA ? pool.liquidityA : pool.liquidityB),
+        reference: parseFloat(tokenIsA ? pool.liquidityB : pool.liquidityA),
+      };
+      if (!(side.token > 0 && side.reference > 0)) continue;
+
+      const pair = pairs.get(referenceAddress) || {
+        symbol: tokenIsA ? pool.tokenBSymbol : pool.tokenASymbol,
+        chainId: pool.chainId,
+        sides: [],
+      };
+      pair.sides.push(side);
+      pairs.set(referenceAddress, pair);
+    }
+
+    // Use the priced counter token with the deepest shards
+    let best: { key: string; ratio: number; price: number; depth: number } | null = null;
+    for (const [referenceAddress, pair] of pairs.entries()) {
+      // Pool store liquidity is already in whole tokens
+      const referencePrice = await this.referenceOracle.getPrice({
+        address: referenceAddress,
+        decimals: 0,
+        symbol: pair.symbol,
+        chainId: pair.chainId,
+      });
+      if (!referencePrice) continue;
+
+      const deepest = pair.sides.sort((a, b) => b.reference - a.reference).slice(0, this.maxShards);
+      const referenceTotal = deepest.reduce((sum, side) => sum + side.reference, 0);
+      const tokenTotal = deepest.reduce((sum, side) => sum + side.token, 0);
+      const depth = referenceTotal * referencePrice.price;
+
+      if (!best || depth > best.depth) {
+        best = {
+          key: `${pair.chainId}:${address}:${referenceAddress}`,
+          ratio: referenceTotal / tokenTotal,
+          price: referencePrice.price,
+          depth,
+        };
+      }
+    }
+    if (!best) return null;
+
+    const now = Date.now();
+    const twapRatio = this.recordObservation(best.key, best.ratio, now);
+
+    return {
+      price: twapRatio * best.price,
+      quoteCurrency: this.quoteCurrency,
+      source: 'pool-twap',
+      timestamp: now,
+    };
+  }
+
+  /**
+   * Record a ratio (at most once per observation interval) and return the TWAP
+   */
+  private recordObservation(key: string, ratio: number, now: number): number {
+    const windowStart = now - this.twapWindowMs;
+    let observations = this.observations.get(key) || [];
+
+    const latest = observations[observations.length - 1];
+    if (!latest || now - latest.timestamp >= this.observationIntervalMs) {
+      observations.push({ timestamp: now, ratio });
+    }
+
+    // Keep the observation in force at the start of the window
+    const firstInWindow = observations.findIndex(observation => observation.timestamp >= windowStart);
+    if (firstInWindow > 1) {
+      observations = observations.slice(firstInWindow - 1);
+    }
+    this.observations.set(key, observations);
+
+    let weightedSum = 0;
+    let totalTime = 0;
+    observations.forEach((observation, i) => {
+      const start = Math.max(observation.timestamp, windowStart);
+      const end = i + 1 < observations.length ? observations[i + 1].timestamp : now;
+      if (end > start) {
+        weightedSum += observation.ratio * (end - start);
+        totalTime += end - start;
+      }
+    });
+
+    return totalTime > 0 ? weightedSum / totalTime : observations[observations.length - 1].ratio;
+  }
+}
+
+/**
+ * First price returned by a list of oracles
+ */
+export class CompositePriceOracle implements PriceOracle {
+  readonly quoteCurrency: string;
+
+  constructor(private oracles: PriceOracle[]) {
+    if (oracles.length === 0) {
+      throw new Error('CompositePriceOracle needs at least one oracle');
+    }
+    this.quoteCurrency = oracles[0].quoteCurrency;
+    if (oracles.some(oracle => oracle.quoteCurrency !== this.quoteCurrency)) {
+      throw new Error('Price oracles must share a quote currency');
+    }
+  }
+
+  async getPrice(token: PriceableToken): Promise<TokenPrice | null> {
+    for (const oracle of this.oracles) {
+      try {
+        const price = await oracle.getPrice(token);
+        if (price) return price;
+      } catch (error) {
+        console.warn(`Price oracle failed for ${token.symbol || token.address}:`, error);
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Reference prices alone, for valuations that derive pool prices themselves
+ * (e.g. historical snapshots, where today's pool ratios do not apply)
+ */
+export const staticPriceOracle = new StaticPriceOracle(priceTableConfig as StaticPriceTable);
+
+export const priceOracle: PriceOracle = new CompositePriceOracle([
+  new PoolTwapPriceOracle(staticPriceOracle),
+  staticPriceOracle,
+]);
@@ -101,6 +101,73 @@ export interface SmallestShardsResponse {
   error?: string;
 }
 
+/**
+ * Request payload for the swap simulation endpoint
+ */
+export interface SwapSimulationRequest {
+  /** Swap path as returned by the cross-pool router's path discovery */
+  path: Record<string, unknown>;
+  /** Address the swap is simulated from */
+  userAddress: string;
+  /** Recipient of the output (defaults to userAddress) */
+  recipient?: string;
+  /** Maximum slippage as decimal (e.g., 0.005 for 0.5%) */
+  maxSlippage?: number;
+  /** Block to simulate against: number, hex or named tag (defaults to 'latest') */
+  blockTag?: number | string;
+}
+
+/**
+ * Simulated execution of one hop (amounts in base units)
+ */
+export interface HopSimulationTrace {
+  hopIndex: number;
+  poolAddress: string;
+  tokenIn: string;
+  tokenOut: string;
+  /** Input amount quoted when the path was discovered */
+  expectedAmountIn: string;
+  /** Input amount the pool requires at the simulated block */
+  actualAmountIn: string;
+  actualAmountOut: string;
+  actualFee: string;
+  maxAmountIn: string;
+  success: boolean;
+  revertReason?: string;
+}
+
+/**
+ * Simulated execution of a whole swap (amounts in base units)
+ */
+export interface SwapSimulationTrace {
+  /** Whether the swap would succeed if sent now */
+  success: boolean;
+  /** Block the simulation ran against */
+  blockNumber: number;
+  hops: HopSimulationTrace[];
+  finalAmountIn: string;
+  finalAmountOut: string;
+  totalFees: string;
+  /** Gas the transaction would use (0 if it reverts) */
+  gasUsed: string;
+  /** Decoded reason of the first revert */
+  revertReason?: string;
+}
+
+/**
+ * Response from the swap simulation endpoint
+ */
+export interface SwapSimulationResponse {
+  /** Whether the simulation ran (a reverting swap still simulates successfully) */
+  success: boolean;
+  /** Simulation trace (present when success is true) */
+  data?: SwapSimulationTrace;
+  /** Error code (present when success is false) */
+  error?: string;
+  /** Error details (present when success is false) */
+  message?: string;
+}
+
 /**
  * Service for interacting with the SAMM Router backend API
  */
@@ -433,6 +500,95 @@ export class SammRouterService {
     }
   }
 
+  /**
+   * Simulate a swap against a block before it is sent
+   *
+   * Runs the swap's calldata through eth_call so reverts surface before the
+   * user pays gas. The trace holds per-hop amounts, gas used and the decoded
+   * revert reason.
+   *
+   * @param request - Simulation request parameters
+   * @returns Promise resolving to simulation response
+   * @throws Error if request fails or times out
+   */
+  async simulateSwap(request: SwapSimulationRequest): Promise<SwapSimulationResponse> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const startTime = performance.now();
+
+    try {
+      const url = `${this.baseUrl}/api/v1/swaps/simulate`;
+
+      console.log('[SammRouterService] Swap Simulation Request:', {
+        timestamp: new Date().toISOString(),
+        url,
+        userAddress: request.userAddress,
+        blockTag: request.blockTag ?? 'latest'
+      });
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+      const responseTime = performance.now() - startTime;
+
+      // The router answers request errors with a JSON body describing them
+      let data: SwapSimulationResponse;
+      try {
+        data = await response.json();
+      } catch (parseError) {
+        throw new Error(
+          response.ok
+            ? `Failed to parse response as JSON: ${parseError instanceof Error ? parseError.message : String(parseError)}`
+            : `HTTP ${response.status}: ${response.statusText}`
+        );
+      }
+
+      if (typeof data.success !== 'boolean') {
+        throw new Error('Invalid response: missing or invalid "success" field');
+      }
+
+      if (data.success && !data.data) {
+        throw new Error('Invalid response: success is true but data is missing');
+      }
+
+      console.log('[SammRouterService] Swap Simulation Response:', {
+        timestamp: new Date().toISOString(),
+        success: data.success,
+        responseTime: `${responseTime.toFixed(2)}ms`,
+        wouldSucceed: data.data?.success,
+        blockNumber: data.data?.blockNumber,
+        gasUsed: data.data?.gasUsed,
+        revertReason: data.data?.revertReason ?? data.message
+      });
+
+      return data;
+
+    } catch (error) {
+      clearTimeout(timeoutId);
+
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`Request timed out after ${this.timeout}ms`);
+      }
+
+      if (error instanceof TypeError && error.message.includes('fetch')) {
+        throw new Error(`Network error: Unable to connect to ${this.baseUrl}. ${error.message}`);
+      }
+
+      console.error('[SammRouterService] Swap simulation failed:', {
+        timestamp: new Date().toISOString(),
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
   /**
    * Check if the backend API is available and healthy
    * @returns Promise resolving to true if healthy, false otherwise
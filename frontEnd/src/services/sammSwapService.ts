@@ -4,6 +4,7 @@ import { getDexConfig } from '../config/dex-config-loader';
 import PoolABI from '../abis/Pool.json';
 import ERC20ABI from '../abis/ERC20.json';
 import { MONAD_TESTNET } from '../config/evm-networks';
+import type { SwapMode } from '../types';
 
 // Monad chain configuration for viem
 const monadChain = {
@@ -51,6 +52,7 @@ export interface ShardInfo {
   ownerFee: bigint;
   isOptimal: boolean;
   reason?: string;                // e.g., "Lowest input required"
+  estimatedOutput?: bigint;       // Output bought by the input (exact-input quotes only)
 }
 
 /**
@@ -61,6 +63,47 @@ export interface ShardSelectionResult {
   alternatives: ShardInfo[];
 }
 
+/**
+ * Quote result for exact-input swaps
+ *
+ * Compatible with SAMMSwapQuote so it can be executed through the same
+ * swapSAMM path: `outputAmount` is the largest output the input buys and
+ * `maximalInput` is capped at the amount the user chose to spend.
+ */
+export interface SAMMExactInputQuote extends SAMMSwapQuote {
+  mode: Extract<SwapMode, 'exactInput'>;
+  inputAmount: bigint;            // Exact amount user wants to spend
+  minimumOutput: bigint;          // Output guard with slippage protection
+  slippageTolerance: number;      // Percentage used for minimumOutput
+}
+
+/**
+ * On-chain parameters needed to reproduce calculateSwapSAMM locally
+ */
+export interface ShardSwapParams {
+  beta1: bigint;
+  rmin: bigint;
+  rmax: bigint;
+  c: bigint;
+  ownerFeeNumerator: bigint;
+  ownerFeeDenominator: bigint;
+  inputDecimals: number;
+  outputDecimals: number;
+}
+
+/**
+ * Swap calculation result (mirrors the contract's SwapResult struct)
+ */
+interface SwapCalculation {
+  amountIn: bigint;
+  amountOut: bigint;
+  tradeFee: bigint;
+  ownerFee: bigint;
+}
+
+// Scale used by the contract for SAMM parameters and ratios
+const SAMM_SCALE = 1000000n;
+
 /**
  * Result of a SAMM swap execution
  */
@@ -74,7 +117,8 @@ export interface SAMMSwapResult {
 
 /**
  * Service for handling SAMM (Sharded Automated Market Maker) swaps
- * SAMM is an output-based AMM where users specify exact output amounts
+ * SAMM is an output-based AMM where users specify exact output amounts;
+ * exact-input quotes search for the output a given input buys
  */
 export class SAMMSwapService {
   /**
@@ -238,6 +282,354 @@ export class SAMMSwapService {
     return result;
   }
 
+  /**
+   * Get quote for exact input amount
+   *
+   * Searches every shard for the largest output the given input buys
+   * (respecting the c-threshold) and picks the shard with the highest output.
+   *
+   * @param client - Public client for reading blockchain data
+   * @param chainId - Chain ID (must be Monad testnet: 10143)
+   * @param inputTokenAddress - Address of token to pay with
+   * @param outputTokenAddress - Address of token to receive
+   * @param inputAmount - Exact amount user wants to spend
+   * @param slippageTolerance - Slippage tolerance percentage (default 0.5%)
+   * @returns Quote with estimated output, minimum output and shard selection
+   */
+  async getQuoteForInput(
+    client: PublicClient,
+    chainId: number,
+    inputTokenAddress: Address,
+    outputTokenAddress: Address,
+    inputAmount: bigint,
+    slippageTolerance: number = 0.5
+  ): Promise<SAMMExactInputQuote> {
+    // Validation: Chain must be Monad testnet (10143)
+    if (chainId !== 10143) {
+      throw new Error('SAMM swaps are only available on Monad testnet (Chain ID: 10143)');
+    }
+
+    // Validation: Input amount must be greater than zero
+    if (inputAmount <= 0n) {
+      throw new Error('Input amount must be greater than zero');
+    }
+
+    // Validation: Token addresses must be valid
+    if (!inputTokenAddress || !outputTokenAddress) {
+      throw new Error('Invalid token addresses');
+    }
+
+    // Validation: Tokens must be different
+    if (inputTokenAddress.toLowerCase() === outputTokenAddress.toLowerCase()) {
+      throw new Error('Input and output tokens must be different');
+    }
+
+    // Discover available shards for this token pair
+    const availableShards = await this.discoverShards(
+      client,
+      chainId,
+      inputTokenAddress,
+      outputTokenAddress
+    );
+
+    // Select the shard that buys the most output for the input
+    const shardSelection = await this.selectOptimalShardForInput(
+      client,
+      chainId,
+      availableShards,
+      inputAmount,
+      inputTokenAddress,
+      outputTokenAddress
+    );
+
+    const selectedShard = shardSelection.optimal;
+    const outputAmount = selectedShard.estimatedOutput as bigint;
+    const minimumOutput = this.calculateMinimumOutput(outputAmount, slippageTolerance);
+
+    // Calculate price impact
+    const priceImpact = this.calculateBasicPriceImpact(
+      selectedShard.estimatedInput,
+      outputAmount,
+      selectedShard.reserveA,
+      selectedShard.reserveB
+    );
+
+    // Create timestamp and expiry
+    const now = Date.now();
+    const expiresAt = now + 30000; // 30 seconds expiry
+
+    return {
+      mode: 'exactInput',
+      inputToken: inputTokenAddress,
+      outputToken: outputTokenAddress,
+      inputAmount,
+      outputAmount,
+      minimumOutput,
+      estimatedInput: selectedShard.estimatedInput,
+      maximalInput: inputAmount, // Never spend more than the user entered
+      tradeFee: selectedShard.tradeFee,
+      ownerFee: selectedShard.ownerFee,
+      priceImpact,
+      selectedShard,
+      alternativeShards: shardSelection.alternatives,
+      slippageTolerance,
+      chainId,
+      timestamp: now,
+      expiresAt,
+    };
+  }
+
+  /**
+   * Execute SAMM swap with exact input
+   *
+   * The pool only exposes exact-output swaps, so the output is re-quoted
+   * against the selected shard's current state right before execution.
+   * The swap reverts on-chain if it would need more than `inputAmount`, and
+   * is rejected here if the fresh output falls below `minimumOutput`.
+   *
+   * @param walletClient - Wallet client for signing transactions
+   * @param publicClient - Public client for reading blockchain data
+   * @param quote - Quote from getQuoteForInput
+   * @param userAddress - User's wallet address
+   * @returns Swap result with actual amounts
+   */
+  async executeSwapSAMMExactInput(
+    walletClient: WalletClient,
+    publicClient: PublicClient,
+    quote: SAMMExactInputQuote,
+    userAddress: Address
+  ): Promise<SAMMSwapResult> {
+    // Step 1: Validate quote (expiration, integrity and output guard)
+    this.validateQuote(quote);
+
+    if (quote.minimumOutput <= 0n) {
+      throw new Error('Invalid quote: minimum output must be greater than zero');
+    }
+
+    if (quote.inputAmount !== quote.maximalInput) {
+      throw new Error('Invalid quote: maximal input must equal the exact input amount');
+    }
+
+    // Step 2: Validate user has sufficient balance
+    const userBalance = await this.checkUserBalance(
+      publicClient,
+      quote.inputToken,
+      userAddress
+    );
+
+    if (userBalance < quote.inputAmount) {
+      throw new Error(
+        `Insufficient balance. You need ${quote.inputAmount} but only have ${userBalance}`
+      );
+    }
+
+    // Step 3: Check and handle token approvals
+    await this.ensureTokenApproval(
+      walletClient,
+      publicClient,
+      quote.inputToken,
+      quote.selectedShard.address,
+      quote.inputAmount,
+      userAddress
+    );
+
+    // Step 4: Re-quote against current shard state and enforce the output guard
+    const freshQuote = await this.quoteShardForInput(
+      publicClient,
+      quote.chainId,
+      quote.selectedShard.address,
+      quote.inputAmount,
+      quote.inputToken,
+      quote.outputToken
+    );
+
+    if (!freshQuote || freshQuote.amountOut < quote.minimumOutput) {
+      throw new Error(
+        'Price moved unfavorably. Output would fall below your minimum received.'
+      );
+    }
+
+    const executableQuote: SAMMExactInputQuote = {
+      ...quote,
+      outputAmount: freshQuote.amountOut,
+      estimatedInput: freshQuote.amountIn,
+      tradeFee: freshQuote.tradeFee,
+      ownerFee: freshQuote.ownerFee,
+    };
+
+    // Step 5: Simulate transaction
+    await this.simulateSwapSAMM(publicClient, executableQuote, userAddress);
+
+    // Step 6: Execute swapSAMM transaction
+    const hash = await this.executeSwapTransaction(
+      walletClient,
+      executableQuote,
+      userAddress
+    );
+
+    // Step 7: Wait for confirmation and parse results
+    return this.waitForSwapConfirmation(publicClient, hash, executableQuote);
+  }
+
+  /**
+   * Reproduce the pool's calculateSwapSAMM locally
+   *
+   * Mirrors SAMMPool._calculateSwapSAMM: amounts are normalized to 18
+   * decimals, the trade fee follows
+   * tf = (RB/RA) × OA × max{rmin, β1×(OA/RA) + rmax}, the owner fee is a flat
+   * fraction of OA (minimum 1) and the base input uses the constant product
+   * curve with ceiling division.
+   *
+   * @param amountOut - Desired output amount (output token decimals)
+   * @param inputReserve - Pool's input token reserve
+   * @param outputReserve - Pool's output token reserve
+   * @param params - SAMM parameters, owner fee and token decimals
+   * @returns Swap calculation in each token's native decimals
+   */
+  calculateSwapSAMMLocal(
+    amountOut: bigint,
+    inputReserve: bigint,
+    outputReserve: bigint,
+    params: ShardSwapParams
+  ): SwapCalculation {
+    if (amountOut <= 0n) {
+      throw new Error('Output amount must be greater than zero');
+    }
+
+    if (inputReserve <= 0n || amountOut >= outputReserve) {
+      throw new Error('Insufficient liquidity for this output amount');
+    }
+
+    const amountOutNorm = this.normalizeAmount(amountOut, params.outputDecimals);
+    const inputReserveNorm = this.normalizeAmount(inputReserve, params.inputDecimals);
+    const outputReserveNorm = this.normalizeAmount(outputReserve, params.outputDecimals);
+
+    // Trade fee (SAMM research paper formula)
+    const oaRaRatio = (amountOutNorm * SAMM_SCALE) / inputReserveNorm;
+    const feeRate = (params.beta1 * oaRaRatio) / SAMM_SCALE + params.rmax;
+    const finalFeeRate = feeRate <= params.rmin ? params.rmin : feeRate;
+    const tradeFeeNorm =
+      (outputReserveNorm * amountOutNorm * finalFeeRate) / (inputReserveNorm * SAMM_SCALE);
+
+    // Owner fee (traditional percentage, minimum of 1 when enabled)
+    let ownerFeeNorm = 0n;
+    if (params.ownerFeeNumerator > 0n && params.ownerFeeDenominator > 0n) {
+      ownerFeeNorm = (amountOutNorm * params.ownerFeeNumerator) / params.ownerFeeDenominator;
+      if (ownerFeeNorm === 0n) {
+        ownerFeeNorm = 1n;
+      }
+    }
+
+    // Base input from the constant product curve (ceiling division)
+    const invariant = inputReserveNorm * outputReserveNorm;
+    const newOutputReserve = outputReserveNorm - amountOutNorm;
+    let newInputReserve = invariant / newOutputReserve;
+    if (newInputReserve * newOutputReserve !== invariant) {
+      newInputReserve += 1n;
+    }
+    const baseInputNorm = newInputReserve - inputReserveNorm;
+
+    return {
+      amountIn: this.denormalizeAmount(
+        baseInputNorm + tradeFeeNorm + ownerFeeNorm,
+        params.inputDecimals
+      ),
+      amountOut,
+      tradeFee: this.denormalizeAmount(tradeFeeNorm, params.inputDecimals),
+      ownerFee: this.denormalizeAmount(ownerFeeNorm, params.inputDecimals),
+    };
+  }
+
+  /**
+   * Find the largest output a given input buys from a shard
+   *
+   * Binary searches the output amount between 1 and the shard's output
+   * reserve. A candidate is feasible when it passes the c-threshold and its
+   * required input (fees included) does not exceed `inputAmount`.
+   *
+   * @param inputAmount - Exact amount user wants to spend
+   * @param inputReserve - Pool's input token reserve
+   * @param outputReserve - Pool's output token reserve
+   * @param params - SAMM parameters, owner fee and token decimals
+   * @returns Swap calculation for the best output, or null if nothing is affordable
+   */
+  findMaxOutputForInput(
+    inputAmount: bigint,
+    inputReserve: bigint,
+    outputReserve: bigint,
+    params: ShardSwapParams
+  ): SwapCalculation | null {
+    if (inputAmount <= 0n || inputReserve <= 0n || outputReserve <= 1n) {
+      return null;
+    }
+
+    const inputReserveNorm = this.normalizeAmount(inputReserve, params.inputDecimals);
+
+    const evaluate = (amountOut: bigint): SwapCalculation | null => {
+      const withinThreshold = this.validateCThreshold(
+        this.normalizeAmount(amountOut, params.outputDecimals),
+        inputReserveNorm,
+        params.c
+      );
+      if (!withinThreshold) {
+        return null;
+      }
+
+      const result = this.calculateSwapSAMMLocal(amountOut, inputReserve, outputReserve, params);
+      return result.amountIn <= inputAmount ? result : null;
+    };
+
+    let best = evaluate(1n);
+    if (!best) {
+      return null;
+    }
+
+    let low = 1n;
+    let high = outputReserve - 1n;
+
+    while (low < high) {
+      const mid = (low + high + 1n) / 2n;
+      const result = evaluate(mid);
+
+      if (result) {
+        best = result;
+        low = mid;
+      } else {
+        high = mid - 1n;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Calculate minimum output amount with slippage protection
+   *
+   * For exact-input swaps the user is protected by a floor on what they
+   * receive: minimumOutput = estimatedOutput × (1 - slippageTolerance / 100)
+   *
+   * @param estimatedOutput - Estimated output amount from quote
+   * @param slippageTolerance - Slippage tolerance percentage (e.g., 0.5 for 0.5%)
+   * @returns Minimum output amount with slippage protection
+   */
+  calculateMinimumOutput(
+    estimatedOutput: bigint,
+    slippageTolerance: number = 0.5
+  ): bigint {
+    if (estimatedOutput <= 0n) {
+      throw new Error('Estimated output must be greater than zero');
+    }
+
+    if (slippageTolerance < 0 || slippageTolerance >= 100) {
+      throw new Error('Slippage tolerance must be between 0 and 100');
+    }
+
+    // Same 10000 base as calculateMaximalInput (2 decimal places precision)
+    const slippageMultiplier = BigInt(Math.round((1 - slippageTolerance / 100) * 10000));
+
+    return (estimatedOutput * slippageMultiplier) / 10000n;
+  }
+
   /**
    * Select optimal shard from multiple options
    * 
@@ -667,6 +1059,248 @@ export class SAMMSwapService {
     };
   }
 
+  /**
+   * Normalize amount to 18 decimals (mirrors SAMMPool._normalize)
+   */
+  private normalizeAmount(amount: bigint, decimals: number): bigint {
+    if (decimals === 18) {
+      return amount;
+    }
+    return decimals < 18
+      ? amount * 10n ** BigInt(18 - decimals)
+      : amount / 10n ** BigInt(decimals - 18);
+  }
+
+  /**
+   * Denormalize amount from 18 decimals (mirrors SAMMPool._denormalize)
+   */
+  private denormalizeAmount(amount: bigint, decimals: number): bigint {
+    if (decimals === 18) {
+      return amount;
+    }
+    return decimals < 18
+      ? amount / 10n ** BigInt(18 - decimals)
+      : amount * 10n ** BigInt(decimals - 18);
+  }
+
+  /**
+   * Read a shard's reserves and swap parameters oriented for a trade direction
+   *
+   * @param client - Public client for reading blockchain data
+   * @param chainId - Chain ID (used to resolve token decimals)
+   * @param poolAddress - Address of the pool/shard
+   * @param inputToken - Input token address
+   * @param outputToken - Output token address
+   * @returns Oriented reserves and parameters, or null if the reads fail
+   */
+  private async fetchShardSwapParams(
+    client: PublicClient,
+    chainId: number,
+    poolAddress: Address,
+    inputToken: Address,
+    outputToken: Address
+  ): Promise<{
+    inputReserve: bigint;
+    outputReserve: bigint;
+    params: ShardSwapParams;
+  } | null> {
+    const config = getDexConfig(chainId);
+    const inputTokenInfo = config?.tokens.find(
+      (t) => t.address.toLowerCase() === inputToken.toLowerCase()
+    );
+    const outputTokenInfo = config?.tokens.find(
+      (t) => t.address.toLowerCase() === outputToken.toLowerCase()
+    );
+
+    if (!inputTokenInfo || !outputTokenInfo) {
+      return null;
+    }
+
+    try {
+      const [state, sammParams] = await Promise.all([
+        client.readContract({
+          address: poolAddress,
+          abi: PoolABI,
+          functionName: 'getPoolState',
+        }) as Promise<any>,
+        client.readContract({
+          address: poolAddress,
+          abi: PoolABI,
+          functionName: 'getSAMMParams',
+        }) as Promise<any>,
+      ]);
+
+      const tokenA = (state.tokenA || state[0]) as string;
+      const reserveA = BigInt(state.reserveA ?? state[2]);
+      const reserveB = BigInt(state.reserveB ?? state[3]);
+      const isTokenAInput = tokenA.toLowerCase() === inputToken.toLowerCase();
+
+      return {
+        inputReserve: isTokenAInput ? reserveA : reserveB,
+        outputReserve: isTokenAInput ? reserveB : reserveA,
+        params: {
+          beta1: BigInt(sammParams[0]),
+          rmin: BigInt(sammParams[1]),
+          rmax: BigInt(sammParams[2]),
+          c: BigInt(sammParams[3]),
+          ownerFeeNumerator: BigInt(state.ownerFeeNumerator ?? state[7]),
+          ownerFeeDenominator: BigInt(state.ownerFeeDenominator ?? state[8]),
+          inputDecimals: inputTokenInfo.decimals,
+          outputDecimals: outputTokenInfo.decimals,
+        },
+      };
+    } catch (error: any) {
+      // Log error but don't throw - we want to try other shards
+      console.warn(`Failed to read swap parameters for pool ${poolAddress}:`, error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Quote the largest output a shard gives for an exact input
+   *
+   * The search runs locally against the shard's current parameters and the
+   * result is confirmed with the contract's calculateSwapSAMM, so a local
+   * rounding mismatch can never produce a quote that reverts on-chain.
+   *
+   * @param client - Public client for reading blockchain data
+   * @param chainId - Chain ID
+   * @param poolAddress - Address of the pool/shard
+   * @param inputAmount - Exact amount user wants to spend
+   * @param inputToken - Input token address
+   * @param outputToken - Output token address
+   * @returns Confirmed swap result, or null if the shard cannot fill the input
+   */
+  private async quoteShardForInput(
+    client: PublicClient,
+    chainId: number,
+    poolAddress: Address,
+    inputAmount: bigint,
+    inputToken: Address,
+    outputToken: Address
+  ): Promise<SwapCalculation | null> {
+    const shardState = await this.fetchShardSwapParams(
+      client,
+      chainId,
+      poolAddress,
+      inputToken,
+      outputToken
+    );
+
+    if (!shardState) {
+      return null;
+    }
+
+    const localResult = this.findMaxOutputForInput(
+      inputAmount,
+      shardState.inputReserve,
+      shardState.outputReserve,
+      shardState.params
+    );
+
+    if (!localResult) {
+      return null;
+    }
+
+    const onChainResult = await this.queryShardSwapSAMM(
+      client,
+      poolAddress,
+      localResult.amountOut,
+      inputToken,
+      outputToken
+    );
+
+    if (!onChainResult || onChainResult.amountIn > inputAmount) {
+      return null;
+    }
+
+    return onChainResult;
+  }
+
+  /**
+   * Select the shard that gives the most output for an exact input
+   *
+   * @param client - Public client for reading blockchain data
+   * @param chainId - Chain ID
+   * @param shards - Array of available pools/shards (with reserves)
+   * @param inputAmount - Exact amount user wants to spend
+   * @param inputToken - Input token address
+   * @param outputToken - Output token address
+   * @returns Object with optimal shard and sorted alternatives
+   * @throws Error if no shard can fill the input within the c-threshold
+   */
+  private async selectOptimalShardForInput(
+    client: PublicClient,
+    chainId: number,
+    shards: any[],
+    inputAmount: bigint,
+    inputToken: Address,
+    outputToken: Address
+  ): Promise<ShardSelectionResult> {
+    const results = await Promise.all(
+      shards.map(async (pool) => {
+        const swapResult = await this.quoteShardForInput(
+          client,
+          chainId,
+          pool.address as Address,
+          inputAmount,
+          inputToken,
+          outputToken
+        );
+        return swapResult ? { pool, swapResult } : null;
+      })
+    );
+
+    const shardQuotes = results.filter(
+      (result): result is { pool: any; swapResult: SwapCalculation } => result !== null
+    );
+
+    if (shardQuotes.length === 0) {
+      throw new Error(
+        'No shard can fill this input amount. It may be too small or exceed the c-threshold.'
+      );
+    }
+
+    // Highest output wins; ties go to the shard that spends less input
+    shardQuotes.sort((a, b) => {
+      if (a.swapResult.amountOut !== b.swapResult.amountOut) {
+        return a.swapResult.amountOut > b.swapResult.amountOut ? -1 : 1;
+      }
+      if (a.swapResult.amountIn === b.swapResult.amountIn) return 0;
+      return a.swapResult.amountIn < b.swapResult.amountIn ? -1 : 1;
+    });
+
+    const highestOutput = shardQuotes[0].swapResult.amountOut;
+
+    const allShardInfo: ShardInfo[] = shardQuotes.map((quote, index) => {
+      const isOptimal = index === 0;
+      const shardInfo = this.formatShardInfo(
+        quote.pool,
+        quote.swapResult,
+        isOptimal,
+        inputToken,
+        outputToken
+      );
+
+      shardInfo.estimatedOutput = quote.swapResult.amountOut;
+
+      if (isOptimal) {
+        shardInfo.reason = 'Highest output for input';
+      } else {
+        const outputDiff = highestOutput - quote.swapResult.amountOut;
+        const percentDiff = Number((outputDiff * 10000n) / highestOutput) / 100;
+        shardInfo.reason = `Lower output (-${percentDiff.toFixed(2)}%)`;
+      }
+
+      return shardInfo;
+    });
+
+    return {
+      optimal: allShardInfo[0],
+      alternatives: allShardInfo.slice(1),
+    };
+  }
+
   /**
    * Calculate basic price impact (will be enhanced in task 4)
    * 
@@ -822,7 +1456,7 @@ export class SAMMSwapService {
    * @param chainId - Chain ID (must be Monad: 10143)
    * @param inputToken - Input token address
    * @param outputToken - Output token address
-   * @param outputAmount - Desired output amount (for liquidity validation)
+   * @param outputAmount - Desired output amount (for liquidity validation, 0 to skip)
    * @returns Array of available pool configurations
    */
   private async discoverShards(
@@ -830,7 +1464,7 @@ export class SAMMSwapService {
     chainId: number,
     inputToken: Address,
     outputToken: Address,
-    outputAmount: bigint
+    outputAmount: bigint = 0n
   ): Promise<any[]> {
     // Get DEX config for the chain
     const config = getDexConfig(chainId);
@@ -1291,3 +1925,5 @@ export class SAMMSwapService {
     }
   }
 }
+
+export const sammSwapService = new SAMMSwapService();
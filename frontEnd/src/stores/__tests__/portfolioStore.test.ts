@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { usePortfolioStore } from '../portfolioStore';
 import { UserPortfolio, Token, Pool } from '@/types';
 import { PublicKey } from '@solana/web3.js';
+import { StaticPriceOracle } from '@/services/priceOracleService';
 
 describe('portfolioStore', () => {
   const mockTokenSOL: Token = {
@@ -396,6 +397,50 @@ describe('portfolioStore', () => {
     });
   });
 
+  describe('revaluePortfolio', () => {
+    const oracle = new StaticPriceOracle({
+      quoteCurrency: 'USD',
+      prices: {},
+      symbols: { SOL: 100, USDC: 1, USDT: 0.5 },
+    });
+
+    it('should value holdings, positions and SOL through the price oracle', async () => {
+      const { setPortfolio, revaluePortfolio } = usePortfolioStore.getState();
+      setPortfolio(createMockPortfolio());
+
+      await revaluePortfolio(oracle);
+
+      const { portfolio, quoteCurrency } = usePortfolioStore.getState();
+      expect(quoteCurrency).toBe('USD');
+      expect(portfolio?.solValueUsd).toBe(200);
+      expect(portfolio?.tokens[0].valueUsd).toBe(100);
+      expect(portfolio?.tokens[1].valueUsd).toBe(50);
+      // 50 USDC + 50 USDT at 0.5
+      expect(portfolio?.liquidityPositions[0].valueUsd).toBe(75);
+      expect(portfolio?.totalValueUsd).toBe(425);
+    });
+
+    it('should keep previous values for tokens the oracle cannot price', async () => {
+      const { setPortfolio, revaluePortfolio } = usePortfolioStore.getState();
+      setPortfolio(createMockPortfolio());
+
+      await revaluePortfolio(new StaticPriceOracle({ quoteCurrency: 'USD', prices: {}, symbols: { USDC: 1 } }));
+
+      const { portfolio } = usePortfolioStore.getState();
+      expect(portfolio?.tokens[0].valueUsd).toBe(100);
+      expect(portfolio?.tokens[1].valueUsd).toBe(100);
+      expect(portfolio?.liquidityPositions[0].valueUsd).toBe(10);
+      expect(portfolio?.solValueUsd).toBe(200);
+      expect(portfolio?.totalValueUsd).toBe(410);
+    });
+
+    it('should do nothing without a portfolio', async () => {
+      await usePortfolioStore.getState().revaluePortfolio(oracle);
+
+      expect(usePortfolioStore.getState().portfolio).toBeNull();
+    });
+  });
+
   describe('portfolio calculations', () => {
     it('should calculate total value correctly with SOL and tokens', () => {
       const { setPortfolio } = usePortfolioStore.getState();
@@ -42,6 +42,7 @@ describe('swapStore', () => {
       tokenOut: null,
       amountIn: '',
       amountOut: '',
+      swapMode: 'exactInput',
       quote: null,
       loading: false,
       error: null,
@@ -61,6 +62,7 @@ describe('swapStore', () => {
       expect(state.tokenOut).toBeNull();
       expect(state.amountIn).toBe('');
       expect(state.amountOut).toBe('');
+      expect(state.swapMode).toBe('exactInput');
       expect(state.quote).toBeNull();
       expect(state.loading).toBe(false);
       expect(state.error).toBeNull();
@@ -130,6 +132,34 @@ describe('swapStore', () => {
     });
   });
 
+  describe('swap mode', () => {
+    it('should switch to exact output mode', () => {
+      const { setSwapMode } = useSwapStore.getState();
+
+      setSwapMode('exactOutput');
+
+      expect(useSwapStore.getState().swapMode).toBe('exactOutput');
+    });
+
+    it('should clear the quote when the mode changes', () => {
+      const { setQuote, setSwapMode } = useSwapStore.getState();
+
+      setQuote(mockSwapQuote);
+      setSwapMode('exactOutput');
+
+      expect(useSwapStore.getState().quote).toBeNull();
+    });
+
+    it('should keep the quote when the mode is unchanged', () => {
+      const { setQuote, setSwapMode } = useSwapStore.getState();
+
+      setQuote(mockSwapQuote);
+      setSwapMode('exactInput');
+
+      expect(useSwapStore.getState().quote).toEqual(mockSwapQuote);
+    });
+  });
+
   describe('quote management', () => {
     it('should set swap quote', () => {
       const { setQuote } = useSwapStore.getState();
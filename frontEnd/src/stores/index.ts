@@ -4,4 +4,6 @@ export * from './poolStore'
 export * from './swapStore'
 export * from './transactionStore'
 export * from './portfolioStore'
+export * from './portfolioHistoryStore'
+export * from './tokenListStore'
 export * from './notificationStore'
\ No newline at end of file
@@ -5,9 +5,10 @@
  */
 
 import { create } from 'zustand';
-import { getDexConfig } from '@/config/dex-config-loader';
-import { createPublicClient, http, Address } from 'viem';
+import { DexPoolConfig, getDexConfig, getRegisteredPools, getRpcUrl } from '@/config/dex-config-loader';
+import { createPublicClient, http, Address, PublicClient } from 'viem';
 import { evmPoolService } from '@/services/evmPoolService';
+import { evmShardService } from '@/services/evmShardService';
 import { MONAD_TESTNET } from '@/config/evm-networks';
 import { getMinFetchInterval } from '@/config/pool-refresh-config';
 
@@ -49,6 +50,43 @@ interface PoolStore {
 
 const STALE_THRESHOLD = 60 * 1000; // 60 seconds
 
+// Factory shard discovery runs once per chain per session
+const shardDiscovery = new Map<number, Promise<void>>();
+
+function discoverFactoryShards(chainId: number): Promise<void> {
+  let discovery = shardDiscovery.get(chainId);
+  if (!discovery) {
+    const client = createPublicClient({ transport: http(getRpcUrl(chainId)) }) as PublicClient;
+    discovery = evmShardService.discoverShards(client, chainId)
+      .then((pools) => {
+        if (pools.length > 0) {
+          console.log(`🧩 Registered ${pools.length} factory shards missing from config`);
+        }
+      })
+      .catch((error) => {
+        console.warn('⚠️  Factory shard discovery failed:', error);
+      });
+    shardDiscovery.set(chainId, discovery);
+  }
+  return discovery;
+}
+
+function fromConfigPool(pool: DexPoolConfig): Pool {
+  return {
+    address: pool.address,
+    tokenA: pool.tokenA,
+    tokenB: pool.tokenB,
+    tokenASymbol: pool.tokenASymbol,
+    tokenBSymbol: pool.tokenBSymbol,
+    liquidityA: pool.initialLiquidity || '0',
+    liquidityB: pool.initialLiquidity || '0',
+    shardNumber: pool.shardNumber,
+    chainId: pool.chainId,
+    isFresh: false, // Mark as cached
+    lastBlockchainFetch: 0
+  };
+}
+
 export const usePoolStore = create<PoolStore>((set, get) => ({
   pools: [],
   loading: false,
@@ -115,6 +153,9 @@ export const usePoolStore = create<PoolStore>((set, get) => ({
     set({ loading: true, isInitialLoad: isInitial, error: null });
     
     try {
+      // Shards created after the config was generated
+      await discoverFactoryShards(chainId);
+      
       // Only fetch from backend for Monad (chainId 10143)
       // For other chains, fall back to config
       if (chainId === 10143) {
@@ -169,6 +210,14 @@ export const usePoolStore = create<PoolStore>((set, get) => ({
           
           console.log(`✅ Fetched ${pools.length} pools from SAMM Backend API`);
           
+          // The backend lists deployment shards only; keep registered ones routable
+          const listed = new Set(pools.map(pool => pool.address.toLowerCase()));
+          pools.push(
+            ...getRegisteredPools(chainId)
+              .filter(pool => !listed.has(pool.address.toLowerCase()))
+              .map(fromConfigPool)
+          );
+          
           // Explicitly clear old data and set new data
           const currentPoolCount = get().pools.length;
           if (currentPoolCount > 0) {
@@ -207,19 +256,7 @@ export const usePoolStore = create<PoolStore>((set, get) => ({
       }
       
       // Transform config pools to store format (cached data)
-      const pools: Pool[] = config.pools.map(pool => ({
-        address: pool.address,
-        tokenA: pool.tokenA,
-        tokenB: pool.tokenB,
-        tokenASymbol: pool.tokenASymbol,
-        tokenBSymbol: pool.tokenBSymbol,
-        liquidityA: pool.initialLiquidity || '0',
-        liquidityB: pool.initialLiquidity || '0',
-        shardNumber: pool.shardNumber,
-        chainId: pool.chainId,
-        isFresh: false, // Mark as cached
-        lastBlockchainFetch: 0
-      }));
+      const pools: Pool[] = config.pools.map(fromConfigPool);
       
       console.log(`⚠️  Using cached pool data from config (${pools.length} pools)`);
       
@@ -0,0 +1,112 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { PortfolioSnapshot, compactSnapshots } from '@/utils/portfolioValuation';
+
+interface PortfolioHistoryStore {
+  // `${chainId}:${address}` -> snapshots, oldest first
+  histories: Record<string, PortfolioSnapshot[]>;
+  // `${chainId}:${address}` -> oldest time covered by the last backfill
+  backfilledFrom: Record<string, number>;
+
+  // Actions
+  addSnapshot: (key: string, snapshot: PortfolioSnapshot) => void;
+  mergeBackfill: (key: string, snapshots: PortfolioSnapshot[], coveredFrom: number) => void;
+  clearHistory: (key: string) => void;
+
+  // Computed getters
+  getSnapshots: (key: string, since?: number) => PortfolioSnapshot[];
+}
+
+export function portfolioHistoryKey(chainId: number, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
+
+export const usePortfolioHistoryStore = create<PortfolioHistoryStore>()(
+  persist(
+    (set, get) => ({
+      histories: {},
+      backfilledFrom: {},
+
+      addSnapshot: (key, snapshot) => set((state) => ({
+        histories: {
+          ...state.histories,
+          [key]: compactSnapshots([...(state.histories[key] || []), snapshot], snapshot.timestamp),
+        },
+      })),
+
+      // Backfilled points replace earlier backfills; live snapshots are kept
+      mergeBackfill: (key, snapshots, coveredFrom) => set((state) => {
+        const live = (state.histories[key] || []).filter((snapshot) => snapshot.source === 'live');
+        const merged = [...snapshots, ...live].sort((a, b) => a.timestamp - b.timestamp);
+        return {
+          histories: { ...state.histories, [key]: compactSnapshots(merged, Date.now()) },
+          backfilledFrom: { ...state.backfilledFrom, [key]: coveredFrom },
+        };
+      }),
+
+      clearHistory: (key) => set((state) => {
+        const histories = { ...state.histories };
+        const backfilledFrom = { ...state.backfilledFrom };
+        delete histories[key];
+        delete backfilledFrom[key];
+        return { histories, backfilledFrom };
+      }),
+
+      getSnapshots: (key, since = 0) => {
+        return (get().histories[key] || []).filter((snapshot) => snapshot.timestamp >= since);
+      },
+    }),
+    {
+      name: 'samm-portfolio-history',
+      storage: {
+        getItem: (name) => {
+          const str = localStorage.getItem(name);
+          if (!str) return null;
+
+          try {
+            const parsed = JSON.parse(str);
+            // Reconstruct BigInt holding amounts
+            if (parsed.state?.histories) {
+              for (const key of Object.keys(parsed.state.histories)) {
+                parsed.state.histories[key] = parsed.state.histories[key].map((snapshot: any) => ({
+                  ...snapshot,
+                  holdings: snapshot.holdings.map((holding: any) => ({
+                    ...holding,
+                    amount: BigInt(holding.amount),
+                  })),
+                }));
+              }
+            }
+            return parsed;
+          } catch (error) {
+            console.error('Failed to parse stored portfolio history:', error);
+            return null;
+          }
+        },
+        setItem: (name, value) => {
+          try {
+            // Convert BigInt to string for storage
+            const histories: Record<string, unknown> = {};
+            for (const [key, snapshots] of Object.entries(value.state?.histories || {})) {
+              histories[key] = snapshots.map((snapshot) => ({
+                ...snapshot,
+                holdings: snapshot.holdings.map((holding) => ({
+                  ...holding,
+                  amount: holding.amount.toString(),
+                })),
+              }));
+            }
+            localStorage.setItem(name, JSON.stringify({ ...value, state: { ...value.state, histories } }));
+          } catch (error) {
+            console.error('Failed to store portfolio history:', error);
+          }
+        },
+        removeItem: (name) => localStorage.removeItem(name),
+      },
+      partialize: (state) => ({
+        histories: state.histories,
+        backfilledFrom: state.backfilledFrom,
+      } as unknown as PortfolioHistoryStore),
+    }
+  )
+);
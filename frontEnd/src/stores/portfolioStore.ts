@@ -1,11 +1,19 @@
 import { create } from 'zustand';
-import { UserPortfolio } from '@/types';
+import { UserPortfolio, Token } from '@/types';
+import { priceOracle, amountToQuote, PriceOracle, PriceableToken } from '@/services/priceOracleService';
+
+const NATIVE_SOL: PriceableToken = {
+  address: 'So11111111111111111111111111111111111111112',
+  symbol: 'SOL',
+  decimals: 9,
+};
 
 interface PortfolioStore {
   portfolio: UserPortfolio | null;
   loading: boolean;
   error: string | null;
   lastUpdated: number | null;
+  quoteCurrency: string; // currency of every *Usd value after revaluePortfolio
   
   // Historical data for charts
   portfolioHistory: Array<{
@@ -17,6 +25,7 @@ interface PortfolioStore {
   // Actions
   setPortfolio: (portfolio: UserPortfolio) => void;
   updatePortfolioValue: (totalValue: bigint, totalValueUsd?: number) => void;
+  revaluePortfolio: (oracle?: PriceOracle) => Promise<void>;
   addHistoricalData: (timestamp: number, totalValue: bigint, totalValueUsd?: number) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
@@ -35,6 +44,7 @@ export const usePortfolioStore = create<PortfolioStore>((set, get) => ({
   loading: false,
   error: null,
   lastUpdated: null,
+  quoteCurrency: priceOracle.quoteCurrency,
   portfolioHistory: [],
   
   setPortfolio: (portfolio) => set({
@@ -57,6 +67,54 @@ export const usePortfolioStore = create<PortfolioStore>((set, get) => ({
     };
   }),
   
+  revaluePortfolio: async (oracle = priceOracle) => {
+    const { portfolio } = get();
+    if (!portfolio) return;
+
+    const valueOf = async (token: Token | PriceableToken, amount: bigint) => {
+      const price = await oracle.getPrice(token);
+      return price ? amountToQuote(amount, token.decimals, price.price) : undefined;
+    };
+
+    // Holdings the oracle cannot price keep their previous value
+    const tokens = await Promise.all(portfolio.tokens.map(async (holding) => ({
+      ...holding,
+      valueUsd: (await valueOf(holding.token, holding.balance)) ?? holding.valueUsd,
+    })));
+
+    const liquidityPositions = await Promise.all(portfolio.liquidityPositions.map(async (position) => {
+      const [valueA, valueB] = await Promise.all([
+        valueOf(position.pool.tokenA, position.tokenAAmount),
+        valueOf(position.pool.tokenB, position.tokenBAmount),
+      ]);
+      return {
+        ...position,
+        valueUsd: valueA !== undefined && valueB !== undefined ? valueA + valueB : position.valueUsd,
+      };
+    }));
+
+    const solValueUsd = (await valueOf(NATIVE_SOL, portfolio.solBalance)) ?? portfolio.solValueUsd;
+    const totalValueUsd = (solValueUsd || 0) +
+      tokens.reduce((sum, holding) => sum + (holding.valueUsd || 0), 0) +
+      liquidityPositions.reduce((sum, position) => sum + (position.valueUsd || 0), 0);
+
+    // The portfolio may have been replaced while prices were loading
+    if (get().portfolio !== portfolio) return;
+
+    set({
+      portfolio: {
+        ...portfolio,
+        tokens,
+        liquidityPositions,
+        solValueUsd,
+        totalValueUsd,
+        lastUpdated: Date.now(),
+      },
+      quoteCurrency: oracle.quoteCurrency,
+      lastUpdated: Date.now(),
+    });
+  },
+  
   addHistoricalData: (timestamp, totalValue, totalValueUsd) => set((state) => ({
     portfolioHistory: [
       ...state.portfolioHistory,
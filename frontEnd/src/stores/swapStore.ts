@@ -1,11 +1,12 @@
 import { create } from 'zustand';
-import { SwapQuote, Token, TransactionStatus } from '@/types';
+import { SwapMode, SwapQuote, Token, TransactionStatus } from '@/types';
 
 interface SwapStore {
   tokenIn: Token | null;
   tokenOut: Token | null;
   amountIn: string;
   amountOut: string;
+  swapMode: SwapMode;
   quote: SwapQuote | null;
   loading: boolean;
   error: string | null;
@@ -21,6 +22,7 @@ interface SwapStore {
   setTokenOut: (token: Token | null) => void;
   setAmountIn: (amount: string) => void;
   setAmountOut: (amount: string) => void;
+  setSwapMode: (mode: SwapMode) => void;
   setQuote: (quote: SwapQuote | null) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
@@ -40,6 +42,7 @@ export const useSwapStore = create<SwapStore>((set, get) => ({
   tokenOut: null,
   amountIn: '',
   amountOut: '',
+  swapMode: 'exactInput',
   quote: null,
   loading: false,
   error: null,
@@ -55,6 +58,11 @@ export const useSwapStore = create<SwapStore>((set, get) => ({
   setTokenOut: (token) => set({ tokenOut: token }),
   setAmountIn: (amount) => set({ amountIn: amount }),
   setAmountOut: (amount) => set({ amountOut: amount }),
+  setSwapMode: (mode) => {
+    if (get().swapMode === mode) return;
+    // A quote is only valid for the mode it was requested in
+    set({ swapMode: mode, quote: null });
+  },
   setQuote: (quote) => set({ quote }),
   setLoading: (loading) => set({ loading }),
   setError: (error) => set({ error }),
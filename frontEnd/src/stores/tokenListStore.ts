@@ -0,0 +1,82 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { EVMToken } from '@/config/evm-tokens';
+import { ImportedTokenList, ManagedToken, mergeTokenSources } from '@/utils/tokenLists';
+
+interface TokenListStore {
+  // chainId -> tokens added by address
+  customTokens: Record<number, EVMToken[]>;
+  // chainId -> imported token lists
+  tokenLists: Record<number, ImportedTokenList[]>;
+  // chainId -> lowercase addresses of unverified tokens the user accepted
+  acknowledgedTokens: Record<number, string[]>;
+
+  // Actions
+  addCustomToken: (token: EVMToken) => void;
+  removeCustomToken: (chainId: number, address: string) => void;
+  addTokenList: (chainId: number, list: ImportedTokenList) => void;
+  removeTokenList: (chainId: number, name: string) => void;
+  acknowledgeToken: (chainId: number, address: string) => void;
+
+  // Computed getters
+  getTokens: (chainId: number) => ManagedToken[];
+  isAcknowledged: (chainId: number, address: string) => boolean;
+}
+
+export const useTokenListStore = create<TokenListStore>()(
+  persist(
+    (set, get) => ({
+      customTokens: {},
+      tokenLists: {},
+      acknowledgedTokens: {},
+
+      addCustomToken: (token) => set((state) => {
+        const existing = (state.customTokens[token.chainId] || [])
+          .filter((t) => t.address.toLowerCase() !== token.address.toLowerCase());
+        return { customTokens: { ...state.customTokens, [token.chainId]: [...existing, token] } };
+      }),
+
+      removeCustomToken: (chainId, address) => set((state) => ({
+        customTokens: {
+          ...state.customTokens,
+          [chainId]: (state.customTokens[chainId] || [])
+            .filter((t) => t.address.toLowerCase() !== address.toLowerCase()),
+        },
+      })),
+
+      // Re-importing a list by the same name replaces it
+      addTokenList: (chainId, list) => set((state) => ({
+        tokenLists: {
+          ...state.tokenLists,
+          [chainId]: [...(state.tokenLists[chainId] || []).filter((l) => l.name !== list.name), list],
+        },
+      })),
+
+      removeTokenList: (chainId, name) => set((state) => ({
+        tokenLists: {
+          ...state.tokenLists,
+          [chainId]: (state.tokenLists[chainId] || []).filter((l) => l.name !== name),
+        },
+      })),
+
+      acknowledgeToken: (chainId, address) => set((state) => {
+        const acknowledged = state.acknowledgedTokens[chainId] || [];
+        const key = address.toLowerCase();
+        if (acknowledged.includes(key)) return state;
+        return { acknowledgedTokens: { ...state.acknowledgedTokens, [chainId]: [...acknowledged, key] } };
+      }),
+
+      getTokens: (chainId) => {
+        const { tokenLists, customTokens } = get();
+        return mergeTokenSources(chainId, tokenLists[chainId] || [], customTokens[chainId] || []);
+      },
+
+      isAcknowledged: (chainId, address) => {
+        return (get().acknowledgedTokens[chainId] || []).includes(address.toLowerCase());
+      },
+    }),
+    {
+      name: 'samm-token-lists',
+    }
+  )
+);
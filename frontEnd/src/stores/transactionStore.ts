@@ -141,6 +141,7 @@ export const useTransactionStore = create<TransactionStore>()(
                 ...tx,
                 amountIn: tx.amountIn ? BigInt(tx.amountIn) : undefined,
                 amountOut: tx.amountOut ? BigInt(tx.amountOut) : undefined,
+                lpTokens: tx.lpTokens ? BigInt(tx.lpTokens) : undefined,
                 solFee: tx.solFee ? BigInt(tx.solFee) : BigInt(0),
               }));
             }
@@ -161,6 +162,7 @@ export const useTransactionStore = create<TransactionStore>()(
                   ...tx,
                   amountIn: tx.amountIn?.toString(),
                   amountOut: tx.amountOut?.toString(),
+                  lpTokens: tx.lpTokens?.toString(),
                   solFee: tx.solFee?.toString(),
                 })) || [],
               }
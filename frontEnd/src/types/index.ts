@@ -172,7 +172,8 @@ export interface Transaction {
   status: TransactionStatus;
   timestamp: number;
   blockTime?: number;
-  slot?: number;
+  slot?: number; // Block number for EVM transactions
+  chainId?: number; // Set for EVM transactions
 
   // Transaction details
   tokenIn?: Token;
@@ -191,6 +192,8 @@ export interface Transaction {
 
   // Pool information (for AMM transactions)
   poolId?: string;
+  shardNumber?: number;
+  lpTokens?: bigint; // LP tokens minted or burned by liquidity transactions
   priceImpact?: number;
   slippage?: number;
 }
@@ -199,6 +202,9 @@ export interface Transaction {
 // Swap Quote Interface (Solana-specific)
 // ============================================================================
 
+// Which side of the swap the user fixes: the amount spent or the amount received
+export type SwapMode = 'exactInput' | 'exactOutput';
+
 export interface SwapQuote {
   // Input/Output amounts
   inputAmount: bigint;
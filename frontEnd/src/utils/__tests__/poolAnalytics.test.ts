@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PoolEvent,
+  ReservePoint,
+  bucketPoolHistory,
+  computePoolMetrics,
+  reconstructReserveHistory,
+  shardDistribution,
+  stateAt,
+} from '../poolAnalytics';
+
+const A = '0x00000000000000000000000000000000000000aa';
+const B = '0x00000000000000000000000000000000000000bb';
+const E6 = BigInt(10) ** BigInt(6);
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const NOW = 10 * DAY;
+
+const tokens = { tokenA: A, decimalsA: 6, decimalsB: 6 };
+
+const swap = (timestamp: number, tokenIn: string, amountIn: bigint, amountOut: bigint, fee: bigint, block: number): PoolEvent => ({
+  kind: 'swap',
+  blockNumber: block,
+  logIndex: 0,
+  transactionHash: `0x${block}`,
+  timestamp,
+  trader: '0x1',
+  tokenIn,
+  tokenOut: tokenIn === A ? B : A,
+  amountIn,
+  amountOut,
+  fee,
+});
+
+const add = (timestamp: number, amountA: bigint, amountB: bigint, lpTokens: bigint, block: number): PoolEvent => ({
+  kind: 'add',
+  blockNumber: block,
+  logIndex: 0,
+  transactionHash: `0x${block}`,
+  timestamp,
+  provider: '0x2',
+  amountA,
+  amountB,
+  lpTokens,
+});
+
+const current = (reserveA: bigint, reserveB: bigint, totalSupply: bigint): ReservePoint => ({
+  timestamp: NOW,
+  blockNumber: 1000,
+  reserveA,
+  reserveB,
+  totalSupply,
+});
+
+describe('reconstructReserveHistory', () => {
+  it('undoes swaps and deposits from the current state', () => {
+    const events = [
+      add(NOW - 3 * HOUR, 100n * E6, 100n * E6, 100n * E6, 10),
+      swap(NOW - 2 * HOUR, A, 10n * E6, 9n * E6, 3000n, 20),
+    ];
+    const points = reconstructReserveHistory(events, A, current(1110n * E6, 1091n * E6, 1100n * E6), NOW - DAY);
+
+    expect(points).toHaveLength(3);
+    expect(points[0]).toMatchObject({ timestamp: NOW - DAY, reserveA: 1000n * E6, reserveB: 1000n * E6, totalSupply: 1000n * E6 });
+    expect(points[1]).toMatchObject({ reserveA: 1100n * E6, reserveB: 1100n * E6, totalSupply: 1100n * E6 });
+    expect(points[2]).toMatchObject({ reserveA: 1110n * E6, reserveB: 1091n * E6 });
+
+    expect(stateAt(points, NOW - 150 * 60 * 1000).reserveA).toBe(1100n * E6);
+    expect(stateAt(points, 0).reserveA).toBe(1000n * E6);
+  });
+
+  it('never goes below zero when events are missing from the index', () => {
+    const events = [add(NOW - HOUR, 500n * E6, 500n * E6, 500n * E6, 10)];
+    const [start] = reconstructReserveHistory(events, A, current(100n * E6, 100n * E6, 100n * E6), NOW - DAY);
+
+    expect(start.reserveA).toBe(0n);
+    expect(start.totalSupply).toBe(0n);
+  });
+});
+
+describe('pool metrics and buckets', () => {
+  // 1:1 pool; two 100 A -> B swaps with 0.3 A fee each, the first 2 days ago
+  const events = [
+    swap(NOW - 2 * DAY, A, 100n * E6, 99n * E6, 300000n, 10),
+    swap(NOW - 2 * HOUR, A, 100n * E6, 99n * E6, 300000n, 20),
+  ];
+  const points = reconstructReserveHistory(events, A, current(10_200n * E6, 9_802n * E6, 10_000n * E6), NOW - 8 * DAY);
+
+  it('values volume and fees at the price before each swap', () => {
+    const metrics = computePoolMetrics(points, events, tokens, NOW);
+
+    expect(metrics.volume24h).toBeCloseTo(100 * (9_901 / 10_100), 6);
+    expect(metrics.fees24h).toBeCloseTo(0.3 * (9_901 / 10_100), 6);
+    expect(metrics.volume7d).toBeCloseTo(100 + 100 * (9_901 / 10_100), 6);
+    expect(metrics.totalValueLocked).toBeCloseTo(9_802 * 2, 6);
+  });
+
+  it('annualises the trailing week of fees over current TVL', () => {
+    const metrics = computePoolMetrics(points, events, tokens, NOW);
+    const expected = (metrics.fees7d / metrics.totalValueLocked) * (365 / 7) * 100;
+
+    expect(metrics.apr).toBeCloseTo(expected, 9);
+    expect(metrics.priceChange24h).toBeCloseTo(((9_802 / 10_200) / (9_901 / 10_100) - 1) * 100, 6);
+  });
+
+  it('uses the indexed span for the APR when it is shorter than a week', () => {
+    const recent = reconstructReserveHistory(events.slice(1), A, current(10_200n * E6, 9_802n * E6, 10_000n * E6), NOW - DAY);
+    const metrics = computePoolMetrics(recent, events.slice(1), tokens, NOW);
+
+    expect(metrics.historyStart).toBe(NOW - DAY);
+    expect(metrics.apr).toBeCloseTo((metrics.fees7d / metrics.totalValueLocked) * 365 * 100, 9);
+  });
+
+  it('puts each swap in its bucket and samples the state at the bucket end', () => {
+    const buckets = bucketPoolHistory(points, events, tokens, NOW - 3 * DAY, NOW, DAY);
+
+    expect(buckets.map(bucket => bucket.swapCount)).toEqual([0, 1, 1]);
+    expect(buckets[0].reserveA).toBe(10_000n * E6);
+    expect(buckets[1].reserveA).toBe(10_100n * E6);
+    expect(buckets[1].volume).toBeCloseTo(100, 6);
+    expect(buckets[2].tvl).toBeCloseTo(9_802 * 2, 6);
+  });
+});
+
+describe('shardDistribution', () => {
+  it('splits the combined reserve value between shards', () => {
+    const shard1 = [{ timestamp: 0, blockNumber: 0, reserveA: 300n * E6, reserveB: 300n * E6, totalSupply: 1n }];
+    const shard2 = [
+      { timestamp: 0, blockNumber: 0, reserveA: 100n * E6, reserveB: 100n * E6, totalSupply: 1n },
+      { timestamp: DAY, blockNumber: 5, reserveA: 300n * E6, reserveB: 300n * E6, totalSupply: 1n },
+    ];
+
+    const [before, after] = shardDistribution(
+      [
+        { poolAddress: '0xs1', shardNumber: 1, points: shard1 },
+        { poolAddress: '0xs2', shardNumber: 2, points: shard2 },
+      ],
+      tokens,
+      [HOUR, 2 * DAY]
+    );
+
+    expect(before.shards.map(shard => shard.share)).toEqual([0.75, 0.25]);
+    expect(after.shards.map(shard => shard.share)).toEqual([0.5, 0.5]);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PortfolioPool,
+  attributePnl,
+  compactSnapshots,
+  derivePrices,
+  reconstructBalanceHistory,
+  valuePortfolio,
+} from '../portfolioValuation';
+import { Transaction, TransactionStatus, TransactionType } from '@/types';
+
+const USDC = '0x00000000000000000000000000000000000000aa';
+const WETH = '0x00000000000000000000000000000000000000bb';
+const POOL = '0x00000000000000000000000000000000000000cc';
+const E6 = BigInt(10) ** BigInt(6);
+const E18 = BigInt(10) ** BigInt(18);
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const tokens = [
+  { address: USDC, symbol: 'USDC', decimals: 6 },
+  { address: WETH, symbol: 'WETH', decimals: 18 },
+];
+
+// 1 WETH = 2000 USDC
+const pool = (reserveA: bigint, reserveB: bigint, totalSupply: bigint): PortfolioPool => ({
+  address: POOL,
+  symbol: 'WETH/USDC #1',
+  tokenA: WETH,
+  tokenB: USDC,
+  reserveA,
+  reserveB,
+  totalSupply,
+});
+
+const tokenRef = (address: string, symbol: string, decimals: number) => ({
+  mint: address,
+  address,
+  symbol,
+  name: symbol,
+  decimals,
+});
+
+const tx = (type: TransactionType, timestamp: number, fields: Partial<Transaction>): Transaction => ({
+  signature: `0x${timestamp}`,
+  type,
+  status: TransactionStatus.CONFIRMED,
+  timestamp,
+  ...fields,
+} as Transaction);
+
+const snapshotAt = (timestamp: number, balances: Record<string, bigint>, state: PortfolioPool) =>
+  valuePortfolio({
+    timestamp,
+    source: 'backfill',
+    tokens,
+    pools: [state],
+    balances,
+    referencePrices: { [USDC]: 1 },
+  });
+
+describe('derivePrices', () => {
+  it('prices tokens without a reference price through their pools', () => {
+    const prices = derivePrices(tokens, [pool(10n * E18, 20_000n * E6, 1n)], { [USDC]: 1 });
+    expect(prices[WETH]).toBeCloseTo(2000, 9);
+  });
+});
+
+describe('valuePortfolio', () => {
+  it('values LP shares at their part of both reserves', () => {
+    const snapshot = snapshotAt(0, { [USDC]: 500n * E6, [POOL]: 25n }, pool(10n * E18, 20_000n * E6, 100n));
+
+    expect(snapshot.tokenValueUsd).toBeCloseTo(500, 9);
+    expect(snapshot.lpValueUsd).toBeCloseTo(10_000, 6);
+    expect(snapshot.totalValueUsd).toBeCloseTo(10_500, 6);
+    expect(snapshot.holdings.find(holding => holding.kind === 'lp')?.feeGrowth).toBeGreaterThan(0);
+  });
+});
+
+describe('reconstructBalanceHistory', () => {
+  it('undoes swaps, deposits and transfers in reverse order', () => {
+    const transactions = [
+      tx(TransactionType.SPL_TRANSFER, 1 * HOUR, { tokenOut: tokenRef(USDC, 'USDC', 6), amountOut: 1000n * E6 }),
+      tx(TransactionType.SWAP, 2 * HOUR, {
+        tokenIn: tokenRef(USDC, 'USDC', 6),
+        amountIn: 400n * E6,
+        tokenOut: tokenRef(WETH, 'WETH', 18),
+        amountOut: E18 / 5n,
+      }),
+      tx(TransactionType.ADD_LIQUIDITY, 3 * HOUR, {
+        tokenIn: tokenRef(WETH, 'WETH', 18),
+        amountIn: E18 / 10n,
+        tokenOut: tokenRef(USDC, 'USDC', 6),
+        amountOut: 200n * E6,
+        poolId: POOL,
+        lpTokens: 5n,
+      }),
+      tx(TransactionType.SWAP, 4 * HOUR, { status: TransactionStatus.FAILED, tokenIn: tokenRef(USDC, 'USDC', 6), amountIn: 1n }),
+    ];
+
+    const points = reconstructBalanceHistory(
+      { [USDC]: 400n * E6, [WETH]: E18 / 10n, [POOL]: 5n },
+      transactions,
+      0
+    );
+
+    expect(points.map(point => point.timestamp)).toEqual([0, HOUR, 2 * HOUR, 3 * HOUR]);
+    expect(points[0].balances).toEqual({ [USDC]: 0n, [WETH]: 0n, [POOL]: 0n });
+    expect(points[1].balances[USDC]).toBe(1000n * E6);
+    expect(points[2].balances).toEqual({ [USDC]: 600n * E6, [WETH]: E18 / 5n, [POOL]: 0n });
+    expect(points[3].balances).toEqual({ [USDC]: 400n * E6, [WETH]: E18 / 10n, [POOL]: 5n });
+  });
+});
+
+describe('attributePnl', () => {
+  it('splits the change into transfers, swaps, LP fees and price moves', () => {
+    const usdc = tokenRef(USDC, 'USDC', 6);
+    const weth = tokenRef(WETH, 'WETH', 18);
+    const base = pool(10n * E18, 20_000n * E6, 100n);
+
+    const snapshots = [
+      // 1000 USDC and 10% of the pool
+      snapshotAt(0, { [USDC]: 1000n * E6, [POOL]: 10n }, base),
+      // Received 500 USDC
+      snapshotAt(HOUR, { [USDC]: 1500n * E6, [POOL]: 10n }, base),
+      // Swapped 1000 USDC for 0.49 WETH at 2000 (a 20 USDC loss); reserves grew 1% through fees
+      snapshotAt(2 * HOUR, { [USDC]: 500n * E6, [WETH]: 49n * E18 / 100n, [POOL]: 10n }, pool(101n * E18 / 10n, 20_200n * E6, 100n)),
+      // WETH up to 2200 with the pool rebalanced along the curve
+      snapshotAt(3 * HOUR, { [USDC]: 500n * E6, [WETH]: 49n * E18 / 100n, [POOL]: 10n },
+        pool(9_629_972_151_380_482_386n, 21_185_938_733n, 100n)),
+    ];
+    const transactions = [
+      tx(TransactionType.SPL_TRANSFER, HOUR, { tokenOut: usdc, amountOut: 500n * E6 }),
+      tx(TransactionType.SWAP, 2 * HOUR, { tokenIn: usdc, amountIn: 1000n * E6, tokenOut: weth, amountOut: 49n * E18 / 100n }),
+      // Outside the range
+      tx(TransactionType.SPL_TRANSFER, 0, { tokenOut: usdc, amountOut: 1n }),
+    ];
+
+    const result = attributePnl(snapshots, transactions);
+
+    expect(result.transfers).toBeCloseTo(500, 6);
+    expect(result.swaps).toBeCloseTo(-20, 6);
+    expect(result.lpFees).toBeCloseTo(40, 6);
+    expect(result.change).toBeCloseTo(result.endValue - result.startValue, 9);
+    expect(result.priceMoves + result.swaps + result.lpFees + result.transfers).toBeCloseTo(result.change, 9);
+    expect(result.priceMoves).toBeGreaterThan(0);
+  });
+
+  it('reports no change for a single snapshot', () => {
+    const result = attributePnl([snapshotAt(0, { [USDC]: E6 }, pool(1n, 1n, 1n))], []);
+    expect(result).toMatchObject({ startValue: 1, endValue: 1, change: 0, priceMoves: 0 });
+  });
+});
+
+describe('compactSnapshots', () => {
+  it('keeps fine resolution for the last day and one point per day for old history', () => {
+    const now = 30 * DAY;
+    const times = [
+      // Two within the same 5 minutes today
+      now - 60_000, now - 120_000,
+      // Three in the same hour three days ago
+      now - 3 * DAY, now - 3 * DAY + 60_000, now - 3 * DAY + 120_000,
+      // Two on the same day three weeks ago
+      now - 21 * DAY, now - 21 * DAY + HOUR,
+    ];
+    const snapshots = times.map(timestamp => snapshotAt(timestamp, {}, pool(1n, 1n, 1n)));
+
+    const compacted = compactSnapshots(snapshots, now);
+
+    expect(compacted.map(snapshot => snapshot.timestamp)).toEqual([
+      now - 21 * DAY + HOUR,
+      now - 3 * DAY + 120_000,
+      now - 60_000,
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { computePositionAccounting, LiquidityEvent } from '../positionAccounting';
+
+const E18 = 10n ** 18n;
+
+const add = (amountA: bigint, amountB: bigint, lpTokens: bigint, timestamp = 1): LiquidityEvent =>
+  ({ kind: 'add', amountA, amountB, lpTokens, timestamp });
+const remove = (amountA: bigint, amountB: bigint, lpTokens: bigint, timestamp = 2): LiquidityEvent =>
+  ({ kind: 'remove', amountA, amountB, lpTokens, timestamp });
+
+describe('computePositionAccounting', () => {
+  // The wallet owns the whole pool: 1000 A + 1000 B for 1000 LP
+  const deposit = add(1000n * E18, 1000n * E18, 1000n * E18);
+
+  it('reports no fees or loss when the pool has not moved', () => {
+    const result = computePositionAccounting(
+      [deposit],
+      { reserveA: 1000n * E18, reserveB: 1000n * E18, totalSupply: 1000n * E18 },
+      1000n * E18
+    );
+
+    expect(result.basisComplete).toBe(true);
+    expect(result.holdValue).toBe(2000n * E18);
+    expect(result.currentValue).toBe(2000n * E18);
+    expect(result.unrealisedFeesValue).toBe(0n);
+    expect(result.impermanentLoss).toBe(0n);
+    expect(result.netVsHold).toBe(0n);
+    expect(result.firstDepositAt).toBe(1);
+  });
+
+  it('attributes proportional reserve growth to fees', () => {
+    const result = computePositionAccounting(
+      [deposit],
+      { reserveA: 1100n * E18, reserveB: 1100n * E18, totalSupply: 1000n * E18 },
+      1000n * E18
+    );
+
+    expect(result.unrealisedFeesA).toBe(100n * E18);
+    expect(result.unrealisedFeesB).toBe(100n * E18);
+    expect(result.unrealisedFeesValue).toBe(200n * E18);
+    expect(result.impermanentLoss).toBe(0n);
+    expect(result.netVsHoldPercent).toBeCloseTo(10, 6);
+  });
+
+  it('matches the constant-product impermanent loss formula when the price moves without fees', () => {
+    // k unchanged, price of A in B up 4x: IL = 2 * sqrt(4) / (1 + 4) - 1 = -20%
+    const result = computePositionAccounting(
+      [deposit],
+      { reserveA: 500n * E18, reserveB: 2000n * E18, totalSupply: 1000n * E18 },
+      1000n * E18
+    );
+
+    expect(result.holdValue).toBe(5000n * E18);
+    expect(result.currentValue).toBe(4000n * E18);
+    expect(result.unrealisedFeesValue).toBe(0n);
+    expect(result.impermanentLossPercent).toBeCloseTo(-20, 6);
+    expect(result.netVsHold).toBe(result.impermanentLoss);
+  });
+
+  it('realises fees on withdrawal and keeps the average basis for the rest', () => {
+    // Half withdrawn after the pool grew 10% through fees
+    const events = [deposit, remove(550n * E18, 550n * E18, 500n * E18)];
+    const result = computePositionAccounting(
+      events,
+      { reserveA: 550n * E18, reserveB: 550n * E18, totalSupply: 500n * E18 },
+      500n * E18
+    );
+
+    expect(result.realisedFeesA).toBe(50n * E18);
+    expect(result.realisedFeesB).toBe(50n * E18);
+    expect(result.realisedFeesValue).toBe(100n * E18);
+    expect(result.costBasisA).toBe(500n * E18);
+    expect(result.costBasisB).toBe(500n * E18);
+    expect(result.unrealisedFeesValue).toBe(100n * E18);
+  });
+
+  it('leaves LP tokens without a deposit out of the basis', () => {
+    const result = computePositionAccounting(
+      [add(100n * E18, 100n * E18, 100n * E18)],
+      { reserveA: 1000n * E18, reserveB: 1000n * E18, totalSupply: 1000n * E18 },
+      300n * E18
+    );
+
+    expect(result.basisComplete).toBe(false);
+    expect(result.trackedLpTokens).toBe(100n * E18);
+    expect(result.currentValue).toBe(200n * E18);
+    expect(result.holdValue).toBe(200n * E18);
+  });
+
+  it('shrinks the basis pro rata when LP tokens left the wallet by transfer', () => {
+    const result = computePositionAccounting(
+      [deposit],
+      { reserveA: 1000n * E18, reserveB: 1000n * E18, totalSupply: 1000n * E18 },
+      250n * E18
+    );
+
+    expect(result.basisComplete).toBe(true);
+    expect(result.costBasisA).toBe(250n * E18);
+    expect(result.holdValue).toBe(500n * E18);
+    expect(result.netVsHold).toBe(0n);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { depositAtPoolRatio } from '../rebalance';
+
+const USDC = '0x67DcA5710a9dA091e00093dF04765d711759f435';
+const USDT = '0x1888FF2446f2542cbb399eD179F4d6d966268C1F';
+
+const pool = (reserveA: bigint, reserveB: bigint) => ({
+  tokenA: USDC as `0x${string}`,
+  tokenB: USDT as `0x${string}`,
+  reserveA,
+  reserveB,
+});
+
+describe('depositAtPoolRatio', () => {
+  it('deposits at the pool ratio, limited by the scarcer token', () => {
+    const amounts = depositAtPoolRatio(
+      { [USDC.toLowerCase()]: BigInt(1_000), [USDT.toLowerCase()]: BigInt(3_000) },
+      pool(BigInt(100_000), BigInt(200_000))
+    );
+
+    expect(amounts).toEqual({ amountA: BigInt(1_000), amountB: BigInt(2_000) });
+  });
+
+  it('matches balances by address whatever order they were withdrawn in', () => {
+    const balances = { [USDT.toLowerCase()]: BigInt(500), [USDC.toLowerCase()]: BigInt(500) };
+    const amounts = depositAtPoolRatio(balances, { ...pool(BigInt(10), BigInt(40)), tokenA: USDT as `0x${string}`, tokenB: USDC as `0x${string}` });
+
+    expect(amounts).toEqual({ amountA: BigInt(125), amountB: BigInt(500) });
+  });
+
+  it('deposits nothing into an empty pool or without one of the tokens', () => {
+    const zero = { amountA: BigInt(0), amountB: BigInt(0) };
+
+    expect(depositAtPoolRatio({ [USDC.toLowerCase()]: BigInt(1), [USDT.toLowerCase()]: BigInt(1) }, pool(BigInt(0), BigInt(0)))).toEqual(zero);
+    expect(depositAtPoolRatio({ [USDC.toLowerCase()]: BigInt(1_000) }, pool(BigInt(10), BigInt(10)))).toEqual(zero);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SAMM_PARAMETERS,
+  getDefaultSammParameters,
+  initialLpTokens,
+  toDecimalSammParameters,
+  toScaledSammParameters,
+  validateSammParameters,
+} from '../sammParameters';
+
+describe('SAMM parameter scaling', () => {
+  it('round-trips the factory defaults through decimals', () => {
+    const decimal = toDecimalSammParameters(DEFAULT_SAMM_PARAMETERS);
+
+    expect(decimal).toEqual({ beta1: -1.05, rmin: 0.001, rmax: 0.012, c: 0.0104 });
+    expect(toScaledSammParameters(decimal)).toEqual(DEFAULT_SAMM_PARAMETERS);
+  });
+
+  it('reads the chain defaults from the DEX config', () => {
+    expect(getDefaultSammParameters(10143)).toEqual(DEFAULT_SAMM_PARAMETERS);
+  });
+});
+
+describe('validateSammParameters', () => {
+  it('accepts the defaults', () => {
+    expect(validateSammParameters(DEFAULT_SAMM_PARAMETERS)).toEqual({});
+  });
+
+  it('applies the factory checks', () => {
+    expect(validateSammParameters({ beta1: 100, rmin: 0, rmax: 5000, c: -1 })).toEqual({
+      beta1: 'β1 must be negative',
+      rmin: 'rmin must be positive',
+      c: 'c must be positive',
+    });
+    expect(validateSammParameters({ ...DEFAULT_SAMM_PARAMETERS, rmax: 1000 }).rmax)
+      .toBe('rmax must be greater than rmin');
+  });
+
+  it('rejects values that do not scale to integers', () => {
+    const scaled = toScaledSammParameters({ beta1: Number('abc'), rmin: 0.001, rmax: 0.012, c: 0.0104 });
+    expect(validateSammParameters(scaled).beta1).toMatch(/at most 6 decimals/);
+  });
+});
+
+describe('initialLpTokens', () => {
+  it('mints the geometric mean less the locked minimum', () => {
+    expect(initialLpTokens(BigInt(4_000_000), BigInt(9_000_000))).toBe(BigInt(6_000_000 - 1000));
+    // floor(sqrt(2)) * 1e9
+    expect(initialLpTokens(BigInt(2) * BigInt(10) ** BigInt(18), BigInt(1))).toBe(BigInt(1_414_213_562) - BigInt(1000));
+  });
+
+  it('returns zero when the deposit cannot cover the locked minimum', () => {
+    expect(initialLpTokens(BigInt(1000), BigInt(1000))).toBe(BigInt(0));
+    expect(initialLpTokens(BigInt(0), BigInt(5))).toBe(BigInt(0));
+  });
+});
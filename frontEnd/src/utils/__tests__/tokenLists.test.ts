@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { mergeTokenSources, parseTokenList } from '../tokenLists';
+
+const MONAD = 10143;
+const USDC = '0x9153bc242a5FD22b149B1cb252e3eE6314C37366';
+const WETH = '0x1111111111111111111111111111111111111111';
+
+const listToken = (overrides: Record<string, unknown> = {}) => ({
+  chainId: MONAD,
+  address: WETH,
+  symbol: 'WETH',
+  name: 'Wrapped Ether',
+  decimals: 18,
+  ...overrides,
+});
+
+describe('parseTokenList', () => {
+  it('keeps valid entries for the chain and counts the rest as skipped', () => {
+    const parsed = parseTokenList({
+      name: 'Community',
+      tokens: [
+        listToken({ logoURI: 'https://example.com/weth.png' }),
+        listToken({ chainId: 1, address: '0x2222222222222222222222222222222222222222' }),
+        listToken({ address: 'not-an-address' }),
+        listToken({ address: '0x3333333333333333333333333333333333333333', decimals: 300 }),
+        listToken({ address: '0x4444444444444444444444444444444444444444', symbol: ' ' }),
+        // Duplicate address in a different case
+        listToken({ address: WETH.toUpperCase().replace('0X', '0x') }),
+      ],
+    }, MONAD);
+
+    expect(parsed.name).toBe('Community');
+    expect(parsed.skipped).toBe(5);
+    expect(parsed.tokens).toEqual([{
+      address: WETH,
+      symbol: 'WETH',
+      name: 'Wrapped Ether',
+      decimals: 18,
+      logoURI: 'https://example.com/weth.png',
+      chainId: MONAD,
+    }]);
+  });
+
+  it('accepts the raw JSON text of an uploaded file', () => {
+    const parsed = parseTokenList(JSON.stringify({ tokens: [listToken()] }), MONAD);
+
+    expect(parsed.name).toBe('Imported list');
+    expect(parsed.tokens).toHaveLength(1);
+  });
+
+  it('rejects documents that are not token lists', () => {
+    expect(() => parseTokenList({ name: 'nope' }, MONAD)).toThrow('missing tokens array');
+    expect(() => parseTokenList('{', MONAD)).toThrow();
+  });
+});
+
+describe('mergeTokenSources', () => {
+  it('marks only built-in tokens as verified', () => {
+    const tokens = mergeTokenSources(
+      MONAD,
+      [{ name: 'Community', importedAt: 0, tokens: [{ ...listToken(), chainId: MONAD }] }],
+      [{ address: '0x5555555555555555555555555555555555555555', symbol: 'MEME', name: 'Meme', decimals: 18, chainId: MONAD }]
+    );
+
+    expect(tokens.find((token) => token.symbol === 'USDC')).toMatchObject({ source: 'default', verified: true });
+    expect(tokens.find((token) => token.symbol === 'WETH')).toMatchObject({
+      source: 'list',
+      listName: 'Community',
+      verified: false,
+    });
+    expect(tokens.find((token) => token.symbol === 'MEME')).toMatchObject({ source: 'custom', verified: false });
+  });
+
+  it('never lets a list or custom token shadow a built-in address', () => {
+    const fakeUsdc = { address: USDC.toLowerCase(), symbol: 'USDC', name: 'Fake', decimals: 18, chainId: MONAD };
+    const tokens = mergeTokenSources(MONAD, [{ name: 'Bad', importedAt: 0, tokens: [fakeUsdc] }], [fakeUsdc]);
+
+    const usdc = tokens.filter((token) => token.address.toLowerCase() === USDC.toLowerCase());
+    expect(usdc).toHaveLength(1);
+    expect(usdc[0]).toMatchObject({ name: 'USD Coin', decimals: 6, verified: true });
+  });
+});
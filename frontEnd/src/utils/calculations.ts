@@ -104,7 +104,7 @@ export const calculateLiquidityTokens = (
 };
 
 // Simple integer square root implementation
-function sqrt(value: bigint): bigint {
+export function sqrt(value: bigint): bigint {
   if (value < BigInt(0)) {
     throw new Error('Square root of negative number');
   }
@@ -0,0 +1,318 @@
+/**
+ * Pool analytics
+ *
+ * Rebuilds a shard's reserve history from its SAMMPool events and aggregates
+ * it into TVL, volume, fee and price series. Reserves are only known at the
+ * head of the chain, so history is reconstructed by undoing events from the
+ * current state backwards. Values are expressed in token B, like the LP
+ * position accounting.
+ */
+
+import { formatUnits } from 'viem';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const YEAR_MS = 365 * DAY_MS;
+
+interface PoolEventBase {
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  // Block timestamp in milliseconds
+  timestamp: number;
+}
+
+export interface PoolSwapEvent extends PoolEventBase {
+  kind: 'swap';
+  trader: string;
+  tokenIn: string;
+  tokenOut: string;
+  // Total input including fees; all of it is added to the input reserve
+  amountIn: bigint;
+  amountOut: bigint;
+  // SAMM trade fee in input tokens
+  fee: bigint;
+}
+
+export interface PoolLiquidityEvent extends PoolEventBase {
+  kind: 'add' | 'remove';
+  // Absent for the initial deposit (PoolInitialized)
+  provider?: string;
+  amountA: bigint;
+  amountB: bigint;
+  lpTokens: bigint;
+}
+
+export type PoolEvent = PoolSwapEvent | PoolLiquidityEvent;
+
+/**
+ * Pool state right after `timestamp`
+ */
+export interface ReservePoint {
+  timestamp: number;
+  blockNumber: number;
+  reserveA: bigint;
+  reserveB: bigint;
+  totalSupply: bigint;
+}
+
+export interface PoolTokens {
+  tokenA: string;
+  decimalsA: number;
+  decimalsB: number;
+}
+
+export interface PoolHistoryBucket {
+  // Bucket start
+  timestamp: number;
+  // State at the end of the bucket
+  reserveA: bigint;
+  reserveB: bigint;
+  totalSupply: bigint;
+  // Token A in token B at the end of the bucket
+  price: number;
+  tvl: number;
+  volume: number;
+  fees: number;
+  swapCount: number;
+}
+
+export interface PoolMetrics {
+  totalValueLocked: number;
+  volume24h: number;
+  volume7d: number;
+  fees24h: number;
+  fees7d: number;
+  // Trailing fees annualised over current TVL, in percent
+  apr: number;
+  priceChange24h: number;
+  // Oldest indexed time; windows reaching further back are partial
+  historyStart: number;
+}
+
+export interface ShardReserveSeries {
+  poolAddress: string;
+  shardNumber: number;
+  points: ReservePoint[];
+}
+
+export interface ShardDistributionPoint {
+  timestamp: number;
+  shards: Array<{ poolAddress: string; shardNumber: number; value: number; share: number }>;
+}
+
+/**
+ * Undo events from the current state back to `startTimestamp`
+ * @param events Events in chain order
+ * @returns The state before the first event followed by the state after each event
+ */
+export function reconstructReserveHistory(
+  events: PoolEvent[],
+  tokenA: string,
+  current: ReservePoint,
+  startTimestamp: number
+): ReservePoint[] {
+  const points: ReservePoint[] = new Array(events.length + 1);
+  let { reserveA, reserveB, totalSupply } = current;
+  const isTokenA = (address: string) => address.toLowerCase() === tokenA.toLowerCase();
+
+  for (let i = events.length - 1; i >= 0; i--) {
+    const event = events[i];
+    points[i + 1] = { timestamp: event.timestamp, blockNumber: event.blockNumber, reserveA, reserveB, totalSupply };
+
+    if (event.kind === 'swap') {
+      if (isTokenA(event.tokenIn)) {
+        reserveA -= event.amountIn;
+        reserveB += event.amountOut;
+      } else {
+        reserveB -= event.amountIn;
+        reserveA += event.amountOut;
+      }
+    } else {
+      const sign = event.kind === 'add' ? BigInt(-1) : BigInt(1);
+      reserveA += sign * event.amountA;
+      reserveB += sign * event.amountB;
+      totalSupply += sign * event.lpTokens;
+    }
+
+    // Missing events (e.g. a gap in the index) must not produce negative reserves
+    reserveA = clampToZero(reserveA);
+    reserveB = clampToZero(reserveB);
+    totalSupply = clampToZero(totalSupply);
+  }
+
+  points[0] = {
+    timestamp: Math.min(startTimestamp, events[0]?.timestamp ?? current.timestamp),
+    blockNumber: events.length > 0 ? events[0].blockNumber - 1 : current.blockNumber,
+    reserveA,
+    reserveB,
+    totalSupply,
+  };
+  return points;
+}
+
+/**
+ * Pool state in force at `timestamp`
+ */
+export function stateAt(points: ReservePoint[], timestamp: number): ReservePoint {
+  let low = 0;
+  let high = points.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (points[mid].timestamp <= timestamp) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return points[low];
+}
+
+/**
+ * Token A priced in token B
+ */
+export function spotPrice(point: Pick<ReservePoint, 'reserveA' | 'reserveB'>, tokens: PoolTokens): number {
+  const reserveA = Number(formatUnits(point.reserveA, tokens.decimalsA));
+  const reserveB = Number(formatUnits(point.reserveB, tokens.decimalsB));
+  return reserveA > 0 ? reserveB / reserveA : 0;
+}
+
+/**
+ * Reserves valued in token B
+ */
+export function reserveValue(point: Pick<ReservePoint, 'reserveA' | 'reserveB'>, tokens: PoolTokens): number {
+  return Number(formatUnits(point.reserveA, tokens.decimalsA)) * spotPrice(point, tokens)
+    + Number(formatUnits(point.reserveB, tokens.decimalsB));
+}
+
+/**
+ * Aggregate the history into fixed-width buckets over [from, to)
+ * `events` must be the list `points` was reconstructed from; swaps are valued
+ * at the price in force just before them.
+ */
+export function bucketPoolHistory(
+  points: ReservePoint[],
+  events: PoolEvent[],
+  tokens: PoolTokens,
+  from: number,
+  to: number,
+  bucketMs: number
+): PoolHistoryBucket[] {
+  const buckets: PoolHistoryBucket[] = [];
+  for (let start = from; start < to; start += bucketMs) {
+    const end = Math.min(start + bucketMs, to) - 1;
+    const state = stateAt(points, end);
+    buckets.push({
+      timestamp: start,
+      reserveA: state.reserveA,
+      reserveB: state.reserveB,
+      totalSupply: state.totalSupply,
+      price: spotPrice(state, tokens),
+      tvl: reserveValue(state, tokens),
+      volume: 0,
+      fees: 0,
+      swapCount: 0,
+    });
+  }
+
+  events.forEach((event, i) => {
+    if (event.kind !== 'swap' || event.timestamp < from || event.timestamp >= to) return;
+
+    const bucket = buckets[Math.floor((event.timestamp - from) / bucketMs)];
+    const price = spotPrice(points[i], tokens);
+    bucket.volume += swapValue(event, event.amountIn, tokens, price);
+    bucket.fees += swapValue(event, event.fee, tokens, price);
+    bucket.swapCount++;
+  });
+
+  return buckets;
+}
+
+/**
+ * Headline metrics; the APR annualises the trailing 7 days of fees (or
+ * whatever shorter span is indexed) over the current TVL
+ */
+export function computePoolMetrics(
+  points: ReservePoint[],
+  events: PoolEvent[],
+  tokens: PoolTokens,
+  now: number
+): PoolMetrics {
+  const current = points[points.length - 1];
+  const historyStart = points[0].timestamp;
+  const totals = (since: number) => {
+    let volume = 0;
+    let fees = 0;
+    events.forEach((event, i) => {
+      if (event.kind !== 'swap' || event.timestamp < since) return;
+      const price = spotPrice(points[i], tokens);
+      volume += swapValue(event, event.amountIn, tokens, price);
+      fees += swapValue(event, event.fee, tokens, price);
+    });
+    return { volume, fees };
+  };
+
+  const day = totals(now - DAY_MS);
+  const week = totals(now - 7 * DAY_MS);
+  const totalValueLocked = reserveValue(current, tokens);
+
+  const aprWindow = Math.min(7 * DAY_MS, now - historyStart);
+  const apr = totalValueLocked > 0 && aprWindow > 0
+    ? (week.fees / totalValueLocked) * (YEAR_MS / aprWindow) * 100
+    : 0;
+
+  const priceNow = spotPrice(current, tokens);
+  const priceDayAgo = spotPrice(stateAt(points, now - DAY_MS), tokens);
+  const priceChange24h = priceDayAgo > 0 ? (priceNow / priceDayAgo - 1) * 100 : 0;
+
+  return {
+    totalValueLocked,
+    volume24h: day.volume,
+    volume7d: week.volume,
+    fees24h: day.fees,
+    fees7d: week.fees,
+    apr,
+    priceChange24h,
+    historyStart,
+  };
+}
+
+/**
+ * Each shard's share of the pair's combined reserve value at the given times
+ */
+export function shardDistribution(
+  series: ShardReserveSeries[],
+  tokens: PoolTokens,
+  timestamps: number[]
+): ShardDistributionPoint[] {
+  return timestamps.map((timestamp) => {
+    const shards = series.map((shard) => ({
+      poolAddress: shard.poolAddress,
+      shardNumber: shard.shardNumber,
+      value: reserveValue(stateAt(shard.points, timestamp), tokens),
+      share: 0,
+    }));
+    const total = shards.reduce((sum, shard) => sum + shard.value, 0);
+    shards.forEach((shard) => {
+      shard.share = total > 0 ? shard.value / total : 0;
+    });
+    return { timestamp, shards };
+  });
+}
+
+/**
+ * Bucket width that keeps a range readable
+ */
+export function bucketSizeFor(rangeMs: number): number {
+  if (rangeMs <= DAY_MS) return HOUR_MS;
+  if (rangeMs <= 7 * DAY_MS) return 6 * HOUR_MS;
+  return DAY_MS;
+}
+
+function swapValue(event: PoolSwapEvent, amount: bigint, tokens: PoolTokens, price: number): number {
+  return event.tokenIn.toLowerCase() === tokens.tokenA.toLowerCase()
+    ? Number(formatUnits(amount, tokens.decimalsA)) * price
+    : Number(formatUnits(amount, tokens.decimalsB));
+}
+
+const clampToZero = (value: bigint) => (value < BigInt(0) ? BigInt(0) : value);
@@ -0,0 +1,360 @@
+/**
+ * Portfolio valuation
+ *
+ * Values wallet token and LP balances at a point in time, rebuilds past
+ * balances by undoing indexed transactions, and splits the change in value
+ * over a range into price moves, swaps, LP fees and transfers.
+ */
+
+import { formatUnits } from 'viem';
+import { Transaction, TransactionStatus, TransactionType } from '@/types';
+import { sqrt } from './calculations';
+
+const FIVE_MINUTES_MS = 5 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const SHARE_SCALE = BigInt(10) ** BigInt(12);
+const GROWTH_SCALE = BigInt(10) ** BigInt(18);
+
+export interface PortfolioToken {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface PortfolioPool {
+  address: string;
+  symbol: string;
+  tokenA: string;
+  tokenB: string;
+  reserveA: bigint;
+  reserveB: bigint;
+  totalSupply: bigint;
+}
+
+export interface HoldingValue {
+  kind: 'token' | 'lp';
+  // Lowercase token or pool address
+  address: string;
+  symbol: string;
+  amount: bigint;
+  valueUsd: number;
+  // LP only: sqrt(reserveA * reserveB) per LP token, which only grows through fees
+  feeGrowth?: number;
+}
+
+export interface PortfolioSnapshot {
+  timestamp: number;
+  blockNumber?: number;
+  // Read from chain, or rebuilt from indexed history
+  source: 'live' | 'backfill';
+  totalValueUsd: number;
+  tokenValueUsd: number;
+  lpValueUsd: number;
+  // Price per whole token by lowercase address
+  prices: Record<string, number>;
+  holdings: HoldingValue[];
+}
+
+export interface BalancePoint {
+  timestamp: number;
+  // Lowercase token or pool address -> raw amount
+  balances: Record<string, bigint>;
+}
+
+export interface PnlAttribution {
+  startValue: number;
+  endValue: number;
+  change: number;
+  // Revaluation of what was held, after everything below is taken out
+  priceMoves: number;
+  // Value received minus value given up, at the prices of the time
+  swaps: number;
+  // Growth of sqrt(k) per LP token while the position was held
+  lpFees: number;
+  // Tokens received minus tokens sent
+  transfers: number;
+}
+
+export interface ValuationInput {
+  timestamp: number;
+  blockNumber?: number;
+  source: PortfolioSnapshot['source'];
+  tokens: PortfolioToken[];
+  pools: PortfolioPool[];
+  balances: Record<string, bigint>;
+  // Reference prices by lowercase address; other tokens are priced from pools
+  referencePrices: Record<string, number>;
+}
+
+/**
+ * Price every token: reference prices first, then through the deepest pool
+ * against an already priced token
+ */
+export function derivePrices(
+  tokens: PortfolioToken[],
+  pools: PortfolioPool[],
+  referencePrices: Record<string, number>
+): Record<string, number> {
+  const prices: Record<string, number> = { ...referencePrices };
+  const decimals = new Map(tokens.map((token) => [token.address.toLowerCase(), token.decimals]));
+  const amountOf = (amount: bigint, token: string) => Number(formatUnits(amount, decimals.get(token) ?? 18));
+
+  // Each pass can price tokens one hop further from a reference token
+  for (let pass = 0; pass < tokens.length; pass++) {
+    let priced = false;
+    for (const token of tokens) {
+      const address = token.address.toLowerCase();
+      if (prices[address] !== undefined) continue;
+
+      let best: { price: number; depth: number } | null = null;
+      for (const pool of pools) {
+        const [tokenA, tokenB] = [pool.tokenA.toLowerCase(), pool.tokenB.toLowerCase()];
+        if (tokenA !== address && tokenB !== address) continue;
+
+        const counter = tokenA === address ? tokenB : tokenA;
+        if (prices[counter] === undefined) continue;
+
+        const own = amountOf(tokenA === address ? pool.reserveA : pool.reserveB, address);
+        const other = amountOf(tokenA === address ? pool.reserveB : pool.reserveA, counter);
+        if (!(own > 0 && other > 0)) continue;
+
+        const depth = other * prices[counter];
+        if (!best || depth > best.depth) {
+          best = { price: (other / own) * prices[counter], depth };
+        }
+      }
+
+      if (best) {
+        prices[address] = best.price;
+        priced = true;
+      }
+    }
+    if (!priced) break;
+  }
+
+  return prices;
+}
+
+/**
+ * Value balances against the given pool states
+ */
+export function valuePortfolio(input: ValuationInput): PortfolioSnapshot {
+  const prices = derivePrices(input.tokens, input.pools, input.referencePrices);
+  const holdings: HoldingValue[] = [];
+
+  for (const token of input.tokens) {
+    const address = token.address.toLowerCase();
+    const amount = input.balances[address] ?? BigInt(0);
+    if (amount === BigInt(0)) continue;
+
+    holdings.push({
+      kind: 'token',
+      address,
+      symbol: token.symbol,
+      amount,
+      valueUsd: Number(formatUnits(amount, token.decimals)) * (prices[address] ?? 0),
+    });
+  }
+
+  const decimals = new Map(input.tokens.map((token) => [token.address.toLowerCase(), token.decimals]));
+  for (const pool of input.pools) {
+    const address = pool.address.toLowerCase();
+    const amount = input.balances[address] ?? BigInt(0);
+    if (amount === BigInt(0) || pool.totalSupply === BigInt(0)) continue;
+
+    const [tokenA, tokenB] = [pool.tokenA.toLowerCase(), pool.tokenB.toLowerCase()];
+    const poolValue =
+      Number(formatUnits(pool.reserveA, decimals.get(tokenA) ?? 18)) * (prices[tokenA] ?? 0) +
+      Number(formatUnits(pool.reserveB, decimals.get(tokenB) ?? 18)) * (prices[tokenB] ?? 0);
+    const share = Number((amount * SHARE_SCALE) / pool.totalSupply) / Number(SHARE_SCALE);
+
+    holdings.push({
+      kind: 'lp',
+      address,
+      symbol: pool.symbol,
+      amount,
+      valueUsd: poolValue * share,
+      feeGrowth: feeGrowth(pool),
+    });
+  }
+
+  const tokenValueUsd = sumValue(holdings.filter((holding) => holding.kind === 'token'));
+  const lpValueUsd = sumValue(holdings.filter((holding) => holding.kind === 'lp'));
+
+  return {
+    timestamp: input.timestamp,
+    blockNumber: input.blockNumber,
+    source: input.source,
+    totalValueUsd: tokenValueUsd + lpValueUsd,
+    tokenValueUsd,
+    lpValueUsd,
+    prices,
+    holdings,
+  };
+}
+
+/**
+ * Undo confirmed transactions from the current balances backwards
+ * @returns The balances before the first transaction (at `startTimestamp`),
+ *          then the balances after each transaction, oldest first
+ */
+export function reconstructBalanceHistory(
+  current: Record<string, bigint>,
+  transactions: Transaction[],
+  startTimestamp: number
+): BalancePoint[] {
+  const ordered = transactions
+    .filter((tx) => tx.status === TransactionStatus.CONFIRMED)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const points: BalancePoint[] = new Array(ordered.length + 1);
+  let balances = { ...current };
+
+  for (let i = ordered.length - 1; i >= 0; i--) {
+    points[i + 1] = { timestamp: ordered[i].timestamp, balances };
+
+    const previous = { ...balances };
+    for (const [address, delta] of Object.entries(balanceDeltas(ordered[i]))) {
+      const amount = (previous[address] ?? BigInt(0)) - delta;
+      previous[address] = amount < BigInt(0) ? BigInt(0) : amount;
+    }
+    balances = previous;
+  }
+
+  points[0] = { timestamp: Math.min(startTimestamp, ordered[0]?.timestamp ?? startTimestamp), balances };
+  return points;
+}
+
+/**
+ * Split the change between the first and last snapshot
+ * @param snapshots Snapshots of the range, oldest first
+ */
+export function attributePnl(snapshots: PortfolioSnapshot[], transactions: Transaction[]): PnlAttribution {
+  const first = snapshots[0];
+  const last = snapshots[snapshots.length - 1];
+  const result: PnlAttribution = {
+    startValue: first?.totalValueUsd ?? 0,
+    endValue: last?.totalValueUsd ?? 0,
+    change: 0,
+    priceMoves: 0,
+    swaps: 0,
+    lpFees: 0,
+    transfers: 0,
+  };
+  if (!first || !last || snapshots.length < 2) return result;
+
+  result.change = result.endValue - result.startValue;
+
+  for (const tx of transactions) {
+    if (tx.status !== TransactionStatus.CONFIRMED || tx.timestamp <= first.timestamp || tx.timestamp > last.timestamp) {
+      continue;
+    }
+
+    const prices = snapshotAt(snapshots, tx.timestamp).prices;
+    const valueIn = tx.tokenIn && tx.amountIn !== undefined ? tokenValue(tx.amountIn, tx.tokenIn, prices) : 0;
+    const valueOut = tx.tokenOut && tx.amountOut !== undefined ? tokenValue(tx.amountOut, tx.tokenOut, prices) : 0;
+
+    if (tx.type === TransactionType.SWAP) {
+      result.swaps += valueOut - valueIn;
+    } else if (tx.type === TransactionType.SPL_TRANSFER) {
+      result.transfers += valueOut - valueIn;
+    }
+  }
+
+  for (let i = 1; i < snapshots.length; i++) {
+    for (const holding of snapshots[i - 1].holdings) {
+      if (holding.kind !== 'lp' || !holding.feeGrowth) continue;
+
+      const next = snapshots[i].holdings.find((candidate) => candidate.address === holding.address);
+      if (next?.feeGrowth && next.feeGrowth > holding.feeGrowth) {
+        result.lpFees += holding.valueUsd * (next.feeGrowth / holding.feeGrowth - 1);
+      }
+    }
+  }
+
+  result.priceMoves = result.change - result.swaps - result.lpFees - result.transfers;
+  return result;
+}
+
+/**
+ * Thin out old snapshots: every 5 minutes for the last day, hourly for the
+ * last week and daily before that. The newest snapshot of each slot is kept.
+ */
+export function compactSnapshots(snapshots: PortfolioSnapshot[], now: number): PortfolioSnapshot[] {
+  const bySlot = new Map<string, PortfolioSnapshot>();
+
+  for (const snapshot of snapshots) {
+    const age = now - snapshot.timestamp;
+    const slotMs = age <= DAY_MS ? FIVE_MINUTES_MS : age <= 7 * DAY_MS ? HOUR_MS : DAY_MS;
+    const slot = `${slotMs}:${Math.floor(snapshot.timestamp / slotMs)}`;
+
+    const existing = bySlot.get(slot);
+    if (!existing || snapshot.timestamp >= existing.timestamp) {
+      bySlot.set(slot, snapshot);
+    }
+  }
+
+  return Array.from(bySlot.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Snapshot in force at `timestamp` (the first one if none is older)
+ */
+export function snapshotAt(snapshots: PortfolioSnapshot[], timestamp: number): PortfolioSnapshot {
+  let result = snapshots[0];
+  for (const snapshot of snapshots) {
+    if (snapshot.timestamp > timestamp) break;
+    result = snapshot;
+  }
+  return result;
+}
+
+/**
+ * Balance changes a transaction caused, by lowercase address
+ */
+function balanceDeltas(tx: Transaction): Record<string, bigint> {
+  const deltas: Record<string, bigint> = {};
+  const add = (address: string | undefined, amount: bigint | undefined) => {
+    if (!address || amount === undefined) return;
+    const key = address.toLowerCase();
+    deltas[key] = (deltas[key] ?? BigInt(0)) + amount;
+  };
+
+  const tokenIn = tx.tokenIn?.address;
+  const tokenOut = tx.tokenOut?.address;
+
+  switch (tx.type) {
+    case TransactionType.SWAP:
+      add(tokenIn, tx.amountIn === undefined ? undefined : -tx.amountIn);
+      add(tokenOut, tx.amountOut);
+      break;
+    case TransactionType.ADD_LIQUIDITY:
+      // tokenIn/tokenOut are the pool's token A and B
+      add(tokenIn, tx.amountIn === undefined ? undefined : -tx.amountIn);
+      add(tokenOut, tx.amountOut === undefined ? undefined : -tx.amountOut);
+      add(tx.poolId, tx.lpTokens);
+      break;
+    case TransactionType.REMOVE_LIQUIDITY:
+      add(tokenIn, tx.amountIn);
+      add(tokenOut, tx.amountOut);
+      add(tx.poolId, tx.lpTokens === undefined ? undefined : -tx.lpTokens);
+      break;
+    case TransactionType.SPL_TRANSFER:
+      add(tokenIn, tx.amountIn === undefined ? undefined : -tx.amountIn);
+      add(tokenOut, tx.amountOut);
+      break;
+  }
+  return deltas;
+}
+
+function feeGrowth(pool: PortfolioPool): number {
+  if (pool.totalSupply === BigInt(0)) return 0;
+  return Number((sqrt(pool.reserveA * pool.reserveB) * GROWTH_SCALE) / pool.totalSupply) / Number(GROWTH_SCALE);
+}
+
+function tokenValue(amount: bigint, token: { address: string; decimals: number }, prices: Record<string, number>): number {
+  return Number(formatUnits(amount, token.decimals)) * (prices[token.address.toLowerCase()] ?? 0);
+}
+
+const sumValue = (holdings: HoldingValue[]) => holdings.reduce((sum, holding) => sum + holding.valueUsd, 0);
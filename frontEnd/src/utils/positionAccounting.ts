@@ -0,0 +1,171 @@
+// LP position accounting: cost basis, fees and impermanent loss for SAMM pools
+//
+// Swap fees stay in the reserves, so sqrt(reserveA * reserveB) per LP token only
+// grows through fees. Comparing that growth at entry and now splits a position's
+// value change into fees earned and impermanent loss versus simply holding the
+// deposited tokens. Entry growth comes from the add-liquidity event itself, as a
+// proportional deposit has amountA / lpTokens = reserveA / totalSupply.
+
+import { sqrt } from './calculations';
+
+const GROWTH_SCALE = BigInt(10) ** BigInt(18);
+const ZERO = BigInt(0);
+
+export interface LiquidityEvent {
+  kind: 'add' | 'remove';
+  amountA: bigint;
+  amountB: bigint;
+  lpTokens: bigint;
+  timestamp: number;
+}
+
+export interface PoolSnapshot {
+  reserveA: bigint;
+  reserveB: bigint;
+  totalSupply: bigint;
+}
+
+/**
+ * All values are in token B base units, pricing token A at the pool price
+ * (current price for open positions, withdrawal price for realised fees)
+ */
+export interface PositionAccounting {
+  // LP tokens explained by the events; less than the balance when the history is partial
+  trackedLpTokens: bigint;
+  basisComplete: boolean;
+  firstDepositAt?: number;
+
+  // Deposited amounts still attributed to the open position
+  costBasisA: bigint;
+  costBasisB: bigint;
+  // Underlying amounts of the tracked LP tokens today
+  currentA: bigint;
+  currentB: bigint;
+
+  holdValue: bigint;
+  currentValue: bigint;
+  unrealisedFeesA: bigint;
+  unrealisedFeesB: bigint;
+  unrealisedFeesValue: bigint;
+  realisedFeesA: bigint;
+  realisedFeesB: bigint;
+  realisedFeesValue: bigint;
+  impermanentLoss: bigint;
+  impermanentLossPercent: number;
+  netVsHold: bigint;
+  netVsHoldPercent: number;
+}
+
+function growthPerLp(amountA: bigint, amountB: bigint, lpTokens: bigint): bigint {
+  return lpTokens > ZERO ? (sqrt(amountA * amountB) * GROWTH_SCALE) / lpTokens : ZERO;
+}
+
+function valueInB(amountA: bigint, amountB: bigint, priceA: bigint, priceB: bigint): bigint {
+  return priceA > ZERO ? amountB + (amountA * priceB) / priceA : amountB;
+}
+
+function percentOf(part: bigint, whole: bigint): number {
+  return whole > ZERO ? (Number(part) / Number(whole)) * 100 : 0;
+}
+
+/**
+ * Replay a wallet's add/remove events for one pool (oldest first) with average
+ * cost, then price what is left against the pool's current state.
+ * `lpBalance` is the wallet's balance now; LP tokens moved in by transfer have
+ * no basis, and transfers out shrink the tracked position pro rata.
+ */
+export function computePositionAccounting(
+  events: LiquidityEvent[],
+  pool: PoolSnapshot,
+  lpBalance: bigint
+): PositionAccounting {
+  let lp = ZERO;
+  let basisA = ZERO;
+  let basisB = ZERO;
+  // Sum of lpTokens * entry growth, so weight / lp is the average entry growth
+  let growthWeight = ZERO;
+  let realisedFeesA = ZERO;
+  let realisedFeesB = ZERO;
+  let realisedFeesValue = ZERO;
+  let firstDepositAt: number | undefined;
+
+  for (const event of events) {
+    if (event.lpTokens <= ZERO) continue;
+
+    if (event.kind === 'add') {
+      lp += event.lpTokens;
+      basisA += event.amountA;
+      basisB += event.amountB;
+      growthWeight += event.lpTokens * growthPerLp(event.amountA, event.amountB, event.lpTokens);
+      if (firstDepositAt === undefined) firstDepositAt = event.timestamp;
+      continue;
+    }
+
+    // Burns of LP the history never saw minted carry no basis
+    const burned = event.lpTokens < lp ? event.lpTokens : lp;
+    if (burned === ZERO) continue;
+
+    const entryGrowth = growthWeight / lp;
+    const exitGrowth = growthPerLp(event.amountA, event.amountB, event.lpTokens);
+    if (exitGrowth > entryGrowth) {
+      const trackedA = (event.amountA * burned) / event.lpTokens;
+      const trackedB = (event.amountB * burned) / event.lpTokens;
+      const feeA = (trackedA * (exitGrowth - entryGrowth)) / exitGrowth;
+      const feeB = (trackedB * (exitGrowth - entryGrowth)) / exitGrowth;
+      realisedFeesA += feeA;
+      realisedFeesB += feeB;
+      realisedFeesValue += valueInB(feeA, feeB, event.amountA, event.amountB);
+    }
+
+    basisA -= (basisA * burned) / lp;
+    basisB -= (basisB * burned) / lp;
+    growthWeight -= (growthWeight * burned) / lp;
+    lp -= burned;
+  }
+
+  // LP sent to another wallet leaves with its share of the basis
+  const trackedLpTokens = lp < lpBalance ? lp : lpBalance;
+  if (lp > trackedLpTokens) {
+    basisA = (basisA * trackedLpTokens) / lp;
+    basisB = (basisB * trackedLpTokens) / lp;
+    growthWeight = (growthWeight * trackedLpTokens) / lp;
+  }
+
+  const currentA = pool.totalSupply > ZERO ? (trackedLpTokens * pool.reserveA) / pool.totalSupply : ZERO;
+  const currentB = pool.totalSupply > ZERO ? (trackedLpTokens * pool.reserveB) / pool.totalSupply : ZERO;
+  const currentGrowth = growthPerLp(pool.reserveA, pool.reserveB, pool.totalSupply);
+  const entryGrowth = trackedLpTokens > ZERO ? growthWeight / trackedLpTokens : ZERO;
+
+  // What the tracked LP would be worth had no fees been paid into the pool
+  const [noFeeA, noFeeB] = currentGrowth > ZERO && entryGrowth < currentGrowth
+    ? [(currentA * entryGrowth) / currentGrowth, (currentB * entryGrowth) / currentGrowth]
+    : [currentA, currentB];
+
+  const holdValue = valueInB(basisA, basisB, pool.reserveA, pool.reserveB);
+  const currentValue = valueInB(currentA, currentB, pool.reserveA, pool.reserveB);
+  const noFeeValue = valueInB(noFeeA, noFeeB, pool.reserveA, pool.reserveB);
+  const impermanentLoss = noFeeValue - holdValue;
+  const netVsHold = currentValue - holdValue;
+
+  return {
+    trackedLpTokens,
+    basisComplete: trackedLpTokens === lpBalance,
+    firstDepositAt,
+    costBasisA: basisA,
+    costBasisB: basisB,
+    currentA,
+    currentB,
+    holdValue,
+    currentValue,
+    unrealisedFeesA: currentA - noFeeA,
+    unrealisedFeesB: currentB - noFeeB,
+    unrealisedFeesValue: currentValue - noFeeValue,
+    realisedFeesA,
+    realisedFeesB,
+    realisedFeesValue,
+    impermanentLoss,
+    impermanentLossPercent: percentOf(impermanentLoss, holdValue),
+    netVsHold,
+    netVsHoldPercent: percentOf(netVsHold, holdValue),
+  };
+}
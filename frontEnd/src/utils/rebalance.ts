@@ -0,0 +1,34 @@
+import type { PoolState } from '@/services/evmLiquidityService';
+
+const RATIO_PRECISION = BigInt(10) ** BigInt(18);
+
+export interface DepositAmounts {
+  amountA: bigint;
+  amountB: bigint;
+}
+
+/**
+ * Largest deposit at a pool's current ratio that fits in the given balances
+ *
+ * Balances are keyed by lowercased token address, so tokens withdrawn from a
+ * shard with the opposite token order still line up with the target pool.
+ */
+export function depositAtPoolRatio(
+  balances: Record<string, bigint>,
+  pool: Pick<PoolState, 'tokenA' | 'tokenB' | 'reserveA' | 'reserveB'>
+): DepositAmounts {
+  const availableA = balances[pool.tokenA.toLowerCase()] ?? BigInt(0);
+  const availableB = balances[pool.tokenB.toLowerCase()] ?? BigInt(0);
+  if (pool.reserveA === BigInt(0) || pool.reserveB === BigInt(0)) {
+    return { amountA: BigInt(0), amountB: BigInt(0) };
+  }
+
+  const ratioA = (availableA * RATIO_PRECISION) / pool.reserveA;
+  const ratioB = (availableB * RATIO_PRECISION) / pool.reserveB;
+  const ratio = ratioA < ratioB ? ratioA : ratioB;
+
+  return {
+    amountA: (pool.reserveA * ratio) / RATIO_PRECISION,
+    amountB: (pool.reserveB * ratio) / RATIO_PRECISION,
+  };
+}
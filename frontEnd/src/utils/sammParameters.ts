@@ -0,0 +1,102 @@
+/**
+ * SAMM curve parameters for new shards
+ *
+ * SAMMPoolFactory takes β1, rmin, rmax and c scaled by 1e6; the UI edits
+ * them as plain decimals (β1 = -1.05, rmin = 0.001, ...)
+ */
+
+import { SammParameters, getDexConfig } from '@/config/dex-config-loader';
+
+export const SAMM_PARAMETER_SCALE = 1_000_000;
+
+// SAMMPoolFactory BETA1_DEFAULT, RMIN_DEFAULT, RMAX_DEFAULT and C_DEFAULT
+export const DEFAULT_SAMM_PARAMETERS: SammParameters = {
+  beta1: -1_050_000,
+  rmin: 1_000,
+  rmax: 12_000,
+  c: 10_400,
+};
+
+// Locked by the pool on initialization; the first deposit has to mint more
+export const MINIMUM_LIQUIDITY = BigInt(1000);
+
+export type SammParameterKey = keyof SammParameters;
+
+export const SAMM_PARAMETER_LABELS: Record<SammParameterKey, { label: string; description: string }> = {
+  beta1: { label: 'β1', description: 'Fee slope against trade size; must be negative' },
+  rmin: { label: 'rmin', description: 'Minimum fee rate charged on the smallest trades' },
+  rmax: { label: 'rmax', description: 'Maximum fee rate; must exceed rmin' },
+  c: { label: 'c', description: 'Largest trade as a share of the output reserve' },
+};
+
+/**
+ * Chain defaults from the DEX config, falling back to the factory defaults
+ */
+export function getDefaultSammParameters(chainId: number): SammParameters {
+  const config = getDexConfig(chainId);
+  return { ...DEFAULT_SAMM_PARAMETERS, ...config?.sammParameters };
+}
+
+export function toDecimalSammParameters(params: SammParameters): SammParameters {
+  return {
+    beta1: params.beta1 / SAMM_PARAMETER_SCALE,
+    rmin: params.rmin / SAMM_PARAMETER_SCALE,
+    rmax: params.rmax / SAMM_PARAMETER_SCALE,
+    c: params.c / SAMM_PARAMETER_SCALE,
+  };
+}
+
+export function toScaledSammParameters(params: SammParameters): SammParameters {
+  return {
+    beta1: Math.round(params.beta1 * SAMM_PARAMETER_SCALE),
+    rmin: Math.round(params.rmin * SAMM_PARAMETER_SCALE),
+    rmax: Math.round(params.rmax * SAMM_PARAMETER_SCALE),
+    c: Math.round(params.c * SAMM_PARAMETER_SCALE),
+  };
+}
+
+/**
+ * The factory's checks on scaled parameters, keyed by the offending field
+ */
+export function validateSammParameters(params: SammParameters): Partial<Record<SammParameterKey, string>> {
+  const errors: Partial<Record<SammParameterKey, string>> = {};
+
+  for (const key of Object.keys(SAMM_PARAMETER_LABELS) as SammParameterKey[]) {
+    if (!Number.isSafeInteger(params[key])) {
+      errors[key] = `${SAMM_PARAMETER_LABELS[key].label} must have at most 6 decimals`;
+    }
+  }
+
+  if (!errors.beta1 && params.beta1 >= 0) {
+    errors.beta1 = 'β1 must be negative';
+  }
+  if (!errors.rmin && params.rmin <= 0) {
+    errors.rmin = 'rmin must be positive';
+  }
+  if (!errors.rmax && !errors.rmin && params.rmax <= params.rmin) {
+    errors.rmax = 'rmax must be greater than rmin';
+  }
+  if (!errors.c && params.c <= 0) {
+    errors.c = 'c must be positive';
+  }
+
+  return errors;
+}
+
+/**
+ * LP tokens minted to the provider of a shard's first deposit
+ */
+export function initialLpTokens(amountA: bigint, amountB: bigint): bigint {
+  const product = amountA * amountB;
+  if (product === BigInt(0)) return BigInt(0);
+
+  // Integer square root, as the pool computes it
+  let x = product;
+  let y = (x + BigInt(1)) / BigInt(2);
+  while (y < x) {
+    x = y;
+    y = (x + product / x) / BigInt(2);
+  }
+
+  return x > MINIMUM_LIQUIDITY ? x - MINIMUM_LIQUIDITY : BigInt(0);
+}
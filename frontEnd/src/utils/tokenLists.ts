@@ -0,0 +1,145 @@
+/**
+ * Token list utilities
+ *
+ * Parsing for token lists in the standard tokenlists.org schema and the
+ * merge rules that combine them with the built-in and user-added tokens
+ */
+
+import { getAddress, isAddress } from 'viem';
+import { EVMToken, getTokensByChainId } from '@/config/evm-tokens';
+
+export type TokenSource = 'default' | 'list' | 'custom';
+
+export interface ManagedToken extends EVMToken {
+  source: TokenSource;
+  // Name of the imported list the token came from
+  listName?: string;
+  // Only the tokens shipped with the DEX config count as verified
+  verified: boolean;
+}
+
+export interface ImportedTokenList {
+  name: string;
+  // Where the list was fetched from; absent for uploaded files
+  url?: string;
+  importedAt: number;
+  tokens: EVMToken[];
+}
+
+export interface ParsedTokenList {
+  name: string;
+  tokens: EVMToken[];
+  // Entries for other chains or with invalid fields
+  skipped: number;
+}
+
+// Token list document and entry as fetched, before validation
+interface RawTokenList {
+  name?: unknown;
+  tokens: unknown[];
+}
+
+interface RawListToken {
+  chainId: number;
+  address: string;
+  decimals: number;
+  symbol: string;
+  name: string;
+  logoURI?: unknown;
+}
+
+const MAX_SYMBOL_LENGTH = 20;
+const MAX_NAME_LENGTH = 60;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isRawTokenList(value: unknown): value is RawTokenList {
+  return isRecord(value) && Array.isArray(value.tokens);
+}
+
+function isValidListToken(entry: unknown, chainId: number): entry is RawListToken {
+  return (
+    isRecord(entry) &&
+    entry.chainId === chainId &&
+    typeof entry.address === 'string' &&
+    isAddress(entry.address, { strict: false }) &&
+    typeof entry.decimals === 'number' &&
+    Number.isInteger(entry.decimals) &&
+    entry.decimals >= 0 &&
+    entry.decimals <= 255 &&
+    typeof entry.symbol === 'string' &&
+    entry.symbol.trim().length > 0 &&
+    entry.symbol.length <= MAX_SYMBOL_LENGTH &&
+    typeof entry.name === 'string' &&
+    entry.name.length <= MAX_NAME_LENGTH
+  );
+}
+
+/**
+ * Parse a token list and keep the valid entries for `chainId`. Throws when
+ * the document is not a token list at all; individual bad entries are
+ * counted in `skipped` instead so one typo does not reject a whole list.
+ */
+export function parseTokenList(data: unknown, chainId: number): ParsedTokenList {
+  const list: unknown = typeof data === 'string' ? JSON.parse(data) : data;
+  if (!isRawTokenList(list)) {
+    throw new Error('Not a token list: missing tokens array');
+  }
+  const name = typeof list.name === 'string' && list.name.trim()
+    ? list.name.trim()
+    : 'Imported list';
+
+  const tokens: EVMToken[] = [];
+  const seen = new Set<string>();
+  let skipped = 0;
+
+  for (const entry of list.tokens) {
+    if (!isValidListToken(entry, chainId)) {
+      skipped++;
+      continue;
+    }
+    const address = getAddress(entry.address);
+    if (seen.has(address.toLowerCase())) {
+      skipped++;
+      continue;
+    }
+    seen.add(address.toLowerCase());
+    tokens.push({
+      address,
+      symbol: entry.symbol.trim(),
+      name: entry.name.trim() || entry.symbol.trim(),
+      decimals: entry.decimals,
+      logoURI: typeof entry.logoURI === 'string' ? entry.logoURI : undefined,
+      chainId,
+    });
+  }
+
+  return { name, tokens, skipped };
+}
+
+/**
+ * Combine the built-in tokens with imported lists and custom tokens. An
+ * address appears once; built-in entries win over lists, and lists over
+ * custom tokens, so importing a list can never override a verified token.
+ */
+export function mergeTokenSources(
+  chainId: number,
+  lists: ImportedTokenList[],
+  customTokens: EVMToken[]
+): ManagedToken[] {
+  const merged = new Map<string, ManagedToken>();
+  const add = (token: EVMToken, source: TokenSource, listName?: string) => {
+    const key = token.address.toLowerCase();
+    if (!merged.has(key)) {
+      merged.set(key, { ...token, source, listName, verified: source === 'default' });
+    }
+  };
+
+  getTokensByChainId(chainId).forEach((token) => add(token, 'default'));
+  lists.forEach((list) => list.tokens.forEach((token) => add(token, 'list', list.name)));
+  customTokens.forEach((token) => add(token, 'custom'));
+
+  return Array.from(merged.values());
+}